@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canCoach, getMemberRole, listMembers } from '@/lib/organizations'
+import { assignmentProgress, buildAssignmentOverview, parseAssignmentFields } from '@/lib/assignments'
+import { ASSIGNMENT_COLUMNS, loadAssignment, loadSubmissions } from '@/lib/runs/assignment'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/assignments/[id]
+ * An assignment (members of its organization). Coaches get the grading overview
+ * (who submitted, scores, late status); learners get their own progress.
+ * Output: { ok: true, assignment, organization_name, role, overview?, progress? }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const assignment = await loadAssignment(params.id)
+    const role = assignment ? await getMemberRole(assignment.organization_id, user.id) : null
+    if (!assignment || !role) {
+      return NextResponse.json(
+        { ok: false, error: 'Assignment not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: organization } = await getSupabaseAdmin()
+      .from('organizations')
+      .select('name')
+      .eq('id', assignment.organization_id)
+      .maybeSingle()
+
+    if (canCoach(role)) {
+      const [members, submissions] = await Promise.all([
+        listMembers(assignment.organization_id),
+        loadSubmissions([assignment.id]),
+      ])
+      return NextResponse.json(
+        {
+          ok: true,
+          assignment,
+          organization_name: organization?.name ?? null,
+          role,
+          overview: buildAssignmentOverview(assignment, members, submissions),
+        },
+        { headers: { 'Cache-Control': 'no-store' } }
+      )
+    }
+
+    const submissions = await loadSubmissions([assignment.id], user.id)
+    return NextResponse.json(
+      {
+        ok: true,
+        assignment,
+        organization_name: organization?.name ?? null,
+        role,
+        progress: assignmentProgress(assignment, submissions),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/assignments/[id]
+ * Edit an assignment (owners and coaches). The rubric snapshot can't change once learners may have submitted.
+ * Input: { title?, prompt?, due_at?, max_attempts? } - null clears due_at / max_attempts
+ * Output: { ok: true, assignment }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await loadAssignment(params.id)
+    const role = existing ? await getMemberRole(existing.organization_id, user.id) : null
+    if (!existing || !role) {
+      return NextResponse.json(
+        { ok: false, error: 'Assignment not found' },
+        { status: 404 }
+      )
+    }
+    if (!canCoach(role)) {
+      return NextResponse.json(
+        { ok: false, error: 'Only owners and coaches can edit assignments' },
+        { status: 403 }
+      )
+    }
+
+    const parsed = parseAssignmentFields(await request.json())
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error },
+        { status: 400 }
+      )
+    }
+    if (Object.keys(parsed.fields).length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'Nothing to update', details: 'Send title, prompt, due_at and/or max_attempts' },
+        { status: 400 }
+      )
+    }
+
+    const { data: assignment, error } = await getSupabaseAdmin()
+      .from('assignments')
+      .update(parsed.fields)
+      .eq('id', existing.id)
+      .select(ASSIGNMENT_COLUMNS)
+      .single()
+
+    if (error || !assignment) {
+      console.error('[Assignments] Failed to update assignment:', { id: existing.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update assignment', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, assignment })
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/assignments/[id]
+ * Delete an assignment (owners and coaches). Submitted runs are kept; their assignment_id is cleared.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const existing = await loadAssignment(params.id)
+    const role = existing ? await getMemberRole(existing.organization_id, user.id) : null
+    if (!existing || !role) {
+      return NextResponse.json(
+        { ok: false, error: 'Assignment not found' },
+        { status: 404 }
+      )
+    }
+    if (!canCoach(role)) {
+      return NextResponse.json(
+        { ok: false, error: 'Only owners and coaches can delete assignments' },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('assignments')
+      .delete()
+      .eq('id', existing.id)
+
+    if (error) {
+      console.error('[Assignments] Failed to delete assignment:', { id: existing.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete assignment', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
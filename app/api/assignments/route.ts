@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { listMemberships } from '@/lib/organizations'
+import { assignmentProgress } from '@/lib/assignments'
+import { ASSIGNMENT_COLUMNS, loadSubmissions } from '@/lib/runs/assignment'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/assignments
+ * Assignments the user has received as a learner, across their organizations, soonest due first
+ * Output: { ok: true, assignments: [{ ...Assignment, organization_name, progress }] }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const learnerOf = (await listMemberships(user.id)).filter(org => org.role === 'learner')
+    if (learnerOf.length === 0) {
+      return NextResponse.json({ ok: true, assignments: [] })
+    }
+
+    const { data: assignments, error } = await getSupabaseAdmin()
+      .from('assignments')
+      .select(ASSIGNMENT_COLUMNS)
+      .in('organization_id', learnerOf.map(org => org.id))
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Assignments] Failed to list assignments:', { userId: user.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load assignments', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const submissions = await loadSubmissions((assignments || []).map(assignment => assignment.id), user.id)
+    const names = new Map(learnerOf.map(org => [org.id, org.name]))
+    const dueTime = (dueAt: string | null) => (dueAt ? new Date(dueAt).getTime() : Infinity)
+
+    return NextResponse.json({
+      ok: true,
+      assignments: (assignments || [])
+        .map(assignment => ({
+          ...assignment,
+          organization_name: names.get(assignment.organization_id) ?? null,
+          progress: assignmentProgress(assignment, submissions.filter(run => run.assignment_id === assignment.id)),
+        }))
+        .sort((a, b) => dueTime(a.due_at) - dueTime(b.due_at)),
+    })
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
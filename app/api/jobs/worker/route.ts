@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processRunJobs } from '@/lib/jobs'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const DEFAULT_BATCH_SIZE = 5
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.JOBS_WORKER_SECRET || process.env.CRON_SECRET
+  if (!secret) {
+    // No secret configured: only allow in development
+    return process.env.NODE_ENV !== 'production'
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * GET|POST /api/jobs/worker?limit=N
+ * Drains due transcription/analysis jobs and reaps stuck ones.
+ * Meant to be called by a scheduler (Vercel Cron sends GET with CRON_SECRET).
+ */
+async function handle(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+  const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 20) : DEFAULT_BATCH_SIZE
+
+  try {
+    const result = await processRunJobs({ limit })
+    console.log('[Jobs Worker] Pass complete:', result)
+    return NextResponse.json({ ok: true, ...result })
+  } catch (error: any) {
+    console.error('[Jobs Worker] Error:', { error: error.message })
+    return NextResponse.json(
+      { ok: false, error: 'Worker failed', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { canCoach, getMemberRole, listMembers } from '@/lib/organizations'
+import { buildCohortAnalytics, cohortRunsCsv, MAX_COHORT_DAYS, type CohortRun } from '@/lib/cohort'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations/[id]/analytics
+ * Cohort analytics across the organization's learners (owners and coaches): per-criterion
+ * averages, common issue categories, pace and filler distributions, improvement curves
+ * Input: ?days= (1-365, default all runs), ?format=csv for one row per learner run
+ * Output: { ok: true, days, analytics: CohortAnalytics }, or a CSV download
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (!canCoach(role)) {
+      return NextResponse.json(
+        { ok: false, error: role ? 'Only owners and coaches can view team analytics' : 'Organization not found' },
+        { status: role ? 403 : 404 }
+      )
+    }
+
+    const daysParam = request.nextUrl.searchParams.get('days')
+    const days = daysParam ? Number(daysParam) : null
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_COHORT_DAYS)) {
+      return NextResponse.json(
+        { ok: false, error: `days must be a whole number from 1 to ${MAX_COHORT_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const members = await listMembers(params.id)
+    const learnerIds = members.filter(member => member.role === 'learner').map(member => member.user_id)
+
+    let runs: CohortRun[] = []
+    if (learnerIds.length > 0) {
+      let query = getSupabaseAdmin()
+        .from('pitch_runs')
+        .select('id, user_id, created_at, title, status, duration_ms, audio_seconds, words_per_minute, language, analysis_json')
+        .in('user_id', learnerIds)
+        // Q&A answers count toward their pitch, not as runs of their own
+        .is('parent_run_id', null)
+      if (days !== null) {
+        query = query.gte('created_at', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString())
+      }
+      const { data, error } = await query
+
+      if (error) {
+        console.error('[Organizations] Failed to load cohort runs:', { id: params.id, error })
+        return NextResponse.json(
+          { ok: false, error: 'Failed to load analytics', details: error.message },
+          { status: 500 }
+        )
+      }
+      runs = (data || []).map(run => ({ ...run, analysis_json: upgradeAnalysisJson(run.analysis_json) }))
+    }
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const date = new Date().toISOString().slice(0, 10)
+      return new NextResponse(cohortRunsCsv(members, runs), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="team_analytics_${date}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ ok: true, days, analytics: buildCohortAnalytics(members, runs) })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canCoach, getMemberRole, listMembers } from '@/lib/organizations'
+import { assignmentProgress, buildAssignmentOverview, parseAssignmentFields, snapshotRubric } from '@/lib/assignments'
+import { ASSIGNMENT_COLUMNS, loadSubmissions } from '@/lib/runs/assignment'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations/[id]/assignments
+ * The organization's assignments, newest first (members only)
+ * Output: { ok: true, role, assignments: [{ ...Assignment, submitted_count, late_count, learner_count }] } for coaches,
+ *   { ok: true, role, assignments: [{ ...Assignment, progress }] } for learners
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json(
+        { ok: false, error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: assignments, error } = await getSupabaseAdmin()
+      .from('assignments')
+      .select(ASSIGNMENT_COLUMNS)
+      .eq('organization_id', params.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Assignments] Failed to list assignments:', { organizationId: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load assignments', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const ids = (assignments || []).map(assignment => assignment.id)
+    if (canCoach(role)) {
+      const [members, submissions] = await Promise.all([listMembers(params.id), loadSubmissions(ids)])
+      return NextResponse.json({
+        ok: true,
+        role,
+        assignments: (assignments || []).map(assignment => {
+          const overview = buildAssignmentOverview(
+            assignment,
+            members,
+            submissions.filter(run => run.assignment_id === assignment.id)
+          )
+          return {
+            ...assignment,
+            learner_count: overview.learner_count,
+            submitted_count: overview.submitted_count,
+            late_count: overview.late_count,
+          }
+        }),
+      })
+    }
+
+    const submissions = await loadSubmissions(ids, user.id)
+    return NextResponse.json({
+      ok: true,
+      role,
+      assignments: (assignments || []).map(assignment => ({
+        ...assignment,
+        progress: assignmentProgress(assignment, submissions.filter(run => run.assignment_id === assignment.id)),
+      })),
+    })
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/organizations/[id]/assignments
+ * Assign a rubric to the organization's learners (owners and coaches)
+ * Input: { title, rubric_id, prompt?, due_at?, max_attempts? } - the rubric must be a template,
+ *   one of the caller's own or shared with this organization; it is snapshotted
+ * Output: { ok: true, assignment: Assignment }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (!canCoach(role)) {
+      return NextResponse.json(
+        { ok: false, error: role ? 'Only owners and coaches can create assignments' : 'Organization not found' },
+        { status: role ? 403 : 404 }
+      )
+    }
+
+    const body = await request.json()
+    const parsed = parseAssignmentFields({ ...body, title: body.title ?? '' })
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { ok: false, error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const rubricId = typeof body.rubric_id === 'string' ? body.rubric_id : null
+    const { data: rubric } = rubricId
+      ? await getSupabaseAdmin().from('rubrics').select('*').eq('id', rubricId).maybeSingle()
+      : { data: null }
+
+    const canUseRubric = !!rubric && (
+      rubric.is_template === true ||
+      rubric.user_id === user.id ||
+      rubric.organization_id === params.id
+    )
+    if (!canUseRubric) {
+      return NextResponse.json(
+        { ok: false, error: 'Rubric not found', details: 'Use a template, one of your rubrics or one shared with this team' },
+        { status: 400 }
+      )
+    }
+
+    const { data: assignment, error } = await getSupabaseAdmin()
+      .from('assignments')
+      .insert({
+        ...parsed.fields,
+        organization_id: params.id,
+        created_by: user.id,
+        rubric_id: rubric.id,
+        rubric_snapshot_json: snapshotRubric(rubric),
+      })
+      .select(ASSIGNMENT_COLUMNS)
+      .single()
+
+    if (error || !assignment) {
+      console.error('[Assignments] Failed to create assignment:', { organizationId: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create assignment', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, assignment })
+  } catch (error: any) {
+    console.error('[Assignments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canRemoveMember, getMemberRole, isOrganizationRole } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE - Cancel a pending invite (owners cancel any, coaches cancel learner invites)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; inviteId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const actorRole = await getMemberRole(params.id, user.id)
+    const { data: invite } = actorRole
+      ? await getSupabaseAdmin()
+          .from('organization_members')
+          .select('id, role')
+          .eq('id', params.inviteId)
+          .eq('organization_id', params.id)
+          .is('accepted_at', null)
+          .maybeSingle()
+      : { data: null }
+
+    if (!actorRole || !invite || !isOrganizationRole(invite.role)) {
+      return NextResponse.json(
+        { ok: false, error: actorRole ? 'Invite not found' : 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canRemoveMember(actorRole, invite.role, false)) {
+      return NextResponse.json(
+        { ok: false, error: 'You can not cancel this invite' },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organization_members')
+      .delete()
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+
+    if (error) {
+      console.error('[Organizations] Failed to cancel invite:', { id: params.id, inviteId: invite.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to cancel invite', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
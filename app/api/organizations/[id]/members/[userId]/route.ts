@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import {
+  canRemoveMember,
+  getMemberRole,
+  isOrganizationRole,
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+} from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+async function countOwners(organizationId: string): Promise<number> {
+  const { count } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('role', 'owner')
+    .not('accepted_at', 'is', null)
+  return count ?? 0
+}
+
+/**
+ * PATCH /api/organizations/[id]/members/[userId]
+ * Change a member's role (owners only; the last owner can't step down)
+ * Input: { role }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const actorRole = await getMemberRole(params.id, user.id)
+    if (actorRole !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: actorRole ? 'Only owners can change roles' : 'Organization not found' },
+        { status: actorRole ? 403 : 404 }
+      )
+    }
+
+    const body = await request.json()
+    if (!isOrganizationRole(body.role)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid role: ${body.role}`, details: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const role: OrganizationRole = body.role
+
+    const currentRole = await getMemberRole(params.id, params.userId)
+    if (!currentRole) {
+      return NextResponse.json(
+        { ok: false, error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+    if (currentRole === 'owner' && role !== 'owner' && (await countOwners(params.id)) <= 1) {
+      return NextResponse.json(
+        { ok: false, error: 'An organization needs at least one owner' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organization_members')
+      .update({ role })
+      .eq('organization_id', params.id)
+      .eq('user_id', params.userId)
+
+    if (error) {
+      console.error('[Organizations] Failed to change role:', { id: params.id, userId: params.userId, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to change role', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, role })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove a member (owners remove anyone, coaches remove learners, anyone can leave)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const actorRole = await getMemberRole(params.id, user.id)
+    const targetRole = actorRole ? await getMemberRole(params.id, params.userId) : null
+    if (!actorRole || !targetRole) {
+      return NextResponse.json(
+        { ok: false, error: actorRole ? 'Member not found' : 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canRemoveMember(actorRole, targetRole, params.userId === user.id)) {
+      return NextResponse.json(
+        { ok: false, error: 'You can not remove this member' },
+        { status: 403 }
+      )
+    }
+    if (targetRole === 'owner' && (await countOwners(params.id)) <= 1) {
+      return NextResponse.json(
+        { ok: false, error: 'An organization needs at least one owner', details: 'Delete the organization instead' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', params.id)
+      .eq('user_id', params.userId)
+
+    if (error) {
+      console.error('[Organizations] Failed to remove member:', { id: params.id, userId: params.userId, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to remove member', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import {
+  canAddMember,
+  canRemoveMember,
+  getMemberRole,
+  isOrganizationRole,
+  normalizeInviteEmail,
+  ORGANIZATION_ROLES,
+} from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/organizations/[id]/members
+ * Invite someone by email (owners invite any role, coaches invite learners). They become a
+ * member once they accept (POST /api/organizations/invites/[inviteId]); until then the
+ * invite grants no access. The reply doesn't say whether the email has an account.
+ * Input: { email, role? } - role is owner | coach | learner (default learner)
+ * Output: { ok: true, invite: { email, role } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const actorRole = await getMemberRole(params.id, user.id)
+    if (!actorRole) {
+      return NextResponse.json(
+        { ok: false, error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const email = typeof body.email === 'string' ? normalizeInviteEmail(body.email) : ''
+    const role = body.role ?? 'learner'
+
+    if (!email || !email.includes('@') || email.length > 320) {
+      return NextResponse.json(
+        { ok: false, error: 'A valid email is required' },
+        { status: 400 }
+      )
+    }
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid role: ${role}`, details: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (!canAddMember(actorRole, role)) {
+      return NextResponse.json(
+        { ok: false, error: actorRole === 'coach' ? 'Coaches can only add learners' : 'Only owners and coaches can add members' },
+        { status: 403 }
+      )
+    }
+
+    // An existing invite to this email is re-sent with the new role, unless the caller
+    // couldn't have created it (a coach can't turn an owner's coach invite into a learner one)
+    const { data: pending } = await getSupabaseAdmin()
+      .from('organization_members')
+      .select('id, role')
+      .eq('organization_id', params.id)
+      .eq('invited_email', email)
+      .is('accepted_at', null)
+      .maybeSingle()
+
+    let error: { message: string } | null = null
+    if (!pending) {
+      ({ error } = await getSupabaseAdmin()
+        .from('organization_members')
+        .insert({ organization_id: params.id, invited_email: email, role, invited_by: user.id }))
+    } else if (canRemoveMember(actorRole, pending.role, false)) {
+      ({ error } = await getSupabaseAdmin()
+        .from('organization_members')
+        .update({ role, invited_by: user.id })
+        .eq('id', pending.id))
+    }
+
+    if (error) {
+      console.error('[Organizations] Failed to invite member:', { id: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to invite member', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Same reply whether or not the email has an account, so invites can't be used to find out
+    return NextResponse.json({ ok: true, invite: { email, role } })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { buildRoster, canCoach, getMemberRole, listMembers } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations/[id]/roster
+ * Team roster for owners and coaches: each learner's run count, latest and average score
+ * Output: { ok: true, learners: RosterLearner[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (!canCoach(role)) {
+      return NextResponse.json(
+        { ok: false, error: role ? 'Only owners and coaches can view the roster' : 'Organization not found' },
+        { status: role ? 403 : 404 }
+      )
+    }
+
+    const members = await listMembers(params.id)
+    const learnerIds = members.filter(member => member.role === 'learner').map(member => member.user_id)
+
+    let runs: any[] = []
+    if (learnerIds.length > 0) {
+      const { data, error } = await getSupabaseAdmin()
+        .from('pitch_runs')
+        .select('id, user_id, created_at, status, analysis_json')
+        .in('user_id', learnerIds)
+        // Q&A answers count toward their pitch, not as runs of their own
+        .is('parent_run_id', null)
+
+      if (error) {
+        console.error('[Organizations] Failed to load learner runs:', { id: params.id, error })
+        return NextResponse.json(
+          { ok: false, error: 'Failed to load roster', details: error.message },
+          { status: 500 }
+        )
+      }
+      runs = (data || []).map(run => ({ ...run, analysis_json: upgradeAnalysisJson(run.analysis_json) }))
+    }
+
+    return NextResponse.json({ ok: true, learners: buildRoster(members, runs) })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import {
+  canCoach,
+  getMemberRole,
+  listInvites,
+  listMembers,
+  MAX_ORGANIZATION_NAME_CHARS,
+  ORGANIZATION_COLUMNS,
+} from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations/[id]
+ * An organization with its members and shared rubrics (members only)
+ * Output: { ok: true, organization, role, members: [{ user_id, email, role, joined_at }], invites, rubrics }
+ *   invites (pending, [{ id, email, role, invited_at }]) are only listed for owners and coaches
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (!role) {
+      return NextResponse.json(
+        { ok: false, error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: organization, error } = await getSupabaseAdmin()
+      .from('organizations')
+      .select(ORGANIZATION_COLUMNS)
+      .eq('id', params.id)
+      .single()
+
+    if (error || !organization) {
+      return NextResponse.json(
+        { ok: false, error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: rubrics, error: rubricsError } = await getSupabaseAdmin()
+      .from('rubrics')
+      .select('id, name, title, description, user_id, created_at')
+      .eq('organization_id', params.id)
+      .order('created_at', { ascending: false })
+
+    if (rubricsError) {
+      console.error('[Organizations] Failed to load shared rubrics:', { id: params.id, error: rubricsError })
+    }
+
+    // Learners see who coaches them, not the rest of the roster
+    const members = await listMembers(params.id)
+    const invites = canCoach(role) ? await listInvites(params.id) : []
+    return NextResponse.json({
+      ok: true,
+      organization,
+      role,
+      members: canCoach(role)
+        ? members
+        : members.filter(member => member.role !== 'learner' || member.user_id === user.id),
+      invites,
+      rubrics: rubrics || [],
+    })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/organizations/[id]
+ * Rename an organization (owners only)
+ * Input: { name }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: role ? 'Only owners can rename the organization' : 'Organization not found' },
+        { status: role ? 403 : 404 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > MAX_ORGANIZATION_NAME_CHARS) {
+      return NextResponse.json(
+        { ok: false, error: `Name is required (at most ${MAX_ORGANIZATION_NAME_CHARS} characters)` },
+        { status: 400 }
+      )
+    }
+
+    const { data: organization, error } = await getSupabaseAdmin()
+      .from('organizations')
+      .update({ name })
+      .eq('id', params.id)
+      .select(ORGANIZATION_COLUMNS)
+      .single()
+
+    if (error || !organization) {
+      console.error('[Organizations] Failed to rename organization:', { id: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update organization', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, organization })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete an organization (owners only); members' runs and rubrics are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const role = await getMemberRole(params.id, user.id)
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { ok: false, error: role ? 'Only owners can delete the organization' : 'Organization not found' },
+        { status: role ? 403 : 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organizations')
+      .delete()
+      .eq('id', params.id)
+
+    if (error) {
+      console.error('[Organizations] Failed to delete organization:', { id: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete organization', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
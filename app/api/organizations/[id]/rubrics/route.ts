@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canCoach, getMemberRole } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Share (POST) or stop sharing (DELETE) one of the caller's custom rubrics with the
+ * organization. Owners and coaches only; shared rubrics show up for every member
+ * (GET /api/rubrics?scope=team).
+ * Input: { rubric_id }
+ */
+async function setRubricOrganization(
+  request: NextRequest,
+  organizationId: string,
+  share: boolean
+) {
+  const supabase = await createClient()
+  const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+  if (userError || !user) {
+    return NextResponse.json(
+      { ok: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const role = await getMemberRole(organizationId, user.id)
+  if (!canCoach(role)) {
+    return NextResponse.json(
+      { ok: false, error: role ? 'Only owners and coaches can share rubrics' : 'Organization not found' },
+      { status: role ? 403 : 404 }
+    )
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const rubricId = typeof body.rubric_id === 'string' ? body.rubric_id : null
+  if (!rubricId) {
+    return NextResponse.json(
+      { ok: false, error: 'rubric_id is required' },
+      { status: 400 }
+    )
+  }
+
+  let query = getSupabaseAdmin()
+    .from('rubrics')
+    .update({ organization_id: share ? organizationId : null })
+    .eq('id', rubricId)
+    .eq('is_template', false)
+  // Any coach can unshare a rubric from the team; only its author can share it
+  query = share ? query.eq('user_id', user.id) : query.eq('organization_id', organizationId)
+
+  const { data: rubric, error } = await query
+    .select('id, name, title, description, user_id, created_at')
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Organizations] Failed to update shared rubric:', { organizationId, rubricId, error })
+    return NextResponse.json(
+      { ok: false, error: 'Failed to update rubric', details: error.message },
+      { status: 500 }
+    )
+  }
+
+  if (!rubric) {
+    return NextResponse.json(
+      { ok: false, error: 'Rubric not found' },
+      { status: 404 }
+    )
+  }
+
+  return NextResponse.json({ ok: true, rubric })
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return await setRubricOrganization(request, params.id, true)
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return await setRubricOrganization(request, params.id, false)
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
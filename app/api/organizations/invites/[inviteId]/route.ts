@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { isOrganizationRole, normalizeInviteEmail, ORGANIZATION_COLUMNS } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/** The pending invite, if it was sent to this user (by email, or as a pre-invite membership). */
+async function loadOwnInvite(inviteId: string, user: User) {
+  const { data: invite } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('id, organization_id, user_id, invited_email, role')
+    .eq('id', inviteId)
+    .is('accepted_at', null)
+    .maybeSingle()
+
+  if (!invite) return null
+  const sentToEmail = !!user.email && invite.invited_email === normalizeInviteEmail(user.email)
+  return invite.user_id === user.id || sentToEmail ? invite : null
+}
+
+/**
+ * POST /api/organizations/invites/[inviteId]
+ * Accept an invite: the user becomes a member with the invited role
+ * Output: { ok: true, organization: { ...Organization, role } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const invite = await loadOwnInvite(params.inviteId, user)
+    if (!invite || !isOrganizationRole(invite.role)) {
+      return NextResponse.json(
+        { ok: false, error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organization_members')
+      .update({ user_id: user.id, accepted_at: new Date().toISOString() })
+      .eq('id', invite.id)
+
+    // 23505: unique_violation - already a member through another row; the invite is spent
+    if (error?.code === '23505') {
+      await getSupabaseAdmin().from('organization_members').delete().eq('id', invite.id)
+    } else if (error) {
+      console.error('[Organizations] Failed to accept invite:', { inviteId: invite.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to accept invite', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const [{ data: organization }, { data: membership }] = await Promise.all([
+      getSupabaseAdmin().from('organizations').select(ORGANIZATION_COLUMNS).eq('id', invite.organization_id).single(),
+      getSupabaseAdmin()
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', invite.organization_id)
+        .eq('user_id', user.id)
+        .not('accepted_at', 'is', null)
+        .maybeSingle(),
+    ])
+
+    return NextResponse.json({
+      ok: true,
+      organization: organization ? { ...organization, role: membership?.role ?? invite.role } : null,
+    })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Decline an invite
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const invite = await loadOwnInvite(params.inviteId, user)
+    if (!invite) {
+      return NextResponse.json(
+        { ok: false, error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('organization_members')
+      .delete()
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+
+    if (error) {
+      console.error('[Organizations] Failed to decline invite:', { inviteId: invite.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to decline invite', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
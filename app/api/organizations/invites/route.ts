@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { listReceivedInvites } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations/invites
+ * The signed-in user's pending invites to organizations
+ * Output: { ok: true, invites: ReceivedInvite[] }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, invites: await listReceivedInvites(user.id, user.email) })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { listMemberships, MAX_ORGANIZATION_NAME_CHARS, ORGANIZATION_COLUMNS } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/organizations
+ * Organizations the signed-in user belongs to
+ * Output: { ok: true, organizations: [{ id, name, created_by, created_at, updated_at, role }] }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const organizations = await listMemberships(user.id)
+    return NextResponse.json({ ok: true, organizations })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/organizations
+ * Create an organization; the creator is its owner
+ * Input: { name }
+ * Output: { ok: true, organization: { ..., role: 'owner' } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > MAX_ORGANIZATION_NAME_CHARS) {
+      return NextResponse.json(
+        { ok: false, error: `Name is required (at most ${MAX_ORGANIZATION_NAME_CHARS} characters)` },
+        { status: 400 }
+      )
+    }
+
+    const { data: organization, error } = await getSupabaseAdmin()
+      .from('organizations')
+      .insert({ name, created_by: user.id })
+      .select(ORGANIZATION_COLUMNS)
+      .single()
+
+    if (error || !organization) {
+      console.error('[Organizations] Failed to create organization:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create organization', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    const { error: memberError } = await getSupabaseAdmin()
+      .from('organization_members')
+      .insert({ organization_id: organization.id, user_id: user.id, role: 'owner', accepted_at: new Date().toISOString() })
+
+    if (memberError) {
+      console.error('[Organizations] Failed to add owner:', { organizationId: organization.id, error: memberError })
+      // Don't leave an organization nobody can manage
+      await getSupabaseAdmin().from('organizations').delete().eq('id', organization.id)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create organization', details: memberError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, organization: { ...organization, role: 'owner' } })
+  } catch (error: any) {
+    console.error('[Organizations] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { parsePersona } from '@/lib/personas'
+import { PERSONA_COLUMNS, personaFromRow } from '@/lib/runs/persona'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/personas/[id]
+ * Replace a saved persona (same input as POST /api/personas); built-in personas are read-only
+ * Runs keep the snapshot they were analyzed with
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const persona = parsePersona(body)
+    if (!persona) {
+      return NextResponse.json(
+        { ok: false, error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    const { id: _id, built_in: _builtIn, ...fields } = persona
+    const { data: row, error } = await supabase
+      .from('audience_personas')
+      .update(fields)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select(PERSONA_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Personas] Failed to update persona:', { id: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update persona', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { ok: false, error: 'Persona not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, persona: personaFromRow(row) })
+  } catch (error: any) {
+    console.error('[Personas] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a saved persona
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('audience_personas')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[Personas] Failed to delete persona:', { id: params.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete persona', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Personas] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { BUILT_IN_PERSONAS, parsePersona } from '@/lib/personas'
+import { PERSONA_COLUMNS, personaFromRow } from '@/lib/runs/persona'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/personas
+ * Built-in audience personas, plus the signed-in user's saved personas
+ * Output: { ok: true, personas: AudiencePersona[] } (built-in first)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ ok: true, personas: BUILT_IN_PERSONAS })
+    }
+
+    const { data: rows, error } = await supabase
+      .from('audience_personas')
+      .select(PERSONA_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Personas] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch personas', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const saved = (rows || []).map(personaFromRow).filter(Boolean)
+    return NextResponse.json({ ok: true, personas: [...BUILT_IN_PERSONAS, ...saved] })
+  } catch (error: any) {
+    console.error('[Personas] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/personas
+ * Save a persona for the signed-in user
+ * Input: { name, role?, description?, priorities?, objections?, expertise?, skepticism?, tone?, focus? }
+ * focus: [{ keywords: string[], weight: number }] - rubric criteria matching a keyword are weighted by weight
+ * Output: { ok: true, persona }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const persona = parsePersona(body)
+    if (!persona) {
+      return NextResponse.json(
+        { ok: false, error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    const { id: _id, built_in: _builtIn, ...fields } = persona
+    const { data: row, error } = await supabase
+      .from('audience_personas')
+      .insert({ ...fields, user_id: user.id })
+      .select(PERSONA_COLUMNS)
+      .single()
+
+    if (error || !row) {
+      console.error('[Personas] Failed to create persona:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save persona', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, persona: personaFromRow(row) })
+  } catch (error: any) {
+    console.error('[Personas] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
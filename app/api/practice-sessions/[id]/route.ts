@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { summarizePracticeSession } from '@/lib/practice-sessions'
+import { canAccessRun, canViewRun } from '@/lib/runs/access'
+import { loadPracticeSession, PRACTICE_SESSION_COLUMNS } from '@/lib/runs/practice-session'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/practice-sessions/[id]?session_id=
+ * A practice session with its takes (oldest first) and the summary comparing them
+ * Readable by its owner and their coaches, or anonymously with the session_id it was created under
+ * Output: { ok: true, session, takes, summary }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get('session_id')
+    const session = await loadPracticeSession(params.id)
+    const isOwner = !!session && (await canAccessRun(session, sessionId))
+
+    if (!session || !(isOwner || (await canViewRun(session, sessionId)))) {
+      return NextResponse.json(
+        { ok: false, error: 'Practice session not found' },
+        { status: 404, headers: { 'Cache-Control': 'no-store' } }
+      )
+    }
+
+    // session_id is a credential for the owner's runs and sessions (canAccessRun); coaches don't get it
+    const { user_id: _userId, session_id: _sessionId, ...sharedSession } = session
+
+    const { data: rows, error } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, created_at, status, error_message, title, duration_ms, audio_seconds, words_per_minute, language, analysis_json')
+      .eq('practice_session_id', session.id)
+      .is('parent_run_id', null)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[Practice Session] Failed to load takes:', { id: session.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load takes', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const takes = (rows || []).map(run => ({
+      ...run,
+      analysis_json: upgradeAnalysisJson(run.analysis_json),
+    }))
+
+    return NextResponse.json(
+      { ok: true, session: isOwner ? session : sharedSession, takes, summary: summarizePracticeSession(takes) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Practice Session] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/practice-sessions/[id]
+ * Rename a session or change the context later takes inherit
+ * Input: { session_id?, title?, pitch_context? }
+ * Output: { ok: true, session }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const sessionId = typeof body.session_id === 'string' ? body.session_id : null
+    const session = await loadPracticeSession(params.id)
+
+    if (!session || !(await canAccessRun(session, sessionId))) {
+      return NextResponse.json(
+        { ok: false, error: 'Practice session not found' },
+        { status: 404 }
+      )
+    }
+
+    const updates: Record<string, string | null> = {}
+    if (typeof body.title === 'string') {
+      updates.title = body.title.trim() || null
+    }
+    if (typeof body.pitch_context === 'string') {
+      updates.pitch_context = body.pitch_context.trim() || null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ ok: true, session })
+    }
+
+    const { data: updated, error } = await getSupabaseAdmin()
+      .from('practice_sessions')
+      .update(updates)
+      .eq('id', session.id)
+      .select(PRACTICE_SESSION_COLUMNS)
+      .single()
+
+    if (error || !updated) {
+      console.error('[Practice Session] Failed to update session:', { id: session.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update practice session', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, session: updated })
+  } catch (error: any) {
+    console.error('[Practice Session] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Delete a practice session; its takes are kept as standalone runs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const sessionId = request.nextUrl.searchParams.get('session_id')
+    const session = await loadPracticeSession(params.id)
+
+    if (!session || !(await canAccessRun(session, sessionId))) {
+      return NextResponse.json(
+        { ok: false, error: 'Practice session not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('practice_sessions')
+      .delete()
+      .eq('id', session.id)
+
+    if (error) {
+      console.error('[Practice Session] Failed to delete session:', { id: session.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete practice session', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Practice Session] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
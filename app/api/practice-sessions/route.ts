@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { DEFAULT_RUN_LANGUAGE, isRunLanguage, RUN_LANGUAGES } from '@/lib/languages'
+import { resolvePersona } from '@/lib/runs/persona'
+import { PRACTICE_SESSION_COLUMNS } from '@/lib/runs/practice-session'
+
+export const dynamic = 'force-dynamic'
+
+async function getUserId(): Promise<string | null> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    return user?.id ?? null
+  } catch (err) {
+    // Not authenticated
+    return null
+  }
+}
+
+/**
+ * GET /api/practice-sessions?session_id=
+ * The caller's practice sessions, newest first: the signed-in user's, or (signed out)
+ * the unclaimed sessions created under session_id
+ * Output: { ok: true, sessions: [{ ...session, take_count }] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    const sessionId = request.nextUrl.searchParams.get('session_id')
+
+    if (!userId && !sessionId) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let query = getSupabaseAdmin()
+      .from('practice_sessions')
+      .select(`${PRACTICE_SESSION_COLUMNS}, pitch_runs(count)`)
+      .order('created_at', { ascending: false })
+    query = userId
+      ? query.eq('user_id', userId)
+      : query.eq('session_id', sessionId as string).is('user_id', null)
+
+    const { data: rows, error } = await query
+
+    if (error) {
+      console.error('[Practice Sessions] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch practice sessions', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    const sessions = (rows || []).map(({ pitch_runs, ...session }: any) => ({
+      ...session,
+      take_count: pitch_runs?.[0]?.count ?? 0,
+    }))
+    return NextResponse.json({ ok: true, sessions })
+  } catch (error: any) {
+    console.error('[Practice Sessions] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/practice-sessions
+ * Start a practice session; takes created with its id inherit these settings
+ * Input: { session_id, title?, rubric_id?, rubric_json?, pitch_context?, language?, persona_id? }
+ * rubric_json is a JSON string as for POST /api/runs/create
+ * Output: { ok: true, session }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    const body = await request.json()
+    const sessionId = typeof body.session_id === 'string' ? body.session_id : null
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { ok: false, error: 'Session ID is required', details: 'session_id is missing from request' },
+        { status: 400 }
+      )
+    }
+
+    const language = typeof body.language === 'string' ? body.language : null
+    if (language && !isRunLanguage(language)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Unsupported language: ${language}`,
+          details: `language must be one of: ${RUN_LANGUAGES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    let rubricSnapshotJson: any = null
+    if (typeof body.rubric_json === 'string' && body.rubric_json) {
+      try {
+        rubricSnapshotJson = JSON.parse(body.rubric_json)
+      } catch (parseError: any) {
+        return NextResponse.json(
+          { ok: false, error: 'Invalid rubric_json: not valid JSON', details: parseError.message },
+          { status: 400 }
+        )
+      }
+      const criteria = rubricSnapshotJson?.criteria
+      if (!Array.isArray(criteria) || criteria.length === 0 || criteria.some((c: any) => !c?.name?.trim?.())) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Invalid rubric_json: criteria must be a non-empty array of named criteria',
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    const personaId = typeof body.persona_id === 'string' ? body.persona_id : null
+    const persona = personaId ? await resolvePersona(personaId, userId) : null
+    if (personaId && !persona) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Persona not found',
+          details: `No built-in or saved persona with id ${personaId}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data: session, error } = await getSupabaseAdmin()
+      .from('practice_sessions')
+      .insert({
+        session_id: sessionId,
+        user_id: userId,
+        title: typeof body.title === 'string' ? body.title.trim() || null : null,
+        rubric_id: rubricSnapshotJson ? null : body.rubric_id || null,
+        rubric_snapshot_json: rubricSnapshotJson,
+        pitch_context: typeof body.pitch_context === 'string' ? body.pitch_context.trim() || null : null,
+        language: language || DEFAULT_RUN_LANGUAGE,
+        persona_snapshot: persona,
+      })
+      .select(PRACTICE_SESSION_COLUMNS)
+      .single()
+
+    if (error || !session) {
+      console.error('[Practice Sessions] Failed to create session:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create practice session', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, session })
+  } catch (error: any) {
+    console.error('[Practice Sessions] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
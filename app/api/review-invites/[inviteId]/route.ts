@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { User } from '@supabase/supabase-js'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { normalizeInviteEmail } from '@/lib/organizations'
+
+export const dynamic = 'force-dynamic'
+
+/** The pending reviewer invite, if it was sent to this user's email. */
+async function loadOwnInvite(inviteId: string, user: User) {
+  if (!user.email) return null
+
+  const { data: invite } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .select('id, run_id')
+    .eq('id', inviteId)
+    .eq('invited_email', normalizeInviteEmail(user.email))
+    .is('accepted_at', null)
+    .maybeSingle()
+
+  return invite
+}
+
+/**
+ * POST /api/review-invites/[inviteId]
+ * Accept an invite: the user can read the run and comment on it
+ * Output: { ok: true, run_id }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const invite = await loadOwnInvite(params.inviteId, user)
+    if (!invite) {
+      return NextResponse.json(
+        { ok: false, error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('run_reviewers')
+      .update({ user_id: user.id, accepted_at: new Date().toISOString() })
+      .eq('id', invite.id)
+
+    if (error) {
+      console.error('[Reviewers] Failed to accept invite:', { inviteId: invite.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to accept invite', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, run_id: invite.run_id })
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Decline an invite
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { inviteId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const invite = await loadOwnInvite(params.inviteId, user)
+    if (!invite) {
+      return NextResponse.json(
+        { ok: false, error: 'Invite not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('run_reviewers')
+      .delete()
+      .eq('id', invite.id)
+      .is('accepted_at', null)
+
+    if (error) {
+      console.error('[Reviewers] Failed to decline invite:', { inviteId: invite.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to decline invite', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { listReceivedReviewInvites } from '@/lib/runs/reviewers'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/review-invites
+ * The signed-in user's pending invites to review someone's run
+ * Output: { ok: true, invites: ReceivedReviewInvite[] }
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(
+      { ok: true, invites: await listReceivedReviewInvites(user.email) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server-auth'
 import { getUserPlanFromDB } from '@/lib/plan-server'
-import OpenAI from 'openai'
+import { completeJSON, LLMOutputError, type JSONSchema } from '@/lib/llm'
 
 export const dynamic = 'force-dynamic'
 
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set')
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
-}
-
 interface CopilotRequest {
   contextText: string
   targetLengthSeconds?: number
@@ -34,77 +25,28 @@ interface CopilotResponse {
   }>
 }
 
-// Validate the response structure
-function validateCopilotResponse(data: any): data is CopilotResponse {
-  if (!data || typeof data !== 'object') return false
-  if (!data.name || typeof data.name !== 'string') return false
-  if (!data.context_summary || typeof data.context_summary !== 'string') return false
-  if (!Array.isArray(data.guiding_questions)) return false
-  if (!Array.isArray(data.criteria)) return false
-  if (data.criteria.length < 3) return false
-  
-  for (const criterion of data.criteria) {
-    if (!criterion.name || typeof criterion.name !== 'string') return false
-    if (!criterion.description || typeof criterion.description !== 'string') return false
-    if (!criterion.scoring_guide || typeof criterion.scoring_guide !== 'string') return false
-    if (criterion.weight !== undefined && typeof criterion.weight !== 'number') return false
-  }
-  
-  return true
-}
-
-// Extract JSON from text that might contain markdown code blocks or extra text
-function extractJSON(text: string): any {
-  if (!text || typeof text !== 'string') {
-    throw new Error('Invalid input: text must be a non-empty string')
-  }
-
-  // Try direct JSON parse first
-  try {
-    const parsed = JSON.parse(text.trim())
-    return parsed
-  } catch (e) {
-    // Continue to extraction methods
-  }
-
-  // Try to extract JSON from markdown code blocks
-  const jsonBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/)
-  if (jsonBlockMatch) {
-    try {
-      return JSON.parse(jsonBlockMatch[1])
-    } catch (e) {
-      // Continue
-    }
-  }
-
-  // Try to find the first complete JSON object
-  let braceCount = 0
-  let startIndex = -1
-  let endIndex = -1
-
-  for (let i = 0; i < text.length; i++) {
-    if (text[i] === '{') {
-      if (startIndex === -1) startIndex = i
-      braceCount++
-    } else if (text[i] === '}') {
-      braceCount--
-      if (braceCount === 0 && startIndex !== -1) {
-        endIndex = i
-        break
-      }
-    }
-  }
-
-  if (startIndex !== -1 && endIndex !== -1) {
-    try {
-      const jsonCandidate = text.substring(startIndex, endIndex + 1)
-      return JSON.parse(jsonCandidate)
-    } catch (e) {
-      // Continue
-    }
-  }
-
-  throw new Error('Could not extract valid JSON from response')
+const COPILOT_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['name', 'context_summary', 'guiding_questions', 'criteria'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    context_summary: { type: 'string', minLength: 1 },
+    guiding_questions: { type: 'array' },
+    criteria: {
+      type: 'array',
+      minItems: 3,
+      items: {
+        type: 'object',
+        required: ['name', 'description', 'scoring_guide'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+          scoring_guide: { type: 'string', minLength: 1 },
+          weight: { type: 'number' },
+        },
+      },
+    },
+  },
 }
 
 export async function POST(request: NextRequest) {
@@ -197,12 +139,11 @@ Requirements:
       }
     }
 
-    // Call OpenAI
+    // Call the LLM
     let response: CopilotResponse
     try {
-      const openai = getOpenAIClient()
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
+      response = await completeJSON<CopilotResponse>({
+        feature: 'rubric_copilot',
         messages: [
           {
             role: 'system',
@@ -213,42 +154,30 @@ Requirements:
             content: userMessage,
           },
         ],
-        response_format: { type: 'json_object' },
+        schema: COPILOT_RESPONSE_SCHEMA,
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       })
-
-      const responseText = completion.choices[0]?.message?.content
-      if (!responseText) {
-        throw new Error('Empty response from OpenAI')
-      }
-
-      // Extract and parse JSON
-      let parsed: any
-      try {
-        parsed = extractJSON(responseText)
-      } catch (parseError: any) {
+    } catch (error: any) {
+      if (error instanceof LLMOutputError && error.kind === 'parse') {
         console.error('JSON extraction error:', {
-          error: parseError,
-          responsePreview: responseText.substring(0, 500),
+          error,
+          responsePreview: error.responseText.substring(0, 500),
         })
         return NextResponse.json(
           { 
             ok: false,
             error: 'Failed to parse rubric response',
-            details: parseError.message || 'Could not extract valid JSON from AI response',
+            details: error.message || 'Could not extract valid JSON from AI response',
           },
           { status: 500 }
         )
       }
-      
-      // Validate structure
-      if (!validateCopilotResponse(parsed)) {
+
+      if (error instanceof LLMOutputError && error.kind === 'schema') {
         console.error('Invalid copilot response structure:', {
-          parsed,
-          hasName: !!parsed?.name,
-          hasCriteria: !!parsed?.criteria,
-          criteriaLength: parsed?.criteria?.length,
+          errors: error.errors,
+          responsePreview: error.responseText.substring(0, 500),
         })
         return NextResponse.json(
           { 
@@ -260,9 +189,7 @@ Requirements:
         )
       }
 
-      response = parsed
-    } catch (error: any) {
-      console.error('OpenAI generation error:', error)
+      console.error('LLM generation error:', error)
       return NextResponse.json(
         { 
           ok: false,
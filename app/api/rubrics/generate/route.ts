@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server-auth'
 import { getUserPlanFromDB } from '@/lib/plan-server'
-import OpenAI from 'openai'
+import { completeJSON, LLMOutputError, type JSONSchema, type LLMMessage } from '@/lib/llm'
 
 export const dynamic = 'force-dynamic'
 
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is not set')
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
-}
-
 interface Message {
   role: 'user' | 'assistant' | 'system'
   content: string
@@ -29,86 +20,26 @@ interface RubricDraft {
   }>
 }
 
-// Extract JSON from text that might contain markdown code blocks or extra text
-function extractJSON(text: string): any {
-  if (!text || typeof text !== 'string') {
-    throw new Error('Invalid input: text must be a non-empty string')
-  }
-
-  // Try direct JSON parse first (most common case with json_object response_format)
-  try {
-    const parsed = JSON.parse(text.trim())
-    return parsed
-  } catch (e) {
-    // Continue to extraction methods
-  }
-
-  // Try to extract JSON from markdown code blocks (```json ... ```)
-  const jsonBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/)
-  if (jsonBlockMatch) {
-    try {
-      return JSON.parse(jsonBlockMatch[1])
-    } catch (e) {
-      // Continue to next method
-    }
-  }
-
-  // Try to find the first complete JSON object in the text
-  // This handles cases where there's text before/after the JSON
-  let braceCount = 0
-  let startIndex = -1
-  let endIndex = -1
-
-  for (let i = 0; i < text.length; i++) {
-    if (text[i] === '{') {
-      if (startIndex === -1) startIndex = i
-      braceCount++
-    } else if (text[i] === '}') {
-      braceCount--
-      if (braceCount === 0 && startIndex !== -1) {
-        endIndex = i
-        break
-      }
-    }
-  }
-
-  if (startIndex !== -1 && endIndex !== -1) {
-    try {
-      const jsonCandidate = text.substring(startIndex, endIndex + 1)
-      return JSON.parse(jsonCandidate)
-    } catch (e) {
-      // Continue to regex fallback
-    }
-  }
-
-  // Fallback: try regex to find any JSON-like object
-  const jsonObjectMatch = text.match(/\{[\s\S]*\}/)
-  if (jsonObjectMatch) {
-    try {
-      return JSON.parse(jsonObjectMatch[0])
-    } catch (e) {
-      // Last attempt failed
-    }
-  }
-
-  throw new Error('Could not extract valid JSON from response. The AI may have returned non-JSON content.')
-}
-
-// Validate rubric draft structure
-function validateRubricDraft(draft: any): draft is RubricDraft {
-  if (!draft || typeof draft !== 'object') return false
-  if (!draft.title || typeof draft.title !== 'string') return false
-  if (draft.description !== null && typeof draft.description !== 'string') return false
-  if (draft.target_duration_seconds !== null && typeof draft.target_duration_seconds !== 'number') return false
-  if (!Array.isArray(draft.criteria)) return false
-  if (draft.criteria.length < 3) return false
-  
-  for (const criterion of draft.criteria) {
-    if (!criterion.name || typeof criterion.name !== 'string') return false
-    if (!criterion.description || typeof criterion.description !== 'string') return false
-  }
-  
-  return true
+const RUBRIC_DRAFT_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['title', 'description', 'target_duration_seconds', 'criteria'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: ['string', 'null'] },
+    target_duration_seconds: { type: ['number', 'null'] },
+    criteria: {
+      type: 'array',
+      minItems: 3,
+      items: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+  },
 }
 
 export async function POST(request: NextRequest) {
@@ -176,7 +107,7 @@ Requirements:
 - Return ONLY valid JSON, no markdown code blocks, no explanations`
 
     // Build conversation context
-    const conversationMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const conversationMessages: LLMMessage[] = [
       {
         role: 'system',
         content: systemPrompt,
@@ -201,49 +132,36 @@ Requirements:
       }
     }
 
-    // Call OpenAI
+    // Call the LLM
     let draftRubric: RubricDraft
     try {
-      const openai = getOpenAIClient()
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
+      draftRubric = await completeJSON<RubricDraft>({
+        feature: 'rubric_generate',
         messages: conversationMessages,
-        response_format: { type: 'json_object' },
+        schema: RUBRIC_DRAFT_SCHEMA,
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       })
-
-      const responseText = completion.choices[0]?.message?.content
-      if (!responseText) {
-        throw new Error('Empty response from OpenAI')
-      }
-
-      // Extract and parse JSON
-      let parsed: any
-      try {
-        parsed = extractJSON(responseText)
-      } catch (parseError: any) {
+    } catch (error: any) {
+      if (error instanceof LLMOutputError && error.kind === 'parse') {
         console.error('JSON extraction error:', {
-          error: parseError,
-          responsePreview: responseText.substring(0, 500),
+          error,
+          responsePreview: error.responseText.substring(0, 500),
         })
         return NextResponse.json(
           { 
             error: 'Failed to parse rubric draft',
-            details: parseError.message || 'Could not extract valid JSON from AI response',
+            details: error.message || 'Could not extract valid JSON from AI response',
             parseError: true
           },
           { status: 500 }
         )
       }
-      
-      // Validate structure
-      if (!validateRubricDraft(parsed)) {
+
+      if (error instanceof LLMOutputError && error.kind === 'schema') {
         console.error('Invalid rubric draft structure:', {
-          parsed,
-          hasTitle: !!parsed?.title,
-          hasCriteria: !!parsed?.criteria,
-          criteriaLength: parsed?.criteria?.length,
+          errors: error.errors,
+          responsePreview: error.responseText.substring(0, 500),
         })
         return NextResponse.json(
           { 
@@ -255,9 +173,7 @@ Requirements:
         )
       }
 
-      draftRubric = parsed
-    } catch (error: any) {
-      console.error('OpenAI generation error:', error)
+      console.error('LLM generation error:', error)
       return NextResponse.json(
         { 
           error: 'Failed to generate rubric draft',
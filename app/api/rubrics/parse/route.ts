@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import { completeJSON, completeText, LLMOutputError } from '@/lib/llm'
 
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
@@ -10,15 +10,6 @@ const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/gif
 const ACCEPTED_PDF_TYPE = 'application/pdf'
 const ACCEPTED_JSON_TYPE = 'application/json'
 
-// Get OpenAI client
-function getOpenAIClient() {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not set')
-  }
-  return new OpenAI({ apiKey })
-}
-
 // Output interface matching requirements
 interface ParsedRubricOutput {
   name: string
@@ -229,16 +220,14 @@ function validateAndCoerceJsonRubric(json: any): { rubric: ParsedRubricOutput; w
 }
 
 /**
- * Extract text from image using OpenAI Vision API
+ * Extract text from image using a vision-capable model
  */
 async function extractTextFromImage(imageBuffer: Buffer, mimeType: string): Promise<string> {
-  const openai = getOpenAIClient()
-  
   // Convert buffer to base64
   const base64Image = imageBuffer.toString('base64')
   
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const extractedText = await completeText({
+    feature: 'rubric_ocr',
     messages: [
       {
         role: 'user',
@@ -256,10 +245,9 @@ async function extractTextFromImage(imageBuffer: Buffer, mimeType: string): Prom
         ],
       },
     ],
-    max_tokens: 2000,
+    maxTokens: 2000,
   })
   
-  const extractedText = completion.choices[0]?.message?.content
   if (!extractedText) {
     throw new Error('Failed to extract text from image')
   }
@@ -271,8 +259,6 @@ async function extractTextFromImage(imageBuffer: Buffer, mimeType: string): Prom
  * Parse rubric using LLM
  */
 async function parseRubricWithLLM(text: string): Promise<{ rubric: ParsedRubricOutput; warnings: string[] }> {
-  const openai = getOpenAIClient()
-  
   const systemPrompt = `You are a rubric parser. Extract structured rubric information from the provided text.
 
 Extract and return a JSON object with this exact format:
@@ -297,26 +283,21 @@ Requirements:
 - Extract durations if mentioned (in seconds)
 - Return ONLY valid JSON, no markdown formatting`
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: `Parse this rubric:\n\n${text}` },
-    ],
-    response_format: { type: 'json_object' },
-    temperature: 0.3,
-    max_tokens: 2000,
-  })
-  
-  const responseText = completion.choices[0]?.message?.content
-  if (!responseText) {
-    throw new Error('Empty response from OpenAI')
-  }
-  
   let parsed: any
   try {
-    parsed = JSON.parse(responseText)
-  } catch (parseError: any) {
+    parsed = await completeJSON({
+      feature: 'rubric_parse',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Parse this rubric:\n\n${text}` },
+      ],
+      temperature: 0.3,
+      maxTokens: 2000,
+    })
+  } catch (error: any) {
+    if (!(error instanceof LLMOutputError)) {
+      throw error
+    }
     // Fallback to deterministic parser
     console.warn('LLM returned invalid JSON, falling back to deterministic parser')
     return parseRubricFromText(text)
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
+import { listMemberships } from '@/lib/organizations'
 
 export const dynamic = 'force-dynamic'
 
-// GET - List rubrics (templates or user's custom rubrics)
+// GET - List rubrics (templates, user's custom rubrics, or rubrics shared with their organizations)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const scope = searchParams.get('scope') || 'templates' // 'templates' | 'mine'
+    const scope = searchParams.get('scope') || 'templates' // 'templates' | 'mine' | 'team'
 
     if (scope === 'templates') {
       // Get all template rubrics (readable by everyone)
@@ -55,9 +56,45 @@ export async function GET(request: NextRequest) {
       }
 
       return NextResponse.json(rubrics || [])
+    } else if (scope === 'team') {
+      // Rubrics coaches shared with the user's organizations
+      const supabase = await createClient()
+      const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const organizations = await listMemberships(user.id)
+      if (organizations.length === 0) {
+        return NextResponse.json([])
+      }
+
+      const { data: rubrics, error } = await getSupabaseAdmin()
+        .from('rubrics')
+        .select('*')
+        .in('organization_id', organizations.map(organization => organization.id))
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('Database error:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch team rubrics' },
+          { status: 500 }
+        )
+      }
+
+      const names = new Map(organizations.map(organization => [organization.id, organization.name]))
+      return NextResponse.json((rubrics || []).map(rubric => ({
+        ...rubric,
+        organization_name: names.get(rubric.organization_id) ?? null,
+      })))
     } else {
       return NextResponse.json(
-        { error: 'Invalid scope. Use "templates" or "mine"' },
+        { error: 'Invalid scope. Use "templates", "mine" or "team"' },
         { status: 400 }
       )
     }
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { parseQAQuestions } from '@/lib/qa'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/runs/[id]/answers
+ * Create a Q&A answer run: a child of the pitch run, recorded and uploaded like any run
+ * (sign -> upload -> /api/uploads/complete -> transcribe -> analyze), graded against its question
+ * Input: { question_id, duration_ms? }
+ * Output: { ok: true, runId, run: {...} }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: parentId } = params
+
+    // Get authenticated user (optional - runs without user_id are open, as for uploads)
+    let userId: string | null = null
+    try {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        userId = user.id
+      }
+    } catch (err) {
+      // Not authenticated
+    }
+
+    const body = await request.json()
+    const questionId = typeof body.question_id === 'string' ? body.question_id : null
+    const durationMs = typeof body.duration_ms === 'number' && body.duration_ms > 0 ? Math.round(body.duration_ms) : null
+
+    if (!questionId) {
+      return NextResponse.json(
+        { ok: false, error: 'question_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: parent, error: parentError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id, session_id, title, run_type, rubric_id, rubric_snapshot_json, pitch_context, language, persona_snapshot, qa_questions')
+      .eq('id', parentId)
+      .single()
+
+    if (parentError || !parent) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    if (parent.user_id && parent.user_id !== userId) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    if (parent.run_type === 'qa_answer') {
+      return NextResponse.json(
+        { ok: false, error: 'Answers belong to pitch runs, not to other answers' },
+        { status: 400 }
+      )
+    }
+
+    const question = parseQAQuestions(parent.qa_questions).find(q => q.id === questionId)
+    if (!question) {
+      return NextResponse.json(
+        { ok: false, error: 'Question not found', details: `No question ${questionId} on this run` },
+        { status: 404 }
+      )
+    }
+
+    const runId = uuidv4()
+    const insertData: any = {
+      id: runId,
+      session_id: parent.session_id,
+      user_id: parent.user_id,
+      title: `Q&A: ${question.question}`.slice(0, 200),
+      // Placeholder until /api/uploads/complete, as for /api/runs/create
+      audio_path: `${parent.session_id}/${runId}.webm`,
+      status: 'uploading',
+      duration_ms: durationMs,
+      audio_seconds: durationMs ? durationMs / 1000 : null,
+      pitch_context: parent.pitch_context,
+      language: parent.language,
+      persona_snapshot: parent.persona_snapshot,
+      run_type: 'qa_answer',
+      parent_run_id: parent.id,
+      qa_question: question,
+    }
+    if (parent.rubric_id) {
+      insertData.rubric_id = parent.rubric_id
+    }
+    if (parent.rubric_snapshot_json) {
+      insertData.rubric_snapshot_json = parent.rubric_snapshot_json
+    }
+
+    const { data: run, error: insertError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .insert(insertData)
+      .select('id, session_id, created_at, title, audio_path, duration_ms, status, language, run_type, parent_run_id, qa_question')
+      .single()
+
+    if (insertError || !run) {
+      console.error('[Run Answers] Failed to create answer run:', { parentId, questionId, error: insertError })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create answer run', details: insertError?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, runId: run.id, run })
+  } catch (error: any) {
+    console.error('[Run Answers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
-import OpenAI from 'openai'
+import { getTranscriptionProvider, isVerbatimTranscriptionEnabled } from '@/lib/transcription'
+import type { TranscriptTimings } from '@/lib/types'
+import { DEFAULT_RUN_LANGUAGE } from '@/lib/languages'
 
 export const dynamic = 'force-dynamic'
 
@@ -31,7 +33,7 @@ export async function POST(
     // Verify run exists and user owns it
     const { data: run, error: runError } = await getSupabaseAdmin()
       .from('pitch_runs')
-      .select('id, user_id')
+      .select('id, user_id, language')
       .eq('id', runId)
       .single()
 
@@ -92,9 +94,8 @@ export async function POST(
       )
     }
 
-    // Convert to buffer
+    // Read chunk audio
     const arrayBuffer = await audioData.arrayBuffer()
-    const audioBuffer = Buffer.from(arrayBuffer)
 
     // Determine file extension and mime type
     const fileExt = chunk.audio_path.split('.').pop() || 'webm'
@@ -107,33 +108,30 @@ export async function POST(
       mimeType = 'audio/ogg'
     }
 
-    // Transcribe with OpenAI Whisper
+    // Transcribe with the configured speech-to-text provider
     let transcript: string
+    let timings: TranscriptTimings | null = null
     try {
-      const fileName = `${chunkId}.${fileExt}`
-      const audioFile = new File([audioBuffer], fileName, { 
-        type: mimeType 
+      const provider = getTranscriptionProvider()
+      const result = await provider.transcribe({
+        audio: arrayBuffer,
+        fileName: `${chunkId}.${fileExt}`,
+        mimeType,
+        language: run.language || DEFAULT_RUN_LANGUAGE,
+        withTimestamps: true,
+        verbatim: isVerbatimTranscriptionEnabled(),
       })
 
-      const openaiApiKey = process.env.OPENAI_API_KEY
-      if (!openaiApiKey) {
-        throw new Error('OPENAI_API_KEY is not configured')
-      }
-      const openai = new OpenAI({ apiKey: openaiApiKey })
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioFile,
-        model: 'whisper-1',
-        language: 'en',
-      })
-
-      transcript = transcription.text
+      transcript = result.text
+      // Kept so the final transcript can be stitched from chunks (see lib/runs/stitch.ts)
+      timings = result.timings
 
       if (!transcript || transcript.trim().length === 0) {
         await getSupabaseAdmin()
           .from('run_chunks')
           .update({
             status: 'error',
-            error_message: 'Empty transcript returned from OpenAI',
+            error_message: 'Empty transcript returned from transcription provider',
           })
           .eq('id', chunkId)
 
@@ -143,7 +141,7 @@ export async function POST(
         )
       }
     } catch (error: any) {
-      console.error('[Chunk Transcribe] OpenAI error:', error)
+      console.error('[Chunk Transcribe] Transcription error:', error)
       await getSupabaseAdmin()
         .from('run_chunks')
         .update({
@@ -163,6 +161,7 @@ export async function POST(
       .from('run_chunks')
       .update({
         transcript,
+        transcript_timings: timings,
         status: 'transcribed',
         error_message: null,
       })
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canReviewRun } from '@/lib/runs/access'
+import { RUN_COMMENT_COLUMNS, withAuthorEmails } from '@/lib/runs/comments'
+import { MAX_COMMENT_CHARS } from '@/lib/comments'
+
+export const dynamic = 'force-dynamic'
+
+type CommentParams = { params: { id: string; commentId: string } }
+
+/** The run and comment if the caller may review the run and the comment belongs to it. */
+async function loadForReviewer(params: CommentParams['params'], userId: string) {
+  const { data: run } = await getSupabaseAdmin()
+    .from('pitch_runs')
+    .select('id, user_id')
+    .eq('id', params.id)
+    .maybeSingle()
+
+  if (!run || !(await canReviewRun(run, userId))) {
+    return null
+  }
+
+  const { data: comment } = await getSupabaseAdmin()
+    .from('run_comments')
+    .select('id, run_id, parent_id, author_id')
+    .eq('id', params.commentId)
+    .eq('run_id', run.id)
+    .maybeSingle()
+
+  return comment ? { run, comment } : null
+}
+
+/**
+ * PATCH /api/runs/[id]/comments/[commentId]
+ * Edit your own comment, or resolve/unresolve a thread (any reviewer)
+ * Input: { body?, resolved? } - resolved only applies to a thread's first comment
+ * Output: { ok: true, comment: RunComment }
+ */
+export async function PATCH(request: NextRequest, { params }: CommentParams) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const found = await loadForReviewer(params, user.id)
+    if (!found) {
+      return NextResponse.json(
+        { ok: false, error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+    const { comment } = found
+
+    const input = await request.json()
+    const updates: Record<string, unknown> = {}
+
+    if (input.body !== undefined) {
+      if (comment.author_id !== user.id) {
+        return NextResponse.json(
+          { ok: false, error: 'You can only edit your own comments' },
+          { status: 403 }
+        )
+      }
+      const text = typeof input.body === 'string' ? input.body.trim() : ''
+      if (!text || text.length > MAX_COMMENT_CHARS) {
+        return NextResponse.json(
+          { ok: false, error: text ? `Comments are limited to ${MAX_COMMENT_CHARS} characters` : 'Comment is empty' },
+          { status: 400 }
+        )
+      }
+      updates.body = text
+    }
+
+    if (input.resolved !== undefined) {
+      if (comment.parent_id) {
+        return NextResponse.json(
+          { ok: false, error: 'Resolve the thread, not a reply' },
+          { status: 400 }
+        )
+      }
+      updates.resolved_at = input.resolved ? new Date().toISOString() : null
+      updates.resolved_by = input.resolved ? user.id : null
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'Nothing to update', details: 'Send body and/or resolved' },
+        { status: 400 }
+      )
+    }
+
+    const { data: updated, error } = await getSupabaseAdmin()
+      .from('run_comments')
+      .update(updates)
+      .eq('id', comment.id)
+      .select(RUN_COMMENT_COLUMNS)
+      .single()
+
+    if (error || !updated) {
+      console.error('[Comments] Failed to update comment:', { id: comment.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update comment', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    const [withEmail] = await withAuthorEmails([updated])
+    return NextResponse.json({ ok: true, comment: withEmail })
+  } catch (error: any) {
+    console.error('[Comments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/runs/[id]/comments/[commentId]
+ * Delete a comment (its author or the run's owner); deleting a thread's first comment removes its replies
+ */
+export async function DELETE(request: NextRequest, { params }: CommentParams) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const found = await loadForReviewer(params, user.id)
+    if (!found) {
+      return NextResponse.json(
+        { ok: false, error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+    if (found.comment.author_id !== user.id && found.run.user_id !== user.id) {
+      return NextResponse.json(
+        { ok: false, error: 'You can only delete your own comments' },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('run_comments')
+      .delete()
+      .eq('id', found.comment.id)
+
+    if (error) {
+      console.error('[Comments] Failed to delete comment:', { id: found.comment.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete comment', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Comments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
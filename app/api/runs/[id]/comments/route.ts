@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { canReviewRun } from '@/lib/runs/access'
+import { loadRunComments, RUN_COMMENT_COLUMNS, withAuthorEmails } from '@/lib/runs/comments'
+import { buildCommentThreads, MAX_COMMENT_CHARS, parseCommentAnchor } from '@/lib/comments'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/runs/[id]/comments
+ * Reviewer comment threads on a run (owner, the owner's coaches and invited reviewers)
+ * Output: { ok: true, threads: RunCommentThread[], viewer_id }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: run } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!run || !(await canReviewRun(run, user.id))) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const comments = await loadRunComments(run.id)
+    return NextResponse.json(
+      { ok: true, threads: buildCommentThreads(comments), viewer_id: user.id },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Comments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/runs/[id]/comments
+ * Start a thread anchored to a transcript sentence and/or audio range, or reply to one
+ * Input: { body, parent_id?, sentence_index?, quote?, start_sec?, end_sec? } - replies ignore the anchor
+ * Output: { ok: true, comment: RunComment }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: run } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!run || !(await canReviewRun(run, user.id))) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const input = await request.json()
+    const text = typeof input.body === 'string' ? input.body.trim() : ''
+    if (!text) {
+      return NextResponse.json(
+        { ok: false, error: 'Comment is empty' },
+        { status: 400 }
+      )
+    }
+    if (text.length > MAX_COMMENT_CHARS) {
+      return NextResponse.json(
+        { ok: false, error: `Comments are limited to ${MAX_COMMENT_CHARS} characters` },
+        { status: 400 }
+      )
+    }
+
+    const parentId = typeof input.parent_id === 'string' && input.parent_id ? input.parent_id : null
+    if (parentId) {
+      const { data: parent } = await getSupabaseAdmin()
+        .from('run_comments')
+        .select('id, run_id, parent_id')
+        .eq('id', parentId)
+        .maybeSingle()
+
+      // Threads are one level deep: reply to the thread's first comment
+      if (!parent || parent.run_id !== run.id || parent.parent_id) {
+        return NextResponse.json(
+          { ok: false, error: 'Thread not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const anchor = parentId
+      ? { sentence_index: null, quote: null, start_sec: null, end_sec: null }
+      : parseCommentAnchor(input)
+
+    const { data: comment, error } = await getSupabaseAdmin()
+      .from('run_comments')
+      .insert({
+        run_id: run.id,
+        parent_id: parentId,
+        author_id: user.id,
+        body: text,
+        ...anchor,
+      })
+      .select(RUN_COMMENT_COLUMNS)
+      .single()
+
+    if (error || !comment) {
+      console.error('[Comments] Failed to create comment:', { runId: run.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save comment', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    const [withEmail] = await withAuthorEmails([comment])
+    return NextResponse.json({ ok: true, comment: withEmail })
+  } catch (error: any) {
+    console.error('[Comments] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
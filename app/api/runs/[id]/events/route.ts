@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isRunJobDue, kickRunJob } from '@/lib/jobs'
+import { canViewRun } from '@/lib/runs/access'
+import { diffRunEventState, formatRunEvent, loadRunEventState, toSnapshotEvent } from '@/lib/runs/events'
+import type { RunEvent } from '@/lib/runs/event-types'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const POLL_INTERVAL_MS = 1000
+const PING_INTERVAL_MS = 15_000
+// Close before the platform timeout; EventSource reconnects and gets a fresh snapshot
+const MAX_STREAM_MS = 270_000
+const RECONNECT_DELAY_MS = 2000
+
+/**
+ * GET /api/runs/[id]/events?session_id=...
+ * Server-Sent Events stream of run progress: status transitions, transcript,
+ * chunk transcriptions, analysis sections and job updates.
+ * Same access rules as /api/runs/[id]/status.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params
+  const sessionId = request.nextUrl.searchParams.get('session_id')
+
+  let initialState
+  try {
+    initialState = await loadRunEventState(id)
+  } catch (error: any) {
+    console.error('[Run Events] Failed to load run:', { runId: id, error: error.message })
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+
+  if (!initialState || !(await canViewRun(initialState.run, sessionId))) {
+    return NextResponse.json(
+      { ok: false, error: 'Run not found' },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let eventId = 0
+      const send = (event: RunEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatRunEvent(event, ++eventId)))
+        }
+      }
+
+      request.signal.addEventListener('abort', () => {
+        closed = true
+      })
+
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`))
+
+      let state = initialState!
+      send(toSnapshotEvent(state))
+
+      const startedAt = Date.now()
+      let lastPingAt = startedAt
+
+      while (!closed && Date.now() - startedAt < MAX_STREAM_MS) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+        if (closed) break
+
+        try {
+          const next = await loadRunEventState(id)
+          if (!next) break
+
+          for (const event of diffRunEventState(state, next)) {
+            send(event)
+          }
+          state = next
+
+          // Nobody polls /status while streaming, so nudge the queue from here
+          const activeJob = next.jobs.find((job) => job.status === 'queued' || job.status === 'running')
+          if (activeJob && isRunJobDue(activeJob)) {
+            kickRunJob(activeJob.id)
+          }
+        } catch (error: any) {
+          // Transient database errors: keep the stream open and try again
+          console.error('[Run Events] Poll failed:', { runId: id, error: error.message })
+        }
+
+        if (Date.now() - lastPingAt >= PING_INTERVAL_MS) {
+          send({ type: 'ping', data: { at: new Date().toISOString() } })
+          lastPingAt = Date.now()
+        }
+      }
+
+      closed = true
+      try {
+        controller.close()
+      } catch (err) {
+        // Already closed by the client
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-store, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
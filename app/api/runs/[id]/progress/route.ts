@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
+import { getFillerWordTotal, upgradeAnalysisJson } from '@/lib/analysis'
 
 export const dynamic = 'force-dynamic'
 
@@ -112,7 +113,7 @@ export async function GET(
  */
 function computeComparisons(previousRuns: Array<{
   words_per_minute: number | null
-  analysis_json: any
+  analysis_json: unknown
 }>): {
   avg_wpm: number | null
   avg_filler_words: number | null
@@ -144,27 +145,25 @@ function computeComparisons(previousRuns: Array<{
       wpmCount++
     }
 
+    const analysis = upgradeAnalysisJson(run.analysis_json)
+
     // Filler words (from premium.filler.total or premium_insights.filler_words.total_count)
-    const fillerTotal = run.analysis_json?.premium?.filler?.total ?? 
-                       run.analysis_json?.premium_insights?.filler_words?.total_count
-    if (fillerTotal !== null && fillerTotal !== undefined) {
+    const fillerTotal = getFillerWordTotal(analysis)
+    if (fillerTotal !== null) {
       totalFillerWords += fillerTotal
       fillerCount++
     }
 
     // Missing sections (count from rubric_scores where missing=true)
-    if (run.analysis_json?.rubric_scores && Array.isArray(run.analysis_json.rubric_scores)) {
-      const runMissingCount = run.analysis_json.rubric_scores.filter(
-        (score: any) => score.missing === true
-      ).length
+    if (analysis?.rubric_scores) {
+      const runMissingCount = analysis.rubric_scores.filter(score => score.missing).length
       totalMissingSections += runMissingCount
       missingCount++
     }
 
     // Overall score
-    if (run.analysis_json?.summary?.overall_score !== null && 
-        run.analysis_json?.summary?.overall_score !== undefined) {
-      totalOverallScore += run.analysis_json.summary.overall_score
+    if (analysis?.summary) {
+      totalOverallScore += analysis.summary.overall_score
       scoreCount++
     }
   })
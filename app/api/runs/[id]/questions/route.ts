@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { LLMOutputError } from '@/lib/llm'
+import { generateQAQuestions, parseQAQuestions } from '@/lib/qa'
+import { loadQAQuestionInput } from '@/lib/runs/qa'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/runs/[id]/questions
+ * Audience questions for a transcribed pitch run (Q&A simulation)
+ * Input: { regenerate?: boolean, count?: number }
+ * Questions are generated once and stored in pitch_runs.qa_questions; regenerate replaces them
+ * Output: { ok: true, questions: [{ id, question, category, why, expected_points }] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: runId } = params
+
+    // Get authenticated user (optional - runs without user_id are open, as for uploads)
+    let userId: string | null = null
+    try {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        userId = user.id
+      }
+    } catch (err) {
+      // Not authenticated
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const regenerate = body?.regenerate === true
+    const count = typeof body?.count === 'number' ? body.count : undefined
+
+    const { data: run, error: runError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id, run_type, transcript, pitch_context, language, rubric_id, rubric_snapshot_json, persona_snapshot, analysis_json, qa_questions')
+      .eq('id', runId)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    if (run.user_id && run.user_id !== userId) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    if (run.run_type === 'qa_answer') {
+      return NextResponse.json(
+        { ok: false, error: 'Questions are generated for pitch runs, not answers' },
+        { status: 400 }
+      )
+    }
+
+    if (!run.transcript) {
+      return NextResponse.json(
+        { ok: false, error: 'Transcript is required', details: 'Transcribe the run before generating questions' },
+        { status: 400 }
+      )
+    }
+
+    const stored = parseQAQuestions(run.qa_questions)
+    if (stored.length > 0 && !regenerate) {
+      return NextResponse.json({ ok: true, questions: stored })
+    }
+
+    let questions
+    try {
+      questions = await generateQAQuestions({ ...(await loadQAQuestionInput(run)), count })
+    } catch (error: any) {
+      if (error instanceof LLMOutputError) {
+        console.error('[Run Questions] Unusable model output:', {
+          runId,
+          kind: error.kind,
+          errors: error.errors,
+          responsePreview: error.responseText.substring(0, 500),
+        })
+        return NextResponse.json(
+          { ok: false, error: 'Failed to generate questions', details: error.message },
+          { status: 500 }
+        )
+      }
+      throw error
+    }
+
+    const { error: updateError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({ qa_questions: questions })
+      .eq('id', runId)
+
+    if (updateError) {
+      console.error('[Run Questions] Failed to save questions:', { runId, error: updateError })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save questions', details: updateError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, questions })
+  } catch (error: any) {
+    console.error('[Run Questions] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -15,7 +15,9 @@ export async function POST(
       .from('pitch_runs')
       .update({
         transcript: null,
+        transcript_timings: null,
         analysis_json: null,
+        analysis_stages: null,
         status: 'uploaded',
         error_message: null,
         word_count: null,
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/runs/[id]/reviewers/[reviewerId]
+ * Remove a reviewer, or cancel a pending invite (owner only). Their comments stay.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; reviewerId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: run } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!run || run.user_id !== user.id) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: reviewer, error } = await getSupabaseAdmin()
+      .from('run_reviewers')
+      .delete()
+      .eq('id', params.reviewerId)
+      .eq('run_id', run.id)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Reviewers] Failed to remove reviewer:', { id: params.reviewerId, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to remove reviewer', details: error.message },
+        { status: 500 }
+      )
+    }
+    if (!reviewer) {
+      return NextResponse.json(
+        { ok: false, error: 'Reviewer not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
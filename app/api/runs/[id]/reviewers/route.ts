@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { normalizeInviteEmail } from '@/lib/organizations'
+import { inviteRunReviewer, listRunReviewers } from '@/lib/runs/reviewers'
+
+export const dynamic = 'force-dynamic'
+
+/** The run if the caller owns it (reviewers are invited by the owner only). */
+async function loadOwnedRun(runId: string, userId: string) {
+  const { data: run } = await getSupabaseAdmin()
+    .from('pitch_runs')
+    .select('id, user_id')
+    .eq('id', runId)
+    .maybeSingle()
+
+  return run && run.user_id === userId ? run : null
+}
+
+/**
+ * GET /api/runs/[id]/reviewers
+ * The run's invited reviewers, pending and accepted, oldest first (owner only)
+ * Output: { ok: true, reviewers: RunReviewer[] }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const run = await loadOwnedRun(params.id, user.id)
+    if (!run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { ok: true, reviewers: await listRunReviewers(run.id) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/runs/[id]/reviewers
+ * Invite someone by email to read and comment on the run (owner only). They review it
+ * once they accept; the reply doesn't say whether the email has an account.
+ * Input: { email }
+ * Output: { ok: true, reviewer: RunReviewer }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const run = await loadOwnedRun(params.id, user.id)
+    if (!run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const email = typeof body.email === 'string' ? normalizeInviteEmail(body.email) : ''
+    if (!email || !email.includes('@') || email.length > 320) {
+      return NextResponse.json(
+        { ok: false, error: 'A valid email is required' },
+        { status: 400 }
+      )
+    }
+    if (user.email && email === normalizeInviteEmail(user.email)) {
+      return NextResponse.json(
+        { ok: false, error: 'You can already comment on your own runs' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, reviewer: await inviteRunReviewer(run.id, email, user.id) })
+  } catch (error: any) {
+    console.error('[Reviewers] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
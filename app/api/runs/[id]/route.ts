@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { canViewRun } from '@/lib/runs/access'
 
 export const dynamic = 'force-dynamic'
 
@@ -27,13 +29,18 @@ export async function GET(
 
     const { data: run, error } = await getSupabaseAdmin()
       .from('pitch_runs')
-      .select('id, status, audio_path, transcript, analysis_json, error_message, created_at, session_id, title, audio_seconds, duration_ms, word_count, words_per_minute, rubric_id, rubric_snapshot_json, rubrics(*)')
+      .select('id, user_id, status, audio_path, transcript, analysis_json, analysis_stages, error_message, created_at, session_id, title, audio_seconds, duration_ms, word_count, words_per_minute, language, video_path, video_delivery, deck_path, persona_snapshot, run_type, parent_run_id, qa_questions, qa_question, practice_session_id, rubric_id, rubric_snapshot_json, rubrics(*)')
       .eq('id', id)
-      .eq('user_id', user.id)
       .single()
 
-    if (error) {
-      console.error('Database error:', error)
+    // Coaches and invited reviewers can read the run too (canViewRun)
+    const isOwner = !!run && run.user_id === user.id
+    const canView = !!run && (isOwner || (await canViewRun(run, null)))
+
+    if (error || !run || !canView) {
+      if (error) {
+        console.error('Database error:', error)
+      }
       return NextResponse.json(
         { ok: false, error: 'Run not found' },
         { 
@@ -45,6 +52,46 @@ export async function GET(
       )
     }
 
+    // The session ids work as credentials for the owner's runs and practice sessions
+    // (canAccessRun), so only the owner gets them
+    const { user_id: _userId, session_id: _sessionId, practice_session_id: _practiceSessionId, ...sharedRun } = run
+    const visibleRun = isOwner ? run : sharedRun
+
+    // Q&A simulation: answers recorded for this pitch's questions, newest first
+    let qaAnswers: any[] = []
+    if (run.run_type !== 'qa_answer') {
+      const { data: answers, error: answersError } = await getSupabaseAdmin()
+        .from('pitch_runs')
+        .select('id, status, error_message, created_at, duration_ms, qa_question, analysis_json')
+        .eq('parent_run_id', run.id)
+        .order('created_at', { ascending: false })
+
+      if (answersError) {
+        console.error('[Run] Failed to load Q&A answers:', { runId: run.id, error: answersError })
+      }
+      qaAnswers = (answers || []).map(answer => ({
+        ...answer,
+        analysis_json: upgradeAnalysisJson(answer.analysis_json),
+      }))
+    }
+
+    // Video mode: the silent camera recording is played alongside the audio
+    let videoUrl: string | null = null
+    if (run.video_path) {
+      const { data: videoUrlData, error: videoUrlError } = await getSupabaseAdmin().storage
+        .from('pitchpractice-audio')
+        .createSignedUrl(run.video_path, 3600)
+
+      if (videoUrlError) {
+        console.error('[Video URL] Failed to generate signed URL:', {
+          path: run.video_path,
+          error: videoUrlError,
+          message: videoUrlError.message,
+        })
+      }
+      videoUrl = videoUrlData?.signedUrl || null
+    }
+
     // Generate signed URL for audio
     if (run.audio_path) {
       const { data: signedUrlData, error: urlError } = await getSupabaseAdmin().storage
@@ -70,8 +117,11 @@ export async function GET(
         {
           ok: true,
           run: {
-            ...run,
+            ...visibleRun,
+            analysis_json: upgradeAnalysisJson(run.analysis_json),
             audio_url: signedUrlData?.signedUrl || null,
+            video_url: videoUrl,
+            qa_answers: qaAnswers,
           },
         },
         {
@@ -85,7 +135,12 @@ export async function GET(
     return NextResponse.json(
       {
         ok: true,
-        run,
+        run: {
+          ...visibleRun,
+          analysis_json: upgradeAnalysisJson(run.analysis_json),
+          video_url: videoUrl,
+          qa_answers: qaAnswers,
+        },
       },
       {
         headers: {
@@ -129,7 +184,7 @@ export async function DELETE(
     // First, check if run exists and user owns it
     const { data: existingRun, error: fetchError } = await getSupabaseAdmin()
       .from('pitch_runs')
-      .select('id, user_id, audio_path')
+      .select('id, user_id, audio_path, video_path, deck_path')
       .eq('id', id)
       .single()
 
@@ -148,14 +203,26 @@ export async function DELETE(
       )
     }
 
-    // Delete audio file from storage if it exists
-    if (existingRun.audio_path) {
+    // Q&A answer runs are deleted with the pitch (ON DELETE CASCADE); their recordings are not
+    const { data: answerRuns } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('audio_path')
+      .eq('parent_run_id', id)
+
+    // Delete audio (and video mode recording, slide deck, Q&A answers) from storage if they exist
+    const storedPaths = [
+      existingRun.audio_path,
+      existingRun.video_path,
+      existingRun.deck_path,
+      ...(answerRuns || []).map(answer => answer.audio_path),
+    ].filter(Boolean)
+    if (storedPaths.length > 0) {
       const { error: storageError } = await getSupabaseAdmin().storage
         .from('pitchpractice-audio')
-        .remove([existingRun.audio_path])
+        .remove(storedPaths)
       
       if (storageError) {
-        console.error('Failed to delete audio file:', storageError)
+        console.error('Failed to delete run media:', storageError)
         // Continue with database deletion even if storage deletion fails
       }
     }
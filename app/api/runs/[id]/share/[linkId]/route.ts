@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/runs/[id]/share/[linkId]
+ * Revoke a share link (owner only). The row is kept so its view count stays visible.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: run } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!run || run.user_id !== user.id) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: link, error } = await getSupabaseAdmin()
+      .from('run_share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', params.linkId)
+      .eq('run_id', run.id)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Share] Failed to revoke share link:', { id: params.linkId, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to revoke share link', details: error.message },
+        { status: 500 }
+      )
+    }
+    if (!link) {
+      return NextResponse.json(
+        { ok: false, error: 'Share link not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Share] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { createShareToken, isShareScope, MAX_SHARE_EXPIRY_DAYS, SHARE_SCOPES, shareLinkStatus } from '@/lib/share'
+
+export const dynamic = 'force-dynamic'
+
+const SHARE_LINK_COLUMNS = 'id, run_id, token, scope, redact_context, expires_at, revoked_at, view_count, last_viewed_at, created_by, created_at'
+
+/** The run if the caller owns it (share links are managed by the owner only). */
+async function loadOwnedRun(runId: string, userId: string) {
+  const { data: run } = await getSupabaseAdmin()
+    .from('pitch_runs')
+    .select('id, user_id')
+    .eq('id', runId)
+    .maybeSingle()
+
+  return run && run.user_id === userId ? run : null
+}
+
+/**
+ * GET /api/runs/[id]/share
+ * The run's share links, newest first (owner only)
+ * Output: { ok: true, links: [{ ...RunShareLink, status }] } - status is active | expired | revoked
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const run = await loadOwnedRun(params.id, user.id)
+    if (!run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: links, error } = await getSupabaseAdmin()
+      .from('run_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('run_id', run.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Share] Failed to list share links:', { runId: run.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load share links', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { ok: true, links: (links || []).map(link => ({ ...link, status: shareLinkStatus(link) })) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Share] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/runs/[id]/share
+ * Create a public read-only link to the run (owner only)
+ * Input: { scope?, expires_in_days?, redact_context? } - scope is feedback | transcript | full
+ *   (default feedback), expires_in_days 1-90 or null for no expiry (default 7),
+ *   redact_context hides pitch_context (default true)
+ * Output: { ok: true, link: { ...RunShareLink, status: 'active' } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const run = await loadOwnedRun(params.id, user.id)
+    if (!run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const scope = body.scope ?? 'feedback'
+    if (!isShareScope(scope)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid scope: ${scope}`, details: `scope must be one of: ${SHARE_SCOPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const expiresInDays = body.expires_in_days === undefined ? 7 : body.expires_in_days
+    if (
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_SHARE_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { ok: false, error: `expires_in_days must be between 1 and ${MAX_SHARE_EXPIRY_DAYS}, or null` },
+        { status: 400 }
+      )
+    }
+
+    const { data: link, error } = await getSupabaseAdmin()
+      .from('run_share_links')
+      .insert({
+        run_id: run.id,
+        token: createShareToken(),
+        scope,
+        redact_context: body.redact_context !== false,
+        expires_at: expiresInDays !== null
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null,
+        created_by: user.id,
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single()
+
+    if (error || !link) {
+      console.error('[Share] Failed to create share link:', { runId: run.id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to create share link', details: error?.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, link: { ...link, status: 'active' } })
+  } catch (error: any) {
+    console.error('[Share] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { parseSlideMarks, readStoredDeck } from '@/lib/runs/slides'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/runs/[id]/slides
+ * Attach a PDF deck to a run once it has been uploaded to storage
+ * Input: { storagePath, slide_timings: [{ slide, at_ms }] }
+ * The deck text is extracted here (not trusted from the client) into pitch_runs.deck_slides;
+ * the slides analysis stage aligns it with the transcript on the next analysis
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: runId } = params
+
+    // Get authenticated user (optional - runs without user_id are open, as for uploads)
+    let userId: string | null = null
+    try {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        userId = user.id
+      }
+    } catch (err) {
+      // Not authenticated
+    }
+
+    const body = await request.json()
+    const { storagePath, slide_timings } = body
+
+    if (typeof storagePath !== 'string' || storagePath.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'storagePath is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: run, error: runError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id, session_id')
+      .eq('id', runId)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    if (run.user_id && run.user_id !== userId) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    // Only accept the path /api/uploads/sign handed out for this run's deck
+    if (storagePath !== `${run.session_id}/${runId}_deck.pdf`) {
+      return NextResponse.json(
+        { ok: false, error: 'storagePath does not belong to this run' },
+        { status: 400 }
+      )
+    }
+
+    const deck = await readStoredDeck(storagePath)
+    if (!deck.ok) {
+      return NextResponse.json(
+        { ok: false, error: 'Could not read slide deck', details: deck.error },
+        { status: 400 }
+      )
+    }
+
+    const slideTimings = parseSlideMarks(slide_timings, deck.slides.length)
+
+    const { error: updateError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({
+        deck_path: storagePath,
+        deck_slides: deck.slides,
+        slide_timings: slideTimings,
+      })
+      .eq('id', runId)
+
+    if (updateError) {
+      console.error('[Run Slides] Failed to update run:', { runId, error: updateError })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save slide deck', details: updateError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      ok: true,
+      slide_count: deck.slides.length,
+      slide_timings: slideTimings,
+    })
+  } catch (error: any) {
+    console.error('[Run Slides] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { getRunJobs, isRunJobDue, kickRunJob } from '@/lib/jobs'
+import { canViewRun } from '@/lib/runs/access'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/runs/[id]/status?session_id=...
+ * Lightweight polling endpoint for queued transcription/analysis.
+ * Allowed for the run's owner, their coaches and invited reviewers, or anonymous callers holding the run's session_id.
+ * Also nudges the queue if this run's job is due (e.g. cron hasn't run yet).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const noStore = { 'Cache-Control': 'no-store' }
+
+  try {
+    const { id } = params
+    const sessionId = request.nextUrl.searchParams.get('session_id')
+
+    const { data: run, error } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, status, error_message, transcript, analysis_json, analysis_stages, word_count, words_per_minute, duration_ms, audio_seconds, user_id, session_id')
+      .eq('id', id)
+      .single()
+
+    if (error || !run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404, headers: noStore }
+      )
+    }
+
+    if (!(await canViewRun(run, sessionId))) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404, headers: noStore }
+      )
+    }
+
+    const jobs = await getRunJobs(id)
+    const activeJob = jobs.find((job) => job.status === 'queued' || job.status === 'running')
+    if (activeJob && isRunJobDue(activeJob)) {
+      kickRunJob(activeJob.id)
+    }
+
+    const { user_id: _userId, session_id: _sessionId, ...runStatus } = run
+
+    return NextResponse.json(
+      {
+        ok: true,
+        run: { ...runStatus, analysis_json: upgradeAnalysisJson(runStatus.analysis_json) },
+        jobs: jobs.map((job) => ({
+          id: job.id,
+          type: job.type,
+          status: job.status,
+          attempts: job.attempts,
+          max_attempts: job.max_attempts,
+          run_after: job.run_after,
+          last_error: job.last_error,
+          created_at: job.created_at,
+          finished_at: job.finished_at,
+        })),
+      },
+      { headers: noStore }
+    )
+  } catch (error: any) {
+    console.error('[Run Status] Unexpected error:', { error: error.message })
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error.message },
+      { status: 500, headers: noStore }
+    )
+  }
+}
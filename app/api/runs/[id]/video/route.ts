@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { parseVideoSamples, summarizeVideoDelivery } from '@/lib/video'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/runs/[id]/video
+ * Attach a video-mode recording to a run once it has been uploaded to storage
+ * Input: { storagePath, samples, detector, duration_ms? }
+ * samples are the frame measurements taken in the browser (lib/video startVideoCapture);
+ * they are summarized into pitch_runs.video_delivery, the frames themselves are not stored
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: runId } = params
+
+    // Get authenticated user (optional - runs without user_id are open, as for uploads)
+    let userId: string | null = null
+    try {
+      const supabase = await createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        userId = user.id
+      }
+    } catch (err) {
+      // Not authenticated
+    }
+
+    const body = await request.json()
+    const { storagePath, samples, detector, duration_ms } = body
+
+    if (typeof storagePath !== 'string' || storagePath.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'storagePath is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: run, error: runError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, user_id, session_id')
+      .eq('id', runId)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    if (run.user_id && run.user_id !== userId) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    // Only accept the path /api/uploads/sign handed out for this run's video
+    if (!storagePath.startsWith(`${run.session_id}/${runId}_video.`)) {
+      return NextResponse.json(
+        { ok: false, error: 'storagePath does not belong to this run' },
+        { status: 400 }
+      )
+    }
+
+    const durationMs = typeof duration_ms === 'number' && duration_ms > 0 ? duration_ms : null
+    const delivery = summarizeVideoDelivery(
+      parseVideoSamples(samples),
+      detector === 'face-detector' ? 'face-detector' : 'skin-tone',
+      durationMs !== null ? durationMs / 1000 : null
+    )
+
+    const { error: updateError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({
+        video_path: storagePath,
+        video_delivery: delivery,
+      })
+      .eq('id', runId)
+
+    if (updateError) {
+      console.error('[Run Video] Failed to update run:', { runId, error: updateError })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save video', details: updateError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      ok: true,
+      video_delivery: delivery,
+    })
+  } catch (error: any) {
+    console.error('[Run Video] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
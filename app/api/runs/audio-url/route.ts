@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server-auth'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { isCoachOf } from '@/lib/organizations'
+import { isRunReviewer } from '@/lib/runs/reviewers'
 
 export const dynamic = 'force-dynamic'
 
@@ -9,7 +11,7 @@ export const dynamic = 'force-dynamic'
  * Generate a signed URL for audio playback
  * - Auth required
  * - Validates run exists
- * - Validates run.user_id === authenticated user id (or admin)
+ * - Validates run.user_id === authenticated user id (or one of their coaches, or an invited reviewer)
  * - Returns { url: string }
  */
 export async function GET(request: NextRequest) {
@@ -50,9 +52,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Validate ownership: run.user_id === authenticated user id
+    // Validate ownership: run.user_id === authenticated user id, a coach of theirs or an invited reviewer
     // Note: Admin role check can be added here if needed
-    if (run.user_id !== null && run.user_id !== user.id) {
+    if (
+      run.user_id !== null &&
+      run.user_id !== user.id &&
+      !(await isCoachOf(user.id, run.user_id)) &&
+      !(await isRunReviewer(run.id, user.id))
+    ) {
       return NextResponse.json(
         { ok: false, error: 'Unauthorized' },
         { status: 403 }
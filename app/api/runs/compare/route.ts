@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { compareRuns } from '@/lib/compare'
+import { canViewRun } from '@/lib/runs/access'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/runs/compare?ids=<id>,<id>&session_id=...
+ * Side-by-side comparison of two runs: score and per-criterion changes, line-by-line
+ * issues fixed or regressed, timing differences and the aligned transcripts
+ * The older run is "before" whichever order the ids are in
+ * Allowed when the caller can read both runs (owner, or anonymous with their session_id)
+ * Output: { ok: true, comparison: RunComparison }
+ */
+export async function GET(request: NextRequest) {
+  const noStore = { 'Cache-Control': 'no-store' }
+
+  try {
+    const sessionId = request.nextUrl.searchParams.get('session_id')
+    const ids = (request.nextUrl.searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+
+    if (ids.length !== 2 || ids[0] === ids[1]) {
+      return NextResponse.json(
+        { ok: false, error: 'Two run ids are required', details: 'Pass ids=<id>,<id>' },
+        { status: 400, headers: noStore }
+      )
+    }
+
+    const { data: rows, error } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, created_at, title, status, transcript, language, duration_ms, audio_seconds, word_count, words_per_minute, analysis_json, user_id, session_id')
+      .in('id', ids)
+
+    if (error) {
+      console.error('[Compare] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch runs', details: error.message },
+        { status: 500, headers: noStore }
+      )
+    }
+
+    const runs = ids.map(id => (rows || []).find(row => row.id === id))
+    for (const run of runs) {
+      if (!run || !(await canViewRun(run, sessionId))) {
+        return NextResponse.json(
+          { ok: false, error: 'Run not found' },
+          { status: 404, headers: noStore }
+        )
+      }
+    }
+
+    const [first, second] = runs.map(run => ({
+      ...run!,
+      analysis_json: upgradeAnalysisJson(run!.analysis_json),
+    }))
+
+    return NextResponse.json(
+      { ok: true, comparison: compareRuns(first, second) },
+      { headers: noStore }
+    )
+  } catch (error: any) {
+    console.error('[Compare] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500, headers: noStore }
+    )
+  }
+}
@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
 import { v4 as uuidv4 } from 'uuid'
+import { DEFAULT_RUN_LANGUAGE, isRunLanguage, RUN_LANGUAGES } from '@/lib/languages'
+import { MAX_SCRIPT_CHARS } from '@/lib/script'
+import { canAccessRun } from '@/lib/runs/access'
+import { resolvePersona } from '@/lib/runs/persona'
+import { loadPracticeSession } from '@/lib/runs/practice-session'
+import { loadAssignment } from '@/lib/runs/assignment'
+import { getMemberRole } from '@/lib/organizations'
+import { ATTEMPT_RUN_STATUSES } from '@/lib/assignments'
 
 export const dynamic = 'force-dynamic'
 
@@ -9,7 +17,14 @@ export const dynamic = 'force-dynamic'
  * POST /api/runs/create
  * Create a pitch run record (metadata only, no audio upload)
  * Audio upload is handled separately via direct-to-storage upload
- * Input: { session_id, rubric_id?, rubric_json?, title?, duration_ms?, pitch_context? }
+ * Input: { session_id, rubric_id?, rubric_json?, title?, duration_ms?, pitch_context?, language?, reference_script?, persona_id?, practice_session_id?, assignment_id? }
+ * language is the spoken language (en | es | fr | de | ja, default en)
+ * reference_script is the written script the run is rehearsed from (compared with the transcript in analysis)
+ * persona_id is a built-in persona key or one of the user's saved personas (GET /api/personas)
+ * practice_session_id makes the run a take of that session; the session's rubric, context,
+ * language and persona fill in whatever the request leaves out
+ * assignment_id submits the run for an assignment (signed-in members of its organization, within
+ * its attempt limit); the run is graded against the assignment's rubric snapshot
  * Output: { ok: true, run: {...}, runId: string }
  */
 export async function POST(request: NextRequest) {
@@ -27,6 +42,11 @@ export async function POST(request: NextRequest) {
     let title: string | null = null
     let durationMsStr: string | null = null
     let pitchContext: string | null = null
+    let language: string | null = null
+    let referenceScript: string | null = null
+    let personaId: string | null = null
+    let practiceSessionId: string | null = null
+    let assignmentId: string | null = null
 
     const contentType = request.headers.get('content-type') || ''
     
@@ -39,6 +59,11 @@ export async function POST(request: NextRequest) {
       title = body.title || null
       durationMsStr = body.duration_ms?.toString() || null
       pitchContext = body.pitch_context || null
+      language = body.language || null
+      referenceScript = typeof body.reference_script === 'string' ? body.reference_script : null
+      personaId = typeof body.persona_id === 'string' ? body.persona_id : null
+      practiceSessionId = typeof body.practice_session_id === 'string' ? body.practice_session_id : null
+      assignmentId = typeof body.assignment_id === 'string' ? body.assignment_id : null
     } else {
       // FormData (for backwards compatibility)
       const formData = await request.formData()
@@ -48,6 +73,11 @@ export async function POST(request: NextRequest) {
       title = formData.get('title') as string | null
       durationMsStr = formData.get('duration_ms') as string | null
       pitchContext = formData.get('pitch_context') as string | null
+      language = formData.get('language') as string | null
+      referenceScript = formData.get('reference_script') as string | null
+      personaId = formData.get('persona_id') as string | null
+      practiceSessionId = formData.get('practice_session_id') as string | null
+      assignmentId = formData.get('assignment_id') as string | null
     }
 
     const durationMs = durationMsStr ? parseInt(durationMsStr, 10) : null
@@ -78,6 +108,120 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Takes of a practice session are graded the way the session was set up
+    const practiceSession = practiceSessionId ? await loadPracticeSession(practiceSessionId) : null
+    if (practiceSessionId && (!practiceSession || !(await canAccessRun(practiceSession, sessionId)))) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Practice session not found',
+          details: `No practice session with id ${practiceSessionId}`,
+        },
+        { status: 400 }
+      )
+    }
+    if (practiceSession) {
+      if (!rubricId && !rubricJsonStr) {
+        rubricId = practiceSession.rubric_id
+        rubricJsonStr = practiceSession.rubric_snapshot_json
+          ? JSON.stringify(practiceSession.rubric_snapshot_json)
+          : null
+      }
+      pitchContext = pitchContext || practiceSession.pitch_context
+      language = language || practiceSession.language
+    }
+
+    // Assignment submissions are always graded against the assignment's rubric
+    const assignment = assignmentId ? await loadAssignment(assignmentId) : null
+    const memberRole = assignment && userId ? await getMemberRole(assignment.organization_id, userId) : null
+    if (assignmentId && (!assignment || !memberRole)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Assignment not found',
+          details: userId ? `No assignment with id ${assignmentId}` : 'Sign in to submit an assignment',
+        },
+        { status: 400 }
+      )
+    }
+    if (assignmentId && memberRole !== 'learner') {
+      return NextResponse.json(
+        { ok: false, error: 'Only learners can submit assignments' },
+        { status: 403 }
+      )
+    }
+    if (assignment && userId) {
+      if (assignment.max_attempts !== null) {
+        // Only uploaded runs use up an attempt (same rule as countsAsAttempt). Pending runs can
+        // still race past this check; uploads/complete enforces the limit when they finish.
+        const { count, error: countError } = await getSupabaseAdmin()
+          .from('pitch_runs')
+          .select('id', { count: 'exact', head: true })
+          .eq('assignment_id', assignment.id)
+          .eq('user_id', userId)
+          .in('status', ATTEMPT_RUN_STATUSES)
+
+        if (countError) {
+          console.error('[Create Run] Failed to count assignment attempts:', { assignmentId, error: countError })
+          return NextResponse.json(
+            { ok: false, error: 'Failed to check assignment attempts', details: countError.message },
+            { status: 500 }
+          )
+        }
+        if ((count ?? 0) >= assignment.max_attempts) {
+          return NextResponse.json(
+            {
+              ok: false,
+              error: 'No attempts left',
+              details: `This assignment allows ${assignment.max_attempts} ${assignment.max_attempts === 1 ? 'attempt' : 'attempts'}`,
+            },
+            { status: 400 }
+          )
+        }
+      }
+      rubricId = null
+      rubricJsonStr = JSON.stringify(assignment.rubric_snapshot_json)
+      pitchContext = pitchContext || assignment.prompt
+    }
+
+    if (language && !isRunLanguage(language)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `Unsupported language: ${language}`,
+          details: `language must be one of: ${RUN_LANGUAGES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+    const runLanguage = language && isRunLanguage(language) ? language : DEFAULT_RUN_LANGUAGE
+
+    if (referenceScript && referenceScript.length > MAX_SCRIPT_CHARS) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Reference script is too long',
+          details: `reference_script must be at most ${MAX_SCRIPT_CHARS} characters`,
+        },
+        { status: 400 }
+      )
+    }
+
+    // Snapshot the persona so later edits don't change how this run is analyzed
+    const persona = personaId
+      ? await resolvePersona(personaId, userId)
+      : practiceSession?.persona_snapshot ?? null
+    if (personaId && !persona) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Persona not found',
+          details: `No built-in or saved persona with id ${personaId}`,
+        },
+        { status: 400 }
+      )
+    }
+
     // Handle rubric: either rubric_id OR rubric_json
     let finalRubricId: string | null = rubricId || null
     let rubricName: string | null = null
@@ -197,6 +341,7 @@ export async function POST(request: NextRequest) {
         sessionId,
         title,
         durationMs,
+        language: runLanguage,
         note: 'Audio upload happens separately via direct-to-storage',
       })
     }
@@ -233,6 +378,11 @@ export async function POST(request: NextRequest) {
       duration_ms: durationMs, // Store duration_ms as source of truth
       user_id: userId, // Store user_id if authenticated
       pitch_context: pitchContext || null, // Store pitch context if provided
+      language: runLanguage,
+      reference_script: referenceScript?.trim() || null,
+      persona_snapshot: persona,
+      practice_session_id: practiceSession?.id ?? null,
+      assignment_id: assignment?.id ?? null,
     }
     
     // Set rubric_id only if provided (not when using rubric_json)
@@ -248,7 +398,7 @@ export async function POST(request: NextRequest) {
     const { data: run, error: dbError } = await getSupabaseAdmin()
       .from('pitch_runs')
       .insert(insertData)
-      .select('id, session_id, created_at, title, audio_path, audio_seconds, duration_ms, transcript, analysis_json, status, error_message, rubric_id, rubric_snapshot_json, word_count, words_per_minute, user_id, pitch_context')
+      .select('id, session_id, created_at, title, audio_path, audio_seconds, duration_ms, transcript, analysis_json, status, error_message, rubric_id, rubric_snapshot_json, word_count, words_per_minute, user_id, pitch_context, language, persona_snapshot, practice_session_id, assignment_id')
       .single()
 
     if (dbError) {
@@ -319,6 +469,10 @@ export async function POST(request: NextRequest) {
         rubric_snapshot_json: run.rubric_snapshot_json || null,
         word_count: run.word_count || null,
         words_per_minute: run.words_per_minute || null,
+        language: run.language,
+        persona_snapshot: run.persona_snapshot || null,
+        practice_session_id: run.practice_session_id || null,
+        assignment_id: run.assignment_id || null,
       },
       runId: run.id, // Also include runId for backwards compatibility
     })
@@ -28,6 +28,8 @@ export async function GET(request: NextRequest) {
       .from('pitch_runs')
       .select('id, title, created_at, status, audio_seconds, duration_ms, word_count, rubric_id, rubrics(name)')
       .eq('user_id', user.id)
+      // Q&A answers are shown on their pitch's page, not as runs of their own
+      .is('parent_run_id', null)
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import { buildSharedRun, type RunShareLink } from '@/lib/share'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/share/[token]
+ * Public, read-only view of a shared run (no auth). Each request counts as a view.
+ * Output: { ok: true, run: SharedRun, expires_at }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Counts the view and returns nothing for unknown, expired or revoked links
+    const { data: links, error: linkError } = await getSupabaseAdmin()
+      .rpc('record_run_share_view', { p_token: params.token })
+
+    if (linkError) {
+      console.error('[Share] Failed to record view:', { error: linkError })
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load shared run', details: linkError.message },
+        { status: 500 }
+      )
+    }
+
+    const link = (links as RunShareLink[] | null)?.[0]
+    if (!link) {
+      return NextResponse.json(
+        { ok: false, error: 'This link has expired or been revoked' },
+        { status: 404, headers: { 'Cache-Control': 'no-store' } }
+      )
+    }
+
+    const { data: run, error } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('title, created_at, language, duration_ms, audio_seconds, word_count, words_per_minute, pitch_context, transcript, analysis_json, persona_snapshot, rubric_snapshot_json, audio_path, rubrics(name, title)')
+      .eq('id', link.run_id)
+      .single()
+
+    if (error || !run) {
+      console.error('[Share] Shared run not found:', { runId: link.run_id, error })
+      return NextResponse.json(
+        { ok: false, error: 'Run not found' },
+        { status: 404 }
+      )
+    }
+
+    const shared = buildSharedRun(
+      { ...run, analysis_json: upgradeAnalysisJson(run.analysis_json), rubrics: run.rubrics as any },
+      link
+    )
+
+    if (link.scope === 'full' && run.audio_path) {
+      const { data: signedUrlData, error: urlError } = await getSupabaseAdmin().storage
+        .from('pitchpractice-audio')
+        .createSignedUrl(run.audio_path, 3600) // 1 hour expiry
+
+      if (urlError) {
+        console.error('[Share] Failed to generate signed URL:', { path: run.audio_path, error: urlError })
+      }
+      shared.audio_url = signedUrlData?.signedUrl || null
+    }
+
+    return NextResponse.json(
+      { ok: true, run: shared, expires_at: link.expires_at },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error: any) {
+    console.error('[Share] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server-auth'
+import { PdfParseError } from '@/lib/slides'
+import { MAX_DECK_BYTES, readDeckSlides } from '@/lib/runs/slides'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Anonymous callers identify themselves with the practice page's session id (a UUID)
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * POST /api/slides/parse
+ * Read a PDF slide deck before recording, so the practice page knows how many slides it has
+ * Input: multipart/form-data with field "deck_file", and "session_id" when not signed in
+ * Output: { ok, page_count, slides: [{ index, text }] }
+ * Nothing is stored; the deck is attached to the run after upload (POST /api/runs/[id]/slides)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    const formData = await request.formData()
+    const sessionId = formData.get('session_id')
+
+    if (!user && !(typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId))) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const file = formData.get('deck_file') as File | null
+
+    if (!file) {
+      return NextResponse.json(
+        { ok: false, error: 'No file provided. Use field name "deck_file".' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_DECK_BYTES) {
+      return NextResponse.json(
+        { ok: false, error: `File size exceeds maximum of ${MAX_DECK_BYTES / 1024 / 1024}MB` },
+        { status: 400 }
+      )
+    }
+
+    if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+      return NextResponse.json(
+        { ok: false, error: 'Slide decks must be PDF files. Export your slides as PDF first.' },
+        { status: 400 }
+      )
+    }
+
+    const slides = readDeckSlides(Buffer.from(await file.arrayBuffer()))
+
+    return NextResponse.json({
+      ok: true,
+      page_count: slides.length,
+      slides,
+    })
+  } catch (error: any) {
+    if (error instanceof PdfParseError) {
+      return NextResponse.json(
+        { ok: false, error: 'Could not read this PDF', details: error.message },
+        { status: 400 }
+      )
+    }
+    console.error('[Slides Parse] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', details: error?.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdmin } from '@/lib/supabase/server'
 import { createClient } from '@/lib/supabase/server-auth'
+import { probeStoredAudio } from '@/lib/runs/audio'
+import { claimAssignmentAttempt } from '@/lib/runs/assignment'
 
 export const dynamic = 'force-dynamic'
 
@@ -8,8 +10,9 @@ export const dynamic = 'force-dynamic'
  * POST /api/uploads/complete
  * Notify that an upload has completed
  * Auth required
- * Input: { runId, storagePath, chunkIndex?, start_ms, end_ms }
- * Updates pitch_runs.audio_path or creates run_chunks record
+ * Input: { runId, storagePath, chunkIndex?, start_ms, end_ms, duration_ms? }
+ * Updates pitch_runs.audio_path, probes the file for duration_ms/audio_meta, or creates run_chunks record
+ * An assignment run over the assignment's max_attempts is detached from it (assignment_detached: true)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -26,7 +29,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { runId, storagePath, chunkIndex, start_ms, end_ms } = body
+    const { runId, storagePath, chunkIndex, start_ms, end_ms, duration_ms } = body
 
     if (!runId || !storagePath) {
       return NextResponse.json(
@@ -96,11 +99,27 @@ export async function POST(request: NextRequest) {
       })
     } else {
       // Single file upload - update pitch_runs.audio_path
+      // The probed duration is authoritative; the client-reported duration_ms is only a fallback
+      // (it is sent for runs created before recording finished, i.e. live-coached runs)
+      const probe = await probeStoredAudio(storagePath)
+      const clientDurationMs = duration_ms !== undefined && duration_ms !== null ? parseInt(duration_ms, 10) : null
+      const durationMs = probe?.duration_ms || (clientDurationMs && clientDurationMs > 0 ? clientDurationMs : null)
+
+      if (probe && clientDurationMs && probe.duration_ms && Math.abs(probe.duration_ms - clientDurationMs) > 2000) {
+        console.warn('[Upload Complete] Client duration differs from probed duration:', {
+          runId,
+          clientDurationMs,
+          probedDurationMs: probe.duration_ms,
+        })
+      }
+
       const { data: updatedRun, error: updateError } = await getSupabaseAdmin()
         .from('pitch_runs')
         .update({
           audio_path: storagePath,
           status: 'uploaded',
+          audio_meta: probe,
+          ...(durationMs ? { duration_ms: durationMs, audio_seconds: durationMs / 1000 } : {}),
         })
         .eq('id', runId)
         .select('*')
@@ -114,9 +133,24 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      // The run now counts as an attempt; the limit is enforced here, not only at creation
+      let assignmentDetached = false
+      if (updatedRun.assignment_id) {
+        try {
+          assignmentDetached = !(await claimAssignmentAttempt(runId))
+        } catch (claimError: any) {
+          console.error('[Upload Complete] Failed to claim assignment attempt:', { runId, error: claimError })
+          return NextResponse.json(
+            { ok: false, error: 'Failed to check assignment attempts', details: claimError?.message },
+            { status: 500 }
+          )
+        }
+      }
+
       return NextResponse.json({
         ok: true,
-        run: updatedRun,
+        run: assignmentDetached ? { ...updatedRun, assignment_id: null } : updatedRun,
+        ...(assignmentDetached ? { assignment_detached: true } : {}),
       })
     }
   } catch (error: any) {
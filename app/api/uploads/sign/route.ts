@@ -9,7 +9,7 @@ export const dynamic = 'force-dynamic'
  * POST /api/uploads/sign
  * Generate a signed upload URL for direct-to-storage upload
  * Auth required
- * Input: { runId, chunkIndex?, mimeType }
+ * Input: { runId, chunkIndex?, mimeType, kind? } (kind: 'audio' (default) | 'video' | 'deck')
  * Output: { uploadUrl, storagePath }
  */
 export async function POST(request: NextRequest) {
@@ -27,7 +27,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { runId, chunkIndex, mimeType } = body
+    const { runId, chunkIndex, mimeType, kind } = body
 
     if (!runId) {
       return NextResponse.json(
@@ -66,11 +66,18 @@ export async function POST(request: NextRequest) {
       else if (mimeType.includes('mp3') || mimeType.includes('mpeg')) fileExt = 'mp3'
       else if (mimeType.includes('wav')) fileExt = 'wav'
       else if (mimeType.includes('ogg')) fileExt = 'ogg'
+      else if (mimeType.includes('mp4')) fileExt = 'mp4'
     }
 
     // Generate storage path
     let storagePath: string
-    if (chunkIndex !== undefined && chunkIndex !== null) {
+    if (kind === 'video') {
+      // Video mode: silent camera recording stored next to the run's audio
+      storagePath = `${run.session_id}/${runId}_video.${fileExt}`
+    } else if (kind === 'deck') {
+      // Slide deck attached to the run (always a PDF)
+      storagePath = `${run.session_id}/${runId}_deck.pdf`
+    } else if (chunkIndex !== undefined && chunkIndex !== null) {
       // Chunked upload for Coach plan
       storagePath = `${run.session_id}/${runId}/chunk_${chunkIndex}.${fileExt}`
     } else {
@@ -3,20 +3,34 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { getSessionId } from '@/lib/session'
+import { applyRunEvent, waitForRunStatus, type RunEvent } from '@/lib/run-status'
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { Badge } from '@/components/ui/Badge'
-import { Mic, Upload, Play, Pause, Square, AlertCircle, X, CheckCircle2, Edit2, ExternalLink, Check } from 'lucide-react'
+import { Mic, Upload, Play, Pause, Square, AlertCircle, X, CheckCircle2, Edit2, ExternalLink, Check, ChevronLeft, ChevronRight } from 'lucide-react'
 import Link from 'next/link'
 import { getUserPlan, UserPlan } from '@/lib/plan'
 import { canEditRubrics, canViewPremiumInsights, hasCoachAccess } from '@/lib/entitlements'
+import { DEFAULT_RUN_LANGUAGE, getLanguageProfiles, isRunLanguage, type RunLanguage } from '@/lib/languages'
 import CustomRubricBuilder, { CustomRubric } from '@/components/CustomRubricBuilder'
 import { SignInModal } from '@/components/SignInModal'
 import { createClient } from '@/lib/supabase/client-auth'
 import { RunChunk } from '@/lib/types'
+import type { AnalysisJson } from '@/lib/analysis'
+import { startLiveChunkRecorder, type LiveAudioChunk, type LiveChunkRecorder, type LiveCoachRubricItem } from '@/lib/live-coach'
+import { LiveCoachOverlay } from '@/components/LiveCoachOverlay'
+import { PersonaPicker } from '@/components/PersonaPicker'
+import { startVideoCapture, type VideoCapture, type VideoRecording } from '@/lib/video'
+// Not the lib/slides barrel: it also exports the server-side PDF reader
+import { createSlideTracker, type SlideTracker } from '@/lib/slides/tracker'
+import { MAX_SCRIPT_CHARS } from '@/lib/script'
+import type { DeckSlide, SlideMark } from '@/lib/slides/align'
+import type { Assignment, AssignmentProgress } from '@/lib/assignments'
 
 const DEBUG = true
+// How long the final upload waits for in-flight live chunks before giving up on them
+const LIVE_CHECKPOINT_SETTLE_MS = 30_000
 
 type AnalysisStage =
   | 'idle'
@@ -27,11 +41,17 @@ type AnalysisStage =
   | 'complete'
   | 'error'
 
+// An assignment the takes on this page are submitted for (GET /api/assignments/[id])
+type PracticeAssignment = Pick<Assignment, 'id' | 'title' | 'prompt' | 'due_at' | 'max_attempts'> & {
+  organization_name: string | null
+  progress: AssignmentProgress | null
+}
+
 interface Run {
   id: string
   status: string
   transcript: string | null
-  analysis_json: any
+  analysis_json: AnalysisJson | null
   audio_url: string | null
   audio_seconds: number | null
   duration_ms: number | null
@@ -51,6 +71,9 @@ interface UserRubric {
     description?: string
   }>
   isUserRubric?: boolean
+  /** Shared by a coach with one of the user's organizations */
+  organization_name?: string | null
+  isTeamRubric?: boolean
 }
 
 export default function PracticePage() {
@@ -68,6 +91,7 @@ export default function PracticePage() {
   const [analysisStage, setAnalysisStage] = useState<AnalysisStage>('idle')
   const [analysisStartTime, setAnalysisStartTime] = useState<number | null>(null)
   const [showTimeoutMessage, setShowTimeoutMessage] = useState(false)
+  const [runEventCount, setRunEventCount] = useState(0)
   const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null)
   const [pausedTotalMs, setPausedTotalMs] = useState(0)
   const [pauseStartTime, setPauseStartTime] = useState<number | null>(null)
@@ -77,12 +101,29 @@ export default function PracticePage() {
   const [rubrics, setRubrics] = useState<UserRubric[]>([])
   const [selectedRubricId, setSelectedRubricId] = useState<string>('')
   const [pitchContext, setPitchContext] = useState<string>('')
+  const [runLanguage, setRunLanguage] = useState<RunLanguage>(DEFAULT_RUN_LANGUAGE)
+  const [videoMode, setVideoMode] = useState(false)
+  // Slide deck: PDF shown while recording; slide changes are timed for the slides analysis
+  const [deck, setDeck] = useState<{ file: File; url: string; slides: DeckSlide[] } | null>(null)
+  const [parsingDeck, setParsingDeck] = useState(false)
+  const [deckError, setDeckError] = useState<string | null>(null)
+  const [currentSlide, setCurrentSlide] = useState(1)
+  // Reference script: compared with the transcript (skipped passages, ad-libs, paraphrasing)
+  const [referenceScript, setReferenceScript] = useState('')
+  const [scriptError, setScriptError] = useState<string | null>(null)
+  // Audience persona: reweights the rubric and adds an audience reaction to the analysis
+  const [personaId, setPersonaId] = useState('')
+  // Practice session the takes on this page are grouped into (created with the first take)
+  const [practiceSessionId, setPracticeSessionId] = useState<string | null>(null)
+  const [practiceTakeCount, setPracticeTakeCount] = useState(0)
+  // Assignment from a coach (?assignment=): graded against its rubric, within its attempt limit
+  const [assignment, setAssignment] = useState<PracticeAssignment | null>(null)
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([])
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('')
   const [isTestingMic, setIsTestingMic] = useState(false)
   const [isSilent, setIsSilent] = useState(false)
   const [hasMicPermission, setHasMicPermission] = useState(false)
-  const [feedback, setFeedback] = useState<any>(null)
+  const [feedback, setFeedback] = useState<AnalysisJson | null>(null)
   const [userPlan, setUserPlan] = useState<UserPlan>('free')
   // New rubric mode: 'default' | 'upload' | 'paste' (for Starter+)
   // Keep 'custom' mode for Coach/daypass custom rubric builder
@@ -109,8 +150,15 @@ export default function PracticePage() {
   // Coach-only checkpointing state
   const [checkpoints, setCheckpoints] = useState<RunChunk[]>([])
   const [currentRunId, setCurrentRunId] = useState<string | null>(null)
-  const chunkChunksRef = useRef<Blob[]>([]) // Chunks since last checkpoint
-  const lastCheckpointTimeRef = useRef<number>(0) // Time of last checkpoint in seconds
+  const liveRecorderRef = useRef<LiveChunkRecorder | null>(null) // Short standalone chunks for the live coach
+  const liveCheckpointsRef = useRef<Promise<void>[]>([]) // In-flight live chunk uploads/transcriptions
+  const videoCaptureRef = useRef<VideoCapture | null>(null) // Video mode: camera recording + frame samples
+  const pendingVideoRef = useRef<VideoRecording | null>(null) // Video waiting for its run's audio upload
+  const videoPreviewRef = useRef<HTMLVideoElement | null>(null)
+  const slideTrackerRef = useRef<SlideTracker | null>(null) // Slide changes during the current recording
+  const pendingDeckRef = useRef<{ file: File; marks: SlideMark[] } | null>(null) // Deck waiting for its run's audio upload
+  const deckFileInputRef = useRef<HTMLInputElement>(null)
+  const scriptFileInputRef = useRef<HTMLInputElement>(null)
   const checkpointIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const mimeTypeRef = useRef<string>('audio/webm')
   const audioContextRef = useRef<AudioContext | null>(null)
@@ -122,6 +170,8 @@ export default function PracticePage() {
   const silenceStartRef = useRef<number | null>(null)
   const testAudioRef = useRef<HTMLAudioElement | null>(null)
   const shouldDiscardRecordingRef = useRef<boolean>(false)
+  // Coach-only: what creating the live run counted, to undo if the recording is discarded
+  const checkpointRunCountsRef = useRef<{ take: boolean; attempt: boolean }>({ take: false, attempt: false })
   const feedbackTimerRef = useRef<NodeJS.Timeout | null>(null)
   const [feedbackTimer, setFeedbackTimer] = useState(0)
 
@@ -189,17 +239,19 @@ export default function PracticePage() {
 
   // Fetch rubrics on mount (independent of plan)
   useEffect(() => {
-    // Fetch both default and user rubrics
+    // Fetch default, user and team (shared by a coach) rubrics
     Promise.all([
       fetch('/api/rubrics?scope=templates').then(res => res.json()),
-      fetch('/api/rubrics/user').then(res => res.ok ? res.json() : []).catch(() => [])
+      fetch('/api/rubrics/user').then(res => res.ok ? res.json() : []).catch(() => []),
+      fetch('/api/rubrics?scope=team').then(res => res.ok ? res.json() : []).catch(() => [])
     ])
-      .then(([defaultRubrics, userRubrics]) => {
-        // Combine rubrics: default first, then user rubrics
-        // Mark user rubrics with a flag for grouping
+      .then(([defaultRubrics, userRubrics, teamRubrics]) => {
+        // Combine rubrics: default first, then user rubrics, then team rubrics
+        // Mark user and team rubrics with a flag for grouping
         const allRubrics = [
           ...(Array.isArray(defaultRubrics) ? defaultRubrics : []),
-          ...(Array.isArray(userRubrics) ? userRubrics.map((r: any) => ({ ...r, isUserRubric: true })) : [])
+          ...(Array.isArray(userRubrics) ? userRubrics.map((r: any) => ({ ...r, isUserRubric: true })) : []),
+          ...(Array.isArray(teamRubrics) ? teamRubrics.map((r: any) => ({ ...r, isTeamRubric: true })) : [])
         ]
         setRubrics(allRubrics)
         if (allRubrics.length > 0) {
@@ -214,6 +266,13 @@ export default function PracticePage() {
       setSelectedDeviceId(savedDeviceId)
     }
 
+    const savedLanguage = localStorage.getItem('pitchpractice_language')
+    if (isRunLanguage(savedLanguage)) {
+      setRunLanguage(savedLanguage)
+    }
+    setVideoMode(localStorage.getItem('pitchpractice_video_mode') === 'true')
+    setPersonaId(localStorage.getItem('pitchpractice_persona_id') || '')
+
     // Load saved pitch context
     const savedContext = localStorage.getItem('pitchpractice_pitch_context')
     if (savedContext) {
@@ -234,6 +293,73 @@ export default function PracticePage() {
     enumerateAudioDevices()
   }, [])
 
+  // Resume a practice session (?practice_session=) with the rubric, context, language and persona it remembers
+  useEffect(() => {
+    const resumeId = new URLSearchParams(window.location.search).get('practice_session')
+    if (!resumeId) return
+
+    fetch(`/api/practice-sessions/${resumeId}?session_id=${encodeURIComponent(getSessionId())}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok || !data.session) {
+          console.error('Failed to load practice session:', data.error)
+          return
+        }
+        const session = data.session
+        setPracticeSessionId(session.id)
+        setPracticeTakeCount(data.takes?.length || 0)
+        if (session.pitch_context) {
+          setPitchContext(session.pitch_context)
+        }
+        if (isRunLanguage(session.language)) {
+          setRunLanguage(session.language)
+        }
+        if (session.persona_snapshot?.id) {
+          setPersonaId(session.persona_snapshot.id)
+        }
+        if (session.rubric_snapshot_json) {
+          const rubric = session.rubric_snapshot_json
+          setRubricMode('paste')
+          setParsedCustomRubric({ ...rubric, title: rubric.name || rubric.title || 'Custom Rubric' })
+        } else if (session.rubric_id) {
+          setRubricMode('default')
+          setSelectedRubricSource('template')
+          setSelectedRubricId(session.rubric_id)
+        }
+      })
+      .catch(err => console.error('Failed to load practice session:', err))
+  }, [])
+
+  // Submit takes for an assignment (?assignment=) with the rubric its coach picked
+  useEffect(() => {
+    const assignmentId = new URLSearchParams(window.location.search).get('assignment')
+    if (!assignmentId) return
+
+    fetch(`/api/assignments/${assignmentId}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok || !data.assignment) {
+          console.error('Failed to load assignment:', data.error)
+          setError(data.error || 'Failed to load assignment')
+          return
+        }
+        const loaded = data.assignment
+        setAssignment({
+          id: loaded.id,
+          title: loaded.title,
+          prompt: loaded.prompt,
+          due_at: loaded.due_at,
+          max_attempts: loaded.max_attempts,
+          organization_name: data.organization_name,
+          progress: data.progress ?? null,
+        })
+        const rubric = loaded.rubric_snapshot_json
+        setRubricMode('paste')
+        setParsedCustomRubric({ ...rubric, title: rubric.name || rubric.title || loaded.title })
+      })
+      .catch(err => console.error('Failed to load assignment:', err))
+  }, [])
+
   // Save pitch context to localStorage
   useEffect(() => {
     if (pitchContext) {
@@ -390,9 +516,85 @@ export default function PracticePage() {
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  // Format time for checkpoint display (e.g., "0:00-30:00")
-  const formatCheckpointTime = (startSeconds: number, endSeconds: number) => {
-    return `${formatTime(startSeconds)}–${formatTime(endSeconds)}`
+  // The current practice session, started with this take's settings if there isn't one yet.
+  // Takes are still recorded (ungrouped) if the session can't be created.
+  const ensurePracticeSession = async (settings: {
+    rubric_id?: string | null
+    rubric_json?: string | null
+    pitch_context?: string | null
+  }): Promise<string | null> => {
+    if (practiceSessionId) {
+      return practiceSessionId
+    }
+
+    try {
+      const response = await fetch('/api/practice-sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          session_id: getSessionId(),
+          ...settings,
+          language: runLanguage,
+          persona_id: personaId || null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok || !data.session?.id) {
+        console.error('Failed to start practice session:', data.error)
+        return null
+      }
+      setPracticeSessionId(data.session.id)
+      setPracticeTakeCount(0)
+      return data.session.id
+    } catch (err) {
+      console.error('Failed to start practice session:', err)
+      return null
+    }
+  }
+
+  // A submission was created (change 1) or discarded (change -1): attempts left move the other way
+  const countAssignmentAttempt = (change = 1) => {
+    setAssignment(current => current?.progress
+      ? {
+          ...current,
+          progress: {
+            ...current.progress,
+            attempt_count: Math.max(current.progress.attempt_count + change, 0),
+            attempts_left: current.progress.attempts_left !== null ? Math.max(current.progress.attempts_left - change, 0) : null,
+          },
+        }
+      : current)
+  }
+
+  // Finishing the upload can still find the attempt limit used up (by other takes uploaded
+  // meanwhile); the run is then kept as a plain practice run, not a submission
+  const checkAssignmentDetached = async (completeResponse: Response) => {
+    const completeData = await completeResponse.json().catch(() => null)
+    if (completeData?.assignment_detached) {
+      countAssignmentAttempt(-1)
+      setError('No attempts left on this assignment. This take was saved as a practice run instead.')
+    }
+  }
+
+  // Coach-only: delete the live run of a discarded recording, so it isn't left behind
+  // as an empty take or assignment submission
+  const discardCheckpointRun = async (runId: string) => {
+    const counted = checkpointRunCountsRef.current
+    checkpointRunCountsRef.current = { take: false, attempt: false }
+    try {
+      const response = await fetch(`/api/runs/${runId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error(`Failed to delete run (${response.status})`)
+      }
+      if (counted.take) {
+        setPracticeTakeCount(count => Math.max(count - 1, 0))
+      }
+      if (counted.attempt) {
+        countAssignmentAttempt(-1)
+      }
+    } catch (err) {
+      console.error('[Checkpoint] Error deleting discarded run:', err)
+    }
   }
 
   // Coach-only: Create run first (before recording starts)
@@ -451,6 +653,25 @@ export default function PracticePage() {
         }
       }
 
+      formData.append('language', runLanguage)
+      if (referenceScript.trim()) {
+        formData.append('reference_script', referenceScript.trim())
+      }
+      if (personaId) {
+        formData.append('persona_id', personaId)
+      }
+      const takeSessionId = await ensurePracticeSession({
+        rubric_id: formData.get('rubric_id') as string | null,
+        rubric_json: formData.get('rubric_json') as string | null,
+        pitch_context: formData.get('pitch_context') as string | null,
+      })
+      if (takeSessionId) {
+        formData.append('practice_session_id', takeSessionId)
+      }
+      if (assignment) {
+        formData.append('assignment_id', assignment.id)
+      }
+
       const response = await fetch('/api/runs/create', {
         method: 'POST',
         body: formData,
@@ -463,6 +684,13 @@ export default function PracticePage() {
 
       const data = await response.json()
       const runId = data.runId || data.run?.id || data.id
+      checkpointRunCountsRef.current = { take: !!runId && !!takeSessionId, attempt: !!runId && !!data.run?.assignment_id }
+      if (checkpointRunCountsRef.current.take) {
+        setPracticeTakeCount(count => count + 1)
+      }
+      if (checkpointRunCountsRef.current.attempt) {
+        countAssignmentAttempt()
+      }
       return runId || null
     } catch (err) {
       console.error('[Checkpoint] Error creating run:', err)
@@ -470,72 +698,75 @@ export default function PracticePage() {
     }
   }
 
-  // Coach-only: Create checkpoint at specified time
-  const createCheckpoint = async (chunkIndex: number, startMs: number, endMs: number) => {
-    if (!hasCoachAccess(userPlan) || !currentRunId) {
-      return
-    }
-
+  // Coach-only: Upload a live chunk as a checkpoint, then transcribe it for the live coach
+  const createCheckpoint = async (runId: string, chunk: LiveAudioChunk) => {
     try {
-      // Combine chunks since last checkpoint
-      if (chunkChunksRef.current.length === 0) {
-        console.warn('[Checkpoint] No chunks to upload')
-        return
+      const mimeType = chunk.blob.type || mimeTypeRef.current
+      const signResponse = await fetch('/api/uploads/sign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          runId,
+          chunkIndex: chunk.index,
+          mimeType,
+        }),
+      })
+
+      if (!signResponse.ok) {
+        throw new Error('Failed to get upload path')
       }
 
-      const chunkBlob = new Blob(chunkChunksRef.current, { type: mimeTypeRef.current })
-      const fileExt = mimeTypeRef.current.includes('webm') ? 'webm' : 'mp3'
-      const fileName = `chunk_${chunkIndex}.${fileExt}`
+      const signData = await signResponse.json()
+      if (!signData.ok || !signData.storagePath) {
+        throw new Error('Failed to get upload path: invalid response')
+      }
 
-      // Upload chunk
-      const formData = new FormData()
-      formData.append('audio', chunkBlob, fileName)
-      formData.append('chunk_index', chunkIndex.toString())
-      formData.append('start_ms', startMs.toString())
-      formData.append('end_ms', endMs.toString())
+      const { error: uploadError } = await createClient().storage
+        .from('pitchpractice-audio')
+        .upload(signData.storagePath, chunk.blob, {
+          contentType: mimeType,
+          upsert: false,
+        })
 
-      const response = await fetch(`/api/runs/${currentRunId}/chunks`, {
+      if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`)
+      }
+
+      const response = await fetch(`/api/runs/${runId}/chunks`, {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chunk_index: chunk.index,
+          start_ms: chunk.startMs,
+          end_ms: chunk.endMs,
+          audio_path: signData.storagePath,
+        }),
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to upload chunk')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create checkpoint')
       }
 
       const data = await response.json()
       if (data.ok && data.chunk) {
-        // Add to checkpoints state
         setCheckpoints(prev => [...prev, data.chunk])
-        
-        // Show toast notification
-        const startSeconds = Math.floor(startMs / 1000)
-        const endSeconds = Math.floor(endMs / 1000)
-        const toastMessage = `Checkpoint saved (${formatCheckpointTime(startSeconds, endSeconds)})`
-        console.log('[Checkpoint]', toastMessage)
-        // You can add a toast library here if needed
-        
-        // Trigger transcription
-        transcribeChunk(data.chunk.id)
-        
-        // Clear chunks for next checkpoint
-        chunkChunksRef.current = []
+        await transcribeChunk(runId, data.chunk.id)
       }
     } catch (err: any) {
-      console.error('[Checkpoint] Error creating checkpoint:', err)
-      setError(`Failed to create checkpoint: ${err.message}`)
+      // Live coaching is best-effort: log and keep recording
+      console.error('[Checkpoint] Error creating checkpoint:', { index: chunk.index, error: err.message })
     }
   }
 
   // Coach-only: Transcribe a chunk
-  const transcribeChunk = async (chunkId: string) => {
-    if (!hasCoachAccess(userPlan) || !currentRunId) {
-      return
-    }
+  const transcribeChunk = async (runId: string, chunkId: string) => {
+    setCheckpoints(prev => prev.map(chunk =>
+      chunk.id === chunkId ? { ...chunk, status: 'transcribing' } : chunk
+    ))
 
     try {
-      const response = await fetch(`/api/runs/${currentRunId}/chunks/${chunkId}/transcribe`, {
+      const response = await fetch(`/api/runs/${runId}/chunks/${chunkId}/transcribe`, {
         method: 'POST',
       })
 
@@ -562,6 +793,21 @@ export default function PracticePage() {
     }
   }
 
+  // Coach-only: Wait (up to LIVE_CHECKPOINT_SETTLE_MS) for in-flight live chunks so the
+  // final transcript can be stitched from them instead of re-transcribing the recording
+  const settleLiveCheckpoints = async () => {
+    const deadline = Date.now() + LIVE_CHECKPOINT_SETTLE_MS
+    while (liveCheckpointsRef.current.length > 0 && Date.now() < deadline) {
+      const pending = liveCheckpointsRef.current
+      liveCheckpointsRef.current = []
+      await Promise.race([
+        Promise.allSettled(pending),
+        new Promise(resolve => setTimeout(resolve, deadline - Date.now())),
+      ])
+    }
+    liveCheckpointsRef.current = []
+  }
+
   // Start recording
   const startRecording = async () => {
     if (isSilent) {
@@ -589,12 +835,17 @@ export default function PracticePage() {
       const constraints: MediaStreamConstraints = selectedDeviceId
         ? { audio: { deviceId: { exact: selectedDeviceId } } }
         : { audio: true }
+      if (videoMode) {
+        constraints.video = { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: 'user' }
+      }
       
       const stream = await navigator.mediaDevices.getUserMedia(constraints)
       streamRef.current = stream
       setHasMicPermission(true)
+      // Video mode: the audio recorders only get the microphone track; the camera is recorded separately
+      const audioStream = videoMode ? new MediaStream(stream.getAudioTracks()) : stream
       
-      await setupMicLevelMeter(stream)
+      await setupMicLevelMeter(audioStream)
       
       let mimeType = 'audio/webm'
       if (MediaRecorder.isTypeSupported('audio/webm;codecs=opus')) {
@@ -604,7 +855,7 @@ export default function PracticePage() {
       }
       mimeTypeRef.current = mimeType
 
-      // Coach-only: Create run first for checkpointing
+      // Coach-only: Create run first so live chunks can be checkpointed against it
       const isCoach = hasCoachAccess(userPlan)
       let enableCheckpointing = isCoach
       let runId: string | null = null
@@ -613,8 +864,6 @@ export default function PracticePage() {
         if (runId) {
           setCurrentRunId(runId)
           setCheckpoints([])
-          chunkChunksRef.current = []
-          lastCheckpointTimeRef.current = 0
         } else {
           // Fall back to normal recording if checkpoint run creation fails
           enableCheckpointing = false
@@ -622,17 +871,13 @@ export default function PracticePage() {
         }
       }
 
-      const mediaRecorder = new MediaRecorder(stream, { mimeType })
+      const mediaRecorder = new MediaRecorder(audioStream, { mimeType })
       mediaRecorderRef.current = mediaRecorder
       audioChunksRef.current = []
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data)
-          // Coach-only: Also track chunks for checkpointing
-          if (enableCheckpointing) {
-            chunkChunksRef.current.push(event.data)
-          }
         }
       }
 
@@ -656,10 +901,17 @@ export default function PracticePage() {
           setPausedTotalMs(0)
           setPauseStartTime(null)
           audioChunksRef.current = []
+          videoCaptureRef.current?.cancel()
+          videoCaptureRef.current = null
+          slideTrackerRef.current = null
           if (isCoach) {
-            chunkChunksRef.current = []
+            liveRecorderRef.current?.cancel()
+            liveRecorderRef.current = null
             setCheckpoints([])
             setCurrentRunId(null)
+            if (runId) {
+              discardCheckpointRun(runId)
+            }
           }
           return
         }
@@ -669,19 +921,14 @@ export default function PracticePage() {
         
         if (totalSize < 5 * 1024) {
           setError('Recording was empty—check mic permissions.')
+          videoCaptureRef.current?.cancel()
+          videoCaptureRef.current = null
+          slideTrackerRef.current = null
           stream.getTracks().forEach(track => track.stop())
           streamRef.current = null
           return
         }
         
-        // Coach-only: Handle final chunk if there's remaining audio
-        if (enableCheckpointing && currentRunId && chunkChunksRef.current.length > 0) {
-          const finalChunkIndex = Math.floor(recordingTime / 1800) // Which 30-min segment
-          const startMs = lastCheckpointTimeRef.current * 1000
-          const endMs = recordingTime * 1000
-          await createCheckpoint(finalChunkIndex, startMs, endMs)
-        }
-        
         const audioBlob = new Blob(audioChunksRef.current, { type: actualMimeType })
         
         let calculatedDurationMs: number | null = null
@@ -711,11 +958,19 @@ export default function PracticePage() {
           ;(audioBlob as any).__durationMs = calculatedDurationMs
         }
         
-        // Coach-only: If we have a run with checkpoints, we still need to upload final audio
-        // The chunks are already linked to currentRunId, so we'll upload the final audio
-        // which will create/update the run. For now, we'll use regular upload.
-        // TODO: In the future, we could update the existing run's audio path
-        await uploadAudio(audioBlob, 'recording.webm')
+        // Coach-only: Upload the final audio to the live run so its chunk transcripts can be stitched
+        if (enableCheckpointing && runId) {
+          await settleLiveCheckpoints()
+        }
+        // Video mode: uploaded by uploadAudio once the run exists
+        pendingVideoRef.current = videoCaptureRef.current ? await videoCaptureRef.current.stop() : null
+        videoCaptureRef.current = null
+        // Slide deck: also attached by uploadAudio, with the slide changes recorded against the audio
+        pendingDeckRef.current = deck && slideTrackerRef.current
+          ? { file: deck.file, marks: slideTrackerRef.current.marks() }
+          : null
+        slideTrackerRef.current = null
+        await uploadAudio(audioBlob, 'recording.webm', enableCheckpointing ? runId : null)
         
         stream.getTracks().forEach(track => track.stop())
         streamRef.current = null
@@ -733,6 +988,28 @@ export default function PracticePage() {
       // This enables progressive chunk collection and prevents memory issues for long recordings
       const timesliceMs = 3000 // 3 second chunks for all plans
       mediaRecorder.start(timesliceMs)
+      if (videoMode) {
+        videoCaptureRef.current = startVideoCapture(stream)
+        if (videoPreviewRef.current) {
+          videoPreviewRef.current.srcObject = stream
+        }
+      }
+      if (deck) {
+        slideTrackerRef.current = createSlideTracker(deck.slides.length)
+        setCurrentSlide(1)
+      }
+
+      // Coach-only: Record short standalone chunks alongside the main recording for the live coach
+      liveCheckpointsRef.current = []
+      if (enableCheckpointing && runId) {
+        const liveRunId = runId
+        liveRecorderRef.current = startLiveChunkRecorder(audioStream, {
+          mimeType,
+          onChunk: (chunk) => {
+            liveCheckpointsRef.current.push(createCheckpoint(liveRunId, chunk))
+          },
+        })
+      }
       setIsRecording(true)
       setIsPaused(false)
       setIsSilent(false)
@@ -744,25 +1021,12 @@ export default function PracticePage() {
       setPausedTotalMs(0)
       setPauseStartTime(null)
 
-      // Coach-only: Set up checkpoint intervals (30:00, 60:00)
+      // Coach-only: 60-minute timer (live chunks are cut by the live chunk recorder)
       if (isCoach) {
-        const checkpointTimes = [1800, 3600] // 30, 60 minutes in seconds
         checkpointIntervalRef.current = setInterval(() => {
           setRecordingTime(prev => {
             const newTime = prev + 1
             
-            // Check for checkpoint boundaries
-            for (const checkpointTime of checkpointTimes) {
-              if (newTime === checkpointTime && lastCheckpointTimeRef.current < checkpointTime) {
-                const chunkIndex = checkpointTime / 1800 - 1 // 0, 1
-                const startMs = lastCheckpointTimeRef.current * 1000
-                const endMs = checkpointTime * 1000
-                createCheckpoint(chunkIndex, startMs, endMs)
-                lastCheckpointTimeRef.current = checkpointTime
-                break
-              }
-            }
-            
             // Auto-stop at 60 minutes for Coach
             const maxSeconds = 3600 // 60 minutes
             if (newTime >= maxSeconds) {
@@ -789,7 +1053,9 @@ export default function PracticePage() {
       }
     } catch (err) {
       console.error('Error starting recording:', err)
-      setError('Failed to start recording. Please check microphone permissions.')
+      setError(videoMode
+        ? 'Failed to start recording. Please check microphone and camera permissions.'
+        : 'Failed to start recording. Please check microphone permissions.')
       stopMicLevelMeter()
     }
   }
@@ -797,6 +1063,9 @@ export default function PracticePage() {
   const pauseRecording = () => {
     if (mediaRecorderRef.current && isRecording && !isPaused) {
       mediaRecorderRef.current.pause()
+      liveRecorderRef.current?.pause()
+      videoCaptureRef.current?.pause()
+      slideTrackerRef.current?.pause()
       setIsPaused(true)
       setPauseStartTime(Date.now())
       // Pause the timer
@@ -804,12 +1073,19 @@ export default function PracticePage() {
         clearInterval(timerIntervalRef.current)
         timerIntervalRef.current = null
       }
+      if (checkpointIntervalRef.current) {
+        clearInterval(checkpointIntervalRef.current)
+        checkpointIntervalRef.current = null
+      }
     }
   }
 
   const resumeRecording = () => {
     if (mediaRecorderRef.current && isPaused && pauseStartTime) {
       mediaRecorderRef.current.resume()
+      liveRecorderRef.current?.resume()
+      videoCaptureRef.current?.resume()
+      slideTrackerRef.current?.resume()
       const pauseDuration = Date.now() - pauseStartTime
       setPausedTotalMs(prev => prev + pauseDuration)
       setPauseStartTime(null)
@@ -839,6 +1115,12 @@ export default function PracticePage() {
       }
       
       mediaRecorderRef.current.stop()
+      // Stop the camera with the microphone so both recordings end together; onstop collects it
+      videoCaptureRef.current?.stop()
+      if (liveRecorderRef.current) {
+        liveCheckpointsRef.current.push(liveRecorderRef.current.stop())
+        liveRecorderRef.current = null
+      }
       setIsRecording(false)
       setIsPaused(false)
       stopMicLevelMeter()
@@ -852,6 +1134,11 @@ export default function PracticePage() {
   const handleRerecord = () => {
     // Set flag to prevent onstop callback from uploading
     shouldDiscardRecordingRef.current = true
+    liveRecorderRef.current?.cancel()
+    liveRecorderRef.current = null
+    videoCaptureRef.current?.cancel()
+    videoCaptureRef.current = null
+    slideTrackerRef.current = null
     
     // Stop recorder safely if active (paused or recording)
     try {
@@ -926,11 +1213,14 @@ export default function PracticePage() {
     if (fileDurationMs !== null && fileDurationMs > 0) {
       setDurationMs(fileDurationMs)
     }
+    pendingVideoRef.current = null
+    pendingDeckRef.current = null
     await uploadAudio(file, file.name)
   }
 
   // Upload audio using direct-to-storage (supports chunking for Coach plan)
-  const uploadAudio = async (audioBlob: Blob, fileName: string) => {
+  // existingRunId: attach the audio to a run created earlier (Coach live-coached recordings)
+  const uploadAudio = async (audioBlob: Blob, fileName: string, existingRunId: string | null = null) => {
     setIsUploading(true)
     setError(null)
     
@@ -952,7 +1242,8 @@ export default function PracticePage() {
       // Determine if we need chunking (Coach plan, > 30 min)
       const isCoach = hasCoachAccess(userPlan)
       const CHUNK_DURATION_MS = 30 * 60 * 1000 // 30 minutes in ms
-      const needsChunking = isCoach && uploadDurationMs && uploadDurationMs > CHUNK_DURATION_MS
+      // Live-coached runs already have chunk transcripts covering the recording
+      const needsChunking = !existingRunId && isCoach && uploadDurationMs && uploadDurationMs > CHUNK_DURATION_MS
 
       if (DEBUG) {
         console.log('[Practice] Starting upload:', {
@@ -995,40 +1286,64 @@ export default function PracticePage() {
         pitchContextStr = pitchContext || null
       }
 
-      // Step 1: Create run record (metadata only)
-      const createBody: any = {
-        session_id: sessionId,
-        duration_ms: uploadDurationMs,
-        pitch_context: pitchContextStr?.trim() || null,
-      }
-      if (rubricId) {
-        createBody.rubric_id = rubricId
-      }
-      if (rubricJson) {
-        createBody.rubric_json = JSON.stringify(rubricJson)
-      }
+      // Step 1: Create run record (metadata only), unless attaching to an existing run
+      let runId: string
+      let createdRun: any = null
+      if (existingRunId) {
+        runId = existingRunId
+      } else {
+        const createBody: any = {
+          session_id: sessionId,
+          duration_ms: uploadDurationMs,
+          pitch_context: pitchContextStr?.trim() || null,
+          language: runLanguage,
+          reference_script: referenceScript.trim() || null,
+          persona_id: personaId || null,
+        }
+        if (rubricId) {
+          createBody.rubric_id = rubricId
+        }
+        if (rubricJson) {
+          createBody.rubric_json = JSON.stringify(rubricJson)
+        }
+        createBody.practice_session_id = await ensurePracticeSession({
+          rubric_id: createBody.rubric_id,
+          rubric_json: createBody.rubric_json,
+          pitch_context: createBody.pitch_context,
+        })
+        if (assignment) {
+          createBody.assignment_id = assignment.id
+        }
 
-      const createResponse = await fetch('/api/runs/create', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(createBody),
-      })
+        const createResponse = await fetch('/api/runs/create', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(createBody),
+        })
 
-      if (!createResponse.ok) {
-        const errorData = await createResponse.json().catch(() => ({}))
-        throw new Error(errorData.error || 'Failed to create run record')
-      }
+        if (!createResponse.ok) {
+          const errorData = await createResponse.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to create run record')
+        }
 
-      const createData = await createResponse.json()
-      if (!createData.ok || !createData.run?.id) {
-        throw new Error('Run creation failed: invalid response')
-      }
+        const createData = await createResponse.json()
+        if (!createData.ok || !createData.run?.id) {
+          throw new Error('Run creation failed: invalid response')
+        }
 
-      const runId = createData.run.id
-      if (DEBUG) {
-        console.log('[Practice] Run created:', { runId, needsChunking })
+        runId = createData.run.id
+        createdRun = createData.run
+        if (createdRun.practice_session_id) {
+          setPracticeTakeCount(count => count + 1)
+        }
+        if (createdRun.assignment_id) {
+          countAssignmentAttempt()
+        }
+        if (DEBUG) {
+          console.log('[Practice] Run created:', { runId, needsChunking })
+        }
       }
 
       // Step 2: Upload audio directly to storage
@@ -1076,7 +1391,7 @@ export default function PracticePage() {
         }
 
         // Notify main upload complete
-        await fetch('/api/uploads/complete', {
+        const mainCompleteResponse = await fetch('/api/uploads/complete', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -1084,6 +1399,7 @@ export default function PracticePage() {
             storagePath: mainStoragePath,
           }),
         })
+        await checkAssignmentDetached(mainCompleteResponse)
 
         // Create chunk records for each 30-minute segment
         // Note: For now, chunks reference the main file with time ranges
@@ -1151,20 +1467,41 @@ export default function PracticePage() {
           body: JSON.stringify({
             runId,
             storagePath,
+            // Existing runs were created before the recording length was known
+            ...(existingRunId && uploadDurationMs ? { duration_ms: uploadDurationMs } : {}),
           }),
         })
 
         if (!completeResponse.ok) {
           console.warn('[Practice] Upload complete notification failed')
+        } else {
+          await checkAssignmentDetached(completeResponse)
         }
       }
 
+      // Video mode: attach the camera recording; the run still works without it
+      const pendingVideo = pendingVideoRef.current
+      pendingVideoRef.current = null
+      if (pendingVideo) {
+        await uploadVideo(runId, pendingVideo)
+      }
+
+      // Slide deck: attach it with the slide timings before transcription kicks off analysis
+      const pendingDeck = pendingDeckRef.current
+      pendingDeckRef.current = null
+      if (pendingDeck) {
+        await uploadDeck(runId, pendingDeck.file, pendingDeck.marks)
+      }
+
       // Fetch updated run only when authenticated
-      let updatedRun = createData.run
-      if (isAuthenticated) {
+      let updatedRun = createdRun
+      if (isAuthenticated || !updatedRun) {
         const runResponse = await fetch(`/api/runs/${runId}`, { cache: 'no-store' })
         const runData = await runResponse.json()
-        updatedRun = runData.run || createData.run
+        updatedRun = runData.run || createdRun
+      }
+      if (!updatedRun) {
+        throw new Error('Failed to load run after upload')
       }
 
       if (uploadDurationMs !== null && uploadDurationMs > 0) {
@@ -1184,6 +1521,167 @@ export default function PracticePage() {
     }
   }
 
+  // Upload a video mode recording and its frame samples (delivery notes are computed server-side)
+  const uploadVideo = async (runId: string, video: VideoRecording) => {
+    try {
+      const signResponse = await fetch('/api/uploads/sign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          runId,
+          mimeType: video.blob.type || 'video/webm',
+          kind: 'video',
+        }),
+      })
+      const signData = await signResponse.json().catch(() => ({}))
+      if (!signResponse.ok || !signData.ok || !signData.storagePath) {
+        throw new Error('Failed to get video upload path')
+      }
+
+      const { error: uploadError } = await createClient().storage
+        .from('pitchpractice-audio')
+        .upload(signData.storagePath, video.blob, {
+          contentType: video.blob.type || 'video/webm',
+          upsert: false,
+        })
+      if (uploadError) {
+        throw new Error(`Video upload failed: ${uploadError.message}`)
+      }
+
+      const response = await fetch(`/api/runs/${runId}/video`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storagePath: signData.storagePath,
+          samples: video.samples,
+          detector: video.detector,
+          duration_ms: video.durationMs,
+        }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to attach video to run')
+      }
+    } catch (err) {
+      console.warn('[Practice] Video upload failed, continuing with audio only:', err)
+    }
+  }
+
+  // Upload the slide deck and the slide changes recorded with it; the run still works without it
+  const uploadDeck = async (runId: string, file: File, marks: SlideMark[]) => {
+    try {
+      const signResponse = await fetch('/api/uploads/sign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ runId, kind: 'deck' }),
+      })
+      const signData = await signResponse.json().catch(() => ({}))
+      if (!signResponse.ok || !signData.ok || !signData.storagePath) {
+        throw new Error('Failed to get deck upload path')
+      }
+
+      const { error: uploadError } = await createClient().storage
+        .from('pitchpractice-audio')
+        .upload(signData.storagePath, file, {
+          contentType: 'application/pdf',
+          upsert: false,
+        })
+      if (uploadError) {
+        throw new Error(`Deck upload failed: ${uploadError.message}`)
+      }
+
+      const response = await fetch(`/api/runs/${runId}/slides`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storagePath: signData.storagePath,
+          slide_timings: marks,
+        }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to attach slide deck to run')
+      }
+    } catch (err) {
+      console.warn('[Practice] Slide deck upload failed, continuing without slide analysis:', err)
+    }
+  }
+
+  // Load a reference script from a plain text or Markdown file
+  const handleScriptFile = async (file: File) => {
+    setScriptError(null)
+    if (!/\.(txt|md|markdown)$/i.test(file.name) && !file.type.startsWith('text/')) {
+      setScriptError('Scripts must be plain text or Markdown files. Paste other formats instead.')
+      return
+    }
+    const text = await file.text()
+    if (text.length > MAX_SCRIPT_CHARS) {
+      setScriptError(`Script is too long (max ${MAX_SCRIPT_CHARS.toLocaleString()} characters).`)
+      return
+    }
+    setReferenceScript(text)
+    if (scriptFileInputRef.current) scriptFileInputRef.current.value = ''
+  }
+
+  // Read a PDF deck so its slides can be shown and timed while recording
+  const handleDeckSelect = async (file: File) => {
+    setDeckError(null)
+    setParsingDeck(true)
+    try {
+      const formData = new FormData()
+      formData.append('deck_file', file)
+      formData.append('session_id', getSessionId())
+      const response = await fetch('/api/slides/parse', { method: 'POST', body: formData })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.ok) {
+        throw new Error(data.details || data.error || 'Could not read slide deck')
+      }
+      if (!data.page_count) {
+        throw new Error('This PDF has no pages')
+      }
+      setDeck(prev => {
+        if (prev) URL.revokeObjectURL(prev.url)
+        return { file, url: URL.createObjectURL(file), slides: data.slides }
+      })
+      setCurrentSlide(1)
+    } catch (err: any) {
+      setDeckError(err.message || 'Could not read slide deck')
+    } finally {
+      setParsingDeck(false)
+    }
+  }
+
+  const removeDeck = () => {
+    setDeck(prev => {
+      if (prev) URL.revokeObjectURL(prev.url)
+      return null
+    })
+    setDeckError(null)
+    if (deckFileInputRef.current) deckFileInputRef.current.value = ''
+  }
+
+  const changeSlide = (direction: 1 | -1) => {
+    const tracker = slideTrackerRef.current
+    if (!tracker) return
+    setCurrentSlide(direction === 1 ? tracker.next() : tracker.previous())
+  }
+
+  // Arrow keys / page keys advance the deck while recording, like a presentation clicker
+  useEffect(() => {
+    if (!isRecording || !deck) return
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (event.key === 'ArrowRight' || event.key === 'PageDown') {
+        event.preventDefault()
+        changeSlide(1)
+      } else if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        event.preventDefault()
+        changeSlide(-1)
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [isRecording, deck])
+
   // Transcribe run
   const transcribeRun = async (runId: string) => {
     if (!runId) {
@@ -1198,21 +1696,22 @@ export default function PracticePage() {
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.message || 'Transcription failed')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || errorData.error || 'Transcription failed')
       }
 
-      const data = await response.json()
+      // Transcription runs in a background job; follow its events until it lands
+      const { run: transcribedRun } = await waitForRunStatus(runId, ['transcribed'], {
+        sessionId: getSessionId(),
+        onEvent: handleRunEvent,
+      })
       
-      if (data.ok && data.run) {
-        setRun({ ...data.run, audio_url: run?.audio_url || null })
-      } else {
-        await fetchRun(runId)
-      }
+      setRun(prev => prev ? { ...prev, ...transcribedRun } : prev)
+      await fetchRun(runId)
       
       setIsTranscribing(false)
       
-      if (data.run?.transcript && data.run.transcript.length > 0) {
+      if (transcribedRun.transcript && transcribedRun.transcript.length > 0) {
         setIsGettingFeedback(true)
         await getFeedback(runId)
       }
@@ -1301,14 +1800,16 @@ export default function PracticePage() {
         throw new Error(errorData.error || errorData.message || 'Feedback generation failed')
       }
 
-      if (responseData?.ok && responseData?.run) {
-        setRun({ ...responseData.run, audio_url: run?.audio_url || null })
-      }
+      // Analysis runs in a background job; follow its events until it lands
+      const { run: analyzedRun } = await waitForRunStatus(runId, ['analyzed'], {
+        sessionId: getSessionId(),
+        onEvent: handleRunEvent,
+      })
+
+      setRun(prev => prev ? { ...prev, ...analyzedRun } : prev)
       
-      if (responseData?.ok && responseData?.analysis) {
-        setFeedback(responseData.analysis)
-      } else if (responseData?.ok && responseData?.run?.analysis_json) {
-        setFeedback(responseData.run.analysis_json)
+      if (analyzedRun.analysis_json) {
+        setFeedback(analyzedRun.analysis_json)
       } else {
         throw new Error('Feedback generation succeeded but no feedback data in response')
       }
@@ -1447,45 +1948,39 @@ export default function PracticePage() {
     }
   }
 
-  // Poll for run updates
+  // Apply streamed run events (status, transcript, analysis sections) to local state
+  const handleRunEvent = (event: RunEvent) => {
+    setRunEventCount(prev => prev + 1)
+    if (event.type === 'ping' || event.type === 'job' || event.type === 'chunk') return
+    setRun(prev => prev ? applyRunEvent(prev, event) : prev)
+  }
+
+  // Derive analysis stage from streamed run state
   // MAX_ANALYSIS_WAIT_MS: 60 seconds timeout
   const MAX_ANALYSIS_WAIT_MS = 60_000
   
   useEffect(() => {
     if (!run?.id || (!isTranscribing && !isGettingFeedback)) return
 
-    const runId = run.id
-    const hasTranscript = !!(run.transcript && run.transcript.trim().length > 0)
-    const hasSummary = !!(run.analysis_json?.summary)
-    
-    // Stop polling when we have transcript + summary (complete)
-    const hasCompleteData = hasTranscript && hasSummary
-    
-    // Determine if we should poll based on stage
-    const shouldPoll = analysisStage !== 'idle' && 
-                       analysisStage !== 'complete' && 
-                       analysisStage !== 'error' &&
-                       !hasCompleteData &&
-                       (isTranscribing || isGettingFeedback)
-
-    if (!shouldPoll) {
-      return
+    const newStage = determineAnalysisStage(run)
+    setAnalysisStage(newStage)
+
+    if (newStage === 'analyzing' && !analysisStartTime) {
+      setAnalysisStartTime(Date.now())
     }
 
-    // Check for timeout
-    if (analysisStartTime && Date.now() - analysisStartTime > MAX_ANALYSIS_WAIT_MS) {
+    if (newStage === 'complete') {
+      setShowTimeoutMessage(false)
+      setAnalysisStartTime(null)
+    } else if (analysisStartTime && Date.now() - analysisStartTime > MAX_ANALYSIS_WAIT_MS) {
       setShowTimeoutMessage(true)
-      // Don't stop polling, but show message
     }
 
-    const interval = setInterval(() => {
-      if (runId) {
-        fetchRun(runId)
-      }
-    }, 2000)
-
-    return () => clearInterval(interval)
-  }, [run?.id, run?.transcript, run?.analysis_json, isTranscribing, isGettingFeedback, analysisStage, analysisStartTime])
+    // Show sections as they land instead of waiting for the job to finish
+    if (run.analysis_json?.summary) {
+      setFeedback(run.analysis_json)
+    }
+  }, [run?.id, run?.status, run?.transcript, run?.analysis_json, isTranscribing, isGettingFeedback, runEventCount])
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
@@ -1534,6 +2029,20 @@ export default function PracticePage() {
   }
 
   const selectedRubric = rubrics.find(r => r.id === selectedRubricId) as any;
+
+  // Rubric sections the live coach tracks coverage for (same source precedence as analysis)
+  const liveCoachRubricItems: LiveCoachRubricItem[] =
+    (rubricMode === 'upload' || rubricMode === 'paste') && parsedCustomRubric
+      ? parsedCustomRubric.criteria
+          .filter((c: any) => c.name && c.name.trim().length > 0)
+          .map((c: any, idx: number) => ({ id: c.id || `criterion_${idx}`, label: c.name, description: c.description }))
+      : selectedRubricSource === 'custom' && customRubric
+      ? customRubric.criteria
+          .filter(c => c.name.trim().length > 0)
+          .map((c, idx) => ({ id: c.id || `criterion_${idx}`, label: c.name, description: c.description }))
+      : ((selectedRubric?.criteria || []) as UserRubric['criteria'])
+          .filter(c => c.label && c.label.trim().length > 0)
+          .map(c => ({ id: c.key, label: c.label, description: c.description }))
   const canEdit = canEditRubrics(userPlan);
   const canViewPremium = canViewPremiumInsights(userPlan);
   const isStarterOrAbove = userPlan !== 'free';
@@ -1708,6 +2217,40 @@ export default function PracticePage() {
           </Card>
         )}
 
+        {/* Assignment from a coach */}
+        {assignment && (
+          <Card className="border-[#F59E0B40]">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1">
+                <span className="text-xs font-semibold text-[#F59E0B] uppercase tracking-wider">
+                  Assignment{assignment.organization_name ? ` · ${assignment.organization_name}` : ''}
+                </span>
+                <h2 className="text-lg font-bold text-[#E6E8EB] mt-1">{assignment.title}</h2>
+                {assignment.prompt && (
+                  <p className="text-sm text-[#E6E8EB] mt-2 whitespace-pre-wrap">{assignment.prompt}</p>
+                )}
+                <p className="text-xs text-[#9AA4B2] mt-2">
+                  Graded with the rubric your coach chose
+                  {assignment.due_at && ` · due ${new Date(assignment.due_at).toLocaleString()}`}
+                  {assignment.due_at && new Date(assignment.due_at).getTime() < Date.now() && ' (past due, submissions are marked late)'}
+                </p>
+              </div>
+              {assignment.progress && (
+                <div className="text-right flex-shrink-0">
+                  <p className="text-sm font-semibold text-[#E6E8EB]">
+                    {assignment.progress.attempts_left !== null
+                      ? `${assignment.progress.attempts_left} of ${assignment.max_attempts} attempts left`
+                      : `${assignment.progress.attempt_count} ${assignment.progress.attempt_count === 1 ? 'attempt' : 'attempts'}`}
+                  </p>
+                  {assignment.progress.best_score !== null && (
+                    <p className="text-xs text-[#9AA4B2]">Best score {assignment.progress.best_score}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
         {/* Step 1: Choose Evaluation Criteria */}
         <Card>
           <div className="flex items-center mb-6 pb-4 border-b border-[rgba(255,255,255,0.08)]">
@@ -1782,8 +2325,9 @@ export default function PracticePage() {
                     <>
                       <option value="" className="bg-[#121826]">Select a rubric...</option>
                       {(() => {
-                        const defaultRubrics = rubrics.filter((r: any) => !r.isUserRubric)
+                        const defaultRubrics = rubrics.filter((r: any) => !r.isUserRubric && !r.isTeamRubric)
                         const userRubrics = rubrics.filter((r: any) => r.isUserRubric)
+                        const teamRubrics = rubrics.filter((r: any) => r.isTeamRubric)
                         
                         return (
                           <>
@@ -1801,6 +2345,16 @@ export default function PracticePage() {
                                 ))}
                               </optgroup>
                             )}
+                            {teamRubrics.length > 0 && (
+                              <optgroup label="Shared by your coach" className="bg-[#121826]">
+                                {teamRubrics.map((rubric) => (
+                                  <option key={rubric.id} value={rubric.id} className="bg-[#121826]">
+                                    {rubric.title || rubric.name || rubric.id}
+                                    {rubric.organization_name ? ` (${rubric.organization_name})` : ''}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
                           </>
                         )
                       })()}
@@ -2136,6 +2690,161 @@ export default function PracticePage() {
               </div>
             )}
 
+            {/* Spoken language: transcription, filler words, pacing norms and feedback language */}
+            <div>
+              <label htmlFor="language-select" className="block text-sm font-medium text-[#9AA4B2] mb-2">
+                Language
+              </label>
+              <select
+                id="language-select"
+                value={runLanguage}
+                onChange={(e) => {
+                  if (!isRunLanguage(e.target.value)) return
+                  setRunLanguage(e.target.value)
+                  localStorage.setItem('pitchpractice_language', e.target.value)
+                }}
+                disabled={isRecording || isUploading}
+                className="w-full px-3 py-2 text-sm border border-[rgba(255,255,255,0.08)] rounded-lg bg-[rgba(255,255,255,0.03)] text-[#E6E8EB] focus:outline-none focus:ring-2 focus:ring-[#F59E0B]/50 focus:border-[#F59E0B]/30 transition-colors disabled:opacity-50"
+              >
+                {getLanguageProfiles().map((profile) => (
+                  <option key={profile.code} value={profile.code} className="bg-[#121826]">
+                    {profile.nativeName}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Audience persona: who the pitch is for */}
+            <PersonaPicker
+              value={personaId}
+              onChange={(id) => {
+                setPersonaId(id)
+                localStorage.setItem('pitchpractice_persona_id', id)
+              }}
+              disabled={isRecording || isUploading}
+              canSave={isAuthenticated}
+            />
+
+            {/* Video mode: record the camera too, for on-camera delivery notes */}
+            <div>
+              <label className="flex items-center gap-2 text-sm text-[#9AA4B2] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={videoMode}
+                  onChange={(e) => {
+                    setVideoMode(e.target.checked)
+                    localStorage.setItem('pitchpractice_video_mode', String(e.target.checked))
+                  }}
+                  disabled={isRecording || isUploading}
+                  className="accent-[#F59E0B]"
+                />
+                Record video (eye contact, movement and framing notes)
+              </label>
+              {videoMode && (
+                <video
+                  ref={videoPreviewRef}
+                  autoPlay
+                  muted
+                  playsInline
+                  className={`mt-3 w-full max-w-sm rounded-lg border border-[#22283A] bg-black ${isRecording ? '' : 'hidden'}`}
+                />
+              )}
+            </div>
+
+            {/* Slide deck: shown while recording, slide changes are timed against the audio */}
+            <div>
+              <label className="block text-sm font-medium text-[#9AA4B2] mb-2">
+                Slide deck (optional)
+              </label>
+              {deck ? (
+                <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm rounded-lg border border-[rgba(255,255,255,0.08)] bg-[rgba(255,255,255,0.03)]">
+                  <span className="text-[#E6E8EB] truncate">
+                    {deck.file.name} · {deck.slides.length} slide{deck.slides.length === 1 ? '' : 's'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={removeDeck}
+                    disabled={isRecording || isUploading}
+                    className="text-[#9AA4B2] hover:text-[#E6E8EB] disabled:opacity-50"
+                    aria-label="Remove slide deck"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <Button
+                  onClick={() => deckFileInputRef.current?.click()}
+                  disabled={isRecording || isUploading || parsingDeck}
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-[#9AA4B2] hover:text-[#E6E8EB] border border-[#22283A]"
+                >
+                  {parsingDeck ? 'Reading deck...' : 'Attach PDF deck'}
+                </Button>
+              )}
+              <input
+                ref={deckFileInputRef}
+                type="file"
+                accept="application/pdf,.pdf"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleDeckSelect(file)
+                }}
+              />
+              {deckError && (
+                <p className="text-xs text-[#EF4444] mt-2">{deckError}</p>
+              )}
+              {deck && !isRecording && (
+                <p className="text-xs text-[#6B7280] mt-2">
+                  Advance slides with the buttons or arrow keys while recording; the analysis checks time and coverage per slide.
+                </p>
+              )}
+            </div>
+
+            {/* Reference script: the analysis diffs it against what was actually said */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="reference-script" className="block text-sm font-medium text-[#9AA4B2]">
+                  Reference script (optional)
+                </label>
+                <button
+                  type="button"
+                  onClick={() => scriptFileInputRef.current?.click()}
+                  disabled={isRecording || isUploading}
+                  className="text-xs text-[#F59E0B] hover:text-[#D97706] disabled:opacity-50"
+                >
+                  Upload .txt / .md
+                </button>
+              </div>
+              <textarea
+                id="reference-script"
+                value={referenceScript}
+                onChange={(e) => {
+                  setReferenceScript(e.target.value)
+                  setScriptError(null)
+                }}
+                maxLength={MAX_SCRIPT_CHARS}
+                rows={4}
+                disabled={isRecording || isUploading}
+                placeholder="Paste the script you're rehearsing to see skipped passages, ad-libs and paraphrasing."
+                className="w-full px-3 py-2 text-sm border border-[rgba(255,255,255,0.08)] rounded-lg bg-[rgba(255,255,255,0.03)] text-[#E6E8EB] placeholder:text-[#6B7280] focus:outline-none focus:ring-2 focus:ring-[#F59E0B]/50 focus:border-[#F59E0B]/30 transition-colors disabled:opacity-50"
+              />
+              <input
+                ref={scriptFileInputRef}
+                type="file"
+                accept=".txt,.md,.markdown,text/plain,text/markdown"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleScriptFile(file)
+                }}
+              />
+              {scriptError && (
+                <p className="text-xs text-[#EF4444] mt-2">{scriptError}</p>
+              )}
+            </div>
+
             {/* Test Mic Button */}
             {!isRecording && !run && (
               <>
@@ -2211,99 +2920,55 @@ export default function PracticePage() {
               </div>
             )}
 
-            {/* Coach-only: Checkpoints Section */}
-            {isRecording && hasCoachAccess(userPlan) && (
-              <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
-                <h3 className="text-sm font-semibold text-[#E6E8EB] mb-3">Checkpoints</h3>
-                <div className="space-y-2">
-                  {/* Show completed checkpoints */}
-                  {checkpoints.map((chunk) => {
-                    const startSeconds = Math.floor(chunk.start_ms / 1000)
-                    const endSeconds = Math.floor(chunk.end_ms / 1000)
-                    return (
-                      <div
-                        key={chunk.id}
-                        className="flex items-center justify-between p-2 bg-[#0F1419] rounded border border-[#22283A]"
-                      >
-                        <div className="flex items-center gap-2">
-                          <span className="text-xs text-[#9AA4B2]">
-                            {formatCheckpointTime(startSeconds, endSeconds)}
-                          </span>
-                          {chunk.status === 'transcribed' && (
-                            <Badge variant="success" className="text-xs">
-                              Saved ✓
-                            </Badge>
-                          )}
-                          {chunk.status === 'transcribing' && (
-                            <div className="flex items-center gap-1">
-                              <LoadingSpinner className="h-3 w-3 text-[#F59E0B]" />
-                              <span className="text-xs text-[#F59E0B]">Transcribing…</span>
-                            </div>
-                          )}
-                          {chunk.status === 'uploaded' && (
-                            <Badge variant="info" className="text-xs">
-                              Uploaded
-                            </Badge>
-                          )}
-                          {chunk.status === 'error' && (
-                            <Badge variant="danger" className="text-xs">
-                              Error
-                            </Badge>
-                          )}
-                        </div>
-                        {chunk.status === 'transcribed' && chunk.transcript && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="text-xs h-6 px-2"
-                            onClick={() => {
-                              // Download transcript
-                              const blob = new Blob([chunk.transcript!], { type: 'text/plain' })
-                              const url = URL.createObjectURL(blob)
-                              const a = document.createElement('a')
-                              a.href = url
-                              a.download = `transcript_${formatCheckpointTime(startSeconds, endSeconds).replace(':', '-')}.txt`
-                              document.body.appendChild(a)
-                              a.click()
-                              document.body.removeChild(a)
-                              URL.revokeObjectURL(url)
-                            }}
-                          >
-                            Download transcript
-                          </Button>
-                        )}
-                      </div>
-                    )
-                  })}
-                  
-                  {/* Show pending checkpoints */}
-                  {[0, 1].map((index) => {
-                    const checkpointTime = (index + 1) * 1800 // 30, 60 minutes
-                    const isCompleted = checkpoints.some(c => c.chunk_index === index)
-                    const isPending = recordingTime < checkpointTime && !isCompleted
-                    
-                    if (!isPending && !isCompleted) return null
-                    
-                    if (isPending) {
-                      return (
-                        <div
-                          key={`pending-${index}`}
-                          className="flex items-center justify-between p-2 bg-[#0F1419] rounded border border-[#22283A] opacity-60"
-                        >
-                          <span className="text-xs text-[#9AA4B2]">
-                            {formatCheckpointTime(index * 1800, checkpointTime)}
-                          </span>
-                          <span className="text-xs text-[#9AA4B2]">Pending</span>
-                        </div>
-                      )
-                    }
-                    
-                    return null
-                  })}
+            {/* Slide deck: current slide and controls while recording */}
+            {isRecording && deck && (
+              <div className="p-3 bg-[#151A23] rounded-lg border border-[#22283A] space-y-3">
+                <object
+                  key={currentSlide}
+                  data={`${deck.url}#page=${currentSlide}&toolbar=0&navpanes=0`}
+                  type="application/pdf"
+                  className="w-full h-64 rounded bg-white"
+                >
+                  <p className="text-sm text-[#E6E8EB] p-3 whitespace-pre-line">
+                    {deck.slides[currentSlide - 1]?.text || `Slide ${currentSlide}`}
+                  </p>
+                </object>
+                <div className="flex items-center justify-between">
+                  <Button
+                    onClick={() => changeSlide(-1)}
+                    disabled={currentSlide <= 1}
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Previous slide"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-sm font-mono text-[#F59E0B]">
+                    Slide {currentSlide} / {deck.slides.length}
+                  </span>
+                  <Button
+                    onClick={() => changeSlide(1)}
+                    disabled={currentSlide >= deck.slides.length}
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Next slide"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
                 </div>
               </div>
             )}
 
+            {/* Coach-only: Live coach (pace, fillers and section coverage from transcribed live chunks) */}
+            {isRecording && hasCoachAccess(userPlan) && currentRunId && (
+              <LiveCoachOverlay
+                chunks={checkpoints}
+                rubricItems={liveCoachRubricItems}
+                language={runLanguage}
+                isPaused={isPaused}
+              />
+            )}
+
             {/* Record/Upload Buttons */}
             <div className="flex gap-3">
               <Button
@@ -2623,6 +3288,27 @@ export default function PracticePage() {
                 >
                   Re-record
                 </Button>
+                {practiceSessionId && (
+                  <div className="flex items-center justify-between pt-2 text-xs text-[#9AA4B2]">
+                    <Link
+                      href={`/sessions/${practiceSessionId}`}
+                      className="hover:text-[#E6E8EB] underline underline-offset-2"
+                    >
+                      Compare {practiceTakeCount === 1 ? 'this take' : `all ${practiceTakeCount} takes`} →
+                    </Link>
+                    <button
+                      type="button"
+                      className="hover:text-[#E6E8EB]"
+                      onClick={() => {
+                        // The next take starts a fresh session
+                        setPracticeSessionId(null)
+                        setPracticeTakeCount(0)
+                      }}
+                    >
+                      Start new session
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Hidden audio for playback if needed */}
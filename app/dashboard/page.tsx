@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/Button'
 import { colors } from '@/lib/theme'
 import { getUserPlan, UserPlan } from '@/lib/plan'
 import { canViewPremiumInsights, canEditRubrics } from '@/lib/entitlements'
+import type { Assignment, AssignmentProgress } from '@/lib/assignments'
+import type { ReceivedReviewInvite } from '@/lib/comments'
 
 interface RecentRun {
   id: string
@@ -24,6 +26,11 @@ interface RecentRun {
   } | null
 }
 
+interface ReceivedAssignment extends Assignment {
+  organization_name: string | null
+  progress: AssignmentProgress
+}
+
 interface RecentRubric {
   id: string
   title: string
@@ -43,6 +50,9 @@ export default function DashboardPage() {
   const [deletingRunId, setDeletingRunId] = useState<string | null>(null)
   const [deletingRubricId, setDeletingRubricId] = useState<string | null>(null)
   const [userPlan, setUserPlan] = useState<UserPlan>('free')
+  const [assignments, setAssignments] = useState<ReceivedAssignment[]>([])
+  const [reviewInvites, setReviewInvites] = useState<ReceivedReviewInvite[]>([])
+  const [answeringInviteId, setAnsweringInviteId] = useState<string | null>(null)
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -69,6 +79,8 @@ export default function DashboardPage() {
       // Fetch data if authenticated
       fetchRecentRuns()
       fetchRecentRubrics()
+      fetchAssignments()
+      fetchReviewInvites()
     }
 
     checkAuth()
@@ -126,6 +138,56 @@ export default function DashboardPage() {
     }
   }
 
+  const fetchAssignments = async () => {
+    try {
+      const response = await fetch('/api/assignments', { cache: 'no-store' })
+      const data = await response.json()
+      setAssignments(data.ok ? data.assignments : [])
+    } catch (err) {
+      console.error('Failed to fetch assignments:', err)
+      setAssignments([])
+    }
+  }
+
+  const fetchReviewInvites = async () => {
+    try {
+      const response = await fetch('/api/review-invites', { cache: 'no-store' })
+      const data = await response.json()
+      setReviewInvites(data.ok ? data.invites : [])
+    } catch (err) {
+      console.error('Failed to fetch review invites:', err)
+      setReviewInvites([])
+    }
+  }
+
+  // Accepting opens the run; declining just drops the invite
+  const answerReviewInvite = async (invite: ReceivedReviewInvite, accept: boolean) => {
+    setAnsweringInviteId(invite.id)
+    try {
+      const response = await fetch(`/api/review-invites/${invite.id}`, { method: accept ? 'POST' : 'DELETE' })
+      const data = await response.json()
+      if (!data.ok) {
+        throw new Error(data.error || 'Failed to answer invite')
+      }
+      setReviewInvites(reviewInvites.filter(item => item.id !== invite.id))
+      if (accept) {
+        router.push(`/runs/${invite.run_id}`)
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to answer invite')
+    } finally {
+      setAnsweringInviteId(null)
+    }
+  }
+
+  const assignmentStatus = (assignment: ReceivedAssignment): { label: string; className: string } => {
+    const { progress } = assignment
+    if (progress.status === 'late') return { label: 'Submitted late', className: 'text-[#F59E0B]' }
+    if (progress.status === 'submitted') return { label: 'Submitted', className: 'text-[#22C55E]' }
+    if (progress.overdue) return { label: 'Overdue', className: 'text-[#EF4444]' }
+    return { label: 'To do', className: 'text-[#9CA3AF]' }
+  }
+
   const formatTime = (seconds: number | null): string => {
     if (!seconds) return '—'
     const mins = Math.floor(seconds / 60)
@@ -308,6 +370,127 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Coach/team workspaces */}
+        <Card className="mb-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold mb-1" style={{ color: colors.text.primary }}>
+                Team
+              </h2>
+              <p className="text-sm" style={{ color: colors.text.secondary }}>
+                Coach learners, review their runs and share rubrics with your team
+              </p>
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => router.push('/dashboard/team')}
+            >
+              View Team
+            </Button>
+          </div>
+        </Card>
+
+        {/* Invites to review someone else's run */}
+        {reviewInvites.length > 0 && (
+          <Card className="mb-6">
+            <h2 className="text-lg font-semibold mb-4" style={{ color: colors.text.primary }}>
+              Review invites
+            </h2>
+            <div className="space-y-3">
+              {reviewInvites.map((invite) => (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                  style={{ borderColor: colors.border.primary }}
+                >
+                  <div className="min-w-0 flex-1">
+                    <h3 className="text-sm font-medium truncate" style={{ color: colors.text.primary }}>
+                      {invite.run_title || 'Untitled pitch'}
+                    </h3>
+                    <p className="text-xs" style={{ color: colors.text.secondary }}>
+                      {invite.invited_by_email ? `${invite.invited_by_email} asked you to review this pitch` : 'You were asked to review this pitch'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => answerReviewInvite(invite, true)}
+                      disabled={answeringInviteId === invite.id}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => answerReviewInvite(invite, false)}
+                      disabled={answeringInviteId === invite.id}
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Assignments received from coaches */}
+        {assignments.length > 0 && (
+          <Card className="mb-6">
+            <h2 className="text-lg font-semibold mb-4" style={{ color: colors.text.primary }}>
+              Assignments
+            </h2>
+            <div className="space-y-3">
+              {assignments.map((assignment) => {
+                const status = assignmentStatus(assignment)
+                const { progress } = assignment
+                const canSubmit = progress.attempts_left === null || progress.attempts_left > 0
+                return (
+                  <div
+                    key={assignment.id}
+                    className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                    style={{ borderColor: colors.border.primary }}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-baseline gap-2">
+                        <h3 className="text-sm font-medium truncate" style={{ color: colors.text.primary }}>
+                          {assignment.title}
+                        </h3>
+                        <span className={`text-xs ${status.className}`}>{status.label}</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 text-xs" style={{ color: colors.text.secondary }}>
+                        {assignment.organization_name && <span>{assignment.organization_name}</span>}
+                        {assignment.due_at && <span>Due {new Date(assignment.due_at).toLocaleString()}</span>}
+                        <span>
+                          {progress.attempts_left !== null
+                            ? `${progress.attempts_left} of ${assignment.max_attempts} attempts left`
+                            : `${progress.attempt_count} ${progress.attempt_count === 1 ? 'attempt' : 'attempts'}`}
+                        </span>
+                        {progress.best_run_id && progress.best_score !== null && (
+                          <Link href={`/runs/${progress.best_run_id}`} className="hover:underline">
+                            Best score {progress.best_score}
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                    {canSubmit && (
+                      <Button
+                        variant={progress.status === 'not_submitted' ? 'primary' : 'secondary'}
+                        size="sm"
+                        onClick={() => router.push(`/app/practice?assignment=${assignment.id}`)}
+                      >
+                        {progress.status === 'not_submitted' ? 'Start' : 'Try again'}
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </Card>
+        )}
+
         {/* Free-tier helper message for expired Day Pass users */}
         {!canViewPremiumInsights(userPlan) && (
           <Card className="mb-6 p-4 bg-[#1A1F2E] border border-[#F59E0B]/30">
@@ -0,0 +1,366 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Download } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client-auth'
+import { Card } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { SectionHeader } from '@/components/ui/SectionHeader'
+import { colors } from '@/lib/theme'
+import type { CohortAnalytics, CohortCurvePoint, CohortDistribution } from '@/lib/cohort'
+
+const WINDOWS: Array<{ label: string; days: number | null }> = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time', days: null },
+]
+
+// Scores shown per learner in the learners table
+const RECENT_SCORES = 10
+
+const CURVE_WIDTH = 600
+const CURVE_HEIGHT = 160
+const CURVE_PADDING = 16
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function formatChange(change: number | null): JSX.Element {
+  if (change === null) return <span className="text-[#6B7280]">—</span>
+  if (change === 0) return <span className="text-[#9CA3AF]">0</span>
+  return (
+    <span className={change > 0 ? 'text-[#22C55E]' : 'text-[#EF4444]'}>
+      {change > 0 ? '+' : ''}{change}
+    </span>
+  )
+}
+
+// Average overall score by attempt number (scores are 0-10)
+function ImprovementCurve({ points }: { points: CohortCurvePoint[] }) {
+  const step = points.length > 1 ? (CURVE_WIDTH - 2 * CURVE_PADDING) / (points.length - 1) : 0
+  const toX = (idx: number) => (points.length > 1 ? CURVE_PADDING + idx * step : CURVE_WIDTH / 2)
+  const toY = (score: number) => CURVE_HEIGHT - CURVE_PADDING - (score / 10) * (CURVE_HEIGHT - 2 * CURVE_PADDING)
+  const path = points.map((point, idx) => `${idx === 0 ? 'M' : 'L'}${toX(idx).toFixed(1)},${toY(point.average_score).toFixed(1)}`).join(' ')
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+        {[0, 5, 10].map(score => (
+          <line
+            key={score}
+            x1={0}
+            x2={CURVE_WIDTH}
+            y1={toY(score)}
+            y2={toY(score)}
+            stroke="#22283A"
+            strokeDasharray={score === 5 ? '4 4' : undefined}
+          />
+        ))}
+        <path d={path} fill="none" stroke="#F59E0B" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((point, idx) => (
+          <circle key={point.attempt} cx={toX(idx)} cy={toY(point.average_score)} r={4} fill="#F59E0B">
+            <title>{`Attempt ${point.attempt}: ${point.average_score} (${point.learner_count} learners)`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-[#6B7280] mt-1">
+        {points.map(point => (
+          <span key={point.attempt} className="text-center">
+            #{point.attempt}
+            <span className="block text-[#9CA3AF]">{point.average_score}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function DistributionCard({ title, unit, distribution }: { title: string; unit: string; distribution: CohortDistribution }) {
+  const peak = Math.max(1, ...distribution.buckets.map(bucket => bucket.count))
+
+  return (
+    <Card>
+      <SectionHeader title={title} />
+      {distribution.count === 0 ? (
+        <p className="text-sm text-[#9CA3AF]">Not enough data yet.</p>
+      ) : (
+        <>
+          <p className="text-xs text-[#9CA3AF] mb-3">
+            Median {distribution.median} {unit} · middle half {distribution.p25}–{distribution.p75} · {distribution.count} runs
+          </p>
+          <div className="flex items-end gap-2 h-28">
+            {distribution.buckets.map(bucket => (
+              <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-[10px] text-[#9CA3AF] mb-1">{bucket.count || ''}</span>
+                <div
+                  className="w-full rounded-t bg-[#F59E0B]/70"
+                  style={{ height: `${(bucket.count / peak) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {distribution.buckets.map(bucket => (
+              <span key={bucket.label} className="flex-1 text-center text-[10px] text-[#6B7280]">{bucket.label}</span>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  )
+}
+
+// Coach cohort analytics for a team: patterns across all learners' runs, with CSV export
+export default function TeamAnalyticsPage() {
+  const params = useParams()
+  const router = useRouter()
+  const organizationId = params.id as string
+  const [days, setDays] = useState<number | null>(90)
+  const [analytics, setAnalytics] = useState<CohortAnalytics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        router.push(`/signin?redirect=/dashboard/team/analytics/${organizationId}`)
+        return
+      }
+
+      setIsLoading(true)
+      setError(null)
+      try {
+        const query = days !== null ? `?days=${days}` : ''
+        const response = await fetch(`/api/organizations/${organizationId}/analytics${query}`, { cache: 'no-store' })
+        const data = await response.json()
+        if (!data.ok) {
+          setError(data.error || 'Failed to load analytics')
+          setAnalytics(null)
+          return
+        }
+        setAnalytics(data.analytics)
+      } catch (err) {
+        console.error('Failed to load analytics:', err)
+        setError('Failed to load analytics')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [organizationId, days, router])
+
+  const csvUrl = `/api/organizations/${organizationId}/analytics?format=csv${days !== null ? `&days=${days}` : ''}`
+
+  return (
+    <div className="min-h-screen py-12 px-4" style={{ backgroundColor: colors.background.primary }}>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2" style={{ color: colors.text.primary }}>
+              Team analytics
+            </h1>
+            <p className="text-sm" style={{ color: colors.text.secondary }}>
+              Patterns across your learners&apos; analyzed runs
+            </p>
+          </div>
+          <Link href="/dashboard/team" className="text-sm text-[#9CA3AF] hover:text-[#E5E7EB]">
+            ← Team
+          </Link>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {WINDOWS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => setDays(option.days)}
+              className={`px-3 py-1.5 rounded border text-sm transition-colors ${
+                option.days === days
+                  ? 'border-[#F59E0B] text-[#E5E7EB] bg-[#F59E0B]/10'
+                  : 'border-[#22283A] text-[#9CA3AF] hover:text-[#E5E7EB]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <a
+            href={csvUrl}
+            className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 rounded border border-[#22283A] text-sm text-[#E5E7EB] hover:border-[#F59E0B]"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </a>
+        </div>
+
+        {error && (
+          <Card padding="sm" className="border border-[#EF4444]/40">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </Card>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" text="Loading analytics..." />
+          </div>
+        )}
+
+        {!isLoading && analytics && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Active learners', value: `${analytics.active_learner_count}/${analytics.learner_count}` },
+                { label: 'Runs', value: analytics.run_count },
+                { label: 'Analyzed', value: analytics.analyzed_count },
+                { label: 'Average score', value: analytics.average_score ?? '—' },
+              ].map(stat => (
+                <Card key={stat.label} padding="sm">
+                  <p className="text-xs text-[#9CA3AF]">{stat.label}</p>
+                  <p className="text-2xl font-bold text-[#E5E7EB]">{stat.value}</p>
+                </Card>
+              ))}
+            </div>
+
+            {analytics.analyzed_count === 0 ? (
+              <Card>
+                <p className="text-sm text-[#9CA3AF]">No analyzed runs from your learners in this period.</p>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <SectionHeader title="Improvement curve" />
+                  <p className="text-xs text-[#9CA3AF] mb-3">
+                    Average overall score on each learner&apos;s 1st, 2nd, 3rd… analyzed run
+                  </p>
+                  <ImprovementCurve points={analytics.improvement_curve} />
+                </Card>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card padding="none">
+                    <div className="px-4 pt-4">
+                      <SectionHeader title="Criteria" />
+                    </div>
+                    {analytics.criteria.length === 0 ? (
+                      <p className="px-4 pb-4 text-sm text-[#9CA3AF]">No rubric scores yet.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-[#9CA3AF] border-b border-[#22283A]">
+                            <th className="px-4 py-2 font-medium">Criterion</th>
+                            <th className="px-4 py-2 font-medium">Average</th>
+                            <th className="px-4 py-2 font-medium">First → latest</th>
+                            <th className="px-4 py-2 font-medium">Missing</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {analytics.criteria.map(criterion => (
+                            <tr key={criterion.label} className="border-b border-[#1A1F2E]">
+                              <td className="px-4 py-2 text-[#E5E7EB]">{criterion.label}</td>
+                              <td className={`px-4 py-2 font-semibold ${scoreColor(criterion.average)}`}>{criterion.average}</td>
+                              <td className="px-4 py-2 text-[#E5E7EB]">
+                                {criterion.first_average} → {criterion.latest_average}{' '}
+                                <span className="text-xs">({formatChange(criterion.change)})</span>
+                              </td>
+                              <td className="px-4 py-2 text-[#9CA3AF]">{criterion.missing_count || '—'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </Card>
+
+                  <Card>
+                    <SectionHeader title="Most common issues" />
+                    {analytics.issue_categories.length === 0 ? (
+                      <p className="text-sm text-[#9CA3AF]">No line-by-line issues flagged.</p>
+                    ) : (
+                      <ul className="space-y-3">
+                        {analytics.issue_categories.map(category => (
+                          <li key={category.category}>
+                            <div className="flex items-baseline justify-between text-sm">
+                              <span className="text-[#E5E7EB] capitalize">{category.category.replace(/_/g, ' ')}</span>
+                              <span className="text-xs text-[#9CA3AF]">
+                                {Math.round(category.run_share * 100)}% of runs · {category.learner_count}{' '}
+                                {category.learner_count === 1 ? 'learner' : 'learners'}
+                              </span>
+                            </div>
+                            <div className="h-1.5 mt-1 rounded bg-[#1A1F2E]">
+                              <div className="h-full rounded bg-[#F97316]" style={{ width: `${category.run_share * 100}%` }} />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </Card>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <DistributionCard title="Pace" unit="wpm" distribution={analytics.words_per_minute} />
+                  <DistributionCard title="Fillers per minute" unit="per minute" distribution={analytics.fillers_per_minute} />
+                </div>
+              </>
+            )}
+
+            {analytics.learners.length > 0 && (
+              <Card padding="none">
+                <div className="px-4 pt-4">
+                  <SectionHeader title="Learners" />
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[#9CA3AF] border-b border-[#22283A]">
+                        <th className="px-4 py-3 font-medium">Learner</th>
+                        <th className="px-4 py-3 font-medium">Runs</th>
+                        <th className="px-4 py-3 font-medium">First</th>
+                        <th className="px-4 py-3 font-medium">Latest</th>
+                        <th className="px-4 py-3 font-medium">Best</th>
+                        <th className="px-4 py-3 font-medium">Change</th>
+                        <th className="px-4 py-3 font-medium">Recent scores</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.learners.map(learner => (
+                        <tr key={learner.user_id} className="border-b border-[#1A1F2E]">
+                          <td className="px-4 py-3 text-[#E5E7EB]">{learner.email || 'Unknown learner'}</td>
+                          <td className="px-4 py-3 text-[#E5E7EB]">
+                            {learner.run_count}
+                            {learner.analyzed_count < learner.run_count && (
+                              <span className="text-xs text-[#6B7280]"> ({learner.analyzed_count} analyzed)</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-[#E5E7EB]">{learner.first_score ?? '—'}</td>
+                          <td className="px-4 py-3 text-[#E5E7EB]">{learner.latest_score ?? '—'}</td>
+                          <td className="px-4 py-3 text-[#E5E7EB]">{learner.best_score ?? '—'}</td>
+                          <td className="px-4 py-3">{formatChange(learner.change)}</td>
+                          <td className="px-4 py-3">
+                            {learner.scores.length > 0 ? (
+                              <span className="space-x-1.5">
+                                {learner.scores.slice(-RECENT_SCORES).map((score, idx) => (
+                                  <span key={idx} className={scoreColor(score)}>{score}</span>
+                                ))}
+                              </span>
+                            ) : (
+                              <span className="text-[#6B7280]">—</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
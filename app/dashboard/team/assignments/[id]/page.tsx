@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client-auth'
+import { Card } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { colors } from '@/lib/theme'
+import type { Assignment, AssignmentLearnerRow, AssignmentOverview } from '@/lib/assignments'
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function learnerStatus(learner: AssignmentLearnerRow): { label: string; className: string } {
+  if (learner.status === 'late') return { label: 'Late', className: 'text-[#F59E0B]' }
+  if (learner.status === 'submitted') return { label: 'Submitted', className: 'text-[#22C55E]' }
+  if (learner.overdue) return { label: 'Overdue', className: 'text-[#EF4444]' }
+  return { label: 'Not submitted', className: 'text-[#9CA3AF]' }
+}
+
+function ScoreLink({ runId, score }: { runId: string | null; score: number | null }) {
+  if (!runId) return <span className="text-[#6B7280]">—</span>
+  return (
+    <Link href={`/runs/${runId}`} className="hover:underline">
+      {score !== null
+        ? <span className={`font-semibold ${scoreColor(score)}`}>{score}</span>
+        : <span className="text-[#9CA3AF]">Not scored</span>}
+    </Link>
+  )
+}
+
+// Coach grading overview of one assignment: who submitted, when, and their scores
+export default function AssignmentGradesPage() {
+  const params = useParams()
+  const router = useRouter()
+  const assignmentId = params.id as string
+  const [assignment, setAssignment] = useState<Assignment | null>(null)
+  const [organizationName, setOrganizationName] = useState<string | null>(null)
+  const [overview, setOverview] = useState<AssignmentOverview | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createClient()
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        router.push(`/signin?redirect=/dashboard/team/assignments/${assignmentId}`)
+        return
+      }
+
+      try {
+        const response = await fetch(`/api/assignments/${assignmentId}`, { cache: 'no-store' })
+        const data = await response.json()
+        if (!data.ok) {
+          setError(data.error || 'Failed to load assignment')
+          return
+        }
+        if (!data.overview) {
+          setError('Only owners and coaches can see grades')
+          return
+        }
+        setAssignment(data.assignment)
+        setOrganizationName(data.organization_name)
+        setOverview(data.overview)
+      } catch (err) {
+        console.error('Failed to load assignment:', err)
+        setError('Failed to load assignment')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    load()
+  }, [assignmentId, router])
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20" style={{ backgroundColor: colors.background.primary }}>
+        <LoadingSpinner size="lg" text="Loading grades..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-4" style={{ backgroundColor: colors.background.primary }}>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2" style={{ color: colors.text.primary }}>
+              {assignment?.title || 'Assignment'}
+            </h1>
+            {assignment && (
+              <p className="text-sm" style={{ color: colors.text.secondary }}>
+                {organizationName && `${organizationName} · `}
+                {assignment.due_at ? `Due ${new Date(assignment.due_at).toLocaleString()}` : 'No due date'}
+                {assignment.max_attempts !== null && ` · ${assignment.max_attempts} ${assignment.max_attempts === 1 ? 'attempt' : 'attempts'}`}
+                {` · ${assignment.rubric_snapshot_json?.name || 'Custom rubric'}`}
+              </p>
+            )}
+          </div>
+          <Link href="/dashboard/team" className="text-sm text-[#9CA3AF] hover:text-[#E5E7EB]">
+            ← Team
+          </Link>
+        </div>
+
+        {error && (
+          <Card padding="sm" className="border border-[#EF4444]/40">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </Card>
+        )}
+
+        {assignment?.prompt && (
+          <Card padding="sm">
+            <p className="text-xs font-semibold text-[#9CA3AF] uppercase tracking-wide mb-1">Instructions</p>
+            <p className="text-sm text-[#E5E7EB] whitespace-pre-wrap">{assignment.prompt}</p>
+          </Card>
+        )}
+
+        {overview && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Submitted', value: `${overview.submitted_count}/${overview.learner_count}` },
+                { label: 'Late', value: overview.late_count },
+                { label: 'Not submitted', value: overview.learner_count - overview.submitted_count },
+                { label: 'Average best score', value: overview.average_best_score ?? '—' },
+              ].map(stat => (
+                <Card key={stat.label} padding="sm">
+                  <p className="text-xs text-[#9CA3AF]">{stat.label}</p>
+                  <p className="text-2xl font-bold text-[#E5E7EB]">{stat.value}</p>
+                </Card>
+              ))}
+            </div>
+
+            <Card padding="none">
+              {overview.learners.length === 0 ? (
+                <p className="p-4 text-sm text-[#9CA3AF]">This team has no learners yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[#9CA3AF] border-b border-[#22283A]">
+                        <th className="px-4 py-3 font-medium">Learner</th>
+                        <th className="px-4 py-3 font-medium">Status</th>
+                        <th className="px-4 py-3 font-medium">First submitted</th>
+                        <th className="px-4 py-3 font-medium">Attempts</th>
+                        <th className="px-4 py-3 font-medium">Best score</th>
+                        <th className="px-4 py-3 font-medium">Latest score</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {overview.learners.map(learner => {
+                        const status = learnerStatus(learner)
+                        return (
+                          <tr key={learner.user_id} className="border-b border-[#1A1F2E]">
+                            <td className="px-4 py-3 text-[#E5E7EB]">{learner.email || 'Unknown learner'}</td>
+                            <td className={`px-4 py-3 ${status.className}`}>{status.label}</td>
+                            <td className="px-4 py-3 text-[#E5E7EB]">
+                              {learner.first_submitted_at
+                                ? new Date(learner.first_submitted_at).toLocaleString()
+                                : <span className="text-[#6B7280]">—</span>}
+                            </td>
+                            <td className="px-4 py-3 text-[#E5E7EB]">
+                              {learner.attempt_count}
+                              {assignment?.max_attempts != null && (
+                                <span className="text-xs text-[#6B7280]"> / {assignment.max_attempts}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3"><ScoreLink runId={learner.best_run_id} score={learner.best_score} /></td>
+                            <td className="px-4 py-3"><ScoreLink runId={learner.latest_run_id} score={learner.latest_score} /></td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,752 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client-auth'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { Badge } from '@/components/ui/Badge'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { colors } from '@/lib/theme'
+import type {
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationRole,
+  ReceivedInvite,
+  RosterLearner,
+} from '@/lib/organizations'
+import {
+  MAX_ASSIGNMENT_ATTEMPTS,
+  MAX_ASSIGNMENT_PROMPT_CHARS,
+  MAX_ASSIGNMENT_TITLE_CHARS,
+  type Assignment,
+  type AssignmentProgress,
+} from '@/lib/assignments'
+
+interface Membership extends Organization {
+  role: OrganizationRole
+}
+
+interface SharedRubric {
+  id: string
+  name: string | null
+  title: string | null
+  description: string | null
+  user_id: string | null
+}
+
+interface OwnRubric {
+  id: string
+  name: string | null
+  title: string | null
+  organization_id: string | null
+}
+
+// Coaches get submission counts per assignment, learners their own progress
+interface TeamAssignment extends Assignment {
+  learner_count?: number
+  submitted_count?: number
+  late_count?: number
+  progress?: AssignmentProgress
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  coach: 'Coach',
+  learner: 'Learner',
+}
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function learnerStatus(progress: AssignmentProgress): { label: string; className: string } {
+  if (progress.status === 'late') return { label: 'Submitted late', className: 'text-[#F59E0B]' }
+  if (progress.status === 'submitted') return { label: 'Submitted', className: 'text-[#22C55E]' }
+  if (progress.overdue) return { label: 'Overdue', className: 'text-[#EF4444]' }
+  return { label: 'To do', className: 'text-[#9CA3AF]' }
+}
+
+function rubricName(rubric: { name: string | null; title: string | null }): string {
+  return rubric.name || rubric.title || 'Untitled rubric'
+}
+
+// Coach/team workspace: organizations, members and roles, shared rubrics and the learner roster
+export default function TeamPage() {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(true)
+  const [organizations, setOrganizations] = useState<Membership[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [role, setRole] = useState<OrganizationRole | null>(null)
+  const [members, setMembers] = useState<OrganizationMember[]>([])
+  const [invites, setInvites] = useState<OrganizationInvite[]>([])
+  const [receivedInvites, setReceivedInvites] = useState<ReceivedInvite[]>([])
+  const [inviteNotice, setInviteNotice] = useState<string | null>(null)
+  const [sharedRubrics, setSharedRubrics] = useState<SharedRubric[]>([])
+  const [roster, setRoster] = useState<RosterLearner[]>([])
+  const [ownRubrics, setOwnRubrics] = useState<OwnRubric[]>([])
+  const [isLoadingTeam, setIsLoadingTeam] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newOrgName, setNewOrgName] = useState('')
+  const [newMemberEmail, setNewMemberEmail] = useState('')
+  const [newMemberRole, setNewMemberRole] = useState<OrganizationRole>('learner')
+  const [rubricToShare, setRubricToShare] = useState('')
+  const [assignments, setAssignments] = useState<TeamAssignment[]>([])
+  const [newAssignment, setNewAssignment] = useState({ title: '', prompt: '', rubric_id: '', due_at: '', max_attempts: '' })
+  const [isSaving, setIsSaving] = useState(false)
+
+  const isCoach = role === 'owner' || role === 'coach'
+
+  const fetchOrganizations = useCallback(async () => {
+    const response = await fetch('/api/organizations', { cache: 'no-store' })
+    const data = await response.json()
+    if (!data.ok) {
+      setError(data.error || 'Failed to load teams')
+      return
+    }
+    setOrganizations(data.organizations)
+    setSelectedId(current => current ?? data.organizations[0]?.id ?? null)
+
+    const invitesResponse = await fetch('/api/organizations/invites', { cache: 'no-store' })
+    const invitesData = await invitesResponse.json()
+    setReceivedInvites(invitesData.ok ? invitesData.invites : [])
+  }, [])
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const supabase = createClient()
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        router.push('/signin?redirect=/dashboard/team')
+        return
+      }
+
+      try {
+        await fetchOrganizations()
+      } catch (err) {
+        console.error('Failed to load teams:', err)
+        setError('Failed to load teams')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    checkAuth()
+  }, [router, fetchOrganizations])
+
+  const fetchTeam = useCallback(async (organizationId: string) => {
+    setIsLoadingTeam(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}`, { cache: 'no-store' })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Failed to load team')
+        return
+      }
+      setRole(data.role)
+      setMembers(data.members)
+      setInvites(data.invites || [])
+      setSharedRubrics(data.rubrics)
+
+      const assignmentsResponse = await fetch(`/api/organizations/${organizationId}/assignments`, { cache: 'no-store' })
+      const assignmentsData = await assignmentsResponse.json()
+      setAssignments(assignmentsData.ok ? assignmentsData.assignments : [])
+
+      if (data.role === 'owner' || data.role === 'coach') {
+        const [rosterResponse, rubricsResponse] = await Promise.all([
+          fetch(`/api/organizations/${organizationId}/roster`, { cache: 'no-store' }),
+          fetch('/api/rubrics?scope=mine', { cache: 'no-store' }),
+        ])
+        const rosterData = await rosterResponse.json()
+        setRoster(rosterData.ok ? rosterData.learners : [])
+        const rubricsData = await rubricsResponse.json()
+        setOwnRubrics(Array.isArray(rubricsData) ? rubricsData : [])
+      } else {
+        setRoster([])
+        setOwnRubrics([])
+      }
+    } catch (err) {
+      console.error('Failed to load team:', err)
+      setError('Failed to load team')
+    } finally {
+      setIsLoadingTeam(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchTeam(selectedId)
+    }
+  }, [selectedId, fetchTeam])
+
+  // Every mutation goes through here: show the API's error, otherwise reload the team
+  const mutate = async (url: string, method: string, body?: Record<string, unknown>): Promise<any> => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Something went wrong')
+        return null
+      }
+      return data
+    } catch (err) {
+      console.error('Team update failed:', err)
+      setError('Something went wrong')
+      return null
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCreateOrganization = async () => {
+    if (!newOrgName.trim()) return
+    const data = await mutate('/api/organizations', 'POST', { name: newOrgName.trim() })
+    if (data) {
+      setNewOrgName('')
+      setOrganizations(prev => [...prev, data.organization])
+      setSelectedId(data.organization.id)
+    }
+  }
+
+  const handleAddMember = async () => {
+    if (!selectedId || !newMemberEmail.trim()) return
+    const data = await mutate(`/api/organizations/${selectedId}/members`, 'POST', {
+      email: newMemberEmail.trim(),
+      role: newMemberRole,
+    })
+    if (data) {
+      setNewMemberEmail('')
+      setInviteNotice(`Invited ${data.invite.email}. They join once they accept the invite on their Team page.`)
+      fetchTeam(selectedId)
+    }
+  }
+
+  const handleCancelInvite = async (invite: OrganizationInvite) => {
+    if (!selectedId) return
+    const data = await mutate(`/api/organizations/${selectedId}/invites/${invite.id}`, 'DELETE')
+    if (data) fetchTeam(selectedId)
+  }
+
+  const handleAcceptInvite = async (invite: ReceivedInvite) => {
+    const data = await mutate(`/api/organizations/invites/${invite.id}`, 'POST')
+    if (data) {
+      setReceivedInvites(prev => prev.filter(item => item.id !== invite.id))
+      if (data.organization) {
+        setOrganizations(prev => [...prev.filter(org => org.id !== data.organization.id), data.organization])
+        setSelectedId(data.organization.id)
+      }
+    }
+  }
+
+  const handleDeclineInvite = async (invite: ReceivedInvite) => {
+    if (!confirm(`Decline the invite to ${invite.organization_name}?`)) return
+    const data = await mutate(`/api/organizations/invites/${invite.id}`, 'DELETE')
+    if (data) setReceivedInvites(prev => prev.filter(item => item.id !== invite.id))
+  }
+
+  const handleChangeRole = async (userId: string, newRole: OrganizationRole) => {
+    if (!selectedId) return
+    const data = await mutate(`/api/organizations/${selectedId}/members/${userId}`, 'PATCH', { role: newRole })
+    if (data) fetchTeam(selectedId)
+  }
+
+  const handleRemoveMember = async (member: OrganizationMember) => {
+    if (!selectedId) return
+    if (!confirm(`Remove ${member.email || 'this member'} from the team?`)) return
+    const data = await mutate(`/api/organizations/${selectedId}/members/${member.user_id}`, 'DELETE')
+    if (data) fetchTeam(selectedId)
+  }
+
+  const handleShareRubric = async () => {
+    if (!selectedId || !rubricToShare) return
+    const data = await mutate(`/api/organizations/${selectedId}/rubrics`, 'POST', { rubric_id: rubricToShare })
+    if (data) {
+      setRubricToShare('')
+      fetchTeam(selectedId)
+    }
+  }
+
+  const handleUnshareRubric = async (rubricId: string) => {
+    if (!selectedId) return
+    const data = await mutate(`/api/organizations/${selectedId}/rubrics`, 'DELETE', { rubric_id: rubricId })
+    if (data) fetchTeam(selectedId)
+  }
+
+  const handleCreateAssignment = async () => {
+    if (!selectedId || !newAssignment.title.trim() || !newAssignment.rubric_id) return
+    const data = await mutate(`/api/organizations/${selectedId}/assignments`, 'POST', {
+      title: newAssignment.title.trim(),
+      prompt: newAssignment.prompt.trim() || null,
+      rubric_id: newAssignment.rubric_id,
+      // datetime-local has no zone; send it as the coach's local time
+      due_at: newAssignment.due_at ? new Date(newAssignment.due_at).toISOString() : null,
+      max_attempts: newAssignment.max_attempts ? Number(newAssignment.max_attempts) : null,
+    })
+    if (data) {
+      setNewAssignment({ title: '', prompt: '', rubric_id: '', due_at: '', max_attempts: '' })
+      fetchTeam(selectedId)
+    }
+  }
+
+  const handleDeleteAssignment = async (assignment: TeamAssignment) => {
+    if (!selectedId) return
+    if (!confirm(`Delete "${assignment.title}"? Submitted runs are kept but no longer linked to it.`)) return
+    const data = await mutate(`/api/assignments/${assignment.id}`, 'DELETE')
+    if (data) fetchTeam(selectedId)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20" style={{ backgroundColor: colors.background.primary }}>
+        <LoadingSpinner size="lg" text="Loading teams..." />
+      </div>
+    )
+  }
+
+  const selected = organizations.find(org => org.id === selectedId) || null
+  const shareableRubrics = ownRubrics.filter(rubric => rubric.organization_id !== selectedId)
+  const assignableRubrics = [...sharedRubrics, ...shareableRubrics]
+  const inputClass = 'px-3 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB] placeholder-[#6B7280] focus:outline-none focus:border-[#F59E0B]'
+
+  return (
+    <div className="min-h-screen py-12 px-4" style={{ backgroundColor: colors.background.primary }}>
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2" style={{ color: colors.text.primary }}>
+              Team
+            </h1>
+            <p className="text-sm" style={{ color: colors.text.secondary }}>
+              Coaches see their learners&apos; runs and share rubrics with the team
+            </p>
+          </div>
+          <Link href="/dashboard" className="text-sm text-[#9CA3AF] hover:text-[#E5E7EB]">
+            ← Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <Card padding="sm" className="border border-[#EF4444]/40">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </Card>
+        )}
+
+        {receivedInvites.length > 0 && (
+          <Card className="border border-[#F59E0B]/40">
+            <h2 className="text-lg font-semibold text-[#E5E7EB] mb-1">Invites</h2>
+            <p className="text-xs text-[#9CA3AF] mb-3">
+              Coaches in a team you join can see your runs, recordings and progress.
+            </p>
+            <ul className="space-y-2">
+              {receivedInvites.map(invite => (
+                <li key={invite.id} className="flex items-center justify-between gap-3 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                  <span className="text-sm text-[#E5E7EB] truncate">
+                    {invite.organization_name}
+                    <span className="ml-2 text-xs text-[#6B7280]">as {ROLE_LABELS[invite.role]}</span>
+                  </span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button variant="primary" size="sm" onClick={() => handleAcceptInvite(invite)} disabled={isSaving}>
+                      Accept
+                    </Button>
+                    <button
+                      onClick={() => handleDeclineInvite(invite)}
+                      disabled={isSaving}
+                      className="text-xs text-[#9CA3AF] hover:text-[#EF4444]"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        <Card>
+          <div className="flex flex-wrap items-center gap-3">
+            {organizations.map(org => (
+              <button
+                key={org.id}
+                onClick={() => setSelectedId(org.id)}
+                className={`px-3 py-1.5 rounded border text-sm transition-colors ${
+                  org.id === selectedId
+                    ? 'border-[#F59E0B] text-[#E5E7EB] bg-[#F59E0B]/10'
+                    : 'border-[#22283A] text-[#9CA3AF] hover:text-[#E5E7EB]'
+                }`}
+              >
+                {org.name}
+                <span className="ml-2 text-xs text-[#6B7280]">{ROLE_LABELS[org.role]}</span>
+              </button>
+            ))}
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                type="text"
+                value={newOrgName}
+                onChange={e => setNewOrgName(e.target.value)}
+                placeholder="New team name"
+                maxLength={100}
+                className="px-3 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB] placeholder-[#6B7280] focus:outline-none focus:border-[#F59E0B]"
+              />
+              <Button variant="secondary" size="sm" onClick={handleCreateOrganization} disabled={isSaving || !newOrgName.trim()}>
+                Create team
+              </Button>
+            </div>
+          </div>
+          {organizations.length === 0 && (
+            <p className="text-sm text-[#9CA3AF] mt-3">
+              You&apos;re not in a team yet. Create one to coach learners, or ask your coach to invite you.
+            </p>
+          )}
+        </Card>
+
+        {selected && isLoadingTeam && (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner text="Loading team..." />
+          </div>
+        )}
+
+        {selected && !isLoadingTeam && (
+          <>
+            {isCoach && (
+              <Card padding="none">
+                <div className="px-4 pt-4 pb-2 flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-[#E5E7EB]">Roster</h2>
+                  <Link href={`/dashboard/team/analytics/${selected.id}`} className="text-sm text-[#F59E0B] hover:underline">
+                    Team analytics →
+                  </Link>
+                </div>
+                {roster.length === 0 ? (
+                  <p className="px-4 pb-4 text-sm text-[#9CA3AF]">No learners yet. Invite one by email below.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-[#9CA3AF] border-b border-[#22283A]">
+                          <th className="px-4 py-3 font-medium">Learner</th>
+                          <th className="px-4 py-3 font-medium">Runs</th>
+                          <th className="px-4 py-3 font-medium">Last run</th>
+                          <th className="px-4 py-3 font-medium">Last score</th>
+                          <th className="px-4 py-3 font-medium">Average</th>
+                          <th className="px-4 py-3 font-medium">Recent scores</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {roster.map(learner => (
+                          <tr key={learner.user_id} className="border-b border-[#1A1F2E]">
+                            <td className="px-4 py-3 text-[#E5E7EB]">{learner.email || 'Unknown learner'}</td>
+                            <td className="px-4 py-3 text-[#E5E7EB]">
+                              {learner.run_count}
+                              {learner.analyzed_count < learner.run_count && (
+                                <span className="text-xs text-[#6B7280]"> ({learner.analyzed_count} analyzed)</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              {learner.last_run_id && learner.last_run_at ? (
+                                <Link href={`/runs/${learner.last_run_id}`} className="text-[#E5E7EB] hover:underline">
+                                  {new Date(learner.last_run_at).toLocaleDateString()}
+                                </Link>
+                              ) : (
+                                <span className="text-[#6B7280]">—</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              {learner.last_score !== null ? (
+                                <span className={`font-semibold ${scoreColor(learner.last_score)}`}>{learner.last_score}</span>
+                              ) : (
+                                <span className="text-[#6B7280]">—</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-[#E5E7EB]">{learner.average_score ?? '—'}</td>
+                            <td className="px-4 py-3">
+                              {learner.recent_scores.length > 0 ? (
+                                <span className="space-x-1.5">
+                                  {learner.recent_scores.map((score, idx) => (
+                                    <span key={idx} className={scoreColor(score)}>{score}</span>
+                                  ))}
+                                </span>
+                              ) : (
+                                <span className="text-[#6B7280]">—</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </Card>
+            )}
+
+            <Card>
+              <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Assignments</h2>
+              {assignments.length === 0 ? (
+                <p className="text-sm text-[#9CA3AF]">
+                  {isCoach
+                    ? 'Send learners a rubric and a deadline to practice against.'
+                    : 'No assignments from your coach yet.'}
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {assignments.map(assignment => {
+                    const status = assignment.progress ? learnerStatus(assignment.progress) : null
+                    const attemptsLeft = assignment.progress?.attempts_left
+                    return (
+                      <li key={assignment.id} className="flex items-center justify-between gap-3 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                        <div className="min-w-0">
+                          <p className="text-sm text-[#E5E7EB] truncate">
+                            {assignment.title}
+                            {status && <span className={`ml-2 text-xs ${status.className}`}>{status.label}</span>}
+                          </p>
+                          <p className="text-xs text-[#6B7280]">
+                            {assignment.due_at ? `Due ${new Date(assignment.due_at).toLocaleString()}` : 'No due date'}
+                            {assignment.max_attempts !== null && ` · ${assignment.max_attempts} ${assignment.max_attempts === 1 ? 'attempt' : 'attempts'}`}
+                            {assignment.submitted_count !== undefined &&
+                              ` · ${assignment.submitted_count}/${assignment.learner_count} submitted`}
+                            {!!assignment.late_count && ` (${assignment.late_count} late)`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0 text-xs">
+                          {isCoach ? (
+                            <>
+                              <Link href={`/dashboard/team/assignments/${assignment.id}`} className="text-[#E5E7EB] hover:underline">
+                                Grades
+                              </Link>
+                              <button
+                                onClick={() => handleDeleteAssignment(assignment)}
+                                disabled={isSaving}
+                                className="text-[#9CA3AF] hover:text-[#EF4444]"
+                              >
+                                Delete
+                              </button>
+                            </>
+                          ) : attemptsLeft !== 0 ? (
+                            <Link href={`/app/practice?assignment=${assignment.id}`} className="text-[#F59E0B] hover:underline">
+                              {assignment.progress?.status === 'not_submitted' ? 'Start' : 'Try again'}
+                            </Link>
+                          ) : (
+                            <span className="text-[#6B7280]">No attempts left</span>
+                          )}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+              {isCoach && (
+                <div className="mt-4 pt-4 border-t border-[#22283A] space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      type="text"
+                      value={newAssignment.title}
+                      onChange={e => setNewAssignment({ ...newAssignment, title: e.target.value })}
+                      placeholder="Assignment title"
+                      maxLength={MAX_ASSIGNMENT_TITLE_CHARS}
+                      className={`flex-1 min-w-[12rem] ${inputClass}`}
+                    />
+                    <select
+                      value={newAssignment.rubric_id}
+                      onChange={e => setNewAssignment({ ...newAssignment, rubric_id: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Rubric…</option>
+                      {assignableRubrics.map(rubric => (
+                        <option key={rubric.id} value={rubric.id}>{rubricName(rubric)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <textarea
+                    value={newAssignment.prompt}
+                    onChange={e => setNewAssignment({ ...newAssignment, prompt: e.target.value })}
+                    placeholder="Instructions for learners (optional), e.g. who they're pitching to"
+                    maxLength={MAX_ASSIGNMENT_PROMPT_CHARS}
+                    rows={2}
+                    className={`w-full resize-y ${inputClass}`}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="text-xs text-[#9CA3AF]">Due</label>
+                    <input
+                      type="datetime-local"
+                      value={newAssignment.due_at}
+                      onChange={e => setNewAssignment({ ...newAssignment, due_at: e.target.value })}
+                      className={inputClass}
+                    />
+                    <label className="text-xs text-[#9CA3AF]">Attempts</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_ASSIGNMENT_ATTEMPTS}
+                      value={newAssignment.max_attempts}
+                      onChange={e => setNewAssignment({ ...newAssignment, max_attempts: e.target.value })}
+                      placeholder="Unlimited"
+                      className={`w-28 ${inputClass}`}
+                    />
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={handleCreateAssignment}
+                      disabled={isSaving || !newAssignment.title.trim() || !newAssignment.rubric_id}
+                    >
+                      Assign
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Members</h2>
+                <ul className="space-y-2">
+                  {members.map(member => (
+                    <li key={member.user_id} className="flex items-center justify-between gap-3 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                      <span className="text-sm text-[#E5E7EB] truncate">{member.email || 'Unknown member'}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {role === 'owner' ? (
+                          <select
+                            value={member.role}
+                            onChange={e => handleChangeRole(member.user_id, e.target.value as OrganizationRole)}
+                            disabled={isSaving}
+                            className="px-2 py-1 bg-[#0F1419] border border-[#22283A] rounded text-xs text-[#E5E7EB]"
+                          >
+                            {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map(value => (
+                              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Badge variant={member.role === 'learner' ? 'default' : 'info'} size="sm">
+                            {ROLE_LABELS[member.role]}
+                          </Badge>
+                        )}
+                        {isCoach && (role === 'owner' || member.role === 'learner') && (
+                          <button
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={isSaving}
+                            className="text-xs text-[#9CA3AF] hover:text-[#EF4444]"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                  {invites.map(invite => (
+                    <li key={invite.id} className="flex items-center justify-between gap-3 p-2 bg-[#0F1419] rounded border border-dashed border-[#22283A]">
+                      <span className="text-sm text-[#9CA3AF] truncate">{invite.email || 'Unknown email'}</span>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs text-[#6B7280]">Invited · {ROLE_LABELS[invite.role]}</span>
+                        {(role === 'owner' || invite.role === 'learner') && (
+                          <button
+                            onClick={() => handleCancelInvite(invite)}
+                            disabled={isSaving}
+                            className="text-xs text-[#9CA3AF] hover:text-[#EF4444]"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {isCoach && (
+                  <div className="flex flex-wrap items-center gap-2 mt-4">
+                    <input
+                      type="email"
+                      value={newMemberEmail}
+                      onChange={e => setNewMemberEmail(e.target.value)}
+                      placeholder="Email to invite"
+                      className="flex-1 min-w-[12rem] px-3 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB] placeholder-[#6B7280] focus:outline-none focus:border-[#F59E0B]"
+                    />
+                    {role === 'owner' && (
+                      <select
+                        value={newMemberRole}
+                        onChange={e => setNewMemberRole(e.target.value as OrganizationRole)}
+                        className="px-2 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB]"
+                      >
+                        {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map(value => (
+                          <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    )}
+                    <Button variant="secondary" size="sm" onClick={handleAddMember} disabled={isSaving || !newMemberEmail.trim()}>
+                      Invite
+                    </Button>
+                  </div>
+                )}
+                {isCoach && inviteNotice && (
+                  <p className="text-xs text-[#9CA3AF] mt-2">{inviteNotice}</p>
+                )}
+              </Card>
+
+              <Card>
+                <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Shared rubrics</h2>
+                {sharedRubrics.length === 0 ? (
+                  <p className="text-sm text-[#9CA3AF]">
+                    {isCoach
+                      ? 'Share one of your rubrics so learners can practice against it.'
+                      : 'Your coach hasn’t shared any rubrics yet.'}
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {sharedRubrics.map(rubric => (
+                      <li key={rubric.id} className="flex items-center justify-between gap-3 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                        <div className="min-w-0">
+                          <p className="text-sm text-[#E5E7EB] truncate">{rubricName(rubric)}</p>
+                          {rubric.description && (
+                            <p className="text-xs text-[#6B7280] truncate">{rubric.description}</p>
+                          )}
+                        </div>
+                        {isCoach && (
+                          <button
+                            onClick={() => handleUnshareRubric(rubric.id)}
+                            disabled={isSaving}
+                            className="text-xs text-[#9CA3AF] hover:text-[#EF4444] shrink-0"
+                          >
+                            Unshare
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {isCoach && shareableRubrics.length > 0 && (
+                  <div className="flex items-center gap-2 mt-4">
+                    <select
+                      value={rubricToShare}
+                      onChange={e => setRubricToShare(e.target.value)}
+                      className="flex-1 px-2 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB]"
+                    >
+                      <option value="">Choose one of your rubrics…</option>
+                      {shareableRubrics.map(rubric => (
+                        <option key={rubric.id} value={rubric.id}>{rubricName(rubric)}</option>
+                      ))}
+                    </select>
+                    <Button variant="secondary" size="sm" onClick={handleShareRubric} disabled={isSaving || !rubricToShare}>
+                      Share
+                    </Button>
+                  </div>
+                )}
+                {!isCoach && sharedRubrics.length > 0 && (
+                  <p className="text-xs text-[#6B7280] mt-3">
+                    Pick these under &ldquo;Shared by your coach&rdquo; when you <Link href="/app/practice" className="underline">practice</Link>.
+                  </p>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -10,10 +10,28 @@ import { SectionHeader } from '@/components/ui/SectionHeader'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { StatPill } from '@/components/ui/StatPill'
 import { Badge } from '@/components/ui/Badge'
-import { Check, ArrowLeft, RefreshCw, ChevronDown, ChevronUp, FileText, Download, Copy, Sparkles } from 'lucide-react'
+import { Check, ArrowLeft, RefreshCw, ChevronDown, ChevronUp, FileText, Download, Copy, Sparkles, MessageSquare } from 'lucide-react'
 import { getUserPlan } from '@/lib/plan'
 import { hasCoachAccess, hasDayPassAccess, canViewPremiumInsights, canViewProgressPanel, canEditRubrics } from '@/lib/entitlements'
 import { RunChunk } from '@/lib/types'
+import { getFillerWordTotal, type AnalysisFillerWords, type AnalysisJson } from '@/lib/analysis'
+import { VoiceTimelineChart } from '@/components/VoiceTimelineChart'
+import { SyncedVideo } from '@/components/SyncedVideo'
+import { VideoDeliveryCard } from '@/components/VideoDeliveryCard'
+import { SlideTimeline } from '@/components/SlideTimeline'
+import { ScriptComparison } from '@/components/ScriptComparison'
+import { QAPanel, type QAAnswerSummary } from '@/components/QAPanel'
+import { QAGradeCard } from '@/components/QAGradeCard'
+import { AudienceReactionCard } from '@/components/AudienceReactionCard'
+import { CommentThread, RunComments } from '@/components/RunComments'
+import { ShareRunPanel } from '@/components/ShareRunPanel'
+import { RunReviewersPanel } from '@/components/RunReviewersPanel'
+import type { AudiencePersona } from '@/lib/personas'
+import type { RunCommentThread } from '@/lib/comments'
+import type { QAQuestion } from '@/lib/qa'
+import type { VideoDelivery } from '@/lib/video'
+import { getLanguageProfile } from '@/lib/languages'
+import { applyRunEvent, subscribeToRunEvents, waitForRunStatus, type RunEvent } from '@/lib/run-status'
 
 // Helper function to log fetch errors with full details
 async function logFetchError(url: string, response: Response, error?: any) {
@@ -35,6 +53,7 @@ async function logFetchError(url: string, response: Response, error?: any) {
 
 interface Run {
   id: string
+  user_id?: string | null
   session_id: string
   created_at: string
   title: string | null
@@ -42,12 +61,25 @@ interface Run {
   audio_seconds: number | null
   duration_ms: number | null
   transcript: string | null
-  analysis_json: any
+  analysis_json: AnalysisJson | null
+  analysis_stages?: Record<string, { status: string; error: string | null }> | null
   status: string
   error_message: string | null
   audio_url: string | null
   word_count: number | null
   words_per_minute: number | null
+  language?: string | null
+  video_path?: string | null
+  video_url?: string | null
+  video_delivery?: VideoDelivery | null
+  deck_path?: string | null
+  persona_snapshot?: AudiencePersona | null
+  run_type?: 'pitch' | 'qa_answer'
+  parent_run_id?: string | null
+  qa_questions?: QAQuestion[] | null
+  qa_question?: QAQuestion | null
+  qa_answers?: QAAnswerSummary[]
+  practice_session_id?: string | null
   rubric_snapshot_json: any | null
   plan_at_time?: string | null
   rubrics: {
@@ -108,9 +140,9 @@ function textsMatch(text1: string, text2: string): boolean {
 // Helper function to get filler words for a quote
 function getFillerWordsForQuote(
   quote: string,
-  fillerWordsData: any
+  fillerWordsData: AnalysisFillerWords
 ): { word: string; count: number }[] | null {
-  if (!fillerWordsData?.totals || !fillerWordsData?.top_sentences) {
+  if (fillerWordsData.total_count === 0) {
     return null
   }
 
@@ -143,14 +175,14 @@ function getFillerWordsForQuote(
 // Helper function to find matching rewrite from top_sentences
 function findMatchingRewrite(
   quote: string,
-  topSentences: any[]
+  topSentences: NonNullable<AnalysisFillerWords['top_sentences']>
 ): { sentence: string; rewrite: string } | null {
   if (!topSentences || topSentences.length === 0) {
     return null
   }
 
   for (const item of topSentences) {
-    if (item.sentence && item.rewrite && textsMatch(quote, item.sentence)) {
+    if (textsMatch(quote, item.sentence)) {
       return {
         sentence: item.sentence,
         rewrite: item.rewrite,
@@ -261,6 +293,17 @@ function LineByLineItem({
   )
 }
 
+// Labels for the analysis pipeline stages (see lib/runs/analysis-stages.ts)
+const ANALYSIS_STAGE_LABELS: Record<string, string> = {
+  rubric_scores: 'Rubric scores',
+  summary: 'Summary',
+  line_by_line: 'Line-by-line feedback',
+  chunks: 'Section breakdown',
+  suggestions: 'Pause & cut suggestions',
+  audience_reaction: 'Audience reaction',
+  qa_grade: 'Answer grading',
+}
+
 type AnalysisStage =
   | 'idle'
   | 'uploading'
@@ -283,7 +326,9 @@ export default function RunPage() {
   const [analysisStage, setAnalysisStage] = useState<AnalysisStage>('idle')
   const [analysisStartTime, setAnalysisStartTime] = useState<number | null>(null)
   const [showTimeoutMessage, setShowTimeoutMessage] = useState(false)
+  const [runEventCount, setRunEventCount] = useState(0)
   const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null)
   const [audioError, setAudioError] = useState(false)
   const [showDebug, setShowDebug] = useState(false)
   const [lastTranscribeResponse, setLastTranscribeResponse] = useState<any>(null)
@@ -299,11 +344,15 @@ export default function RunPage() {
       avg_missing_sections: number | null
       avg_overall_score: number | null
     } | null
+    /** Most recent of the compared runs, for the side-by-side comparison */
+    last_run_id: string | null
     loading: boolean
-  }>({ comparisons: null, loading: false })
+  }>({ comparisons: null, last_run_id: null, loading: false })
   const [chunks, setChunks] = useState<RunChunk[]>([])
   const [chunksLoading, setChunksLoading] = useState(false)
   const [retryingChunkId, setRetryingChunkId] = useState<string | null>(null)
+  const [commentThreads, setCommentThreads] = useState<RunCommentThread[]>([])
+  const [commentViewerId, setCommentViewerId] = useState<string | null>(null)
   
   // Use ref to track current run for polling logic (avoids stale closures)
   const runRef = useRef<Run | null>(null)
@@ -524,18 +573,42 @@ export default function RunPage() {
       })
       if (!res.ok) {
         console.error('[Progress] Failed to fetch progress data')
-        setProgressData({ comparisons: null, loading: false })
+        setProgressData({ comparisons: null, last_run_id: null, loading: false })
         return
       }
       const data = await res.json()
-      setProgressData({ comparisons: data.comparisons, loading: false })
+      setProgressData({
+        comparisons: data.comparisons,
+        last_run_id: data.previous_runs?.[0]?.id ?? null,
+        loading: false,
+      })
     } catch (err) {
       console.error('[Progress] Error fetching progress:', err)
-      setProgressData({ comparisons: null, loading: false })
+      setProgressData({ comparisons: null, last_run_id: null, loading: false })
     }
   }, [routeRunId, userPlan])
 
   // Fetch chunks for Coach users only
+  // Reviewer comments (owner and coaches); a failed load just hides the section
+  const fetchComments = useCallback(async () => {
+    if (!routeRunId || routeRunId === 'undefined') {
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/runs/${routeRunId}/comments`, {
+        cache: 'no-store',
+      })
+      const data = await res.json()
+      if (data.ok) {
+        setCommentThreads(data.threads)
+        setCommentViewerId(data.viewer_id)
+      }
+    } catch (err) {
+      console.error('[Comments] Error fetching comments:', err)
+    }
+  }, [routeRunId])
+
   const fetchChunks = useCallback(async () => {
     if (!routeRunId || !hasCoachAccess(userPlan)) {
       return
@@ -634,6 +707,10 @@ export default function RunPage() {
     fetchRun(false)
   }, [routeRunId])
 
+  useEffect(() => {
+    fetchComments()
+  }, [fetchComments])
+
   // Fetch progress when run is loaded and user can view progress (Coach only)
   useEffect(() => {
     if (run && canViewProgressPanel(userPlan) && run.analysis_json) {
@@ -648,47 +725,74 @@ export default function RunPage() {
     }
   }, [run, userPlan, fetchChunks])
 
-  // Polling: poll every 1500ms while analysis is in progress
+  // Apply streamed run events: status, transcript and analysis sections update the run,
+  // chunk events update the checkpoint list
+  const handleRunEvent = useCallback((event: RunEvent) => {
+    setRunEventCount(prev => prev + 1)
+    if (event.type === 'ping' || event.type === 'job') return
+
+    if (event.type === 'chunk') {
+      const chunk = event.data
+      setChunks(prev => {
+        const existing = prev.find(c => c.id === chunk.id)
+        if (!existing) return prev
+        return prev.map(c => (c.id === chunk.id ? { ...c, ...chunk } : c))
+      })
+      return
+    }
+
+    if (event.type === 'snapshot' && event.data.chunks.length > 0) {
+      const chunksById = new Map(event.data.chunks.map(chunk => [chunk.id, chunk]))
+      setChunks(prev => prev.map(c => (chunksById.has(c.id) ? { ...c, ...chunksById.get(c.id)! } : c)))
+    }
+
+    setRun(prev => prev ? applyRunEvent(prev, event) : prev)
+  }, [])
+
+  // Derive analysis stage from run state (updated by fetches and streamed events)
   // MAX_ANALYSIS_WAIT_MS: 60 seconds timeout
   const MAX_ANALYSIS_WAIT_MS = 60_000
-  
+
   useEffect(() => {
     if (!run) return
 
-    const status = run.status
-    const hasTranscript = !!(run.transcript && run.transcript.trim().length > 0)
-    const hasSummary = !!(run.analysis_json?.summary)
-    
-    // Stop polling when we have transcript + summary (complete)
-    const hasCompleteData = run.status === 'analyzed' || (hasTranscript && hasSummary)
-    
-    // Determine if we should poll based on stage
-    const shouldPoll = analysisStage !== 'idle' && 
-                       analysisStage !== 'complete' && 
-                       analysisStage !== 'error' &&
-                       !hasCompleteData
+    const newStage = determineAnalysisStage(run)
+    setAnalysisStage(newStage)
 
-    if (!shouldPoll) {
-      return
+    if (newStage === 'analyzing' && !analysisStartTime) {
+      setAnalysisStartTime(Date.now())
     }
 
-    // Check for timeout
-    if (analysisStartTime && Date.now() - analysisStartTime > MAX_ANALYSIS_WAIT_MS) {
+    if (newStage === 'complete') {
+      setShowTimeoutMessage(false)
+      setAnalysisStartTime(null)
+    } else if (analysisStartTime && Date.now() - analysisStartTime > MAX_ANALYSIS_WAIT_MS) {
       setShowTimeoutMessage(true)
-      // Don't stop polling, but show message
     }
+  }, [run?.status, run?.transcript, run?.analysis_json, runEventCount])
+
+  // Stream run events while work is in progress (handlers that start work follow their own stream)
+  const runHasCompleteData = run?.status === 'analyzed' ||
+    (!!(run?.transcript && run.transcript.trim().length > 0) && !!run?.analysis_json?.summary)
+  const shouldStreamEvents = !!run &&
+    (run.status === 'transcribing' || run.status === 'analyzing') &&
+    !runHasCompleteData &&
+    !isTranscribing &&
+    !isGettingFeedback
 
-    const intervalId = setInterval(async () => {
-      const shouldContinue = await fetchRun(true)
-      if (!shouldContinue) {
-        clearInterval(intervalId)
+  useEffect(() => {
+    if (!shouldStreamEvents || !routeRunId) return
+
+    const unsubscribe = subscribeToRunEvents(routeRunId, (event) => {
+      handleRunEvent(event)
+      // Settled: reload the full run (signed audio URL, rubric, plan metadata)
+      if (event.type === 'status' && ['transcribed', 'analyzed', 'error'].includes(event.data.status)) {
+        fetchRun(true)
       }
-    }, 1500)
+    })
 
-    return () => {
-      clearInterval(intervalId)
-    }
-  }, [run?.status, run?.transcript, run?.analysis_json, analysisStage, analysisStartTime, routeRunId, fetchRun])
+    return unsubscribe
+  }, [shouldStreamEvents, routeRunId, fetchRun, handleRunEvent])
 
   useEffect(() => {
     if (run?.audio_path) {
@@ -734,14 +838,14 @@ export default function RunPage() {
         return
       }
 
-      // Normalize response shape
-      const normalizedRun = responseData.ok && responseData.run ? responseData.run : responseData
-      const normalizedTranscript = responseData.transcript ?? responseData.run?.transcript ?? normalizedRun?.transcript ?? null
+      // Transcription runs in a background job; follow its events until it lands
+      const { run: statusRun } = await waitForRunStatus(routeRunId, ['transcribed'], { onEvent: handleRunEvent })
+      const normalizedTranscript = statusRun.transcript ?? null
       
-      if (normalizedRun) {
+      if (runRef.current) {
         const runData: Run = {
-          ...normalizedRun,
-          transcript: normalizedTranscript ?? normalizedRun.transcript ?? null,
+          ...runRef.current,
+          ...statusRun,
         }
         
         // Use priority-based update
@@ -756,9 +860,6 @@ export default function RunPage() {
           }
           setLastAction('Transcription completed successfully')
         }
-      } else {
-        setError(responseData.message || 'Transcription failed')
-        setLastAction(`Transcription failed: ${responseData.message || 'Unknown error'}`)
       }
     } catch (err: any) {
       console.error('Transcription error:', err)
@@ -803,16 +904,13 @@ export default function RunPage() {
         return
       }
 
-      const responseData = await res.json()
+      // Analysis runs in a background job; follow its events until it lands
+      const { run: statusRun } = await waitForRunStatus(routeRunId, ['analyzed'], { onEvent: handleRunEvent })
       
-      // Normalize response shape: handle both { run, analysis } and { run } formats
-      const normalizedRun = responseData.ok && responseData.run ? responseData.run : responseData
-      const normalizedAnalysis = responseData.analysis ?? responseData.run?.analysis_json ?? normalizedRun?.analysis_json ?? null
-      
-      if (normalizedRun) {
+      if (runRef.current) {
         const runData: Run = {
-          ...normalizedRun,
-          analysis_json: normalizedAnalysis ?? normalizedRun.analysis_json ?? null,
+          ...runRef.current,
+          ...statusRun,
         }
         
         // Use priority-based update
@@ -824,9 +922,6 @@ export default function RunPage() {
           setRun(runData)
           setLastAction('Feedback generated successfully')
         }
-      } else {
-        setError(responseData.message || 'Feedback generation failed')
-        setLastAction(`Feedback generation failed: ${responseData.message || 'Unknown error'}`)
       }
     } catch (err: any) {
       console.error('Feedback generation error:', err)
@@ -1149,6 +1244,31 @@ export default function RunPage() {
   }
 
   const transcript = run.transcript ?? lastTranscript ?? ""
+  const rateLabel = getLanguageProfile(run.language).pacing.rateLabel
+
+  // Reviewer threads on a sentence with (visible) line-by-line feedback are shown next to
+  // the first such feedback item; the rest are listed in the reviewer comments card
+  const commentFeedbackIdx = new Map<number, number>()
+  createFeedbackToSentenceMap(transcript, run.analysis_json?.line_by_line || []).forEach((sentenceIdx, feedbackIdx) => {
+    const shown = userPlan !== 'free' || feedbackIdx < 3
+    const current = commentFeedbackIdx.get(sentenceIdx)
+    if (shown && (current === undefined || feedbackIdx < current)) {
+      commentFeedbackIdx.set(sentenceIdx, feedbackIdx)
+    }
+  })
+  const otherCommentThreads = commentThreads.filter(thread =>
+    thread.sentence_index === null || !commentFeedbackIdx.has(thread.sentence_index)
+  )
+  const openCommentsBySentence = new Map<number, number>()
+  commentThreads.forEach(thread => {
+    if (thread.sentence_index !== null && !thread.resolved_at) {
+      openCommentsBySentence.set(thread.sentence_index, (openCommentsBySentence.get(thread.sentence_index) || 0) + 1)
+    }
+  })
+  const seekAudio = audioElement ? (sec: number) => {
+    audioElement.currentTime = sec
+    audioElement.play().catch(() => {})
+  } : undefined
 
   return (
     <div className="min-h-screen bg-[#0E1117] py-8 px-4">
@@ -1296,13 +1416,11 @@ export default function RunPage() {
                               setError(errorMsg)
                               return
                             }
-                            const responseData = await res.json()
-                            const normalizedRun = responseData.ok && responseData.run ? responseData.run : responseData
-                            const normalizedAnalysis = responseData.analysis ?? responseData.run?.analysis_json ?? normalizedRun?.analysis_json ?? null
-                            if (normalizedRun) {
+                            const { run: statusRun } = await waitForRunStatus(routeRunId, ['analyzed'], { onEvent: handleRunEvent })
+                            if (runRef.current) {
                               const runData: Run = {
-                                ...normalizedRun,
-                                analysis_json: normalizedAnalysis ?? normalizedRun.analysis_json ?? null,
+                                ...runRef.current,
+                                ...statusRun,
                               }
                               const currentRun = runRef.current
                               const currentPriority = getStatusPriority(currentRun?.status)
@@ -1339,8 +1457,10 @@ export default function RunPage() {
               const coachAccess = hasCoachAccess(userPlan)
               const dayPassActive = hasDayPassAccess(userPlan)
               const canViewPremium = canViewPremiumInsights(userPlan)
-              const hasPremiumInsights = run.analysis_json?.premium_insights
-              const hasPremiumContent = run.analysis_json?.premium
+              const premiumInsights = run.analysis_json?.premium_insights
+              const premium = run.analysis_json?.premium
+              const hasPremiumInsights = !!premiumInsights
+              const hasPremiumContent = !!premium
               
               // Check if Day Pass expired (run was analyzed on daypass but user no longer has active daypass)
               const runPlanAtTime = run.plan_at_time || run.analysis_json?.meta?.plan_at_time
@@ -1391,14 +1511,14 @@ export default function RunPage() {
                       )}
                       
                       {/* Signature Insight */}
-                      {run.analysis_json.premium?.signature_insight && (
+                      {premium?.signature_insight && (
                         <div className="mb-6 p-4 bg-gradient-to-r from-[#F59E0B]/10 to-[#F59E0B]/5 border border-[#F59E0B]/30 rounded-lg">
                           <div className="flex items-start gap-3">
                             <Sparkles className="h-5 w-5 text-[#F59E0B] mt-0.5 flex-shrink-0" />
                             <div className="flex-1">
                               <h3 className="text-sm font-semibold text-[#F59E0B] mb-2">Signature Insight</h3>
                               <p className="text-sm text-[#E5E7EB] leading-relaxed">
-                                {run.analysis_json.premium.signature_insight}
+                                {premium.signature_insight}
                               </p>
                             </div>
                           </div>
@@ -1406,19 +1526,19 @@ export default function RunPage() {
                       )}
 
                       {/* Coach's Take */}
-                      {run.analysis_json.premium?.coach_take && (
+                      {premium?.coach_take && (
                         <div className="mb-6 p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                           <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Coach's Take</h3>
                           <div className="space-y-3">
                             <p className="text-sm text-[#E5E7EB] leading-relaxed whitespace-pre-line">
-                              {run.analysis_json.premium.coach_take}
+                              {premium.coach_take}
                             </p>
                           </div>
                         </div>
                       )}
 
                       {/* Premium Filler Word Breakdown */}
-                      {run.analysis_json.premium?.filler && (
+                      {premium?.filler && (
                         <div className="mb-6 p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                           <h3 className="text-sm font-semibold text-[#E5E7EB] mb-4">Filler Word Breakdown</h3>
                           
@@ -1427,16 +1547,16 @@ export default function RunPage() {
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Total</p>
                               <p className="text-2xl font-bold text-[#F59E0B]">
-                                {run.analysis_json.premium.filler.total}
+                                {premium.filler.total}
                               </p>
                             </div>
 
                             {/* By Word Chips */}
-                            {Object.keys(run.analysis_json.premium.filler.by_word).length > 0 && (
+                            {Object.keys(premium.filler.by_word).length > 0 && (
                               <div>
                                 <p className="text-xs text-[#9CA3AF] mb-2">By Word</p>
                                 <div className="flex flex-wrap gap-2">
-                                  {Object.entries(run.analysis_json.premium.filler.by_word)
+                                  {Object.entries(premium.filler.by_word)
                                     .filter(([_, count]) => (count as number) > 0)
                                     .sort(([_, a], [__, b]) => (b as number) - (a as number))
                                     .map(([word, count]) => (
@@ -1455,44 +1575,44 @@ export default function RunPage() {
                                 <div className="flex-1 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                   <p className="text-xs text-[#9CA3AF] mb-1">Intro</p>
                                   <p className="text-base font-semibold text-[#E5E7EB]">
-                                    {run.analysis_json.premium.filler.sections.intro}
+                                    {premium.filler.sections.intro}
                                   </p>
                                 </div>
                                 <div className="flex-1 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                   <p className="text-xs text-[#9CA3AF] mb-1">Middle</p>
                                   <p className="text-base font-semibold text-[#E5E7EB]">
-                                    {run.analysis_json.premium.filler.sections.middle}
+                                    {premium.filler.sections.middle}
                                   </p>
                                 </div>
                                 <div className="flex-1 p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                   <p className="text-xs text-[#9CA3AF] mb-1">Close</p>
                                   <p className="text-base font-semibold text-[#E5E7EB]">
-                                    {run.analysis_json.premium.filler.sections.close}
+                                    {premium.filler.sections.close}
                                   </p>
                                 </div>
                               </div>
                             </div>
 
                             {/* Insight */}
-                            {run.analysis_json.premium.filler.insight && (
+                            {premium.filler.insight && (
                               <div className="pt-2 border-t border-[#22283A]">
                                 <p className="text-xs text-[#9CA3AF] mb-2">Pattern</p>
                                 <p className="text-sm text-[#E5E7EB] leading-relaxed">
-                                  {run.analysis_json.premium.filler.insight}
+                                  {premium.filler.insight}
                                 </p>
                               </div>
                             )}
 
                             {/* Drill */}
-                            {run.analysis_json.premium.filler.drill && (
+                            {premium.filler.drill && (
                               <div className="pt-2 border-t border-[#22283A]">
                                 <p className="text-xs text-[#9CA3AF] mb-2">What to do</p>
                                 <div className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                   <h4 className="text-xs font-semibold text-[#F59E0B] mb-2">
-                                    {run.analysis_json.premium.filler.drill.title}
+                                    {premium.filler.drill.title}
                                   </h4>
                                   <ol className="space-y-1.5 list-decimal list-inside">
-                                    {run.analysis_json.premium.filler.drill.steps.map((step: string, idx: number) => (
+                                    {premium.filler.drill.steps.map((step: string, idx: number) => (
                                       <li key={idx} className="text-xs text-[#E5E7EB]">
                                         {step}
                                       </li>
@@ -1506,7 +1626,7 @@ export default function RunPage() {
                       )}
                       
                       {/* Filler Words Section - Coach only */}
-                      {(runPlanAtTime === 'coach' || userPlan === 'coach') && run.analysis_json.premium_insights?.filler_words && (
+                      {(runPlanAtTime === 'coach' || userPlan === 'coach') && premiumInsights?.filler_words && (
                         <div className="mb-6">
                           <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                             <h3 className="text-sm font-semibold text-[#E5E7EB] mb-4">Filler Words</h3>
@@ -1515,15 +1635,25 @@ export default function RunPage() {
                             <div className="mb-4">
                               <p className="text-xs text-[#9CA3AF] mb-1">Total Filler Words Used</p>
                               <p className="text-2xl font-bold text-[#F59E0B]">
-                                {run.analysis_json.premium_insights.filler_words.total_count}
+                                {premiumInsights.filler_words.total_count}
                               </p>
+                              {premiumInsights.filler_words.by_source && premiumInsights.filler_words.by_source.acoustic > 0 && (
+                                <p className="text-xs text-[#9CA3AF] mt-1">
+                                  {premiumInsights.filler_words.by_source.transcript} in the transcript, {premiumInsights.filler_words.by_source.acoustic} heard in the audio
+                                </p>
+                              )}
+                              {premiumInsights.filler_words.transcript_mode === 'standard' && (
+                                <p className="text-xs text-[#6B7280] mt-1">
+                                  This run was transcribed without verbatim mode, so some "um"/"uh" may be missing.
+                                </p>
+                              )}
                             </div>
 
                             {/* Table/List: Word | Count | Example | Suggested replacement */}
-                            {run.analysis_json.premium_insights.filler_words.by_word && 
-                             run.analysis_json.premium_insights.filler_words.by_word.length > 0 ? (
+                            {premiumInsights.filler_words.by_word && 
+                             premiumInsights.filler_words.by_word.length > 0 ? (
                               <div className="space-y-3 mb-4">
-                                {run.analysis_json.premium_insights.filler_words.by_word.map((item: any, idx: number) => (
+                                {premiumInsights.filler_words.by_word.map((item: any, idx: number) => (
                                   <div key={idx} className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                     <div className="flex items-start justify-between gap-3 mb-2">
                                       <div className="flex-1">
@@ -1532,6 +1662,9 @@ export default function RunPage() {
                                           <Badge variant="warning" size="sm">
                                             {item.count} {item.count === 1 ? 'time' : 'times'}
                                           </Badge>
+                                          {item.source === 'acoustic' && (
+                                            <Badge variant="info" size="sm">from audio</Badge>
+                                          )}
                                         </div>
                                         
                                         {/* Examples */}
@@ -1573,12 +1706,12 @@ export default function RunPage() {
                             )}
 
                             {/* Coaching Notes */}
-                            {run.analysis_json.premium_insights.filler_words.coaching_notes && 
-                             run.analysis_json.premium_insights.filler_words.coaching_notes.length > 0 && (
+                            {premiumInsights.filler_words.coaching_notes && 
+                             premiumInsights.filler_words.coaching_notes.length > 0 && (
                               <div className="pt-3 border-t border-[#22283A]">
                                 <p className="text-xs text-[#9CA3AF] mb-2">Coaching Notes</p>
                                 <ul className="space-y-1.5 list-disc list-inside">
-                                  {run.analysis_json.premium_insights.filler_words.coaching_notes.map((note: string, noteIdx: number) => (
+                                  {premiumInsights.filler_words.coaching_notes.map((note: string, noteIdx: number) => (
                                     <li key={noteIdx} className="text-xs text-[#E5E7EB]">
                                       {note}
                                     </li>
@@ -1593,26 +1726,26 @@ export default function RunPage() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
 
                     {/* 2. Pacing & Pauses */}
-                    {run.analysis_json.premium_insights.pacing && (
+                    {premiumInsights?.pacing && (
                       <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                         <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Pacing & Pauses</h3>
                         <div className="space-y-3">
-                          {run.analysis_json.premium_insights.pacing.wpm_overall !== null && 
-                           run.analysis_json.premium_insights.pacing.wpm_overall !== undefined && (
+                          {premiumInsights.pacing.wpm_overall !== null && 
+                           premiumInsights.pacing.wpm_overall !== undefined && (
                             <div>
-                              <p className="text-xs text-[#9CA3AF] mb-1">Overall WPM</p>
+                              <p className="text-xs text-[#9CA3AF] mb-1">Overall {rateLabel}</p>
                               <p className="text-lg font-bold text-[#F59E0B]">
-                                {Math.round(run.analysis_json.premium_insights.pacing.wpm_overall)}
+                                {Math.round(premiumInsights.pacing.wpm_overall)}
                               </p>
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.pacing.segments && 
-                           run.analysis_json.premium_insights.pacing.segments.length > 0 && (
+                          {premiumInsights.pacing.segments && 
+                           premiumInsights.pacing.segments.length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Segments</p>
                               <div className="space-y-2">
-                                {run.analysis_json.premium_insights.pacing.segments.map((segment: any, idx: number) => (
+                                {premiumInsights.pacing.segments.map((segment: any, idx: number) => (
                                   <div key={idx} className="p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                     <div className="flex items-center gap-2 mb-1">
                                       <Badge 
@@ -1626,7 +1759,7 @@ export default function RunPage() {
                                       </Badge>
                                       {segment.wpm !== null && segment.wpm !== undefined && (
                                         <span className="text-xs text-[#9CA3AF]">
-                                          {Math.round(segment.wpm)} WPM
+                                          {Math.round(segment.wpm)} {rateLabel}
                                         </span>
                                       )}
                                     </div>
@@ -1644,21 +1777,21 @@ export default function RunPage() {
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.pacing.pauses && (
+                          {premiumInsights.pacing.pauses && (
                             <div className="pt-2 border-t border-[#22283A]">
                               <p className="text-xs text-[#9CA3AF] mb-2">Pauses</p>
                               <div className="space-y-1">
-                                {run.analysis_json.premium_insights.pacing.pauses.longest_pause_sec !== null && (
+                                {premiumInsights.pacing.pauses.longest_pause_sec !== null && (
                                   <p className="text-xs text-[#E5E7EB]">
-                                    Longest: {run.analysis_json.premium_insights.pacing.pauses.longest_pause_sec.toFixed(1)}s
+                                    Longest: {premiumInsights.pacing.pauses.longest_pause_sec.toFixed(1)}s
                                   </p>
                                 )}
                                 <p className="text-xs text-[#E5E7EB]">
-                                  Long pauses: {run.analysis_json.premium_insights.pacing.pauses.long_pause_count || 0}
+                                  Long pauses: {premiumInsights.pacing.pauses.long_pause_count || 0}
                                 </p>
-                                {run.analysis_json.premium_insights.pacing.pauses.notes && (
+                                {premiumInsights.pacing.pauses.notes && (
                                   <p className="text-xs text-[#9CA3AF] mt-1">
-                                    {run.analysis_json.premium_insights.pacing.pauses.notes}
+                                    {premiumInsights.pacing.pauses.notes}
                                   </p>
                                 )}
                               </div>
@@ -1668,17 +1801,70 @@ export default function RunPage() {
                       </div>
                     )}
 
+                    {/* Voice: loudness and pitch from the recording */}
+                    {premiumInsights?.voice && (
+                      <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+                        <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Voice & Energy</h3>
+                        <div className="space-y-3">
+                          <div className="flex flex-wrap gap-4">
+                            {premiumInsights.voice.pitch.variability_semitones !== null && (
+                              <div>
+                                <p className="text-xs text-[#9CA3AF] mb-1">Pitch variation</p>
+                                <p className="text-lg font-bold text-[#E5E7EB]">
+                                  {premiumInsights.voice.pitch.variability_semitones} st
+                                </p>
+                              </div>
+                            )}
+                            {premiumInsights.voice.pitch.range_semitones !== null && (
+                              <div>
+                                <p className="text-xs text-[#9CA3AF] mb-1">Pitch range</p>
+                                <p className="text-lg font-bold text-[#E5E7EB]">
+                                  {premiumInsights.voice.pitch.range_semitones} st
+                                </p>
+                              </div>
+                            )}
+                            {premiumInsights.voice.loudness.range_db !== null && (
+                              <div>
+                                <p className="text-xs text-[#9CA3AF] mb-1">Volume range</p>
+                                <p className="text-lg font-bold text-[#E5E7EB]">
+                                  {premiumInsights.voice.loudness.range_db} dB
+                                </p>
+                              </div>
+                            )}
+                          </div>
+
+                          {premiumInsights.voice.timeline.length > 1 && (
+                            <VoiceTimelineChart voice={premiumInsights.voice} />
+                          )}
+
+                          {premiumInsights.voice.flags.length > 0 && (
+                            <ul className="space-y-1">
+                              {premiumInsights.voice.flags.map((flag, idx) => (
+                                <li key={idx} className="text-xs text-[#9CA3AF]">
+                                  {flag.note}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+
+                          {premiumInsights.voice.notes.map((note, idx) => (
+                            <p key={idx} className="text-xs text-[#E5E7EB]">{note}</p>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* 3. Structure */}
-                    {run.analysis_json.premium_insights.structure && (
+                    {premiumInsights?.structure && (
                       <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                         <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Structure</h3>
                         <div className="space-y-3">
-                          {run.analysis_json.premium_insights.structure.detected_sections && 
-                           run.analysis_json.premium_insights.structure.detected_sections.length > 0 && (
+                          {premiumInsights.structure.detected_sections && 
+                           premiumInsights.structure.detected_sections.length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Detected Sections</p>
                               <div className="flex flex-wrap gap-2">
-                                {run.analysis_json.premium_insights.structure.detected_sections.map((section: string) => (
+                                {premiumInsights.structure.detected_sections.map((section: string) => (
                                   <Badge key={section} variant="success" size="sm">
                                     {section}
                                   </Badge>
@@ -1687,12 +1873,12 @@ export default function RunPage() {
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.structure.missing_sections && 
-                           run.analysis_json.premium_insights.structure.missing_sections.length > 0 && (
+                          {premiumInsights.structure.missing_sections && 
+                           premiumInsights.structure.missing_sections.length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Missing Sections</p>
                               <div className="flex flex-wrap gap-2">
-                                {run.analysis_json.premium_insights.structure.missing_sections.map((section: string) => (
+                                {premiumInsights.structure.missing_sections.map((section: string) => (
                                   <Badge key={section} variant="warning" size="sm">
                                     {section}
                                   </Badge>
@@ -1701,12 +1887,12 @@ export default function RunPage() {
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.structure.suggested_lines && 
-                           Object.keys(run.analysis_json.premium_insights.structure.suggested_lines).length > 0 && (
+                          {premiumInsights.structure.suggested_lines && 
+                           Object.keys(premiumInsights.structure.suggested_lines).length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Suggested Lines</p>
                               <div className="space-y-2">
-                                {Object.entries(run.analysis_json.premium_insights.structure.suggested_lines).map(([section, line]: [string, any]) => (
+                                {Object.entries(premiumInsights.structure.suggested_lines).map(([section, line]: [string, any]) => (
                                   <div key={section} className="p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                     <div className="flex items-start justify-between gap-2">
                                       <div className="flex-1">
@@ -1729,17 +1915,17 @@ export default function RunPage() {
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.structure.one_sentence_pitch && (
+                          {premiumInsights.structure.one_sentence_pitch && (
                             <div className="pt-2 border-t border-[#22283A]">
                               <p className="text-xs text-[#9CA3AF] mb-2">One-Sentence Pitch</p>
                               <div className="p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                                 <div className="flex items-start justify-between gap-2">
                                   <p className="text-xs text-[#E5E7EB] flex-1">
-                                    {run.analysis_json.premium_insights.structure.one_sentence_pitch}
+                                    {premiumInsights.structure.one_sentence_pitch}
                                   </p>
                                   <button
                                     onClick={() => {
-                                      navigator.clipboard.writeText(run.analysis_json.premium_insights.structure.one_sentence_pitch)
+                                      navigator.clipboard.writeText(premiumInsights.structure.one_sentence_pitch)
                                     }}
                                     className="p-1.5 hover:bg-[#22283A] rounded transition-colors flex-shrink-0"
                                     title="Copy to clipboard"
@@ -1755,16 +1941,16 @@ export default function RunPage() {
                     )}
 
                     {/* 4. Coaching Plan */}
-                    {run.analysis_json.premium_insights.coaching_plan && (
+                    {premiumInsights?.coaching_plan && (
                       <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
                         <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Coaching Plan</h3>
                         <div className="space-y-4">
-                          {run.analysis_json.premium_insights.coaching_plan.next_attempt_focus && 
-                           run.analysis_json.premium_insights.coaching_plan.next_attempt_focus.length > 0 && (
+                          {premiumInsights.coaching_plan.next_attempt_focus && 
+                           premiumInsights.coaching_plan.next_attempt_focus.length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Next Attempt Focus</p>
                               <ul className="space-y-1.5">
-                                {run.analysis_json.premium_insights.coaching_plan.next_attempt_focus.map((focus: string, idx: number) => (
+                                {premiumInsights.coaching_plan.next_attempt_focus.map((focus: string, idx: number) => (
                                   <li key={idx} className="flex items-start gap-2 text-xs text-[#E5E7EB]">
                                     <span className="text-[#F59E0B] mt-0.5 flex-shrink-0">•</span>
                                     <span>{focus}</span>
@@ -1774,12 +1960,12 @@ export default function RunPage() {
                             </div>
                           )}
                           
-                          {run.analysis_json.premium_insights.coaching_plan.drills && 
-                           run.analysis_json.premium_insights.coaching_plan.drills.length > 0 && (
+                          {premiumInsights.coaching_plan.drills && 
+                           premiumInsights.coaching_plan.drills.length > 0 && (
                             <div>
                               <p className="text-xs text-[#9CA3AF] mb-2">Practice Drills</p>
                               <div className="space-y-2">
-                                {run.analysis_json.premium_insights.coaching_plan.drills.map((drill: any, idx: number) => (
+                                {premiumInsights.coaching_plan.drills.map((drill: any, idx: number) => (
                                   <DrillAccordion key={idx} title={drill.title} steps={drill.steps || []} />
                                 ))}
                               </div>
@@ -2080,8 +2266,7 @@ export default function RunPage() {
                 
                 // Get current run metrics
                 const currentWpm = run.words_per_minute || null
-                const currentFillerWords = run.analysis_json?.premium?.filler?.total ?? 
-                                          run.analysis_json?.premium_insights?.filler_words?.total_count ?? null
+                const currentFillerWords = getFillerWordTotal(run.analysis_json)
                 const currentMissingSections = run.analysis_json?.rubric_scores 
                   ? run.analysis_json.rubric_scores.filter((score: any) => score.missing === true).length
                   : null
@@ -2122,7 +2307,7 @@ export default function RunPage() {
                         {currentWpm !== null && comparisons.avg_wpm !== null && (
                           <div className="flex items-center justify-between p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
                             <div className="flex items-center gap-2">
-                              <span className="text-xs text-[#9CA3AF]">Pacing (WPM):</span>
+                              <span className="text-xs text-[#9CA3AF]">Pacing ({rateLabel}):</span>
                               <span className="text-xs text-[#E5E7EB]">
                                 {formatComparison(currentWpm, comparisons.avg_wpm, 'int')}
                               </span>
@@ -2185,6 +2370,15 @@ export default function RunPage() {
                             No previous runs to compare. Keep practicing to see your progress!
                           </p>
                         )}
+
+                        {progressData.last_run_id && (
+                          <Link
+                            href={`/runs/compare?ids=${progressData.last_run_id},${run.id}`}
+                            className="block text-xs text-[#9CA3AF] hover:text-[#E5E7EB] underline underline-offset-2 text-center pt-1"
+                          >
+                            Compare side by side with your last run →
+                          </Link>
+                        )}
                       </div>
                     </Card>
                   </motion.div>
@@ -2218,22 +2412,26 @@ export default function RunPage() {
                         </p>
                       </div>
                     ) : audioUrl ? (
-                      <audio 
-                        controls 
-                        className="w-full"
-                        preload="metadata"
-                        onError={(e) => {
-                          console.error(`Audio playback error for runId: ${routeRunId}`)
-                          setAudioError(true)
-                        }}
-                      >
-                        <source src={audioUrl} type="audio/webm" />
-                        <source src={audioUrl} type="audio/webm;codecs=opus" />
-                        <source src={audioUrl} type="audio/mpeg" />
-                        <source src={audioUrl} type="audio/wav" />
-                        <source src={audioUrl} type="audio/ogg" />
-                        Your browser does not support the audio element.
-                      </audio>
+                      <>
+                        {run.video_url && <SyncedVideo src={run.video_url} audio={audioElement} />}
+                        <audio 
+                          ref={setAudioElement}
+                          controls 
+                          className="w-full"
+                          preload="metadata"
+                          onError={(e) => {
+                            console.error(`Audio playback error for runId: ${routeRunId}`)
+                            setAudioError(true)
+                          }}
+                        >
+                          <source src={audioUrl} type="audio/webm" />
+                          <source src={audioUrl} type="audio/webm;codecs=opus" />
+                          <source src={audioUrl} type="audio/mpeg" />
+                          <source src={audioUrl} type="audio/wav" />
+                          <source src={audioUrl} type="audio/ogg" />
+                          Your browser does not support the audio element.
+                        </audio>
+                      </>
                     ) : (
                       <div className="p-4 bg-yellow-500/20 border border-yellow-500/50 rounded-lg">
                         <p className="text-yellow-400 text-sm">
@@ -2244,6 +2442,87 @@ export default function RunPage() {
                   </motion.div>
                 )}
 
+                {/* Video mode: on-camera delivery notes */}
+                {run.video_delivery && (
+                  <div className="mb-6">
+                    <VideoDeliveryCard
+                      delivery={run.video_delivery}
+                      onSeek={audioElement ? (sec) => {
+                        audioElement.currentTime = sec
+                        audioElement.play().catch(() => {})
+                      } : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* Audience persona: how the intended audience would react */}
+                {run.analysis_json?.audience_reaction && (
+                  <div className="mb-6">
+                    <AudienceReactionCard
+                      reaction={run.analysis_json.audience_reaction}
+                      role={run.persona_snapshot?.role}
+                    />
+                  </div>
+                )}
+
+                {/* Slide deck: time and coverage per slide */}
+                {run.analysis_json?.slides && (
+                  <div className="mb-6">
+                    <SlideTimeline
+                      slides={run.analysis_json.slides}
+                      onSeek={audioElement ? (sec) => {
+                        audioElement.currentTime = sec
+                        audioElement.play().catch(() => {})
+                      } : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* Reference script: aligned side-by-side diff with the transcript */}
+                {run.analysis_json?.script && (
+                  <div className="mb-6">
+                    <ScriptComparison script={run.analysis_json.script} />
+                  </div>
+                )}
+
+                {/* Take of a practice session: compare it with the other takes */}
+                {run.practice_session_id && (
+                  <div className="mb-6">
+                    <Link href={`/sessions/${run.practice_session_id}`} className="text-sm text-[#9CA3AF] hover:text-[#E5E7EB] underline underline-offset-2">
+                      Compare with the other takes in this practice session →
+                    </Link>
+                  </div>
+                )}
+
+                {/* Q&A answer: graded against its question */}
+                {run.run_type === 'qa_answer' && (
+                  <div className="mb-6">
+                    {run.parent_run_id && (
+                      <Link href={`/runs/${run.parent_run_id}`} className="inline-flex items-center gap-1 text-xs text-[#9CA3AF] hover:text-[#E5E7EB] mb-2">
+                        <ArrowLeft className="w-3 h-3" />
+                        Back to the pitch
+                      </Link>
+                    )}
+                    {run.analysis_json?.qa_grade ? (
+                      <QAGradeCard grade={run.analysis_json.qa_grade} />
+                    ) : run.qa_question && (
+                      <p className="text-sm text-[#9CA3AF]">“{run.qa_question.question}”</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Q&A simulation: audience questions for an analyzed pitch */}
+                {run.run_type !== 'qa_answer' && run.status === 'analyzed' && (
+                  <div className="mb-6">
+                    <QAPanel
+                      runId={run.id}
+                      questions={run.qa_questions || []}
+                      answers={run.qa_answers || []}
+                      onAnswered={() => { fetchRun() }}
+                    />
+                  </div>
+                )}
+
                 {/* Transcript Text */}
                 <AnimatePresence mode="wait">
                   {transcript.trim().length > 0 ? (
@@ -2301,6 +2580,15 @@ export default function RunPage() {
                                     }}
                                   >
                                     {sentence}
+                                    {openCommentsBySentence.has(idx) && (
+                                      <span
+                                        className="inline-flex items-center gap-0.5 ml-1 align-super text-[10px] text-[#3B82F6]"
+                                        title="Reviewer comments"
+                                      >
+                                        <MessageSquare className="h-2.5 w-2.5" />
+                                        {openCommentsBySentence.get(idx)}
+                                      </span>
+                                    )}
                                   </span>
                                   {showNoFeedback && (
                                     <motion.div
@@ -2354,8 +2642,25 @@ export default function RunPage() {
               </Card>
             </motion.div>
 
+            {/* Partial analysis: some stages failed but the rest were saved */}
+            {run.status === 'analyzed' && run.analysis_stages && (() => {
+              const failedLabels = Object.entries(run.analysis_stages)
+                .filter(([, state]) => state?.status === 'failed')
+                .map(([stage]) => ANALYSIS_STAGE_LABELS[stage] || stage)
+              if (failedLabels.length === 0) return null
+              return (
+                <Card>
+                  <div className="flex items-start gap-3 p-4 bg-[#1A1F2E] border border-[#F59E0B]/30 rounded-lg">
+                    <p className="text-sm text-[#E5E7EB]">
+                      Some feedback couldn't be generated ({failedLabels.join(', ')}). The rest of your results are below.
+                    </p>
+                  </div>
+                </Card>
+              )
+            })()}
+
             {/* Missing Analysis Placeholder */}
-            {run.transcript && !run.analysis_json?.summary && (
+            {run.transcript && !run.analysis_json?.summary && !run.analysis_json?.qa_grade && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -2384,6 +2689,32 @@ export default function RunPage() {
                             return 'Generating feedback...'
                           })()}
                         </p>
+                        {run.analysis_stages && Object.keys(run.analysis_stages).length > 0 && (
+                          <ul className="mt-4 inline-flex flex-col items-start gap-1.5 text-sm">
+                            {Object.entries(ANALYSIS_STAGE_LABELS)
+                              .filter(([stage]) => (stage === 'qa_grade') === (run.run_type === 'qa_answer'))
+                              .filter(([stage]) => stage !== 'audience_reaction' || !!run.persona_snapshot)
+                              .map(([stage, label]) => {
+                                const stageStatus = run.analysis_stages?.[stage]?.status
+                                return (
+                                  <li key={stage} className="flex items-center gap-2">
+                                    {stageStatus === 'succeeded' ? (
+                                      <Check className="h-4 w-4 text-[#22C55E]" />
+                                    ) : stageStatus === 'running' ? (
+                                      <LoadingSpinner size="sm" />
+                                    ) : stageStatus === 'failed' ? (
+                                      <span className="h-4 w-4 text-center leading-4 text-[#F97316]">!</span>
+                                    ) : (
+                                      <span className="h-4 w-4 rounded-full border border-[#374151]" />
+                                    )}
+                                    <span className={stageStatus === 'succeeded' ? 'text-[#E5E7EB]' : 'text-[#9CA3AF]'}>
+                                      {label}
+                                    </span>
+                                  </li>
+                                )
+                              })}
+                          </ul>
+                        )}
                         {showTimeoutMessage && (
                           <div className="mt-4 p-3 bg-[#1A1F2E] border border-[#F59E0B]/30 rounded-lg">
                             <p className="text-sm text-[#E5E7EB]">
@@ -2476,17 +2807,36 @@ export default function RunPage() {
                               ? findMatchingRewrite(item.quote, fillerWordsData.top_sentences)
                               : null
                             
+                            // Reviewer threads on this feedback's sentence
+                            const itemThreads = commentThreads.filter(thread =>
+                              thread.sentence_index !== null && commentFeedbackIdx.get(thread.sentence_index) === idx
+                            )
+                            
                             return (
-                              <LineByLineItem
-                                key={idx}
-                                idx={idx}
-                                item={item}
-                                typeColors={typeColors}
-                                priorityColors={priorityColors}
-                                isHighlighted={isHighlighted}
-                                fillerWordsForQuote={fillerWordsForQuote}
-                                matchingRewrite={matchingRewrite}
-                              />
+                              <div key={idx} className="space-y-2">
+                                <LineByLineItem
+                                  idx={idx}
+                                  item={item}
+                                  typeColors={typeColors}
+                                  priorityColors={priorityColors}
+                                  isHighlighted={isHighlighted}
+                                  fillerWordsForQuote={fillerWordsForQuote}
+                                  matchingRewrite={matchingRewrite}
+                                />
+                                {itemThreads.map(thread => (
+                                  <div key={thread.id} className="ml-6">
+                                    <CommentThread
+                                      runId={run.id}
+                                      thread={thread}
+                                      viewerId={commentViewerId}
+                                      isRunOwner={run.user_id === commentViewerId}
+                                      showQuote={false}
+                                      onSeek={seekAudio}
+                                      onChanged={fetchComments}
+                                    />
+                                  </div>
+                                ))}
+                              </div>
                             )
                           })}
                           
@@ -2545,6 +2895,30 @@ export default function RunPage() {
               </motion.div>
             )}
 
+            {/* Reviewer comments: the owner and their coaches annotate sentences or audio ranges */}
+            {commentViewerId && (transcript.trim().length > 0 || run.audio_url || audioUrl) && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.4, delay: 0.1, ease: "easeOut" }}
+              >
+                <Card>
+                  <SectionHeader title="Reviewer Comments" />
+                  <RunComments
+                    runId={run.id}
+                    threads={otherCommentThreads}
+                    viewerId={commentViewerId}
+                    isRunOwner={run.user_id === commentViewerId}
+                    sentences={splitIntoSentences(transcript)}
+                    selectedSentenceIdx={selectedSentenceIdx}
+                    getCurrentTime={audioElement ? () => audioElement.currentTime : undefined}
+                    onSeek={seekAudio}
+                    onChanged={fetchComments}
+                  />
+                </Card>
+              </motion.div>
+            )}
+
             {/* Feedback Summary - Visible to All Users */}
             {run.analysis_json?.summary && (
               <motion.div
@@ -2584,21 +2958,6 @@ export default function RunPage() {
                         </ul>
                       </div>
                     )}
-
-                    {/* Focus */}
-                    {run.analysis_json.summary.focus_areas && run.analysis_json.summary.focus_areas.length > 0 && (
-                      <div>
-                        <h4 className="text-sm font-semibold text-[#F59E0B] mb-3 uppercase tracking-wide">Focus</h4>
-                        <ul className="space-y-2">
-                          {run.analysis_json.summary.focus_areas.map((focus: string, idx: number) => (
-                            <li key={idx} className="flex items-start gap-2 text-sm text-[#E5E7EB]">
-                              <span className="text-[#F59E0B] mt-0.5">•</span>
-                              <span>{focus.replace(/^["']|["']$/g, '').trim()}</span>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
                   </div>
                 </Card>
               </motion.div>
@@ -2824,7 +3183,7 @@ export default function RunPage() {
                 <div className="flex flex-wrap gap-3">
                   <StatPill label="Duration" value={formatDuration(run.duration_ms ? run.duration_ms / 1000 : run.audio_seconds)} />
                   <StatPill label="Word Count" value={run.word_count !== null && run.word_count !== undefined ? run.word_count.toLocaleString() : null} />
-                  <StatPill label="WPM" value={run.words_per_minute !== null && run.words_per_minute !== undefined ? run.words_per_minute : null} />
+                  <StatPill label={rateLabel} value={run.words_per_minute !== null && run.words_per_minute !== undefined ? run.words_per_minute : null} />
                   {(run.rubric_snapshot_json?.target_duration_seconds || run.rubrics?.target_duration_seconds) && (
                     <StatPill 
                       label="Target" 
@@ -2902,6 +3261,24 @@ export default function RunPage() {
               </Card>
             </motion.div>
 
+            {/* Share links - owner only (the panel hides itself for anyone else) */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.4, delay: 0.15, ease: "easeOut" }}
+            >
+              <ShareRunPanel runId={run.id} hasAudio={!!run.audio_path} />
+            </motion.div>
+
+            {/* Reviewer invites - owner only (the panel hides itself for anyone else) */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.4, delay: 0.15, ease: "easeOut" }}
+            >
+              <RunReviewersPanel runId={run.id} />
+            </motion.div>
+
             {/* Compare Attempts - Only for Coach + Day Pass */}
             {(userPlan === 'coach' || userPlan === 'day_pass') && (
               <motion.div
@@ -0,0 +1,295 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { getSessionId } from '@/lib/session'
+import type {
+  ComparedRun,
+  CriterionChange,
+  IssueChange,
+  MetricChange,
+  RunComparison,
+  TranscriptDiffRow,
+} from '@/lib/compare'
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—'
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function formatChange(change: number | null, unit = ''): string {
+  if (change === null) return ''
+  return `${change > 0 ? '+' : ''}${change}${unit}`
+}
+
+// Whether a change is good news: higher is better for scores, lower for fillers
+function changeColor(change: number | null, higherIsBetter: boolean | null): string {
+  if (change === null || change === 0 || higherIsBetter === null) return 'text-[#9CA3AF]'
+  return (change > 0) === higherIsBetter ? 'text-[#22C55E]' : 'text-[#EF4444]'
+}
+
+function runLabel(run: ComparedRun, which: string): string {
+  return `${which}: ${run.title || 'Untitled'} · ${new Date(run.created_at).toLocaleString()}`
+}
+
+function MetricRow({ label, value, format = v => String(v), unit = '', higherIsBetter = null }: {
+  label: string
+  value: MetricChange
+  format?: (value: number) => string
+  unit?: string
+  higherIsBetter?: boolean | null
+}) {
+  return (
+    <div className="flex items-center justify-between p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+      <span className="text-xs text-[#9CA3AF]">{label}</span>
+      <span className="text-sm text-[#E5E7EB]">
+        {value.before !== null ? format(value.before) : '—'} → {value.after !== null ? format(value.after) : '—'}
+        {value.change !== null && (
+          <span className={`ml-2 text-xs ${changeColor(value.change, higherIsBetter)}`}>
+            {formatChange(value.change, unit)}
+          </span>
+        )}
+      </span>
+    </div>
+  )
+}
+
+const CRITERION_STATUS_LABELS: Record<CriterionChange['status'], string> = {
+  improved: 'Improved',
+  declined: 'Declined',
+  unchanged: 'Same',
+  added: 'New criterion',
+  removed: 'Not scored',
+}
+
+const ISSUE_STATUS: Record<IssueChange['status'], { label: string; className: string }> = {
+  fixed: { label: 'Fixed', className: 'text-[#22C55E] border-[#22C55E]/40' },
+  regressed: { label: 'New', className: 'text-[#EF4444] border-[#EF4444]/40' },
+  persisting: { label: 'Still there', className: 'text-[#F59E0B] border-[#F59E0B]/40' },
+}
+
+function DiffCell({ text, emptyLabel, className }: { text: string | null; emptyLabel: string; className: string }) {
+  return text !== null
+    ? <p className={`text-sm ${className}`}>{text}</p>
+    : <p className="text-sm text-[#6B7280] italic">{emptyLabel}</p>
+}
+
+function TranscriptRow({ row }: { row: TranscriptDiffRow }) {
+  const changed = row.type !== 'same'
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 rounded border ${changed ? 'bg-[#1A1F2E] border-[#F59E0B]/30' : 'bg-[#0F1419] border-[#1A1F2E]'}`}>
+      <DiffCell
+        text={row.before}
+        emptyLabel="Not said"
+        className={changed ? 'text-[#FCA5A5]' : 'text-[#9CA3AF]'}
+      />
+      <DiffCell
+        text={row.after}
+        emptyLabel="Dropped"
+        className={changed ? 'text-[#86EFAC]' : 'text-[#9CA3AF]'}
+      />
+    </div>
+  )
+}
+
+function ComparisonView({ comparison }: { comparison: RunComparison }) {
+  const { timing } = comparison
+  const issueOrder: IssueChange['status'][] = ['fixed', 'regressed', 'persisting']
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <Link href={`/runs/${comparison.before.id}`} className="text-[#9CA3AF] hover:text-[#E5E7EB] hover:underline">
+          {runLabel(comparison.before, 'Before')}
+        </Link>
+        <Link href={`/runs/${comparison.after.id}`} className="text-[#9CA3AF] hover:text-[#E5E7EB] hover:underline">
+          {runLabel(comparison.after, 'After')}
+        </Link>
+      </div>
+
+      {comparison.notes.length > 0 && (
+        <Card padding="sm">
+          <ul className="space-y-1 text-sm text-[#E5E7EB]">
+            {comparison.notes.map(note => (
+              <li key={note}>• {note}</li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Scores</h2>
+          <div className="space-y-2">
+            <MetricRow label="Overall" value={comparison.overall_score} higherIsBetter />
+            {comparison.criteria.map(criterion => (
+              <div key={criterion.label} className="flex items-center justify-between p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                <span className="text-xs text-[#9CA3AF]">
+                  {criterion.label}
+                  {criterion.missing_after && <span className="ml-2 text-[#EF4444]">(missing)</span>}
+                </span>
+                <span className="text-sm text-[#E5E7EB]">
+                  {criterion.before ?? '—'} → {criterion.after ?? '—'}
+                  <span className={`ml-2 text-xs ${changeColor(criterion.change, true)}`}>
+                    {criterion.change !== null && criterion.change !== 0
+                      ? formatChange(criterion.change)
+                      : CRITERION_STATUS_LABELS[criterion.status]}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card>
+          <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Timing</h2>
+          <div className="space-y-2">
+            <MetricRow label="Duration" value={timing.duration_sec} format={formatDuration} unit="s" />
+            <MetricRow label="Pace (wpm)" value={timing.words_per_minute} />
+            <MetricRow label="Words" value={timing.word_count} />
+            <MetricRow label="Filler words" value={timing.filler_total} higherIsBetter={false} />
+            {(timing.target_seconds !== null || timing.max_seconds !== null) && (
+              <p className="text-xs text-[#9CA3AF] pt-1">
+                {timing.target_seconds !== null && `Target ${formatDuration(timing.target_seconds)}`}
+                {timing.target_seconds !== null && timing.max_seconds !== null && ' · '}
+                {timing.max_seconds !== null && `Max ${formatDuration(timing.max_seconds)}`}
+              </p>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <Card>
+        <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Line-by-line issues</h2>
+        {comparison.issues.length === 0 ? (
+          <p className="text-sm text-[#9CA3AF]">Neither run has line-by-line issues.</p>
+        ) : (
+          <div className="space-y-2">
+            {issueOrder.flatMap(status => comparison.issues.filter(issue => issue.status === status)).map((issue, idx) => {
+              const item = issue.after || issue.before!
+              const { label, className } = ISSUE_STATUS[issue.status]
+              return (
+                <div key={idx} className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded border ${className}`}>{label}</span>
+                    <span className="text-xs text-[#6B7280]">“{item.quote}”</span>
+                  </div>
+                  <p className="text-sm text-[#E5E7EB]">{item.comment}</p>
+                  {issue.status === 'persisting' && issue.before && issue.before.comment !== item.comment && (
+                    <p className="text-xs text-[#6B7280] mt-1">Before: {issue.before.comment}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="flex items-baseline justify-between mb-3">
+          <h2 className="text-lg font-semibold text-[#E5E7EB]">Transcripts</h2>
+          {comparison.transcript && (
+            <span className="text-xs text-[#9CA3AF]">{comparison.transcript.similarity}% the same words</span>
+          )}
+        </div>
+        {!comparison.transcript ? (
+          <p className="text-sm text-[#9CA3AF]">Both runs need a transcript to compare what was said.</p>
+        ) : (
+          <>
+            <div className="hidden sm:grid grid-cols-2 gap-3 mb-2 text-xs font-semibold text-[#9CA3AF]">
+              <span>Before</span>
+              <span>After</span>
+            </div>
+            <div className="space-y-2 max-h-[40rem] overflow-y-auto pr-1">
+              {comparison.transcript.rows.map((row, idx) => (
+                <TranscriptRow key={idx} row={row} />
+              ))}
+            </div>
+            {comparison.transcript.truncated && (
+              <p className="text-xs text-[#6B7280] mt-2">Long transcripts are compared up to a word limit.</p>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+function CompareRunsContent() {
+  const searchParams = useSearchParams()
+  const ids = searchParams.get('ids') || ''
+  const [comparison, setComparison] = useState<RunComparison | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    fetch(`/api/runs/compare?ids=${encodeURIComponent(ids)}&session_id=${encodeURIComponent(getSessionId())}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok) {
+          setError(data.error || 'Failed to compare runs')
+          return
+        }
+        setComparison(data.comparison)
+      })
+      .catch(err => {
+        console.error('Failed to compare runs:', err)
+        setError('Failed to compare runs')
+      })
+      .finally(() => setLoading(false))
+  }, [ids])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20 bg-[#0E1117]">
+        <LoadingSpinner size="lg" text="Comparing runs..." />
+      </div>
+    )
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[#0E1117]">
+        <Card className="max-w-2xl w-full text-center">
+          <h1 className="text-2xl font-bold text-[#E5E7EB] mb-4">Error</h1>
+          <p className="text-[#9CA3AF] mb-6">{error || 'Runs not found'}</p>
+          <Link href="/app">
+            <Button variant="primary">
+              Back to Home
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0E1117] py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-2xl font-bold text-[#E5E7EB] mb-4">Compare takes</h1>
+        <ComparisonView comparison={comparison} />
+      </div>
+    </div>
+  )
+}
+
+// Two runs side by side (/runs/compare?ids=<id>,<id>)
+export default function CompareRunsPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center py-20 bg-[#0E1117]">
+        <LoadingSpinner size="lg" text="Comparing runs..." />
+      </div>
+    }>
+      <CompareRunsContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { Badge } from '@/components/ui/Badge'
+import { getSessionId } from '@/lib/session'
+import type { PracticeSession, PracticeSessionSummary } from '@/lib/practice-sessions'
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—'
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Summary of a practice session: every take's scores side by side, best take highlighted
+export default function PracticeSessionPage() {
+  const params = useParams()
+  const id = params.id as string
+  const [session, setSession] = useState<PracticeSession | null>(null)
+  const [summary, setSummary] = useState<PracticeSessionSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/practice-sessions/${id}?session_id=${encodeURIComponent(getSessionId())}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok) {
+          setError(data.error || 'Failed to load practice session')
+          return
+        }
+        setSession(data.session)
+        setSummary(data.summary)
+      })
+      .catch(err => {
+        console.error('Failed to load practice session:', err)
+        setError('Failed to load practice session')
+      })
+      .finally(() => setLoading(false))
+  }, [id])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20 bg-[#0E1117]">
+        <LoadingSpinner size="lg" text="Loading practice session..." />
+      </div>
+    )
+  }
+
+  if (error || !session || !summary) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[#0E1117]">
+        <Card className="max-w-2xl w-full text-center">
+          <h1 className="text-2xl font-bold text-[#E5E7EB] mb-4">Error</h1>
+          <p className="text-[#9CA3AF] mb-6">{error || 'Practice session not found'}</p>
+          <Link href="/app">
+            <Button variant="primary">
+              Back to Home
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    )
+  }
+
+  const title = session.title || summary.takes[0]?.title || 'Practice session'
+
+  return (
+    <div className="min-h-screen bg-[#0E1117] py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-[#E5E7EB]">{title}</h1>
+            <p className="text-sm text-[#9CA3AF] mt-1">
+              {summary.take_count} {summary.take_count === 1 ? 'take' : 'takes'}
+              {summary.average_score !== null && ` · average score ${summary.average_score}`}
+              {session.persona_snapshot && ` · for ${session.persona_snapshot.name}`}
+            </p>
+          </div>
+          <Link href={`/app/practice?practice_session=${session.id}`}>
+            <Button variant="primary">Record another take</Button>
+          </Link>
+        </div>
+
+        {summary.notes.length > 0 && (
+          <Card padding="sm">
+            <ul className="space-y-1 text-sm text-[#E5E7EB]">
+              {summary.notes.map(note => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        <Card padding="none">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#9CA3AF] border-b border-[#22283A]">
+                  <th className="px-4 py-3 font-medium">Take</th>
+                  <th className="px-4 py-3 font-medium">Score</th>
+                  <th className="px-4 py-3 font-medium">Duration</th>
+                  <th className="px-4 py-3 font-medium">WPM</th>
+                  <th className="px-4 py-3 font-medium">Fillers</th>
+                  {summary.criteria.map(criterion => (
+                    <th key={criterion} className="px-4 py-3 font-medium">{criterion}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {summary.takes.map((take, index) => (
+                  <tr
+                    key={take.id}
+                    className={`border-b border-[#1A1F2E] ${take.is_best ? 'bg-[#22C55E]/10' : ''}`}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <Link href={`/runs/${take.id}`} className="text-[#E5E7EB] hover:underline">
+                        Take {take.take_number}
+                      </Link>
+                      {take.is_best && <Badge variant="success" size="sm" className="ml-2">Best</Badge>}
+                      <p className="text-xs text-[#6B7280]">{new Date(take.created_at).toLocaleString()}</p>
+                      {index > 0 && (
+                        <Link
+                          href={`/runs/compare?ids=${summary.takes[index - 1].id},${take.id}`}
+                          className="text-xs text-[#9CA3AF] hover:text-[#E5E7EB] underline underline-offset-2"
+                        >
+                          Compare with take {take.take_number - 1}
+                        </Link>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {take.overall_score !== null ? (
+                        <span className={`font-semibold ${scoreColor(take.overall_score)}`}>{take.overall_score}</span>
+                      ) : (
+                        <span className="text-[#6B7280]">{take.status === 'error' ? 'Failed' : 'Pending'}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-[#E5E7EB]">{formatDuration(take.duration_sec)}</td>
+                    <td className="px-4 py-3 text-[#E5E7EB]">{take.words_per_minute ?? '—'}</td>
+                    <td className="px-4 py-3 text-[#E5E7EB]">{take.filler_total ?? '—'}</td>
+                    {summary.criteria.map(criterion => (
+                      <td key={criterion} className="px-4 py-3">
+                        {criterion in take.rubric_scores ? (
+                          <span className={scoreColor(take.rubric_scores[criterion])}>{take.rubric_scores[criterion]}</span>
+                        ) : (
+                          <span className="text-[#6B7280]">—</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+
+        <Card>
+          <h2 className="text-lg font-semibold text-[#E5E7EB] mb-3">Recurring issues</h2>
+          {summary.recurring_issues.length === 0 ? (
+            <p className="text-sm text-[#9CA3AF]">
+              {summary.analyzed_count < 2
+                ? 'Record and analyze at least two takes to see what keeps coming up.'
+                : 'Nothing has come up in more than one take.'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {summary.recurring_issues.map(issue => (
+                <li key={issue.key} className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-sm font-medium text-[#E5E7EB]">{issue.label}</p>
+                    <p className="text-xs text-[#9CA3AF] shrink-0">
+                      Takes {issue.takes.join(', ')}
+                    </p>
+                  </div>
+                  <p className="text-xs text-[#9CA3AF] mt-1">{issue.detail}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
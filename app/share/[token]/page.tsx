@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { SectionHeader } from '@/components/ui/SectionHeader'
+import { Badge } from '@/components/ui/Badge'
+import { AudienceReactionCard } from '@/components/AudienceReactionCard'
+import type { SharedRun } from '@/lib/share'
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function formatDuration(run: SharedRun): string | null {
+  const seconds = run.audio_seconds ?? (run.duration_ms !== null ? run.duration_ms / 1000 : null)
+  if (seconds === null) return null
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.round(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Public, read-only view of a shared run (/share/<token>); no account needed
+export default function SharedRunPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [run, setRun] = useState<SharedRun | null>(null)
+  const [expiresAt, setExpiresAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/share/${encodeURIComponent(token)}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok) {
+          setError(data.error || 'Failed to load shared run')
+          return
+        }
+        setRun(data.run)
+        setExpiresAt(data.expires_at)
+      })
+      .catch(err => {
+        console.error('Failed to load shared run:', err)
+        setError('Failed to load shared run')
+      })
+      .finally(() => setLoading(false))
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20 bg-[#0E1117]">
+        <LoadingSpinner size="lg" text="Loading shared pitch..." />
+      </div>
+    )
+  }
+
+  if (error || !run) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[#0E1117]">
+        <Card className="max-w-2xl w-full text-center">
+          <h1 className="text-2xl font-bold text-[#E5E7EB] mb-4">Link unavailable</h1>
+          <p className="text-[#9CA3AF] mb-6">{error || 'Run not found'}</p>
+          <Link href="/">
+            <Button variant="primary">
+              Go to PitchPractice
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    )
+  }
+
+  const analysis = run.analysis_json
+  const duration = formatDuration(run)
+
+  return (
+    <div className="min-h-screen bg-[#0E1117] py-8 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Badge variant="info" size="sm">Shared pitch</Badge>
+            {expiresAt && (
+              <span className="text-xs text-[#6B7280]">Link expires {new Date(expiresAt).toLocaleDateString()}</span>
+            )}
+          </div>
+          <h1 className="text-2xl font-bold text-[#E5E7EB]">{run.title || 'Untitled pitch'}</h1>
+          <p className="text-sm text-[#9CA3AF] mt-1">
+            {new Date(run.created_at).toLocaleDateString()}
+            {duration && ` · ${duration}`}
+            {run.words_per_minute !== null && ` · ${run.words_per_minute} wpm`}
+            {run.rubric_name && ` · ${run.rubric_name}`}
+            {run.persona_name && ` · for ${run.persona_name}`}
+          </p>
+        </div>
+
+        {run.pitch_context && (
+          <Card padding="sm">
+            <p className="text-xs font-semibold text-[#9CA3AF] uppercase tracking-wide mb-1">Context</p>
+            <p className="text-sm text-[#E5E7EB] whitespace-pre-wrap">{run.pitch_context}</p>
+          </Card>
+        )}
+
+        {run.audio_url && (
+          <Card padding="sm">
+            <audio controls src={run.audio_url} className="w-full" />
+          </Card>
+        )}
+
+        {!analysis?.summary && (
+          <Card>
+            <p className="text-sm text-[#9CA3AF]">This pitch hasn&apos;t been analyzed yet.</p>
+          </Card>
+        )}
+
+        {analysis?.summary && (
+          <Card>
+            <SectionHeader title="Feedback Summary" />
+            <div className="flex items-baseline gap-3 mb-4">
+              <span className={`text-4xl font-bold ${scoreColor(analysis.summary.overall_score)}`}>
+                {analysis.summary.overall_score}
+              </span>
+              <span className="text-sm text-[#9CA3AF]">/ 10 overall</span>
+            </div>
+            {analysis.summary.overall_notes && (
+              <p className="text-sm text-[#E5E7EB] mb-4">{analysis.summary.overall_notes}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {analysis.summary.top_strengths.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-[#22C55E] mb-2 uppercase tracking-wide">What&apos;s Working</h4>
+                  <ul className="space-y-1 text-sm text-[#E5E7EB]">
+                    {analysis.summary.top_strengths.map((strength, idx) => (
+                      <li key={idx}>• {strength}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {analysis.summary.top_improvements.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-[#F97316] mb-2 uppercase tracking-wide">What to Improve</h4>
+                  <ul className="space-y-1 text-sm text-[#E5E7EB]">
+                    {analysis.summary.top_improvements.map((improvement, idx) => (
+                      <li key={idx}>• {improvement}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {analysis?.rubric_scores && analysis.rubric_scores.length > 0 && (
+          <Card>
+            <SectionHeader title="Rubric Scores" />
+            <div className="space-y-3">
+              {analysis.rubric_scores.map(score => (
+                <div key={score.criterion_id} className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-[#E5E7EB]">{score.criterion_label}</span>
+                    <span className={`text-sm font-semibold ${scoreColor(score.score)}`}>{score.score}/10</span>
+                  </div>
+                  {score.notes && <p className="text-xs text-[#9CA3AF] mt-1">{score.notes}</p>}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {analysis?.audience_reaction && (
+          <AudienceReactionCard reaction={analysis.audience_reaction} />
+        )}
+
+        {analysis?.line_by_line && analysis.line_by_line.length > 0 && (
+          <Card>
+            <SectionHeader title="Line-by-Line Feedback" />
+            <div className="space-y-3">
+              {analysis.line_by_line.map((item, idx) => (
+                <div
+                  key={idx}
+                  className={`p-3 rounded border ${item.type === 'strength' ? 'bg-green-500/10 border-green-500/30' : 'bg-red-500/10 border-red-500/30'}`}
+                >
+                  {item.quote && <p className="text-xs text-[#9CA3AF] italic mb-1">“{item.quote}”</p>}
+                  <p className="text-sm text-[#E5E7EB]">{item.comment}</p>
+                  {item.action && <p className="text-xs text-[#9CA3AF] mt-1">→ {item.action}</p>}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {run.transcript && (
+          <Card>
+            <SectionHeader title="Transcript" />
+            <p className="text-sm text-[#E5E7EB] whitespace-pre-wrap leading-relaxed">{run.transcript}</p>
+          </Card>
+        )}
+
+        <p className="text-center text-xs text-[#6B7280]">
+          Practiced with <Link href="/" className="underline">PitchPractice</Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { getSessionId } from '@/lib/session'
+import { applyRunEvent, waitForRunStatus, type RunEvent } from '@/lib/run-status'
+import type { AnalysisJson } from '@/lib/analysis'
 import { createClient } from '@/lib/supabase/client-auth'
 import { Card } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
@@ -41,7 +43,7 @@ interface Run {
   id: string
   status: string
   transcript: string | null
-  analysis_json: any
+  analysis_json: AnalysisJson | null
   audio_url: string | null
   audio_seconds: number | null
   duration_ms: number | null
@@ -49,16 +51,6 @@ interface Run {
   words_per_minute: number | null
 }
 
-interface Feedback {
-  summary?: {
-    overall_score?: number
-    overall_notes?: string
-    top_strengths?: string[]
-    top_improvements?: string[]
-  }
-  [key: string]: any
-}
-
 const PROMPTS = [
   {
     id: 'elevator',
@@ -140,7 +132,7 @@ export default function TryPage() {
   const [hasMicPermission, setHasMicPermission] = useState(false)
   // Store last audio blob for retry
   const lastAudioBlobRef = useRef<{ blob: Blob; fileName: string } | null>(null)
-  const [feedback, setFeedback] = useState<Feedback | null>(null)
+  const [feedback, setFeedback] = useState<AnalysisJson | null>(null)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
@@ -623,15 +615,6 @@ FEEDBACK SUMMARY
       content += `\n`
     }
 
-    // Suggested Focus
-    if (feedbackData.summary?.focus_areas && feedbackData.summary.focus_areas.length > 0) {
-      content += `Suggested Focus:\n`
-      feedbackData.summary.focus_areas.forEach((focus: string) => {
-        content += `  • ${focus.replace(/^["']|["']$/g, '').trim()}\n`
-      })
-      content += `\n`
-    }
-
     // Rubric Breakdown
     if (feedbackData.rubric_scores && feedbackData.rubric_scores.length > 0) {
       content += `${'='.repeat(50)}\n\nRUBRIC BREAKDOWN\n\n`
@@ -1413,41 +1396,32 @@ FEEDBACK SUMMARY
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.message || 'Transcription failed')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || errorData.error || 'Transcription failed')
       }
 
-      const data = await response.json()
+      // Transcription runs in a background job; follow its events until it lands
+      const { run: transcribedRun, jobs } = await waitForRunStatus(runId, ['transcribed'], {
+        sessionId: getSessionId(),
+        onEvent: handleRunEvent,
+      })
       
       if (DEBUG) {
         console.log('[Try] Transcription complete:', { 
           runId, 
-          transcriptLen: data.transcript?.length || 0,
-          hasRun: !!data.run,
-          runStatus: data.run?.status,
+          transcriptLen: transcribedRun.transcript?.length || 0,
+          runStatus: transcribedRun.status,
+          attempts: jobs[0]?.attempts,
         })
       }
       
-      // Update run state immediately from response
-      if (data.ok && data.run) {
-        setRun({ ...data.run, audio_url: run?.audio_url || null })
-        if (DEBUG) {
-          console.log('[Try] Run state updated from transcribe response:', {
-            runId: data.run.id,
-            status: data.run.status,
-            hasTranscript: !!data.run.transcript,
-            transcriptLen: data.run.transcript?.length || 0,
-          })
-        }
-      } else {
-        // Fallback: fetch if response doesn't include run
-        await fetchRun(runId)
-      }
+      // Update run state from the status snapshot
+      setRun(prev => prev ? { ...prev, ...transcribedRun } : prev)
       
       setIsTranscribing(false)
       
       // Auto-start feedback generation if transcript exists
-      if (data.run?.transcript && data.run.transcript.length > 0) {
+      if (transcribedRun.transcript && transcribedRun.transcript.length > 0) {
         setIsGettingFeedback(true) // UI will show "Evaluating..."
         await getFeedback(runId)
       }
@@ -1523,51 +1497,36 @@ FEEDBACK SUMMARY
         throw new Error(`${errorMsg}${details}${fieldsChecked}`)
       }
 
-      // Update run state immediately from response
-      if (responseData?.ok && responseData?.run) {
-        setRun({ ...responseData.run, audio_url: run?.audio_url || null })
-        if (DEBUG) {
-          console.log('[Try] Run state updated from feedback response:', {
-            runId: responseData.run.id,
-            status: responseData.run.status,
-            hasAnalysisJson: !!responseData.run.analysis_json,
-          })
-        }
+      // Analysis runs in a background job; follow its events until it lands
+      const { run: analyzedRun } = await waitForRunStatus(runId, ['analyzed'], {
+        sessionId: getSessionId(),
+        onEvent: handleRunEvent,
+      })
+
+      setRun(prev => prev ? { ...prev, ...analyzedRun } : prev)
+      if (DEBUG) {
+        console.log('[Try] Run state updated from status snapshot:', {
+          runId: analyzedRun.id,
+          status: analyzedRun.status,
+          hasAnalysisJson: !!analyzedRun.analysis_json,
+        })
       }
       
-      // Normalize analysis shape: resp.analysis ?? resp.run?.analysis_json ?? null
-      const normalizedAnalysis = responseData?.analysis ?? responseData?.run?.analysis_json ?? null
+      const normalizedAnalysis = analyzedRun.analysis_json ?? null
       
-      // Store feedback immediately from response
       if (normalizedAnalysis) {
         setFeedback(normalizedAnalysis)
         if (DEBUG) {
-          console.log('[Try] Feedback stored from normalized analysis:', {
+          console.log('[Try] Feedback stored from analysis:', {
             runId,
             hasSummary: !!normalizedAnalysis.summary,
             hasRubricScores: !!normalizedAnalysis.rubric_scores,
             hasLineByLine: !!normalizedAnalysis.line_by_line,
           })
         }
-      } else if (responseData?.ok && responseData?.run) {
-        // Run was updated but no analysis in response - it should be in run.analysis_json
-        // This shouldn't happen, but if it does, the run state was already updated above
-        if (DEBUG) {
-          console.warn('[Try] Feedback response missing analysis data but run was updated:', {
-            runId,
-            responseData,
-            hasAnalysis: !!responseData?.analysis,
-            hasRunAnalysisJson: !!responseData?.run?.analysis_json,
-          })
-        }
       } else {
         if (DEBUG) {
-          console.warn('[Try] Feedback response missing analysis data:', {
-            runId,
-            responseData,
-            hasAnalysis: !!responseData?.analysis,
-            hasRunAnalysisJson: !!responseData?.run?.analysis_json,
-          })
+          console.warn('[Try] Analyzed run is missing analysis data:', { runId })
         }
         throw new Error('Feedback generation succeeded but no feedback data in response')
       }
@@ -1621,19 +1580,13 @@ FEEDBACK SUMMARY
     }
   }
 
-  // Poll for run updates during transcription/feedback generation
-  useEffect(() => {
-    if (!run?.id || (!isTranscribing && !isGettingFeedback)) return
-
-    const runId = run.id // Capture run.id to avoid stale closure
-    const interval = setInterval(() => {
-      if (runId) {
-        fetchRun(runId)
-      }
-    }, 2000)
-
-    return () => clearInterval(interval)
-  }, [run?.id, isTranscribing, isGettingFeedback])
+  // Apply streamed run events (status, transcript, analysis sections) during transcription/feedback generation
+  const handleRunEvent = (event: RunEvent) => {
+    if (DEBUG && event.type !== 'ping') {
+      console.log('[Try] Run event:', event.type)
+    }
+    setRun(prev => prev ? applyRunEvent(prev, event) : prev)
+  }
 
   // Handle drag and drop
   const handleDrop = (e: React.DragEvent) => {
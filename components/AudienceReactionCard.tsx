@@ -0,0 +1,77 @@
+'use client'
+
+import React from 'react'
+import type { AnalysisAudienceReaction, AnalysisAudienceSentiment } from '@/lib/analysis'
+
+interface AudienceReactionCardProps {
+  reaction: AnalysisAudienceReaction
+  /** Persona role, shown under the name */
+  role?: string | null
+}
+
+const SENTIMENT_STYLES: Record<AnalysisAudienceSentiment, string> = {
+  positive: 'border-[#22C55E]/40',
+  neutral: 'border-[#374151]',
+  negative: 'border-[#EF4444]/40',
+}
+
+function ListBlock({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null
+  return (
+    <div>
+      <p className="text-xs font-semibold text-[#9CA3AF] mb-1">{title}</p>
+      <ul className="space-y-1">
+        {items.map((item, idx) => (
+          <li key={idx} className="text-sm text-[#E5E7EB]">• {item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+// How the run's audience persona would react (analysis_json.audience_reaction)
+export function AudienceReactionCard({ reaction, role }: AudienceReactionCardProps) {
+  const outcome = reaction.would_advance === null
+    ? { label: 'Could go either way', className: 'text-[#F59E0B]' }
+    : reaction.would_advance
+      ? { label: 'Would take the next step', className: 'text-[#22C55E]' }
+      : { label: 'Would pass', className: 'text-[#EF4444]' }
+
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-[#E5E7EB]">How {reaction.persona || 'this audience'} would react</h3>
+          {role && <p className="text-xs text-[#6B7280] mt-0.5">{role}</p>}
+        </div>
+        <div className="text-right shrink-0">
+          <p className="text-lg font-bold text-[#F59E0B]">{reaction.interest}/10</p>
+          <p className={`text-[10px] ${outcome.className}`}>{outcome.label}</p>
+        </div>
+      </div>
+
+      {reaction.verdict && <p className="text-sm text-[#E5E7EB] italic mb-3">“{reaction.verdict}”</p>}
+      {reaction.first_impression && (
+        <p className="text-sm text-[#9CA3AF] mb-3">
+          <span className="font-semibold text-[#9CA3AF]">First impression: </span>{reaction.first_impression}
+        </p>
+      )}
+
+      {reaction.moments.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {reaction.moments.map((moment, idx) => (
+            <div key={idx} className={`p-3 bg-[#0F1419] rounded border ${SENTIMENT_STYLES[moment.sentiment]}`}>
+              {moment.quote && <p className="text-xs text-[#9CA3AF] mb-1">“{moment.quote}”</p>}
+              <p className="text-sm text-[#E5E7EB]">{moment.reaction}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <ListBlock title="They would ask" items={reaction.likely_objections} />
+        <ListBlock title="What they needed to hear" items={reaction.missing_for_them} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { Check, Circle, Radio } from 'lucide-react'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import {
+  computeLiveCoachMetrics,
+  getLiveCoachHints,
+  type LiveCoachChunk,
+  type LiveCoachRubricItem,
+} from '@/lib/live-coach'
+
+interface LiveCoachOverlayProps {
+  chunks: LiveCoachChunk[]
+  rubricItems: LiveCoachRubricItem[]
+  /** Run language: picks the filler words and pacing norms */
+  language?: string | null
+  isPaused?: boolean
+}
+
+function formatSeconds(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const mins = Math.floor(totalSeconds / 60)
+  const secs = totalSeconds % 60
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Floating panel shown while recording; updates as each live chunk is transcribed
+export function LiveCoachOverlay({ chunks, rubricItems, language, isPaused = false }: LiveCoachOverlayProps) {
+  const metrics = useMemo(() => computeLiveCoachMetrics(chunks, rubricItems, language), [chunks, rubricItems, language])
+  const hints = useMemo(() => getLiveCoachHints(metrics), [metrics])
+  const coveredCount = metrics.sections.filter(section => section.covered).length
+  const pace = metrics.recentWpm ?? metrics.wpm
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 max-w-[calc(100vw-3rem)] p-4 bg-[#11161F]/95 backdrop-blur rounded-xl border border-[#22283A] shadow-2xl">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Radio className={`h-4 w-4 ${isPaused ? 'text-[#9AA4B2]' : 'text-[#F59E0B] animate-pulse'}`} />
+          <h3 className="text-sm font-semibold text-[#E6E8EB]">Live coach</h3>
+        </div>
+        <div className="flex items-center gap-1.5 text-xs text-[#9AA4B2]">
+          {metrics.pendingChunks > 0 && <LoadingSpinner size="sm" />}
+          <span>{metrics.transcribedMs > 0 ? `${formatSeconds(metrics.transcribedMs)} heard` : 'Listening…'}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <div className="p-2 bg-[#151A23] rounded-lg border border-[#22283A] text-center">
+          <p className="text-[10px] uppercase tracking-wide text-[#9AA4B2]">Pace</p>
+          <p className="text-lg font-bold text-[#E6E8EB]">{pace ?? '—'}</p>
+          <p className="text-[10px] text-[#6B7280]">{metrics.pacing.rateLabel.toLowerCase()}</p>
+        </div>
+        <div className="p-2 bg-[#151A23] rounded-lg border border-[#22283A] text-center">
+          <p className="text-[10px] uppercase tracking-wide text-[#9AA4B2]">Fillers</p>
+          <p className="text-lg font-bold text-[#E6E8EB]">{metrics.fillerCount}</p>
+          <p className="text-[10px] text-[#6B7280]">
+            {metrics.fillersPerMinute !== null ? `${metrics.fillersPerMinute}/min` : 'so far'}
+          </p>
+        </div>
+        <div className="p-2 bg-[#151A23] rounded-lg border border-[#22283A] text-center">
+          <p className="text-[10px] uppercase tracking-wide text-[#9AA4B2]">Covered</p>
+          <p className="text-lg font-bold text-[#E6E8EB]">
+            {coveredCount}/{metrics.sections.length}
+          </p>
+          <p className="text-[10px] text-[#6B7280]">sections</p>
+        </div>
+      </div>
+
+      {hints.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {hints.map((hint) => (
+            <li
+              key={hint.message}
+              className={`text-xs px-2 py-1 rounded ${
+                hint.tone === 'good'
+                  ? 'bg-green-500/10 text-green-400'
+                  : 'bg-[#F59E0B]/10 text-[#F59E0B]'
+              }`}
+            >
+              {hint.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {metrics.sections.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {metrics.sections.map((section) => (
+            <li key={section.id} className="flex items-center gap-2 text-xs">
+              {section.covered ? (
+                <Check className="h-3.5 w-3.5 text-green-400 flex-shrink-0" />
+              ) : (
+                <Circle className="h-3.5 w-3.5 text-[#6B7280] flex-shrink-0" />
+              )}
+              <span className={section.covered ? 'text-[#E6E8EB]' : 'text-[#9AA4B2]'}>{section.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {metrics.failedChunks > 0 && (
+        <p className="mt-2 text-[10px] text-red-400">
+          {metrics.failedChunks} segment{metrics.failedChunks === 1 ? '' : 's'} couldn&apos;t be transcribed
+        </p>
+      )}
+    </div>
+  )
+}
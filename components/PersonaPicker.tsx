@@ -0,0 +1,213 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import {
+  PERSONA_EXPERTISE,
+  PERSONA_SKEPTICISM,
+  PERSONA_TONES,
+  type AudiencePersona,
+  type PersonaExpertise,
+  type PersonaSkepticism,
+  type PersonaTone,
+} from '@/lib/personas'
+
+interface PersonaPickerProps {
+  /** Selected persona id, '' for none */
+  value: string
+  onChange: (personaId: string) => void
+  disabled?: boolean
+  /** Saving personas needs an account */
+  canSave: boolean
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-[rgba(255,255,255,0.08)] rounded-lg bg-[rgba(255,255,255,0.03)] text-[#E6E8EB] placeholder:text-[#6B7280] focus:outline-none focus:ring-2 focus:ring-[#F59E0B]/50 focus:border-[#F59E0B]/30 transition-colors disabled:opacity-50'
+
+function lines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(Boolean)
+}
+
+// Audience persona for the next run: built-in ones plus the user's saved personas
+export function PersonaPicker({ value, onChange, disabled = false, canSave }: PersonaPickerProps) {
+  const [personas, setPersonas] = useState<AudiencePersona[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState({
+    name: '',
+    role: '',
+    priorities: '',
+    objections: '',
+    expertise: 'informed' as PersonaExpertise,
+    skepticism: 'medium' as PersonaSkepticism,
+    tone: 'direct' as PersonaTone,
+  })
+
+  useEffect(() => {
+    fetch('/api/personas', { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (!data.ok) return
+        setPersonas(data.personas)
+        setLoaded(true)
+      })
+      .catch(() => setError('Could not load personas'))
+  }, [canSave])
+
+  // A remembered persona may have been deleted, or belong to a signed-out account
+  useEffect(() => {
+    if (loaded && value && !personas.some(persona => persona.id === value)) onChange('')
+  }, [loaded, value, personas, onChange])
+
+  const selected = personas.find(persona => persona.id === value) || null
+
+  const savePersona = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/personas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          role: draft.role,
+          priorities: lines(draft.priorities),
+          objections: lines(draft.objections),
+          expertise: draft.expertise,
+          skepticism: draft.skepticism,
+          tone: draft.tone,
+          // Criteria named after a priority count for more
+          focus: [{ keywords: lines(draft.priorities).map(p => p.toLowerCase()), weight: 1.5 }],
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to save persona')
+      }
+      setPersonas(prev => [...prev, data.persona])
+      onChange(data.persona.id)
+      setIsCreating(false)
+      setDraft(prev => ({ ...prev, name: '', role: '', priorities: '', objections: '' }))
+    } catch (err: any) {
+      setError(err.message || 'Failed to save persona')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const deletePersona = async (persona: AudiencePersona) => {
+    setError(null)
+    const response = await fetch(`/api/personas/${persona.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete persona')
+      return
+    }
+    setPersonas(prev => prev.filter(p => p.id !== persona.id))
+    if (value === persona.id) onChange('')
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label htmlFor="persona-select" className="block text-sm font-medium text-[#9AA4B2]">
+          Audience (optional)
+        </label>
+        {canSave && !isCreating && (
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            disabled={disabled}
+            className="text-xs text-[#F59E0B] hover:text-[#D97706] disabled:opacity-50"
+          >
+            New persona
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          id="persona-select"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="" className="bg-[#121826]">General audience</option>
+          {personas.map(persona => (
+            <option key={persona.id} value={persona.id} className="bg-[#121826]">
+              {persona.name}{persona.built_in ? '' : ' (saved)'}
+            </option>
+          ))}
+        </select>
+        {selected && !selected.built_in && (
+          <button
+            type="button"
+            onClick={() => deletePersona(selected)}
+            disabled={disabled}
+            className="p-2 text-[#6B7280] hover:text-[#EF4444] disabled:opacity-50"
+            aria-label="Delete persona"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {selected && (
+        <p className="text-xs text-[#6B7280] mt-2">
+          {selected.role}{selected.priorities.length > 0 ? ` - listens for ${selected.priorities.slice(0, 3).join(', ').toLowerCase()}.` : ''}
+        </p>
+      )}
+
+      {isCreating && (
+        <div className="mt-3 p-3 space-y-2 rounded-lg border border-[#22283A]">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name, e.g. Series A lead"
+            maxLength={80}
+            className={inputClass}
+          />
+          <input
+            value={draft.role}
+            onChange={(e) => setDraft({ ...draft, role: e.target.value })}
+            placeholder="Who they are, e.g. Partner at a growth fund"
+            maxLength={120}
+            className={inputClass}
+          />
+          <textarea
+            value={draft.priorities}
+            onChange={(e) => setDraft({ ...draft, priorities: e.target.value })}
+            placeholder="What they listen for (one per line)"
+            rows={3}
+            className={inputClass}
+          />
+          <textarea
+            value={draft.objections}
+            onChange={(e) => setDraft({ ...draft, objections: e.target.value })}
+            placeholder="What they push back on (one per line)"
+            rows={2}
+            className={inputClass}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <select value={draft.expertise} onChange={(e) => setDraft({ ...draft, expertise: e.target.value as PersonaExpertise })} className={inputClass} aria-label="Expertise">
+              {PERSONA_EXPERTISE.map(option => <option key={option} value={option} className="bg-[#121826]">{option}</option>)}
+            </select>
+            <select value={draft.skepticism} onChange={(e) => setDraft({ ...draft, skepticism: e.target.value as PersonaSkepticism })} className={inputClass} aria-label="Skepticism">
+              {PERSONA_SKEPTICISM.map(option => <option key={option} value={option} className="bg-[#121826]">{option} skepticism</option>)}
+            </select>
+            <select value={draft.tone} onChange={(e) => setDraft({ ...draft, tone: e.target.value as PersonaTone })} className={inputClass} aria-label="Feedback tone">
+              {PERSONA_TONES.map(option => <option key={option} value={option} className="bg-[#121826]">{option}</option>)}
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsCreating(false)}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={savePersona} isLoading={isSaving} disabled={!draft.name.trim()}>
+              Save persona
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-xs text-[#EF4444] mt-2">{error}</p>}
+    </div>
+  )
+}
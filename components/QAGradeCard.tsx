@@ -0,0 +1,81 @@
+'use client'
+
+import React from 'react'
+import type { AnalysisQAGrade, AnalysisQAScore } from '@/lib/analysis'
+
+interface QAGradeCardProps {
+  grade: AnalysisQAGrade
+  /** Hide the question when it is already shown above the card */
+  showQuestion?: boolean
+}
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'text-[#22C55E]'
+  if (score >= 5) return 'text-[#F59E0B]'
+  return 'text-[#EF4444]'
+}
+
+function Dimension({ label, value }: { label: string; value: AnalysisQAScore }) {
+  return (
+    <div className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+      <div className="flex items-baseline justify-between mb-1">
+        <p className="text-xs text-[#9CA3AF]">{label}</p>
+        <p className={`text-lg font-bold ${scoreColor(value.score)}`}>{value.score}/10</p>
+      </div>
+      <p className="text-xs text-[#E5E7EB]">{value.notes}</p>
+    </div>
+  )
+}
+
+// Grade of one spoken Q&A answer (analysis_json.qa_grade)
+export function QAGradeCard({ grade, showQuestion = true }: QAGradeCardProps) {
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-[#E5E7EB]">Answer Grade</h3>
+          {showQuestion && <p className="text-sm text-[#9CA3AF] mt-1">“{grade.question}”</p>}
+        </div>
+        <div className="text-right shrink-0">
+          <p className={`text-2xl font-bold ${scoreColor(grade.overall_score)}`}>{grade.overall_score}</p>
+          <p className="text-[10px] text-[#6B7280]">
+            {grade.word_count} words{grade.duration_sec !== null ? ` · ${Math.round(grade.duration_sec)}s` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+        <Dimension label="Directness" value={grade.directness} />
+        <Dimension label="Accuracy" value={grade.accuracy} />
+        <Dimension label="Brevity" value={grade.brevity} />
+      </div>
+
+      {grade.strengths.length > 0 && (
+        <div className="mb-2">
+          <p className="text-xs font-semibold text-[#22C55E] mb-1">Worked</p>
+          <ul className="space-y-1">
+            {grade.strengths.map((item, idx) => (
+              <li key={idx} className="text-sm text-[#E5E7EB]">• {item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {grade.improvements.length > 0 && (
+        <div className="mb-2">
+          <p className="text-xs font-semibold text-[#F59E0B] mb-1">Improve</p>
+          <ul className="space-y-1">
+            {grade.improvements.map((item, idx) => (
+              <li key={idx} className="text-sm text-[#E5E7EB]">• {item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {grade.better_answer && (
+        <div className="mt-3 p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+          <p className="text-xs font-semibold text-[#9CA3AF] mb-1">Tighter answer</p>
+          <p className="text-sm text-[#E5E7EB] italic">{grade.better_answer}</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Mic, Square, RefreshCw, MessageCircleQuestion } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { QAGradeCard } from '@/components/QAGradeCard'
+import type { AnalysisJson } from '@/lib/analysis'
+import type { QAQuestion } from '@/lib/qa'
+import { waitForRunStatus } from '@/lib/run-status'
+import { getSessionId } from '@/lib/session'
+import { createClient } from '@/lib/supabase/client-auth'
+
+export interface QAAnswerSummary {
+  id: string
+  status: string
+  error_message: string | null
+  created_at: string
+  qa_question: QAQuestion | null
+  analysis_json: AnalysisJson | null
+}
+
+interface QAPanelProps {
+  runId: string
+  questions: QAQuestion[]
+  answers: QAAnswerSummary[]
+  /** Called once an answer has been graded (reload the run) */
+  onAnswered: () => void
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  clarification: 'Clarification',
+  evidence: 'Evidence',
+  market: 'Market',
+  business_model: 'Business model',
+  competition: 'Competition',
+  team: 'Team',
+  risk: 'Risk',
+  ask: 'The ask',
+  other: 'Question',
+}
+
+async function postJSON(url: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || data.ok === false) {
+    throw new Error(data.details || data.error || `Request failed (${response.status})`)
+  }
+  return data
+}
+
+// Upload a recorded answer and run it through transcription and grading (same pipeline as a pitch)
+async function submitAnswer(
+  parentRunId: string,
+  questionId: string,
+  blob: Blob,
+  durationMs: number,
+  onProgress: (step: string) => void
+): Promise<void> {
+  onProgress('Uploading...')
+  const { runId } = await postJSON(`/api/runs/${parentRunId}/answers`, { question_id: questionId, duration_ms: durationMs })
+
+  const mimeType = blob.type || 'audio/webm'
+  const { storagePath } = await postJSON('/api/uploads/sign', { runId, mimeType })
+  const { error: uploadError } = await createClient().storage
+    .from('pitchpractice-audio')
+    .upload(storagePath, blob, { contentType: mimeType, upsert: false })
+  if (uploadError) {
+    throw new Error(`Upload failed: ${uploadError.message}`)
+  }
+  await postJSON('/api/uploads/complete', { runId, storagePath })
+
+  onProgress('Transcribing...')
+  await postJSON(`/api/runs/${runId}/transcribe`, {})
+  await waitForRunStatus(runId, ['transcribed'], { sessionId: getSessionId() })
+
+  onProgress('Grading...')
+  await postJSON(`/api/runs/${runId}/analyze`, {})
+  await waitForRunStatus(runId, ['analyzed'], { sessionId: getSessionId() })
+}
+
+// Q&A simulation: audience questions for this pitch, answered out loud and graded one by one
+export function QAPanel({ runId, questions: initialQuestions, answers, onAnswered }: QAPanelProps) {
+  const [questions, setQuestions] = useState<QAQuestion[]>(initialQuestions)
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [recordingId, setRecordingId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const startedAtRef = useRef<number>(0)
+
+  // The run reloads after each graded answer; keep questions generated since the last load
+  useEffect(() => {
+    if (initialQuestions.length > 0) setQuestions(initialQuestions)
+  }, [initialQuestions])
+
+  // Release the microphone if the page is left mid-answer
+  useEffect(() => () => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop())
+  }, [])
+
+  const generateQuestions = async (regenerate: boolean) => {
+    setIsGenerating(true)
+    setError(null)
+    try {
+      const data = await postJSON(`/api/runs/${runId}/questions`, { regenerate })
+      setQuestions(data.questions)
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate questions')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const startAnswer = async (questionId: string) => {
+    setError(null)
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const mimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus') ? 'audio/webm;codecs=opus' : 'audio/webm'
+      const recorder = new MediaRecorder(stream, { mimeType })
+      chunksRef.current = []
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data)
+      }
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop())
+        const blob = new Blob(chunksRef.current, { type: 'audio/webm' })
+        const durationMs = Date.now() - startedAtRef.current
+        const setStep = (step: string) => setProgress(prev => ({ ...prev, [questionId]: step }))
+        submitAnswer(runId, questionId, blob, durationMs, setStep)
+          .then(() => onAnswered())
+          .catch((err: any) => setError(err.message || 'Failed to grade answer'))
+          .finally(() => setProgress(({ [questionId]: _done, ...rest }) => rest))
+      }
+      recorderRef.current = recorder
+      startedAtRef.current = Date.now()
+      recorder.start()
+      setRecordingId(questionId)
+    } catch (err: any) {
+      setError(err.message || 'Microphone access failed')
+    }
+  }
+
+  const stopAnswer = () => {
+    recorderRef.current?.stop()
+    recorderRef.current = null
+    setRecordingId(null)
+  }
+
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-[#E5E7EB] flex items-center gap-2">
+            <MessageCircleQuestion className="w-4 h-4 text-[#F59E0B]" />
+            Q&amp;A Practice
+          </h3>
+          <p className="text-xs text-[#9CA3AF] mt-1">
+            Questions your audience is likely to ask. Answer each out loud; answers are graded for directness, accuracy and brevity.
+          </p>
+        </div>
+        {questions.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => generateQuestions(true)} disabled={isGenerating || recordingId !== null}>
+            <RefreshCw className={`w-4 h-4 mr-1 ${isGenerating ? 'animate-spin' : ''}`} />
+            New questions
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-[#EF4444] mb-3">{error}</p>}
+
+      {questions.length === 0 ? (
+        <Button variant="primary" size="sm" onClick={() => generateQuestions(false)} isLoading={isGenerating}>
+          Generate questions
+        </Button>
+      ) : (
+        <div className="space-y-3">
+          {questions.map(question => {
+            const questionAnswers = answers.filter(answer => answer.qa_question?.id === question.id)
+            const latest = questionAnswers[0]
+            const grade = latest?.analysis_json?.qa_grade
+            const step = progress[question.id]
+            const isRecording = recordingId === question.id
+            return (
+              <div key={question.id} className="p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <span className="text-[10px] px-1.5 py-0.5 rounded border text-[#9CA3AF] border-[#374151]">
+                      {CATEGORY_LABELS[question.category] || 'Question'}
+                    </span>
+                    <p className="text-sm text-[#E5E7EB] mt-2">{question.question}</p>
+                    {question.why && <p className="text-xs text-[#6B7280] mt-1">{question.why}</p>}
+                  </div>
+                  <div className="shrink-0">
+                    {step ? (
+                      <span className="text-xs text-[#9CA3AF]">{step}</span>
+                    ) : isRecording ? (
+                      <Button variant="danger" size="sm" onClick={stopAnswer}>
+                        <Square className="w-4 h-4 mr-1" />
+                        Stop
+                      </Button>
+                    ) : (
+                      <Button variant="secondary" size="sm" onClick={() => startAnswer(question.id)} disabled={recordingId !== null}>
+                        <Mic className="w-4 h-4 mr-1" />
+                        {questionAnswers.length > 0 ? 'Answer again' : 'Answer'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {grade && (
+                  <div className="mt-3">
+                    <QAGradeCard grade={grade} showQuestion={false} />
+                    {questionAnswers.length > 1 && (
+                      <p className="text-xs text-[#6B7280] mt-2">
+                        Latest of {questionAnswers.length} attempts.{' '}
+                        {questionAnswers.slice(1).map((answer, idx) => (
+                          <a key={answer.id} href={`/runs/${answer.id}`} className="underline hover:text-[#9CA3AF] mr-2">
+                            Attempt {questionAnswers.length - 1 - idx}
+                          </a>
+                        ))}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {latest && !grade && !step && latest.status === 'error' && (
+                  <p className="text-xs text-[#EF4444] mt-2">Last answer failed: {latest.error_message || 'processing error'}</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+'use client'
+
+import React, { useState } from 'react'
+import { MessageSquare } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { MAX_COMMENT_CHARS, type CommentAnchor, type RunComment, type RunCommentThread } from '@/lib/comments'
+
+async function sendJSON(url: string, method: string, body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || data.ok === false) {
+    throw new Error(data.error || `Request failed (${response.status})`)
+  }
+  return data
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+function anchorLabel(anchor: CommentAnchor): string | null {
+  if (anchor.start_sec === null) return null
+  return anchor.end_sec !== null && anchor.end_sec > anchor.start_sec
+    ? `${formatTime(anchor.start_sec)}–${formatTime(anchor.end_sec)}`
+    : formatTime(anchor.start_sec)
+}
+
+function CommentComposer({ placeholder, submitLabel, onSubmit, onCancel }: {
+  placeholder: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<void>
+  onCancel?: () => void
+}) {
+  const [body, setBody] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async () => {
+    if (!body.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSubmit(body.trim())
+      setBody('')
+    } catch (err: any) {
+      setError(err.message || 'Failed to save comment')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_CHARS}
+        rows={2}
+        className="w-full px-3 py-2 bg-[#0F1419] border border-[#22283A] rounded text-sm text-[#E5E7EB] placeholder-[#6B7280] focus:outline-none focus:border-[#F59E0B] resize-y"
+      />
+      {error && <p className="text-xs text-[#EF4444]">{error}</p>}
+      <div className="flex gap-2">
+        <Button variant="primary" size="sm" onClick={submit} disabled={isSaving || !body.trim()}>
+          {isSaving ? 'Saving...' : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function CommentBody({ comment, canDelete, onDelete }: {
+  comment: RunComment
+  canDelete: boolean
+  onDelete: () => void
+}) {
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs font-medium text-[#E5E7EB]">{comment.author_email || 'Reviewer'}</span>
+        <span className="text-[10px] text-[#6B7280] shrink-0">
+          {new Date(comment.created_at).toLocaleString()}
+          {canDelete && (
+            <button onClick={onDelete} className="ml-2 hover:text-[#EF4444]">Delete</button>
+          )}
+        </span>
+      </div>
+      <p className="text-sm text-[#E5E7EB] whitespace-pre-wrap mt-0.5">{comment.body}</p>
+    </div>
+  )
+}
+
+export interface CommentThreadProps {
+  runId: string
+  thread: RunCommentThread
+  viewerId: string | null
+  isRunOwner: boolean
+  /** Show the anchored sentence (off when the thread sits next to that sentence's feedback) */
+  showQuote?: boolean
+  onSeek?: (sec: number) => void
+  /** Called after any change (reload the threads) */
+  onChanged: () => void
+}
+
+/** One reviewer thread: anchor, comments, reply box and resolve toggle */
+export function CommentThread({ runId, thread, viewerId, isRunOwner, showQuote = true, onSeek, onChanged }: CommentThreadProps) {
+  const [isReplying, setIsReplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const resolved = !!thread.resolved_at
+  const timeLabel = anchorLabel(thread)
+
+  const update = async (method: string, url: string, body?: unknown) => {
+    setError(null)
+    try {
+      await sendJSON(url, method, body)
+      onChanged()
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong')
+    }
+  }
+
+  const remove = (comment: RunComment) => {
+    if (!confirm(comment.parent_id ? 'Delete this reply?' : 'Delete this thread and its replies?')) return
+    update('DELETE', `/api/runs/${runId}/comments/${comment.id}`)
+  }
+
+  return (
+    <div className={`p-3 rounded border ${resolved ? 'bg-[#0F1419] border-[#1A1F2E] opacity-70' : 'bg-[#151A23] border-[#3B82F6]/30'}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <MessageSquare className="h-3.5 w-3.5 text-[#3B82F6]" />
+        {timeLabel && (
+          onSeek ? (
+            <button
+              onClick={() => onSeek(thread.start_sec!)}
+              className="text-xs text-[#3B82F6] hover:underline"
+            >
+              {timeLabel}
+            </button>
+          ) : (
+            <span className="text-xs text-[#9CA3AF]">{timeLabel}</span>
+          )
+        )}
+        {showQuote && thread.quote && (
+          <span className="text-xs text-[#6B7280] truncate">“{thread.quote}”</span>
+        )}
+        {resolved && <span className="ml-auto text-[10px] text-[#22C55E] shrink-0">Resolved</span>}
+      </div>
+
+      <div className="space-y-2">
+        {[thread, ...thread.replies].map(comment => (
+          <CommentBody
+            key={comment.id}
+            comment={comment}
+            canDelete={comment.author_id === viewerId || isRunOwner}
+            onDelete={() => remove(comment)}
+          />
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-[#EF4444] mt-2">{error}</p>}
+
+      {isReplying ? (
+        <div className="mt-3">
+          <CommentComposer
+            placeholder="Reply..."
+            submitLabel="Reply"
+            onSubmit={async body => {
+              await sendJSON(`/api/runs/${runId}/comments`, 'POST', { body, parent_id: thread.id })
+              setIsReplying(false)
+              onChanged()
+            }}
+            onCancel={() => setIsReplying(false)}
+          />
+        </div>
+      ) : (
+        <div className="flex gap-3 mt-2 text-xs">
+          <button onClick={() => setIsReplying(true)} className="text-[#9CA3AF] hover:text-[#E5E7EB]">
+            Reply
+          </button>
+          <button
+            onClick={() => update('PATCH', `/api/runs/${runId}/comments/${thread.id}`, { resolved: !resolved })}
+            className="text-[#9CA3AF] hover:text-[#E5E7EB]"
+          >
+            {resolved ? 'Unresolve' : 'Resolve'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface RunCommentsProps {
+  runId: string
+  /** Threads not already shown next to line-by-line feedback */
+  threads: RunCommentThread[]
+  viewerId: string | null
+  isRunOwner: boolean
+  /** Transcript sentences (as split on the run page) and the one the user clicked */
+  sentences: string[]
+  selectedSentenceIdx: number | null
+  /** Playback position for time-range comments, null without audio */
+  getCurrentTime?: () => number | null
+  onSeek?: (sec: number) => void
+  onChanged: () => void
+}
+
+// How much audio a comment "at the current time" covers
+const TIME_RANGE_SECONDS = 5
+
+/** Reviewer comments: start a thread on the selected sentence or the current audio position */
+export function RunComments({
+  runId,
+  threads,
+  viewerId,
+  isRunOwner,
+  sentences,
+  selectedSentenceIdx,
+  getCurrentTime,
+  onSeek,
+  onChanged,
+}: RunCommentsProps) {
+  const [anchorMode, setAnchorMode] = useState<'sentence' | 'time' | 'run'>('sentence')
+  const [showResolved, setShowResolved] = useState(false)
+
+  const selectedSentence = selectedSentenceIdx !== null ? sentences[selectedSentenceIdx] ?? null : null
+  const resolvedCount = threads.filter(thread => thread.resolved_at).length
+  const visible = showResolved ? threads : threads.filter(thread => !thread.resolved_at)
+
+  const buildAnchor = (): CommentAnchor => {
+    if (anchorMode === 'sentence' && selectedSentence !== null) {
+      return { sentence_index: selectedSentenceIdx, quote: selectedSentence, start_sec: null, end_sec: null }
+    }
+    const now = anchorMode === 'time' ? getCurrentTime?.() ?? null : null
+    if (now !== null) {
+      const start = Math.max(0, now - TIME_RANGE_SECONDS)
+      return { sentence_index: null, quote: null, start_sec: start, end_sec: now }
+    }
+    return { sentence_index: null, quote: null, start_sec: null, end_sec: null }
+  }
+
+  const anchorOptions: Array<{ value: typeof anchorMode; label: string; disabled: boolean }> = [
+    { value: 'sentence', label: 'Selected sentence', disabled: selectedSentence === null },
+    { value: 'time', label: 'Current audio position', disabled: !getCurrentTime },
+    { value: 'run', label: 'Whole run', disabled: false },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-[#9CA3AF]">Comment on:</span>
+          {anchorOptions.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setAnchorMode(option.value)}
+              disabled={option.disabled}
+              className={`px-2 py-1 rounded border transition-colors disabled:opacity-40 ${
+                anchorMode === option.value && !option.disabled
+                  ? 'border-[#3B82F6] text-[#E5E7EB] bg-[#3B82F6]/10'
+                  : 'border-[#22283A] text-[#9CA3AF] hover:text-[#E5E7EB]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {anchorMode === 'sentence' && (
+          <p className="text-xs text-[#6B7280]">
+            {selectedSentence !== null
+              ? `“${selectedSentence}”`
+              : 'Click a sentence in the transcript to comment on it (otherwise the comment is on the whole run).'}
+          </p>
+        )}
+        <CommentComposer
+          placeholder="Leave a note for the speaker..."
+          submitLabel="Comment"
+          onSubmit={async body => {
+            await sendJSON(`/api/runs/${runId}/comments`, 'POST', { body, ...buildAnchor() })
+            onChanged()
+          }}
+        />
+      </div>
+
+      {visible.length > 0 && (
+        <div className="space-y-3">
+          {visible.map(thread => (
+            <CommentThread
+              key={thread.id}
+              runId={runId}
+              thread={thread}
+              viewerId={viewerId}
+              isRunOwner={isRunOwner}
+              onSeek={onSeek}
+              onChanged={onChanged}
+            />
+          ))}
+        </div>
+      )}
+
+      {resolvedCount > 0 && (
+        <button
+          onClick={() => setShowResolved(!showResolved)}
+          className="text-xs text-[#9CA3AF] hover:text-[#E5E7EB]"
+        >
+          {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+        </button>
+      )}
+    </div>
+  )
+}
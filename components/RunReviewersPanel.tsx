@@ -0,0 +1,122 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { UserPlus } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import type { RunReviewer } from '@/lib/comments'
+
+interface RunReviewersPanelProps {
+  runId: string
+}
+
+/** Owner-only: invite people by email to read and comment on the run. Hidden for anyone else. */
+export function RunReviewersPanel({ runId }: RunReviewersPanelProps) {
+  const [reviewers, setReviewers] = useState<RunReviewer[] | null>(null)
+  const [email, setEmail] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/runs/${runId}/reviewers`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => setReviewers(data.ok ? data.reviewers : null))
+      .catch(() => setReviewers(null))
+  }, [runId])
+
+  if (reviewers === null) {
+    return null
+  }
+
+  const inviteReviewer = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/runs/${runId}/reviewers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() }),
+      })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Failed to invite reviewer')
+        return
+      }
+      setReviewers([...reviewers.filter(reviewer => reviewer.id !== data.reviewer.id), data.reviewer])
+      setEmail('')
+    } catch (err) {
+      console.error('[Reviewers] Failed to invite reviewer:', err)
+      setError('Failed to invite reviewer')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeReviewer = async (reviewer: RunReviewer) => {
+    const prompt = reviewer.status === 'pending'
+      ? `Cancel the invite to ${reviewer.email}?`
+      : `Remove ${reviewer.email}? They will no longer be able to open this run. Their comments stay.`
+    if (!confirm(prompt)) return
+    setError(null)
+    try {
+      const response = await fetch(`/api/runs/${runId}/reviewers/${reviewer.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Failed to remove reviewer')
+        return
+      }
+      setReviewers(reviewers.filter(item => item.id !== reviewer.id))
+    } catch (err) {
+      console.error('[Reviewers] Failed to remove reviewer:', err)
+      setError('Failed to remove reviewer')
+    }
+  }
+
+  return (
+    <Card>
+      <h3 className="text-sm font-semibold text-[#E5E7EB] mb-1">Reviewers</h3>
+      <p className="text-xs text-[#9CA3AF] mb-4">
+        People you invite can read this run and comment once they accept.
+      </p>
+      <form onSubmit={inviteReviewer} className="space-y-2">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="reviewer@example.com"
+          className="w-full px-2 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-xs text-[#E5E7EB]"
+        />
+        <Button type="submit" variant="secondary" size="sm" className="w-full" disabled={isSaving || !email.trim()}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          {isSaving ? 'Inviting...' : 'Invite reviewer'}
+        </Button>
+        {error && <p className="text-xs text-[#EF4444]">{error}</p>}
+      </form>
+
+      {reviewers.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {reviewers.map(reviewer => (
+            <li key={reviewer.id} className="p-2 bg-[#0F1419] rounded border border-[#1A1F2E]">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-[#E5E7EB] truncate">{reviewer.email}</span>
+                <button
+                  onClick={() => removeReviewer(reviewer)}
+                  className="text-xs text-[#9CA3AF] hover:text-[#EF4444] shrink-0"
+                >
+                  {reviewer.status === 'pending' ? 'Cancel' : 'Remove'}
+                </button>
+              </div>
+              <p className="text-[10px] text-[#6B7280] mt-0.5">
+                {reviewer.status === 'pending'
+                  ? `Invited ${new Date(reviewer.invited_at).toLocaleDateString()} · pending`
+                  : `Reviewer since ${new Date(reviewer.accepted_at!).toLocaleDateString()}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import React from 'react'
+import type { AnalysisScript, AnalysisScriptRow } from '@/lib/analysis'
+
+interface ScriptComparisonProps {
+  script: AnalysisScript
+}
+
+function rowLabel(row: AnalysisScriptRow): { label: string; className: string } {
+  switch (row.type) {
+    case 'skipped':
+      return { label: 'Skipped', className: 'text-[#EF4444] border-[#EF4444]/40' }
+    case 'reordered':
+      return { label: 'Out of order', className: 'text-[#A78BFA] border-[#A78BFA]/40' }
+    case 'ad_lib':
+      return { label: 'Ad-lib', className: 'text-[#60A5FA] border-[#60A5FA]/40' }
+    default:
+      if (row.fidelity === 'verbatim') return { label: 'As written', className: 'text-[#22C55E] border-[#22C55E]/40' }
+      if (row.fidelity === 'close') return { label: 'Close', className: 'text-[#F59E0B] border-[#F59E0B]/40' }
+      return { label: 'Paraphrased', className: 'text-[#FB923C] border-[#FB923C]/40' }
+  }
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-[#9CA3AF] mb-1">{label}</p>
+      <p className="text-lg font-bold text-[#F59E0B]">{value}</p>
+    </div>
+  )
+}
+
+// Script vs transcript, side by side in the order things were said (analysis_json.script)
+export function ScriptComparison({ script }: ScriptComparisonProps) {
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Script Comparison</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <Metric label="Script delivered" value={`${script.coverage_pct}%`} />
+        <Metric label="Said as written" value={`${script.verbatim_pct}%`} />
+        <Metric label="Fidelity" value={script.fidelity_pct !== null ? `${script.fidelity_pct}%` : 'N/A'} />
+        <Metric label="Skipped / ad-libs" value={`${script.counts.skipped} / ${script.counts.ad_libs}`} />
+      </div>
+
+      {script.notes.length > 0 && (
+        <ul className="space-y-1 mb-4">
+          {script.notes.map((note, idx) => (
+            <li key={idx} className="text-sm text-[#E5E7EB]">• {note}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="hidden sm:grid grid-cols-2 gap-3 mb-2 text-xs font-semibold text-[#9CA3AF]">
+        <span>Script</span>
+        <span>What you said</span>
+      </div>
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+        {script.rows.map((row, idx) => {
+          const { label, className } = rowLabel(row)
+          return (
+            <div key={idx} className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-[#0F1419] rounded border border-[#1A1F2E]">
+              <div className="text-sm">
+                {row.script_text !== null ? (
+                  <p className={row.type === 'skipped' ? 'text-[#E5E7EB] line-through decoration-[#EF4444]/60' : 'text-[#E5E7EB]'}>
+                    {row.script_text}
+                  </p>
+                ) : (
+                  <p className="text-[#6B7280] italic">Not in script</p>
+                )}
+              </div>
+              <div className="text-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded border ${className}`}>{label}</span>
+                  {row.similarity !== null && (
+                    <span className="text-[10px] text-[#6B7280]">{row.similarity}% match</span>
+                  )}
+                </div>
+                {row.transcript_text !== null ? (
+                  <p className="text-[#9CA3AF]">{row.transcript_text}</p>
+                ) : (
+                  <p className="text-[#6B7280] italic">Not said</p>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
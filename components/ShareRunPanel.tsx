@@ -0,0 +1,184 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Copy, Check, Link2 } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Button } from '@/components/ui/Button'
+import type { RunShareLink, ShareLinkStatus, ShareScope } from '@/lib/share'
+
+type ListedShareLink = RunShareLink & { status: ShareLinkStatus }
+
+interface ShareRunPanelProps {
+  runId: string
+  hasAudio: boolean
+}
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  feedback: 'Feedback only',
+  transcript: 'Transcript + feedback',
+  full: 'Everything, with audio',
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null },
+]
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`
+}
+
+function statusLabel(link: ListedShareLink): string {
+  if (link.status === 'revoked') return 'Revoked'
+  if (link.status === 'expired') return 'Expired'
+  return link.expires_at ? `Expires ${new Date(link.expires_at).toLocaleDateString()}` : 'No expiry'
+}
+
+/** Owner-only: create, copy and revoke public read-only links to the run. Hidden for anyone else. */
+export function ShareRunPanel({ runId, hasAudio }: ShareRunPanelProps) {
+  const [links, setLinks] = useState<ListedShareLink[] | null>(null)
+  const [scope, setScope] = useState<ShareScope>('feedback')
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7)
+  const [redactContext, setRedactContext] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/runs/${runId}/share`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => setLinks(data.ok ? data.links : null))
+      .catch(() => setLinks(null))
+  }, [runId])
+
+  if (links === null) {
+    return null
+  }
+
+  const createLink = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/runs/${runId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope, expires_in_days: expiresInDays, redact_context: redactContext }),
+      })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Failed to create link')
+        return
+      }
+      setLinks([data.link, ...links])
+      copyLink(data.link)
+    } catch (err) {
+      console.error('[Share] Failed to create link:', err)
+      setError('Failed to create link')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const revokeLink = async (link: ListedShareLink) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) return
+    setError(null)
+    try {
+      const response = await fetch(`/api/runs/${runId}/share/${link.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.ok) {
+        setError(data.error || 'Failed to revoke link')
+        return
+      }
+      setLinks(links.map(item => item.id === link.id ? { ...item, status: 'revoked' as const, revoked_at: new Date().toISOString() } : item))
+    } catch (err) {
+      console.error('[Share] Failed to revoke link:', err)
+      setError('Failed to revoke link')
+    }
+  }
+
+  const copyLink = (link: ListedShareLink) => {
+    navigator.clipboard.writeText(shareUrl(link.token)).then(() => {
+      setCopiedId(link.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    }).catch(() => {})
+  }
+
+  const selectClass = 'w-full px-2 py-1.5 bg-[#0F1419] border border-[#22283A] rounded text-xs text-[#E5E7EB]'
+
+  return (
+    <Card>
+      <h3 className="text-sm font-semibold text-[#E5E7EB] mb-1">Share</h3>
+      <p className="text-xs text-[#9CA3AF] mb-4">
+        Anyone with the link can view this run without an account.
+      </p>
+      <div className="space-y-2">
+        <select value={scope} onChange={e => setScope(e.target.value as ShareScope)} className={selectClass}>
+          {(Object.keys(SCOPE_LABELS) as ShareScope[]).map(value => (
+            <option key={value} value={value} disabled={value === 'full' && !hasAudio}>
+              {SCOPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={expiresInDays === null ? '' : String(expiresInDays)}
+          onChange={e => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+          className={selectClass}
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.label} value={option.days === null ? '' : String(option.days)}>
+              Expires: {option.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-[#9CA3AF]">
+          <input
+            type="checkbox"
+            checked={redactContext}
+            onChange={e => setRedactContext(e.target.checked)}
+          />
+          Hide my pitch context
+        </label>
+        <Button variant="secondary" size="sm" className="w-full" onClick={createLink} disabled={isSaving}>
+          <Link2 className="mr-2 h-4 w-4" />
+          {isSaving ? 'Creating...' : 'Create link'}
+        </Button>
+        {error && <p className="text-xs text-[#EF4444]">{error}</p>}
+      </div>
+
+      {links.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {links.map(link => {
+            const active = link.status === 'active'
+            return (
+              <li key={link.id} className={`p-2 bg-[#0F1419] rounded border border-[#1A1F2E] ${active ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-[#E5E7EB]">{SCOPE_LABELS[link.scope]}</span>
+                  {active && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() => copyLink(link)}
+                        className="text-[#9CA3AF] hover:text-[#E5E7EB]"
+                        title="Copy link"
+                      >
+                        {copiedId === link.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                      </button>
+                      <button onClick={() => revokeLink(link)} className="text-xs text-[#9CA3AF] hover:text-[#EF4444]">
+                        Revoke
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p className="text-[10px] text-[#6B7280] mt-0.5">
+                  {statusLabel(link)} · {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                  {link.redact_context && ' · context hidden'}
+                </p>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import React from 'react'
+import type { AnalysisSlideAllocation, AnalysisSlides } from '@/lib/analysis'
+
+interface SlideTimelineProps {
+  slides: AnalysisSlides
+  /** Jump the run's player to where a slide was shown */
+  onSeek?: (sec: number) => void
+}
+
+const ALLOCATION_STYLES: Record<AnalysisSlideAllocation, { label: string; bar: string; text: string }> = {
+  skipped: { label: 'Skipped', bar: 'bg-[#6B7280]', text: 'text-[#9CA3AF]' },
+  rushed: { label: 'Rushed', bar: 'bg-[#EF4444]', text: 'text-[#EF4444]' },
+  balanced: { label: 'Balanced', bar: 'bg-[#22C55E]', text: 'text-[#22C55E]' },
+  long: { label: 'Long', bar: 'bg-[#F59E0B]', text: 'text-[#F59E0B]' },
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+// Slide-by-slide timing and coverage for runs recorded with a deck (analysis_json.slides)
+export function SlideTimeline({ slides, onSeek }: SlideTimelineProps) {
+  const allocationBySlide = new Map(slides.slides.map(slide => [slide.slide, slide.allocation]))
+  const firstShown = (slide: number) => slides.timeline.find(visit => visit.slide === slide)?.start_sec
+
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">Slide Timeline</h3>
+
+      {/* Recording-wide strip: one block per time a slide was on screen */}
+      {slides.duration_sec > 0 && (
+        <div className="flex h-6 rounded overflow-hidden mb-4 bg-[#0F1419]">
+          {slides.timeline.map((visit, idx) => {
+            const style = ALLOCATION_STYLES[allocationBySlide.get(visit.slide) || 'balanced']
+            return (
+              <button
+                key={idx}
+                type="button"
+                onClick={() => onSeek?.(visit.start_sec)}
+                disabled={!onSeek}
+                title={`Slide ${visit.slide}: ${formatSeconds(visit.start_sec)}-${formatSeconds(visit.end_sec)}`}
+                className={`${style.bar} border-r border-[#0F1419] last:border-r-0 text-[10px] font-semibold text-[#0B0F14] overflow-hidden hover:opacity-80`}
+                style={{ width: `${((visit.end_sec - visit.start_sec) / slides.duration_sec) * 100}%` }}
+              >
+                {visit.slide}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {slides.notes.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {slides.notes.map((note, idx) => (
+            <li key={idx} className="text-sm text-[#E5E7EB]">• {note}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        {slides.slides.map(slide => {
+          const style = ALLOCATION_STYLES[slide.allocation]
+          const start = firstShown(slide.slide)
+          return (
+            <button
+              key={slide.slide}
+              type="button"
+              onClick={() => start !== undefined && onSeek?.(start)}
+              disabled={!onSeek || start === undefined}
+              className="w-full text-left p-3 bg-[#0F1419] rounded border border-[#1A1F2E] hover:border-[#F59E0B]/40 disabled:hover:border-[#1A1F2E]"
+            >
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <span className="text-sm text-[#E5E7EB] truncate">
+                  <span className="font-mono text-[#F59E0B] mr-2">{slide.slide}</span>
+                  {slide.title || `Slide ${slide.slide}`}
+                </span>
+                <span className="flex items-center gap-3 text-xs shrink-0">
+                  <span className="text-[#9CA3AF]">{formatSeconds(slide.time_sec)} ({slide.share_pct}%)</span>
+                  <span className={style.text}>{style.label}</span>
+                  {slide.match_score !== null && (
+                    <span className="text-[#9CA3AF]">{slide.match_score}% covered</span>
+                  )}
+                </span>
+              </div>
+              {slide.note && <p className="text-xs text-[#9CA3AF]">{slide.note}</p>}
+              {slide.allocation !== 'skipped' && slide.missed_terms.length > 0 && (
+                <p className="text-[10px] text-[#6B7280] mt-1">
+                  Not mentioned: {slide.missed_terms.slice(0, 8).join(', ')}
+                </p>
+              )}
+            </button>
+          )
+        })}
+      </div>
+
+      {slides.timing_source === 'estimated' && (
+        <p className="text-[10px] text-[#6B7280] mt-3">
+          Speech was placed on slides by its position in the transcript, so coverage near slide changes is approximate.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+
+interface SyncedVideoProps {
+  src: string
+  /** The run's audio player; the silent video follows its play, pause, seek and speed */
+  audio: HTMLAudioElement | null
+}
+
+// Re-seek the video when it drifts further than this from the audio
+const MAX_DRIFT_SEC = 0.3
+
+// Video mode playback: the camera recording has no sound of its own, so it is slaved to the audio player
+export function SyncedVideo({ src, audio }: SyncedVideoProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !audio) return
+
+    const align = () => {
+      if (Math.abs(video.currentTime - audio.currentTime) > MAX_DRIFT_SEC) {
+        video.currentTime = audio.currentTime
+      }
+    }
+    const onPlay = () => {
+      align()
+      video.play().catch(() => {})
+    }
+    const onPause = () => video.pause()
+    const onSeek = () => {
+      video.currentTime = audio.currentTime
+    }
+    const onRate = () => {
+      video.playbackRate = audio.playbackRate
+    }
+
+    audio.addEventListener('play', onPlay)
+    audio.addEventListener('pause', onPause)
+    audio.addEventListener('ended', onPause)
+    audio.addEventListener('seeked', onSeek)
+    audio.addEventListener('timeupdate', align)
+    audio.addEventListener('ratechange', onRate)
+    return () => {
+      audio.removeEventListener('play', onPlay)
+      audio.removeEventListener('pause', onPause)
+      audio.removeEventListener('ended', onPause)
+      audio.removeEventListener('seeked', onSeek)
+      audio.removeEventListener('timeupdate', align)
+      audio.removeEventListener('ratechange', onRate)
+    }
+  }, [audio])
+
+  return (
+    <video
+      ref={videoRef}
+      src={src}
+      muted
+      playsInline
+      preload="metadata"
+      className="w-full max-h-80 rounded-lg border border-[#22283A] bg-black mb-3"
+      // Clicking the video drives the audio, which the video then follows
+      onClick={() => {
+        if (!audio) return
+        if (audio.paused) audio.play().catch(() => {})
+        else audio.pause()
+      }}
+    />
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import React from 'react'
+import type { VideoDelivery, VideoDeliveryFlag } from '@/lib/video'
+
+interface VideoDeliveryCardProps {
+  delivery: VideoDelivery
+  /** Jump the run's player to a flagged moment */
+  onSeek?: (sec: number) => void
+}
+
+const FLAG_LABELS: Record<VideoDeliveryFlag['type'], string> = {
+  looking_away: 'Looking away',
+  out_of_frame: 'Out of frame',
+  fidgeting: 'Movement',
+}
+
+const MOVEMENT_LABELS: Record<NonNullable<VideoDelivery['movement']['level']>, string> = {
+  still: 'Very still',
+  natural: 'Natural',
+  restless: 'Restless',
+}
+
+const FACE_SIZE_LABELS: Record<NonNullable<VideoDelivery['framing']['face_size']>, string> = {
+  too_far: 'Too far',
+  good: 'Good',
+  too_close: 'Too close',
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-[#9CA3AF] mb-1">{label}</p>
+      <p className="text-lg font-bold text-[#F59E0B]">{value}</p>
+    </div>
+  )
+}
+
+// On-camera delivery notes for video mode runs (estimates from frames sampled while recording)
+export function VideoDeliveryCard({ delivery, onSeek }: VideoDeliveryCardProps) {
+  return (
+    <div className="p-4 bg-[#151A23] rounded-lg border border-[#22283A]">
+      <h3 className="text-sm font-semibold text-[#E5E7EB] mb-3">On-Camera Delivery</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <Metric label="Facing camera" value={delivery.eye_contact.pct !== null ? `${delivery.eye_contact.pct}%` : 'N/A'} />
+        <Metric label="Movement" value={delivery.movement.level ? MOVEMENT_LABELS[delivery.movement.level] : 'N/A'} />
+        <Metric label="Face in frame" value={`${delivery.framing.face_visible_pct}%`} />
+        <Metric label="Framing" value={delivery.framing.face_size ? FACE_SIZE_LABELS[delivery.framing.face_size] : 'N/A'} />
+      </div>
+
+      {delivery.notes.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {delivery.notes.map((note, idx) => (
+            <li key={idx} className="text-sm text-[#E5E7EB]">• {note}</li>
+          ))}
+        </ul>
+      )}
+
+      {delivery.flags.length > 0 && (
+        <div className="space-y-1">
+          {delivery.flags.map((flag, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => onSeek?.(flag.start_sec)}
+              disabled={!onSeek}
+              className="w-full text-left p-2 bg-[#0F1419] rounded border border-[#1A1F2E] text-xs text-[#9CA3AF] hover:border-[#F59E0B]/40 disabled:hover:border-[#1A1F2E]"
+            >
+              <span className="font-mono text-[#F59E0B] mr-2">{formatSeconds(flag.start_sec)}</span>
+              <span className="text-[#E5E7EB] mr-2">{FLAG_LABELS[flag.type]}</span>
+              {flag.note}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] text-[#6B7280] mt-3">
+        Estimated from frames sampled on your device ({delivery.detector === 'face-detector' ? 'browser face detection' : 'skin-tone tracking'}); no video is sent to outside services.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import type { AnalysisVoice, AnalysisVoiceFlag } from '@/lib/analysis'
+
+interface VoiceTimelineChartProps {
+  voice: AnalysisVoice
+}
+
+const WIDTH = 600
+const HEIGHT = 140
+const PADDING_Y = 10
+
+const FLAG_STYLES: Record<AnalysisVoiceFlag['type'], { fill: string; label: string }> = {
+  monotone: { fill: '#8B5CF6', label: 'Monotone' },
+  trailing_off: { fill: '#F97316', label: 'Trailing off' },
+  energy_drop: { fill: '#EF4444', label: 'Energy drop' },
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+// SVG path through the non-null values; gaps (silence, unvoiced) break the line
+function buildPath(points: Array<{ x: number; value: number | null }>, min: number, max: number): string {
+  const span = max - min || 1
+  let path = ''
+  let penDown = false
+  for (const point of points) {
+    if (point.value === null) {
+      penDown = false
+      continue
+    }
+    const y = HEIGHT - PADDING_Y - ((point.value - min) / span) * (HEIGHT - 2 * PADDING_Y)
+    path += `${penDown ? 'L' : 'M'}${point.x.toFixed(1)},${y.toFixed(1)} `
+    penDown = true
+  }
+  return path.trim()
+}
+
+// Loudness and pitch over the run, with flagged stretches shaded (Coach premium insights)
+export function VoiceTimelineChart({ voice }: VoiceTimelineChartProps) {
+  const duration = Math.max(voice.duration_sec, 1)
+  const toX = (sec: number) => (sec / duration) * WIDTH
+
+  const { loudnessPath, pitchPath } = useMemo(() => {
+    const loudness = voice.timeline.map(point => point.loudness_db).filter((v): v is number => v !== null)
+    const pitch = voice.timeline.map(point => point.pitch_hz).filter((v): v is number => v !== null)
+    const x = (t: number) => ((t + voice.timeline_step_sec / 2) / duration) * WIDTH
+    return {
+      loudnessPath: loudness.length > 0
+        ? buildPath(voice.timeline.map(point => ({ x: x(point.t), value: point.loudness_db })), Math.min(...loudness), Math.max(...loudness))
+        : '',
+      pitchPath: pitch.length > 0
+        ? buildPath(voice.timeline.map(point => ({ x: x(point.t), value: point.pitch_hz })), Math.min(...pitch), Math.max(...pitch))
+        : '',
+    }
+  }, [voice, duration])
+
+  const flagTypes = Array.from(new Set(voice.flags.map(flag => flag.type)))
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-32 bg-[#0F131B] rounded border border-[#22283A]"
+        role="img"
+        aria-label="Loudness and pitch over time"
+      >
+        {voice.flags.map((flag, idx) => (
+          <rect
+            key={idx}
+            x={toX(flag.start_sec)}
+            y={0}
+            width={Math.max(2, toX(flag.end_sec) - toX(flag.start_sec))}
+            height={HEIGHT}
+            fill={FLAG_STYLES[flag.type].fill}
+            opacity={0.18}
+          >
+            <title>{flag.note}</title>
+          </rect>
+        ))}
+        {loudnessPath && <path d={loudnessPath} fill="none" stroke="#F59E0B" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />}
+        {pitchPath && <path d={pitchPath} fill="none" stroke="#38BDF8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />}
+      </svg>
+      <div className="flex justify-between text-[10px] text-[#6B7280] mt-1">
+        <span>0:00</span>
+        <span>{formatSeconds(voice.duration_sec)}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-[#9CA3AF]">
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block w-3 h-0.5 bg-[#F59E0B]" /> Loudness
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block w-3 h-0.5 bg-[#38BDF8]" /> Pitch
+        </span>
+        {flagTypes.map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className="inline-block w-3 h-3 rounded-sm opacity-40" style={{ backgroundColor: FLAG_STYLES[type].fill }} />
+            {FLAG_STYLES[type].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
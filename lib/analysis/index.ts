@@ -0,0 +1,45 @@
+export {
+  ANALYSIS_JSON_SCHEMA,
+  ANALYSIS_LINE_CATEGORIES,
+  ANALYSIS_SCHEMA_VERSION,
+  ANALYSIS_SECTION_SCHEMAS,
+  validateAnalysisJson,
+} from './schema'
+export type {
+  AnalysisAudienceMoment,
+  AnalysisAudienceReaction,
+  AnalysisAudienceSentiment,
+  AnalysisChunk,
+  AnalysisCutSuggestion,
+  AnalysisFillerSource,
+  AnalysisFillerWords,
+  AnalysisJson,
+  AnalysisLineCategory,
+  AnalysisLineItem,
+  AnalysisMeta,
+  AnalysisOutput,
+  AnalysisPacingSegment,
+  AnalysisPauseSuggestion,
+  AnalysisPlan,
+  AnalysisPremium,
+  AnalysisPremiumFiller,
+  AnalysisPremiumInsights,
+  AnalysisQAGrade,
+  AnalysisQAScore,
+  AnalysisQuestionGrade,
+  AnalysisRubricScore,
+  AnalysisScript,
+  AnalysisScriptFidelity,
+  AnalysisScriptRow,
+  AnalysisScriptRowType,
+  AnalysisSection,
+  AnalysisSlide,
+  AnalysisSlideAllocation,
+  AnalysisSlides,
+  AnalysisSummary,
+  AnalysisTiming,
+  AnalysisVoice,
+  AnalysisVoiceFlag,
+  AnalysisVoicePoint,
+} from './schema'
+export { getFillerWordTotal, normalizeAnalysisSections, upgradeAnalysisJson } from './upgrade'
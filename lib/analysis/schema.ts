@@ -0,0 +1,671 @@
+import { validateSchema, type JSONSchema } from '@/lib/llm/json'
+
+/**
+ * Shared, versioned shape of pitch_runs.analysis_json.
+ *
+ * Bump ANALYSIS_SCHEMA_VERSION whenever the stored shape changes and add a step to
+ * ANALYSIS_UPGRADES (./upgrade.ts) so older rows are normalized when read.
+ *
+ * Version history:
+ *   1 - unversioned rows written before meta.schema_version existed
+ *   2 - typed sections; line_by_line categories were free text or missing
+ *   3 - current shape (typed sections below, line_by_line categories from ANALYSIS_LINE_CATEGORIES)
+ */
+export const ANALYSIS_SCHEMA_VERSION = 3
+
+export type AnalysisPlan = 'free' | 'starter' | 'coach' | 'daypass'
+
+export interface AnalysisMeta {
+  schema_version: number
+  plan_at_time?: AnalysisPlan
+  generated_at?: string
+}
+
+export interface AnalysisSummary {
+  overall_score: number
+  overall_notes: string
+  top_strengths: string[]
+  top_improvements: string[]
+}
+
+export interface AnalysisTiming {
+  target_seconds: number | null
+  max_seconds: number | null
+  estimated_seconds: number | null
+  pacing_wpm: number | null
+  notes: string
+}
+
+export interface AnalysisRubricScore {
+  criterion_id: string
+  criterion_label: string
+  score: number
+  notes: string
+  evidence_quotes: string[]
+  missing: boolean
+}
+
+export interface AnalysisQuestionGrade {
+  question: string
+  answered: boolean
+  evidence_quotes: string[]
+  improvement: string | null
+}
+
+export interface AnalysisChunk {
+  text: string
+  purpose: string
+  purpose_label: string
+  score: number | null
+  status: 'strong' | 'needs_work' | 'missing'
+  feedback: string
+  rewrite_suggestion: string | null
+}
+
+// What a line-by-line item is about; cohort analytics group issues by it
+export const ANALYSIS_LINE_CATEGORIES = [
+  'structure',
+  'clarity',
+  'evidence',
+  'audience',
+  'delivery',
+  'timing',
+  'call_to_action',
+  'other',
+] as const
+export type AnalysisLineCategory = (typeof ANALYSIS_LINE_CATEGORIES)[number]
+
+export interface AnalysisLineItem {
+  quote: string
+  type: 'strength' | 'issue'
+  comment: string
+  action: string
+  priority: 'high' | 'medium' | 'low'
+  /** 'other' on rows analyzed before categories (free-form values are mapped onto these) */
+  category: AnalysisLineCategory
+}
+
+export interface AnalysisPauseSuggestion {
+  after_quote: string
+  why: string
+  duration_ms: number
+}
+
+export interface AnalysisCutSuggestion {
+  quote: string
+  why: string
+  replacement: string | null
+}
+
+// Where a filler was found: a word in the transcript, or a filled pause heard in the audio
+export type AnalysisFillerSource = 'transcript' | 'acoustic'
+
+export interface AnalysisFillerWords {
+  total_count: number
+  by_word: Array<{
+    word: string
+    count: number
+    examples: string[]
+    suggestions: string[]
+    /** Missing on rows analyzed before acoustic detection (all transcript) */
+    source?: AnalysisFillerSource
+  }>
+  coaching_notes: string[]
+  /** Sentences rewritten without fillers (only present on upgraded version 1 rows) */
+  top_sentences?: Array<{ sentence: string; rewrite: string }>
+  by_source?: Record<AnalysisFillerSource, number>
+  /** 'standard' transcripts may have had "um"/"uh" cleaned up, undercounting fillers */
+  transcript_mode?: 'verbatim' | 'standard'
+}
+
+export interface AnalysisPacingSegment {
+  label: 'slow' | 'good' | 'fast'
+  start_sec: number | null
+  end_sec: number | null
+  wpm: number | null
+  note: string
+}
+
+// One point of the voice timeline; null where the speaker was silent
+export interface AnalysisVoicePoint {
+  t: number
+  loudness_db: number | null
+  pitch_hz: number | null
+}
+
+export interface AnalysisVoiceFlag {
+  type: 'monotone' | 'trailing_off' | 'energy_drop'
+  start_sec: number
+  end_sec: number
+  note: string
+}
+
+// Acoustic delivery metrics measured from the recording (lib/audio/voice.ts)
+export interface AnalysisVoice {
+  duration_sec: number
+  loudness: {
+    /** Average level while speaking, in dBFS */
+    mean_db: number | null
+    /** Spread between loud and quiet speech (90th - 10th percentile) */
+    range_db: number | null
+  }
+  pitch: {
+    median_hz: number | null
+    min_hz: number | null
+    max_hz: number | null
+    range_semitones: number | null
+    /** Standard deviation around the median; below ~2 sounds monotone */
+    variability_semitones: number | null
+  }
+  timeline_step_sec: number
+  timeline: AnalysisVoicePoint[]
+  flags: AnalysisVoiceFlag[]
+  notes: string[]
+}
+
+export interface AnalysisPremiumInsights {
+  filler_words: AnalysisFillerWords
+  pacing: {
+    wpm_overall: number | null
+    segments: AnalysisPacingSegment[]
+    pauses: {
+      longest_pause_sec: number | null
+      long_pause_count: number
+      notes: string
+    }
+  }
+  structure: {
+    detected_sections: string[]
+    missing_sections: string[]
+    suggested_lines: { [section: string]: string }
+    one_sentence_pitch: string
+  }
+  coaching_plan: {
+    next_attempt_focus: string[]
+    drills: Array<{ title: string; steps: string[] }>
+  }
+  /** Only when the recording could be decoded */
+  voice?: AnalysisVoice
+}
+
+export interface AnalysisPremiumFiller {
+  total: number
+  by_word: Record<string, number>
+  by_source?: Record<AnalysisFillerSource, number>
+  sections: {
+    intro: number
+    middle: number
+    close: number
+  }
+  insight: string
+  drill: {
+    title: string
+    steps: string[]
+  }
+}
+
+export interface AnalysisPremium {
+  signature_insight: string
+  coach_take: string
+  next_focus: string[]
+  filler?: AnalysisPremiumFiller
+}
+
+export type AnalysisSlideAllocation = 'skipped' | 'rushed' | 'balanced' | 'long'
+
+export interface AnalysisSlide {
+  /** 1-based page number in the deck */
+  slide: number
+  title: string | null
+  time_sec: number
+  share_pct: number
+  visits: number
+  allocation: AnalysisSlideAllocation
+  /** Share of the slide's key terms said while it was shown, 0-100 (null for slides without text) */
+  match_score: number | null
+  matched_terms: string[]
+  missed_terms: string[]
+  note: string
+}
+
+// Slide-by-slide alignment of the recording with the run's deck (lib/slides/align.ts)
+export interface AnalysisSlides {
+  slide_count: number
+  duration_sec: number
+  /** How speech was placed on slides: word timestamps, or spread evenly over the recording */
+  timing_source: 'word_timings' | 'estimated'
+  timeline: Array<{ slide: number; start_sec: number; end_sec: number }>
+  slides: AnalysisSlide[]
+  notes: string[]
+}
+
+export type AnalysisScriptRowType = 'match' | 'skipped' | 'reordered' | 'ad_lib'
+
+export type AnalysisScriptFidelity = 'verbatim' | 'close' | 'paraphrased'
+
+export interface AnalysisScriptRow {
+  /** match: said in place; reordered: said elsewhere; skipped: not said; ad_lib: said but not in the script */
+  type: AnalysisScriptRowType
+  /** Passage index in the script (null for ad-libs) */
+  script_index: number | null
+  script_text: string | null
+  transcript_text: string | null
+  fidelity: AnalysisScriptFidelity | null
+  /** Share of the passage's words that were said, 0-100 */
+  similarity: number | null
+}
+
+// Script vs transcript comparison for runs with a reference script (lib/script/compare.ts)
+export interface AnalysisScript {
+  script_word_count: number
+  passage_count: number
+  /** Share of script words in passages that were delivered (in place, paraphrased or reordered) */
+  coverage_pct: number
+  /** Share of script words said as written, in order */
+  verbatim_pct: number
+  /** Mean similarity of delivered passages, weighted by length (null when nothing was delivered) */
+  fidelity_pct: number | null
+  counts: {
+    verbatim: number
+    close: number
+    paraphrased: number
+    skipped: number
+    reordered: number
+    ad_libs: number
+  }
+  /** Side-by-side rows in the order they were said */
+  rows: AnalysisScriptRow[]
+  notes: string[]
+}
+
+export interface AnalysisQAScore {
+  /** 0-10 */
+  score: number
+  notes: string
+}
+
+// Grade of a spoken answer to an audience question (qa_answer runs, lib/qa/grade.ts)
+export interface AnalysisQAGrade {
+  question: string
+  /** Answers the question asked, up front */
+  directness: AnalysisQAScore
+  /** Consistent with the pitch and its context; no invented or contradicting facts */
+  accuracy: AnalysisQAScore
+  /** Says it in as few words as the question needs */
+  brevity: AnalysisQAScore
+  overall_score: number
+  duration_sec: number | null
+  word_count: number
+  evidence_quotes: string[]
+  strengths: string[]
+  improvements: string[]
+  /** A tighter version of the answer, built only from what the speaker said or pitched */
+  better_answer: string
+}
+
+export type AnalysisAudienceSentiment = 'positive' | 'neutral' | 'negative'
+
+export interface AnalysisAudienceMoment {
+  quote: string
+  /** The persona's reaction, in their voice */
+  reaction: string
+  sentiment: AnalysisAudienceSentiment
+}
+
+// How the run's audience persona would react (runs with a persona, see lib/personas)
+export interface AnalysisAudienceReaction {
+  persona: string
+  /** 0-10: how engaged this audience would be by the end */
+  interest: number
+  /** Whether they would take the next step (second meeting, purchase, offer, pass) */
+  would_advance: boolean | null
+  first_impression: string
+  verdict: string
+  moments: AnalysisAudienceMoment[]
+  likely_objections: string[]
+  /** What this audience needed to hear and didn't */
+  missing_for_them: string[]
+}
+
+/** A complete analysis, as produced once every stage has succeeded. */
+export interface AnalysisOutput {
+  meta?: AnalysisMeta
+  summary: AnalysisSummary
+  timing: AnalysisTiming
+  rubric_scores: AnalysisRubricScore[]
+  question_grading?: AnalysisQuestionGrade[]
+  chunks: AnalysisChunk[]
+  line_by_line: AnalysisLineItem[]
+  pause_suggestions: AnalysisPauseSuggestion[]
+  cut_suggestions: AnalysisCutSuggestion[]
+  premium_insights?: AnalysisPremiumInsights
+  premium?: AnalysisPremium | null
+  /** Only for runs with a slide deck and slide timings */
+  slides?: AnalysisSlides
+  /** Only for runs with a reference script */
+  script?: AnalysisScript
+  /** Only for Q&A answer runs (which have no rubric sections) */
+  qa_grade?: AnalysisQAGrade
+  /** Only for runs with an audience persona */
+  audience_reaction?: AnalysisAudienceReaction
+}
+
+export type AnalysisSection = Exclude<keyof AnalysisOutput, 'meta'>
+
+/**
+ * analysis_json as read by consumers (after upgradeAnalysisJson).
+ * Stages write their sections independently, so any section may be missing while a run
+ * is analyzing or after a stage failed; sections that are present are fully normalized.
+ */
+export type AnalysisJson = Partial<Omit<AnalysisOutput, 'meta'>> & { meta: AnalysisMeta }
+
+const stringArray: JSONSchema = { type: 'array', items: { type: 'string' } }
+const nullableNumber: JSONSchema = { type: ['number', 'null'] }
+const nullableString: JSONSchema = { type: ['string', 'null'] }
+
+function object(properties: Record<string, JSONSchema>): JSONSchema {
+  return { type: 'object', required: Object.keys(properties), properties }
+}
+
+function withOptional(schema: JSONSchema, properties: Record<string, JSONSchema>): JSONSchema {
+  return { ...schema, properties: { ...schema.properties, ...properties } }
+}
+
+const FILLER_SOURCE_SCHEMA: JSONSchema = { type: 'string', enum: ['transcript', 'acoustic'] }
+const FILLER_BY_SOURCE_SCHEMA: JSONSchema = object({ transcript: { type: 'number' }, acoustic: { type: 'number' } })
+
+const VOICE_SCHEMA: JSONSchema = object({
+  duration_sec: { type: 'number' },
+  loudness: object({ mean_db: nullableNumber, range_db: nullableNumber }),
+  pitch: object({
+    median_hz: nullableNumber,
+    min_hz: nullableNumber,
+    max_hz: nullableNumber,
+    range_semitones: nullableNumber,
+    variability_semitones: nullableNumber,
+  }),
+  timeline_step_sec: { type: 'number' },
+  timeline: {
+    type: 'array',
+    items: object({ t: { type: 'number' }, loudness_db: nullableNumber, pitch_hz: nullableNumber }),
+  },
+  flags: {
+    type: 'array',
+    items: object({
+      type: { type: 'string', enum: ['monotone', 'trailing_off', 'energy_drop'] },
+      start_sec: { type: 'number' },
+      end_sec: { type: 'number' },
+      note: { type: 'string' },
+    }),
+  },
+  notes: stringArray,
+})
+
+const SLIDES_SCHEMA: JSONSchema = object({
+  slide_count: { type: 'number' },
+  duration_sec: { type: 'number' },
+  timing_source: { type: 'string', enum: ['word_timings', 'estimated'] },
+  timeline: {
+    type: 'array',
+    items: object({ slide: { type: 'number' }, start_sec: { type: 'number' }, end_sec: { type: 'number' } }),
+  },
+  slides: {
+    type: 'array',
+    items: object({
+      slide: { type: 'number' },
+      title: nullableString,
+      time_sec: { type: 'number' },
+      share_pct: { type: 'number' },
+      visits: { type: 'number' },
+      allocation: { type: 'string', enum: ['skipped', 'rushed', 'balanced', 'long'] },
+      match_score: nullableNumber,
+      matched_terms: stringArray,
+      missed_terms: stringArray,
+      note: { type: 'string' },
+    }),
+  },
+  notes: stringArray,
+})
+
+const SCRIPT_SCHEMA: JSONSchema = object({
+  script_word_count: { type: 'number' },
+  passage_count: { type: 'number' },
+  coverage_pct: { type: 'number' },
+  verbatim_pct: { type: 'number' },
+  fidelity_pct: nullableNumber,
+  counts: object({
+    verbatim: { type: 'number' },
+    close: { type: 'number' },
+    paraphrased: { type: 'number' },
+    skipped: { type: 'number' },
+    reordered: { type: 'number' },
+    ad_libs: { type: 'number' },
+  }),
+  rows: {
+    type: 'array',
+    items: object({
+      type: { type: 'string', enum: ['match', 'skipped', 'reordered', 'ad_lib'] },
+      script_index: nullableNumber,
+      script_text: nullableString,
+      transcript_text: nullableString,
+      fidelity: { type: ['string', 'null'], enum: ['verbatim', 'close', 'paraphrased', null] },
+      similarity: nullableNumber,
+    }),
+  },
+  notes: stringArray,
+})
+
+const QA_SCORE_SCHEMA: JSONSchema = object({ score: { type: 'number' }, notes: { type: 'string' } })
+
+const QA_GRADE_SCHEMA: JSONSchema = object({
+  question: { type: 'string' },
+  directness: QA_SCORE_SCHEMA,
+  accuracy: QA_SCORE_SCHEMA,
+  brevity: QA_SCORE_SCHEMA,
+  overall_score: { type: 'number' },
+  duration_sec: nullableNumber,
+  word_count: { type: 'number' },
+  evidence_quotes: stringArray,
+  strengths: stringArray,
+  improvements: stringArray,
+  better_answer: { type: 'string' },
+})
+
+const AUDIENCE_REACTION_SCHEMA: JSONSchema = object({
+  persona: { type: 'string' },
+  interest: { type: 'number' },
+  would_advance: { type: ['boolean', 'null'] },
+  first_impression: { type: 'string' },
+  verdict: { type: 'string' },
+  moments: {
+    type: 'array',
+    items: object({
+      quote: { type: 'string' },
+      reaction: { type: 'string' },
+      sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+    }),
+  },
+  likely_objections: stringArray,
+  missing_for_them: stringArray,
+})
+
+/** Schema for each top-level section (sections themselves are optional). */
+export const ANALYSIS_SECTION_SCHEMAS: Record<AnalysisSection, JSONSchema> = {
+  summary: object({
+    overall_score: { type: 'number' },
+    overall_notes: { type: 'string' },
+    top_strengths: stringArray,
+    top_improvements: stringArray,
+  }),
+  timing: object({
+    target_seconds: nullableNumber,
+    max_seconds: nullableNumber,
+    estimated_seconds: nullableNumber,
+    pacing_wpm: nullableNumber,
+    notes: { type: 'string' },
+  }),
+  rubric_scores: {
+    type: 'array',
+    items: object({
+      criterion_id: { type: 'string' },
+      criterion_label: { type: 'string' },
+      score: { type: 'number' },
+      notes: { type: 'string' },
+      evidence_quotes: stringArray,
+      missing: { type: 'boolean' },
+    }),
+  },
+  question_grading: {
+    type: 'array',
+    items: object({
+      question: { type: 'string' },
+      answered: { type: 'boolean' },
+      evidence_quotes: stringArray,
+      improvement: nullableString,
+    }),
+  },
+  chunks: {
+    type: 'array',
+    items: object({
+      text: { type: 'string' },
+      purpose: { type: 'string' },
+      purpose_label: { type: 'string' },
+      score: nullableNumber,
+      status: { type: 'string', enum: ['strong', 'needs_work', 'missing'] },
+      feedback: { type: 'string' },
+      rewrite_suggestion: nullableString,
+    }),
+  },
+  line_by_line: {
+    type: 'array',
+    items: object({
+      quote: { type: 'string' },
+      type: { type: 'string', enum: ['strength', 'issue'] },
+      comment: { type: 'string' },
+      action: { type: 'string' },
+      priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+      category: { type: 'string', enum: [...ANALYSIS_LINE_CATEGORIES] },
+    }),
+  },
+  pause_suggestions: {
+    type: 'array',
+    items: object({
+      after_quote: { type: 'string' },
+      why: { type: 'string' },
+      duration_ms: { type: 'number' },
+    }),
+  },
+  cut_suggestions: {
+    type: 'array',
+    items: object({
+      quote: { type: 'string' },
+      why: { type: 'string' },
+      replacement: nullableString,
+    }),
+  },
+  premium_insights: withOptional(object({
+    filler_words: {
+      type: 'object',
+      required: ['total_count', 'by_word', 'coaching_notes'],
+      properties: {
+        total_count: { type: 'number' },
+        by_word: {
+          type: 'array',
+          items: withOptional(object({
+            word: { type: 'string' },
+            count: { type: 'number' },
+            examples: stringArray,
+            suggestions: stringArray,
+          }), { source: FILLER_SOURCE_SCHEMA }),
+        },
+        coaching_notes: stringArray,
+        top_sentences: {
+          type: 'array',
+          items: object({ sentence: { type: 'string' }, rewrite: { type: 'string' } }),
+        },
+        by_source: FILLER_BY_SOURCE_SCHEMA,
+        transcript_mode: { type: 'string', enum: ['verbatim', 'standard'] },
+      },
+    },
+    pacing: object({
+      wpm_overall: nullableNumber,
+      segments: {
+        type: 'array',
+        items: object({
+          label: { type: 'string', enum: ['slow', 'good', 'fast'] },
+          start_sec: nullableNumber,
+          end_sec: nullableNumber,
+          wpm: nullableNumber,
+          note: { type: 'string' },
+        }),
+      },
+      pauses: object({
+        longest_pause_sec: nullableNumber,
+        long_pause_count: { type: 'number' },
+        notes: { type: 'string' },
+      }),
+    }),
+    structure: object({
+      detected_sections: stringArray,
+      missing_sections: stringArray,
+      suggested_lines: { type: 'object' },
+      one_sentence_pitch: { type: 'string' },
+    }),
+    coaching_plan: object({
+      next_attempt_focus: stringArray,
+      drills: {
+        type: 'array',
+        items: object({ title: { type: 'string' }, steps: stringArray }),
+      },
+    }),
+  }), { voice: VOICE_SCHEMA }),
+  premium: {
+    type: ['object', 'null'],
+    required: ['signature_insight', 'coach_take', 'next_focus'],
+    properties: {
+      signature_insight: { type: 'string' },
+      coach_take: { type: 'string' },
+      next_focus: stringArray,
+      filler: withOptional(object({
+        total: { type: 'number' },
+        by_word: { type: 'object' },
+        sections: object({
+          intro: { type: 'number' },
+          middle: { type: 'number' },
+          close: { type: 'number' },
+        }),
+        insight: { type: 'string' },
+        drill: object({ title: { type: 'string' }, steps: stringArray }),
+      }), { by_source: FILLER_BY_SOURCE_SCHEMA }),
+    },
+  },
+  slides: SLIDES_SCHEMA,
+  script: SCRIPT_SCHEMA,
+  qa_grade: QA_GRADE_SCHEMA,
+  audience_reaction: AUDIENCE_REACTION_SCHEMA,
+}
+
+export const ANALYSIS_JSON_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['meta'],
+  properties: {
+    meta: {
+      type: 'object',
+      required: ['schema_version'],
+      properties: {
+        schema_version: { type: 'integer', enum: [ANALYSIS_SCHEMA_VERSION] },
+        plan_at_time: { type: 'string', enum: ['free', 'starter', 'coach', 'daypass'] },
+        generated_at: { type: 'string' },
+      },
+    },
+    ...ANALYSIS_SECTION_SCHEMAS,
+  },
+}
+
+/**
+ * Validate a current-version analysis_json document.
+ * @returns List of human-readable errors (empty when valid)
+ */
+export function validateAnalysisJson(value: unknown): string[] {
+  return validateSchema(value, ANALYSIS_JSON_SCHEMA)
+}
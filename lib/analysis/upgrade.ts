@@ -0,0 +1,589 @@
+import {
+  ANALYSIS_LINE_CATEGORIES,
+  ANALYSIS_SCHEMA_VERSION,
+  type AnalysisAudienceReaction,
+  type AnalysisChunk,
+  type AnalysisCutSuggestion,
+  type AnalysisFillerSource,
+  type AnalysisFillerWords,
+  type AnalysisJson,
+  type AnalysisLineCategory,
+  type AnalysisLineItem,
+  type AnalysisMeta,
+  type AnalysisOutput,
+  type AnalysisPauseSuggestion,
+  type AnalysisPremium,
+  type AnalysisPremiumInsights,
+  type AnalysisQuestionGrade,
+  type AnalysisRubricScore,
+  type AnalysisQAGrade,
+  type AnalysisQAScore,
+  type AnalysisScript,
+  type AnalysisSlides,
+  type AnalysisSummary,
+  type AnalysisTiming,
+  type AnalysisVoice,
+} from './schema'
+
+type RawDocument = Record<string, any>
+
+/**
+ * One step per schema version: ANALYSIS_UPGRADES[n] turns a version n document into version n + 1.
+ * Steps only rename/reshape legacy fields; normalizeAnalysisSections fills in defaults afterwards.
+ */
+const ANALYSIS_UPGRADES: Record<number, (doc: RawDocument) => RawDocument> = {
+  1: upgradeFromV1,
+  2: upgradeFromV2,
+}
+
+// Version 1: focus_areas, praise/suggestion line types, { criterion } scores and filler totals
+function upgradeFromV1(doc: RawDocument): RawDocument {
+  const next = { ...doc }
+
+  if (isObject(doc.summary) && Array.isArray(doc.summary.focus_areas)) {
+    const { focus_areas, ...summary } = doc.summary
+    const improvements = Array.isArray(summary.top_improvements) ? summary.top_improvements : []
+    summary.top_improvements = Array.from(new Set([...improvements, ...focus_areas]))
+    next.summary = summary
+  }
+
+  if (Array.isArray(doc.line_by_line)) {
+    next.line_by_line = doc.line_by_line.map((item: any) => {
+      if (!isObject(item)) return item
+      if (item.type === 'praise') return { ...item, type: 'strength' }
+      if (item.type === 'suggestion') return { ...item, type: 'issue' }
+      return item
+    })
+  }
+
+  if (Array.isArray(doc.rubric_scores)) {
+    next.rubric_scores = doc.rubric_scores.map((score: any) => {
+      if (!isObject(score) || typeof score.criterion !== 'string') return score
+      const { criterion, ...rest } = score
+      return {
+        criterion_id: toCriterionId(criterion),
+        criterion_label: criterion,
+        ...rest,
+      }
+    })
+  }
+
+  const fillerWords = doc.premium_insights?.filler_words
+  if (isObject(fillerWords) && isObject(fillerWords.totals) && !Array.isArray(fillerWords.by_word)) {
+    const { totals, ...rest } = fillerWords
+    const byWord = Object.entries(totals as Record<string, unknown>)
+      .map(([word, count]) => ({ word, count: toNumber(count) ?? 0, examples: [], suggestions: [] }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count)
+    next.premium_insights = {
+      ...doc.premium_insights,
+      filler_words: {
+        ...rest,
+        total_count: toNumber(rest.total_count) ?? byWord.reduce((sum, entry) => sum + entry.count, 0),
+        by_word: byWord,
+      },
+    }
+  }
+
+  return next
+}
+
+// Version 2: line_by_line categories were free text (or missing); map them onto the fixed set
+function upgradeFromV2(doc: RawDocument): RawDocument {
+  if (!Array.isArray(doc.line_by_line)) return doc
+
+  return {
+    ...doc,
+    line_by_line: doc.line_by_line.map((item: any) =>
+      isObject(item) ? { ...item, category: normalizeLineCategory(item.category) } : item
+    ),
+  }
+}
+
+/**
+ * Normalize raw analysis_json (any version) into the current typed shape.
+ * Missing sections stay missing; present sections get every field with a sane default.
+ * @returns null when there is no analysis yet
+ */
+export function upgradeAnalysisJson(raw: unknown): AnalysisJson | null {
+  if (!isObject(raw)) {
+    return null
+  }
+
+  const storedVersion = toNumber(raw.meta?.schema_version)
+  let version = storedVersion !== null && storedVersion >= 1 ? Math.floor(storedVersion) : 1
+  let doc: RawDocument = raw
+
+  if (version > ANALYSIS_SCHEMA_VERSION) {
+    console.warn('[Analysis] analysis_json is newer than this build, reading it as current:', {
+      schemaVersion: version,
+      currentVersion: ANALYSIS_SCHEMA_VERSION,
+    })
+  }
+
+  while (version < ANALYSIS_SCHEMA_VERSION) {
+    doc = ANALYSIS_UPGRADES[version](doc)
+    version++
+  }
+
+  return {
+    ...normalizeAnalysisSections(doc),
+    meta: normalizeMeta(doc.meta),
+  }
+}
+
+/**
+ * Normalize the sections present in a partial document (e.g. one stage's LLM output).
+ * Unknown top-level keys are dropped.
+ */
+export function normalizeAnalysisSections(doc: RawDocument): Partial<Omit<AnalysisOutput, 'meta'>> {
+  const sections: Partial<Omit<AnalysisOutput, 'meta'>> = {}
+
+  if (isObject(doc.summary)) sections.summary = normalizeSummary(doc.summary)
+  if (isObject(doc.timing)) sections.timing = normalizeTiming(doc.timing)
+  if (Array.isArray(doc.rubric_scores)) sections.rubric_scores = objects(doc.rubric_scores).map(normalizeRubricScore)
+  if (Array.isArray(doc.question_grading)) sections.question_grading = objects(doc.question_grading).map(normalizeQuestionGrade)
+  if (Array.isArray(doc.chunks)) sections.chunks = objects(doc.chunks).map(normalizeChunk)
+  if (Array.isArray(doc.line_by_line)) sections.line_by_line = objects(doc.line_by_line).map(normalizeLineItem)
+  if (Array.isArray(doc.pause_suggestions)) sections.pause_suggestions = objects(doc.pause_suggestions).map(normalizePauseSuggestion)
+  if (Array.isArray(doc.cut_suggestions)) sections.cut_suggestions = objects(doc.cut_suggestions).map(normalizeCutSuggestion)
+  if (isObject(doc.premium_insights)) sections.premium_insights = normalizePremiumInsights(doc.premium_insights)
+  if (doc.premium === null) sections.premium = null
+  else if (isObject(doc.premium)) sections.premium = normalizePremium(doc.premium)
+  if (isObject(doc.slides)) sections.slides = normalizeSlides(doc.slides)
+  if (isObject(doc.script)) sections.script = normalizeScript(doc.script)
+  if (isObject(doc.qa_grade)) sections.qa_grade = normalizeQAGrade(doc.qa_grade)
+  if (isObject(doc.audience_reaction)) sections.audience_reaction = normalizeAudienceReaction(doc.audience_reaction)
+
+  return sections
+}
+
+/** Total filler words, preferring the premium breakdown (both are computed from the transcript). */
+export function getFillerWordTotal(analysis: Pick<AnalysisJson, 'premium' | 'premium_insights'> | null | undefined): number | null {
+  return analysis?.premium?.filler?.total ?? analysis?.premium_insights?.filler_words.total_count ?? null
+}
+
+function normalizeMeta(raw: unknown): AnalysisMeta {
+  const meta: AnalysisMeta = { schema_version: ANALYSIS_SCHEMA_VERSION }
+  if (!isObject(raw)) return meta
+
+  if (['free', 'starter', 'coach', 'daypass'].includes(raw.plan_at_time)) {
+    meta.plan_at_time = raw.plan_at_time
+  }
+  if (typeof raw.generated_at === 'string') {
+    meta.generated_at = raw.generated_at
+  }
+  return meta
+}
+
+function normalizeSummary(raw: RawDocument): AnalysisSummary {
+  return {
+    overall_score: toNumber(raw.overall_score) ?? 0,
+    overall_notes: toText(raw.overall_notes),
+    top_strengths: toStrings(raw.top_strengths),
+    top_improvements: toStrings(raw.top_improvements),
+  }
+}
+
+function normalizeTiming(raw: RawDocument): AnalysisTiming {
+  return {
+    target_seconds: toNumber(raw.target_seconds),
+    max_seconds: toNumber(raw.max_seconds),
+    estimated_seconds: toNumber(raw.estimated_seconds),
+    pacing_wpm: toNumber(raw.pacing_wpm),
+    notes: toText(raw.notes),
+  }
+}
+
+function normalizeRubricScore(raw: RawDocument): AnalysisRubricScore {
+  const label = toText(raw.criterion_label) || toText(raw.criterion_id)
+  return {
+    criterion_id: toText(raw.criterion_id) || toCriterionId(label),
+    criterion_label: label,
+    score: toNumber(raw.score) ?? 0,
+    notes: toText(raw.notes),
+    evidence_quotes: toStrings(raw.evidence_quotes),
+    missing: raw.missing === true,
+  }
+}
+
+function normalizeQuestionGrade(raw: RawDocument): AnalysisQuestionGrade {
+  return {
+    question: toText(raw.question),
+    answered: raw.answered === true,
+    evidence_quotes: toStrings(raw.evidence_quotes),
+    improvement: toNullableText(raw.improvement),
+  }
+}
+
+function normalizeChunk(raw: RawDocument): AnalysisChunk {
+  return {
+    text: toText(raw.text),
+    purpose: toText(raw.purpose) || 'other',
+    purpose_label: toText(raw.purpose_label),
+    score: toNumber(raw.score),
+    status: oneOf(raw.status, ['strong', 'needs_work', 'missing'] as const, 'needs_work'),
+    feedback: toText(raw.feedback),
+    rewrite_suggestion: toNullableText(raw.rewrite_suggestion),
+  }
+}
+
+// Free-form categories from before ANALYSIS_LINE_CATEGORIES (and close model variants)
+const LINE_CATEGORY_ALIASES: Record<string, AnalysisLineCategory> = {
+  flow: 'structure',
+  organization: 'structure',
+  opening: 'structure',
+  hook: 'structure',
+  story: 'structure',
+  jargon: 'clarity',
+  wording: 'clarity',
+  language: 'clarity',
+  message: 'clarity',
+  data: 'evidence',
+  proof: 'evidence',
+  metrics: 'evidence',
+  traction: 'evidence',
+  examples: 'evidence',
+  relevance: 'audience',
+  engagement: 'audience',
+  filler: 'delivery',
+  fillers: 'delivery',
+  filler_words: 'delivery',
+  hesitation: 'delivery',
+  confidence: 'delivery',
+  voice: 'delivery',
+  pace: 'timing',
+  pacing: 'timing',
+  length: 'timing',
+  time: 'timing',
+  cta: 'call_to_action',
+  ask: 'call_to_action',
+  close: 'call_to_action',
+  closing: 'call_to_action',
+}
+
+function normalizeLineCategory(value: unknown): AnalysisLineCategory {
+  const key = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : ''
+  return oneOf(key, ANALYSIS_LINE_CATEGORIES, LINE_CATEGORY_ALIASES[key] ?? 'other')
+}
+
+function normalizeLineItem(raw: RawDocument): AnalysisLineItem {
+  return {
+    quote: toText(raw.quote),
+    type: oneOf(raw.type, ['strength', 'issue'] as const, 'issue'),
+    comment: toText(raw.comment),
+    action: toText(raw.action),
+    priority: oneOf(raw.priority, ['high', 'medium', 'low'] as const, 'medium'),
+    category: normalizeLineCategory(raw.category),
+  }
+}
+
+function normalizePauseSuggestion(raw: RawDocument): AnalysisPauseSuggestion {
+  return {
+    after_quote: toText(raw.after_quote),
+    why: toText(raw.why),
+    duration_ms: toNumber(raw.duration_ms) ?? 500,
+  }
+}
+
+function normalizeCutSuggestion(raw: RawDocument): AnalysisCutSuggestion {
+  return {
+    quote: toText(raw.quote),
+    why: toText(raw.why),
+    replacement: toNullableText(raw.replacement),
+  }
+}
+
+function isFillerSource(value: unknown): value is AnalysisFillerSource {
+  return value === 'transcript' || value === 'acoustic'
+}
+
+function normalizeFillerBySource(raw: unknown): Record<AnalysisFillerSource, number> | null {
+  if (!isObject(raw)) return null
+  return { transcript: toNumber(raw.transcript) ?? 0, acoustic: toNumber(raw.acoustic) ?? 0 }
+}
+
+function normalizeFillerWords(raw: unknown): AnalysisFillerWords {
+  const fillerWords = isObject(raw) ? raw : {}
+  const byWord = objects(fillerWords.by_word).map((entry) => ({
+    word: toText(entry.word),
+    count: toNumber(entry.count) ?? 0,
+    examples: toStrings(entry.examples),
+    suggestions: toStrings(entry.suggestions),
+    ...(isFillerSource(entry.source) ? { source: entry.source } : {}),
+  }))
+
+  const normalized: AnalysisFillerWords = {
+    total_count: toNumber(fillerWords.total_count) ?? byWord.reduce((sum, entry) => sum + entry.count, 0),
+    by_word: byWord,
+    coaching_notes: toStrings(fillerWords.coaching_notes),
+  }
+  if (Array.isArray(fillerWords.top_sentences)) {
+    normalized.top_sentences = objects(fillerWords.top_sentences)
+      .map((entry) => ({ sentence: toText(entry.sentence), rewrite: toText(entry.rewrite) }))
+      .filter((entry) => entry.sentence && entry.rewrite)
+  }
+  const bySource = normalizeFillerBySource(fillerWords.by_source)
+  if (bySource) {
+    normalized.by_source = bySource
+  }
+  if (fillerWords.transcript_mode === 'verbatim' || fillerWords.transcript_mode === 'standard') {
+    normalized.transcript_mode = fillerWords.transcript_mode
+  }
+  return normalized
+}
+
+function normalizePremiumInsights(raw: RawDocument): AnalysisPremiumInsights {
+  const pacing = isObject(raw.pacing) ? raw.pacing : {}
+  const pauses = isObject(pacing.pauses) ? pacing.pauses : {}
+  const structure = isObject(raw.structure) ? raw.structure : {}
+  const coachingPlan = isObject(raw.coaching_plan) ? raw.coaching_plan : {}
+
+  const suggestedLines: Record<string, string> = {}
+  if (isObject(structure.suggested_lines)) {
+    for (const [section, line] of Object.entries(structure.suggested_lines)) {
+      if (typeof line === 'string') suggestedLines[section] = line
+    }
+  }
+
+  return {
+    filler_words: normalizeFillerWords(raw.filler_words),
+    pacing: {
+      wpm_overall: toNumber(pacing.wpm_overall),
+      segments: objects(pacing.segments).map((segment) => ({
+        label: oneOf(segment.label, ['slow', 'good', 'fast'] as const, 'good'),
+        start_sec: toNumber(segment.start_sec),
+        end_sec: toNumber(segment.end_sec),
+        wpm: toNumber(segment.wpm),
+        note: toText(segment.note),
+      })),
+      pauses: {
+        longest_pause_sec: toNumber(pauses.longest_pause_sec),
+        long_pause_count: toNumber(pauses.long_pause_count) ?? 0,
+        notes: toText(pauses.notes),
+      },
+    },
+    structure: {
+      detected_sections: toStrings(structure.detected_sections),
+      missing_sections: toStrings(structure.missing_sections),
+      suggested_lines: suggestedLines,
+      one_sentence_pitch: toText(structure.one_sentence_pitch),
+    },
+    coaching_plan: {
+      next_attempt_focus: toStrings(coachingPlan.next_attempt_focus),
+      drills: objects(coachingPlan.drills).map((drill) => ({
+        title: toText(drill.title),
+        steps: toStrings(drill.steps),
+      })),
+    },
+    ...(isObject(raw.voice) ? { voice: normalizeVoice(raw.voice) } : {}),
+  }
+}
+
+function normalizeVoice(raw: RawDocument): AnalysisVoice {
+  const loudness = isObject(raw.loudness) ? raw.loudness : {}
+  const pitch = isObject(raw.pitch) ? raw.pitch : {}
+
+  return {
+    duration_sec: toNumber(raw.duration_sec) ?? 0,
+    loudness: {
+      mean_db: toNumber(loudness.mean_db),
+      range_db: toNumber(loudness.range_db),
+    },
+    pitch: {
+      median_hz: toNumber(pitch.median_hz),
+      min_hz: toNumber(pitch.min_hz),
+      max_hz: toNumber(pitch.max_hz),
+      range_semitones: toNumber(pitch.range_semitones),
+      variability_semitones: toNumber(pitch.variability_semitones),
+    },
+    timeline_step_sec: toNumber(raw.timeline_step_sec) ?? 1,
+    timeline: objects(raw.timeline).map((point) => ({
+      t: toNumber(point.t) ?? 0,
+      loudness_db: toNumber(point.loudness_db),
+      pitch_hz: toNumber(point.pitch_hz),
+    })),
+    flags: objects(raw.flags).map((flag) => ({
+      type: oneOf(flag.type, ['monotone', 'trailing_off', 'energy_drop'] as const, 'monotone'),
+      start_sec: toNumber(flag.start_sec) ?? 0,
+      end_sec: toNumber(flag.end_sec) ?? 0,
+      note: toText(flag.note),
+    })),
+    notes: toStrings(raw.notes),
+  }
+}
+
+function normalizePremium(raw: RawDocument): AnalysisPremium {
+  const premium: AnalysisPremium = {
+    signature_insight: toText(raw.signature_insight),
+    coach_take: toText(raw.coach_take),
+    next_focus: toStrings(raw.next_focus),
+  }
+
+  if (isObject(raw.filler)) {
+    const filler = raw.filler
+    const sections = isObject(filler.sections) ? filler.sections : {}
+    const drill = isObject(filler.drill) ? filler.drill : {}
+    const byWord: Record<string, number> = {}
+    if (isObject(filler.by_word)) {
+      for (const [word, count] of Object.entries(filler.by_word)) {
+        const value = toNumber(count)
+        if (value !== null) byWord[word] = value
+      }
+    }
+
+    premium.filler = {
+      total: toNumber(filler.total) ?? Object.values(byWord).reduce((sum, count) => sum + count, 0),
+      by_word: byWord,
+      sections: {
+        intro: toNumber(sections.intro) ?? 0,
+        middle: toNumber(sections.middle) ?? 0,
+        close: toNumber(sections.close) ?? 0,
+      },
+      insight: toText(filler.insight),
+      drill: {
+        title: toText(drill.title),
+        steps: toStrings(drill.steps),
+      },
+    }
+    const bySource = normalizeFillerBySource(filler.by_source)
+    if (bySource) {
+      premium.filler.by_source = bySource
+    }
+  }
+
+  return premium
+}
+
+function normalizeSlides(raw: RawDocument): AnalysisSlides {
+  return {
+    slide_count: toNumber(raw.slide_count) ?? 0,
+    duration_sec: toNumber(raw.duration_sec) ?? 0,
+    timing_source: oneOf(raw.timing_source, ['word_timings', 'estimated'] as const, 'estimated'),
+    timeline: objects(raw.timeline).map((visit) => ({
+      slide: toNumber(visit.slide) ?? 1,
+      start_sec: toNumber(visit.start_sec) ?? 0,
+      end_sec: toNumber(visit.end_sec) ?? 0,
+    })),
+    slides: objects(raw.slides).map((slide, index) => ({
+      slide: toNumber(slide.slide) ?? index + 1,
+      title: toNullableText(slide.title),
+      time_sec: toNumber(slide.time_sec) ?? 0,
+      share_pct: toNumber(slide.share_pct) ?? 0,
+      visits: toNumber(slide.visits) ?? 0,
+      allocation: oneOf(slide.allocation, ['skipped', 'rushed', 'balanced', 'long'] as const, 'balanced'),
+      match_score: toNumber(slide.match_score),
+      matched_terms: toStrings(slide.matched_terms),
+      missed_terms: toStrings(slide.missed_terms),
+      note: toText(slide.note),
+    })),
+    notes: toStrings(raw.notes),
+  }
+}
+
+function normalizeScript(raw: RawDocument): AnalysisScript {
+  const counts = isObject(raw.counts) ? raw.counts : {}
+  return {
+    script_word_count: toNumber(raw.script_word_count) ?? 0,
+    passage_count: toNumber(raw.passage_count) ?? 0,
+    coverage_pct: toNumber(raw.coverage_pct) ?? 0,
+    verbatim_pct: toNumber(raw.verbatim_pct) ?? 0,
+    fidelity_pct: toNumber(raw.fidelity_pct),
+    counts: {
+      verbatim: toNumber(counts.verbatim) ?? 0,
+      close: toNumber(counts.close) ?? 0,
+      paraphrased: toNumber(counts.paraphrased) ?? 0,
+      skipped: toNumber(counts.skipped) ?? 0,
+      reordered: toNumber(counts.reordered) ?? 0,
+      ad_libs: toNumber(counts.ad_libs) ?? 0,
+    },
+    rows: objects(raw.rows).map((row) => ({
+      type: oneOf(row.type, ['match', 'skipped', 'reordered', 'ad_lib'] as const, 'match'),
+      script_index: toNumber(row.script_index),
+      script_text: toNullableText(row.script_text),
+      transcript_text: toNullableText(row.transcript_text),
+      fidelity: row.fidelity === null || row.fidelity === undefined
+        ? null
+        : oneOf(row.fidelity, ['verbatim', 'close', 'paraphrased'] as const, 'paraphrased'),
+      similarity: toNumber(row.similarity),
+    })),
+    notes: toStrings(raw.notes),
+  }
+}
+
+function normalizeQAScore(raw: unknown): AnalysisQAScore {
+  const score = isObject(raw) ? raw : {}
+  return {
+    score: toNumber(score.score) ?? 0,
+    notes: toText(score.notes),
+  }
+}
+
+function normalizeQAGrade(raw: RawDocument): AnalysisQAGrade {
+  return {
+    question: toText(raw.question),
+    directness: normalizeQAScore(raw.directness),
+    accuracy: normalizeQAScore(raw.accuracy),
+    brevity: normalizeQAScore(raw.brevity),
+    overall_score: toNumber(raw.overall_score) ?? 0,
+    duration_sec: toNumber(raw.duration_sec),
+    word_count: toNumber(raw.word_count) ?? 0,
+    evidence_quotes: toStrings(raw.evidence_quotes),
+    strengths: toStrings(raw.strengths),
+    improvements: toStrings(raw.improvements),
+    better_answer: toText(raw.better_answer),
+  }
+}
+
+function normalizeAudienceReaction(raw: RawDocument): AnalysisAudienceReaction {
+  return {
+    persona: toText(raw.persona),
+    interest: toNumber(raw.interest) ?? 0,
+    would_advance: typeof raw.would_advance === 'boolean' ? raw.would_advance : null,
+    first_impression: toText(raw.first_impression),
+    verdict: toText(raw.verdict),
+    moments: objects(raw.moments).map(moment => ({
+      quote: toText(moment.quote),
+      reaction: toText(moment.reaction),
+      sentiment: oneOf(moment.sentiment, ['positive', 'neutral', 'negative'] as const, 'neutral'),
+    })),
+    likely_objections: toStrings(raw.likely_objections),
+    missing_for_them: toStrings(raw.missing_for_them),
+  }
+}
+
+function isObject(value: unknown): value is RawDocument {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function objects(value: unknown): RawDocument[] {
+  return Array.isArray(value) ? value.filter(isObject) : []
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return ''
+}
+
+function toNullableText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim().length > 0 ? value : null
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value)
+  return null
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback
+}
+
+function toCriterionId(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
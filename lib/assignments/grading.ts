@@ -0,0 +1,112 @@
+import type { AnalysisJson } from '@/lib/analysis'
+import type { OrganizationMember } from '@/lib/organizations'
+import type { Assignment, AssignmentOverview, AssignmentProgress } from './types'
+
+/** The pitch_runs columns grading reads */
+export interface AssignmentRun {
+  id: string
+  user_id: string
+  created_at: string
+  status: string
+  analysis_json: AnalysisJson | null
+}
+
+/**
+ * Run statuses that use up an attempt: the recording reached storage ('uploaded' or
+ * later). Runs still 'uploading' (abandoned or discarded recordings) and failed runs don't.
+ */
+export const ATTEMPT_RUN_STATUSES = ['uploaded', 'transcribing', 'transcribed', 'analyzing', 'analyzed']
+
+export function countsAsAttempt(run: Pick<AssignmentRun, 'status'>): boolean {
+  return ATTEMPT_RUN_STATUSES.includes(run.status)
+}
+
+/**
+ * Snapshot a rubrics row for an assignment, in the rubric_json shape the create route
+ * and analysis accept for custom rubrics.
+ */
+export function snapshotRubric(rubric: Record<string, any>): Record<string, any> {
+  const rubricJson = rubric.rubric_json || {}
+  return {
+    name: rubric.name || rubric.title || 'Assignment rubric',
+    title: rubric.title || rubric.name || 'Assignment rubric',
+    description: rubric.description || null,
+    criteria: Array.isArray(rubricJson.criteria) && rubricJson.criteria.length > 0
+      ? rubricJson.criteria
+      : rubric.criteria || [],
+    guiding_questions: Array.isArray(rubricJson.guiding_questions) ? rubricJson.guiding_questions : [],
+    target_duration_seconds: rubric.target_duration_seconds ?? null,
+    max_duration_seconds: rubric.max_duration_seconds ?? null,
+  }
+}
+
+/** One learner's progress on an assignment from their submissions (any order). */
+export function assignmentProgress(
+  assignment: Pick<Assignment, 'due_at' | 'max_attempts'>,
+  runs: AssignmentRun[],
+  now: Date = new Date()
+): AssignmentProgress {
+  const attempts = runs.filter(countsAsAttempt).sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const dueAt = assignment.due_at ? new Date(assignment.due_at).getTime() : null
+  const first = attempts[0]
+  const latest = attempts[attempts.length - 1]
+
+  const scored = attempts
+    .map(run => ({ id: run.id, score: run.status === 'analyzed' ? run.analysis_json?.summary?.overall_score ?? null : null }))
+    .filter((run): run is { id: string; score: number } => run.score !== null)
+  const best = scored.reduce<{ id: string; score: number } | null>(
+    (top, run) => (!top || run.score > top.score ? run : top),
+    null
+  )
+  const latestScored = scored[scored.length - 1]
+
+  return {
+    status: !first
+      ? 'not_submitted'
+      : dueAt !== null && new Date(first.created_at).getTime() > dueAt ? 'late' : 'submitted',
+    overdue: !first && dueAt !== null && now.getTime() > dueAt,
+    attempt_count: attempts.length,
+    attempts_left: assignment.max_attempts !== null ? Math.max(assignment.max_attempts - attempts.length, 0) : null,
+    first_submitted_at: first?.created_at ?? null,
+    latest_run_id: latest?.id ?? null,
+    latest_score: latestScored?.score ?? null,
+    best_run_id: best?.id ?? null,
+    best_score: best?.score ?? null,
+  }
+}
+
+/** Who submitted, their scores and late status, for every learner in the organization. */
+export function buildAssignmentOverview(
+  assignment: Pick<Assignment, 'due_at' | 'max_attempts'>,
+  members: OrganizationMember[],
+  runs: AssignmentRun[],
+  now: Date = new Date()
+): AssignmentOverview {
+  const learners = members
+    .filter(member => member.role === 'learner')
+    .map(member => ({
+      user_id: member.user_id,
+      email: member.email,
+      ...assignmentProgress(assignment, runs.filter(run => run.user_id === member.user_id), now),
+    }))
+    // Submitted first (best score first), then the rest by email
+    .sort((a, b) =>
+      Number(a.status === 'not_submitted') - Number(b.status === 'not_submitted') ||
+      (b.best_score ?? -1) - (a.best_score ?? -1) ||
+      (a.email || '').localeCompare(b.email || '')
+    )
+
+  const bestScores = learners
+    .map(learner => learner.best_score)
+    .filter((score): score is number => score !== null)
+
+  return {
+    learner_count: learners.length,
+    submitted_count: learners.filter(learner => learner.status !== 'not_submitted').length,
+    late_count: learners.filter(learner => learner.status === 'late').length,
+    average_best_score: bestScores.length > 0
+      ? Math.round((bestScores.reduce((sum, score) => sum + score, 0) / bestScores.length) * 10) / 10
+      : null,
+    learners,
+  }
+}
@@ -0,0 +1,16 @@
+export { ATTEMPT_RUN_STATUSES, assignmentProgress, buildAssignmentOverview, countsAsAttempt, snapshotRubric } from './grading'
+export type { AssignmentRun } from './grading'
+export { parseAssignmentFields } from './input'
+export type { AssignmentFields } from './input'
+export {
+  MAX_ASSIGNMENT_ATTEMPTS,
+  MAX_ASSIGNMENT_PROMPT_CHARS,
+  MAX_ASSIGNMENT_TITLE_CHARS,
+} from './types'
+export type {
+  Assignment,
+  AssignmentLearnerRow,
+  AssignmentOverview,
+  AssignmentProgress,
+  SubmissionStatus,
+} from './types'
@@ -0,0 +1,59 @@
+import { MAX_ASSIGNMENT_ATTEMPTS, MAX_ASSIGNMENT_PROMPT_CHARS, MAX_ASSIGNMENT_TITLE_CHARS } from './types'
+
+export type AssignmentFields = Partial<{
+  title: string
+  prompt: string | null
+  due_at: string | null
+  max_attempts: number | null
+}>
+
+/**
+ * The editable assignment fields present in a request body (title, prompt, due_at,
+ * max_attempts), validated. Fields left out of the body are left out of the result.
+ */
+export function parseAssignmentFields(body: Record<string, any>): { fields: AssignmentFields } | { error: string } {
+  const fields: AssignmentFields = {}
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    if (!title) return { error: 'Title is required' }
+    if (title.length > MAX_ASSIGNMENT_TITLE_CHARS) {
+      return { error: `Title must be at most ${MAX_ASSIGNMENT_TITLE_CHARS} characters` }
+    }
+    fields.title = title
+  }
+
+  if (body.prompt !== undefined) {
+    const prompt = typeof body.prompt === 'string' ? body.prompt.trim() : ''
+    if (prompt.length > MAX_ASSIGNMENT_PROMPT_CHARS) {
+      return { error: `Prompt must be at most ${MAX_ASSIGNMENT_PROMPT_CHARS} characters` }
+    }
+    fields.prompt = prompt || null
+  }
+
+  if (body.due_at !== undefined) {
+    if (body.due_at === null || body.due_at === '') {
+      fields.due_at = null
+    } else {
+      const dueAt = typeof body.due_at === 'string' ? new Date(body.due_at) : null
+      if (!dueAt || Number.isNaN(dueAt.getTime())) return { error: 'due_at must be an ISO date' }
+      fields.due_at = dueAt.toISOString()
+    }
+  }
+
+  if (body.max_attempts !== undefined) {
+    if (body.max_attempts === null) {
+      fields.max_attempts = null
+    } else if (
+      !Number.isInteger(body.max_attempts) ||
+      body.max_attempts < 1 ||
+      body.max_attempts > MAX_ASSIGNMENT_ATTEMPTS
+    ) {
+      return { error: `max_attempts must be between 1 and ${MAX_ASSIGNMENT_ATTEMPTS}, or null` }
+    } else {
+      fields.max_attempts = body.max_attempts
+    }
+  }
+
+  return { fields }
+}
@@ -0,0 +1,59 @@
+/**
+ * Assignments (migration 035): a coach sends an organization's learners a rubric, a prompt,
+ * an optional due date and attempt limit. Each submission is a run with assignment_id set,
+ * graded against the assignment's rubric snapshot.
+ */
+
+export const MAX_ASSIGNMENT_TITLE_CHARS = 120
+export const MAX_ASSIGNMENT_PROMPT_CHARS = 2000
+export const MAX_ASSIGNMENT_ATTEMPTS = 20
+
+/** An assignments row */
+export interface Assignment {
+  id: string
+  organization_id: string
+  created_by: string | null
+  title: string
+  prompt: string | null
+  rubric_id: string | null
+  /** Same shape as pitch_runs.rubric_snapshot_json ({ name, criteria, ... }) */
+  rubric_snapshot_json: any
+  due_at: string | null
+  /** null means unlimited */
+  max_attempts: number | null
+  created_at: string
+  updated_at: string
+}
+
+/** not_submitted, submitted on time, or first submitted after the due date */
+export type SubmissionStatus = 'not_submitted' | 'submitted' | 'late'
+
+/** One learner's submissions to an assignment */
+export interface AssignmentProgress {
+  status: SubmissionStatus
+  /** No submission and the due date has passed */
+  overdue: boolean
+  attempt_count: number
+  /** null when attempts are unlimited */
+  attempts_left: number | null
+  first_submitted_at: string | null
+  latest_run_id: string | null
+  latest_score: number | null
+  best_run_id: string | null
+  best_score: number | null
+}
+
+export interface AssignmentLearnerRow extends AssignmentProgress {
+  user_id: string
+  email: string | null
+}
+
+/** The coach's grading overview of an assignment */
+export interface AssignmentOverview {
+  learner_count: number
+  submitted_count: number
+  late_count: number
+  /** Average of each learner's best score */
+  average_best_score: number | null
+  learners: AssignmentLearnerRow[]
+}
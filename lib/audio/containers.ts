@@ -0,0 +1,560 @@
+import type { AudioFormat, AudioLoudness } from './types'
+
+/**
+ * Dependency-free readers for the upload formats we accept. They only walk container
+ * headers and frame/block timestamps - nothing is decoded - so they are cheap enough to
+ * run on every upload. Browser MediaRecorder webm has no duration in its header, so for
+ * webm the length comes from the last block timestamp.
+ */
+
+export interface ContainerInfo {
+  codec: string | null
+  durationMs: number | null
+  sampleRate: number | null
+  channels: number | null
+}
+
+const EXTENSION_FORMATS: Record<string, AudioFormat> = {
+  webm: 'webm',
+  weba: 'webm',
+  mp3: 'mp3',
+  mpeg: 'mp3',
+  wav: 'wav',
+  wave: 'wav',
+  m4a: 'm4a',
+  mp4: 'm4a',
+  aac: 'm4a',
+  ogg: 'ogg',
+  oga: 'ogg',
+  opus: 'ogg',
+}
+
+/** Identify the container from magic bytes, falling back to the file name or MIME type. */
+export function detectAudioFormat(audio: Buffer, hint: { fileName?: string; mimeType?: string } = {}): AudioFormat | null {
+  if (audio.length >= 12 && audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav'
+  }
+  if (audio.length >= 4 && audio.toString('ascii', 0, 4) === 'OggS') {
+    return 'ogg'
+  }
+  if (audio.length >= 4 && audio.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm'
+  }
+  if (audio.length >= 8 && audio.toString('ascii', 4, 8) === 'ftyp') {
+    return 'm4a'
+  }
+  if (audio.length >= 3 && (audio.toString('ascii', 0, 3) === 'ID3' || (audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0))) {
+    return 'mp3'
+  }
+
+  const extension = hint.fileName?.split('.').pop()?.toLowerCase()
+  if (extension && EXTENSION_FORMATS[extension]) {
+    return EXTENSION_FORMATS[extension]
+  }
+  const subtype = hint.mimeType?.split(';')[0].split('/')[1]?.toLowerCase()
+  if (subtype === 'x-wav' || subtype === 'wave') return 'wav'
+  if (subtype === 'x-m4a' || subtype === 'mp4') return 'm4a'
+  return subtype && EXTENSION_FORMATS[subtype] ? EXTENSION_FORMATS[subtype] : null
+}
+
+export function parseContainer(audio: Buffer, format: AudioFormat): ContainerInfo {
+  switch (format) {
+    case 'wav':
+      return parseWav(audio)
+    case 'mp3':
+      return parseMp3(audio)
+    case 'ogg':
+      return parseOgg(audio)
+    case 'm4a':
+      return parseMp4(audio)
+    case 'webm':
+      return parseWebm(audio)
+  }
+}
+
+// --- WAV ---------------------------------------------------------------------
+
+interface WavLayout {
+  formatTag: number | null
+  channels: number | null
+  sampleRate: number | null
+  byteRate: number | null
+  bitsPerSample: number | null
+  dataOffset: number | null
+  dataBytes: number | null
+}
+
+function readWavLayout(audio: Buffer): WavLayout {
+  const layout: WavLayout = {
+    formatTag: null,
+    channels: null,
+    sampleRate: null,
+    byteRate: null,
+    bitsPerSample: null,
+    dataOffset: null,
+    dataBytes: null,
+  }
+
+  let offset = 12
+  while (offset + 8 <= audio.length) {
+    const id = audio.toString('ascii', offset, offset + 4)
+    const size = audio.readUInt32LE(offset + 4)
+    const body = offset + 8
+
+    if (id === 'fmt ' && body + 16 <= audio.length) {
+      layout.formatTag = audio.readUInt16LE(body)
+      layout.channels = audio.readUInt16LE(body + 2)
+      layout.sampleRate = audio.readUInt32LE(body + 4)
+      layout.byteRate = audio.readUInt32LE(body + 8)
+      layout.bitsPerSample = audio.readUInt16LE(body + 14)
+    } else if (id === 'data') {
+      // Streamed WAVs may leave the size at 0 or 0xFFFFFFFF - trust the file length then
+      layout.dataOffset = body
+      layout.dataBytes = size === 0 || size === 0xffffffff ? audio.length - body : Math.min(size, audio.length - body)
+      break
+    }
+
+    offset = body + size + (size % 2)
+  }
+
+  return layout
+}
+
+function parseWav(audio: Buffer): ContainerInfo {
+  const layout = readWavLayout(audio)
+  const codec = layout.formatTag === 1 ? 'pcm' : layout.formatTag === 3 ? 'pcm_float' : layout.formatTag !== null ? `wav_${layout.formatTag}` : null
+
+  return {
+    codec,
+    durationMs: layout.byteRate && layout.dataBytes !== null ? Math.round((layout.dataBytes / layout.byteRate) * 1000) : null,
+    sampleRate: layout.sampleRate,
+    channels: layout.channels,
+  }
+}
+
+function toDb(ratio: number): number {
+  return ratio > 0 ? Math.round(20 * Math.log10(ratio) * 10) / 10 : -91
+}
+
+/** Mean (RMS) and peak level of 16-bit PCM WAV data; null for other encodings. */
+export function measureWavLoudness(audio: Buffer): AudioLoudness | null {
+  const layout = readWavLayout(audio)
+  if (layout.formatTag !== 1 || layout.bitsPerSample !== 16 || layout.dataOffset === null || !layout.dataBytes) {
+    return null
+  }
+
+  const end = layout.dataOffset + layout.dataBytes - 1
+  let sumSquares = 0
+  let peak = 0
+  let samples = 0
+  for (let offset = layout.dataOffset; offset < end; offset += 2) {
+    const sample = audio.readInt16LE(offset) / 32768
+    sumSquares += sample * sample
+    peak = Math.max(peak, Math.abs(sample))
+    samples++
+  }
+
+  return samples > 0 ? { mean_db: toDb(Math.sqrt(sumSquares / samples)), peak_db: toDb(peak) } : null
+}
+
+/** Mono float samples of 16-bit PCM WAV data (channels averaged); null for other encodings. */
+export function decodeWavPcm16(audio: Buffer): { samples: Float32Array; sampleRate: number } | null {
+  const layout = readWavLayout(audio)
+  if (
+    layout.formatTag !== 1 ||
+    layout.bitsPerSample !== 16 ||
+    !layout.channels ||
+    !layout.sampleRate ||
+    layout.dataOffset === null ||
+    !layout.dataBytes
+  ) {
+    return null
+  }
+
+  const channels = layout.channels
+  const frameCount = Math.floor(layout.dataBytes / (2 * channels))
+  const samples = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0
+    for (let channel = 0; channel < channels; channel++) {
+      sum += audio.readInt16LE(layout.dataOffset + (frame * channels + channel) * 2)
+    }
+    samples[frame] = sum / channels / 32768
+  }
+
+  return { samples, sampleRate: layout.sampleRate }
+}
+
+// --- MP3 ---------------------------------------------------------------------
+
+// kbps by bitrate index, per MPEG version/layer
+const MP3_BITRATES: Record<string, number[]> = {
+  'v1-l1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1-l2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1-l3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2-l1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2-l2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+const MP3_SAMPLE_RATES = [44100, 48000, 32000]
+
+interface Mp3Frame {
+  length: number
+  samples: number
+  sampleRate: number
+  channels: number
+}
+
+function readMp3Frame(audio: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > audio.length || audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) {
+    return null
+  }
+
+  const versionBits = (audio[offset + 1] >> 3) & 0x03 // 0: 2.5, 2: 2, 3: 1
+  const layerBits = (audio[offset + 1] >> 1) & 0x03 // 1: III, 2: II, 3: I
+  const bitrateIndex = audio[offset + 2] >> 4
+  const sampleRateIndex = (audio[offset + 2] >> 2) & 0x03
+  const padding = (audio[offset + 2] >> 1) & 0x01
+  const channelMode = audio[offset + 3] >> 6
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isV1 = versionBits === 3
+  const layer = 4 - layerBits
+  const table = isV1 ? `v1-l${layer}` : layer === 1 ? 'v2-l1' : 'v2-l2'
+  const bitrate = MP3_BITRATES[table][bitrateIndex] * 1000
+  const sampleRate = MP3_SAMPLE_RATES[sampleRateIndex] / (isV1 ? 1 : versionBits === 2 ? 2 : 4)
+  const samples = layer === 1 ? 384 : layer === 3 && !isV1 ? 576 : 1152
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samples / 8) * bitrate) / sampleRate) + padding
+
+  return { length, samples, sampleRate, channels: channelMode === 3 ? 1 : 2 }
+}
+
+function parseMp3(audio: Buffer): ContainerInfo {
+  let offset = 0
+  // Skip ID3v2 tags (synchsafe size, plus a 10-byte footer when flagged)
+  while (audio.length >= offset + 10 && audio.toString('ascii', offset, offset + 3) === 'ID3') {
+    const size = (audio[offset + 6] << 21) | (audio[offset + 7] << 14) | (audio[offset + 8] << 7) | audio[offset + 9]
+    offset += 10 + size + (audio[offset + 5] & 0x10 ? 10 : 0)
+  }
+
+  let totalSamples = 0
+  let first: Mp3Frame | null = null
+  while (offset < audio.length) {
+    const frame = readMp3Frame(audio, offset)
+    if (!frame || frame.length <= 0) {
+      if (audio.toString('ascii', offset, offset + 3) === 'TAG') break // ID3v1 trailer
+      offset++ // resync
+      continue
+    }
+    first = first || frame
+    totalSamples += frame.samples
+    offset += frame.length
+  }
+
+  return {
+    codec: 'mp3',
+    durationMs: first ? Math.round((totalSamples / first.sampleRate) * 1000) : null,
+    sampleRate: first?.sampleRate ?? null,
+    channels: first?.channels ?? null,
+  }
+}
+
+// --- Ogg (Opus / Vorbis) -----------------------------------------------------
+
+function parseOgg(audio: Buffer): ContainerInfo {
+  let codec: string | null = null
+  let sampleRate: number | null = null
+  let channels: number | null = null
+  let granuleRate: number | null = null
+  let preSkip = 0
+  let lastGranule: bigint | null = null
+
+  let offset = 0
+  while (offset + 27 <= audio.length && audio.toString('ascii', offset, offset + 4) === 'OggS') {
+    const granule = audio.readBigInt64LE(offset + 6)
+    const segmentCount = audio[offset + 26]
+    if (offset + 27 + segmentCount > audio.length) break
+
+    let bodyLength = 0
+    for (let i = 0; i < segmentCount; i++) {
+      bodyLength += audio[offset + 27 + i]
+    }
+    const body = offset + 27 + segmentCount
+
+    if (codec === null && body + 19 <= audio.length) {
+      if (audio.toString('ascii', body, body + 8) === 'OpusHead') {
+        codec = 'opus'
+        channels = audio[body + 9]
+        preSkip = audio.readUInt16LE(body + 10)
+        sampleRate = audio.readUInt32LE(body + 12) || 48000
+        granuleRate = 48000 // Opus granules always count 48 kHz samples
+      } else if (audio[body] === 0x01 && audio.toString('ascii', body + 1, body + 7) === 'vorbis') {
+        codec = 'vorbis'
+        channels = audio[body + 11]
+        sampleRate = audio.readUInt32LE(body + 12)
+        granuleRate = sampleRate
+      }
+    }
+    if (granule >= BigInt(0)) {
+      lastGranule = granule
+    }
+
+    offset = body + bodyLength
+  }
+
+  return {
+    codec,
+    durationMs: granuleRate && lastGranule !== null
+      ? Math.max(0, Math.round(((Number(lastGranule) - preSkip) / granuleRate) * 1000))
+      : null,
+    sampleRate,
+    channels,
+  }
+}
+
+// --- MP4 / M4A ---------------------------------------------------------------
+
+const MP4_CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl'])
+const MP4_AUDIO_ENTRIES: Record<string, string> = {
+  mp4a: 'aac',
+  Opus: 'opus',
+  alac: 'alac',
+  fLaC: 'flac',
+  'ac-3': 'ac3',
+}
+
+interface Mp4Track {
+  handler: string | null
+  timescale: number | null
+  duration: number | null
+  codec: string | null
+  sampleRate: number | null
+  channels: number | null
+}
+
+// mvhd and mdhd share the version/timescale/duration layout
+function readMediaHeader(audio: Buffer, body: number): { timescale: number; duration: number } | null {
+  const version = audio[body]
+  if (version === 1 && body + 32 <= audio.length) {
+    return { timescale: audio.readUInt32BE(body + 20), duration: Number(audio.readBigUInt64BE(body + 24)) }
+  }
+  if (body + 20 <= audio.length) {
+    return { timescale: audio.readUInt32BE(body + 12), duration: audio.readUInt32BE(body + 16) }
+  }
+  return null
+}
+
+function parseMp4(audio: Buffer): ContainerInfo {
+  let movie: { timescale: number; duration: number } | null = null
+  const tracks: Mp4Track[] = []
+
+  const walk = (start: number, end: number) => {
+    let offset = start
+    while (offset + 8 <= end) {
+      let size = audio.readUInt32BE(offset)
+      const type = audio.toString('latin1', offset + 4, offset + 8)
+      let body = offset + 8
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(audio.readBigUInt64BE(offset + 8))
+        body = offset + 16
+      } else if (size === 0) {
+        size = end - offset
+      }
+      if (size < 8) break
+      const boxEnd = Math.min(offset + size, end)
+
+      if (type === 'trak') {
+        tracks.push({ handler: null, timescale: null, duration: null, codec: null, sampleRate: null, channels: null })
+      }
+      const track = tracks[tracks.length - 1]
+
+      if (MP4_CONTAINER_BOXES.has(type)) {
+        walk(body, boxEnd)
+      } else if (type === 'mvhd') {
+        movie = readMediaHeader(audio, body)
+      } else if (type === 'mdhd' && track) {
+        const header = readMediaHeader(audio, body)
+        track.timescale = header?.timescale ?? null
+        track.duration = header?.duration ?? null
+      } else if (type === 'hdlr' && track && body + 12 <= boxEnd) {
+        track.handler = audio.toString('latin1', body + 8, body + 12)
+      } else if (type === 'stsd' && track && body + 16 <= boxEnd) {
+        // First sample entry: 8-byte box header, then the AudioSampleEntry fields
+        const entry = body + 8
+        const entryType = audio.toString('latin1', entry + 4, entry + 8)
+        const fields = entry + 8
+        track.codec = MP4_AUDIO_ENTRIES[entryType] ?? entryType.trim()
+        if (fields + 28 <= boxEnd) {
+          track.channels = audio.readUInt16BE(fields + 16)
+          track.sampleRate = audio.readUInt16BE(fields + 24) // 16.16 fixed point
+        }
+      }
+
+      offset = offset + size
+    }
+  }
+
+  walk(0, audio.length)
+
+  const audioTrack = tracks.find(track => track.handler === 'soun') || tracks[0]
+  const header: { timescale: number; duration: number } | null =
+    audioTrack?.timescale && audioTrack.duration !== null
+      ? { timescale: audioTrack.timescale, duration: audioTrack.duration }
+      : movie
+
+  return {
+    codec: audioTrack?.codec ?? null,
+    durationMs: header && header.timescale > 0 ? Math.round((header.duration / header.timescale) * 1000) : null,
+    sampleRate: audioTrack?.sampleRate || null,
+    channels: audioTrack?.channels || null,
+  }
+}
+
+// --- WebM / Matroska ---------------------------------------------------------
+
+const EBML = {
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  CODEC_ID: 0x86,
+  AUDIO: 0xe1,
+  SAMPLING_FREQUENCY: 0xb5,
+  CHANNELS: 0x9f,
+  CLUSTER: 0x1f43b675,
+  CLUSTER_TIMECODE: 0xe7,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  SIMPLE_BLOCK: 0xa3,
+}
+
+// Master elements we descend into; everything else is skipped by size
+const EBML_MASTERS = new Set([
+  EBML.SEGMENT,
+  EBML.INFO,
+  EBML.TRACKS,
+  EBML.TRACK_ENTRY,
+  EBML.AUDIO,
+  EBML.CLUSTER,
+  EBML.BLOCK_GROUP,
+])
+
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length
+  }
+  return 0
+}
+
+function readElementId(audio: Buffer, offset: number): { id: number; length: number } | null {
+  const length = offset < audio.length ? vintLength(audio[offset]) : 0
+  if (length === 0 || length > 4 || offset + length > audio.length) return null
+  return { id: audio.readUIntBE(offset, length), length }
+}
+
+function readElementSize(audio: Buffer, offset: number): { size: number; length: number; unknown: boolean } | null {
+  const length = offset < audio.length ? vintLength(audio[offset]) : 0
+  if (length === 0 || offset + length > audio.length) return null
+
+  let size = audio[offset] & (0xff >> length)
+  let allOnes = size === 0xff >> length
+  for (let i = 1; i < length; i++) {
+    size = size * 256 + audio[offset + i]
+    allOnes = allOnes && audio[offset + i] === 0xff
+  }
+  return { size, length, unknown: allOnes }
+}
+
+function readUnsigned(audio: Buffer, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + audio[offset + i]
+  }
+  return value
+}
+
+function readFloat(audio: Buffer, offset: number, length: number): number | null {
+  if (length === 4) return audio.readFloatBE(offset)
+  if (length === 8) return audio.readDoubleBE(offset)
+  return null
+}
+
+function parseWebm(audio: Buffer): ContainerInfo {
+  let timecodeScale = 1_000_000 // ns per timecode unit
+  let infoDuration: number | null = null
+  let codec: string | null = null
+  let sampleRate: number | null = null
+  let channels: number | null = null
+  let clusterTimecode = 0
+  let lastBlockTimecode: number | null = null
+
+  let offset = 0
+  while (offset < audio.length) {
+    const id = readElementId(audio, offset)
+    const size = id ? readElementSize(audio, offset + id.length) : null
+    if (!id || !size) break
+
+    const dataStart = offset + id.length + size.length
+    if (EBML_MASTERS.has(id.id)) {
+      // Descend; MediaRecorder writes Segment and Cluster with unknown sizes, which this handles
+      offset = dataStart
+      continue
+    }
+    if (size.unknown) break
+
+    const dataEnd = dataStart + size.size
+    const complete = dataEnd <= audio.length
+
+    switch (id.id) {
+      case EBML.TIMECODE_SCALE:
+        if (complete) timecodeScale = readUnsigned(audio, dataStart, size.size) || timecodeScale
+        break
+      case EBML.DURATION:
+        if (complete) infoDuration = readFloat(audio, dataStart, size.size)
+        break
+      case EBML.CODEC_ID:
+        if (complete && codec === null) {
+          const codecId = audio.toString('ascii', dataStart, dataEnd)
+          if (codecId.startsWith('A_')) codec = codecId.slice(2).toLowerCase()
+        }
+        break
+      case EBML.SAMPLING_FREQUENCY:
+        if (complete && sampleRate === null) sampleRate = readFloat(audio, dataStart, size.size)
+        break
+      case EBML.CHANNELS:
+        if (complete && channels === null) channels = readUnsigned(audio, dataStart, size.size)
+        break
+      case EBML.CLUSTER_TIMECODE:
+        if (complete) clusterTimecode = readUnsigned(audio, dataStart, size.size)
+        break
+      case EBML.SIMPLE_BLOCK:
+      case EBML.BLOCK: {
+        // Track number (vint), then a signed 16-bit timecode relative to the cluster
+        const track = readElementSize(audio, dataStart)
+        if (track && dataStart + track.length + 2 <= audio.length) {
+          const timecode = clusterTimecode + audio.readInt16BE(dataStart + track.length)
+          lastBlockTimecode = Math.max(lastBlockTimecode ?? timecode, timecode)
+        }
+        break
+      }
+    }
+
+    if (!complete) break // truncated upload
+    offset = dataEnd
+  }
+
+  const toMs = (timecode: number) => Math.round((timecode * timecodeScale) / 1_000_000)
+  const candidates = [infoDuration, lastBlockTimecode].filter((value): value is number => value !== null && value > 0)
+
+  return {
+    codec,
+    durationMs: candidates.length > 0 ? toMs(Math.max(...candidates)) : null,
+    sampleRate: sampleRate ? Math.round(sampleRate) : null,
+    channels,
+  }
+}
@@ -0,0 +1,119 @@
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { AudioFormat, AudioLoudness } from './types'
+
+/**
+ * Thin wrapper around an ffmpeg binary (FFMPEG_PATH, default `ffmpeg` on PATH).
+ * ffmpeg is optional: when it isn't installed every helper resolves to null and callers
+ * keep the container-level probe and the original upload.
+ */
+
+const FFMPEG_TIMEOUT_MS = 120_000
+const FFMPEG_MAX_OUTPUT_BYTES = 16 * 1024 * 1024
+
+let ffmpegMissing = false
+
+function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg'
+}
+
+function execFfmpeg(args: string[]): Promise<{ stderr: string }> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      getFfmpegPath(),
+      ['-hide_banner', '-nostdin', ...args],
+      { timeout: FFMPEG_TIMEOUT_MS, maxBuffer: FFMPEG_MAX_OUTPUT_BYTES, encoding: 'utf8' },
+      (error, _stdout, stderr) => {
+        if (error) {
+          const wrapped: any = new Error(`ffmpeg failed: ${stderr?.trim().split('\n').pop() || error.message}`)
+          wrapped.code = (error as any).code
+          reject(wrapped)
+          return
+        }
+        resolve({ stderr })
+      }
+    )
+  })
+}
+
+// Run ffmpeg against the audio written to a temp file (mp4/m4a can't be read from a pipe
+// when the index is at the end). Returns null when ffmpeg isn't installed.
+async function withInputFile<T>(
+  audio: Buffer,
+  format: AudioFormat | null,
+  run: (inputPath: string, dir: string) => Promise<T>
+): Promise<T | null> {
+  if (ffmpegMissing) {
+    return null
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'pitchpractice-audio-'))
+  try {
+    const inputPath = path.join(dir, `input.${format || 'bin'}`)
+    await writeFile(inputPath, audio)
+    return await run(inputPath, dir)
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      ffmpegMissing = true
+      console.warn('[Audio] ffmpeg not found, skipping decode-based probing and normalization:', {
+        ffmpegPath: getFfmpegPath(),
+      })
+      return null
+    }
+    throw error
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+function matchNumber(text: string, pattern: RegExp): number | null {
+  const match = text.match(pattern)
+  return match ? parseFloat(match[1]) : null
+}
+
+export interface FfmpegAnalysis {
+  durationMs: number | null
+  sampleRate: number | null
+  channels: number | null
+  loudness: AudioLoudness | null
+}
+
+/** Decode the first audio stream and measure loudness (volumedetect). */
+export async function analyzeWithFfmpeg(audio: Buffer, format: AudioFormat | null): Promise<FfmpegAnalysis | null> {
+  return withInputFile(audio, format, async (inputPath) => {
+    const { stderr } = await execFfmpeg(['-nostats', '-i', inputPath, '-map', '0:a:0', '-af', 'volumedetect', '-f', 'null', '-'])
+
+    // e.g. "Stream #0:0: Audio: opus, 48000 Hz, mono, fltp"
+    const stream = stderr.match(/Audio: [^,]+, (\d+) Hz, ([^,\n]+)/)
+    const sampleRate = stream ? parseInt(stream[1], 10) : null
+    const layout = stream?.[2].trim() ?? null
+    const channels = layout === 'mono' ? 1 : layout === 'stereo' ? 2 : matchNumber(layout || '', /^(\d+) channels/)
+    const meanDb = matchNumber(stderr, /mean_volume: (-?[\d.]+) dB/)
+    const peakDb = matchNumber(stderr, /max_volume: (-?[\d.]+) dB/)
+    // n_samples counts every channel's samples
+    const samples = matchNumber(stderr, /n_samples: (\d+)/)
+
+    return {
+      durationMs: samples && sampleRate && channels ? Math.round((samples / channels / sampleRate) * 1000) : null,
+      sampleRate,
+      channels,
+      loudness: meanDb !== null && peakDb !== null ? { mean_db: meanDb, peak_db: peakDb } : null,
+    }
+  })
+}
+
+/** Transcode the audio with the given output options; returns the encoded file. */
+export async function transcodeWithFfmpeg(
+  audio: Buffer,
+  format: AudioFormat | null,
+  outputArgs: string[],
+  outputExtension: string
+): Promise<Buffer | null> {
+  return withInputFile(audio, format, async (inputPath, dir) => {
+    const outputPath = path.join(dir, `output.${outputExtension}`)
+    await execFfmpeg(['-i', inputPath, '-map', '0:a:0', ...outputArgs, '-y', outputPath])
+    return readFile(outputPath)
+  })
+}
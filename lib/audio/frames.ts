@@ -0,0 +1,136 @@
+import type { PcmAudio } from './pcm'
+
+/**
+ * Frame-level loudness and pitch shared by the acoustic analyses (voice metrics,
+ * filled-pause detection). 40 ms frames at ~8 kHz; pitch (F0) from normalized autocorrelation.
+ */
+
+export const FRAME_SEC = 0.04
+
+const TARGET_SAMPLE_RATE = 8000
+const MIN_PITCH_HZ = 70
+const MAX_PITCH_HZ = 400
+// Normalized autocorrelation a frame needs to count as voiced
+const VOICING_THRESHOLD = 0.6
+// Frames this far below the loud end of the run (95th percentile) are treated as silence
+const SPEECH_RANGE_DB = 35
+const MIN_SPEECH_DB = -55
+
+export interface AudioFrames {
+  durationSec: number
+  frameCount: number
+  /** RMS level per frame in dBFS */
+  db: Float32Array
+  /** F0 per frame in Hz; NaN for silent or unvoiced frames */
+  pitch: Float32Array
+  /** Frames at or above this level count as speech */
+  speechThreshold: number
+}
+
+export function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+export function standardDeviation(values: number[]): number | null {
+  const average = mean(values)
+  if (average === null) return null
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length)
+}
+
+// values must be sorted ascending
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  return values[Math.min(values.length - 1, Math.floor(p * values.length))]
+}
+
+export function semitones(hz: number, referenceHz: number): number {
+  return 12 * Math.log2(hz / referenceHz)
+}
+
+// Box-filter and decimate to ~8 kHz; pitch and loudness don't need more
+function downsample(pcm: PcmAudio): PcmAudio {
+  const factor = Math.max(1, Math.floor(pcm.sampleRate / TARGET_SAMPLE_RATE))
+  if (factor === 1) return pcm
+
+  const samples = new Float32Array(Math.floor(pcm.samples.length / factor))
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0
+    for (let j = 0; j < factor; j++) {
+      sum += pcm.samples[i * factor + j]
+    }
+    samples[i] = sum / factor
+  }
+  return { samples, sampleRate: pcm.sampleRate / factor }
+}
+
+// F0 of one frame, or null when unvoiced
+function detectPitch(samples: Float32Array, start: number, length: number, sampleRate: number): number | null {
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_PITCH_HZ))
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH_HZ), length - 2)
+  if (maxLag <= minLag) return null
+
+  const energy = new Float64Array(length + 1)
+  for (let i = 0; i < length; i++) {
+    energy[i + 1] = energy[i] + samples[start + i] * samples[start + i]
+  }
+
+  const correlation = new Float64Array(maxLag + 2)
+  let best = 0
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0
+    for (let i = 0; i < length - lag; i++) {
+      sum += samples[start + i] * samples[start + i + lag]
+    }
+    const norm = Math.sqrt((energy[length - lag] - energy[0]) * (energy[length] - energy[lag]))
+    correlation[lag] = norm > 0 ? sum / norm : 0
+    if (lag <= maxLag) best = Math.max(best, correlation[lag])
+  }
+  if (best < VOICING_THRESHOLD) return null
+
+  // First peak close to the best one - avoids locking onto a multiple of the period
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = correlation[lag]
+    const isPeak = value >= correlation[lag - 1] && value >= correlation[lag + 1]
+    if (isPeak && value >= best * 0.9) {
+      // Parabolic interpolation around the peak
+      const left = correlation[lag - 1]
+      const right = correlation[lag + 1]
+      const denominator = left - 2 * value + right
+      const offset = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0
+      return sampleRate / (lag + Math.max(-0.5, Math.min(0.5, offset)))
+    }
+  }
+  return null
+}
+
+/** Split decoded audio into frames with level and pitch. Returns null for recordings under a second. */
+export function analyzeFrames(pcm: PcmAudio): AudioFrames | null {
+  const { samples, sampleRate } = downsample(pcm)
+  const frameLength = Math.round(sampleRate * FRAME_SEC)
+  const frameCount = Math.floor(samples.length / frameLength)
+  if (frameCount < 1 / FRAME_SEC) {
+    return null
+  }
+
+  const db = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sumSquares = 0
+    for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) {
+      sumSquares += samples[i] * samples[i]
+    }
+    const rms = Math.sqrt(sumSquares / frameLength)
+    db[frame] = rms > 0 ? Math.max(-100, 20 * Math.log10(rms)) : -100
+  }
+
+  const sortedDb = Array.from(db).sort((a, b) => a - b)
+  const speechThreshold = Math.max(MIN_SPEECH_DB, (percentile(sortedDb, 0.95) ?? 0) - SPEECH_RANGE_DB)
+
+  const pitch = new Float32Array(frameCount).fill(NaN)
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (db[frame] >= speechThreshold) {
+      pitch[frame] = detectPitch(samples, frame * frameLength, frameLength, sampleRate) ?? NaN
+    }
+  }
+
+  return { durationSec: samples.length / sampleRate, frameCount, db, pitch, speechThreshold }
+}
@@ -0,0 +1,81 @@
+import type { TranscriptWord } from '@/lib/types'
+import { FRAME_SEC, semitones, standardDeviation, type AudioFrames } from './frames'
+
+/**
+ * Filled pauses ("um", "uh") found in the audio rather than the transcript. Whisper often
+ * drops them, leaving a gap between timed words; a gap that holds a sustained voiced sound
+ * at a near-constant pitch is counted as a hesitation the transcript left out.
+ */
+
+// Shorter gaps are ordinary word boundaries
+const MIN_GAP_SEC = 0.3
+// Word timestamps are loose; ignore audio this close to the neighbouring words
+const EDGE_MARGIN_SEC = 0.06
+const MIN_FILLED_PAUSE_SEC = 0.2
+// Hesitation vowels are held on one note; words and breaths move more than this
+const MAX_PITCH_SPREAD_SEMITONES = 1
+// Unvoiced frames tolerated inside one filled pause
+const MAX_DROPOUT_FRAMES = 1
+
+export interface FilledPause {
+  start_sec: number
+  end_sec: number
+  /** Transcript words either side, for context */
+  before: string
+  after: string
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Longest voiced run in [fromFrame, toFrame), allowing short dropouts
+function longestVoicedRun(pitch: Float32Array, fromFrame: number, toFrame: number): [number, number] | null {
+  let best: [number, number] | null = null
+  let runStart = -1
+  let lastVoiced = -1
+
+  for (let frame = fromFrame; frame < toFrame; frame++) {
+    if (Number.isNaN(pitch[frame])) continue
+    if (runStart < 0 || frame - lastVoiced - 1 > MAX_DROPOUT_FRAMES) {
+      runStart = frame
+    }
+    lastVoiced = frame
+    if (!best || frame + 1 - runStart > best[1] - best[0]) {
+      best = [runStart, frame + 1]
+    }
+  }
+  return best
+}
+
+/** Find filled pauses in the silences between transcribed words. */
+export function detectFilledPauses(frames: AudioFrames, words: TranscriptWord[]): FilledPause[] {
+  const pauses: FilledPause[] = []
+
+  for (let i = 0; i < words.length - 1; i++) {
+    const gapStart = words[i].end + EDGE_MARGIN_SEC
+    const gapEnd = words[i + 1].start - EDGE_MARGIN_SEC
+    if (words[i + 1].start - words[i].end < MIN_GAP_SEC || gapEnd <= gapStart) continue
+
+    const run = longestVoicedRun(
+      frames.pitch,
+      Math.max(0, Math.ceil(gapStart / FRAME_SEC)),
+      Math.min(frames.frameCount, Math.floor(gapEnd / FRAME_SEC))
+    )
+    if (!run || (run[1] - run[0]) * FRAME_SEC < MIN_FILLED_PAUSE_SEC) continue
+
+    const runPitches = Array.from(frames.pitch.subarray(run[0], run[1])).filter(hz => !Number.isNaN(hz))
+    const reference = runPitches[Math.floor(runPitches.length / 2)]
+    const spread = standardDeviation(runPitches.map(hz => semitones(hz, reference)))
+    if (spread === null || spread > MAX_PITCH_SPREAD_SEMITONES) continue
+
+    pauses.push({
+      start_sec: round2(run[0] * FRAME_SEC),
+      end_sec: round2(run[1] * FRAME_SEC),
+      before: words[i].word.trim(),
+      after: words[i + 1].word.trim(),
+    })
+  }
+
+  return pauses
+}
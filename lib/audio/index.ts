@@ -0,0 +1,7 @@
+export { detectAudioFormat } from './containers'
+export { analyzeFrames, type AudioFrames } from './frames'
+export { detectFilledPauses, type FilledPause } from './hesitation'
+export { decodeToPcm, type PcmAudio } from './pcm'
+export { normalizeForTranscription, probeAudio, TRANSCRIPTION_AUDIO_FORMAT } from './probe'
+export { analyzeVoice } from './voice'
+export type { AudioFormat, AudioLoudness, AudioProbe, NormalizedAudio } from './types'
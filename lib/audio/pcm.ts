@@ -0,0 +1,36 @@
+import { decodeWavPcm16, detectAudioFormat } from './containers'
+import { transcodeWithFfmpeg } from './ffmpeg'
+
+export interface PcmAudio {
+  /** Mono samples in [-1, 1] */
+  samples: Float32Array
+  sampleRate: number
+}
+
+// Plenty for voice pitch (< 400 Hz) and loudness; an hour of float samples is ~115 MB
+const ANALYSIS_SAMPLE_RATE = 8000
+
+/**
+ * Decode a recording to mono PCM for acoustic analysis. 16-bit WAV is read directly;
+ * other formats need ffmpeg. Returns null when the audio can't be decoded.
+ */
+export async function decodeToPcm(audio: Buffer, hint: { fileName?: string; mimeType?: string } = {}): Promise<PcmAudio | null> {
+  const format = detectAudioFormat(audio, hint)
+  if (format === 'wav') {
+    const pcm = decodeWavPcm16(audio)
+    if (pcm) return pcm
+  }
+
+  try {
+    const wav = await transcodeWithFfmpeg(
+      audio,
+      format,
+      ['-ac', '1', '-ar', String(ANALYSIS_SAMPLE_RATE), '-c:a', 'pcm_s16le'],
+      'wav'
+    )
+    return wav ? decodeWavPcm16(wav) : null
+  } catch (error: any) {
+    console.warn('[Audio] Could not decode audio to PCM:', { format, error: error.message })
+    return null
+  }
+}
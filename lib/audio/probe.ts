@@ -0,0 +1,89 @@
+import { detectAudioFormat, measureWavLoudness, parseContainer, type ContainerInfo } from './containers'
+import { analyzeWithFfmpeg, transcodeWithFfmpeg } from './ffmpeg'
+import type { AudioProbe, NormalizedAudio } from './types'
+
+interface AudioHint {
+  fileName?: string
+  mimeType?: string
+}
+
+/**
+ * Measure duration, sample rate, channels and loudness of an uploaded recording.
+ * Container headers give the format details without decoding; ffmpeg (when installed)
+ * fills in loudness and anything the headers didn't have. Never throws.
+ */
+export async function probeAudio(audio: Buffer, hint: AudioHint = {}): Promise<AudioProbe> {
+  const format = detectAudioFormat(audio, hint)
+
+  let info: ContainerInfo | null = null
+  if (format) {
+    try {
+      info = parseContainer(audio, format)
+    } catch (error: any) {
+      console.warn('[Audio] Could not parse container:', { format, error: error.message })
+    }
+  }
+
+  const probe: AudioProbe = {
+    format,
+    codec: info?.codec ?? null,
+    duration_ms: info?.durationMs || null,
+    sample_rate: info?.sampleRate ?? null,
+    channels: info?.channels ?? null,
+    loudness: format === 'wav' ? measureWavLoudness(audio) : null,
+    bytes: audio.length,
+    source: 'container',
+  }
+
+  if (probe.loudness && probe.duration_ms) {
+    return probe
+  }
+
+  try {
+    const analysis = await analyzeWithFfmpeg(audio, format)
+    if (analysis) {
+      probe.loudness = probe.loudness ?? analysis.loudness
+      probe.sample_rate = probe.sample_rate ?? analysis.sampleRate
+      probe.channels = probe.channels ?? analysis.channels
+      if (!probe.duration_ms && analysis.durationMs) {
+        probe.duration_ms = analysis.durationMs
+        probe.source = 'ffmpeg'
+      }
+    }
+  } catch (error: any) {
+    console.warn('[Audio] ffmpeg analysis failed:', { format, error: error.message })
+  }
+
+  return probe
+}
+
+// Canonical input for speech-to-text: mono 16 kHz (what Whisper models use internally),
+// as 32 kbps MP3 so an hour stays under the 25 MB OpenAI upload limit
+export const TRANSCRIPTION_AUDIO_FORMAT = {
+  mimeType: 'audio/mpeg',
+  extension: 'mp3',
+  sampleRate: 16000,
+  channels: 1,
+  bitrate: '32k',
+} as const
+
+/**
+ * Re-encode a recording to TRANSCRIPTION_AUDIO_FORMAT. Returns null (use the original)
+ * when ffmpeg isn't installed or the conversion fails.
+ */
+export async function normalizeForTranscription(audio: Buffer, hint: AudioHint = {}): Promise<NormalizedAudio | null> {
+  const { mimeType, extension, sampleRate, channels, bitrate } = TRANSCRIPTION_AUDIO_FORMAT
+
+  try {
+    const normalized = await transcodeWithFfmpeg(
+      audio,
+      detectAudioFormat(audio, hint),
+      ['-ac', String(channels), '-ar', String(sampleRate), '-c:a', 'libmp3lame', '-b:a', bitrate],
+      extension
+    )
+    return normalized ? { audio: normalized, mimeType, extension } : null
+  } catch (error: any) {
+    console.warn('[Audio] Normalization failed, using original audio:', { error: error.message })
+    return null
+  }
+}
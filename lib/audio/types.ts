@@ -0,0 +1,29 @@
+export type AudioFormat = 'webm' | 'mp3' | 'wav' | 'm4a' | 'ogg'
+
+// Volume in dBFS (0 = full scale), as reported by ffmpeg's volumedetect
+export interface AudioLoudness {
+  mean_db: number
+  peak_db: number
+}
+
+/**
+ * What the server measured about an uploaded recording. Persisted as pitch_runs.audio_meta;
+ * duration_ms is also written to pitch_runs.duration_ms as the authoritative length.
+ */
+export interface AudioProbe {
+  format: AudioFormat | null
+  codec: string | null
+  duration_ms: number | null
+  sample_rate: number | null
+  channels: number | null
+  loudness: AudioLoudness | null
+  bytes: number
+  /** 'container' when read from file headers/frames, 'ffmpeg' when decoded */
+  source: 'container' | 'ffmpeg'
+}
+
+export interface NormalizedAudio {
+  audio: Buffer
+  mimeType: string
+  extension: string
+}
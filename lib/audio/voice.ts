@@ -0,0 +1,218 @@
+import type { AnalysisVoice, AnalysisVoiceFlag, AnalysisVoicePoint } from '@/lib/analysis'
+import type { TranscriptSegment } from '@/lib/types'
+import { FRAME_SEC, mean, percentile, semitones, standardDeviation, type AudioFrames } from './frames'
+
+/**
+ * Acoustic delivery metrics from decoded audio: a loudness envelope, pitch variation,
+ * and flagged stretches that sound monotone, trail off at the end of a sentence, or drop in energy.
+ */
+
+const MAX_TIMELINE_POINTS = 240
+
+const MONOTONE_WINDOW_SEC = 10
+const MONOTONE_HOP_SEC = 5
+const MONOTONE_MIN_VOICED_SEC = 2
+const MONOTONE_SEMITONES = 1.5
+const MONOTONE_NOTE_SEMITONES = 2
+const ENERGY_DROP_DB = 6
+const ENERGY_DROP_MIN_SEC = 5
+const TRAILING_OFF_DB = 6
+const TRAILING_TAIL_SHARE = 0.3
+const TRAILING_MIN_SEGMENT_SEC = 2
+const MAX_FLAGS_PER_TYPE = 10
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+// Merge overlapping [start, end] ranges (sorted by start)
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = []
+  for (const [start, end] of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
+
+function strongest(flags: Array<AnalysisVoiceFlag & { severity: number }>): AnalysisVoiceFlag[] {
+  return flags
+    .sort((a, b) => b.severity - a.severity)
+    .slice(0, MAX_FLAGS_PER_TYPE)
+    .map(({ severity, ...flag }) => flag)
+}
+
+/**
+ * Measure loudness and pitch over the recording. Transcript segments (when the run has
+ * timings) let trailing-off be judged per sentence.
+ */
+export function analyzeVoice(frames: AudioFrames, segments: TranscriptSegment[] = []): AnalysisVoice {
+  const { durationSec, frameCount, db: frameDb, pitch: framePitch, speechThreshold } = frames
+  const isSpeech = (frame: number) => frameDb[frame] >= speechThreshold
+  const toFrame = (sec: number) => Math.max(0, Math.min(frameCount, Math.round(sec / FRAME_SEC)))
+  const speechDbBetween = (startSec: number, endSec: number) => {
+    const values: number[] = []
+    for (let frame = toFrame(startSec); frame < toFrame(endSec); frame++) {
+      if (isSpeech(frame)) values.push(frameDb[frame])
+    }
+    return values
+  }
+  const pitchBetween = (startSec: number, endSec: number) => {
+    const values: number[] = []
+    for (let frame = toFrame(startSec); frame < toFrame(endSec); frame++) {
+      if (!Number.isNaN(framePitch[frame])) values.push(framePitch[frame])
+    }
+    return values
+  }
+
+  // Overall loudness and pitch
+  const speechDb = speechDbBetween(0, durationSec).sort((a, b) => a - b)
+  const meanDb = mean(speechDb)
+  const p10Db = percentile(speechDb, 0.1)
+  const p90Db = percentile(speechDb, 0.9)
+
+  const pitches = pitchBetween(0, durationSec).sort((a, b) => a - b)
+  const medianHz = percentile(pitches, 0.5)
+  const minHz = percentile(pitches, 0.05)
+  const maxHz = percentile(pitches, 0.95)
+  const variability = medianHz && pitches.length >= 1 / FRAME_SEC
+    ? standardDeviation(pitches.map(hz => semitones(hz, medianHz)))
+    : null
+
+  // Timeline, capped at MAX_TIMELINE_POINTS
+  const stepSec = Math.max(1, Math.ceil(durationSec / MAX_TIMELINE_POINTS))
+  const timeline: AnalysisVoicePoint[] = []
+  for (let t = 0; t < durationSec; t += stepSec) {
+    const bucketDb = mean(speechDbBetween(t, t + stepSec))
+    const bucketPitches = pitchBetween(t, t + stepSec).sort((a, b) => a - b)
+    timeline.push({
+      t,
+      loudness_db: bucketDb !== null ? round1(bucketDb) : null,
+      pitch_hz: bucketPitches.length >= 3 ? Math.round(percentile(bucketPitches, 0.5)!) : null,
+    })
+  }
+
+  // Monotone: sliding windows whose voiced pitch barely moves
+  const monotoneRanges: Array<[number, number]> = []
+  if (medianHz) {
+    const lastStart = Math.max(0, durationSec - MONOTONE_WINDOW_SEC)
+    for (let start = 0; start <= lastStart; start += MONOTONE_HOP_SEC) {
+      const windowPitches = pitchBetween(start, start + MONOTONE_WINDOW_SEC)
+      if (windowPitches.length * FRAME_SEC < MONOTONE_MIN_VOICED_SEC) continue
+      const spread = standardDeviation(windowPitches.map(hz => semitones(hz, medianHz)))
+      if (spread !== null && spread < MONOTONE_SEMITONES) {
+        monotoneRanges.push([start, Math.min(durationSec, start + MONOTONE_WINDOW_SEC)])
+      }
+    }
+  }
+  const monotoneFlags = mergeRanges(monotoneRanges).map(([start, end]) => ({
+    type: 'monotone' as const,
+    start_sec: round1(start),
+    end_sec: round1(end),
+    note: `Flat pitch from ${formatSeconds(start)} to ${formatSeconds(end)} - lift your voice on the key words`,
+    severity: end - start,
+  }))
+
+  // Energy drops: stretches of speech well below the run's average level
+  const energyFlags: Array<AnalysisVoiceFlag & { severity: number }> = []
+  if (meanDb !== null) {
+    let runStart: number | null = null
+    let runEnd = 0
+    let runValues: number[] = []
+    const closeRun = () => {
+      if (runStart !== null && runEnd - runStart >= ENERGY_DROP_MIN_SEC) {
+        const drop = Math.round(meanDb - (mean(runValues) ?? meanDb))
+        energyFlags.push({
+          type: 'energy_drop',
+          start_sec: runStart,
+          end_sec: runEnd,
+          note: `Energy dropped about ${drop} dB below your average from ${formatSeconds(runStart)} to ${formatSeconds(runEnd)}`,
+          severity: drop * (runEnd - runStart),
+        })
+      }
+      runStart = null
+      runValues = []
+    }
+    for (let second = 0; second < Math.floor(durationSec); second++) {
+      const secondDb = speechDbBetween(second, second + 1)
+      // Mostly-silent seconds (pauses) neither extend nor break a quiet stretch
+      if (secondDb.length < 0.25 / FRAME_SEC) continue
+      const level = mean(secondDb)!
+      if (level < meanDb - ENERGY_DROP_DB) {
+        runStart = runStart ?? second
+        runEnd = second + 1
+        runValues.push(level)
+      } else {
+        closeRun()
+      }
+    }
+    closeRun()
+  }
+
+  // Trailing off: the end of a sentence noticeably quieter than the rest of it
+  const trailingFlags: Array<AnalysisVoiceFlag & { severity: number }> = []
+  for (const segment of segments) {
+    const length = segment.end - segment.start
+    if (length < TRAILING_MIN_SEGMENT_SEC) continue
+    const tailStart = segment.end - length * TRAILING_TAIL_SHARE
+    const head = mean(speechDbBetween(segment.start, tailStart))
+    const tailValues = speechDbBetween(tailStart, segment.end)
+    const tail = tailValues.length >= 5 ? mean(tailValues) : null
+    if (head === null || tail === null || head - tail < TRAILING_OFF_DB) continue
+
+    const ending = segment.text.trim().split(/\s+/).slice(-6).join(' ')
+    trailingFlags.push({
+      type: 'trailing_off',
+      start_sec: round1(tailStart),
+      end_sec: round1(segment.end),
+      note: `Trailed off ${Math.round(head - tail)} dB at "...${ending}"`,
+      severity: head - tail,
+    })
+  }
+
+  const flags = [...strongest(monotoneFlags), ...strongest(energyFlags), ...strongest(trailingFlags)]
+    .sort((a, b) => a.start_sec - b.start_sec)
+
+  const notes: string[] = []
+  if (variability === null) {
+    notes.push('Not enough voiced speech to measure pitch variation.')
+  } else if (variability < MONOTONE_NOTE_SEMITONES) {
+    notes.push(`Your pitch varied by only ${round1(variability)} semitones on average, which can sound monotone. Lift your voice on numbers and key claims.`)
+  } else {
+    notes.push(`Good vocal variety: your pitch moved ${round1(variability)} semitones on average.`)
+  }
+  if (trailingFlags.length >= 2) {
+    notes.push(`You trailed off at the end of ${trailingFlags.length} sentences. Keep your volume up through the last word.`)
+  }
+  if (energyFlags.length > 0) {
+    notes.push(`Your energy dipped in ${energyFlags.length} stretch${energyFlags.length === 1 ? '' : 'es'} - see the timeline.`)
+  }
+
+  return {
+    duration_sec: round1(durationSec),
+    loudness: {
+      mean_db: meanDb !== null ? round1(meanDb) : null,
+      range_db: p10Db !== null && p90Db !== null ? round1(p90Db - p10Db) : null,
+    },
+    pitch: {
+      median_hz: medianHz !== null ? Math.round(medianHz) : null,
+      min_hz: minHz !== null ? Math.round(minHz) : null,
+      max_hz: maxHz !== null ? Math.round(maxHz) : null,
+      range_semitones: minHz && maxHz ? round1(semitones(maxHz, minHz)) : null,
+      variability_semitones: variability !== null ? round1(variability) : null,
+    },
+    timeline_step_sec: stepSec,
+    timeline,
+    flags,
+    notes,
+  }
+}
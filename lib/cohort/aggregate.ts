@@ -0,0 +1,254 @@
+import { getFillerWordTotal, type AnalysisJson, type AnalysisLineCategory } from '@/lib/analysis'
+import { getLanguageProfile } from '@/lib/languages'
+import type { OrganizationMember } from '@/lib/organizations'
+import {
+  COHORT_CURVE_ATTEMPTS,
+  COHORT_TOP_ISSUE_CATEGORIES,
+  type CohortAnalytics,
+  type CohortBucket,
+  type CohortCriterion,
+  type CohortDistribution,
+  type CohortIssueCategory,
+  type CohortLearnerTrend,
+} from './types'
+
+/** The pitch_runs columns cohort analytics read */
+export interface CohortRun {
+  id: string
+  user_id: string
+  created_at: string
+  title: string | null
+  status: string
+  duration_ms: number | null
+  audio_seconds: number | null
+  words_per_minute: number | null
+  language: string | null
+  analysis_json: AnalysisJson | null
+}
+
+// Bucket edges: each bucket is [edge, next edge)
+const WPM_EDGES = [110, 130, 150, 170, 190]
+const FILLERS_PER_MINUTE_EDGES = [1, 2, 4, 6]
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round1(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+}
+
+function criterionKey(label: string): string {
+  return label.trim().toLowerCase()
+}
+
+function isAnalyzed(run: CohortRun): run is CohortRun & { analysis_json: AnalysisJson } {
+  return run.status === 'analyzed' && !!run.analysis_json
+}
+
+export function runDurationSeconds(run: Pick<CohortRun, 'duration_ms' | 'audio_seconds'>): number | null {
+  if (run.duration_ms) return run.duration_ms / 1000
+  return run.audio_seconds || null
+}
+
+/**
+ * Pace of a run: the stored column, else what analysis measured. Null for languages paced
+ * in characters per minute (Japanese), which don't compare with words per minute.
+ */
+export function runWordsPerMinute(run: CohortRun): number | null {
+  if (getLanguageProfile(run.language).pacing.unit !== 'words') return null
+  return run.words_per_minute
+    ?? run.analysis_json?.premium_insights?.pacing.wpm_overall
+    ?? run.analysis_json?.timing?.pacing_wpm
+    ?? null
+}
+
+/** Filler words per minute of speech; null without a filler count or a duration */
+export function runFillersPerMinute(run: CohortRun): number | null {
+  const fillers = getFillerWordTotal(run.analysis_json)
+  const seconds = runDurationSeconds(run)
+  return fillers !== null && seconds ? round1(fillers / (seconds / 60)) : null
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))]
+}
+
+function buckets(values: number[], edges: number[]): CohortBucket[] {
+  const bounds = [null, ...edges, null]
+  return bounds.slice(0, -1).map((min, idx) => {
+    const max = bounds[idx + 1]
+    return {
+      label: min === null ? `<${max}` : max === null ? `${min}+` : `${min}–${max}`,
+      min,
+      max,
+      count: values.filter(value => (min === null || value >= min) && (max === null || value < max)).length,
+    }
+  })
+}
+
+function distribution(values: number[], edges: number[]): CohortDistribution {
+  const sorted = [...values].sort((a, b) => a - b)
+  const empty = sorted.length === 0
+  return {
+    count: sorted.length,
+    average: average(sorted),
+    min: empty ? null : round1(sorted[0]),
+    p25: empty ? null : round1(percentile(sorted, 0.25)),
+    median: empty ? null : round1(percentile(sorted, 0.5)),
+    p75: empty ? null : round1(percentile(sorted, 0.75)),
+    max: empty ? null : round1(sorted[sorted.length - 1]),
+    buckets: buckets(sorted, edges),
+  }
+}
+
+/** Per-criterion averages, weakest first, with each learner's first vs latest score. */
+function aggregateCriteria(runsByLearner: Map<string, Array<CohortRun & { analysis_json: AnalysisJson }>>): CohortCriterion[] {
+  const criteria = new Map<string, {
+    label: string
+    scores: number[]
+    missing: number
+    firsts: number[]
+    latests: number[]
+  }>()
+
+  runsByLearner.forEach(runs => {
+    const learnerScores = new Map<string, number[]>()
+    for (const run of runs) {
+      for (const score of run.analysis_json.rubric_scores || []) {
+        const key = criterionKey(score.criterion_label)
+        if (!criteria.has(key)) {
+          criteria.set(key, { label: score.criterion_label, scores: [], missing: 0, firsts: [], latests: [] })
+        }
+        const entry = criteria.get(key)!
+        entry.scores.push(score.score)
+        if (score.missing) entry.missing++
+        learnerScores.set(key, [...(learnerScores.get(key) || []), score.score])
+      }
+    }
+    learnerScores.forEach((scores, key) => {
+      const entry = criteria.get(key)!
+      entry.firsts.push(scores[0])
+      entry.latests.push(scores[scores.length - 1])
+    })
+  })
+
+  return Array.from(criteria.values())
+    .map(entry => {
+      const firstAverage = average(entry.firsts)!
+      const latestAverage = average(entry.latests)!
+      return {
+        label: entry.label,
+        average: average(entry.scores)!,
+        run_count: entry.scores.length,
+        learner_count: entry.firsts.length,
+        missing_count: entry.missing,
+        first_average: firstAverage,
+        latest_average: latestAverage,
+        change: round1(latestAverage - firstAverage),
+      }
+    })
+    .sort((a, b) => a.average - b.average || a.label.localeCompare(b.label))
+}
+
+/** The most common line_by_line issue categories, by how many runs they show up in. */
+function aggregateIssueCategories(runs: Array<CohortRun & { analysis_json: AnalysisJson }>): CohortIssueCategory[] {
+  const categories = new Map<AnalysisLineCategory, { issues: number; runs: Set<string>; learners: Set<string> }>()
+
+  for (const run of runs) {
+    for (const item of run.analysis_json.line_by_line || []) {
+      if (item.type !== 'issue') continue
+      if (!categories.has(item.category)) {
+        categories.set(item.category, { issues: 0, runs: new Set(), learners: new Set() })
+      }
+      const entry = categories.get(item.category)!
+      entry.issues++
+      entry.runs.add(run.id)
+      entry.learners.add(run.user_id)
+    }
+  }
+
+  return Array.from(categories.entries())
+    .map(([category, entry]) => ({
+      category,
+      issue_count: entry.issues,
+      run_count: entry.runs.size,
+      learner_count: entry.learners.size,
+      run_share: Math.round((entry.runs.size / runs.length) * 100) / 100,
+    }))
+    .sort((a, b) => b.run_count - a.run_count || b.issue_count - a.issue_count || a.category.localeCompare(b.category))
+    .slice(0, COHORT_TOP_ISSUE_CATEGORIES)
+}
+
+/**
+ * Cohort analytics for an organization's learners from their runs (any order; Q&A
+ * answer runs should be left out). Only analyzed runs contribute scores and metrics.
+ */
+export function buildCohortAnalytics(members: OrganizationMember[], runs: CohortRun[]): CohortAnalytics {
+  const learners = members.filter(member => member.role === 'learner')
+  const learnerIds = new Set(learners.map(member => member.user_id))
+  const ordered = runs
+    .filter(run => learnerIds.has(run.user_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const analyzed = ordered.filter(isAnalyzed)
+
+  const runsByLearner = new Map<string, Array<CohortRun & { analysis_json: AnalysisJson }>>()
+  for (const run of analyzed) {
+    runsByLearner.set(run.user_id, [...(runsByLearner.get(run.user_id) || []), run])
+  }
+
+  const overallScore = (run: CohortRun & { analysis_json: AnalysisJson }) => run.analysis_json.summary?.overall_score ?? null
+  const scoresOf = (userId: string) =>
+    (runsByLearner.get(userId) || []).map(overallScore).filter((score): score is number => score !== null)
+
+  const trends: CohortLearnerTrend[] = learners
+    .map(member => {
+      const scores = scoresOf(member.user_id)
+      return {
+        user_id: member.user_id,
+        email: member.email,
+        run_count: ordered.filter(run => run.user_id === member.user_id).length,
+        analyzed_count: runsByLearner.get(member.user_id)?.length ?? 0,
+        first_score: scores[0] ?? null,
+        latest_score: scores[scores.length - 1] ?? null,
+        best_score: scores.length > 0 ? Math.max(...scores) : null,
+        change: scores.length >= 2 ? round1(scores[scores.length - 1] - scores[0]) : null,
+        scores,
+      }
+    })
+    // Most improved first, then learners without a trend by email
+    .sort((a, b) =>
+      (b.change ?? -Infinity) - (a.change ?? -Infinity) ||
+      (a.email || '').localeCompare(b.email || '')
+    )
+
+  const improvementCurve = []
+  for (let attempt = 1; attempt <= COHORT_CURVE_ATTEMPTS; attempt++) {
+    const scores = trends
+      .map(trend => trend.scores[attempt - 1])
+      .filter((score): score is number => score !== undefined)
+    if (scores.length === 0) break
+    improvementCurve.push({ attempt, average_score: average(scores)!, learner_count: scores.length })
+  }
+
+  return {
+    learner_count: learners.length,
+    active_learner_count: new Set(ordered.map(run => run.user_id)).size,
+    run_count: ordered.length,
+    analyzed_count: analyzed.length,
+    average_score: average(analyzed.map(overallScore).filter((score): score is number => score !== null)),
+    criteria: aggregateCriteria(runsByLearner),
+    issue_categories: aggregateIssueCategories(analyzed),
+    words_per_minute: distribution(
+      analyzed.map(runWordsPerMinute).filter((wpm): wpm is number => wpm !== null),
+      WPM_EDGES
+    ),
+    fillers_per_minute: distribution(
+      analyzed.map(runFillersPerMinute).filter((rate): rate is number => rate !== null),
+      FILLERS_PER_MINUTE_EDGES
+    ),
+    improvement_curve: improvementCurve,
+    learners: trends,
+  }
+}
@@ -0,0 +1,74 @@
+import { getFillerWordTotal } from '@/lib/analysis'
+import type { OrganizationMember } from '@/lib/organizations'
+import { runDurationSeconds, runFillersPerMinute, runWordsPerMinute, type CohortRun } from './aggregate'
+
+// Quote a field when it holds a delimiter, quote or newline (RFC 4180). Text that a
+// spreadsheet would run as a formula (titles and criterion labels are user input) gets a
+// leading apostrophe.
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One CSV row per learner run, oldest first: learner, run, overall score, pace, fillers,
+ * issue count and a column per rubric criterion (matched by label across the cohort).
+ * Runs that aren't analyzed yet have empty score and metric columns.
+ */
+export function cohortRunsCsv(members: OrganizationMember[], runs: CohortRun[]): string {
+  const emails = new Map(
+    members.filter(member => member.role === 'learner').map(member => [member.user_id, member.email])
+  )
+  const ordered = runs
+    .filter(run => emails.has(run.user_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  const criteria: string[] = []
+  for (const run of ordered) {
+    for (const score of run.analysis_json?.rubric_scores || []) {
+      if (!criteria.some(label => label.toLowerCase() === score.criterion_label.trim().toLowerCase())) {
+        criteria.push(score.criterion_label.trim())
+      }
+    }
+  }
+
+  const header = [
+    'learner_email',
+    'run_id',
+    'created_at',
+    'title',
+    'status',
+    'overall_score',
+    'duration_seconds',
+    'words_per_minute',
+    'filler_count',
+    'fillers_per_minute',
+    'issue_count',
+    ...criteria,
+  ]
+
+  const rows = ordered.map(run => {
+    const analysis = run.status === 'analyzed' ? run.analysis_json : null
+    const duration = runDurationSeconds(run)
+    const criterionScores = new Map(
+      (analysis?.rubric_scores || []).map(score => [score.criterion_label.trim().toLowerCase(), score.score])
+    )
+    return [
+      emails.get(run.user_id),
+      run.id,
+      run.created_at,
+      run.title,
+      run.status,
+      analysis?.summary?.overall_score,
+      duration !== null ? Math.round(duration) : null,
+      analysis ? runWordsPerMinute(run) : null,
+      getFillerWordTotal(analysis),
+      analysis ? runFillersPerMinute(run) : null,
+      analysis?.line_by_line ? analysis.line_by_line.filter(item => item.type === 'issue').length : null,
+      ...criteria.map(label => criterionScores.get(label.toLowerCase())),
+    ].map(csvField).join(',')
+  })
+
+  return [header.map(csvField).join(','), ...rows].join('\r\n') + '\r\n'
+}
@@ -0,0 +1,18 @@
+export {
+  buildCohortAnalytics,
+  runDurationSeconds,
+  runFillersPerMinute,
+  runWordsPerMinute,
+} from './aggregate'
+export type { CohortRun } from './aggregate'
+export { cohortRunsCsv } from './csv'
+export { COHORT_CURVE_ATTEMPTS, COHORT_TOP_ISSUE_CATEGORIES, MAX_COHORT_DAYS } from './types'
+export type {
+  CohortAnalytics,
+  CohortBucket,
+  CohortCriterion,
+  CohortCurvePoint,
+  CohortDistribution,
+  CohortIssueCategory,
+  CohortLearnerTrend,
+} from './types'
@@ -0,0 +1,96 @@
+import type { AnalysisLineCategory } from '@/lib/analysis'
+
+/**
+ * Cohort analytics: patterns across an organization's learners, aggregated from their
+ * runs' analysis_json (per-criterion scores, line-by-line issues, pace, fillers and how
+ * scores change from one attempt to the next).
+ */
+
+/** Improvement curves stop at this attempt (later attempts have too few learners to average) */
+export const COHORT_CURVE_ATTEMPTS = 10
+/** How many issue categories the overview lists */
+export const COHORT_TOP_ISSUE_CATEGORIES = 10
+/** Longest window the analytics API accepts (?days=) */
+export const MAX_COHORT_DAYS = 365
+
+/** One rubric criterion across the cohort, matched by label */
+export interface CohortCriterion {
+  label: string
+  average: number
+  run_count: number
+  learner_count: number
+  /** Runs where the criterion was missing from the pitch entirely */
+  missing_count: number
+  /** Average of each learner's first and latest score on this criterion */
+  first_average: number
+  latest_average: number
+  change: number
+}
+
+/** A line_by_line issue category ("other" for runs analyzed before categories) */
+export interface CohortIssueCategory {
+  category: AnalysisLineCategory
+  issue_count: number
+  run_count: number
+  learner_count: number
+  /** Share of analyzed runs with at least one issue in this category (0-1) */
+  run_share: number
+}
+
+export interface CohortBucket {
+  label: string
+  /** Inclusive lower bound; null for the first bucket */
+  min: number | null
+  /** Exclusive upper bound; null for the last bucket */
+  max: number | null
+  count: number
+}
+
+export interface CohortDistribution {
+  count: number
+  average: number | null
+  min: number | null
+  p25: number | null
+  median: number | null
+  p75: number | null
+  max: number | null
+  buckets: CohortBucket[]
+}
+
+/** The cohort's average overall score on each learner's nth analyzed run */
+export interface CohortCurvePoint {
+  attempt: number
+  average_score: number
+  learner_count: number
+}
+
+export interface CohortLearnerTrend {
+  user_id: string
+  email: string | null
+  run_count: number
+  analyzed_count: number
+  first_score: number | null
+  latest_score: number | null
+  best_score: number | null
+  /** latest_score - first_score, null with fewer than two scored runs */
+  change: number | null
+  /** Overall scores, oldest first */
+  scores: number[]
+}
+
+export interface CohortAnalytics {
+  learner_count: number
+  /** Learners with at least one run in the window */
+  active_learner_count: number
+  run_count: number
+  analyzed_count: number
+  average_score: number | null
+  criteria: CohortCriterion[]
+  issue_categories: CohortIssueCategory[]
+  /** Runs in languages paced by words (Japanese characters per minute are left out) */
+  words_per_minute: CohortDistribution
+  /** Filler words per minute of speech (runs with a known duration) */
+  fillers_per_minute: CohortDistribution
+  improvement_curve: CohortCurvePoint[]
+  learners: CohortLearnerTrend[]
+}
@@ -0,0 +1,3 @@
+export { buildCommentThreads, parseCommentAnchor } from './threads'
+export { MAX_COMMENT_CHARS } from './types'
+export type { CommentAnchor, ReceivedReviewInvite, RunComment, RunCommentThread, RunReviewer } from './types'
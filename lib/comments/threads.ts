@@ -0,0 +1,62 @@
+import type { CommentAnchor, RunComment, RunCommentThread } from './types'
+
+const MAX_QUOTE_CHARS = 500
+
+function seconds(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.round(value * 10) / 10
+    : null
+}
+
+/**
+ * Anchor fields from a request body. Drops anything malformed rather than failing:
+ * a negative index or a non-numeric time just leaves that part of the anchor empty.
+ */
+export function parseCommentAnchor(value: Record<string, unknown>): CommentAnchor {
+  const sentenceIndex = Number.isInteger(value.sentence_index) && (value.sentence_index as number) >= 0
+    ? (value.sentence_index as number)
+    : null
+  const quote = typeof value.quote === 'string' && value.quote.trim()
+    ? value.quote.trim().slice(0, MAX_QUOTE_CHARS)
+    : null
+  const startSec = seconds(value.start_sec)
+  const endSec = startSec !== null ? seconds(value.end_sec) : null
+
+  return {
+    sentence_index: sentenceIndex,
+    quote: sentenceIndex !== null ? quote : null,
+    start_sec: startSec,
+    end_sec: endSec !== null && endSec >= startSec! ? endSec : null,
+  }
+}
+
+/**
+ * Group comments into threads in transcript order: sentence-anchored threads by sentence,
+ * then time-anchored threads by start time, then comments on the run as a whole.
+ * Replies whose thread is missing are dropped.
+ */
+export function buildCommentThreads(comments: RunComment[]): RunCommentThread[] {
+  const byCreated = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const threads = new Map<string, RunCommentThread>()
+  for (const comment of byCreated) {
+    if (!comment.parent_id) {
+      threads.set(comment.id, { ...comment, replies: [] })
+    }
+  }
+  for (const comment of byCreated) {
+    if (comment.parent_id) {
+      threads.get(comment.parent_id)?.replies.push(comment)
+    }
+  }
+
+  const position = (thread: RunCommentThread): [number, number] => {
+    if (thread.sentence_index !== null) return [0, thread.sentence_index]
+    if (thread.start_sec !== null) return [1, thread.start_sec]
+    return [2, 0]
+  }
+  return Array.from(threads.values()).sort((a, b) => {
+    const [groupA, keyA] = position(a)
+    const [groupB, keyB] = position(b)
+    return groupA - groupB || keyA - keyB
+  })
+}
@@ -0,0 +1,57 @@
+/**
+ * Human reviewer comments on a run (run_comments, migration 033). A top-level comment
+ * starts a thread anchored to a transcript sentence and/or an audio time range; replies
+ * point at it with parent_id and inherit its anchor and resolved state.
+ */
+
+export const MAX_COMMENT_CHARS = 2000
+
+/** Where a thread is attached. All fields null means the run as a whole. */
+export interface CommentAnchor {
+  /** Index into the run page's transcript sentences */
+  sentence_index: number | null
+  /** The anchored sentence when the thread was started */
+  quote: string | null
+  start_sec: number | null
+  end_sec: number | null
+}
+
+/** A run_comments row, with the author's email from user_profiles */
+export interface RunComment extends CommentAnchor {
+  id: string
+  run_id: string
+  parent_id: string | null
+  author_id: string
+  author_email: string | null
+  body: string
+  resolved_at: string | null
+  resolved_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface RunCommentThread extends RunComment {
+  /** Oldest first */
+  replies: RunComment[]
+}
+
+/**
+ * Someone the run's owner invited to review it (run_reviewers, migration 037). Invites
+ * are by email and grant nothing until accepted.
+ */
+export interface RunReviewer {
+  id: string
+  email: string
+  status: 'pending' | 'accepted'
+  invited_at: string
+  accepted_at: string | null
+}
+
+/** A pending reviewer invite, as its invitee sees it */
+export interface ReceivedReviewInvite {
+  id: string
+  run_id: string
+  run_title: string | null
+  invited_by_email: string | null
+  invited_at: string
+}
@@ -0,0 +1,15 @@
+export { compareRuns } from './runs'
+export type { ComparableRun } from './runs'
+export { diffTranscripts } from './transcript'
+export type {
+  ComparedRun,
+  CriterionChange,
+  CriterionChangeStatus,
+  IssueChange,
+  IssueChangeStatus,
+  MetricChange,
+  RunComparison,
+  TranscriptDiff,
+  TranscriptDiffRow,
+  TranscriptDiffType,
+} from './types'
@@ -0,0 +1,189 @@
+import { getFillerWordTotal, type AnalysisJson, type AnalysisLineItem } from '@/lib/analysis'
+import { getLanguageProfile, type LanguageProfile } from '@/lib/languages'
+import { bagSimilarity, tokenize } from '@/lib/script/compare'
+import { diffTranscripts } from './transcript'
+import type { CriterionChange, IssueChange, MetricChange, RunComparison } from './types'
+
+/** The pitch_runs columns a comparison reads */
+export interface ComparableRun {
+  id: string
+  created_at: string
+  title: string | null
+  status: string
+  transcript: string | null
+  language: string | null
+  duration_ms: number | null
+  audio_seconds: number | null
+  word_count: number | null
+  words_per_minute: number | null
+  analysis_json: AnalysisJson | null
+}
+
+// Word-bag similarity for two line-by-line issues to count as the same issue
+const SAME_ISSUE_SIMILARITY = 0.4
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function metric(before: number | null | undefined, after: number | null | undefined): MetricChange {
+  const a = before ?? null
+  const b = after ?? null
+  return { before: a, after: b, change: a !== null && b !== null ? round1(b - a) : null }
+}
+
+function durationOf(run: ComparableRun): number | null {
+  if (run.duration_ms) return round1(run.duration_ms / 1000)
+  return run.audio_seconds !== null ? round1(run.audio_seconds) : null
+}
+
+function criterionKey(label: string): string {
+  return label.trim().toLowerCase()
+}
+
+/** Per-criterion scores of both runs, matched by label, in the later run's order. */
+function compareCriteria(before: AnalysisJson | null, after: AnalysisJson | null): CriterionChange[] {
+  const beforeScores = new Map((before?.rubric_scores || []).map(score => [criterionKey(score.criterion_label), score]))
+  const changes: CriterionChange[] = []
+
+  for (const score of after?.rubric_scores || []) {
+    const previous = beforeScores.get(criterionKey(score.criterion_label))
+    beforeScores.delete(criterionKey(score.criterion_label))
+    const change = previous ? round1(score.score - previous.score) : null
+    changes.push({
+      criterion_id: score.criterion_id,
+      label: score.criterion_label,
+      before: previous?.score ?? null,
+      after: score.score,
+      change,
+      status: change === null ? 'added' : change > 0 ? 'improved' : change < 0 ? 'declined' : 'unchanged',
+      missing_before: previous?.missing ?? false,
+      missing_after: score.missing,
+    })
+  }
+  beforeScores.forEach(score => {
+    changes.push({
+      criterion_id: score.criterion_id,
+      label: score.criterion_label,
+      before: score.score,
+      after: null,
+      change: null,
+      status: 'removed',
+      missing_before: score.missing,
+      missing_after: false,
+    })
+  })
+  return changes
+}
+
+/**
+ * Line-by-line issues of both runs, paired up when they describe the same problem
+ * (same category, similar comment and quote). Unpaired issues of the older run were
+ * fixed; unpaired issues of the later run are regressions.
+ */
+function compareIssues(before: AnalysisJson | null, after: AnalysisJson | null, language: LanguageProfile): IssueChange[] {
+  const issuesOf = (analysis: AnalysisJson | null) =>
+    (analysis?.line_by_line || []).filter(item => item.type === 'issue')
+  const beforeIssues = issuesOf(before)
+  const afterIssues = issuesOf(after)
+  const words = (item: AnalysisLineItem) => tokenize(`${item.quote} ${item.comment} ${item.action}`, language)
+  const beforeWords = beforeIssues.map(words)
+  const afterWords = afterIssues.map(words)
+
+  const pairs: Array<{ a: number; b: number; similarity: number }> = []
+  beforeIssues.forEach((issue, a) => {
+    afterIssues.forEach((other, b) => {
+      // 'other' (including runs analyzed before categories) pairs with any category
+      if (issue.category !== 'other' && other.category !== 'other' && issue.category !== other.category) return
+      const similarity = bagSimilarity(beforeWords[a], afterWords[b])
+      if (similarity >= SAME_ISSUE_SIMILARITY) pairs.push({ a, b, similarity })
+    })
+  })
+
+  // Closest pairs first, each issue used once
+  const pairedBefore = new Map<number, number>()
+  const pairedAfter = new Set<number>()
+  pairs.sort((x, y) => y.similarity - x.similarity).forEach(({ a, b }) => {
+    if (pairedBefore.has(a) || pairedAfter.has(b)) return
+    pairedBefore.set(a, b)
+    pairedAfter.add(b)
+  })
+
+  const changes: IssueChange[] = beforeIssues.map((issue, a) => {
+    const b = pairedBefore.get(a)
+    return b === undefined
+      ? { status: 'fixed', before: issue, after: null }
+      : { status: 'persisting', before: issue, after: afterIssues[b] }
+  })
+  afterIssues.forEach((issue, b) => {
+    if (!pairedAfter.has(b)) changes.push({ status: 'regressed', before: null, after: issue })
+  })
+  return changes
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Compare two runs: overall and per-criterion scores, which line-by-line issues were fixed
+ * or regressed, timing and pace, and the two transcripts aligned side by side. The runs
+ * are ordered by creation, so "before" is the older one whichever way they are passed.
+ */
+export function compareRuns(first: ComparableRun, second: ComparableRun): RunComparison {
+  const [before, after] = first.created_at <= second.created_at ? [first, second] : [second, first]
+  const language = getLanguageProfile(after.language)
+  const beforeAnalysis = before.analysis_json
+  const afterAnalysis = after.analysis_json
+
+  const overallScore = metric(beforeAnalysis?.summary?.overall_score, afterAnalysis?.summary?.overall_score)
+  const criteria = compareCriteria(beforeAnalysis, afterAnalysis)
+  const issues = compareIssues(beforeAnalysis, afterAnalysis, language)
+  const timing = {
+    duration_sec: metric(durationOf(before), durationOf(after)),
+    words_per_minute: metric(before.words_per_minute, after.words_per_minute),
+    word_count: metric(before.word_count, after.word_count),
+    filler_total: metric(getFillerWordTotal(beforeAnalysis), getFillerWordTotal(afterAnalysis)),
+    target_seconds: afterAnalysis?.timing?.target_seconds ?? beforeAnalysis?.timing?.target_seconds ?? null,
+    max_seconds: afterAnalysis?.timing?.max_seconds ?? beforeAnalysis?.timing?.max_seconds ?? null,
+  }
+  const transcript = before.transcript && after.transcript
+    ? diffTranscripts(before.transcript, after.transcript, language)
+    : null
+
+  const notes: string[] = []
+  if (overallScore.change !== null) {
+    notes.push(overallScore.change === 0
+      ? `Same overall score (${overallScore.after}).`
+      : `Overall score ${overallScore.change > 0 ? 'up' : 'down'} ${Math.abs(overallScore.change)} (${overallScore.before} → ${overallScore.after}).`)
+  }
+  const improved = criteria.filter(change => change.status === 'improved')
+  const declined = criteria.filter(change => change.status === 'declined')
+  if (improved.length > 0) notes.push(`Improved on ${improved.map(change => change.label).join(', ')}.`)
+  if (declined.length > 0) notes.push(`Slipped on ${declined.map(change => change.label).join(', ')}.`)
+  const fixed = issues.filter(issue => issue.status === 'fixed').length
+  const regressed = issues.filter(issue => issue.status === 'regressed').length
+  if (fixed > 0 || regressed > 0) {
+    notes.push(`Fixed ${plural(fixed, 'issue')}, ${plural(regressed, 'new issue')}.`)
+  }
+  if (timing.duration_sec.change !== null && Math.abs(timing.duration_sec.change) >= 5) {
+    notes.push(`${Math.round(Math.abs(timing.duration_sec.change))}s ${timing.duration_sec.change > 0 ? 'longer' : 'shorter'}.`)
+  }
+
+  const summarize = (run: ComparableRun) => ({
+    id: run.id,
+    created_at: run.created_at,
+    title: run.title,
+    status: run.status,
+  })
+  return {
+    before: summarize(before),
+    after: summarize(after),
+    overall_score: overallScore,
+    criteria,
+    issues,
+    timing,
+    transcript,
+    notes,
+  }
+}
@@ -0,0 +1,86 @@
+import type { LanguageProfile } from '@/lib/languages'
+import { alignTokens, MAX_TOKENS, tokenize } from '@/lib/script/compare'
+import type { TranscriptDiff, TranscriptDiffRow } from './types'
+
+// Shorter stretches in common between two changes are folded into one changed row
+const MIN_SAME_TOKENS = 3
+
+interface Block {
+  same: boolean
+  /** Token ranges [first, last) in each transcript; empty ranges keep their position */
+  beforeFirst: number
+  beforeLast: number
+  afterFirst: number
+  afterLast: number
+}
+
+/**
+ * Align two transcripts word by word (the same alignment as reference-script comparison)
+ * and return them as rows: stretches said in both, and what was reworded, dropped or added.
+ */
+export function diffTranscripts(before: string, after: string, language: LanguageProfile): TranscriptDiff {
+  const allBefore = tokenize(before, language)
+  const allAfter = tokenize(after, language)
+  const truncated = allBefore.length > MAX_TOKENS || allAfter.length > MAX_TOKENS
+  const beforeTokens = allBefore.slice(0, MAX_TOKENS)
+  const afterTokens = allAfter.slice(0, MAX_TOKENS)
+  const matchOf = alignTokens(beforeTokens, afterTokens)
+
+  // Walk both transcripts in order, one block per stretch in common or stretch of changes
+  const segments: Block[] = []
+  const add = (same: boolean, i: number, j: number, di: number, dj: number) => {
+    const last = segments[segments.length - 1]
+    if (last && last.same === same && last.beforeLast === i && last.afterLast === j) {
+      last.beforeLast += di
+      last.afterLast += dj
+    } else {
+      segments.push({ same, beforeFirst: i, beforeLast: i + di, afterFirst: j, afterLast: j + dj })
+    }
+  }
+  let j = 0
+  let matched = 0
+  for (let i = 0; i < beforeTokens.length; i++) {
+    if (matchOf[i] < 0) {
+      add(false, i, j, 1, 0)
+      continue
+    }
+    for (; j < matchOf[i]; j++) add(false, i, j, 0, 1)
+    add(true, i, j, 1, 1)
+    j++
+    matched++
+  }
+  for (; j < afterTokens.length; j++) add(false, beforeTokens.length, j, 0, 1)
+
+  const blocks: Block[] = []
+  segments.forEach((segment, index) => {
+    const last = blocks[blocks.length - 1]
+    const shortSame = segment.same &&
+      segment.beforeLast - segment.beforeFirst < MIN_SAME_TOKENS &&
+      index < segments.length - 1
+    if (last && !last.same && (!segment.same || shortSame)) {
+      last.beforeLast = segment.beforeLast
+      last.afterLast = segment.afterLast
+    } else {
+      blocks.push({ ...segment })
+    }
+  })
+
+  // Each row runs up to the next row's first word, so punctuation stays with the words before it
+  const text = (source: string, tokens: typeof allBefore, first: number, last: number) =>
+    last > first
+      ? source.slice(first === 0 ? 0 : tokens[first].start, last < tokens.length ? tokens[last].start : source.length).trim()
+      : null
+  const rows: TranscriptDiffRow[] = blocks.map(block => {
+    const beforeText = text(before, allBefore, block.beforeFirst, block.beforeLast)
+    const afterText = text(after, allAfter, block.afterFirst, block.afterLast)
+    const type = block.same ? 'same' : !beforeText ? 'added' : !afterText ? 'removed' : 'changed'
+    return { type, before: beforeText, after: afterText }
+  })
+
+  const total = beforeTokens.length + afterTokens.length
+  return {
+    rows,
+    similarity: total > 0 ? Math.round(((2 * matched) / total) * 100) : 0,
+    truncated,
+  }
+}
@@ -0,0 +1,81 @@
+import type { AnalysisLineItem } from '@/lib/analysis'
+
+/**
+ * Side-by-side comparison of two runs (usually two takes of the same pitch). "before"
+ * is always the older run.
+ */
+
+export interface MetricChange {
+  before: number | null
+  after: number | null
+  /** after - before, when both are known */
+  change: number | null
+}
+
+export type CriterionChangeStatus = 'improved' | 'declined' | 'unchanged' | 'added' | 'removed'
+
+export interface CriterionChange {
+  criterion_id: string
+  label: string
+  before: number | null
+  after: number | null
+  change: number | null
+  status: CriterionChangeStatus
+  /** Section was missing from the pitch */
+  missing_before: boolean
+  missing_after: boolean
+}
+
+/** fixed: only in the older run; regressed: new in the later one; persisting: in both */
+export type IssueChangeStatus = 'fixed' | 'regressed' | 'persisting'
+
+export interface IssueChange {
+  status: IssueChangeStatus
+  before: AnalysisLineItem | null
+  after: AnalysisLineItem | null
+}
+
+export type TranscriptDiffType = 'same' | 'changed' | 'removed' | 'added'
+
+export interface TranscriptDiffRow {
+  type: TranscriptDiffType
+  /** Null when the row was only said in the later run */
+  before: string | null
+  /** Null when the row was only said in the older run */
+  after: string | null
+}
+
+export interface TranscriptDiff {
+  rows: TranscriptDiffRow[]
+  /** Share of words the two transcripts have in common, 0-100 */
+  similarity: number
+  /** Very long transcripts are only compared up to a word limit */
+  truncated: boolean
+}
+
+export interface ComparedRun {
+  id: string
+  created_at: string
+  title: string | null
+  status: string
+}
+
+export interface RunComparison {
+  before: ComparedRun
+  after: ComparedRun
+  overall_score: MetricChange
+  criteria: CriterionChange[]
+  issues: IssueChange[]
+  timing: {
+    duration_sec: MetricChange
+    words_per_minute: MetricChange
+    word_count: MetricChange
+    filler_total: MetricChange
+    /** From the later run's rubric (the older run's if it has none) */
+    target_seconds: number | null
+    max_seconds: number | null
+  }
+  /** Null unless both runs are transcribed */
+  transcript: TranscriptDiff | null
+  notes: string[]
+}
@@ -0,0 +1,30 @@
+import { processRunJobs } from './worker'
+
+export {
+  claimRunJobs,
+  enqueueRunJob,
+  getRunJobs,
+  isRunJobDue,
+  reapStuckRunJobs,
+} from './queue'
+export type { EnqueueRunJobOptions, EnqueueRunJobResult } from './queue'
+export { processRunJobs } from './worker'
+export type { ProcessRunJobsOptions, ProcessRunJobsResult } from './worker'
+export type {
+  AnalyzeJobPayload,
+  RunJob,
+  RunJobPayloads,
+  RunJobStatus,
+  RunJobType,
+  TranscribeJobPayload,
+} from './types'
+
+/**
+ * Kick the worker for a just-enqueued job without blocking the response.
+ * Cron (/api/jobs/worker) and status polling pick it up if this process stops.
+ */
+export function kickRunJob(jobId: string): void {
+  processRunJobs({ jobId }).catch((err) => {
+    console.error('[Jobs] Background processing failed:', { jobId, error: err?.message || err })
+  })
+}
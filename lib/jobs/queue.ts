@@ -0,0 +1,201 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import type { RunJob, RunJobPayloads, RunJobType } from './types'
+
+const ACTIVE_STATUSES = ['queued', 'running']
+
+/** Jobs left 'running' longer than this are assumed to have lost their worker. */
+const DEFAULT_STALE_AFTER_SECONDS = 600
+
+export interface EnqueueRunJobOptions<T extends RunJobType> {
+  runId: string
+  type: T
+  payload?: RunJobPayloads[T]
+  /**
+   * Client-supplied Idempotency-Key. Without one, at most one job of a type is
+   * active per run; with one, repeats of the same request (even after it
+   * finished) return the original job.
+   */
+  idempotencyKey?: string | null
+  maxAttempts?: number
+}
+
+export interface EnqueueRunJobResult {
+  job: RunJob
+  /** false when an existing job matched the idempotency key */
+  created: boolean
+}
+
+function buildIdempotencyKey(type: RunJobType, runId: string, clientKey?: string | null): string {
+  return clientKey ? `${type}:${runId}:${clientKey}` : `${type}:${runId}`
+}
+
+async function findExistingJob(idempotencyKey: string, includeFinished: boolean): Promise<RunJob | null> {
+  let query = getSupabaseAdmin()
+    .from('run_jobs')
+    .select('*')
+    .eq('idempotency_key', idempotencyKey)
+
+  if (includeFinished) {
+    query = query.neq('status', 'failed')
+  } else {
+    query = query.in('status', ACTIVE_STATUSES)
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up job: ${error.message}`)
+  }
+
+  return (data as RunJob | null) || null
+}
+
+/**
+ * Enqueue a transcription or analysis job for a run.
+ * Returns the existing job instead when the idempotency key is already taken.
+ */
+export async function enqueueRunJob<T extends RunJobType>(
+  options: EnqueueRunJobOptions<T>
+): Promise<EnqueueRunJobResult> {
+  const { runId, type, payload, idempotencyKey: clientKey, maxAttempts } = options
+  const idempotencyKey = buildIdempotencyKey(type, runId, clientKey)
+  const includeFinished = !!clientKey
+
+  const existing = await findExistingJob(idempotencyKey, includeFinished)
+  if (existing) {
+    return { job: existing, created: false }
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('run_jobs')
+    .insert({
+      run_id: runId,
+      type,
+      idempotency_key: idempotencyKey,
+      payload: payload || {},
+      ...(maxAttempts ? { max_attempts: maxAttempts } : {}),
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    // Lost a race with a concurrent enqueue for the same key
+    if (error.code === '23505') {
+      const raced = await findExistingJob(idempotencyKey, includeFinished)
+      if (raced) {
+        return { job: raced, created: false }
+      }
+    }
+    throw new Error(`Failed to enqueue ${type} job: ${error.message}`)
+  }
+
+  return { job: data as RunJob, created: true }
+}
+
+/**
+ * Claim due jobs for this worker (marks them 'running' and counts the attempt).
+ * Pass jobId to claim one specific job, e.g. right after enqueueing it.
+ */
+export async function claimRunJobs(workerId: string, limit: number = 1, jobId?: string): Promise<RunJob[]> {
+  const { data, error } = await getSupabaseAdmin().rpc('claim_run_jobs', {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_job_id: jobId ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`)
+  }
+
+  return (data as RunJob[] | null) || []
+}
+
+/**
+ * Requeue (or fail, when out of attempts) jobs stuck in 'running'.
+ * Returns the number of jobs recovered.
+ */
+export async function reapStuckRunJobs(staleAfterSeconds: number = DEFAULT_STALE_AFTER_SECONDS): Promise<number> {
+  const { data, error } = await getSupabaseAdmin().rpc('reap_stuck_run_jobs', {
+    p_stale_after_seconds: staleAfterSeconds,
+  })
+
+  if (error) {
+    throw new Error(`Failed to reap stuck jobs: ${error.message}`)
+  }
+
+  return (data as number | null) || 0
+}
+
+export async function completeRunJob(jobId: string): Promise<void> {
+  const now = new Date().toISOString()
+  const { error } = await getSupabaseAdmin()
+    .from('run_jobs')
+    .update({
+      status: 'succeeded',
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+
+  if (error) {
+    console.error('[Jobs] Failed to mark job succeeded:', { jobId, error: error.message })
+  }
+}
+
+export async function failRunJob(jobId: string, lastError: string, retryAt?: Date): Promise<void> {
+  const now = new Date().toISOString()
+  const update = retryAt
+    ? { status: 'queued', run_after: retryAt.toISOString() }
+    : { status: 'failed', finished_at: now }
+
+  const { error } = await getSupabaseAdmin()
+    .from('run_jobs')
+    .update({
+      ...update,
+      locked_at: null,
+      locked_by: null,
+      last_error: lastError,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+
+  if (error) {
+    console.error('[Jobs] Failed to update failed job:', { jobId, error: error.message })
+  }
+}
+
+/** Most recent jobs for a run, newest first (for status polling). */
+export async function getRunJobs(runId: string, limit: number = 5): Promise<RunJob[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('run_jobs')
+    .select('*')
+    .eq('run_id', runId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to fetch jobs: ${error.message}`)
+  }
+
+  return (data as RunJob[] | null) || []
+}
+
+/**
+ * Whether a worker should pick this job up now: queued and past its backoff,
+ * or running with a lock old enough for the reaper to recover it.
+ */
+export function isRunJobDue(job: Pick<RunJob, 'status' | 'run_after' | 'locked_at'>, now: number = Date.now()): boolean {
+  if (job.status === 'queued') {
+    return new Date(job.run_after).getTime() <= now
+  }
+  if (job.status === 'running' && job.locked_at) {
+    return new Date(job.locked_at).getTime() <= now - DEFAULT_STALE_AFTER_SECONDS * 1000
+  }
+  return false
+}
@@ -0,0 +1,38 @@
+import type { PromptRubricItem } from '@/lib/runs/analyze'
+
+export type RunJobType = 'transcribe' | 'analyze'
+
+export type RunJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface AnalyzeJobPayload {
+  rubric_id?: string | null
+  prompt_rubric?: PromptRubricItem[] | null
+  pitch_context?: string | null
+  /** Authenticated user who requested the analysis (plan resolution) */
+  user_id?: string | null
+}
+
+export type TranscribeJobPayload = Record<string, never>
+
+export interface RunJobPayloads {
+  transcribe: TranscribeJobPayload
+  analyze: AnalyzeJobPayload
+}
+
+export interface RunJob {
+  id: string
+  run_id: string
+  type: RunJobType
+  status: RunJobStatus
+  idempotency_key: string
+  payload: Record<string, any>
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  last_error: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { analyzeRun } from '@/lib/runs/analyze'
+import type { RunTaskOutcome } from '@/lib/runs/outcome'
+import { transcribeRun } from '@/lib/runs/transcribe'
+import { claimRunJobs, completeRunJob, failRunJob, reapStuckRunJobs } from './queue'
+import type { AnalyzeJobPayload, RunJob, RunJobType } from './types'
+
+const RETRY_BASE_DELAY_MS = 15_000
+const RETRY_MAX_DELAY_MS = 5 * 60_000
+
+// Run status while a job of each type is pending
+const IN_PROGRESS_STATUS: Record<RunJobType, string> = {
+  transcribe: 'transcribing',
+  analyze: 'analyzing',
+}
+
+const WORKER_ID = `${process.env.VERCEL_REGION || 'local'}:${process.pid}:${randomUUID().slice(0, 8)}`
+
+export interface ProcessRunJobsOptions {
+  /** Only process this job (used to kick a freshly enqueued job) */
+  jobId?: string
+  /** Maximum number of jobs to claim in this pass */
+  limit?: number
+}
+
+export interface ProcessRunJobsResult {
+  reaped: number
+  claimed: number
+  succeeded: number
+  retried: number
+  failed: number
+}
+
+async function executeJob(job: RunJob): Promise<RunTaskOutcome> {
+  switch (job.type) {
+    case 'transcribe':
+      return transcribeRun(job.run_id)
+    case 'analyze': {
+      const payload = job.payload as AnalyzeJobPayload
+      return analyzeRun(job.run_id, {
+        rubricId: payload.rubric_id,
+        promptRubric: payload.prompt_rubric,
+        pitchContext: payload.pitch_context,
+        userId: payload.user_id ?? null,
+        // Retries keep the analysis stages that already succeeded
+        resume: job.attempts > 1,
+        retryFailedStages: job.attempts < job.max_attempts,
+      })
+    }
+    default:
+      throw new Error(`Unknown job type: ${(job as RunJob).type}`)
+  }
+}
+
+// Provider outages and rate limits are worth retrying; bad input is not
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+function retryDelayMs(attempt: number): number {
+  const exponential = RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1))
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS)
+}
+
+function describeFailure(outcome: RunTaskOutcome): string {
+  const { error, details, message } = outcome.body
+  return message || [error, details].filter(Boolean).join(': ') || `Failed with status ${outcome.status}`
+}
+
+async function handleFailure(job: RunJob, outcome: RunTaskOutcome): Promise<'retried' | 'failed'> {
+  const message = describeFailure(outcome)
+  const supabaseAdmin = getSupabaseAdmin()
+
+  if (isRetryable(outcome.status) && job.attempts < job.max_attempts) {
+    const retryAt = new Date(Date.now() + retryDelayMs(job.attempts))
+    await failRunJob(job.id, message, retryAt)
+
+    // The pipeline marked the run as errored; it is still in progress from the user's view
+    await supabaseAdmin
+      .from('pitch_runs')
+      .update({ status: IN_PROGRESS_STATUS[job.type], error_message: null })
+      .eq('id', job.run_id)
+
+    console.warn('[Jobs] Job failed, will retry:', {
+      jobId: job.id,
+      runId: job.run_id,
+      type: job.type,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+      retryAt: retryAt.toISOString(),
+      error: message,
+    })
+    return 'retried'
+  }
+
+  await failRunJob(job.id, message)
+
+  // Make sure the run ends in 'error' even if the pipeline bailed out before setting it
+  await supabaseAdmin
+    .from('pitch_runs')
+    .update({ status: 'error', error_message: message })
+    .eq('id', job.run_id)
+    .neq('status', 'error')
+
+  console.error('[Jobs] Job failed:', {
+    jobId: job.id,
+    runId: job.run_id,
+    type: job.type,
+    attempts: job.attempts,
+    error: message,
+  })
+  return 'failed'
+}
+
+/**
+ * Reap stuck jobs, then claim and run due jobs one at a time.
+ * Safe to call concurrently: claiming uses SKIP LOCKED.
+ */
+export async function processRunJobs(options: ProcessRunJobsOptions = {}): Promise<ProcessRunJobsResult> {
+  const result: ProcessRunJobsResult = { reaped: 0, claimed: 0, succeeded: 0, retried: 0, failed: 0 }
+
+  try {
+    result.reaped = await reapStuckRunJobs()
+  } catch (err: any) {
+    console.error('[Jobs] Reaper error:', { error: err.message })
+  }
+
+  const jobs = await claimRunJobs(WORKER_ID, options.limit ?? 1, options.jobId)
+  result.claimed = jobs.length
+
+  for (const job of jobs) {
+    let outcome: RunTaskOutcome
+    try {
+      outcome = await executeJob(job)
+    } catch (err: any) {
+      outcome = {
+        ok: false,
+        status: 500,
+        body: { ok: false, error: 'Job crashed', details: err?.message || String(err) },
+      }
+    }
+
+    if (outcome.ok) {
+      await completeRunJob(job.id)
+      result.succeeded++
+    } else {
+      result[await handleFailure(job, outcome)]++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,113 @@
+/**
+ * Languages a run can be practiced in. The run's language picks the transcription
+ * language, the filler words that are counted, the pacing norms and the language
+ * the analysis feedback is written in.
+ */
+
+export const RUN_LANGUAGES = ['en', 'es', 'fr', 'de', 'ja'] as const
+
+export type RunLanguage = typeof RUN_LANGUAGES[number]
+
+export const DEFAULT_RUN_LANGUAGE: RunLanguage = 'en'
+
+export interface PacingNorms {
+  /** What the speaking rate counts; Japanese is written without spaces, so characters */
+  unit: 'words' | 'characters'
+  /** Short label for the rate, e.g. "WPM" */
+  rateLabel: string
+  /** Below this rate the delivery is flagged as slow */
+  slow: number
+  /** Above this rate the delivery is flagged as fast */
+  fast: number
+  /** Target range suggested in coaching */
+  idealMin: number
+  idealMax: number
+}
+
+export interface LanguageProfile {
+  code: RunLanguage
+  /** English name, used in analysis prompts */
+  name: string
+  /** Shown in the language picker */
+  nativeName: string
+  pacing: PacingNorms
+  /** Filler words and phrases counted in transcripts (lowercase) */
+  fillerWords: string[]
+}
+
+const WORD_PACING = { unit: 'words', rateLabel: 'WPM' } as const
+
+const LANGUAGE_PROFILES: Record<RunLanguage, LanguageProfile> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    pacing: { ...WORD_PACING, slow: 120, fast: 180, idealMin: 140, idealMax: 160 },
+    fillerWords: ['um', 'uh', 'like', 'you know', 'sort of', 'kind of', 'basically', 'actually', 'literally', 'so', 'right', 'okay'],
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    pacing: { ...WORD_PACING, slow: 120, fast: 190, idealMin: 140, idealMax: 170 },
+    fillerWords: ['eh', 'em', 'este', 'o sea', 'pues', 'bueno', 'entonces', 'vale', 'digamos', 'como que', 'en plan', 'sabes'],
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    pacing: { ...WORD_PACING, slow: 120, fast: 190, idealMin: 140, idealMax: 170 },
+    fillerWords: ['euh', 'ben', 'bah', 'bon', 'genre', 'en fait', 'du coup', 'voilà', 'quoi', 'tu vois', 'en gros', 'disons'],
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    // German words run longer, so fewer per minute at the same speed
+    pacing: { ...WORD_PACING, slow: 100, fast: 160, idealMin: 115, idealMax: 140 },
+    fillerWords: ['äh', 'ähm', 'öh', 'also', 'halt', 'eben', 'sozusagen', 'quasi', 'eigentlich', 'irgendwie', 'ne', 'genau'],
+  },
+  ja: {
+    code: 'ja',
+    name: 'Japanese',
+    nativeName: '日本語',
+    // Characters (kana + kanji) per minute; conversational speech is around 300-350
+    pacing: { unit: 'characters', rateLabel: 'characters/min', slow: 250, fast: 400, idealMin: 300, idealMax: 350 },
+    fillerWords: ['えー', 'えっと', 'ええと', 'あの', 'まあ', 'なんか', 'うーん'],
+  },
+}
+
+export function isRunLanguage(value: unknown): value is RunLanguage {
+  return typeof value === 'string' && (RUN_LANGUAGES as readonly string[]).includes(value)
+}
+
+/** Profile for a run's language; unknown or missing values fall back to English. */
+export function getLanguageProfile(language: string | null | undefined): LanguageProfile {
+  return LANGUAGE_PROFILES[isRunLanguage(language) ? language : DEFAULT_RUN_LANGUAGE]
+}
+
+export function getLanguageProfiles(): LanguageProfile[] {
+  return RUN_LANGUAGES.map(code => LANGUAGE_PROFILES[code])
+}
+
+/**
+ * Regex for one filler word or phrase. Uses Unicode-aware word boundaries (\b only
+ * understands ASCII, so it misses "äh"); languages without spaces match anywhere.
+ */
+export function fillerPattern(filler: string, profile: LanguageProfile): RegExp {
+  const escaped = filler
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+')
+  if (profile.pacing.unit === 'characters') {
+    return new RegExp(escaped, 'giu')
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+/** Words, or non-space non-punctuation characters for languages written without spaces. */
+export function countSpeechUnits(text: string, profile: LanguageProfile): number {
+  if (profile.pacing.unit === 'characters') {
+    return (text.match(/[\p{L}\p{N}]/gu) || []).length
+  }
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length
+}
@@ -0,0 +1,11 @@
+export { computeLiveCoachMetrics, getLiveCoachHints } from './metrics'
+export type {
+  LiveCoachChunk,
+  LiveCoachHint,
+  LiveCoachHintTone,
+  LiveCoachMetrics,
+  LiveCoachRubricItem,
+  LiveCoachSection,
+} from './metrics'
+export { LIVE_CHUNK_MS, startLiveChunkRecorder } from './recorder'
+export type { LiveAudioChunk, LiveChunkRecorder, LiveChunkRecorderOptions } from './recorder'
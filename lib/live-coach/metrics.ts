@@ -0,0 +1,197 @@
+/**
+ * Live coaching metrics computed from the chunk transcripts received so far.
+ * Pure (no I/O) so it can run on every chunk update while recording.
+ */
+
+import { countSpeechUnits, fillerPattern, getLanguageProfile, type LanguageProfile, type PacingNorms } from '@/lib/languages'
+
+export interface LiveCoachChunk {
+  chunk_index: number
+  start_ms: number
+  end_ms: number
+  status: 'uploaded' | 'transcribing' | 'transcribed' | 'error'
+  transcript: string | null
+}
+
+export interface LiveCoachRubricItem {
+  id: string
+  label: string
+  description?: string | null
+}
+
+export interface LiveCoachSection {
+  id: string
+  label: string
+  covered: boolean
+  /** First word or phrase that marked the section as covered */
+  evidence: string | null
+}
+
+export interface LiveCoachMetrics {
+  /** Audio covered by transcribed chunks */
+  transcribedMs: number
+  pendingChunks: number
+  failedChunks: number
+  /** Words, or characters for languages written without spaces (see pacing.unit) */
+  wordCount: number
+  /** Average over every transcribed chunk, in pacing.unit per minute */
+  wpm: number | null
+  /** Average over the most recent RECENT_WINDOW_MS of transcribed audio */
+  recentWpm: number | null
+  /** The run language's norms the pace is judged against */
+  pacing: PacingNorms
+  fillerCount: number
+  fillersPerMinute: number | null
+  topFillers: Array<{ word: string; count: number }>
+  sections: LiveCoachSection[]
+}
+
+export type LiveCoachHintTone = 'good' | 'warn'
+
+export interface LiveCoachHint {
+  tone: LiveCoachHintTone
+  message: string
+}
+
+const RECENT_WINDOW_MS = 30_000
+const FILLERS_PER_MINUTE_WARNING = 6
+
+// Phrases that signal common pitch sections even when the rubric wording differs (English runs only)
+const SECTION_CUES: Array<{ match: RegExp; cues: string[] }> = [
+  { match: /\bhook|open/i, cues: ['imagine', 'what if', 'did you know', 'have you ever', 'picture this'] },
+  { match: /\bproblem|pain|why\b/i, cues: ['problem', 'struggle', 'frustrat', 'pain', 'challenge', 'matters'] },
+  { match: /\bsolution|product|what\b/i, cues: ['we built', 'we are building', "we're building", 'our product', 'solution', 'platform'] },
+  { match: /\bwho\b|audience|customer|user|market/i, cues: ['for people', 'customers', 'users', 'students', 'teams', 'market'] },
+  { match: /\btraction|evidence|proof|result/i, cues: ['revenue', 'grew', 'growth', 'pilot', 'percent', 'signed'] },
+  { match: /\bteam|founder/i, cues: ['our team', 'co-founder', 'cofounder', 'my background', 'experience'] },
+  { match: /\bask|call to action|cta|next step|close/i, cues: ['looking for', 'join us', 'reach out', 'sign up', 'raising', 'next step', 'thank you'] },
+  { match: /\bpreview|agenda|outline/i, cues: ['today i will', "today i'll", 'going to cover', 'walk you through', 'agenda'] },
+]
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'being', 'clear', 'clearly', 'does', 'each', 'from', 'have', 'into',
+  'make', 'more', 'other', 'over', 'should', 'some', 'such', 'than', 'that', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'your',
+  'pitch', 'speaker', 'presentation', 'explain', 'explains', 'describe', 'describes', 'state', 'states',
+])
+
+// Keyword candidates: letters in any script, at least four long
+const KEYWORD_PATTERN = /\p{L}[\p{L}'-]{3,}/gu
+
+// Stemming and the stop words are English; other languages match keywords as written
+function stem(word: string, profile: LanguageProfile): string {
+  return profile.code === 'en' ? word.replace(/(ing|ed|es|s)$/, '') : word
+}
+
+function keywordsFor(item: LiveCoachRubricItem, profile: LanguageProfile): string[] {
+  const text = `${item.label} ${item.description || ''}`.toLowerCase()
+  const words = text.match(KEYWORD_PATTERN) || []
+  return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word)).map(word => stem(word, profile))))
+}
+
+function findSectionEvidence(
+  item: LiveCoachRubricItem,
+  transcript: string,
+  transcriptStems: Set<string>,
+  profile: LanguageProfile
+): string | null {
+  if (profile.code === 'en') {
+    const labelText = `${item.id} ${item.label}`
+    for (const { match, cues } of SECTION_CUES) {
+      if (!match.test(labelText)) continue
+      const cue = cues.find(phrase => new RegExp(`\\b${phrase}`).test(transcript))
+      if (cue) return cue
+    }
+  }
+
+  // Fall back to the rubric's own wording: one keyword for short labels, two otherwise
+  const keywords = keywordsFor(item, profile)
+  const hits = keywords.filter(keyword => transcriptStems.has(keyword))
+  const needed = keywords.length <= 2 ? 1 : 2
+  return hits.length >= needed ? hits[0] : null
+}
+
+function wordsPerMinute(words: number, durationMs: number): number | null {
+  return durationMs >= 5000 ? Math.round((words / durationMs) * 60_000) : null
+}
+
+/**
+ * Summarize the transcribed chunks: pace, filler words and which rubric sections
+ * have been touched so far. Chunks may arrive out of order; they are sorted by start_ms.
+ * Filler words, speech units and pacing norms follow the run's language.
+ */
+export function computeLiveCoachMetrics(
+  chunks: LiveCoachChunk[],
+  rubricItems: LiveCoachRubricItem[],
+  language?: string | null
+): LiveCoachMetrics {
+  const profile = getLanguageProfile(language)
+  const ordered = [...chunks].sort((a, b) => a.start_ms - b.start_ms)
+  const transcribed = ordered.filter(chunk => chunk.status === 'transcribed' && chunk.transcript)
+
+  const transcript = transcribed.map(chunk => chunk.transcript!.trim()).join(' ')
+  const transcriptLower = transcript.toLowerCase()
+  const transcribedMs = transcribed.reduce((sum, chunk) => sum + Math.max(0, chunk.end_ms - chunk.start_ms), 0)
+  const wordCount = countSpeechUnits(transcript, profile)
+
+  let recentWords = 0
+  let recentMs = 0
+  for (let i = transcribed.length - 1; i >= 0 && recentMs < RECENT_WINDOW_MS; i--) {
+    recentWords += countSpeechUnits(transcribed[i].transcript!, profile)
+    recentMs += Math.max(0, transcribed[i].end_ms - transcribed[i].start_ms)
+  }
+
+  const fillers = profile.fillerWords
+    .map(word => ({ word, count: (transcript.match(fillerPattern(word, profile)) || []).length }))
+    .filter(filler => filler.count > 0)
+    .sort((a, b) => b.count - a.count)
+  const fillerCount = fillers.reduce((sum, filler) => sum + filler.count, 0)
+
+  const transcriptStems = new Set((transcriptLower.match(KEYWORD_PATTERN) || []).map(word => stem(word, profile)))
+  const sections = rubricItems.map((item) => {
+    const evidence = transcript ? findSectionEvidence(item, transcriptLower, transcriptStems, profile) : null
+    return { id: item.id, label: item.label, covered: evidence !== null, evidence }
+  })
+
+  return {
+    transcribedMs,
+    pendingChunks: ordered.filter(chunk => chunk.status === 'uploaded' || chunk.status === 'transcribing').length,
+    failedChunks: ordered.filter(chunk => chunk.status === 'error').length,
+    wordCount,
+    wpm: wordsPerMinute(wordCount, transcribedMs),
+    recentWpm: wordsPerMinute(recentWords, recentMs),
+    pacing: profile.pacing,
+    fillerCount,
+    fillersPerMinute: transcribedMs >= 5000 ? Math.round((fillerCount / transcribedMs) * 60_000 * 10) / 10 : null,
+    topFillers: fillers.slice(0, 3),
+    sections,
+  }
+}
+
+/** Short, actionable nudges for the speaker based on the current metrics. */
+export function getLiveCoachHints(metrics: LiveCoachMetrics): LiveCoachHint[] {
+  const hints: LiveCoachHint[] = []
+  const pace = metrics.recentWpm ?? metrics.wpm
+  // Same norms the analysis grades pacing against
+  const { slow, fast, rateLabel } = metrics.pacing
+  const rate = `${pace} ${rateLabel.toLowerCase()}`
+
+  if (pace !== null && pace > fast) {
+    hints.push({ tone: 'warn', message: `Slow down - ${rate}` })
+  } else if (pace !== null && pace < slow) {
+    hints.push({ tone: 'warn', message: `Pick up the pace - ${rate}` })
+  } else if (pace !== null) {
+    hints.push({ tone: 'good', message: `Good pace - ${rate}` })
+  }
+
+  if (metrics.fillersPerMinute !== null && metrics.fillersPerMinute >= FILLERS_PER_MINUTE_WARNING && metrics.topFillers.length > 0) {
+    hints.push({ tone: 'warn', message: `Watch "${metrics.topFillers[0].word}" - ${metrics.fillerCount} fillers so far` })
+  }
+
+  const nextSection = metrics.sections.find(section => !section.covered)
+  if (nextSection && metrics.wordCount > 0) {
+    hints.push({ tone: 'warn', message: `Not covered yet: ${nextSection.label}` })
+  }
+
+  return hints
+}
@@ -0,0 +1,124 @@
+'use client'
+
+/**
+ * Records a stream as a series of short, independently playable audio files for live coaching.
+ *
+ * MediaRecorder timeslices after the first one lack the container header, so they can't be
+ * transcribed on their own. Instead this runs a second recorder on the same stream and
+ * restarts it every chunkMs; the main recorder still produces the full-length file.
+ */
+
+export const LIVE_CHUNK_MS = 15_000
+
+// Shorter tails (e.g. stopping right after a rotation) aren't worth transcribing
+const MIN_CHUNK_MS = 1_000
+
+export interface LiveAudioChunk {
+  index: number
+  /** Offsets within the recording, excluding paused time */
+  startMs: number
+  endMs: number
+  blob: Blob
+}
+
+export interface LiveChunkRecorderOptions {
+  mimeType: string
+  chunkMs?: number
+  onChunk: (chunk: LiveAudioChunk) => void
+}
+
+export interface LiveChunkRecorder {
+  pause(): void
+  resume(): void
+  /** Stop and emit the final partial chunk; resolves once onChunk has been called for it */
+  stop(): Promise<void>
+  /** Stop without emitting anything else (recording discarded) */
+  cancel(): void
+}
+
+export function startLiveChunkRecorder(stream: MediaStream, options: LiveChunkRecorderOptions): LiveChunkRecorder {
+  const chunkMs = options.chunkMs ?? LIVE_CHUNK_MS
+  let nextIndex = 0
+  let activeBeforeMs = 0 // recorded time before the current unpaused stretch
+  let resumedAt: number | null = Date.now()
+  let current: { recorder: MediaRecorder; parts: Blob[]; startMs: number } | null = null
+  let finished = false
+  let cancelled = false
+
+  const elapsedMs = () => activeBeforeMs + (resumedAt !== null ? Date.now() - resumedAt : 0)
+
+  const startSegment = () => {
+    const segment = {
+      recorder: new MediaRecorder(stream, { mimeType: options.mimeType }),
+      parts: [] as Blob[],
+      startMs: elapsedMs(),
+    }
+    segment.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        segment.parts.push(event.data)
+      }
+    }
+    segment.recorder.start()
+    current = segment
+  }
+
+  const endSegment = (): Promise<void> => {
+    const segment = current
+    current = null
+    if (!segment || segment.recorder.state === 'inactive') return Promise.resolve()
+
+    const endMs = elapsedMs()
+    return new Promise((resolve) => {
+      segment.recorder.onstop = () => {
+        if (!cancelled && endMs - segment.startMs >= MIN_CHUNK_MS && segment.parts.length > 0) {
+          options.onChunk({
+            index: nextIndex++,
+            startMs: segment.startMs,
+            endMs,
+            blob: new Blob(segment.parts, { type: segment.recorder.mimeType || options.mimeType }),
+          })
+        }
+        resolve()
+      }
+      segment.recorder.stop()
+    })
+  }
+
+  const timer = setInterval(() => {
+    if (current && resumedAt !== null && elapsedMs() - current.startMs >= chunkMs) {
+      endSegment()
+      startSegment()
+    }
+  }, 500)
+
+  let finalSegment: Promise<void> | null = null
+  const finish = () => {
+    finished = true
+    clearInterval(timer)
+    finalSegment = endSegment()
+    return finalSegment
+  }
+
+  startSegment()
+
+  return {
+    pause() {
+      if (finished || resumedAt === null) return
+      activeBeforeMs = elapsedMs()
+      resumedAt = null
+      current?.recorder.pause()
+    },
+    resume() {
+      if (finished || resumedAt !== null) return
+      resumedAt = Date.now()
+      current?.recorder.resume()
+    },
+    stop() {
+      return finished ? finalSegment ?? Promise.resolve() : finish()
+    },
+    cancel() {
+      cancelled = true
+      if (!finished) finish()
+    },
+  }
+}
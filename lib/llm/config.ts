@@ -0,0 +1,21 @@
+import type { LLMFeature } from './types'
+
+const DEFAULT_MODEL = 'gpt-4o'
+
+const FEATURE_MODEL_ENV: Record<LLMFeature, string> = {
+  analysis: 'LLM_MODEL_ANALYSIS',
+  rubric_copilot: 'LLM_MODEL_RUBRIC_COPILOT',
+  rubric_generate: 'LLM_MODEL_RUBRIC_GENERATE',
+  rubric_parse: 'LLM_MODEL_RUBRIC_PARSE',
+  rubric_ocr: 'LLM_MODEL_RUBRIC_OCR',
+  qa_questions: 'LLM_MODEL_QA_QUESTIONS',
+  qa_grade: 'LLM_MODEL_QA_GRADE',
+}
+
+/**
+ * Resolve the model for a feature.
+ * Priority: per-feature env (e.g. LLM_MODEL_ANALYSIS) > LLM_MODEL > gpt-4o
+ */
+export function getModelForFeature(feature: LLMFeature): string {
+  return process.env[FEATURE_MODEL_ENV[feature]] || process.env.LLM_MODEL || DEFAULT_MODEL
+}
@@ -0,0 +1,98 @@
+import { getModelForFeature } from './config'
+import { extractJSON, validateSchema, type JSONSchema } from './json'
+import { createMockProvider } from './mock'
+import { createOpenAICompatibleProvider, createOpenAIProvider } from './openai'
+import type { LLMCompletionRequest, LLMProvider, LLMProviderName } from './types'
+
+export { getModelForFeature } from './config'
+export { extractJSON, validateSchema } from './json'
+export type { JSONSchema } from './json'
+export type {
+  LLMCompletionRequest,
+  LLMContentPart,
+  LLMFeature,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderName,
+} from './types'
+
+const PROVIDERS: Record<LLMProviderName, () => LLMProvider> = {
+  openai: createOpenAIProvider,
+  'openai-compatible': createOpenAICompatibleProvider,
+  mock: createMockProvider,
+}
+
+/**
+ * Raised when the model responded but the output is unusable.
+ * kind: 'parse' (no valid JSON) or 'schema' (JSON does not match the schema)
+ */
+export class LLMOutputError extends Error {
+  kind: 'parse' | 'schema'
+  errors: string[]
+  responseText: string
+
+  constructor(kind: 'parse' | 'schema', message: string, responseText: string, errors: string[] = []) {
+    super(message)
+    this.name = 'LLMOutputError'
+    this.kind = kind
+    this.errors = errors
+    this.responseText = responseText
+  }
+}
+
+/**
+ * Get the LLM provider selected by LLM_PROVIDER
+ * ('openai' | 'openai-compatible' | 'mock', defaults to 'openai').
+ */
+export function getLLMProvider(): LLMProvider {
+  const configured = (process.env.LLM_PROVIDER || 'openai').toLowerCase()
+
+  if (!Object.hasOwn(PROVIDERS, configured)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${configured}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`
+    )
+  }
+
+  return PROVIDERS[configured as LLMProviderName]()
+}
+
+/**
+ * Run a completion for a feature using that feature's configured model.
+ * @returns Raw response text
+ */
+export async function completeText(request: LLMCompletionRequest): Promise<string> {
+  const provider = getLLMProvider()
+  return provider.complete({ ...request, model: getModelForFeature(request.feature) })
+}
+
+/**
+ * Run a JSON completion, extract the JSON object and (optionally) validate it.
+ * @throws LLMOutputError if the response has no valid JSON or fails the schema
+ */
+export async function completeJSON<T = any>(
+  request: Omit<LLMCompletionRequest, 'json'> & { schema?: JSONSchema }
+): Promise<T> {
+  const { schema, ...completion } = request
+  const responseText = await completeText({ ...completion, json: true })
+
+  let parsed: any
+  try {
+    parsed = extractJSON(responseText)
+  } catch (parseError: any) {
+    throw new LLMOutputError('parse', parseError.message, responseText)
+  }
+
+  if (schema) {
+    const errors = validateSchema(parsed, schema)
+    if (errors.length > 0) {
+      throw new LLMOutputError(
+        'schema',
+        `Response does not match the expected schema: ${errors.slice(0, 5).join('; ')}`,
+        responseText,
+        errors
+      )
+    }
+  }
+
+  return parsed as T
+}
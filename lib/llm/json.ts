@@ -0,0 +1,142 @@
+type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+/**
+ * Subset of JSON Schema used to validate LLM output.
+ * Supports: type (single or union), properties, required, items, minItems, minLength, enum
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[]
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  items?: JSONSchema
+  minItems?: number
+  minLength?: number
+  enum?: Array<string | number | boolean | null>
+}
+
+// Extract JSON from text that might contain markdown code blocks or extra text
+export function extractJSON(text: string): any {
+  if (!text || typeof text !== 'string') {
+    throw new Error('Invalid input: text must be a non-empty string')
+  }
+
+  // Try direct JSON parse first (most common case with json_object response_format)
+  try {
+    return JSON.parse(text.trim())
+  } catch (e) {
+    // Continue to extraction methods
+  }
+
+  // Try to extract JSON from markdown code blocks (```json ... ```)
+  const jsonBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/)
+  if (jsonBlockMatch) {
+    try {
+      return JSON.parse(jsonBlockMatch[1])
+    } catch (e) {
+      // Continue to next method
+    }
+  }
+
+  // Try to find the first complete JSON object in the text
+  // This handles cases where there's text before/after the JSON
+  let braceCount = 0
+  let startIndex = -1
+  let endIndex = -1
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') {
+      if (startIndex === -1) startIndex = i
+      braceCount++
+    } else if (text[i] === '}') {
+      braceCount--
+      if (braceCount === 0 && startIndex !== -1) {
+        endIndex = i
+        break
+      }
+    }
+  }
+
+  if (startIndex !== -1 && endIndex !== -1) {
+    try {
+      return JSON.parse(text.substring(startIndex, endIndex + 1))
+    } catch (e) {
+      // Continue to regex fallback
+    }
+  }
+
+  // Fallback: try regex to find any JSON-like object
+  const jsonObjectMatch = text.match(/\{[\s\S]*\}/)
+  if (jsonObjectMatch) {
+    try {
+      return JSON.parse(jsonObjectMatch[0])
+    } catch (e) {
+      // Last attempt failed
+    }
+  }
+
+  throw new Error('Could not extract valid JSON from response. The AI may have returned non-JSON content.')
+}
+
+function typeOf(value: unknown): JSONSchemaType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JSONSchemaType
+}
+
+function matchesType(value: unknown, expected: JSONSchemaType): boolean {
+  const actual = typeOf(value)
+  // Integers are also numbers
+  return actual === expected || (expected === 'number' && actual === 'integer')
+}
+
+/**
+ * Validate a value against a schema.
+ * @returns List of human-readable errors (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = []
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!allowed.some(t => matchesType(value, t))) {
+      errors.push(`${path}: expected ${allowed.join(' | ')}, got ${typeOf(value)}`)
+      return errors
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`)
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} character(s)`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s), got ${value.length}`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`))
+      })
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push(`${path}.${key}: is required`)
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined) {
+        errors.push(...validateSchema(obj[key], propSchema, `${path}.${key}`))
+      }
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,158 @@
+import { readFileSync, existsSync } from 'fs'
+import { join } from 'path'
+import type { LLMCompletionRequest, LLMFeature, LLMProvider } from './types'
+
+// Built-in responses, written against the fixture transcription provider's transcript
+const BUILT_IN_RESPONSES: Record<LLMFeature, unknown> = {
+  analysis: {
+    summary: {
+      overall_score: 7,
+      overall_notes: 'A clear, compact pitch that names the problem, the product and the audience. The close asks for pilots but could be more specific.',
+      top_strengths: ['Clear problem statement: "never get honest feedback"'],
+      top_improvements: ['Make the ask concrete: "We are looking for pilot customers"'],
+    },
+    timing: {
+      target_seconds: null,
+      max_seconds: null,
+      estimated_seconds: null,
+      pacing_wpm: null,
+      notes: 'Pacing is steady throughout.',
+    },
+    rubric_scores: [
+      {
+        criterion_id: 'criterion_0',
+        criterion_label: 'Problem',
+        score: 7,
+        notes: 'The problem is stated plainly: "never get honest feedback".',
+        evidence_quotes: ['Most people rehearse important pitches alone and never get honest feedback.'],
+        missing: false,
+      },
+    ],
+    chunks: [
+      {
+        text: 'Most people rehearse important pitches alone and never get honest feedback.',
+        purpose: 'criterion_0',
+        purpose_label: 'Problem',
+        score: 7,
+        status: 'strong',
+        feedback: 'Relatable problem, stated in one sentence.',
+        rewrite_suggestion: null,
+      },
+    ],
+    line_by_line: [
+      {
+        quote: 'We are looking for pilot customers',
+        type: 'issue',
+        comment: 'The ask is vague.',
+        action: 'Say how many pilots, for how long, and what they get.',
+        priority: 'medium',
+      },
+    ],
+    pause_suggestions: [
+      {
+        after_quote: 'never get honest feedback.',
+        why: 'Let the problem land before introducing the product.',
+        duration_ms: 600,
+      },
+    ],
+    cut_suggestions: [],
+    audience_reaction: {
+      persona: 'Seed investor',
+      interest: 6,
+      would_advance: null,
+      first_impression: 'The problem is familiar: "never get honest feedback".',
+      verdict: 'I get the problem, but I did not hear who pays or how many already do.',
+      moments: [
+        {
+          quote: 'We are looking for pilot customers',
+          reaction: 'So no paying customers yet.',
+          sentiment: 'negative',
+        },
+      ],
+      likely_objections: ['Who pays for this?'],
+      missing_for_them: ['Traction numbers'],
+    },
+  },
+  rubric_copilot: {
+    name: 'Mock rubric',
+    context_summary: 'Recorded mock response for local development and CI.',
+    guiding_questions: ['What problem are you solving?'],
+    criteria: [
+      { name: 'Hook', description: 'Opens with a reason to listen.', scoring_guide: '0-10: Attention in the first sentence', weight: 1 },
+      { name: 'Problem', description: 'States a specific, relatable problem.', scoring_guide: '0-10: Problem is concrete', weight: 1 },
+      { name: 'Ask', description: 'Ends with a clear next step.', scoring_guide: '0-10: Explicit, specific ask', weight: 1 },
+    ],
+  },
+  rubric_generate: {
+    title: 'Mock rubric',
+    description: 'Recorded mock response for local development and CI.',
+    target_duration_seconds: 60,
+    criteria: [
+      { name: 'Hook', description: 'Opens with a reason to listen.' },
+      { name: 'Problem', description: 'States a specific, relatable problem.' },
+      { name: 'Ask', description: 'Ends with a clear next step.' },
+    ],
+  },
+  rubric_parse: {
+    name: 'Mock rubric',
+    description: null,
+    criteria: [
+      { name: 'Hook', description: 'Opens with a reason to listen.', weight: null },
+      { name: 'Problem', description: 'States a specific, relatable problem.', weight: null },
+      { name: 'Ask', description: 'Ends with a clear next step.', weight: null },
+    ],
+    target_duration_seconds: null,
+    max_duration_seconds: null,
+  },
+  rubric_ocr: 'Mock rubric\n1. Hook - Opens with a reason to listen\n2. Problem - States a specific problem\n3. Ask - Ends with a clear next step',
+  qa_questions: {
+    questions: [
+      {
+        question: 'How many customers are paying today?',
+        category: 'evidence',
+        why: 'Traction was mentioned without numbers.',
+        expected_points: ['Current paying customers', 'Growth rate'],
+      },
+      {
+        question: 'Who else solves this, and why do customers pick you?',
+        category: 'competition',
+        why: 'The pitch did not name alternatives.',
+        expected_points: ['Named competitors', 'Concrete difference'],
+      },
+    ],
+  },
+  qa_grade: {
+    directness: { score: 7, notes: 'Answered in the first sentence.' },
+    accuracy: { score: 8, notes: 'Consistent with the pitch.' },
+    brevity: { score: 6, notes: 'Repeated the main point twice.' },
+    evidence_quotes: [],
+    strengths: ['Led with the answer.'],
+    improvements: ['Stop after the supporting number.'],
+    better_answer: 'Mock better answer.',
+  },
+}
+
+/**
+ * Recorded-response provider for tests, CI and offline demos. Never touches the network.
+ *
+ * Replays `<feature>.json` (raw response text) from LLM_MOCK_RESPONSES_DIR when present,
+ * otherwise a built-in response for the feature.
+ */
+export function createMockProvider(): LLMProvider {
+  const responsesDir = process.env.LLM_MOCK_RESPONSES_DIR || null
+
+  return {
+    name: 'mock',
+    async complete(request: LLMCompletionRequest & { model: string }): Promise<string> {
+      if (responsesDir) {
+        const recordedPath = join(responsesDir, `${request.feature}.json`)
+        if (existsSync(recordedPath)) {
+          return readFileSync(recordedPath, 'utf-8')
+        }
+      }
+
+      const response = BUILT_IN_RESPONSES[request.feature]
+      return typeof response === 'string' ? response : JSON.stringify(response)
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import OpenAI from 'openai'
+import type { LLMCompletionRequest, LLMProvider, LLMProviderName } from './types'
+
+interface OpenAIProviderOptions {
+  name: LLMProviderName
+  apiKey: string
+  baseURL?: string
+}
+
+function createProvider({ name, apiKey, baseURL }: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL })
+
+  return {
+    name,
+    async complete(request: LLMCompletionRequest & { model: string }): Promise<string> {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        // LLMMessage is a structural subset of the OpenAI message params
+        messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      })
+
+      const responseText = completion.choices[0]?.message?.content
+      if (!responseText) {
+        throw new Error(`Empty response from ${name === 'openai' ? 'OpenAI' : 'LLM server'}`)
+      }
+      return responseText
+    },
+  }
+}
+
+/**
+ * OpenAI provider (default). Env: OPENAI_API_KEY
+ */
+export function createOpenAIProvider(): LLMProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY environment variable is not set')
+  }
+  return createProvider({ name: 'openai', apiKey: process.env.OPENAI_API_KEY })
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API (Ollama, vLLM, LM Studio...).
+ * Env: LLM_BASE_URL (e.g. http://127.0.0.1:11434/v1), LLM_API_KEY (optional for most local servers)
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const baseURL = process.env.LLM_BASE_URL
+  if (!baseURL) {
+    throw new Error('LLM_BASE_URL environment variable is not set')
+  }
+  return createProvider({
+    name: 'openai-compatible',
+    apiKey: process.env.LLM_API_KEY || 'not-needed',
+    baseURL,
+  })
+}
@@ -0,0 +1,38 @@
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock'
+
+// Features that call the LLM - each can be pointed at a different model
+export type LLMFeature =
+  | 'analysis'
+  | 'rubric_copilot'
+  | 'rubric_generate'
+  | 'rubric_parse'
+  | 'rubric_ocr'
+  | 'qa_questions'
+  | 'qa_grade'
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | LLMContentPart[]
+}
+
+export interface LLMCompletionRequest {
+  feature: LLMFeature
+  messages: LLMMessage[]
+  // Ask the provider for a JSON object response (response_format json_object)
+  json?: boolean
+  temperature?: number
+  maxTokens?: number
+}
+
+/**
+ * Chat-completion backend. Returns the raw response text;
+ * JSON extraction and validation happen in completeJSON().
+ */
+export interface LLMProvider {
+  name: LLMProviderName
+  complete(request: LLMCompletionRequest & { model: string }): Promise<string>
+}
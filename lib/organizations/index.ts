@@ -0,0 +1,22 @@
+export {
+  getMemberRole,
+  isCoachOf,
+  listInvites,
+  listMembers,
+  listMemberships,
+  listReceivedInvites,
+  normalizeInviteEmail,
+  ORGANIZATION_COLUMNS,
+} from './membership'
+export { canAddMember, canCoach, canRemoveMember, isOrganizationRole } from './roles'
+export { buildRoster, ROSTER_RECENT_SCORES } from './roster'
+export type { RosterRun } from './roster'
+export { MAX_ORGANIZATION_NAME_CHARS, ORGANIZATION_ROLES } from './types'
+export type {
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationRole,
+  ReceivedInvite,
+  RosterLearner,
+} from './types'
@@ -0,0 +1,172 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { isOrganizationRole } from './roles'
+import type { Organization, OrganizationInvite, OrganizationMember, OrganizationRole, ReceivedInvite } from './types'
+
+export const ORGANIZATION_COLUMNS = 'id, name, created_by, created_at, updated_at'
+
+/** userId's role in the organization, or null if they aren't a member (pending invites don't count). */
+export async function getMemberRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+  const { data: member, error } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Organizations] Failed to load membership:', { organizationId, userId, error })
+    return null
+  }
+  return isOrganizationRole(member?.role) ? member.role : null
+}
+
+/** Organizations userId belongs to, with their role in each. */
+export async function listMemberships(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select(`role, organizations(${ORGANIZATION_COLUMNS})`)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Organizations] Failed to list memberships:', { userId, error })
+    throw new Error(error.message)
+  }
+  return (rows || [])
+    .filter((row: any) => row.organizations && isOrganizationRole(row.role))
+    .map((row: any) => ({ ...(row.organizations as Organization), role: row.role as OrganizationRole }))
+}
+
+/** Members of an organization with their emails, owners first. */
+export async function listMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('user_id, role, created_at')
+    .eq('organization_id', organizationId)
+    .not('accepted_at', 'is', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Organizations] Failed to list members:', { organizationId, error })
+    throw new Error(error.message)
+  }
+
+  const userIds = (rows || []).map(row => row.user_id)
+  const { data: profiles } = userIds.length > 0
+    ? await getSupabaseAdmin().from('user_profiles').select('user_id, email').in('user_id', userIds)
+    : { data: [] as Array<{ user_id: string; email: string }> }
+  const emails = new Map((profiles || []).map(profile => [profile.user_id, profile.email]))
+
+  const rank: Record<OrganizationRole, number> = { owner: 0, coach: 1, learner: 2 }
+  return (rows || [])
+    .filter(row => isOrganizationRole(row.role))
+    .map(row => ({
+      user_id: row.user_id,
+      email: emails.get(row.user_id) ?? null,
+      role: row.role as OrganizationRole,
+      joined_at: row.created_at,
+    }))
+    .sort((a, b) => rank[a.role] - rank[b.role])
+}
+
+/** Invite emails are stored and matched lowercase. */
+export function normalizeInviteEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/** Pending invites to an organization, oldest first. */
+export async function listInvites(organizationId: string): Promise<OrganizationInvite[]> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('id, user_id, invited_email, role, created_at')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Organizations] Failed to list invites:', { organizationId, error })
+    throw new Error(error.message)
+  }
+
+  // Memberships from before invites existed have a user_id but no invited_email
+  const userIds = (rows || []).filter(row => !row.invited_email && row.user_id).map(row => row.user_id)
+  const { data: profiles } = userIds.length > 0
+    ? await getSupabaseAdmin().from('user_profiles').select('user_id, email').in('user_id', userIds)
+    : { data: [] as Array<{ user_id: string; email: string }> }
+  const emails = new Map((profiles || []).map(profile => [profile.user_id, profile.email]))
+
+  return (rows || [])
+    .filter(row => isOrganizationRole(row.role))
+    .map(row => ({
+      id: row.id,
+      email: row.invited_email ?? emails.get(row.user_id) ?? null,
+      role: row.role as OrganizationRole,
+      invited_at: row.created_at,
+    }))
+}
+
+/**
+ * Pending invites for a signed-in user: sent to their email, or memberships from before
+ * invites existed that they haven't accepted yet.
+ */
+export async function listReceivedInvites(userId: string, email: string | null | undefined): Promise<ReceivedInvite[]> {
+  const columns = `id, organization_id, role, created_at, organizations(name)`
+  const [byUser, byEmail] = await Promise.all([
+    getSupabaseAdmin().from('organization_members').select(columns).eq('user_id', userId).is('accepted_at', null),
+    email
+      ? getSupabaseAdmin().from('organization_members').select(columns).eq('invited_email', normalizeInviteEmail(email)).is('accepted_at', null)
+      : Promise.resolve({ data: [] as any[], error: null }),
+  ])
+
+  const error = byUser.error || byEmail.error
+  if (error) {
+    console.error('[Organizations] Failed to list received invites:', { userId, error })
+    throw new Error(error.message)
+  }
+
+  const rows = new Map<string, any>()
+  for (const row of [...(byUser.data || []), ...(byEmail.data || [])]) rows.set(row.id, row)
+  return Array.from(rows.values())
+    .filter(row => row.organizations && isOrganizationRole(row.role))
+    .map(row => ({
+      id: row.id,
+      organization_id: row.organization_id,
+      organization_name: row.organizations.name,
+      role: row.role as OrganizationRole,
+      invited_at: row.created_at,
+    }))
+    .sort((a, b) => a.invited_at.localeCompare(b.invited_at))
+}
+
+/**
+ * Whether coachId is an owner or coach in an organization where learnerId is a learner,
+ * both having accepted (the same rule as the "Pitch runs select for coaches" policy).
+ */
+export async function isCoachOf(coachId: string, learnerId: string): Promise<boolean> {
+  if (coachId === learnerId) return false
+
+  const { data: coaching, error } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', coachId)
+    .in('role', ['owner', 'coach'])
+    .not('accepted_at', 'is', null)
+
+  if (error || !coaching || coaching.length === 0) {
+    if (error) console.error('[Organizations] Failed to load coaching memberships:', { coachId, error })
+    return false
+  }
+
+  const { data: learner } = await getSupabaseAdmin()
+    .from('organization_members')
+    .select('id')
+    .eq('user_id', learnerId)
+    .eq('role', 'learner')
+    .not('accepted_at', 'is', null)
+    .in('organization_id', coaching.map(row => row.organization_id))
+    .limit(1)
+
+  return !!learner && learner.length > 0
+}
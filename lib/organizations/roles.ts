@@ -0,0 +1,29 @@
+import { ORGANIZATION_ROLES, type OrganizationRole } from './types'
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value)
+}
+
+/** Owners and coaches see learners' runs and the roster, and share rubrics. */
+export function canCoach(role: OrganizationRole | null): boolean {
+  return role === 'owner' || role === 'coach'
+}
+
+/** Owners add anyone; coaches add learners. */
+export function canAddMember(actor: OrganizationRole | null, role: OrganizationRole): boolean {
+  if (actor === 'owner') return true
+  return actor === 'coach' && role === 'learner'
+}
+
+/**
+ * Owners remove anyone and change roles; coaches remove learners; anyone can leave.
+ * Callers still have to keep at least one owner.
+ */
+export function canRemoveMember(
+  actor: OrganizationRole | null,
+  target: OrganizationRole,
+  isSelf: boolean
+): boolean {
+  if (isSelf || actor === 'owner') return true
+  return actor === 'coach' && target === 'learner'
+}
@@ -0,0 +1,43 @@
+import type { AnalysisJson } from '@/lib/analysis'
+import type { OrganizationMember, RosterLearner } from './types'
+
+export const ROSTER_RECENT_SCORES = 5
+
+/** The pitch_runs columns the roster reads */
+export interface RosterRun {
+  id: string
+  user_id: string
+  created_at: string
+  status: string
+  analysis_json: AnalysisJson | null
+}
+
+/** Learners (by email) with their run counts and scores; runs may be in any order. */
+export function buildRoster(members: OrganizationMember[], runs: RosterRun[]): RosterLearner[] {
+  const ordered = [...runs].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  return members
+    .filter(member => member.role === 'learner')
+    .map(member => {
+      const own = ordered.filter(run => run.user_id === member.user_id)
+      const scores = own
+        .map(run => (run.status === 'analyzed' ? run.analysis_json?.summary?.overall_score ?? null : null))
+        .filter((score): score is number => score !== null)
+      const last = own[own.length - 1]
+      return {
+        user_id: member.user_id,
+        email: member.email,
+        joined_at: member.joined_at,
+        run_count: own.length,
+        analyzed_count: scores.length,
+        last_run_at: last?.created_at ?? null,
+        last_run_id: last?.id ?? null,
+        last_score: scores.length > 0 ? scores[scores.length - 1] : null,
+        average_score: scores.length > 0
+          ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+          : null,
+        recent_scores: scores.slice(-ROSTER_RECENT_SCORES),
+      }
+    })
+    .sort((a, b) => (b.last_run_at || '').localeCompare(a.last_run_at || '') || (a.email || '').localeCompare(b.email || ''))
+}
@@ -0,0 +1,59 @@
+/**
+ * Coach/team workspaces. Members of an organization have one role each:
+ * owner (manages the organization and its members), coach (sees learners' runs, adds
+ * learners, shares rubrics) and learner (practices; their runs are visible to coaches).
+ */
+
+export const ORGANIZATION_ROLES = ['owner', 'coach', 'learner'] as const
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number]
+
+export const MAX_ORGANIZATION_NAME_CHARS = 100
+
+/** An organizations row (migration 032) */
+export interface Organization {
+  id: string
+  name: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface OrganizationMember {
+  user_id: string
+  /** From user_profiles; null if the profile hasn't synced */
+  email: string | null
+  role: OrganizationRole
+  joined_at: string
+}
+
+/** A pending invite to an organization, as the owners and coaches see it */
+export interface OrganizationInvite {
+  id: string
+  email: string | null
+  role: OrganizationRole
+  invited_at: string
+}
+
+/** A pending invite, as the invited person sees it */
+export interface ReceivedInvite {
+  id: string
+  organization_id: string
+  organization_name: string
+  role: OrganizationRole
+  invited_at: string
+}
+
+/** A learner's practice at a glance, for the coach's roster */
+export interface RosterLearner {
+  user_id: string
+  email: string | null
+  joined_at: string
+  run_count: number
+  analyzed_count: number
+  last_run_at: string | null
+  last_run_id: string | null
+  last_score: number | null
+  average_score: number | null
+  /** Latest analyzed scores, oldest first (at most ROSTER_RECENT_SCORES) */
+  recent_scores: number[]
+}
@@ -0,0 +1,17 @@
+export { applyPersonaWeights, parsePersona } from './persona'
+export { BUILT_IN_PERSONAS, getBuiltInPersona } from './presets'
+export {
+  MAX_FOCUS_WEIGHT,
+  MAX_PERSONA_LIST_ITEMS,
+  MIN_FOCUS_WEIGHT,
+  PERSONA_EXPERTISE,
+  PERSONA_SKEPTICISM,
+  PERSONA_TONES,
+} from './types'
+export type {
+  AudiencePersona,
+  PersonaExpertise,
+  PersonaFocus,
+  PersonaSkepticism,
+  PersonaTone,
+} from './types'
@@ -0,0 +1,82 @@
+import type { PromptRubricItem } from '@/lib/runs/analysis-types'
+import {
+  MAX_FOCUS_WEIGHT,
+  MAX_PERSONA_LIST_ITEMS,
+  MIN_FOCUS_WEIGHT,
+  PERSONA_EXPERTISE,
+  PERSONA_SKEPTICISM,
+  PERSONA_TONES,
+  type AudiencePersona,
+  type PersonaFocus,
+} from './types'
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : ''
+}
+
+function list(value: unknown, maxLength = 200): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(item => text(item, maxLength))
+    .filter(item => item.length > 0)
+    .slice(0, MAX_PERSONA_LIST_ITEMS)
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback
+}
+
+function focusList(value: unknown): PersonaFocus[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is Record<string, any> => !!item && typeof item === 'object')
+    .map(item => ({
+      keywords: list(item.keywords, 40).map(keyword => keyword.toLowerCase()),
+      weight: typeof item.weight === 'number' && Number.isFinite(item.weight)
+        ? Math.min(MAX_FOCUS_WEIGHT, Math.max(MIN_FOCUS_WEIGHT, item.weight))
+        : 1,
+    }))
+    .filter(item => item.keywords.length > 0)
+    .slice(0, MAX_PERSONA_LIST_ITEMS)
+}
+
+/**
+ * Normalize a persona from a request body, an audience_personas row or a run's
+ * persona_snapshot. Returns null when it has no name.
+ */
+export function parsePersona(value: unknown): AudiencePersona | null {
+  if (!value || typeof value !== 'object') return null
+  const input = value as Record<string, any>
+  const name = text(input.name, 80)
+  if (!name) return null
+
+  return {
+    id: text(input.id, 64),
+    built_in: input.built_in === true,
+    name,
+    role: text(input.role, 120),
+    description: text(input.description, 500),
+    priorities: list(input.priorities),
+    objections: list(input.objections),
+    expertise: oneOf(input.expertise, PERSONA_EXPERTISE, 'informed'),
+    skepticism: oneOf(input.skepticism, PERSONA_SKEPTICISM, 'medium'),
+    tone: oneOf(input.tone, PERSONA_TONES, 'direct'),
+    focus: focusList(input.focus),
+  }
+}
+
+/**
+ * Reweight rubric items for a persona: an item's weight is multiplied by the weight of
+ * every focus whose keywords appear in its label (or id). Rubric weights stay relative,
+ * so the overall score shifts towards what this audience cares about.
+ */
+export function applyPersonaWeights(items: PromptRubricItem[], persona: AudiencePersona): PromptRubricItem[] {
+  return items.map(item => {
+    // Leading space: keywords match at word starts ("ask" matches "Ask", not "Task")
+    const haystack = ` ${item.label} ${item.id}`.toLowerCase().replace(/[_-]+/g, ' ')
+    const factor = persona.focus
+      .filter(focus => focus.keywords.some(keyword => haystack.includes(` ${keyword}`)))
+      .reduce((product, focus) => product * focus.weight, 1)
+    return factor === 1 ? item : { ...item, weight: Math.round(item.weight * factor * 100) / 100 }
+  })
+}
@@ -0,0 +1,76 @@
+import type { AudiencePersona } from './types'
+
+export const BUILT_IN_PERSONAS: AudiencePersona[] = [
+  {
+    id: 'seed_investor',
+    built_in: true,
+    name: 'Seed investor',
+    role: 'Partner at a seed-stage fund',
+    description: 'Sees dozens of pitches a week and decides in minutes whether to take a second meeting.',
+    priorities: ['Size of the market', 'Traction and proof of demand', 'Why this team', 'Why now', 'A clear ask'],
+    objections: ['The market is too small', 'Anyone could build this', 'No evidence customers will pay'],
+    expertise: 'informed',
+    skepticism: 'high',
+    tone: 'direct',
+    focus: [
+      { keywords: ['market', 'traction', 'growth', 'revenue', 'business model'], weight: 1.5 },
+      { keywords: ['team', 'founder'], weight: 1.3 },
+      { keywords: ['ask', 'call to action', 'cta', 'next step'], weight: 1.3 },
+    ],
+  },
+  {
+    id: 'enterprise_buyer',
+    built_in: true,
+    name: 'Enterprise buyer',
+    role: 'Head of operations evaluating vendors',
+    description: 'Needs to justify the purchase internally and is wary of risk, integration work and hidden cost.',
+    priorities: ['The problem in their terms', 'Return on investment', 'Integration and rollout effort', 'Security and reliability', 'References from similar companies'],
+    objections: ['We already have a tool for this', 'Too risky to switch', 'What does it really cost'],
+    expertise: 'informed',
+    skepticism: 'medium',
+    tone: 'formal',
+    focus: [
+      { keywords: ['problem', 'pain', 'value', 'roi', 'benefit'], weight: 1.5 },
+      { keywords: ['solution', 'product', 'demo', 'how it works'], weight: 1.2 },
+      { keywords: ['story', 'hook', 'vision'], weight: 0.8 },
+    ],
+  },
+  {
+    id: 'hiring_panel',
+    built_in: true,
+    name: 'Hiring panel',
+    role: 'Interview panel for the role',
+    description: 'Judges whether the speaker can do the job: concrete examples, ownership and clear communication.',
+    priorities: ['Concrete examples with results', 'Own contribution, not just the team\'s', 'Fit with the role', 'Clear structure'],
+    objections: ['What did you personally do', 'How would that work here', 'That sounds rehearsed'],
+    expertise: 'informed',
+    skepticism: 'medium',
+    tone: 'supportive',
+    focus: [
+      { keywords: ['example', 'experience', 'result', 'impact', 'evidence'], weight: 1.5 },
+      { keywords: ['clarity', 'structure', 'delivery'], weight: 1.2 },
+      { keywords: ['market', 'business model'], weight: 0.7 },
+    ],
+  },
+  {
+    id: 'professor',
+    built_in: true,
+    name: 'Professor',
+    role: 'Faculty member grading a presentation',
+    description: 'Expects a clear argument, sources for claims and an honest account of limitations.',
+    priorities: ['A clear thesis', 'Evidence and sources for claims', 'Logical structure', 'Limitations acknowledged'],
+    objections: ['Where does that number come from', 'That doesn\'t follow', 'You ignored the obvious counter-argument'],
+    expertise: 'expert',
+    skepticism: 'high',
+    tone: 'academic',
+    focus: [
+      { keywords: ['evidence', 'research', 'data', 'argument', 'structure'], weight: 1.5 },
+      { keywords: ['clarity', 'conclusion'], weight: 1.2 },
+      { keywords: ['ask', 'call to action', 'cta'], weight: 0.7 },
+    ],
+  },
+]
+
+export function getBuiltInPersona(id: string): AudiencePersona | null {
+  return BUILT_IN_PERSONAS.find(persona => persona.id === id) || null
+}
@@ -0,0 +1,43 @@
+/**
+ * Audience personas: who the pitch is for. A persona reweights the rubric towards what
+ * that audience cares about, sets the tone and angle of the feedback, and adds an
+ * "audience reaction" section to the analysis (analysis_json.audience_reaction).
+ */
+
+export const PERSONA_EXPERTISE = ['novice', 'informed', 'expert'] as const
+export const PERSONA_SKEPTICISM = ['low', 'medium', 'high'] as const
+export const PERSONA_TONES = ['direct', 'supportive', 'formal', 'academic'] as const
+
+export type PersonaExpertise = typeof PERSONA_EXPERTISE[number]
+export type PersonaSkepticism = typeof PERSONA_SKEPTICISM[number]
+export type PersonaTone = typeof PERSONA_TONES[number]
+
+/** Criteria whose name mentions a keyword get their weight multiplied */
+export interface PersonaFocus {
+  keywords: string[]
+  weight: number
+}
+
+export interface AudiencePersona {
+  /** Built-in key (e.g. seed_investor) or the audience_personas row id */
+  id: string
+  built_in: boolean
+  name: string
+  /** Who they are, e.g. "Partner at a seed fund" */
+  role: string
+  description: string
+  /** What they listen for */
+  priorities: string[]
+  /** What they typically push back on */
+  objections: string[]
+  /** How much they already know about the domain */
+  expertise: PersonaExpertise
+  skepticism: PersonaSkepticism
+  /** Tone the feedback is written in */
+  tone: PersonaTone
+  focus: PersonaFocus[]
+}
+
+export const MAX_PERSONA_LIST_ITEMS = 8
+export const MIN_FOCUS_WEIGHT = 0.25
+export const MAX_FOCUS_WEIGHT = 3
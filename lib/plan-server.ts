@@ -11,20 +11,24 @@ export type UserPlan = 'free' | 'starter' | 'coach' | 'daypass'
  * Returns the highest plan (coach > starter > daypass > free).
  * 
  * @param sessionId - Optional session_id for non-authenticated users
+ * @param knownUserId - User id to use instead of reading auth cookies (null = anonymous)
  * @returns The user's current plan
  */
-export async function getUserPlanFromDB(sessionId?: string | null): Promise<UserPlan> {
+export async function getUserPlanFromDB(sessionId?: string | null, knownUserId?: string | null): Promise<UserPlan> {
   try {
-    // Get user if authenticated
-    let userId: string | null = null
-    try {
-      const supabase = await createClient()
-      const { data: { user } } = await supabase.auth.getUser()
-      if (user) {
-        userId = user.id
+    // Get user if authenticated. Callers outside a request (background jobs)
+    // pass the user id explicitly since there are no auth cookies to read.
+    let userId: string | null = knownUserId ?? null
+    if (knownUserId === undefined) {
+      try {
+        const supabase = await createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        if (user) {
+          userId = user.id
+        }
+      } catch (err) {
+        // Not authenticated - that's fine, will check session_id
       }
-    } catch (err) {
-      // Not authenticated - that's fine, will check session_id
     }
 
     const supabaseAdmin = getSupabaseAdmin()
@@ -0,0 +1,8 @@
+export { summarizePracticeSession } from './summary'
+export type { PracticeSessionRun } from './summary'
+export type {
+  PracticeSession,
+  PracticeSessionIssue,
+  PracticeSessionSummary,
+  PracticeSessionTake,
+} from './types'
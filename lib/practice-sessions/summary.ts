@@ -0,0 +1,175 @@
+import { getFillerWordTotal, type AnalysisJson } from '@/lib/analysis'
+import { getLanguageProfile } from '@/lib/languages'
+import type { PracticeSessionIssue, PracticeSessionSummary, PracticeSessionTake } from './types'
+
+/** The pitch_runs columns the summary reads */
+export interface PracticeSessionRun {
+  id: string
+  created_at: string
+  status: string
+  title: string | null
+  duration_ms: number | null
+  audio_seconds: number | null
+  words_per_minute: number | null
+  language: string | null
+  analysis_json: AnalysisJson | null
+}
+
+// A criterion scoring below this in two or more takes is a recurring issue
+const WEAK_CRITERION_SCORE = 6
+const MIN_RECURRENCES = 2
+// Fillers per minute above this are worth working on
+const FILLER_PER_MINUTE = 4
+// Over the rubric's target by more than this share counts as running long
+const OVERTIME_SHARE = 0.1
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round1(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+}
+
+function durationOf(run: PracticeSessionRun): number | null {
+  if (run.duration_ms) return run.duration_ms / 1000
+  return run.audio_seconds ?? null
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Compare the takes of a session: scores per criterion, durations and pace, the best
+ * take (highest overall score, the later take on ties) and issues that keep coming back.
+ */
+export function summarizePracticeSession(runs: PracticeSessionRun[]): PracticeSessionSummary {
+  const ordered = [...runs].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const criteria: string[] = []
+
+  const takes: PracticeSessionTake[] = ordered.map((run, index) => {
+    const analysis = run.analysis_json
+    const rubricScores: Record<string, number> = {}
+    for (const score of analysis?.rubric_scores || []) {
+      if (!score.criterion_label) continue
+      rubricScores[score.criterion_label] = score.score
+      if (!criteria.includes(score.criterion_label)) criteria.push(score.criterion_label)
+    }
+    const duration = durationOf(run)
+    return {
+      id: run.id,
+      take_number: index + 1,
+      created_at: run.created_at,
+      status: run.status,
+      title: run.title,
+      overall_score: run.status === 'analyzed' ? analysis?.summary?.overall_score ?? null : null,
+      duration_sec: duration !== null ? round1(duration) : null,
+      words_per_minute: run.words_per_minute,
+      filler_total: getFillerWordTotal(analysis),
+      rubric_scores: rubricScores,
+      is_best: false,
+    }
+  })
+
+  const scored = takes.filter(take => take.overall_score !== null)
+  const best = scored.reduce<PracticeSessionTake | null>(
+    (top, take) => (!top || take.overall_score! >= top.overall_score! ? take : top),
+    null
+  )
+  if (best && scored.length > 1) best.is_best = true
+
+  const issues: PracticeSessionIssue[] = []
+
+  for (const criterion of criteria) {
+    const weak = takes.filter(take => criterion in take.rubric_scores && take.rubric_scores[criterion] < WEAK_CRITERION_SCORE)
+    if (weak.length < MIN_RECURRENCES) continue
+    const graded = takes.filter(take => criterion in take.rubric_scores)
+    issues.push({
+      key: `criterion:${criterion}`,
+      label: criterion,
+      detail: `Scored below ${WEAK_CRITERION_SCORE} in ${weak.length} of ${plural(graded.length, 'take')} (average ${average(graded.map(take => take.rubric_scores[criterion]))}).`,
+      takes: weak.map(take => take.take_number),
+    })
+  }
+
+  // Pace against the norms of each take's language
+  const paceIssues: Record<'slow' | 'fast', PracticeSessionTake[]> = { slow: [], fast: [] }
+  ordered.forEach((run, index) => {
+    if (!run.words_per_minute) return
+    const { pacing } = getLanguageProfile(run.language)
+    if (run.words_per_minute < pacing.slow) paceIssues.slow.push(takes[index])
+    if (run.words_per_minute > pacing.fast) paceIssues.fast.push(takes[index])
+  })
+  for (const pace of ['fast', 'slow'] as const) {
+    const list = paceIssues[pace]
+    if (list.length < MIN_RECURRENCES) continue
+    issues.push({
+      key: `pacing:${pace}`,
+      label: pace === 'fast' ? 'Speaking too fast' : 'Speaking too slowly',
+      detail: `Pace was ${pace === 'fast' ? 'above' : 'below'} the comfortable range in ${plural(list.length, 'take')}.`,
+      takes: list.map(take => take.take_number),
+    })
+  }
+
+  const fillerHeavy = takes.filter(take =>
+    take.filler_total !== null && take.duration_sec && take.filler_total / (take.duration_sec / 60) > FILLER_PER_MINUTE
+  )
+  if (fillerHeavy.length >= MIN_RECURRENCES) {
+    issues.push({
+      key: 'fillers',
+      label: 'Filler words',
+      detail: `More than ${FILLER_PER_MINUTE} fillers a minute in ${plural(fillerHeavy.length, 'take')}.`,
+      takes: fillerHeavy.map(take => take.take_number),
+    })
+  }
+
+  const overtime = ordered
+    .map((run, index) => ({ take: takes[index], timing: run.analysis_json?.timing }))
+    .filter(({ take, timing }) => {
+      const limit = timing?.max_seconds ?? timing?.target_seconds
+      return !!limit && take.duration_sec !== null && take.duration_sec > limit * (1 + OVERTIME_SHARE)
+    })
+  if (overtime.length >= MIN_RECURRENCES) {
+    issues.push({
+      key: 'overtime',
+      label: 'Running long',
+      detail: `Went over the time limit in ${plural(overtime.length, 'take')}.`,
+      takes: overtime.map(({ take }) => take.take_number),
+    })
+  }
+
+  // Issues in the most takes first
+  issues.sort((a, b) => b.takes.length - a.takes.length)
+
+  const scoreChange = scored.length >= 2
+    ? round1(scored[scored.length - 1].overall_score! - scored[0].overall_score!)
+    : null
+
+  const notes: string[] = []
+  if (scoreChange !== null) {
+    notes.push(scoreChange > 0
+      ? `Up ${scoreChange} points from take ${scored[0].take_number} to take ${scored[scored.length - 1].take_number}.`
+      : scoreChange < 0
+        ? `Down ${Math.abs(scoreChange)} points from take ${scored[0].take_number} to take ${scored[scored.length - 1].take_number}.`
+        : 'Same score on the first and latest take.')
+  }
+  if (best?.is_best) {
+    notes.push(`Take ${best.take_number} is your best so far (${best.overall_score}).`)
+  }
+  if (issues.length === 0 && scored.length >= MIN_RECURRENCES) {
+    notes.push('No issue came up in more than one take.')
+  }
+
+  return {
+    take_count: takes.length,
+    analyzed_count: scored.length,
+    best_take_id: best?.id ?? null,
+    score_change: scoreChange,
+    average_score: average(scored.map(take => take.overall_score!)),
+    criteria,
+    takes,
+    recurring_issues: issues,
+    notes,
+  }
+}
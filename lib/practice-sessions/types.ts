@@ -0,0 +1,65 @@
+/**
+ * Practice sessions group the takes (pitch_runs) of one pitch. A session remembers the
+ * rubric, context, language and persona so every take is graded the same way, and its
+ * summary compares the takes.
+ *
+ * Not to be confused with pitch_runs.session_id, the anonymous browser session.
+ */
+
+import type { RunLanguage } from '@/lib/languages'
+import type { AudiencePersona } from '@/lib/personas'
+
+/** A practice_sessions row (migration 031) */
+export interface PracticeSession {
+  id: string
+  session_id: string
+  user_id: string | null
+  title: string | null
+  rubric_id: string | null
+  rubric_snapshot_json: any
+  pitch_context: string | null
+  language: RunLanguage
+  persona_snapshot: AudiencePersona | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PracticeSessionTake {
+  id: string
+  /** 1-based, in recording order */
+  take_number: number
+  created_at: string
+  status: string
+  title: string | null
+  overall_score: number | null
+  duration_sec: number | null
+  words_per_minute: number | null
+  filler_total: number | null
+  /** Criterion label -> score */
+  rubric_scores: Record<string, number>
+  is_best: boolean
+}
+
+export interface PracticeSessionIssue {
+  /** Stable key, e.g. criterion:Call to action, pacing:fast */
+  key: string
+  label: string
+  detail: string
+  /** Take numbers it showed up in */
+  takes: number[]
+}
+
+export interface PracticeSessionSummary {
+  take_count: number
+  analyzed_count: number
+  /** Highest-scoring analyzed take (highlighted once there are two or more) */
+  best_take_id: string | null
+  /** Last analyzed take's score minus the first's */
+  score_change: number | null
+  average_score: number | null
+  /** Criterion labels in rubric order */
+  criteria: string[]
+  takes: PracticeSessionTake[]
+  recurring_issues: PracticeSessionIssue[]
+  notes: string[]
+}
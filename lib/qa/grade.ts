@@ -0,0 +1,130 @@
+import type { AnalysisQAGrade } from '@/lib/analysis'
+import { countSpeechUnits, type LanguageProfile } from '@/lib/languages'
+import { completeJSON, type JSONSchema } from '@/lib/llm'
+import type { QAQuestion } from './types'
+
+export interface QAGradeInput {
+  question: QAQuestion
+  /** Transcript of the spoken answer */
+  answer: string
+  /** Transcript of the pitch the question was asked about */
+  pitchTranscript: string | null
+  pitchContext: string | null
+  durationSec: number | null
+  language: LanguageProfile
+}
+
+const SCORE_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['score', 'notes'],
+  properties: {
+    score: { type: 'number' },
+    notes: { type: 'string' },
+  },
+}
+
+const GRADE_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['directness', 'accuracy', 'brevity', 'better_answer'],
+  properties: {
+    directness: SCORE_SCHEMA,
+    accuracy: SCORE_SCHEMA,
+    brevity: SCORE_SCHEMA,
+    evidence_quotes: { type: 'array', items: { type: 'string' } },
+    strengths: { type: 'array', items: { type: 'string' } },
+    improvements: { type: 'array', items: { type: 'string' } },
+    better_answer: { type: 'string' },
+  },
+}
+
+interface GradeOutput {
+  directness: { score: number; notes: string }
+  accuracy: { score: number; notes: string }
+  brevity: { score: number; notes: string }
+  evidence_quotes?: string[]
+  strengths?: string[]
+  improvements?: string[]
+  better_answer: string
+}
+
+function buildGradePrompt(input: QAGradeInput, wordCount: number): string {
+  const { question, language } = input
+  const unit = language.pacing.unit === 'characters' ? 'characters' : 'words'
+  const lengthLine = input.durationSec
+    ? `${wordCount} ${unit} in ${Math.round(input.durationSec)} seconds`
+    : `${wordCount} ${unit}`
+  const pitchSection = input.pitchTranscript ? `\nTHE PITCH (for checking accuracy):\n${input.pitchTranscript}\n` : ''
+  const contextSection = input.pitchContext ? `\nPITCH CONTEXT:\n${input.pitchContext}\n` : ''
+  const expected = question.expected_points.length > 0
+    ? `\nA strong answer would cover:\n${question.expected_points.map(point => `- ${point}`).join('\n')}\n`
+    : ''
+  const languageRule = language.code !== 'en'
+    ? `\nThe answer is in ${language.name}. Write all notes, strengths, improvements and the better answer in ${language.name}; quote the answer verbatim. Keep JSON keys in English.\n`
+    : ''
+
+  return `A speaker finished their pitch and was asked a follow-up question. Grade their spoken answer.
+${languageRule}
+QUESTION:
+${question.question}
+${expected}${pitchSection}${contextSection}
+ANSWER (${lengthLine}):
+${input.answer}
+
+Score each dimension 0-10:
+- directness: answers the question that was asked, in the first sentence or two, rather than circling or restating the pitch.
+- accuracy: consistent with the pitch and its context. Penalize claims that contradict the pitch and numbers that appear nowhere before; you cannot check facts beyond what you're given, so say so rather than guessing.
+- brevity: as long as the question needs and no longer. Most good answers take 20-60 seconds; penalize repetition and trailing qualifiers.
+
+evidence_quotes must be exact phrases from the answer. better_answer is a tighter version of the answer that only uses facts from the answer or the pitch.
+
+Return a JSON object with this exact structure:
+{
+  "directness": { "score": <0-10>, "notes": "<one or two sentences>" },
+  "accuracy": { "score": <0-10>, "notes": "<one or two sentences>" },
+  "brevity": { "score": <0-10>, "notes": "<one or two sentences>" },
+  "evidence_quotes": ["<exact quote>", "..."],
+  "strengths": ["<specific strength>", "..."],
+  "improvements": ["<specific, actionable improvement>", "..."],
+  "better_answer": "<the tighter answer, as it would be said out loud>"
+}`
+}
+
+// Models occasionally answer on a 0-100 scale or overshoot; keep scores in 0-10
+function score(value: { score: number; notes: string }) {
+  const raw = value.score > 10 && value.score <= 100 ? value.score / 10 : value.score
+  return { score: Math.round(Math.min(10, Math.max(0, raw)) * 10) / 10, notes: value.notes }
+}
+
+/**
+ * Grade a spoken answer for directness, accuracy and brevity.
+ * @throws LLMOutputError if the model's response is unusable
+ */
+export async function gradeQAAnswer(input: QAGradeInput): Promise<AnalysisQAGrade> {
+  const wordCount = countSpeechUnits(input.answer, input.language)
+  const output = await completeJSON<GradeOutput>({
+    feature: 'qa_grade',
+    messages: [
+      { role: 'system', content: 'You are a pitch coach grading answers to audience questions. You are specific, quote the speaker, and never invent facts.' },
+      { role: 'user', content: buildGradePrompt(input, wordCount) },
+    ],
+    schema: GRADE_SCHEMA,
+    temperature: 0.3,
+  })
+
+  const directness = score(output.directness)
+  const accuracy = score(output.accuracy)
+  const brevity = score(output.brevity)
+  return {
+    question: input.question.question,
+    directness,
+    accuracy,
+    brevity,
+    overall_score: Math.round(((directness.score + accuracy.score + brevity.score) / 3) * 10) / 10,
+    duration_sec: input.durationSec !== null ? Math.round(input.durationSec * 10) / 10 : null,
+    word_count: wordCount,
+    evidence_quotes: output.evidence_quotes || [],
+    strengths: output.strengths || [],
+    improvements: output.improvements || [],
+    better_answer: output.better_answer,
+  }
+}
@@ -0,0 +1,10 @@
+export { gradeQAAnswer } from './grade'
+export type { QAGradeInput } from './grade'
+export { generateQAQuestions, parseQAQuestions } from './questions'
+export type { QAQuestionInput } from './questions'
+export {
+  DEFAULT_QA_QUESTION_COUNT,
+  MAX_QA_QUESTION_COUNT,
+  QA_QUESTION_CATEGORIES,
+} from './types'
+export type { QAQuestion, QAQuestionCategory, RunType } from './types'
@@ -0,0 +1,122 @@
+import { completeJSON, type JSONSchema } from '@/lib/llm'
+import type { LanguageProfile } from '@/lib/languages'
+import type { AudiencePersona } from '@/lib/personas'
+import { DEFAULT_QA_QUESTION_COUNT, MAX_QA_QUESTION_COUNT, QA_QUESTION_CATEGORIES, type QAQuestion } from './types'
+
+export interface QAQuestionInput {
+  transcript: string
+  pitchContext: string | null
+  rubricName: string | null
+  criteria: string[]
+  /** Weak spots from the pitch's analysis; good audiences probe them */
+  improvements: string[]
+  language: LanguageProfile
+  /** Who is asking; without one the audience is inferred from the context */
+  persona?: AudiencePersona | null
+  count?: number
+}
+
+const QUESTIONS_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['questions'],
+  properties: {
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['question'],
+        properties: {
+          question: { type: 'string', minLength: 1 },
+          category: { type: 'string' },
+          why: { type: 'string' },
+          expected_points: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  },
+}
+
+function buildQuestionsPrompt(input: QAQuestionInput, count: number): string {
+  const { language } = input
+  const contextSection = input.pitchContext
+    ? `\nPITCH CONTEXT (who the pitch is for and what it is about):\n${input.pitchContext}\n`
+    : ''
+  const rubricSection = input.criteria.length > 0
+    ? `\nRUBRIC${input.rubricName ? ` (${input.rubricName})` : ''}:\n${input.criteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}\n`
+    : ''
+  const weakSpots = input.improvements.length > 0
+    ? `\nWEAK SPOTS FOUND IN THE PITCH'S REVIEW:\n${input.improvements.map(i => `- ${i}`).join('\n')}\n`
+    : ''
+  const languageRule = language.code !== 'en'
+    ? `\nWrite the questions, reasons and expected points in ${language.name}. Keep JSON keys and category values in English.\n`
+    : ''
+
+  const { persona } = input
+  const audience = persona
+    ? `You are the audience for the pitch below: ${persona.name}${persona.role ? ` (${persona.role})` : ''}.${persona.priorities.length > 0 ? ` You listen for: ${persona.priorities.join('; ')}.` : ''}${persona.objections.length > 0 ? ` You often push back with: ${persona.objections.join('; ')}.` : ''}`
+    : 'You are the audience for the pitch below: the people it is aimed at (investors, customers, a hiring panel - infer from the context).'
+
+  return `${audience} After the pitch you get to ask questions.
+${languageRule}
+TRANSCRIPT:
+${input.transcript}
+${contextSection}${rubricSection}${weakSpots}
+Write ${count} questions this audience would realistically ask. Good questions:
+- Probe what the pitch claimed but didn't support, skipped, or left vague (prefer the weak spots above).
+- Are specific to this pitch - refer to what was actually said.
+- Are one sentence, asked the way a person would say it out loud.
+- Cover different angles; at most one pure clarification question.
+
+Return a JSON object with this exact structure:
+{
+  "questions": [
+    {
+      "question": "<the question, as asked out loud>",
+      "category": "<one of: ${QA_QUESTION_CATEGORIES.join(', ')}>",
+      "why": "<one sentence: what in the pitch prompted it>",
+      "expected_points": ["<point a strong answer covers>", "..."]
+    }
+  ]
+}`
+}
+
+/** Normalize stored or generated questions (pitch_runs.qa_questions). */
+export function parseQAQuestions(value: unknown): QAQuestion[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is Record<string, any> => !!item && typeof item === 'object' && typeof item.question === 'string')
+    .filter(item => item.question.trim().length > 0)
+    .map((item, index) => ({
+      id: typeof item.id === 'string' && item.id ? item.id : `q${index + 1}`,
+      question: item.question.trim(),
+      category: QA_QUESTION_CATEGORIES.includes(item.category) ? item.category : 'other',
+      why: typeof item.why === 'string' ? item.why : '',
+      expected_points: Array.isArray(item.expected_points)
+        ? item.expected_points.filter((point: unknown): point is string => typeof point === 'string')
+        : [],
+    }))
+}
+
+/**
+ * Generate audience questions for a pitch.
+ * @throws LLMOutputError if the model's response is unusable
+ */
+export async function generateQAQuestions(input: QAQuestionInput): Promise<QAQuestion[]> {
+  const count = Math.min(Math.max(1, input.count ?? DEFAULT_QA_QUESTION_COUNT), MAX_QA_QUESTION_COUNT)
+  const output = await completeJSON<{ questions: unknown[] }>({
+    feature: 'qa_questions',
+    messages: [
+      { role: 'system', content: 'You play a sharp, fair audience asking follow-up questions after a pitch. You only ask about what the pitch said or should have said.' },
+      { role: 'user', content: buildQuestionsPrompt(input, count) },
+    ],
+    schema: QUESTIONS_SCHEMA,
+    temperature: 0.8,
+  })
+
+  // Ids are assigned here so they stay stable once stored
+  return parseQAQuestions(output.questions.slice(0, count).map(question => ({
+    ...(question as object),
+    id: undefined,
+  })))
+}
@@ -0,0 +1,35 @@
+/**
+ * Q&A simulation: audience questions generated from an analyzed pitch run, answered as
+ * linked child runs (run_type 'qa_answer'). The grade of an answer is part of the child
+ * run's analysis_json (qa_grade, see lib/analysis).
+ */
+
+export const QA_QUESTION_CATEGORIES = [
+  'clarification',
+  'evidence',
+  'market',
+  'business_model',
+  'competition',
+  'team',
+  'risk',
+  'ask',
+  'other',
+] as const
+
+export type QAQuestionCategory = typeof QA_QUESTION_CATEGORIES[number]
+
+export interface QAQuestion {
+  /** Stable within the run (q1, q2, ...); answers reference it */
+  id: string
+  question: string
+  category: QAQuestionCategory
+  /** What prompted the question in the pitch */
+  why: string
+  /** Points a strong answer would cover */
+  expected_points: string[]
+}
+
+export type RunType = 'pitch' | 'qa_answer'
+
+export const DEFAULT_QA_QUESTION_COUNT = 5
+export const MAX_QA_QUESTION_COUNT = 10
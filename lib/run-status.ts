@@ -0,0 +1,216 @@
+'use client'
+
+import type { RunJobStatus, RunJobType } from '@/lib/jobs/types'
+import { RUN_EVENT_TYPES, type RunEvent, type RunEventRun } from '@/lib/runs/event-types'
+
+export type { RunEvent } from '@/lib/runs/event-types'
+
+export interface RunStatusJob {
+  id: string
+  type: RunJobType
+  status: RunJobStatus
+  attempts: number
+  max_attempts: number
+  run_after?: string
+  last_error: string | null
+  created_at?: string
+  finished_at?: string | null
+}
+
+export interface RunStatusSnapshot {
+  run: RunEventRun
+  jobs: RunStatusJob[]
+}
+
+export interface WaitForRunStatusOptions {
+  /** Anonymous session that owns the run (not needed when signed in) */
+  sessionId?: string | null
+  /** Polling interval when the events stream is unavailable */
+  intervalMs?: number
+  timeoutMs?: number
+  /** Every event from the run's stream, e.g. to render analysis sections as they land */
+  onEvent?: (event: RunEvent) => void
+}
+
+export interface SubscribeToRunEventsOptions {
+  sessionId?: string | null
+  /** The stream could not be opened (or was rejected) and will not reconnect */
+  onClosed?: () => void
+}
+
+const DEFAULT_INTERVAL_MS = 2000
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000
+
+function withSessionId(path: string, sessionId?: string | null): string {
+  return sessionId ? `${path}?session_id=${encodeURIComponent(sessionId)}` : path
+}
+
+export async function fetchRunStatus(runId: string, sessionId?: string | null): Promise<RunStatusSnapshot> {
+  const res = await fetch(withSessionId(`/api/runs/${runId}/status`, sessionId), { cache: 'no-store' })
+  const data = await res.json().catch(() => ({}))
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || `Failed to fetch run status (${res.status})`)
+  }
+
+  return { run: data.run, jobs: data.jobs || [] }
+}
+
+/**
+ * Subscribe to /api/runs/[id]/events. Returns an unsubscribe function.
+ * The browser reconnects dropped streams on its own; each reconnect starts with a snapshot.
+ */
+export function subscribeToRunEvents(
+  runId: string,
+  onEvent: (event: RunEvent) => void,
+  options: SubscribeToRunEventsOptions = {}
+): () => void {
+  if (typeof EventSource === 'undefined') {
+    options.onClosed?.()
+    return () => {}
+  }
+
+  const source = new EventSource(withSessionId(`/api/runs/${runId}/events`, options.sessionId))
+
+  for (const type of RUN_EVENT_TYPES) {
+    source.addEventListener(type, (message) => {
+      try {
+        onEvent({ type, data: JSON.parse((message as MessageEvent).data) } as RunEvent)
+      } catch (err) {
+        console.error('[Run Events] Failed to handle event:', { type, error: err })
+      }
+    })
+  }
+
+  source.onerror = () => {
+    // CLOSED means the server refused the stream (404/500); CONNECTING is a normal reconnect
+    if (source.readyState === EventSource.CLOSED) {
+      options.onClosed?.()
+    }
+  }
+
+  return () => source.close()
+}
+
+/** Apply a streamed event to a run held in client state. */
+export function applyRunEvent<T extends { status: string }>(run: T, event: RunEvent): T {
+  switch (event.type) {
+    case 'snapshot':
+      return { ...run, ...event.data.run }
+    case 'status':
+      return { ...run, status: event.data.status, error_message: event.data.error_message }
+    case 'transcript':
+      return { ...run, ...event.data }
+    case 'analysis': {
+      const current = ((run as any).analysis_json || {}) as Record<string, any>
+      const { [event.data.section]: _previous, ...rest } = current
+      const analysis = event.data.value === null ? rest : { ...rest, [event.data.section]: event.data.value }
+      return { ...run, analysis_json: Object.keys(analysis).length > 0 ? analysis : null }
+    }
+    case 'stage': {
+      const stages = ((run as any).analysis_stages || {}) as Record<string, any>
+      return { ...run, analysis_stages: { ...stages, [event.data.stage]: event.data.state } }
+    }
+    default:
+      return run
+  }
+}
+
+async function pollForRunStatus(
+  runId: string,
+  targets: string[],
+  options: WaitForRunStatusOptions,
+  deadline: number
+): Promise<RunStatusSnapshot> {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+
+  while (true) {
+    const snapshot = await fetchRunStatus(runId, options.sessionId)
+    options.onEvent?.({ type: 'snapshot', data: { run: snapshot.run, chunks: [], jobs: snapshot.jobs } })
+
+    const { status, error_message } = snapshot.run
+    if (targets.includes(status)) {
+      return snapshot
+    }
+
+    // A failed attempt briefly marks the run as 'error' before the worker schedules a retry
+    const retryPending = snapshot.jobs.some((job) => job.status === 'queued' || job.status === 'running')
+    if (status === 'error' && !retryPending) {
+      throw new Error(error_message || 'Processing failed')
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for processing to finish')
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+}
+
+/**
+ * Wait for a run's status to reach one of `targets`, following the events stream
+ * (falls back to polling /status when streaming is unavailable).
+ * Rejects when the run errors with no retry pending, or on timeout.
+ */
+export function waitForRunStatus(
+  runId: string,
+  targets: string[],
+  options: WaitForRunStatusOptions = {}
+): Promise<RunStatusSnapshot> {
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+  return new Promise<RunStatusSnapshot>((resolve, reject) => {
+    let settled = false
+    let status: string | null = null
+    let errorMessage: string | null = null
+    const jobs = new Map<string, RunStatusJob>()
+
+    const settle = (result: () => Promise<RunStatusSnapshot>) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timeout)
+      unsubscribe()
+      result().then(resolve, reject)
+    }
+
+    const timeout = setTimeout(() => {
+      settle(() => Promise.reject(new Error('Timed out waiting for processing to finish')))
+    }, deadline - Date.now())
+
+    let unsubscribe = () => {}
+    unsubscribe = subscribeToRunEvents(
+      runId,
+      (event) => {
+        options.onEvent?.(event)
+
+        if (event.type === 'snapshot') {
+          status = event.data.run.status
+          errorMessage = event.data.run.error_message
+          jobs.clear()
+          event.data.jobs.forEach((job) => jobs.set(job.id, job))
+        } else if (event.type === 'status') {
+          status = event.data.status
+          errorMessage = event.data.error_message
+        } else if (event.type === 'job') {
+          jobs.set(event.data.id, event.data)
+        }
+
+        if (status && targets.includes(status)) {
+          // The stream only carries diffs; fetch the full final state once
+          settle(() => fetchRunStatus(runId, options.sessionId))
+          return
+        }
+
+        // A failed attempt briefly marks the run as 'error' before the worker schedules a retry
+        const retryPending = Array.from(jobs.values()).some((job) => job.status === 'queued' || job.status === 'running')
+        if (status === 'error' && !retryPending) {
+          settle(() => Promise.reject(new Error(errorMessage || 'Processing failed')))
+        }
+      },
+      {
+        sessionId: options.sessionId,
+        onClosed: () => settle(() => pollForRunStatus(runId, targets, options, deadline)),
+      }
+    )
+  })
+}
@@ -0,0 +1,71 @@
+import { createClient } from '@/lib/supabase/server-auth'
+import { isCoachOf } from '@/lib/organizations'
+import { isRunReviewer } from './reviewers'
+
+// The authenticated caller's id, or null for anonymous callers
+async function getCallerId(): Promise<string | null> {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    return user?.id ?? null
+  } catch (err) {
+    // Not authenticated
+    return null
+  }
+}
+
+/**
+ * Whether the caller may act on a run: its authenticated owner, or an anonymous
+ * caller presenting the session_id the run was created under. Practice sessions
+ * follow the same rule. Use this for anything that changes data.
+ */
+export async function canAccessRun(
+  run: { user_id: string | null; session_id: string | null },
+  sessionId: string | null
+): Promise<boolean> {
+  if (sessionId && run.session_id === sessionId) {
+    return true
+  }
+
+  if (!run.user_id) {
+    return false
+  }
+
+  return (await getCallerId()) === run.user_id
+}
+
+/**
+ * Whether the caller may read a run: anyone canAccessRun allows, plus the owner's
+ * coaches and the reviewers the owner invited (practice sessions have none of their own).
+ * Read-only; coaches and reviewers never get to change someone else's runs or sessions.
+ */
+export async function canViewRun(
+  run: { id: string; user_id: string | null; session_id: string | null },
+  sessionId: string | null
+): Promise<boolean> {
+  if (sessionId && run.session_id === sessionId) {
+    return true
+  }
+
+  if (!run.user_id) {
+    return false
+  }
+
+  const callerId = await getCallerId()
+  if (!callerId) return false
+  return callerId === run.user_id ||
+    (await isCoachOf(callerId, run.user_id)) ||
+    isRunReviewer(run.id, callerId)
+}
+
+/**
+ * Whether userId may comment on a run: its owner, one of the owner's coaches or a reviewer
+ * who accepted the owner's invite (the same rule as the can_review_run() policy helper,
+ * migration 037).
+ */
+export async function canReviewRun(run: { id: string; user_id: string | null }, userId: string): Promise<boolean> {
+  if (!run.user_id) return false
+  return run.user_id === userId ||
+    (await isCoachOf(userId, run.user_id)) ||
+    isRunReviewer(run.id, userId)
+}
@@ -0,0 +1,497 @@
+import type { JSONSchema } from '@/lib/llm'
+import { ANALYSIS_LINE_CATEGORIES, type AnalysisOutput, type AnalysisSection } from '@/lib/analysis'
+import type { LanguageProfile } from '@/lib/languages'
+import { applyPersonaWeights, type AudiencePersona } from '@/lib/personas'
+import type { PromptRubricItem, RubricCriterion } from './analysis-types'
+
+/**
+ * Analysis is generated in independent stages so each section can be persisted
+ * (and rendered) as soon as it is ready, and one failed stage doesn't discard the rest.
+ *
+ * rubric_scores runs first (summary builds on it), the other LLM stages run in parallel
+ * (audience_reaction only when the run has a persona), and slides, script and premium
+ * are computed locally once the LLM stages are done.
+ * Q&A answer runs have a single qa_grade stage instead.
+ */
+export type AnalysisStageName = 'rubric_scores' | 'summary' | 'line_by_line' | 'chunks' | 'suggestions' | 'audience_reaction' | 'slides' | 'script' | 'premium' | 'qa_grade'
+
+export type AnalysisStageStatus = 'running' | 'succeeded' | 'failed' | 'skipped'
+
+export interface AnalysisStageState {
+  status: AnalysisStageStatus
+  error: string | null
+  sections: string[]
+  updated_at: string
+}
+
+export interface AnalysisPromptInput {
+  transcript: string
+  criteria: RubricCriterion[]
+  promptRubric: PromptRubricItem[] | null
+  targetDurationSeconds: number | null
+  maxDurationSeconds: number | null
+  audioSeconds: number | null
+  wpm: number | null
+  pitchContext: string | null
+  guidingQuestions: string[]
+  userPlan: 'free' | 'starter' | 'coach' | 'daypass'
+  rubricName: string | null
+  /** Spoken language of the run; feedback is written in it */
+  language: LanguageProfile
+  /** Audience the pitch is for; reweights the rubric and shapes the feedback */
+  persona: AudiencePersona | null
+}
+
+export interface LLMAnalysisStage {
+  name: Exclude<AnalysisStageName, 'slides' | 'script' | 'premium' | 'qa_grade'>
+  /** Top-level analysis_json keys this stage writes */
+  sections: AnalysisSection[]
+  schema: JSONSchema
+  /** Output format and stage-specific rules, appended to the shared prompt context */
+  buildInstructions: (input: AnalysisPromptInput, prior: Partial<AnalysisOutput>) => string
+}
+
+export const ANALYSIS_SYSTEM_PROMPT = 'You are an expert pitch coach. You provide detailed, actionable feedback that ALWAYS cites specific verbatim quotes from the transcript. You NEVER make generic claims without evidence. If you cannot cite an exact quote (≤120 characters) from the transcript, you must omit that feedback point entirely. Every piece of feedback must be anchored to a specific transcript excerpt. For rubric_scores, ALWAYS include evidence_quotes: if score >= 1, provide 1-2 quotes; if score = 0, use empty array [] and explain in notes. For line_by_line, provide 3-8 items with exact transcript substrings (≤120 characters each).'
+
+export function getRubricItems(input: Pick<AnalysisPromptInput, 'criteria' | 'promptRubric' | 'persona'>): PromptRubricItem[] {
+  // Use prompt-specific rubric if provided, otherwise use generic criteria
+  const items = input.promptRubric || input.criteria.map((c, i) => ({
+    id: `criterion_${i}`,
+    label: c.name,
+    weight: 1.0,
+    optional: false,
+  }))
+  return input.persona ? applyPersonaWeights(items, input.persona) : items
+}
+
+/**
+ * Weighted average of rubric scores over non-optional items (0-10, one decimal).
+ * Keeps summary.overall_score consistent with rubric_scores however the stages land.
+ */
+export function computeOverallScore(
+  rubricScores: AnalysisOutput['rubric_scores'],
+  rubricItems: PromptRubricItem[]
+): number | null {
+  let weightedSum = 0
+  let totalWeight = 0
+
+  rubricScores.forEach((score, index) => {
+    const item = rubricItems.find(i => i.id === score.criterion_id) || rubricItems[index]
+    if (item?.optional || typeof score.score !== 'number') return
+    const weight = item?.weight ?? 1.0
+    weightedSum += score.score * weight
+    totalWeight += weight
+  })
+
+  if (totalWeight === 0) return null
+  return Math.round((weightedSum / totalWeight) * 10) / 10
+}
+
+function buildCallToActionInstructions(input: AnalysisPromptInput, rubricItems: PromptRubricItem[]): string {
+  // Check if this is Free plan + Elevator Pitch rubric with "Call to action" criterion
+  const isFreeElevatorPitch = input.userPlan === 'free' && (
+    input.rubricName?.toLowerCase().includes('elevator') ||
+    rubricItems.some(item =>
+      item.label?.toLowerCase().includes('call to action') ||
+      item.label?.toLowerCase().includes('cta') ||
+      item.id === 'cta'
+    )
+  )
+
+  if (!isFreeElevatorPitch) return ''
+
+  return `\n\nSPECIAL INSTRUCTIONS FOR "CALL TO ACTION" CRITERION (Free Elevator Pitch Only):
+This criterion should be evaluated as "Close or Next Step" (not just explicit ask).
+
+Scoring Guidelines (Free Plan Only):
+- 8-10: Explicit next step or ask (e.g., "I'm looking for...", "The next step is...")
+- 5-7: Clear implied next step or strong takeaway (e.g., "This gives people a repeatable way to improve how they communicate.")
+- 4: Soft close with purpose/value (e.g., "do better when it matters", summary of value)
+- 0-3: Abrupt stop or trailing off with no conclusion
+
+IMPORTANT RULES (Free Plan Only):
+- MINIMUM SCORE = 4 if the pitch ends with:
+  * a summary of value OR
+  * an implied outcome (e.g., "do better when it matters")
+- If the pitch ends with a clear summary or value statement, do NOT score below 4.
+- Only score below 4 (0-3) if the ending is abrupt or trails off with no conclusion.
+- When giving partial credit (5-7), include the closing sentence as an evidence quote.
+- When giving minimum score (4), include the closing sentence as an evidence quote.
+- Feedback text:
+  * If score is 4: "The pitch ends with a purpose, but could be stronger with a clear next step."
+  * If there's a summary but no explicit ask (score 5-7): "The pitch ends with a summary, but could be strengthened by adding a clear next step or ask."
+  * Only say "lacks a call to action" when there is no close at all (score 0-3).
+
+Example evidence quote for score 4: "do better when it matters"
+Example evidence quote for score 5-7: "PitchPractice gives people a repeatable way to improve how they communicate."`
+}
+
+const PERSONA_EXPERTISE_NOTES: Record<AudiencePersona['expertise'], string> = {
+  novice: 'new to the domain - flag jargon and unexplained terms',
+  informed: 'knows the domain in general - flag vague or unsupported claims',
+  expert: 'knows the domain deeply - flag shallow or inaccurate points',
+}
+
+const PERSONA_SKEPTICISM_NOTES: Record<AudiencePersona['skepticism'], string> = {
+  low: 'open to the idea; mostly needs it to be clear',
+  medium: 'needs claims backed up before being convinced',
+  high: 'looks for reasons to say no; every unsupported claim costs credibility',
+}
+
+const PERSONA_TONE_NOTES: Record<AudiencePersona['tone'], string> = {
+  direct: 'direct, plain-spoken',
+  supportive: 'supportive, constructive',
+  formal: 'formal, businesslike',
+  academic: 'precise, academic',
+}
+
+// Shared by every stage: coaching rules, transcript, rubric and timing
+function buildAnalysisContext(input: AnalysisPromptInput): string {
+  const rubricItems = getRubricItems(input)
+
+  const criteriaList = rubricItems
+    .map((item, i) => {
+      const weightNote = item.weight !== 1.0 ? ` (weight: ${item.weight})` : ''
+      const optionalNote = item.optional ? ' (optional)' : ''
+      return `${i + 1}. ${item.label}${weightNote}${optionalNote}`
+    })
+    .join('\n')
+
+  const rubricWeights = rubricItems.map(item => ({
+    id: item.id,
+    label: item.label,
+    weight: item.weight,
+  }))
+
+  const pitchContextSection = input.pitchContext
+    ? `\nPITCH CONTEXT (Additional information about what the user is pitching):
+${input.pitchContext}
+
+Use this context to better understand the pitch goals and provide more relevant feedback.`
+    : ''
+
+  const { targetDurationSeconds, maxDurationSeconds, audioSeconds, wpm, language, persona } = input
+
+  const personaSection = persona
+    ? `
+AUDIENCE (the pitch is for this audience - judge it through their eyes):
+${persona.name}${persona.role ? ` - ${persona.role}` : ''}${persona.description ? `\n${persona.description}` : ''}
+${persona.priorities.length > 0 ? `They listen for: ${persona.priorities.join('; ')}\n` : ''}${persona.objections.length > 0 ? `They typically push back with: ${persona.objections.join('; ')}\n` : ''}Domain knowledge: ${PERSONA_EXPERTISE_NOTES[persona.expertise]}
+Skepticism: ${PERSONA_SKEPTICISM_NOTES[persona.skepticism]}
+
+Weigh feedback towards what this audience cares about (the rubric weights already reflect it) and write it in a ${PERSONA_TONE_NOTES[persona.tone]} tone.
+`
+    : ''
+
+  const languageSection = language.code !== 'en'
+    ? `
+LANGUAGE:
+The pitch is spoken in ${language.name}. Write every feedback text (notes, comments, actions, summaries, strengths, improvements, suggestions) in ${language.name}. Quotes stay exactly as they appear in the transcript. Keep JSON keys and enum values (such as "issue", "high", "delivery") in English.
+`
+    : ''
+
+  return `You are an expert pitch coach providing detailed, actionable feedback on a pitch presentation.
+${buildCallToActionInstructions(input, rubricItems)}${languageSection}${personaSection}
+
+CRITICAL RULES (STRICTLY ENFORCED):
+1. ALL feedback MUST cite specific quotes from the transcript. If you cannot cite a quote, do not make the claim.
+2. Quotes must be verbatim excerpts (≤120 characters) from the transcript - copy them exactly as they appear.
+3. Be specific and actionable. Avoid generic advice like "be more engaging" - instead say "When you said '[quote]', try [specific action]."
+4. Reference exact transcript segments for every point. No exceptions.
+5. If you cannot find a specific quote to support a point, omit that point entirely rather than making a generic claim.
+6. TRANSCRIPT SENTENCE ALIGNMENT: Prefer quotes that align to single sentences or short phrases for UI hover matching. Avoid combining multiple sentences.
+
+TRANSCRIPT:
+${input.transcript}${pitchContextSection}
+
+RUBRIC CRITERIA (Evaluate how well the pitch addresses each):
+${criteriaList}
+
+RUBRIC WEIGHTS (for overall score calculation):
+${JSON.stringify(rubricWeights, null, 2)}
+
+TIMING INFO:
+${targetDurationSeconds ? `Target duration: ${targetDurationSeconds}s (${Math.floor(targetDurationSeconds / 60)} min)` : 'No target duration specified'}
+${maxDurationSeconds ? `Max duration: ${maxDurationSeconds}s (${Math.floor(maxDurationSeconds / 60)} min)` : ''}
+${audioSeconds ? `Actual duration: ${audioSeconds.toFixed(1)}s` : 'Duration unknown'}
+${wpm ? `Speaking pace: ${wpm} ${language.pacing.rateLabel} (ideal ${language.pacing.idealMin}-${language.pacing.idealMax} for ${language.name})` : ''}`
+}
+
+const CLOSING_RULES = `REMEMBER (STRICT ENFORCEMENT):
+- Every claim must have a quote. No exceptions. If you cannot cite a quote, do not include that feedback.
+- Quotes must be exact verbatim excerpts from the transcript (≤120 characters).
+- Be specific and actionable. Generic advice will be rejected.
+- Focus on the most impactful feedback first.
+- NO HALLUCINATIONS: Do not invent evidence.
+
+VALIDATION: Before including any feedback item, verify that the quote appears verbatim in the transcript.`
+
+export function buildStagePrompt(
+  stage: LLMAnalysisStage,
+  input: AnalysisPromptInput,
+  prior: Partial<AnalysisOutput> = {}
+): string {
+  return `${buildAnalysisContext(input)}
+
+OUTPUT REQUIREMENTS:
+${stage.buildInstructions(input, prior)}
+
+${CLOSING_RULES}`
+}
+
+const rubricScoresStage: LLMAnalysisStage = {
+  name: 'rubric_scores',
+  sections: ['rubric_scores', 'question_grading'],
+  schema: {
+    type: 'object',
+    required: ['rubric_scores'],
+    properties: {
+      rubric_scores: { type: 'array', minItems: 1, items: { type: 'object', required: ['score'] } },
+      question_grading: { type: 'array' },
+    },
+  },
+  buildInstructions: (input) => {
+    const { guidingQuestions } = input
+    const guidingQuestionsSection = guidingQuestions.length > 0
+      ? `GUIDING QUESTIONS (Evaluate whether the pitch addresses these questions):
+${guidingQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}
+
+For each question, determine:
+- Was it answered? (answered: true/false)
+- What evidence supports your answer? (evidence_quotes: array of verbatim quotes from transcript, ≤120 characters each)
+- If not answered or partially answered, what improvement is needed? (improvement: specific suggestion with quote citation)
+
+`
+      : ''
+
+    return `${guidingQuestionsSection}Grade the pitch against each rubric criterion. Return a JSON object with this exact structure:
+
+{
+  "rubric_scores": [
+    {
+      "criterion_id": "<criterion id from rubric>",
+      "criterion_label": "<criterion label>",
+      "score": <0-10 integer>,
+      "notes": "<specific feedback with quote citation. If score=0, explain what was missing>",
+      "evidence_quotes": <MANDATORY: If score >= 1, include 1-2 verbatim quotes (≤120 chars each) from transcript. If score = 0, use empty array []>,
+      "missing": <boolean, true if this criterion is not addressed at all>
+    },
+    ... (one for each criterion in rubric)
+  ]${guidingQuestions.length > 0 ? `,
+  "question_grading": [
+    {
+      "question": "<guiding question text>",
+      "answered": <boolean, true if the question is addressed in the pitch>,
+      "evidence_quotes": ["<verbatim quote 1 (≤120 chars)>", "<verbatim quote 2 (≤120 chars)>"],
+      "improvement": "<specific suggestion if not answered, or null if fully answered>"
+    },
+    ... (one for each guiding question)
+  ]` : ''}
+}
+
+EVIDENCE QUOTES (MANDATORY):
+- For EVERY criterion in rubric_scores, always include evidence_quotes array.
+- If score >= 1: Include 1-2 verbatim quotes from transcript (≤120 characters each, exact substrings)
+- If score = 0: Use empty array [] and explain what was missing in notes
+- Each quote must be verbatim and appear in the transcript exactly
+- If criterion is missing/not addressed (missing=true or score=0), set evidence_quotes: [] and explain in notes
+- If a criterion is not supported by transcript content, set score low and evidence_quotes empty.`
+  },
+}
+
+const summaryStage: LLMAnalysisStage = {
+  name: 'summary',
+  sections: ['summary', 'timing'],
+  schema: {
+    type: 'object',
+    required: ['summary'],
+    properties: {
+      summary: { type: 'object', required: ['overall_notes'] },
+      timing: { type: 'object' },
+    },
+  },
+  buildInstructions: (input, prior) => {
+    const { targetDurationSeconds, maxDurationSeconds, audioSeconds, wpm } = input
+    const rubricScoresSection = prior.rubric_scores
+      ? `RUBRIC SCORES (already graded - keep the summary consistent with these):
+${JSON.stringify(prior.rubric_scores.map(s => ({ criterion: s.criterion_label, score: s.score, notes: s.notes })), null, 2)}
+
+`
+      : ''
+
+    return `${rubricScoresSection}Summarize the pitch. Return a JSON object with this exact structure:
+
+{
+  "summary": {
+    "overall_score": <0-10 integer, calculated as weighted average of rubric scores: sum(score * weight) / sum(weight) for non-optional items>,
+    "overall_notes": "<2-3 sentences summarizing the pitch>",
+    "top_strengths": ["<specific strength with quote>", ...],
+    "top_improvements": ["<specific improvement with quote>", ...]
+  },
+  "timing": {
+    "target_seconds": ${targetDurationSeconds || 'null'},
+    "max_seconds": ${maxDurationSeconds || 'null'},
+    "estimated_seconds": ${audioSeconds ? audioSeconds.toFixed(1) : 'null'},
+    "pacing_wpm": ${wpm || 'null'},
+    "notes": "<specific timing feedback with quotes if relevant>"
+  }
+}`
+  },
+}
+
+const lineByLineStage: LLMAnalysisStage = {
+  name: 'line_by_line',
+  sections: ['line_by_line'],
+  schema: {
+    type: 'object',
+    required: ['line_by_line'],
+    properties: {
+      line_by_line: { type: 'array', items: { type: 'object', required: ['quote'] } },
+    },
+  },
+  buildInstructions: () => `Give line-by-line coaching. Return a JSON object with this exact structure:
+
+{
+  "line_by_line": [
+    {
+      "quote": "<verbatim excerpt ≤120 characters, must be exact substring from transcript>",
+      "type": "<strength|issue>",
+      "comment": "<what's good/bad about this>",
+      "action": "<what to change/keep>",
+      "priority": "<high|medium|low>",
+      "category": "<${ANALYSIS_LINE_CATEGORIES.join('|')}>"
+    },
+    ... (3-8 items covering key moments, fewer for shorter pitches)
+  ]
+}
+
+LINE-BY-LINE COACHING (MANDATORY):
+- Provide 3-8 items (fewer for shorter pitches)
+- Every line_by_line[i].quote MUST be a verbatim substring from the transcript (≤120 characters)
+- Prefer quotes that align to single sentences or short phrases for UI hover matching
+- Each item must include: type ("strength" or "issue"), quote (exact transcript substring), comment, action, priority, category
+- category is exactly one of: structure (order, opening, flow), clarity (wording, jargon, the core message), evidence (data, proof, examples), audience (relevance to who is listening), delivery (fillers, hesitation, confidence), timing (pace, length), call_to_action (the ask or close), other
+- If you cannot find a good quote, DO NOT invent one; omit the item`,
+}
+
+const chunksStage: LLMAnalysisStage = {
+  name: 'chunks',
+  sections: ['chunks'],
+  schema: {
+    type: 'object',
+    required: ['chunks'],
+    properties: {
+      chunks: { type: 'array', items: { type: 'object', required: ['text'] } },
+    },
+  },
+  buildInstructions: () => `Break the pitch into idea units. Return a JSON object with this exact structure:
+
+{
+  "chunks": [
+    {
+      "text": "<verbatim excerpt from transcript, 1-3 sentences forming one idea unit>",
+      "purpose": "<criterion_id this chunk addresses>",
+      "purpose_label": "<human-readable label like 'Hook', 'What', 'Who', 'Why'>",
+      "score": <0-10 integer or null if not applicable>,
+      "status": "<strong|needs_work|missing>",
+      "feedback": "<why this needs work / what's good about it>",
+      "rewrite_suggestion": "<improved version of this chunk or null>"
+    },
+    ... (break transcript into 3-8 idea units/chunks)
+  ]
+}
+
+CHUNKING INSTRUCTIONS:
+- Break the transcript into 3-8 idea units (chunks)
+- Each chunk should be 1-3 sentences that form one coherent idea
+- Map each chunk to a rubric criterion (purpose field)
+- If a chunk doesn't clearly map to any criterion, use purpose "other" or "transition"
+- Chunks should cover the entire transcript with minimal overlap
+- Break transcript naturally by idea, not just by sentence count`,
+}
+
+const suggestionsStage: LLMAnalysisStage = {
+  name: 'suggestions',
+  sections: ['pause_suggestions', 'cut_suggestions'],
+  schema: {
+    type: 'object',
+    required: ['pause_suggestions', 'cut_suggestions'],
+    properties: {
+      pause_suggestions: { type: 'array' },
+      cut_suggestions: { type: 'array' },
+    },
+  },
+  buildInstructions: () => `Suggest pauses and cuts. Return a JSON object with this exact structure:
+
+{
+  "pause_suggestions": [
+    {
+      "after_quote": "<verbatim excerpt ≤120 characters where pause should occur>",
+      "why": "<reason for pause>",
+      "duration_ms": <300-900>
+    },
+    ... (2-5 suggestions)
+  ],
+  "cut_suggestions": [
+    {
+      "quote": "<verbatim excerpt ≤120 characters to remove>",
+      "why": "<reason to cut>",
+      "replacement": "<optional rewrite or null>"
+    },
+    ... (0-5 suggestions)
+  ]
+}
+
+- For pause_suggestions: The "after_quote" must be an exact excerpt from the transcript (≤120 characters).
+- For cut_suggestions: The "quote" must be an exact excerpt from the transcript (≤120 characters).`,
+}
+
+const audienceReactionStage: LLMAnalysisStage = {
+  name: 'audience_reaction',
+  sections: ['audience_reaction'],
+  schema: {
+    type: 'object',
+    required: ['audience_reaction'],
+    properties: {
+      audience_reaction: { type: 'object', required: ['verdict'] },
+    },
+  },
+  buildInstructions: (input) => `Describe how the AUDIENCE above would react to this pitch, as that audience. Return a JSON object with this exact structure:
+
+{
+  "audience_reaction": {
+    "persona": "${input.persona?.name ?? 'Audience'}",
+    "interest": <0-10 integer: how engaged they would be by the end>,
+    "would_advance": <true if they would take the next step (second meeting, purchase, offer, pass the course), false if not, null if it could go either way>,
+    "first_impression": "<their reaction to the opening, in their voice, with a quote>",
+    "verdict": "<2-3 sentences in their voice: what they think walking out and why>",
+    "moments": [
+      {
+        "quote": "<verbatim excerpt ≤120 characters>",
+        "reaction": "<what this audience thinks at this moment, in their voice>",
+        "sentiment": "<positive|neutral|negative>"
+      },
+      ... (3-6 moments, in transcript order)
+    ],
+    "likely_objections": ["<question or objection they would raise>", ...],
+    "missing_for_them": ["<what they needed to hear and didn't>", ...]
+  }
+}
+
+- React as this specific audience would, not as a pitch coach.
+- Moments must quote the transcript exactly.`,
+}
+
+/** Runs first; the summary stage is given its scores. */
+export const RUBRIC_SCORES_STAGE = rubricScoresStage
+
+/** Independent of each other; run in parallel after rubric_scores. */
+export const PARALLEL_ANALYSIS_STAGES: LLMAnalysisStage[] = [
+  summaryStage,
+  lineByLineStage,
+  chunksStage,
+  suggestionsStage,
+]
+
+/** Runs in parallel with the other stages, only for runs with an audience persona. */
+export const AUDIENCE_REACTION_STAGE = audienceReactionStage
@@ -0,0 +1,16 @@
+/**
+ * Rubric inputs to the analysis pipeline.
+ * The shape of its output (pitch_runs.analysis_json) lives in lib/analysis.
+ */
+
+export interface RubricCriterion {
+  name: string
+  description: string
+}
+
+export interface PromptRubricItem {
+  id: string
+  label: string
+  weight: number
+  optional?: boolean
+}
@@ -0,0 +1,1946 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { getUserPlanFromDB } from '@/lib/plan-server'
+import { completeJSON, LLMOutputError, validateSchema } from '@/lib/llm'
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  ANALYSIS_SECTION_SCHEMAS,
+  normalizeAnalysisSections,
+  upgradeAnalysisJson,
+  type AnalysisFillerWords,
+  type AnalysisOutput,
+  type AnalysisPremiumFiller,
+} from '@/lib/analysis'
+import type { FilledPause } from '@/lib/audio'
+import { parsePersona } from '@/lib/personas'
+import { gradeQAAnswer, parseQAQuestions } from '@/lib/qa'
+import { compareScript } from '@/lib/script'
+import { alignSlides } from '@/lib/slides'
+import { countSpeechUnits, fillerPattern, getLanguageProfile, type LanguageProfile, type PacingNorms } from '@/lib/languages'
+import type { TranscriptTimings } from '@/lib/types'
+import {
+  ANALYSIS_SYSTEM_PROMPT,
+  AUDIENCE_REACTION_STAGE,
+  PARALLEL_ANALYSIS_STAGES,
+  RUBRIC_SCORES_STAGE,
+  buildStagePrompt,
+  computeOverallScore,
+  getRubricItems,
+  type AnalysisPromptInput,
+  type AnalysisStageName,
+  type AnalysisStageState,
+  type LLMAnalysisStage,
+} from './analysis-stages'
+import type { PromptRubricItem, RubricCriterion } from './analysis-types'
+import { analyzeStoredDelivery } from './audio'
+import { taskOutcome, type RunTaskOutcome } from './outcome'
+
+export type { PromptRubricItem } from './analysis-types'
+
+// Detect filler words and hesitation patterns in transcript
+function detectFillerWordsAndHesitation(
+  transcript: string,
+  existingQuotes: Set<string>
+): Array<{
+  quote: string
+  type: 'issue'
+  comment: string
+  action: string
+  priority: 'high' | 'medium' | 'low'
+  category: 'delivery'
+}> {
+  const issues: Array<{
+    quote: string
+    type: 'issue'
+    comment: string
+    action: string
+    priority: 'high' | 'medium' | 'low'
+    category: 'delivery'
+  }> = []
+
+  if (!transcript || transcript.trim().length === 0) {
+    return issues
+  }
+
+  // Normalize transcript for matching (preserve original for quotes)
+  const transcriptLower = transcript.toLowerCase()
+  
+  // Filler words to detect (case-insensitive)
+  const fillerWords = [
+    /\bum\b/gi,
+    /\buh\b/gi,
+    /\blike\b/gi,
+    /\byeah\b/gi,
+    /\bkind of\b/gi,
+    /\bsort of\b/gi,
+  ]
+
+  // Hesitant phrase patterns at sentence start
+  const hesitantStartPatterns = [
+    /^so\s*,\s*um\s*[,.]/i,
+    /^so\s*,\s*uh\s*[,.]/i,
+    /^i\s+guess\s*[,.]/i,
+    /^kind\s+of\s*[,.]/i,
+    /^sort\s+of\s*[,.]/i,
+    /^well\s*,\s*um\s*[,.]/i,
+    /^well\s*,\s*uh\s*[,.]/i,
+  ]
+
+  // Softening phrases
+  const softeningPhrases = [
+    /\bkind of\b/gi,
+    /\bsort of\b/gi,
+    /\bi guess\b/gi,
+    /\bi think\b/gi, // Only when used as hesitation, not as opinion
+    /\bmaybe\b/gi,
+    /\bprobably\b/gi,
+  ]
+
+  // Split transcript into sentences for better context
+  // Split on sentence endings, but preserve punctuation with the sentence
+  const sentenceParts = transcript.split(/([.!?]+\s+)/)
+  const sentences: string[] = []
+  for (let i = 0; i < sentenceParts.length; i += 2) {
+    const sentence = (sentenceParts[i] || '').trim()
+    const punctuation = (sentenceParts[i + 1] || '').trim()
+    if (sentence.length > 0) {
+      sentences.push(sentence + punctuation)
+    }
+  }
+  
+  // Track found quotes to avoid duplicates
+  const foundQuotes = new Set<string>()
+
+  // Check each sentence for issues
+  sentences.forEach((sentence, idx) => {
+    const sentenceTrimmed = sentence.trim()
+    if (sentenceTrimmed.length === 0) return
+
+    const sentenceLower = sentenceTrimmed.toLowerCase()
+    
+    // Check for hesitant starts
+    for (const pattern of hesitantStartPatterns) {
+      const match = sentenceTrimmed.match(pattern)
+      if (match) {
+        // Extract quote (max 120 chars, prefer sentence start)
+        let quote = sentenceTrimmed.substring(0, Math.min(120, sentenceTrimmed.length))
+        // Try to end at a natural break
+        const lastSpace = quote.lastIndexOf(' ')
+        if (lastSpace > 80) {
+          quote = quote.substring(0, lastSpace) + '...'
+        }
+        
+        // Skip if already in existing quotes or found quotes
+        const quoteKey = quote.toLowerCase().trim()
+        if (existingQuotes.has(quoteKey) || foundQuotes.has(quoteKey)) continue
+        foundQuotes.add(quoteKey)
+
+        // Determine priority based on pattern
+        let priority: 'high' | 'medium' | 'low' = 'medium'
+        if (match[0].toLowerCase().includes('um') || match[0].toLowerCase().includes('uh')) {
+          priority = 'high'
+        }
+
+        issues.push({
+          quote: quote.trim(),
+          type: 'issue',
+          comment: 'Filler words at the start reduce clarity and confidence.',
+          action: 'Remove fillers and start with a direct statement of what you are building.',
+          priority,
+          category: 'delivery',
+        })
+        break // Only flag once per sentence
+      }
+    }
+
+    // Check for filler words (not at sentence start, or if we didn't catch it above)
+    let fillerCount = 0
+    const fillerMatches: Array<{ word: string; index: number }> = []
+
+    fillerWords.forEach((pattern, patternIdx) => {
+      const matches = [...sentenceTrimmed.matchAll(pattern)]
+      matches.forEach(match => {
+        if (match.index !== undefined) {
+          fillerMatches.push({ word: match[0], index: match.index })
+          fillerCount++
+        }
+      })
+    })
+
+    // Only flag if there are multiple fillers or one at a critical position
+    if (fillerCount >= 2 || (fillerCount === 1 && fillerMatches[0].index < 50)) {
+      // Extract quote around the filler(s)
+      const firstFillerIndex = Math.min(...fillerMatches.map(m => m.index))
+      const lastFillerIndex = Math.max(...fillerMatches.map(m => m.index + m.word.length))
+      
+      // Get context around fillers (max 120 chars)
+      const start = Math.max(0, firstFillerIndex - 20)
+      const end = Math.min(sentenceTrimmed.length, lastFillerIndex + 40)
+      let quote = sentenceTrimmed.substring(start, end).trim()
+      
+      // Ensure quote is not too long
+      if (quote.length > 120) {
+        quote = quote.substring(0, 117) + '...'
+      }
+
+      const quoteKey = quote.toLowerCase().trim()
+      if (existingQuotes.has(quoteKey) || foundQuotes.has(quoteKey)) return
+      foundQuotes.add(quoteKey)
+
+      const priority: 'high' | 'medium' | 'low' = fillerCount >= 3 ? 'high' : 'medium'
+
+      issues.push({
+        quote: quote.trim(),
+        type: 'issue',
+        comment: fillerCount >= 3 
+          ? 'Multiple filler words reduce clarity and confidence.'
+          : 'Filler words reduce clarity and confidence.',
+        action: 'Remove fillers and speak more directly.',
+        priority,
+        category: 'delivery',
+      })
+    }
+
+    // Check for excessive softening phrases (only if not already flagged)
+    if (fillerCount === 0) {
+      let softeningCount = 0
+      softeningPhrases.forEach(pattern => {
+        const matches = sentenceTrimmed.match(pattern)
+        if (matches) {
+          softeningCount += matches.length
+        }
+      })
+
+      // Flag if 2+ softening phrases in one sentence
+      if (softeningCount >= 2) {
+        let quote = sentenceTrimmed.substring(0, Math.min(120, sentenceTrimmed.length))
+        const lastSpace = quote.lastIndexOf(' ')
+        if (lastSpace > 80) {
+          quote = quote.substring(0, lastSpace) + '...'
+        }
+
+        const quoteKey = quote.toLowerCase().trim()
+        if (existingQuotes.has(quoteKey) || foundQuotes.has(quoteKey)) return
+        foundQuotes.add(quoteKey)
+
+        issues.push({
+          quote: quote.trim(),
+          type: 'issue',
+          comment: 'Softening phrases reduce clarity and confidence.',
+          action: 'Remove softening phrases and state your points more directly.',
+          priority: 'low',
+          category: 'delivery',
+        })
+      }
+    }
+  })
+
+  // Limit to top 3-5 most important issues to avoid overwhelming
+  return issues
+    .sort((a, b) => {
+      const priorityOrder = { high: 3, medium: 2, low: 1 }
+      return priorityOrder[b.priority] - priorityOrder[a.priority]
+    })
+    .slice(0, 5)
+}
+
+// Premium Insights: Filler Words Analysis
+function formatPauseTime(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+// Filler words in the transcript plus filled pauses heard in the audio (tagged by source)
+function analyzeFillerWords(
+  transcript: string,
+  language: LanguageProfile,
+  filledPauses: FilledPause[] = [],
+  transcriptMode?: AnalysisFillerWords['transcript_mode']
+): AnalysisFillerWords {
+  // Filler words for the run's language (case-insensitive, count whole words)
+  const fillerWordPatterns: { [key: string]: RegExp } = Object.fromEntries(
+    language.fillerWords.map(word => [word, fillerPattern(word, language)])
+  )
+
+  // Normalize transcript (preserve original for examples)
+  const normalized = transcript.replace(/\s+/g, ' ').trim()
+  
+  // Track matches with their positions for example extraction
+  const wordMatches: { [word: string]: Array<{ index: number; match: string }> } = {}
+  
+  // Find all matches for each filler word
+  Object.entries(fillerWordPatterns).forEach(([word, pattern]) => {
+    const matches: Array<{ index: number; match: string }> = []
+    let match
+    // Reset regex lastIndex for global patterns
+    pattern.lastIndex = 0
+    while ((match = pattern.exec(normalized)) !== null) {
+      matches.push({
+        index: match.index,
+        match: match[0]
+      })
+    }
+    wordMatches[word] = matches
+  })
+
+  // Build by_word array
+  const by_word: AnalysisFillerWords['by_word'] = []
+
+  Object.entries(wordMatches).forEach(([word, matches]) => {
+    const count = matches.length
+    if (count === 0) return
+
+    // Extract up to 3 examples with context (~35 chars before/after)
+    const examples: string[] = []
+    const contextLength = 35
+    
+    matches.slice(0, 3).forEach(({ index }) => {
+      const start = Math.max(0, index - contextLength)
+      const end = Math.min(normalized.length, index + word.length + contextLength)
+      let snippet = normalized.substring(start, end)
+      
+      // Add ellipses if not at start/end
+      if (start > 0) snippet = '...' + snippet
+      if (end < normalized.length) snippet = snippet + '...'
+      
+      examples.push(snippet)
+    })
+
+    // Generate suggestions based on word type
+    const suggestions: string[] = []
+    if (word === 'um' || word === 'uh') {
+      suggestions.push('remove', 'pause', 'take a breath')
+    } else if (word === 'like') {
+      suggestions.push('remove', 'pause', 'replace with a precise verb')
+    } else if (word === 'you know') {
+      suggestions.push('remove', 'pause', 'assume the listener understands')
+    } else if (word === 'sort of' || word === 'kind of') {
+      suggestions.push('remove', 'be more direct', 'use precise language')
+    } else if (word === 'basically' || word === 'actually' || word === 'literally') {
+      suggestions.push('remove', 'pause', 'use only when necessary')
+    } else if (word === 'so') {
+      suggestions.push('remove', 'pause', 'start directly with your point')
+    } else if (word === 'right' || word === 'okay') {
+      suggestions.push('remove', 'pause', 'avoid seeking validation')
+    } else {
+      suggestions.push('remove', 'pause', 'replace with a brief pause')
+    }
+
+    by_word.push({
+      word,
+      count,
+      examples: examples.slice(0, 3),
+      suggestions: suggestions.slice(0, 3),
+      source: 'transcript',
+    })
+  })
+
+  const transcriptCount = by_word.reduce((sum, item) => sum + item.count, 0)
+  if (filledPauses.length > 0) {
+    by_word.push({
+      word: 'filled pause',
+      count: filledPauses.length,
+      examples: filledPauses
+        .slice(0, 3)
+        .map(pause => `${pause.before} [um/uh] ${pause.after} (${formatPauseTime(pause.start_sec)})`),
+      suggestions: ['pause silently', 'take a breath', 'plan your next point'],
+      source: 'acoustic',
+    })
+  }
+
+  // Sort by count descending
+  by_word.sort((a, b) => b.count - a.count)
+
+  // Calculate total count
+  const total_count = by_word.reduce((sum, item) => sum + item.count, 0)
+
+  // Generate coaching notes (2-4 bullets)
+  const coaching_notes: string[] = []
+  
+  if (total_count === 0) {
+    coaching_notes.push('No filler words detected. Your delivery is clean and confident.')
+    coaching_notes.push('Continue practicing to maintain this level of clarity.')
+  } else {
+    const topWord = by_word[0]
+    if (topWord) {
+      if (total_count >= 10) {
+        coaching_notes.push(`You used ${total_count} filler words total, with "${topWord.word}" appearing ${topWord.count} times.`)
+        coaching_notes.push('Practice replacing fillers with brief pauses (1-2 seconds) to maintain flow.')
+        coaching_notes.push('Record yourself speaking for 30 seconds and count fillers, then re-record aiming for 0-1 fillers.')
+      } else if (total_count >= 5) {
+        coaching_notes.push(`You used ${total_count} filler words, with "${topWord.word}" being the most common (${topWord.count} times).`)
+        coaching_notes.push('Focus on eliminating your top filler word by practicing brief pauses instead.')
+        coaching_notes.push('Before speaking, take a moment to think about your next point to reduce fillers.')
+      } else {
+        coaching_notes.push(`You used ${total_count} filler word${total_count > 1 ? 's' : ''} total.`)
+        coaching_notes.push('Practice pausing briefly instead of using fillers when you need thinking time.')
+      }
+    }
+    
+    if (filledPauses.length > 0) {
+      coaching_notes.push(`${filledPauses.length} of these are "um"/"uh" sounds heard in the audio that the transcript left out.`)
+    }
+
+    // Add a general tip if we have space
+    if (coaching_notes.length < 4 && total_count > 0) {
+      coaching_notes.push('Aim to reduce filler words to 0-2 per minute for maximum clarity and confidence.')
+    }
+  }
+
+  return {
+    total_count,
+    by_word,
+    coaching_notes: coaching_notes.slice(0, 4), // Ensure max 4 bullets
+    by_source: { transcript: transcriptCount, acoustic: filledPauses.length },
+    ...(transcriptMode ? { transcript_mode: transcriptMode } : {}),
+  }
+}
+
+// Premium Filler Word Analysis: Breakdown by section and pattern
+// Filled pauses from the audio are placed in sections by time, transcript fillers by text position
+function analyzePremiumFillerWords(
+  transcript: string,
+  language: LanguageProfile,
+  filledPauses: FilledPause[] = [],
+  durationSec: number | null = null
+): AnalysisPremiumFiller {
+  // Words to track (case-insensitive, whole word matches); English keeps its shorter premium list
+  const fillerWordPatterns: { [key: string]: RegExp } = language.code === 'en'
+    ? {
+        'um': /\bum\b/gi,
+        'uh': /\buh\b/gi,
+        'like': /\blike\b/gi,
+        'so': /\bso\b/gi,
+        'well': /\bwell\b/gi,
+        'you know': /\byou\s+know\b/gi,
+        'basically': /\bbasically\b/gi,
+        'actually': /\bactually\b/gi,
+      }
+    : Object.fromEntries(language.fillerWords.map(word => [word, fillerPattern(word, language)]))
+
+  // Normalize transcript
+  const normalized = transcript.replace(/\s+/g, ' ').trim()
+  const totalLength = normalized.length
+  
+  // Calculate section boundaries (text-position based)
+  const introEnd = Math.floor(totalLength * 0.2) // First 20%
+  const closeStart = Math.floor(totalLength * 0.8) // Last 20%
+  
+  const introText = normalized.substring(0, introEnd)
+  const middleText = normalized.substring(introEnd, closeStart)
+  const closeText = normalized.substring(closeStart)
+
+  // Count by word (total)
+  const by_word: Record<string, number> = {}
+  Object.entries(fillerWordPatterns).forEach(([word, pattern]) => {
+    const matches = normalized.match(pattern)
+    by_word[word] = matches ? matches.length : 0
+  })
+
+  // Count by section
+  const sections = {
+    intro: 0,
+    middle: 0,
+    close: 0,
+  }
+
+  Object.entries(fillerWordPatterns).forEach(([word, pattern]) => {
+    const introMatches = introText.match(pattern)
+    const middleMatches = middleText.match(pattern)
+    const closeMatches = closeText.match(pattern)
+    
+    sections.intro += introMatches ? introMatches.length : 0
+    sections.middle += middleMatches ? middleMatches.length : 0
+    sections.close += closeMatches ? closeMatches.length : 0
+  })
+
+  const transcriptTotal = Object.values(by_word).reduce((sum, count) => sum + count, 0)
+  if (filledPauses.length > 0) {
+    by_word['filled pause'] = filledPauses.length
+    filledPauses.forEach(pause => {
+      const position = durationSec ? pause.start_sec / durationSec : 0.5
+      if (position < 0.2) sections.intro += 1
+      else if (position >= 0.8) sections.close += 1
+      else sections.middle += 1
+    })
+  }
+
+  const total = transcriptTotal + filledPauses.length
+
+  // Generate insight (1-2 sentences about pattern)
+  let insight = ''
+  
+  if (total === 0) {
+    insight = 'No filler words detected. Your delivery is clean and confident.'
+  } else {
+    // Find dominant word
+    const sortedWords = Object.entries(by_word)
+      .filter(([_, count]) => count > 0)
+      .sort(([_, a], [__, b]) => b - a)
+    
+    const dominantWord = sortedWords[0]?.[0] || ''
+    const dominantCount = sortedWords[0]?.[1] || 0
+    
+    // Find section pattern
+    const maxSection = Math.max(sections.intro, sections.middle, sections.close)
+    let sectionPattern = ''
+    if (sections.intro === maxSection && sections.intro > 0) {
+      sectionPattern = 'intro'
+    } else if (sections.close === maxSection && sections.close > 0) {
+      sectionPattern = 'close'
+    } else if (sections.middle === maxSection && sections.middle > 0) {
+      sectionPattern = 'middle'
+    }
+    
+    // Build insight
+    if (sectionPattern === 'intro' && dominantWord) {
+      insight = `You use "${dominantWord}" ${dominantCount} time${dominantCount > 1 ? 's' : ''}, mostly in the opening. Practice your first 20 seconds to start confidently without fillers.`
+    } else if (sectionPattern === 'close' && dominantWord) {
+      insight = `You use "${dominantWord}" ${dominantCount} time${dominantCount > 1 ? 's' : ''}, mostly in the closing. Focus on ending strong without fillers to leave a lasting impression.`
+    } else if (sectionPattern === 'middle' && dominantWord) {
+      insight = `You use "${dominantWord}" ${dominantCount} time${dominantCount > 1 ? 's' : ''} throughout the middle section. Practice pausing instead of using fillers during transitions.`
+    } else if (dominantWord) {
+      insight = `You use "${dominantWord}" ${dominantCount} time${dominantCount > 1 ? 's' : ''} throughout your pitch. Replace fillers with brief pauses for a more confident delivery.`
+    } else {
+      insight = `You use ${total} filler word${total > 1 ? 's' : ''} total. Practice replacing them with brief pauses.`
+    }
+  }
+
+  // Generate drill based on pattern
+  let drillTitle = 'Filler Word Elimination'
+  let drillSteps: string[] = []
+
+  if (total === 0) {
+    drillTitle = 'Maintain Clean Delivery'
+    drillSteps = [
+      'Continue practicing without filler words',
+      'Focus on maintaining your clean delivery style',
+      'Use brief pauses when you need thinking time',
+    ]
+  } else {
+    // Determine drill based on section pattern
+    const maxSection = Math.max(sections.intro, sections.middle, sections.close)
+    
+    if (sections.intro === maxSection && sections.intro > 0) {
+      drillTitle = 'Strong Opening Practice'
+      drillSteps = [
+        'Practice your opening 3-4 sentences 5 times out loud',
+        'Focus on the first 20 seconds - eliminate all fillers',
+        'Record yourself and count fillers in the opening',
+        'Re-record until you have 0 fillers in the first 20 seconds',
+        'Apply this clean opening to your full pitch',
+      ]
+    } else if (sections.close === maxSection && sections.close > 0) {
+      drillTitle = 'Strong Closing Practice'
+      drillSteps = [
+        'Practice your closing 3-4 sentences 5 times out loud',
+        'Focus on the last 20% of your pitch - eliminate all fillers',
+        'Record yourself and count fillers in the closing',
+        'Re-record until you have 0 fillers in the closing',
+        'End with confidence and clarity',
+      ]
+    } else {
+      drillTitle = 'Filler Word Elimination'
+      drillSteps = [
+        'Record yourself speaking for 30 seconds',
+        `Count every filler word you use (focus on "${Object.entries(by_word).sort(([_, a], [__, b]) => b - a)[0]?.[0] || 'fillers'}")`,
+        'Re-record, replacing each filler with a 1-second pause',
+        'Repeat until you use 0-1 fillers per 30 seconds',
+        'Apply this technique to your full pitch practice',
+      ]
+    }
+  }
+
+  return {
+    total,
+    by_word,
+    sections,
+    insight,
+    drill: {
+      title: drillTitle,
+      steps: drillSteps,
+    },
+    by_source: { transcript: transcriptTotal, acoustic: filledPauses.length },
+  }
+}
+
+// Pause threshold (seconds); pace thresholds come from the run's language (lib/languages.ts)
+const LONG_PAUSE_SEC = 1.5
+
+type PacingSegment = {
+  label: 'slow' | 'good' | 'fast'
+  start_sec: number | null
+  end_sec: number | null
+  wpm: number | null
+  note: string
+}
+
+function labelPace(segmentWpm: number, norms: PacingNorms): Pick<PacingSegment, 'label' | 'note'> {
+  if (segmentWpm < norms.slow) {
+    return {
+      label: 'slow',
+      note: 'Pace is slower than ideal. Consider speaking slightly faster to maintain engagement.',
+    }
+  }
+  if (segmentWpm > norms.fast) {
+    return {
+      label: 'fast',
+      note: 'Pace is faster than ideal. Slow down slightly for better comprehension.',
+    }
+  }
+  return {
+    label: 'good',
+    note: 'Pace is within the ideal range for clear communication.',
+  }
+}
+
+// Premium Insights: Pacing Analysis
+function analyzePacing(
+  transcript: string,
+  durationMs: number | null,
+  wpm: number | null,
+  language: LanguageProfile,
+  timings: TranscriptTimings | null = null
+): {
+  wpm_overall: number | null
+  segments: PacingSegment[]
+  pauses: {
+    longest_pause_sec: number | null
+    long_pause_count: number
+    notes: string
+  }
+} {
+  // Prefer real word timings when transcription provided them
+  if (timings && timings.words.length >= 2) {
+    return analyzePacingFromTimings(timings, durationMs, wpm, language)
+  }
+
+  const wpm_overall = wpm
+
+  // Approximate segments using sentence order + duration
+  const segments: PacingSegment[] = []
+
+  if (durationMs && durationMs > 0) {
+    const durationSec = durationMs / 1000
+    const totalWords = countSpeechUnits(transcript, language)
+
+    // Divide into 3 segments
+    const segmentCount = 3
+    const wordsPerSegment = Math.ceil(totalWords / segmentCount)
+    const secPerSegment = durationSec / segmentCount
+
+    let wordCount = 0
+    for (let i = 0; i < segmentCount; i++) {
+      const startSec = i * secPerSegment
+      const endSec = (i + 1) * secPerSegment
+      
+      // Approximate words in this segment (rough estimate)
+      const segmentWords = Math.min(wordsPerSegment, totalWords - wordCount)
+      const segmentWpm = segmentWords / (secPerSegment / 60)
+
+      segments.push({
+        ...labelPace(segmentWpm, language.pacing),
+        start_sec: i === 0 ? 0 : startSec,
+        end_sec: i === segmentCount - 1 ? null : endSec,
+        wpm: segmentWpm,
+      })
+
+      wordCount += segmentWords
+    }
+  } else {
+    // No duration data - provide null segments
+    segments.push({
+      label: 'good',
+      start_sec: null,
+      end_sec: null,
+      wpm: null,
+      note: 'Duration data unavailable for segment analysis.',
+    })
+  }
+
+  // Pause analysis (approximate from punctuation and sentence breaks)
+  const pauses = {
+    longest_pause_sec: null,
+    long_pause_count: 0,
+    notes: 'Word-level timestamps unavailable for this run. Estimated from sentence structure.',
+  }
+
+  // Count sentence breaks (potential pauses)
+  const sentenceBreaks = (transcript.match(/[.!?]+\s+/g) || []).length
+  if (durationMs && durationMs > 0 && sentenceBreaks > 0) {
+    // Consider pauses > 1 second as "long"
+    pauses.long_pause_count = Math.max(0, sentenceBreaks - Math.floor((durationMs / 1000) / sentenceBreaks))
+    pauses.notes = `Estimated ${sentenceBreaks} natural pauses. Aim for 0.5-1 second pauses between key points.`
+  }
+
+  return {
+    wpm_overall,
+    segments,
+    pauses,
+  }
+}
+
+// Pacing from word-level timestamps: per-window WPM and measured gaps between words
+function analyzePacingFromTimings(
+  timings: TranscriptTimings,
+  durationMs: number | null,
+  wpm: number | null,
+  language: LanguageProfile
+): ReturnType<typeof analyzePacing> {
+  const words = [...timings.words].sort((a, b) => a.start - b.start)
+  // Timed "words" are tokens; for character-paced languages count their characters
+  const unitsIn = (list: typeof words) => language.pacing.unit === 'words'
+    ? list.length
+    : list.reduce((sum, w) => sum + countSpeechUnits(w.word, language), 0)
+  const lastWordEnd = words[words.length - 1].end
+  const durationSec = durationMs && durationMs > 0
+    ? durationMs / 1000
+    : timings.duration_sec || lastWordEnd
+
+  const wpm_overall = wpm ?? (durationSec > 0 ? Math.round(unitsIn(words) / (durationSec / 60)) : null)
+
+  // Roughly 30s windows, between 3 and 8 of them, covering the spoken part of the audio
+  const spokenEndSec = Math.min(Math.max(lastWordEnd, 1), durationSec || lastWordEnd)
+  const windowCount = Math.min(8, Math.max(3, Math.round(spokenEndSec / 30)))
+  const windowSec = spokenEndSec / windowCount
+
+  const segments: PacingSegment[] = []
+  for (let i = 0; i < windowCount; i++) {
+    const startSec = i * windowSec
+    const endSec = i === windowCount - 1 ? spokenEndSec : (i + 1) * windowSec
+    const windowWords = unitsIn(words.filter(w =>
+      w.start >= startSec && (i === windowCount - 1 ? w.start <= endSec : w.start < endSec)
+    ))
+    const segmentWpm = endSec > startSec ? Math.round(windowWords / ((endSec - startSec) / 60)) : 0
+
+    segments.push({
+      ...labelPace(segmentWpm, language.pacing),
+      start_sec: Math.round(startSec * 10) / 10,
+      end_sec: Math.round(endSec * 10) / 10,
+      wpm: segmentWpm,
+    })
+  }
+
+  // Gaps between consecutive words (leading/trailing silence is not a pause)
+  let longestPause = 0
+  let longestPauseAfter: string | null = null
+  let longPauseCount = 0
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end
+    if (gap > longestPause) {
+      longestPause = gap
+      longestPauseAfter = words[i - 1].word
+    }
+    if (gap >= LONG_PAUSE_SEC) {
+      longPauseCount++
+    }
+  }
+
+  const longestPauseSec = Math.round(longestPause * 10) / 10
+  let notes: string
+  if (longPauseCount === 0) {
+    notes = longestPauseSec >= 0.5
+      ? `No pauses over ${LONG_PAUSE_SEC}s. Your longest pause was ${longestPauseSec}s - deliberate 0.5-1 second pauses between key points help them land.`
+      : 'You barely paused between words. Add 0.5-1 second pauses between key points so they land.'
+  } else {
+    notes = `${longPauseCount} pause${longPauseCount > 1 ? 's' : ''} over ${LONG_PAUSE_SEC}s. The longest (${longestPauseSec}s) came after "${longestPauseAfter}". Keep intentional pauses under about 1 second unless you are pausing for effect.`
+  }
+
+  return {
+    wpm_overall,
+    segments,
+    pauses: {
+      longest_pause_sec: longestPauseSec,
+      long_pause_count: longPauseCount,
+      notes,
+    },
+  }
+}
+
+// Premium Insights: Structure Analysis
+function analyzeStructure(
+  transcript: string,
+  chunks: Array<{ text: string; purpose_label: string }>,
+  rubricScores: Array<{ criterion_label: string; missing: boolean }>
+): {
+  detected_sections: string[]
+  missing_sections: string[]
+  suggested_lines: { [section: string]: string }
+  one_sentence_pitch: string
+} {
+  // Common pitch sections
+  const commonSections = ['hook', 'problem', 'solution', 'value', 'cta', 'who', 'what', 'why', 'how']
+  
+  // Detect sections from chunks and rubric scores
+  const detectedSections: string[] = []
+  const missingSections: string[] = []
+  
+  chunks.forEach(chunk => {
+    const label = chunk.purpose_label.toLowerCase()
+    commonSections.forEach(section => {
+      if (label.includes(section) && !detectedSections.includes(section)) {
+        detectedSections.push(section)
+      }
+    })
+  })
+
+  // Check rubric scores for missing sections
+  rubricScores.forEach(score => {
+    const label = score.criterion_label.toLowerCase()
+    commonSections.forEach(section => {
+      if (label.includes(section)) {
+        if (score.missing && !missingSections.includes(section)) {
+          missingSections.push(section)
+        }
+      }
+    })
+  })
+
+  // Generate suggested lines for missing sections
+  const suggestedLines: { [section: string]: string } = {}
+  
+  missingSections.forEach(section => {
+    switch (section) {
+      case 'hook':
+        suggestedLines[section] = "Start with a compelling question or surprising statistic that grabs attention."
+        break
+      case 'problem':
+        suggestedLines[section] = "Clearly state the problem your audience faces. What pain point are you solving?"
+        break
+      case 'solution':
+        suggestedLines[section] = "Explain your solution in simple terms. What do you offer?"
+        break
+      case 'value':
+        suggestedLines[section] = "Articulate the unique value proposition. Why should they care?"
+        break
+      case 'cta':
+        suggestedLines[section] = "End with a clear call to action. What's the next step?"
+        break
+      case 'who':
+        suggestedLines[section] = "Define your target audience. Who is this for?"
+        break
+      case 'what':
+        suggestedLines[section] = "Describe what you're building or offering."
+        break
+      case 'why':
+        suggestedLines[section] = "Explain why this matters. What's the motivation?"
+        break
+      case 'how':
+        suggestedLines[section] = "Explain how it works or how you'll deliver value."
+        break
+      default:
+        suggestedLines[section] = `Add a clear ${section} section to strengthen your pitch.`
+    }
+  })
+
+  // Generate one-sentence pitch (compressed version)
+  const sentences = transcript.split(/([.!?]+\s+)/).filter((part, i) => i % 2 === 0 && part.trim().length > 0)
+  const oneSentencePitch = sentences.length > 0
+    ? sentences.slice(0, 3).join(' ').substring(0, 200) + (sentences.length > 3 ? '...' : '')
+    : transcript.substring(0, 200) + (transcript.length > 200 ? '...' : '')
+
+  return {
+    detected_sections: detectedSections,
+    missing_sections: missingSections,
+    suggested_lines: suggestedLines,
+    one_sentence_pitch: oneSentencePitch,
+  }
+}
+
+// Premium Insights: Coaching Plan
+function generateCoachingPlan(
+  analysis: AnalysisOutput,
+  fillerCount: number,
+  wpm: number | null,
+  pacing: PacingNorms
+): {
+  next_attempt_focus: string[]
+  drills: Array<{ title: string; steps: string[] }>
+} {
+  const focus: string[] = []
+  const drills: Array<{ title: string; steps: string[] }> = []
+
+  // Determine focus areas based on analysis
+  if (fillerCount > 5) {
+    focus.push('Reduce filler words by practicing pauses instead')
+  }
+
+  if (wpm !== null) {
+    if (wpm < pacing.slow) {
+      focus.push('Increase speaking pace slightly for better engagement')
+    } else if (wpm > pacing.fast) {
+      focus.push('Slow down to improve clarity and comprehension')
+    }
+  }
+
+  if (analysis.summary.top_improvements.length > 0) {
+    const topImprovement = analysis.summary.top_improvements[0]
+    if (topImprovement.length < 100) {
+      focus.push(topImprovement.substring(0, 80) + '...')
+    } else {
+      focus.push('Address the key improvement areas identified in feedback')
+    }
+  }
+
+  // Limit to 3 focus items
+  const next_attempt_focus = focus.slice(0, 3)
+
+  // Generate drills
+  if (fillerCount > 0) {
+    drills.push({
+      title: 'Filler Word Elimination',
+      steps: [
+        'Record yourself speaking for 30 seconds',
+        'Count every "um", "uh", "like" you use',
+        'Re-record, replacing fillers with a 1-second pause',
+        'Repeat until you use 0-1 fillers per 30 seconds',
+      ],
+    })
+  }
+
+  if (wpm !== null && (wpm < pacing.slow || wpm > pacing.fast)) {
+    const midPace = Math.round((pacing.idealMin + pacing.idealMax) / 2)
+    drills.push({
+      title: 'Pace Control Practice',
+      steps: [
+        wpm < pacing.slow
+          ? `Read a paragraph at ${pacing.idealMin}-${midPace} ${pacing.rateLabel} (use a metronome app)`
+          : `Read a paragraph at ${midPace}-${pacing.idealMax} ${pacing.rateLabel} (use a metronome app)`,
+        'Practice the same paragraph 3 times, matching the target pace',
+        'Record yourself and verify your pace matches',
+        'Apply this pace to your pitch practice',
+      ],
+    })
+  }
+
+  drills.push({
+    title: 'Structure Reinforcement',
+    steps: [
+      'Write out your pitch in 3-5 bullet points',
+      'Practice each section separately',
+      'Connect sections with transition phrases',
+      'Record the full pitch and check for all key sections',
+    ],
+  })
+
+  return {
+    next_attempt_focus: next_attempt_focus,
+    drills: drills.slice(0, 3), // Limit to 3 drills
+  }
+}
+
+// Premium Content: Generate Signature Insight and Coach's Take
+function generatePremiumContent(
+  analysis: AnalysisOutput,
+  fillerCount: number,
+  wpm: number | null,
+  pacing: PacingNorms,
+  pacingSegments: Array<{ label: 'slow' | 'good' | 'fast'; start_sec: number | null; end_sec: number | null; note: string }>,
+  missingSections: string[]
+): {
+  signature_insight: string
+  coach_take: string
+  next_focus: string[]
+  filler?: {
+    total: number
+    by_word: Record<string, number>
+    sections: {
+      intro: number
+      middle: number
+      close: number
+    }
+    insight: string
+    drill: {
+      title: string
+      steps: string[]
+    }
+  }
+} {
+  const idealPace = `${pacing.idealMin}-${pacing.idealMax} ${pacing.rateLabel}`
+
+  // Generate Signature Insight (1-2 sentences: the most memorable takeaway)
+  let signature_insight = ''
+  
+  // Priority 1: Pacing issues (especially dramatic changes)
+  if (pacingSegments.length > 0) {
+    const slowSegments = pacingSegments.filter(s => s.label === 'slow')
+    const fastSegments = pacingSegments.filter(s => s.label === 'fast')
+    
+    if (slowSegments.length > 0 && slowSegments[0].start_sec !== null) {
+      const startSec = Math.round(slowSegments[0].start_sec)
+      signature_insight = `Your pacing slows dramatically in the first ${startSec} seconds → warm up before recording to maintain consistent energy.`
+    } else if (fastSegments.length > 0) {
+      signature_insight = `Your pace is too fast in key sections → slow down slightly for better comprehension and impact.`
+    } else if (wpm !== null && wpm < pacing.slow) {
+      signature_insight = `Your overall pace is slower than ideal (${Math.round(wpm)} ${pacing.rateLabel}) → aim for ${idealPace} to maintain engagement.`
+    } else if (wpm !== null && wpm > pacing.fast) {
+      signature_insight = `Your overall pace is too fast (${Math.round(wpm)} ${pacing.rateLabel}) → slow down to ${idealPace} for clarity.`
+    }
+  }
+  
+  // Priority 2: Missing critical sections
+  if (!signature_insight && missingSections.length > 0) {
+    const criticalSections = missingSections.filter(s => 
+      ['cta', 'call to action', 'problem', 'solution'].includes(s.toLowerCase())
+    )
+    if (criticalSections.length > 0) {
+      const section = criticalSections[0]
+      signature_insight = `Your ${section} section is missing even when the rest is strong → add a clear ${section} to complete your pitch.`
+    } else {
+      signature_insight = `You're missing ${missingSections.length} key section${missingSections.length > 1 ? 's' : ''} (${missingSections.join(', ')}) → address these gaps to strengthen your pitch.`
+    }
+  }
+  
+  // Priority 3: Filler words
+  if (!signature_insight && fillerCount > 5) {
+    signature_insight = `You used ${fillerCount} filler words throughout → practice replacing "um" and "uh" with brief pauses for a more confident delivery.`
+  }
+  
+  // Priority 4: High-priority line-by-line issues
+  if (!signature_insight && analysis.line_by_line.length > 0) {
+    const highPriorityIssues = analysis.line_by_line
+      .filter(item => item.type === 'issue' && item.priority === 'high')
+      .slice(0, 1)
+    
+    if (highPriorityIssues.length > 0) {
+      const issue = highPriorityIssues[0]
+      signature_insight = `${issue.comment.substring(0, 100)}${issue.comment.length > 100 ? '...' : ''}`
+    }
+  }
+  
+  // Fallback: Use top improvement
+  if (!signature_insight && analysis.summary.top_improvements.length > 0) {
+    const topImprovement = analysis.summary.top_improvements[0]
+    signature_insight = topImprovement.substring(0, 150) + (topImprovement.length > 150 ? '...' : '')
+  }
+  
+  // Final fallback
+  if (!signature_insight) {
+    signature_insight = `Focus on the key improvement areas identified in your feedback to strengthen your next attempt.`
+  }
+  
+  // Generate Coach's Take (paragraph with 2 focus bullets + goal)
+  const coachTakeParts: string[] = []
+  
+  // Opening sentence: overall delivery assessment
+  const overallScore = analysis.summary.overall_score
+  if (overallScore >= 7) {
+    coachTakeParts.push(`Your pitch shows strong fundamentals with a solid structure and clear messaging.`)
+  } else if (overallScore >= 5) {
+    coachTakeParts.push(`Your pitch has good potential but needs refinement in key areas to maximize impact.`)
+  } else {
+    coachTakeParts.push(`Your pitch needs work, but with focused practice on the areas below, you'll see significant improvement.`)
+  }
+  
+  // Generate next_focus array (2 items)
+  const nextFocus: string[] = []
+  
+  // Focus 1: Based on pacing
+  if (wpm !== null) {
+    if (wpm < pacing.slow) {
+      nextFocus.push(`Increase your speaking pace to ${idealPace} for better engagement`)
+    } else if (wpm > pacing.fast) {
+      nextFocus.push(`Slow down your speaking pace to ${idealPace} for better clarity`)
+    }
+  }
+  
+  // Focus 2: Based on missing sections
+  if (nextFocus.length < 2 && missingSections.length > 0) {
+    const criticalSection = missingSections.find(s => 
+      ['cta', 'call to action', 'problem', 'solution'].includes(s.toLowerCase())
+    ) || missingSections[0]
+    nextFocus.push(`Add a clear ${criticalSection} section to complete your pitch structure`)
+  }
+  
+  // Focus 3: Based on filler words
+  if (nextFocus.length < 2 && fillerCount > 5) {
+    nextFocus.push(`Reduce filler words by practicing brief pauses instead of "um" and "uh"`)
+  }
+  
+  // Focus 4: Based on high-priority issues
+  if (nextFocus.length < 2 && analysis.line_by_line.length > 0) {
+    const highPriorityIssue = analysis.line_by_line
+      .find(item => item.type === 'issue' && item.priority === 'high')
+    if (highPriorityIssue) {
+      const focusText = highPriorityIssue.action.substring(0, 80)
+      if (focusText.length > 0) {
+        nextFocus.push(focusText + (highPriorityIssue.action.length > 80 ? '...' : ''))
+      }
+    }
+  }
+  
+  // Fill remaining slots with top improvements
+  while (nextFocus.length < 2 && analysis.summary.top_improvements.length > 0) {
+    const improvement = analysis.summary.top_improvements[nextFocus.length - 1]
+    if (improvement) {
+      const focusText = improvement.substring(0, 80)
+      if (focusText.length > 0 && !nextFocus.includes(focusText)) {
+        nextFocus.push(focusText + (improvement.length > 80 ? '...' : ''))
+      }
+    }
+    if (nextFocus.length >= 2) break
+  }
+  
+  // Ensure we have at least 2 focus items
+  if (nextFocus.length === 0) {
+    nextFocus.push('Review the feedback and practice the key improvement areas')
+    nextFocus.push('Record another attempt to measure your progress')
+  } else if (nextFocus.length === 1) {
+    nextFocus.push('Review the detailed feedback and practice the identified areas')
+  }
+  
+  // Build coach_take with bullets
+  coachTakeParts.push(`\n\nFocus next:`)
+  nextFocus.forEach((focus, idx) => {
+    coachTakeParts.push(`• ${focus}`)
+  })
+  
+  // Closing sentence: next attempt goal
+  if (overallScore >= 7) {
+    coachTakeParts.push(`\n\nNext attempt goal: Refine the details and polish your delivery to reach a 9-10 score.`)
+  } else if (overallScore >= 5) {
+    coachTakeParts.push(`\n\nNext attempt goal: Address the focus areas above to push your score from ${overallScore} to 7+.`)
+  } else {
+    coachTakeParts.push(`\n\nNext attempt goal: Focus on the two areas above to improve your score from ${overallScore} to 5+.`)
+  }
+  
+  const coach_take = coachTakeParts.join('\n')
+  
+  return {
+    signature_insight,
+    coach_take,
+    next_focus: nextFocus.slice(0, 2), // Ensure exactly 2 items
+  }
+}
+
+interface StageContext {
+  runId: string
+  run: any
+  userPlan: 'free' | 'starter' | 'coach' | 'daypass'
+  promptInput: AnalysisPromptInput
+  /** Sections produced so far (mutated as stages finish) */
+  analysisJson: Partial<AnalysisOutput>
+  previousStages: Partial<Record<AnalysisStageName, AnalysisStageState>>
+}
+
+interface StageError {
+  message: string
+  /** Provider outage or rate limit: a retried job may get the stage through */
+  retryable: boolean
+}
+
+// Same rule as the job worker: provider outages and rate limits are retryable, unusable output is not
+function isRetryableStageError(error: any): boolean {
+  if (error instanceof LLMOutputError) return false
+  const statusCode = error?.status || error?.response?.status || 500
+  return statusCode === 429 || statusCode >= 500
+}
+
+// Merge a stage's sections into analysis_json and record its state (atomic, safe for parallel stages)
+async function saveAnalysisStage(
+  runId: string,
+  stage: AnalysisStageName,
+  status: AnalysisStageState['status'],
+  sections: Record<string, any> | null = null,
+  error: string | null = null
+): Promise<void> {
+  const state: AnalysisStageState = {
+    status,
+    error,
+    sections: sections ? Object.keys(sections) : [],
+    updated_at: new Date().toISOString(),
+  }
+
+  const { error: rpcError } = await getSupabaseAdmin().rpc('merge_run_analysis_stage', {
+    p_run_id: runId,
+    p_stage: stage,
+    p_stage_state: state,
+    p_sections: sections,
+  })
+
+  if (rpcError) {
+    throw new Error(`Failed to save ${stage} analysis: ${rpcError.message}`)
+  }
+}
+
+// Add filler word and hesitation items to line-by-line coaching (Free and Starter plans)
+function addDeliveryIssues(
+  lineByLine: AnalysisOutput['line_by_line'],
+  transcript: string
+): AnalysisOutput['line_by_line'] {
+  // Collect existing quotes to avoid duplicates
+  const existingQuotes = new Set<string>()
+  lineByLine.forEach(item => {
+    existingQuotes.add(item.quote.toLowerCase().trim())
+  })
+
+  // Detect filler words and hesitation
+  const deliveryIssues = detectFillerWordsAndHesitation(transcript, existingQuotes)
+  if (deliveryIssues.length === 0) {
+    return lineByLine
+  }
+
+  // Limit total line_by_line items to reasonable number (max 10-12)
+  const maxItems = 12
+  const availableSlots = Math.max(0, maxItems - lineByLine.length)
+  
+  if (availableSlots > 0) {
+    // Add top delivery issues
+    const issuesToAdd = deliveryIssues.slice(0, Math.min(availableSlots, 3))
+    return [...issuesToAdd, ...lineByLine]
+  }
+
+  // Replace lowest priority items if we're at max
+  const sortedByPriority = [...lineByLine].sort((a, b) => {
+    const priorityOrder = { high: 3, medium: 2, low: 1 }
+    return priorityOrder[a.priority] - priorityOrder[b.priority]
+  })
+  
+  // Replace up to 2 lowest priority items with top delivery issues
+  const topDeliveryIssues = deliveryIssues.slice(0, 2)
+  const lowestPriorityQuotes = new Set(
+    sortedByPriority.slice(-2).map(item => item.quote.toLowerCase().trim())
+  )
+  
+  return lineByLine
+    .filter(item => !lowestPriorityQuotes.has(item.quote.toLowerCase().trim()))
+    .concat(topDeliveryIssues)
+}
+
+// Deterministic adjustments to a stage's LLM output before it is saved
+function postProcessStage(
+  stage: LLMAnalysisStage['name'],
+  sections: Partial<AnalysisOutput>,
+  context: StageContext
+): Partial<AnalysisOutput> {
+  // The delivery heuristics are English patterns with English comments
+  if (stage === 'line_by_line' && sections.line_by_line &&
+      (context.userPlan === 'free' || context.userPlan === 'starter') &&
+      context.promptInput.language.code === 'en') {
+    return { ...sections, line_by_line: addDeliveryIssues(sections.line_by_line, context.run.transcript) }
+  }
+
+  if (stage === 'summary' && sections.summary && typeof sections.summary.overall_score !== 'number') {
+    const rubricScores = context.analysisJson.rubric_scores
+    const overallScore = rubricScores
+      ? computeOverallScore(rubricScores, getRubricItems(context.promptInput))
+      : null
+    return { ...sections, summary: { ...sections.summary, overall_score: overallScore ?? 0 } }
+  }
+
+  return sections
+}
+
+/**
+ * Generate, post-process and save one LLM stage.
+ * Returns the error if the stage failed (other stages carry on).
+ */
+async function runLLMStage(stage: LLMAnalysisStage, context: StageContext): Promise<StageError | null> {
+  const { runId, promptInput, analysisJson } = context
+
+  if (context.previousStages[stage.name]?.status === 'succeeded') {
+    return null
+  }
+
+  try {
+    await saveAnalysisStage(runId, stage.name, 'running')
+
+    const output = await completeJSON<Partial<AnalysisOutput>>({
+      feature: 'analysis',
+      messages: [
+        { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+        { role: 'user', content: buildStagePrompt(stage, promptInput, analysisJson) },
+      ],
+      schema: stage.schema,
+      temperature: 0.7,
+    })
+
+    // Keep only this stage's sections (models sometimes echo others)
+    const picked: Partial<AnalysisOutput> = {}
+    for (const section of stage.sections) {
+      if (output[section] !== undefined) {
+        (picked as any)[section] = output[section]
+      }
+    }
+
+    if (stage.name === 'rubric_scores' && promptInput.guidingQuestions.length > 0 && !picked.question_grading) {
+      console.warn('[Analyze] Guiding questions provided but question_grading missing from response')
+      // Don't fail - make it optional
+    }
+
+    const sections = postProcessStage(stage.name, normalizeAnalysisSections(picked), context)
+    const schemaErrors = stage.sections.flatMap((section) =>
+      sections[section] === undefined
+        ? []
+        : validateSchema(sections[section], ANALYSIS_SECTION_SCHEMAS[section], `$.${section}`)
+    )
+    if (schemaErrors.length > 0) {
+      throw new LLMOutputError('schema', `Invalid ${stage.name} output: ${schemaErrors.slice(0, 3).join('; ')}`, JSON.stringify(sections), schemaErrors)
+    }
+    Object.assign(analysisJson, sections)
+    await saveAnalysisStage(runId, stage.name, 'succeeded', sections)
+    return null
+  } catch (error: any) {
+    const message = error.message || `${stage.name} analysis failed`
+    console.error('[Analyze] Stage failed:', { runId, stage: stage.name, error: message })
+
+    try {
+      await saveAnalysisStage(runId, stage.name, 'failed', null, message)
+    } catch (saveError: any) {
+      console.error('[Analyze] Failed to record stage failure:', { runId, stage: stage.name, error: saveError.message })
+    }
+    return { message, retryable: isRetryableStageError(error) }
+  }
+}
+
+// Slide-by-slide timing and coverage for runs with an attached deck (all plans, no LLM)
+async function runSlidesStage(context: StageContext): Promise<void> {
+  const { runId, run, analysisJson } = context
+  const slides = Array.isArray(run.deck_slides) ? run.deck_slides : []
+  const marks = Array.isArray(run.slide_timings) ? run.slide_timings : []
+  const durationSec = context.promptInput.audioSeconds
+  if (slides.length === 0 || marks.length === 0 || !durationSec || !run.transcript) {
+    await saveAnalysisStage(runId, 'slides', 'skipped')
+    return
+  }
+
+  const sections: Partial<AnalysisOutput> = {
+    slides: alignSlides({
+      slides,
+      marks,
+      durationSec,
+      transcript: run.transcript,
+      words: run.transcript_timings?.words || null,
+      language: context.promptInput.language,
+    }),
+  }
+  Object.assign(analysisJson, sections)
+  await saveAnalysisStage(runId, 'slides', 'succeeded', sections)
+}
+
+// Script vs transcript diff for runs rehearsed from a reference script (all plans, no LLM)
+async function runScriptStage(context: StageContext): Promise<void> {
+  const { runId, run, analysisJson } = context
+  if (!run.reference_script?.trim() || !run.transcript) {
+    await saveAnalysisStage(runId, 'script', 'skipped')
+    return
+  }
+
+  const sections: Partial<AnalysisOutput> = {
+    script: compareScript(run.reference_script, run.transcript, context.promptInput.language),
+  }
+  Object.assign(analysisJson, sections)
+  await saveAnalysisStage(runId, 'script', 'succeeded', sections)
+}
+
+// Q&A answers are graded against their question and the pitch they follow, instead of the rubric stages
+async function runQAGradeStage(context: StageContext): Promise<StageError | null> {
+  const { runId, run, userPlan, promptInput, analysisJson } = context
+
+  if (context.previousStages.qa_grade?.status === 'succeeded') {
+    return null
+  }
+
+  try {
+    await saveAnalysisStage(runId, 'qa_grade', 'running')
+
+    const question = parseQAQuestions(run.qa_question ? [run.qa_question] : [])[0]
+    if (!question) {
+      throw new Error('Answer run has no question')
+    }
+
+    const { data: parent } = run.parent_run_id
+      ? await getSupabaseAdmin()
+        .from('pitch_runs')
+        .select('transcript, pitch_context')
+        .eq('id', run.parent_run_id)
+        .maybeSingle()
+      : { data: null }
+
+    const sections: Partial<AnalysisOutput> = {
+      meta: {
+        schema_version: ANALYSIS_SCHEMA_VERSION,
+        plan_at_time: userPlan,
+        generated_at: new Date().toISOString(),
+      },
+      qa_grade: await gradeQAAnswer({
+        question,
+        answer: run.transcript,
+        pitchTranscript: parent?.transcript || null,
+        pitchContext: promptInput.pitchContext || parent?.pitch_context || null,
+        durationSec: promptInput.audioSeconds,
+        language: promptInput.language,
+      }),
+    }
+    const schemaErrors = validateSchema(sections.qa_grade, ANALYSIS_SECTION_SCHEMAS.qa_grade, '$.qa_grade')
+    if (schemaErrors.length > 0) {
+      throw new LLMOutputError('schema', `Invalid qa_grade output: ${schemaErrors.slice(0, 3).join('; ')}`, JSON.stringify(sections.qa_grade), schemaErrors)
+    }
+    Object.assign(analysisJson, sections)
+    await saveAnalysisStage(runId, 'qa_grade', 'succeeded', sections)
+    return null
+  } catch (error: any) {
+    const message = error.message || 'Answer grading failed'
+    console.error('[Analyze] Stage failed:', { runId, stage: 'qa_grade', error: message })
+
+    try {
+      await saveAnalysisStage(runId, 'qa_grade', 'failed', null, message)
+    } catch (saveError: any) {
+      console.error('[Analyze] Failed to record stage failure:', { runId, stage: 'qa_grade', error: saveError.message })
+    }
+    return { message, retryable: isRetryableStageError(error) }
+  }
+}
+
+// Premium insights (Coach plan) are computed locally from the LLM stages; also stamps meta
+async function runPremiumStage(context: StageContext): Promise<void> {
+  const { runId, run, userPlan, analysisJson } = context
+  const language = context.promptInput.language
+  const sections: Partial<AnalysisOutput> = {
+    meta: {
+      schema_version: ANALYSIS_SCHEMA_VERSION,
+      plan_at_time: userPlan,
+      generated_at: new Date().toISOString(),
+    },
+  }
+
+  if (userPlan === 'coach') {
+    // Stages that failed contribute empty sections
+    const analysis: AnalysisOutput = {
+      summary: { overall_score: 0, overall_notes: '', top_strengths: [], top_improvements: [] },
+      timing: { target_seconds: null, max_seconds: null, estimated_seconds: null, pacing_wpm: null, notes: '' },
+      rubric_scores: [],
+      chunks: [],
+      line_by_line: [],
+      pause_suggestions: [],
+      cut_suggestions: [],
+      ...analysisJson,
+    }
+
+    // Acoustic metrics need the recording itself; skipped when it can't be decoded
+    const delivery = run.audio_path
+      ? await analyzeStoredDelivery(run.audio_path, run.transcript_timings || null)
+      : null
+    const filledPauses = delivery?.filledPauses || []
+
+    const fillerWordsAnalysis = analyzeFillerWords(
+      run.transcript,
+      language,
+      filledPauses,
+      run.transcript_timings ? (run.transcript_timings.verbatim ? 'verbatim' : 'standard') : undefined
+    )
+    const pacingAnalysis = analyzePacing(
+      run.transcript,
+      run.duration_ms,
+      run.words_per_minute || null,
+      language,
+      run.transcript_timings || null
+    )
+    const structureAnalysis = analyzeStructure(
+      run.transcript,
+      analysis.chunks,
+      analysis.rubric_scores
+    )
+    const coachingPlan = generateCoachingPlan(
+      analysis,
+      fillerWordsAnalysis.total_count,
+      run.words_per_minute || null,
+      language.pacing
+    )
+
+    sections.premium_insights = {
+      filler_words: fillerWordsAnalysis,
+      pacing: pacingAnalysis,
+      structure: structureAnalysis,
+      coaching_plan: coachingPlan,
+      ...(delivery ? { voice: delivery.voice } : {}),
+    }
+
+    // Generate premium content (Signature Insight + Coach's Take)
+    const premiumContent = generatePremiumContent(
+      analysis,
+      fillerWordsAnalysis.total_count,
+      run.words_per_minute || null,
+      language.pacing,
+      pacingAnalysis.segments,
+      structureAnalysis.missing_sections
+    )
+    
+    // Generate premium filler word breakdown
+    const premiumFiller = analyzePremiumFillerWords(
+      run.transcript,
+      language,
+      filledPauses,
+      delivery?.voice.duration_sec ?? null
+    )
+    premiumContent.filler = premiumFiller
+    
+    sections.premium = premiumContent
+  } else {
+    // Non-coach users: explicitly set premium to null
+    sections.premium = null
+  }
+
+  Object.assign(analysisJson, sections)
+  await saveAnalysisStage(runId, 'premium', userPlan === 'coach' ? 'succeeded' : 'skipped', sections)
+}
+
+export interface AnalyzeRunOptions {
+  /** Rubric to use instead of the run's rubric_id */
+  rubricId?: string | null
+  /** Prompt-specific rubric items (takes precedence over the rubric's criteria) */
+  promptRubric?: PromptRubricItem[] | null
+  /** Pitch context to use instead of the run's pitch_context */
+  pitchContext?: string | null
+  /** User who requested the analysis, for plan resolution (null = anonymous) */
+  userId?: string | null
+  /** Keep stages that already succeeded (retrying a failed analysis job) */
+  resume?: boolean
+  /**
+   * Fail instead of finishing without stages that failed retryably, so the job is retried
+   * (with resume) and reruns only those. False on the job's last attempt.
+   */
+  retryFailedStages?: boolean
+}
+
+/**
+ * Analyze a transcribed run against its rubric and save the feedback.
+ * Sets pitch_runs.status to 'analyzed' on success or 'error' on failure.
+ */
+export async function analyzeRun(id: string, options: AnalyzeRunOptions = {}): Promise<RunTaskOutcome> {
+  try {
+    const requestRubricId = options.rubricId || null
+    const promptRubric = options.promptRubric || null
+    const pitchContext = options.pitchContext || null
+    if (requestRubricId) {
+      console.log('[Analyze] Request specified rubric_id:', requestRubricId)
+    }
+    if (promptRubric) {
+      console.log('[Analyze] Using prompt-specific rubric:', promptRubric)
+    }
+    if (pitchContext) {
+      console.log('[Analyze] Pitch context provided:', pitchContext.substring(0, 100))
+    }
+
+    // Set status to 'analyzing' immediately
+    await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({ status: 'analyzing' })
+      .eq('id', id)
+
+    // Fetch the run (include duration_ms and pitch_context)
+    const { data: run, error: fetchError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    // Use pitch_context from options if provided, otherwise from run
+    const finalPitchContext = pitchContext || run?.pitch_context || null
+
+    if (fetchError || !run) {
+      console.error('[Analyze] Run not found:', { id, error: fetchError })
+      return taskOutcome(
+        { 
+          ok: false,
+          error: 'Run not found',
+          details: fetchError?.message || 'Run with this ID does not exist',
+          runId: id,
+        },
+        { status: 404 }
+      )
+    }
+
+    // Check transcript exists and has content (more robust than just checking status)
+    const transcriptLength = run.transcript?.length || 0
+    if (!run.transcript || transcriptLength === 0) {
+      console.error('[Analyze] Missing or empty transcript:', {
+        runId: id,
+        status: run.status,
+        hasTranscript: !!run.transcript,
+        transcriptLength,
+      })
+      return taskOutcome(
+        { 
+          ok: false,
+          error: 'Transcript is required for analysis',
+          details: `Transcript is missing or empty. Status: ${run.status}, Transcript length: ${transcriptLength}`,
+          runId: id,
+          runStatus: run.status,
+          transcriptLength,
+          fieldsChecked: ['transcript', 'transcript.length'],
+        },
+        { status: 400 }
+      )
+    }
+
+    // Warn if status is not 'transcribed' but allow analysis if transcript exists
+    if (run.status !== 'transcribed') {
+      console.warn('[Analyze] Run status is not "transcribed", but transcript exists:', {
+        runId: id,
+        status: run.status,
+        transcriptLength,
+      })
+      // Don't block - transcript exists, so we can analyze
+    }
+
+    // Fetch rubric: check rubric_snapshot_json first, then rubric_id
+    let rubric: any = null
+    let criteria: RubricCriterion[] = []
+    let guidingQuestions: string[] = []
+    let rubricJson: any = null
+    
+    // Priority 1: Use rubric_snapshot_json if present (from rubric_json upload)
+    if (run.rubric_snapshot_json) {
+      rubricJson = run.rubric_snapshot_json
+      
+      // Extract criteria from snapshot
+      if (rubricJson.criteria && Array.isArray(rubricJson.criteria)) {
+        criteria = rubricJson.criteria.map((c: any) => ({
+          name: c.name || c.label || 'Unknown',
+          description: c.description || c.desc || '',
+        }))
+      }
+      
+      // Extract guiding_questions from snapshot
+      if (rubricJson.guiding_questions && Array.isArray(rubricJson.guiding_questions)) {
+        guidingQuestions = rubricJson.guiding_questions.filter((q: any) => 
+          typeof q === 'string' && q.trim().length > 0
+        )
+      }
+      
+      // Create a virtual rubric object for compatibility
+      rubric = {
+        name: rubricJson.name || rubricJson.title || 'Custom Rubric',
+        title: rubricJson.title || rubricJson.name || 'Custom Rubric',
+        description: rubricJson.description || null,
+        target_duration_seconds: rubricJson.target_duration_seconds || null,
+        max_duration_seconds: rubricJson.max_duration_seconds || null,
+      }
+      
+      console.log('[Analyze] Using rubric_snapshot_json:', {
+        runId: id,
+        name: rubric.name,
+        criteriaCount: criteria.length,
+      })
+    }
+    // Priority 2: Use rubric_id from database (existing behavior)
+    else {
+      // Use requestRubricId if provided, otherwise use run.rubric_id
+      const rubricIdToUse = requestRubricId || run.rubric_id
+
+      if (rubricIdToUse) {
+        // Fetch from unified rubrics table
+        const { data: fetchedRubric } = await getSupabaseAdmin()
+          .from('rubrics')
+          .select('*')
+          .eq('id', rubricIdToUse)
+          .single()
+        
+        if (fetchedRubric) {
+          rubric = fetchedRubric
+          rubricJson = rubric.rubric_json || null
+
+          // Extract criteria from rubric_json if available, otherwise fall back to criteria field
+          if (rubricJson && rubricJson.criteria && Array.isArray(rubricJson.criteria)) {
+            criteria = rubricJson.criteria.map((c: any) => ({
+              name: c.name || c.label || 'Unknown',
+              description: c.description || '',
+            }))
+          } else if (rubric.criteria && Array.isArray(rubric.criteria)) {
+            // Fallback to legacy criteria field
+            criteria = rubric.criteria.map((c: any) => ({
+              name: c.name || c.label || 'Unknown',
+              description: c.description || '',
+            }))
+          }
+
+          // Extract guiding_questions from rubric_json
+          if (rubricJson && rubricJson.guiding_questions && Array.isArray(rubricJson.guiding_questions)) {
+            guidingQuestions = rubricJson.guiding_questions.filter((q: any) => 
+              typeof q === 'string' && q.trim().length > 0
+            )
+          }
+        }
+      }
+    }
+
+    // Fallback to default template rubric if not found
+    if (!rubric) {
+      const rubricIdToUse = requestRubricId || run.rubric_id
+      console.warn('[Analyze] Rubric not found, using default template:', { 
+        runId: id, 
+        rubricId: rubricIdToUse 
+      })
+      
+      // Fetch first template rubric as fallback
+      const { data: defaultRubrics } = await getSupabaseAdmin()
+        .from('rubrics')
+        .select('*')
+        .eq('is_template', true)
+        .order('created_at', { ascending: true })
+        .limit(1)
+      
+      if (defaultRubrics && defaultRubrics.length > 0) {
+        rubric = defaultRubrics[0]
+        rubricJson = rubric.rubric_json || null
+
+        // Extract criteria from rubric_json if available
+        if (rubricJson && rubricJson.criteria && Array.isArray(rubricJson.criteria)) {
+          criteria = rubricJson.criteria.map((c: any) => ({
+            name: c.name || c.label || 'Unknown',
+            description: c.description || '',
+          }))
+        } else if (rubric.criteria && Array.isArray(rubric.criteria)) {
+          criteria = rubric.criteria.map((c: any) => ({
+            name: c.name || c.label || 'Unknown',
+            description: c.description || '',
+          }))
+        }
+
+        // Extract guiding_questions
+        if (rubricJson && rubricJson.guiding_questions && Array.isArray(rubricJson.guiding_questions)) {
+          guidingQuestions = rubricJson.guiding_questions.filter((q: any) => 
+            typeof q === 'string' && q.trim().length > 0
+          )
+        }
+      }
+    }
+
+    if (!rubric || criteria.length === 0) {
+      const rubricIdToUse = requestRubricId || run.rubric_id
+      console.error('[Analyze] No valid rubric found (including fallback):', { 
+        runId: id, 
+        rubricId: rubricIdToUse,
+        hasRubric: !!rubric,
+        criteriaCount: criteria.length,
+        hasSnapshot: !!run.rubric_snapshot_json,
+      })
+      return taskOutcome(
+        { 
+          ok: false,
+          error: 'Rubric not found',
+          details: `No valid rubric found. Rubric ID: ${rubricIdToUse || 'null'}`,
+          runId: id,
+          rubricId: rubricIdToUse,
+          runStatus: run.status,
+          transcriptLength,
+        },
+        { status: 400 }
+      )
+    }
+
+
+    // Use duration_ms as source of truth, fallback to audio_seconds
+    const audioSeconds = run.duration_ms ? run.duration_ms / 1000 : run.audio_seconds
+
+    // Get user plan from database (source of truth) - prioritize the requesting user
+    // The requester is captured when the job is enqueued (no auth cookies in a worker),
+    // then getUserPlanFromDB falls back to session_id. If neither matches, it returns 'free'
+    const authenticatedUserId = options.userId ?? null
+    const userPlan = await getUserPlanFromDB(run.session_id, authenticatedUserId)
+    
+    console.log('[Analyze] Resolved user plan from database:', {
+      runId: id,
+      sessionId: run.session_id,
+      runUserId: run.user_id,
+      authenticatedUserId,
+      plan: userPlan,
+      note: authenticatedUserId ? 'Using authenticated user plan' : 'No authenticated user, using session_id or free',
+    })
+
+    // Build the analysis prompt input
+    // Use prompt-specific rubric if provided, otherwise use generic criteria
+    // Handle both rubrics table (has 'name' field) and unified table (has 'title' field)
+    const rubricName = rubric.name || rubric.title || 'Unknown Rubric'
+    
+    // Extract target_duration_seconds from rubric_json if available
+    const targetDurationSeconds = rubricJson?.target_duration_seconds ?? rubric.target_duration_seconds ?? null
+    const maxDurationSeconds = rubricJson?.max_duration_seconds ?? rubric.max_duration_seconds ?? null
+    
+    const promptInput: AnalysisPromptInput = {
+      transcript: run.transcript,
+      criteria,
+      promptRubric,
+      targetDurationSeconds,
+      maxDurationSeconds,
+      audioSeconds,
+      wpm: run.words_per_minute,
+      pitchContext: finalPitchContext,
+      guidingQuestions,
+      userPlan,
+      rubricName,
+      language: getLanguageProfile(run.language),
+      persona: parsePersona(run.persona_snapshot),
+    }
+
+    // A retried job keeps the stages that already succeeded; a fresh analysis starts clean
+    const previousStages: Partial<Record<AnalysisStageName, AnalysisStageState>> =
+      options.resume ? (run.analysis_stages || {}) : {}
+    const analysisJson: Partial<AnalysisOutput> = options.resume ? { ...(run.analysis_json || {}) } : {}
+
+    if (!options.resume) {
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({ analysis_json: null, analysis_stages: null })
+        .eq('id', id)
+    }
+
+    const context: StageContext = { runId: id, run, userPlan, promptInput, analysisJson, previousStages }
+
+    const stageErrors: Partial<Record<AnalysisStageName, string>> = {}
+    const retryableStages: AnalysisStageName[] = []
+    const recordStageError = (stage: AnalysisStageName, stageError: StageError | null) => {
+      if (!stageError) return
+      stageErrors[stage] = stageError.message
+      if (stageError.retryable) retryableStages.push(stage)
+    }
+
+    const isQAAnswer = run.run_type === 'qa_answer'
+    if (isQAAnswer) {
+      recordStageError('qa_grade', await runQAGradeStage(context))
+    } else {
+      // rubric_scores first so the summary can build on it, then the rest in parallel
+      recordStageError('rubric_scores', await runLLMStage(RUBRIC_SCORES_STAGE, context))
+
+      const parallelStages = promptInput.persona
+        ? [...PARALLEL_ANALYSIS_STAGES, AUDIENCE_REACTION_STAGE]
+        : PARALLEL_ANALYSIS_STAGES
+      if (!promptInput.persona) {
+        await saveAnalysisStage(id, 'audience_reaction', 'skipped')
+      }
+      const parallelErrors = await Promise.all(parallelStages.map(stage => runLLMStage(stage, context)))
+      parallelStages.forEach((stage, i) => recordStageError(stage.name, parallelErrors[i]))
+    }
+
+    // Without scores, a summary or an answer grade there is nothing worth showing
+    if (!analysisJson.rubric_scores && !analysisJson.summary && !analysisJson.qa_grade) {
+      const message = stageErrors.rubric_scores || stageErrors.summary || stageErrors.qa_grade || 'Analysis failed'
+      console.error('LLM analysis error:', { runId: id, stageErrors })
+
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({
+          status: 'error',
+          error_message: message,
+        })
+        .eq('id', id)
+
+      return taskOutcome(
+        { error: 'Analysis failed', details: message, stages: stageErrors },
+        { status: 500 }
+      )
+    }
+
+    // Leave the run 'analyzing' with the stages saved so far; the retried job resumes from them
+    if (retryableStages.length > 0 && options.retryFailedStages) {
+      console.warn('[Analyze] Stages failed retryably, handing back for retry:', { runId: id, stageErrors })
+      return taskOutcome(
+        { error: 'Analysis incomplete', details: `Failed stages: ${retryableStages.join(', ')}`, stages: stageErrors },
+        { status: 500 }
+      )
+    }
+
+    if (!isQAAnswer) {
+      await runSlidesStage(context)
+      await runScriptStage(context)
+      await runPremiumStage(context)
+    }
+
+    const failedStages = Object.keys(stageErrors)
+    if (failedStages.length > 0) {
+      console.warn('[Analyze] Analysis completed with failed stages:', { runId: id, stageErrors })
+    }
+
+    // Update the run status and plan_at_time (analysis_json was saved stage by stage)
+    // Note: plan_at_time column may not exist if migration hasn't been applied yet
+    // Use a try-catch to handle gracefully if column doesn't exist
+    let updateData: any = {
+      status: 'analyzed',
+      error_message: null,
+    }
+    
+    // Only include plan_at_time if it's a valid value
+    // This allows the update to succeed even if the column doesn't exist yet
+    if (userPlan && ['free', 'starter', 'coach', 'daypass'].includes(userPlan)) {
+      updateData.plan_at_time = userPlan
+    }
+
+    const { data: updatedRun, error: updateError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update(updateData)
+      .eq('id', id)
+      .select('*')
+      .single()
+
+    if (updateError) {
+      console.error('Database update error:', updateError)
+      
+      // If the error is about a missing column, try again without plan_at_time
+      if (updateError.message?.includes('plan_at_time') || updateError.message?.includes('column') || updateError.code === '42703') {
+        console.warn('[Analyze] plan_at_time column may not exist, retrying without it:', updateError.message)
+        
+        const { data: retryRun, error: retryError } = await getSupabaseAdmin()
+          .from('pitch_runs')
+          .update({
+            status: 'analyzed',
+            error_message: null,
+          })
+          .eq('id', id)
+          .select('*')
+          .single()
+        
+        if (retryError) {
+          console.error('Database update error (retry):', retryError)
+          return taskOutcome(
+            { error: 'Failed to save analysis', details: retryError.message },
+            { status: 500 }
+          )
+        }
+        
+        // Use the retry result
+        const finalRun = retryRun
+        return taskOutcome({
+          ok: true,
+          run: finalRun,
+          success: true,
+          analysis: upgradeAnalysisJson(finalRun.analysis_json),
+          failed_stages: failedStages,
+        })
+      }
+      
+      return taskOutcome(
+        { error: 'Failed to save analysis', details: updateError.message },
+        { status: 500 }
+      )
+    }
+
+    return taskOutcome({
+      ok: true,
+      run: updatedRun,
+      success: true,
+      analysis: upgradeAnalysisJson(updatedRun.analysis_json),
+      failed_stages: failedStages,
+    })
+  } catch (error: any) {
+    console.error('Unexpected error:', error)
+
+    // Try to update status to error
+    try {
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({
+          status: 'error',
+          error_message: error.message || 'Unexpected error during analysis',
+        })
+        .eq('id', id)
+    } catch (updateErr) {
+      console.error('Failed to update error status:', updateErr)
+    }
+
+    return taskOutcome(
+      { error: 'Internal server error', details: error.message },
+      { status: 500 }
+    )
+  }
+}
+
@@ -0,0 +1,59 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import type { Assignment, AssignmentRun } from '@/lib/assignments'
+
+export const ASSIGNMENT_COLUMNS = 'id, organization_id, created_by, title, prompt, rubric_id, rubric_snapshot_json, due_at, max_attempts, created_at, updated_at'
+
+/** Load an assignment by id (null if it doesn't exist). */
+export async function loadAssignment(id: string): Promise<Assignment | null> {
+  const { data: assignment, error } = await getSupabaseAdmin()
+    .from('assignments')
+    .select(ASSIGNMENT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Assignments] Failed to load assignment:', { id, error })
+    return null
+  }
+  return assignment as Assignment | null
+}
+
+/** Submissions to the given assignments, optionally only one learner's. */
+export async function loadSubmissions(
+  assignmentIds: string[],
+  userId?: string
+): Promise<Array<AssignmentRun & { assignment_id: string }>> {
+  if (assignmentIds.length === 0) return []
+
+  let query = getSupabaseAdmin()
+    .from('pitch_runs')
+    .select('id, user_id, created_at, status, analysis_json, assignment_id')
+    .in('assignment_id', assignmentIds)
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[Assignments] Failed to load submissions:', { assignmentIds, error })
+    throw new Error(error.message)
+  }
+  return (data || []).map(run => ({ ...run, analysis_json: upgradeAnalysisJson(run.analysis_json) }))
+}
+
+/**
+ * Count a just-uploaded run against its assignment's max_attempts (migration 038).
+ * Returns false if the limit was already used up; the run is then detached from the assignment.
+ */
+export async function claimAssignmentAttempt(runId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin().rpc('claim_assignment_attempt', {
+    p_run_id: runId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to claim assignment attempt: ${error.message}`)
+  }
+
+  return data !== false
+}
@@ -0,0 +1,81 @@
+import {
+  analyzeFrames,
+  analyzeVoice,
+  decodeToPcm,
+  detectFilledPauses,
+  probeAudio,
+  type AudioProbe,
+  type FilledPause,
+} from '@/lib/audio'
+import type { AnalysisVoice } from '@/lib/analysis'
+import type { TranscriptTimings } from '@/lib/types'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+
+interface StoredAudio {
+  audio: Buffer
+  mimeType: string
+}
+
+async function downloadStoredAudio(audioPath: string, purpose: string): Promise<StoredAudio | null> {
+  const { data: audioData, error } = await getSupabaseAdmin().storage
+    .from('pitchpractice-audio')
+    .download(audioPath)
+
+  if (error || !audioData) {
+    console.warn(`[Audio] Could not download audio for ${purpose}:`, {
+      audioPath,
+      error: error?.message,
+    })
+    return null
+  }
+
+  return { audio: Buffer.from(await audioData.arrayBuffer()), mimeType: audioData.type }
+}
+
+/**
+ * Download an uploaded recording from storage and probe it.
+ * Returns null when the file can't be downloaded.
+ */
+export async function probeStoredAudio(audioPath: string): Promise<AudioProbe | null> {
+  const stored = await downloadStoredAudio(audioPath, 'probing')
+  if (!stored) {
+    return null
+  }
+  return probeAudio(stored.audio, { fileName: audioPath, mimeType: stored.mimeType })
+}
+
+export interface StoredAudioDelivery {
+  voice: AnalysisVoice
+  /** Hesitations heard in the audio but missing from the transcript (needs word timings) */
+  filledPauses: FilledPause[]
+}
+
+/**
+ * Download a recording and measure loudness, pitch variation and filled pauses.
+ * Returns null when the file can't be downloaded or decoded.
+ */
+export async function analyzeStoredDelivery(
+  audioPath: string,
+  timings: TranscriptTimings | null
+): Promise<StoredAudioDelivery | null> {
+  const stored = await downloadStoredAudio(audioPath, 'delivery analysis')
+  if (!stored) {
+    return null
+  }
+
+  try {
+    const pcm = await decodeToPcm(stored.audio, { fileName: audioPath, mimeType: stored.mimeType })
+    const frames = pcm ? analyzeFrames(pcm) : null
+    if (!frames) {
+      console.warn('[Audio] Skipping delivery analysis, audio could not be decoded:', { audioPath })
+      return null
+    }
+    return {
+      voice: analyzeVoice(frames, timings?.segments || []),
+      filledPauses: detectFilledPauses(frames, timings?.words || []),
+    }
+  } catch (error: any) {
+    console.warn('[Audio] Delivery analysis failed:', { audioPath, error: error.message })
+    return null
+  }
+}
@@ -0,0 +1,36 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import type { RunComment } from '@/lib/comments'
+
+export const RUN_COMMENT_COLUMNS = 'id, run_id, parent_id, author_id, body, sentence_index, quote, start_sec, end_sec, resolved_at, resolved_by, created_at, updated_at'
+
+/** Attach author emails (from user_profiles) to run_comments rows. */
+export async function withAuthorEmails(rows: Array<Omit<RunComment, 'author_email'>>): Promise<RunComment[]> {
+  const authorIds = Array.from(new Set(rows.map(row => row.author_id)))
+  const { data: profiles } = authorIds.length > 0
+    ? await getSupabaseAdmin().from('user_profiles').select('user_id, email').in('user_id', authorIds)
+    : { data: [] as Array<{ user_id: string; email: string }> }
+  const emails = new Map((profiles || []).map(profile => [profile.user_id, profile.email]))
+
+  return rows.map(row => ({
+    ...row,
+    // numeric columns come back as strings
+    start_sec: row.start_sec !== null ? Number(row.start_sec) : null,
+    end_sec: row.end_sec !== null ? Number(row.end_sec) : null,
+    author_email: emails.get(row.author_id) ?? null,
+  }))
+}
+
+/** All comments on a run, oldest first. */
+export async function loadRunComments(runId: string): Promise<RunComment[]> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('run_comments')
+    .select(RUN_COMMENT_COLUMNS)
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Comments] Failed to load comments:', { runId, error })
+    throw new Error(error.message)
+  }
+  return withAuthorEmails(rows || [])
+}
@@ -0,0 +1,62 @@
+/**
+ * Events streamed by GET /api/runs/[id]/events (Server-Sent Events).
+ * Shared by the route and the client subscriber, so keep this free of server imports.
+ */
+
+import type { AnalysisJson } from '@/lib/analysis'
+
+export const RUN_EVENT_TYPES = ['snapshot', 'status', 'transcript', 'chunk', 'analysis', 'stage', 'job', 'ping'] as const
+
+export type RunEventType = (typeof RUN_EVENT_TYPES)[number]
+
+export interface RunEventRun {
+  id: string
+  status: string
+  error_message: string | null
+  transcript: string | null
+  word_count: number | null
+  words_per_minute: number | null
+  duration_ms: number | null
+  audio_seconds: number | null
+  analysis_json: AnalysisJson | null
+  analysis_stages: Record<string, RunEventStageState> | null
+}
+
+export interface RunEventStageState {
+  status: 'running' | 'succeeded' | 'failed' | 'skipped'
+  error: string | null
+  sections: string[]
+  updated_at: string
+}
+
+export interface RunEventChunk {
+  id: string
+  chunk_index: number
+  start_ms: number
+  end_ms: number
+  status: 'uploaded' | 'transcribing' | 'transcribed' | 'error'
+  transcript: string | null
+  error_message: string | null
+}
+
+export interface RunEventJob {
+  id: string
+  type: 'transcribe' | 'analyze'
+  status: 'queued' | 'running' | 'succeeded' | 'failed'
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+}
+
+export type RunEvent =
+  /** Full state, sent first on every (re)connect */
+  | { type: 'snapshot'; data: { run: RunEventRun; chunks: RunEventChunk[]; jobs: RunEventJob[] } }
+  | { type: 'status'; data: { status: string; previous_status: string | null; error_message: string | null } }
+  | { type: 'transcript'; data: Pick<RunEventRun, 'transcript' | 'word_count' | 'words_per_minute' | 'duration_ms' | 'audio_seconds'> }
+  | { type: 'chunk'; data: RunEventChunk }
+  /** One top-level analysis_json section changed; value null means it was removed */
+  | { type: 'analysis'; data: { section: string; value: any } }
+  /** An analysis stage started, finished or failed */
+  | { type: 'stage'; data: { stage: string; state: RunEventStageState } }
+  | { type: 'job'; data: RunEventJob }
+  | { type: 'ping'; data: { at: string } }
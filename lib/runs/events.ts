@@ -0,0 +1,133 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { upgradeAnalysisJson } from '@/lib/analysis'
+import type { RunJob } from '@/lib/jobs'
+import type { RunEvent, RunEventChunk, RunEventJob, RunEventRun } from './event-types'
+
+export interface RunEventState {
+  run: RunEventRun & { user_id: string | null; session_id: string | null }
+  chunks: RunEventChunk[]
+  jobs: Array<RunEventJob & Pick<RunJob, 'run_after' | 'locked_at'>>
+}
+
+const RUN_COLUMNS = 'id, status, error_message, transcript, word_count, words_per_minute, duration_ms, audio_seconds, analysis_json, analysis_stages, user_id, session_id'
+const CHUNK_COLUMNS = 'id, chunk_index, start_ms, end_ms, status, transcript, error_message'
+const JOB_COLUMNS = 'id, type, status, attempts, max_attempts, last_error, run_after, locked_at'
+
+/** Load everything the events stream reports on. Returns null if the run is gone. */
+export async function loadRunEventState(runId: string): Promise<RunEventState | null> {
+  const supabaseAdmin = getSupabaseAdmin()
+
+  const [runResult, chunksResult, jobsResult] = await Promise.all([
+    supabaseAdmin.from('pitch_runs').select(RUN_COLUMNS).eq('id', runId).maybeSingle(),
+    supabaseAdmin.from('run_chunks').select(CHUNK_COLUMNS).eq('run_id', runId).order('chunk_index', { ascending: true }),
+    supabaseAdmin.from('run_jobs').select(JOB_COLUMNS).eq('run_id', runId).order('created_at', { ascending: false }).limit(5),
+  ])
+
+  if (runResult.error) {
+    throw new Error(`Failed to load run: ${runResult.error.message}`)
+  }
+  if (!runResult.data) {
+    return null
+  }
+
+  const run = runResult.data as RunEventState['run']
+
+  return {
+    run: { ...run, analysis_json: upgradeAnalysisJson(run.analysis_json) },
+    // Chunks and jobs are supplementary; a failed lookup shouldn't end the stream
+    chunks: (chunksResult.data as RunEventChunk[] | null) || [],
+    jobs: (jobsResult.data as RunEventState['jobs'] | null) || [],
+  }
+}
+
+function toEventJob(job: RunEventState['jobs'][number]): RunEventJob {
+  const { run_after: _runAfter, locked_at: _lockedAt, ...eventJob } = job
+  return eventJob
+}
+
+export function toSnapshotEvent(state: RunEventState): RunEvent {
+  const { user_id: _userId, session_id: _sessionId, ...run } = state.run
+  return { type: 'snapshot', data: { run, chunks: state.chunks, jobs: state.jobs.map(toEventJob) } }
+}
+
+function changed(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) !== JSON.stringify(b)
+}
+
+/**
+ * Events describing how a run moved from `prev` to `next`.
+ * Analysis is diffed per top-level section so clients can render sections as they land.
+ */
+export function diffRunEventState(prev: RunEventState, next: RunEventState): RunEvent[] {
+  const events: RunEvent[] = []
+
+  if (prev.run.status !== next.run.status || prev.run.error_message !== next.run.error_message) {
+    events.push({
+      type: 'status',
+      data: {
+        status: next.run.status,
+        previous_status: prev.run.status,
+        error_message: next.run.error_message,
+      },
+    })
+  }
+
+  if (
+    prev.run.transcript !== next.run.transcript ||
+    prev.run.words_per_minute !== next.run.words_per_minute ||
+    prev.run.duration_ms !== next.run.duration_ms
+  ) {
+    events.push({
+      type: 'transcript',
+      data: {
+        transcript: next.run.transcript,
+        word_count: next.run.word_count,
+        words_per_minute: next.run.words_per_minute,
+        duration_ms: next.run.duration_ms,
+        audio_seconds: next.run.audio_seconds,
+      },
+    })
+  }
+
+  const prevAnalysis: Record<string, unknown> = prev.run.analysis_json || {}
+  const nextAnalysis: Record<string, unknown> = next.run.analysis_json || {}
+  for (const section of Object.keys(nextAnalysis)) {
+    if (changed(prevAnalysis[section], nextAnalysis[section])) {
+      events.push({ type: 'analysis', data: { section, value: nextAnalysis[section] } })
+    }
+  }
+  for (const section of Object.keys(prevAnalysis)) {
+    if (!(section in nextAnalysis)) {
+      events.push({ type: 'analysis', data: { section, value: null } })
+    }
+  }
+
+  const prevStages = prev.run.analysis_stages || {}
+  const nextStages = next.run.analysis_stages || {}
+  for (const stage of Object.keys(nextStages)) {
+    if (changed(prevStages[stage], nextStages[stage])) {
+      events.push({ type: 'stage', data: { stage, state: nextStages[stage] } })
+    }
+  }
+
+  const prevChunks = new Map(prev.chunks.map((chunk) => [chunk.id, chunk]))
+  for (const chunk of next.chunks) {
+    if (changed(prevChunks.get(chunk.id), chunk)) {
+      events.push({ type: 'chunk', data: chunk })
+    }
+  }
+
+  const prevJobs = new Map(prev.jobs.map((job) => [job.id, toEventJob(job)]))
+  for (const job of next.jobs.map(toEventJob)) {
+    if (changed(prevJobs.get(job.id), job)) {
+      events.push({ type: 'job', data: job })
+    }
+  }
+
+  return events
+}
+
+/** Serialize an event in text/event-stream format. */
+export function formatRunEvent(event: RunEvent, id: number): string {
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
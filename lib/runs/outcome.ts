@@ -0,0 +1,19 @@
+/**
+ * Result of a run pipeline step (transcription, analysis).
+ * Mirrors the JSON response the synchronous routes used to return so the
+ * same step can run inside a request or a background job.
+ */
+export interface RunTaskOutcome {
+  ok: boolean
+  status: number
+  body: Record<string, any>
+}
+
+export function taskOutcome(body: Record<string, any>, init?: { status?: number; headers?: Record<string, string> }): RunTaskOutcome {
+  const status = init?.status ?? 200
+  return {
+    ok: status < 400 && body.ok !== false,
+    status,
+    body,
+  }
+}
@@ -0,0 +1,32 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { getBuiltInPersona, parsePersona, type AudiencePersona } from '@/lib/personas'
+
+export const PERSONA_COLUMNS = 'id, name, role, description, priorities, objections, expertise, skepticism, tone, focus, created_at, updated_at'
+
+/** An audience_personas row as an AudiencePersona. */
+export function personaFromRow(row: Record<string, any>): AudiencePersona | null {
+  return parsePersona({ ...row, built_in: false })
+}
+
+/**
+ * Resolve persona_id (a built-in key, or an audience_personas id owned by userId)
+ * to the snapshot stored on the run. Returns null if it doesn't exist or isn't theirs.
+ */
+export async function resolvePersona(personaId: string, userId: string | null): Promise<AudiencePersona | null> {
+  const builtIn = getBuiltInPersona(personaId)
+  if (builtIn) return builtIn
+  if (!userId) return null
+
+  const { data: row, error } = await getSupabaseAdmin()
+    .from('audience_personas')
+    .select(PERSONA_COLUMNS)
+    .eq('id', personaId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Persona] Failed to load persona:', { personaId, error })
+    return null
+  }
+  return row ? personaFromRow(row) : null
+}
@@ -0,0 +1,19 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import type { PracticeSession } from '@/lib/practice-sessions'
+
+export const PRACTICE_SESSION_COLUMNS = 'id, session_id, user_id, title, rubric_id, rubric_snapshot_json, pitch_context, language, persona_snapshot, created_at, updated_at'
+
+/** Load a practice session by id (null if it doesn't exist). */
+export async function loadPracticeSession(id: string): Promise<PracticeSession | null> {
+  const { data: session, error } = await getSupabaseAdmin()
+    .from('practice_sessions')
+    .select(PRACTICE_SESSION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[Practice Session] Failed to load session:', { id, error })
+    return null
+  }
+  return session as PracticeSession | null
+}
@@ -0,0 +1,54 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { getLanguageProfile } from '@/lib/languages'
+import { parsePersona } from '@/lib/personas'
+import type { QAQuestionInput } from '@/lib/qa'
+
+function criterionNames(criteria: unknown): string[] {
+  if (!Array.isArray(criteria)) return []
+  return criteria
+    .map((c: any) => c?.name || c?.label)
+    .filter((name: unknown): name is string => typeof name === 'string' && name.trim().length > 0)
+}
+
+/**
+ * Question-generation input for an analyzed pitch run: its transcript, context, persona,
+ * rubric (snapshot first, then rubric_id) and the improvements its analysis found.
+ */
+export async function loadQAQuestionInput(run: {
+  transcript: string
+  pitch_context: string | null
+  language: string | null
+  rubric_id: string | null
+  rubric_snapshot_json: any
+  persona_snapshot: any
+  analysis_json: any
+}): Promise<QAQuestionInput> {
+  let rubricName: string | null = null
+  let criteria: string[] = []
+
+  if (run.rubric_snapshot_json) {
+    rubricName = run.rubric_snapshot_json.name || run.rubric_snapshot_json.title || null
+    criteria = criterionNames(run.rubric_snapshot_json.criteria)
+  } else if (run.rubric_id) {
+    const { data: rubric } = await getSupabaseAdmin()
+      .from('rubrics')
+      .select('name, title, criteria, rubric_json')
+      .eq('id', run.rubric_id)
+      .maybeSingle()
+    if (rubric) {
+      rubricName = rubric.name || rubric.title || null
+      criteria = criterionNames(rubric.rubric_json?.criteria ?? rubric.criteria)
+    }
+  }
+
+  const improvements = run.analysis_json?.summary?.top_improvements
+  return {
+    transcript: run.transcript,
+    pitchContext: run.pitch_context,
+    rubricName,
+    criteria,
+    improvements: Array.isArray(improvements) ? improvements.filter((i: unknown): i is string => typeof i === 'string') : [],
+    language: getLanguageProfile(run.language),
+    persona: parsePersona(run.persona_snapshot),
+  }
+}
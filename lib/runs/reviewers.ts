@@ -0,0 +1,108 @@
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { normalizeInviteEmail } from '@/lib/organizations'
+import type { ReceivedReviewInvite, RunReviewer } from '@/lib/comments'
+
+export const RUN_REVIEWER_COLUMNS = 'id, run_id, invited_email, user_id, invited_by, accepted_at, created_at'
+
+function toRunReviewer(row: { id: string; invited_email: string; accepted_at: string | null; created_at: string }): RunReviewer {
+  return {
+    id: row.id,
+    email: row.invited_email,
+    status: row.accepted_at ? 'accepted' : 'pending',
+    invited_at: row.created_at,
+    accepted_at: row.accepted_at,
+  }
+}
+
+/** Whether userId accepted an invite to review the run (the is_run_reviewer() policy helper). */
+export async function isRunReviewer(runId: string, userId: string): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .select('id')
+    .eq('run_id', runId)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .limit(1)
+
+  if (error) {
+    console.error('[Reviewers] Failed to check reviewer:', { runId, userId, error })
+    return false
+  }
+  return !!data && data.length > 0
+}
+
+/** A run's reviewers and pending invites, oldest first. */
+export async function listRunReviewers(runId: string): Promise<RunReviewer[]> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .select(RUN_REVIEWER_COLUMNS)
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Reviewers] Failed to list reviewers:', { runId, error })
+    throw new Error(error.message)
+  }
+  return (rows || []).map(toRunReviewer)
+}
+
+/**
+ * Insert a pending reviewer invite, or return the existing one for that email (an
+ * accepted reviewer stays accepted).
+ */
+export async function inviteRunReviewer(runId: string, email: string, invitedBy: string): Promise<RunReviewer> {
+  const invitedEmail = normalizeInviteEmail(email)
+  const { data: existing } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .select(RUN_REVIEWER_COLUMNS)
+    .eq('run_id', runId)
+    .eq('invited_email', invitedEmail)
+    .maybeSingle()
+
+  if (existing) {
+    return toRunReviewer(existing)
+  }
+
+  const { data: row, error } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .insert({ run_id: runId, invited_email: invitedEmail, invited_by: invitedBy })
+    .select(RUN_REVIEWER_COLUMNS)
+    .single()
+
+  if (error || !row) {
+    console.error('[Reviewers] Failed to invite reviewer:', { runId, error })
+    throw new Error(error?.message || 'Failed to invite reviewer')
+  }
+  return toRunReviewer(row)
+}
+
+/** Pending invites to review runs, sent to a signed-in user's email, oldest first. */
+export async function listReceivedReviewInvites(email: string | null | undefined): Promise<ReceivedReviewInvite[]> {
+  if (!email) return []
+
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('run_reviewers')
+    .select('id, run_id, invited_by, created_at, pitch_runs(title)')
+    .eq('invited_email', normalizeInviteEmail(email))
+    .is('accepted_at', null)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('[Reviewers] Failed to list received invites:', { error })
+    throw new Error(error.message)
+  }
+
+  const inviterIds = Array.from(new Set((rows || []).map(row => row.invited_by).filter(Boolean)))
+  const { data: profiles } = inviterIds.length > 0
+    ? await getSupabaseAdmin().from('user_profiles').select('user_id, email').in('user_id', inviterIds)
+    : { data: [] as Array<{ user_id: string; email: string }> }
+  const emails = new Map((profiles || []).map(profile => [profile.user_id, profile.email]))
+
+  return (rows || []).map((row: any) => ({
+    id: row.id,
+    run_id: row.run_id,
+    run_title: row.pitch_runs?.title ?? null,
+    invited_by_email: row.invited_by ? emails.get(row.invited_by) ?? null : null,
+    invited_at: row.created_at,
+  }))
+}
@@ -0,0 +1,59 @@
+import { extractPdfText, PdfParseError, type DeckSlide, type SlideMark } from '@/lib/slides'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+
+export const MAX_DECK_BYTES = 20 * 1024 * 1024 // 20MB
+// One mark per slide change; a long talk clicking back and forth stays far below this
+const MAX_SLIDE_MARKS = 2000
+
+/** Page text of a PDF deck, ready to store in pitch_runs.deck_slides */
+export function readDeckSlides(pdf: Buffer): DeckSlide[] {
+  const { pages } = extractPdfText(pdf)
+  return pages.map((text, i) => ({ index: i + 1, text }))
+}
+
+/** Slide marks posted by the practice page, dropping anything that isn't a slide of this deck */
+export function parseSlideMarks(value: unknown, slideCount: number): SlideMark[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .slice(0, MAX_SLIDE_MARKS)
+    .filter((mark): mark is SlideMark =>
+      !!mark &&
+      typeof mark === 'object' &&
+      Number.isInteger(mark.slide) &&
+      mark.slide >= 1 &&
+      mark.slide <= slideCount &&
+      typeof mark.at_ms === 'number' &&
+      Number.isFinite(mark.at_ms) &&
+      mark.at_ms >= 0
+    )
+    .map(mark => ({ slide: mark.slide, at_ms: Math.round(mark.at_ms) }))
+    .sort((a, b) => a.at_ms - b.at_ms)
+}
+
+export type DeckDownloadResult =
+  | { ok: true; slides: DeckSlide[] }
+  | { ok: false; error: string }
+
+/** Download an uploaded deck from storage and extract its slides. */
+export async function readStoredDeck(deckPath: string): Promise<DeckDownloadResult> {
+  const { data, error } = await getSupabaseAdmin().storage
+    .from('pitchpractice-audio')
+    .download(deckPath)
+
+  if (error || !data) {
+    console.warn('[Slides] Could not download deck:', { deckPath, error: error?.message })
+    return { ok: false, error: 'Deck not found in storage' }
+  }
+  if (data.size > MAX_DECK_BYTES) {
+    return { ok: false, error: `Deck exceeds maximum of ${MAX_DECK_BYTES / 1024 / 1024}MB` }
+  }
+
+  try {
+    return { ok: true, slides: readDeckSlides(Buffer.from(await data.arrayBuffer())) }
+  } catch (err) {
+    if (err instanceof PdfParseError) {
+      return { ok: false, error: err.message }
+    }
+    throw err
+  }
+}
@@ -0,0 +1,193 @@
+import type { RunChunk, TranscriptGap, TranscriptSegment, TranscriptTimings, TranscriptWord } from '@/lib/types'
+
+/**
+ * Assemble a run transcript from its checkpoint chunk transcripts.
+ *
+ * Chunks are ordered by start_ms. Where consecutive chunks overlap, words the previous
+ * chunk already covered are dropped - by word timestamps when the chunk has them, otherwise
+ * by matching the repeated words at the boundary. Untranscribed chunks and holes in the
+ * timeline become gaps, and a stitch with gaps is incomplete so the caller can fall back
+ * to transcribing the full file.
+ */
+
+// Holes shorter than this (e.g. recorder restart latency) aren't gaps
+const GAP_TOLERANCE_MS = 1500
+// Bounds the boundary search for chunks without word timings
+const MAX_WORDS_PER_SECOND = 4
+// Recent words kept for boundary matching
+const TAIL_WORDS = 64
+
+export type StitchableChunk = Pick<
+  RunChunk,
+  'chunk_index' | 'start_ms' | 'end_ms' | 'status' | 'transcript' | 'transcript_timings'
+>
+
+export interface StitchedTranscript {
+  /** Transcript text with an "[untranscribed m:ss-m:ss]" marker for each gap */
+  text: string
+  wordCount: number
+  /** Null unless every transcribed chunk has word timings */
+  timings: TranscriptTimings | null
+  gaps: TranscriptGap[]
+  /** Audio covered by transcribed chunks */
+  coveredMs: number
+  /** Whole recording covered with no gaps (requires a known duration) */
+  complete: boolean
+}
+
+type Piece = { text: string } | { gap: TranscriptGap }
+
+function round(sec: number): number {
+  return Math.round(sec * 100) / 100
+}
+
+function formatOffset(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+// Letters and digits in any script, so accented and non-Latin words compare too
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+}
+
+function tokenize(text: string): string[] {
+  return text.trim().split(/\s+/).filter(word => word.length > 0)
+}
+
+// Longest k <= maxOverlap where the last k emitted words repeat as the chunk's first k words;
+// returns how many tokens to drop. Tokens that normalize to nothing (dashes, stray punctuation)
+// are skipped rather than compared, so they never count as a match on their own.
+function findRepeatedPrefix(tail: string[], tokens: string[], maxOverlap: number): number {
+  const words: string[] = []
+  // Number of tokens up to and including each word
+  const tokenCounts: number[] = []
+  tokens.forEach((token, i) => {
+    const word = normalizeWord(token)
+    if (word) {
+      words.push(word)
+      tokenCounts.push(i + 1)
+    }
+  })
+  for (let k = Math.min(maxOverlap, tail.length, words.length); k > 0; k--) {
+    const tailSlice = tail.slice(tail.length - k)
+    if (tailSlice.every((word, i) => word === words[i])) {
+      return tokenCounts[k - 1]
+    }
+  }
+  return 0
+}
+
+/**
+ * Stitch chunk transcripts into one transcript. Returns null when the run has no chunks.
+ * durationMs is the full recording length; without it the tail can't be checked, so the
+ * result is never complete.
+ */
+export function stitchChunkTranscripts(chunks: StitchableChunk[], durationMs: number | null): StitchedTranscript | null {
+  if (chunks.length === 0) {
+    return null
+  }
+
+  const ordered = [...chunks].sort((a, b) => a.start_ms - b.start_ms || a.chunk_index - b.chunk_index)
+  const pieces: Piece[] = []
+  const gaps: TranscriptGap[] = []
+  const words: TranscriptWord[] = []
+  const segments: TranscriptSegment[] = []
+  let tail: string[] = []
+  let hasTimings = true
+  let verbatim = true
+  let wordCount = 0
+  let coveredMs = 0
+  let cursorMs = 0
+
+  const addGap = (startMs: number, endMs: number, reason: TranscriptGap['reason']) => {
+    const lastPiece = pieces[pieces.length - 1]
+    const last = lastPiece && 'gap' in lastPiece ? lastPiece.gap : null
+    if (last && last.reason === reason && startMs / 1000 - last.end <= GAP_TOLERANCE_MS / 1000) {
+      last.end = round(Math.max(last.end, endMs / 1000))
+      return
+    }
+    const gap = { start: round(startMs / 1000), end: round(endMs / 1000), reason }
+    gaps.push(gap)
+    pieces.push({ gap })
+  }
+
+  for (const chunk of ordered) {
+    if (chunk.start_ms - cursorMs > GAP_TOLERANCE_MS) {
+      addGap(cursorMs, chunk.start_ms, 'missing')
+    }
+
+    const tokens = chunk.status === 'transcribed' && chunk.transcript ? tokenize(chunk.transcript) : []
+    if (tokens.length === 0) {
+      if (chunk.end_ms > cursorMs) {
+        addGap(Math.max(cursorMs, chunk.start_ms), chunk.end_ms, 'failed')
+      }
+      cursorMs = Math.max(cursorMs, chunk.end_ms)
+      continue
+    }
+
+    const overlapMs = cursorMs - chunk.start_ms
+    const timedWords = chunk.transcript_timings?.words
+    let dropCount = 0
+
+    if (timedWords && timedWords.length > 0) {
+      const offsetSec = chunk.start_ms / 1000
+      verbatim = verbatim && !!chunk.transcript_timings?.verbatim
+      const cursorSec = cursorMs / 1000
+      const isFresh = (start: number, end: number) => (start + end) / 2 >= cursorSec
+
+      const shifted = timedWords.map(w => ({ word: w.word, start: round(w.start + offsetSec), end: round(w.end + offsetSec) }))
+      const fresh = shifted.filter(w => isFresh(w.start, w.end))
+      // Timed words and transcript tokens line up closely enough to drop the same count
+      dropCount = overlapMs > 0 ? Math.min(shifted.length - fresh.length, tokens.length) : 0
+      words.push(...fresh)
+      segments.push(
+        ...(chunk.transcript_timings?.segments || [])
+          .map(s => ({ start: round(s.start + offsetSec), end: round(s.end + offsetSec), text: s.text }))
+          .filter(s => isFresh(s.start, s.end))
+      )
+    } else {
+      hasTimings = false
+      if (overlapMs > 0) {
+        dropCount = findRepeatedPrefix(tail, tokens, Math.ceil((overlapMs / 1000) * MAX_WORDS_PER_SECOND))
+      }
+    }
+
+    const kept = tokens.slice(dropCount)
+    if (kept.length > 0) {
+      pieces.push({ text: kept.join(' ') })
+      wordCount += kept.length
+      tail = [...tail, ...kept.map(normalizeWord).filter(word => word !== '')].slice(-TAIL_WORDS)
+    }
+
+    coveredMs += Math.max(0, chunk.end_ms - Math.max(cursorMs, chunk.start_ms))
+    cursorMs = Math.max(cursorMs, chunk.end_ms)
+  }
+
+  if (durationMs !== null && durationMs - cursorMs > GAP_TOLERANCE_MS) {
+    addGap(cursorMs, durationMs, 'missing')
+  }
+
+  const text = pieces
+    .map(piece => ('gap' in piece ? `[untranscribed ${formatOffset(piece.gap.start)}-${formatOffset(piece.gap.end)}]` : piece.text))
+    .join(' ')
+
+  const timings: TranscriptTimings | null = hasTimings && wordCount > 0
+    ? {
+        words,
+        segments,
+        duration_sec: round((durationMs ?? cursorMs) / 1000),
+        ...(gaps.length > 0 ? { gaps } : {}),
+        ...(verbatim ? { verbatim: true } : {}),
+      }
+    : null
+
+  return {
+    text,
+    wordCount,
+    timings,
+    gaps,
+    coveredMs,
+    complete: gaps.length === 0 && durationMs !== null && wordCount > 0,
+  }
+}
@@ -0,0 +1,614 @@
+import { normalizeForTranscription, probeAudio, type AudioProbe } from '@/lib/audio'
+import { getSupabaseAdmin } from '@/lib/supabase/server'
+import { getTranscriptionProvider, isVerbatimTranscriptionEnabled } from '@/lib/transcription'
+import { countSpeechUnits, getLanguageProfile, type LanguageProfile } from '@/lib/languages'
+import type { TranscriptTimings } from '@/lib/types'
+import { taskOutcome, type RunTaskOutcome } from './outcome'
+import { stitchChunkTranscripts, type StitchedTranscript } from './stitch'
+
+// Words (characters for Japanese), ignoring the gap markers in stitched transcripts
+function countTranscriptUnits(text: string, profile: LanguageProfile): number {
+  return countSpeechUnits(text.replace(/\[untranscribed [^\]]*\]/g, ' '), profile)
+}
+
+function calculateWPM(wordCount: number, durationMs: number | null): number | null {
+  if (!durationMs || durationMs === 0) {
+    return null
+  }
+  // WPM = word_count / (duration_ms / 60000)
+  return Math.round(wordCount / (durationMs / 60000))
+}
+
+// Stitch the run's checkpoint chunks, or null if it has none (or they can't be loaded)
+async function loadChunkStitch(id: string, durationMs: number | null): Promise<StitchedTranscript | null> {
+  const { data: chunks, error } = await getSupabaseAdmin()
+    .from('run_chunks')
+    .select('chunk_index, start_ms, end_ms, status, transcript, transcript_timings')
+    .eq('run_id', id)
+
+  if (error) {
+    console.warn('[Transcribe] Could not load chunks, transcribing full file:', {
+      runId: id,
+      error: error.message,
+    })
+    return null
+  }
+
+  return stitchChunkTranscripts(chunks || [], durationMs)
+}
+
+async function saveStitchedTranscript(
+  id: string,
+  stitched: StitchedTranscript,
+  durationMs: number | null,
+  profile: LanguageProfile
+): Promise<RunTaskOutcome> {
+  const wordCount = countTranscriptUnits(stitched.text, profile)
+  const { data: updatedRun, error: updateError } = await getSupabaseAdmin()
+    .from('pitch_runs')
+    .update({
+      transcript: stitched.text,
+      transcript_timings: stitched.timings,
+      ...(durationMs ? { audio_seconds: durationMs / 1000 } : {}),
+      word_count: wordCount,
+      // Gaps hold no words, so pace is measured over the transcribed audio only
+      words_per_minute: calculateWPM(wordCount, stitched.coveredMs),
+      status: 'transcribed',
+      error_message: null,
+    })
+    .eq('id', id)
+    .select('*')
+    .single()
+
+  if (updateError || !updatedRun) {
+    const errorMessage = updateError?.message || 'Unknown database error'
+    console.error('[Transcribe] Database update error:', {
+      runId: id,
+      error: updateError,
+      message: errorMessage,
+    })
+    return taskOutcome(
+      {
+        ok: false,
+        transcriptLen: stitched.text.length,
+        bytesDownloaded: 0,
+        mime: null,
+        message: `Failed to save transcript: ${errorMessage}`,
+        error: 'Database update failed',
+        details: errorMessage,
+      },
+      { status: 500 }
+    )
+  }
+
+  console.log('[Transcribe] Transcript stitched from chunks:', {
+    runId: id,
+    complete: stitched.complete,
+    gaps: stitched.gaps.length,
+    coveredMs: stitched.coveredMs,
+    wordCount,
+  })
+
+  return taskOutcome({
+    ok: true,
+    run: updatedRun,
+    transcript: updatedRun.transcript,
+    transcriptLen: updatedRun.transcript?.length || 0,
+    bytesDownloaded: 0,
+    mime: null,
+    source: 'chunks',
+    gaps: stitched.gaps,
+    message: stitched.complete
+      ? 'Transcript assembled from chunk transcripts'
+      : 'Transcript assembled from chunk transcripts with gaps',
+    savedStatus: updatedRun.status,
+    savedTranscriptLen: updatedRun.transcript?.length,
+    runId: updatedRun.id,
+  })
+}
+
+/**
+ * Download a run's audio, transcribe it and save transcript, timings and WPM.
+ * Runs whose checkpoint chunks already cover the whole recording are stitched from
+ * the chunk transcripts instead; the full file is only transcribed when coverage is incomplete.
+ * Sets pitch_runs.status to 'transcribed' on success or 'error' on failure.
+ */
+export async function transcribeRun(id: string): Promise<RunTaskOutcome> {
+  const startTime = Date.now()
+
+  try {
+    // Fetch the run to get current status, transcript length, and duration_ms BEFORE doing any work
+    const { data: run, error: fetchError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .select('id, audio_path, status, transcript, duration_ms, audio_seconds, language')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !run) {
+      console.error('[Transcribe] Run not found:', {
+        runId: id,
+        error: fetchError,
+      })
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: 0,
+          bytesDownloaded: 0,
+          mime: null,
+          message: 'Run not found'
+        },
+        { status: 404 }
+      )
+    }
+
+    // Word counts and WPM use characters for languages written without spaces
+    const profile = getLanguageProfile(run.language)
+
+    // Log and return current state BEFORE doing any work
+    const transcriptLenBefore = run.transcript?.length || 0
+    const statusBefore = run.status
+    
+    console.log('[Transcribe] Starting transcription - current state:', {
+      runId: id,
+      statusBefore,
+      transcriptLenBefore,
+      willOverwrite: transcriptLenBefore > 0,
+    })
+
+    // Set status to 'transcribing' immediately
+    await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({ status: 'transcribing' })
+      .eq('id', id)
+
+    // Always proceed - no blocking behavior
+    // We will overwrite transcript, status, and clear error_message on success
+
+    // Chunked runs: reuse the checkpoint transcripts when they cover the whole recording
+    const stitched = await loadChunkStitch(id, run.duration_ms)
+    if (stitched?.complete) {
+      return saveStitchedTranscript(id, stitched, run.duration_ms, profile)
+    }
+    if (stitched) {
+      console.log('[Transcribe] Chunk coverage incomplete, transcribing full file:', {
+        runId: id,
+        coveredMs: stitched.coveredMs,
+        durationMs: run.duration_ms,
+        gaps: stitched.gaps,
+      })
+    }
+
+    // Download audio from Supabase Storage using service role key
+    console.log('[Transcribe] Downloading audio from storage:', {
+      runId: id,
+      audioPath: run.audio_path,
+      bucket: 'pitchpractice-audio',
+    })
+
+    const { data: audioData, error: downloadError } = await getSupabaseAdmin().storage
+      .from('pitchpractice-audio')
+      .download(run.audio_path)
+
+    if (downloadError || !audioData) {
+      console.error('[Transcribe] Storage download failed:', {
+        runId: id,
+        audioPath: run.audio_path,
+        error: downloadError,
+        errorMessage: downloadError?.message,
+        errorStatus: (downloadError as any)?.statusCode,
+      })
+
+      // A transcript with marked gaps beats none at all
+      if (stitched && stitched.wordCount > 0) {
+        return saveStitchedTranscript(id, stitched, run.duration_ms, profile)
+      }
+      
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({
+          status: 'error',
+          error_message: `Failed to download audio file: ${downloadError?.message || 'Unknown error'}`,
+        })
+        .eq('id', id)
+
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: 0,
+          bytesDownloaded: 0,
+          mime: null,
+          message: `Failed to download audio file: ${downloadError?.message || 'Unknown storage error'}`,
+        },
+        { status: 500 }
+      )
+    }
+
+    // Convert Blob to Buffer
+    const arrayBuffer = await audioData.arrayBuffer()
+    const audioBuffer = Buffer.from(arrayBuffer)
+    const bytes = audioBuffer.length
+
+    console.log('[Transcribe] Audio downloaded:', {
+      runId: id,
+      bytes,
+      bytesKB: (bytes / 1024).toFixed(2),
+      blobType: audioData.type,
+      blobSize: audioData.size,
+    })
+
+    // Determine file extension and MIME type
+    const fileExt = run.audio_path.split('.').pop()?.toLowerCase() || 'webm'
+    const mimeTypeMap: Record<string, string> = {
+      webm: 'audio/webm',
+      mp3: 'audio/mpeg',
+      wav: 'audio/wav',
+      m4a: 'audio/mp4',
+      ogg: 'audio/ogg',
+    }
+    
+    // Use blob.type if available, otherwise infer from extension
+    const detectedMime = audioData.type || mimeTypeMap[fileExt] || 'audio/webm'
+    const mimeType = detectedMime
+
+    console.log('[Transcribe] Audio file details:', {
+      runId: id,
+      fileExt,
+      detectedMime,
+      mimeType,
+      bytes,
+    })
+
+    // Use duration_ms from database as source of truth, fallback to audio_seconds, then probe the file
+    let audioSeconds: number | null = null
+    let probe: AudioProbe | null = null
+    if (run.duration_ms !== null && run.duration_ms > 0) {
+      // Use duration_ms as source of truth
+      audioSeconds = run.duration_ms / 1000
+      console.log('[Transcribe] Using duration_ms from database:', {
+        runId: id,
+        durationMs: run.duration_ms,
+        audioSeconds,
+      })
+    } else if (run.audio_seconds !== null && run.audio_seconds > 0) {
+      // Fallback to audio_seconds if duration_ms not available
+      audioSeconds = run.audio_seconds
+      console.log('[Transcribe] Using audio_seconds from database:', {
+        runId: id,
+        audioSeconds,
+      })
+    } else {
+      // Runs uploaded without /api/uploads/complete probing (e.g. older uploads)
+      probe = await probeAudio(audioBuffer, { fileName: run.audio_path, mimeType })
+      audioSeconds = probe.duration_ms ? probe.duration_ms / 1000 : null
+      console.log('[Transcribe] Probed audio duration:', {
+        runId: id,
+        durationMs: probe.duration_ms,
+        format: probe.format,
+        source: probe.source,
+      })
+    }
+
+    // Send the provider canonical mono audio when ffmpeg is available, otherwise the upload as-is
+    const normalized = await normalizeForTranscription(audioBuffer, { fileName: run.audio_path, mimeType })
+    const providerAudio = normalized
+      ? (normalized.audio.buffer.slice(
+          normalized.audio.byteOffset,
+          normalized.audio.byteOffset + normalized.audio.byteLength
+        ) as ArrayBuffer)
+      : arrayBuffer
+    const providerMimeType = normalized?.mimeType || mimeType
+    const providerExt = normalized?.extension || fileExt
+
+    // Transcribe with the configured speech-to-text provider
+    const provider = getTranscriptionProvider()
+    let transcript: string
+    let timings: TranscriptTimings | null = null
+    try {
+      const fileName = `${id}.${providerExt}`
+
+      console.log('[Transcribe] Calling transcription provider:', {
+        runId: id,
+        fileName,
+        fileSize: providerAudio.byteLength,
+        fileType: providerMimeType,
+        normalized: !!normalized,
+        provider: provider.name,
+        model: provider.model,
+      })
+
+      const result = await provider.transcribe({
+        audio: providerAudio,
+        fileName,
+        mimeType: providerMimeType,
+        language: profile.code,
+        withTimestamps: true,
+        verbatim: isVerbatimTranscriptionEnabled(),
+      })
+
+      transcript = result.text
+      timings = result.timings
+
+      console.log('[Transcribe] Provider response received:', {
+        runId: id,
+        provider: provider.name,
+        transcriptLength: transcript.length,
+        transcriptPreview: transcript.substring(0, 100),
+        wordTimings: timings?.words.length || 0,
+        segmentTimings: timings?.segments.length || 0,
+        durationSec: timings?.duration_sec ?? null,
+      })
+
+      // Last resort: the duration the provider reports
+      if (audioSeconds === null && timings?.duration_sec && timings.duration_sec > 0) {
+        audioSeconds = timings.duration_sec
+      }
+
+      // Validate transcript is not empty
+      if (!transcript || transcript.trim().length === 0) {
+        console.error('[Transcribe] Empty transcript returned:', {
+          runId: id,
+        })
+        
+        await getSupabaseAdmin()
+          .from('pitch_runs')
+          .update({
+            status: 'error',
+            error_message: `Empty transcript returned from ${provider.name} transcription`,
+          })
+          .eq('id', id)
+
+        return taskOutcome(
+          { 
+            ok: false,
+            transcriptLen: 0,
+            bytesDownloaded: bytes,
+            mime: mimeType,
+            message: 'The transcription provider returned an empty transcript. The audio file may be corrupted or silent.',
+          },
+          { status: 500 }
+        )
+      }
+
+    } catch (error: any) {
+      const statusCode = error?.status || error?.response?.status || 500
+      const errorMessage = error?.message || 'Unknown transcription error'
+      const errorDetails = error?.error?.message || error?.response?.data || errorMessage
+
+      console.error('[Transcribe] Transcription provider error:', {
+        runId: id,
+        statusCode,
+        errorMessage,
+        errorDetails,
+        error: JSON.stringify(error, null, 2),
+      })
+
+      if (stitched && stitched.wordCount > 0) {
+        return saveStitchedTranscript(id, stitched, run.duration_ms, profile)
+      }
+      
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({
+          status: 'error',
+          error_message: `Transcription failed (${provider.name}): ${errorMessage} (status: ${statusCode})`,
+        })
+        .eq('id', id)
+
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: 0,
+          bytesDownloaded: bytes,
+          mime: mimeType,
+          message: `Transcription failed (${provider.name}): ${errorMessage}`,
+        },
+        { status: statusCode >= 400 && statusCode < 600 ? statusCode : 500 }
+      )
+    }
+
+    // Calculate word count and WPM
+    // Use duration_ms as source of truth if available, otherwise fallback to audioSeconds
+    const durationMsForWPM = run.duration_ms || (audioSeconds ? Math.round(audioSeconds * 1000) : null)
+    const wordCount = countTranscriptUnits(transcript, profile)
+    const wpm = calculateWPM(wordCount, durationMsForWPM)
+
+    console.log('[Transcribe] Calculated metrics:', {
+      runId: id,
+      wordCount,
+      wpm,
+      audioSeconds,
+      transcriptLength: transcript.length,
+    })
+
+    // Update the run with transcript and timing data
+    // IMPORTANT: Only update status to 'transcribed' AFTER successful transcription is saved
+    // Use service role client (getSupabaseAdmin()) which bypasses RLS
+    const { data: updatedRun, error: updateError } = await getSupabaseAdmin()
+      .from('pitch_runs')
+      .update({
+        transcript,
+        transcript_timings: timings,
+        audio_seconds: audioSeconds, // Keep for backward compatibility
+        // Preserve duration_ms if it exists; only fill it from a probe of this file
+        ...(probe ? { audio_meta: probe } : {}),
+        ...(probe?.duration_ms ? { duration_ms: probe.duration_ms } : {}),
+        word_count: wordCount,
+        words_per_minute: wpm,
+        status: 'transcribed', // Status changes ONLY after successful save
+        error_message: null,
+      })
+      .eq('id', id)
+      .select('*')
+      .single()
+
+    if (updateError) {
+      const errorMessage = (updateError as any)?.message || 'Unknown database error'
+      const errorCode = (updateError as any)?.code || 'UNKNOWN'
+      
+      console.error('[Transcribe] Database update error:', {
+        runId: id,
+        error: updateError,
+        message: errorMessage,
+        code: errorCode,
+      })
+      
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: transcript.length,
+          bytesDownloaded: bytes,
+          mime: mimeType,
+          message: `Failed to save transcript: ${errorMessage}`,
+          error: 'Database update failed',
+          details: errorMessage,
+        },
+        { status: 500 }
+      )
+    }
+
+    // Verify the update succeeded
+    if (!updatedRun || !updatedRun.transcript) {
+      console.error('[Transcribe] Update succeeded but transcript missing in response:', {
+        runId: id,
+        hasUpdatedRun: !!updatedRun,
+        hasTranscript: !!updatedRun?.transcript,
+      })
+      
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: transcript.length,
+          bytesDownloaded: bytes,
+          mime: mimeType,
+          message: 'Transcript saved but verification failed',
+          error: 'Update verification failed',
+          details: 'The transcript was saved but could not be verified in the response',
+        },
+        { status: 500 }
+      )
+    }
+
+    console.log('[Transcribe] Transcript saved successfully:', {
+      runId: id,
+      status: updatedRun.status,
+      transcriptLength: updatedRun.transcript.length,
+      wordCount: updatedRun.word_count,
+      wpm: updatedRun.words_per_minute,
+    })
+
+    // Log update result for debugging
+    console.log('TRANSCRIBE UPDATE RESULT', {
+      id,
+      error: updateError,
+      saved: !!updatedRun,
+      status: updatedRun?.status,
+      transcriptLen: updatedRun?.transcript?.length,
+    })
+
+    if (updateError) {
+      const errorMessage = (updateError as any)?.message || 'Unknown database error'
+      const errorCode = (updateError as any)?.code || 'UNKNOWN'
+      
+      console.error('[Transcribe] Database update error:', {
+        runId: id,
+        error: updateError,
+        message: errorMessage,
+        code: errorCode,
+      })
+      
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: transcript.length,
+          bytesDownloaded: bytes,
+          mime: mimeType,
+          message: `Failed to save transcript: ${errorMessage}`,
+          error: 'Database update failed',
+          details: errorMessage,
+        },
+        { status: 500 }
+      )
+    }
+
+    if (!updatedRun) {
+      console.error('[Transcribe] Run not found after update:', {
+        runId: id,
+      })
+      return taskOutcome(
+        { 
+          ok: false,
+          transcriptLen: transcript.length,
+          bytesDownloaded: bytes,
+          mime: mimeType,
+          message: 'Run not found for update',
+          id,
+        },
+        { status: 404 }
+      )
+    }
+
+    const statusAfter = 'transcribed'
+    const duration = Date.now() - startTime
+    
+    console.log("UPDATED ROW TRANSCRIPT PREVIEW", updatedRun.transcript?.slice(0, 80))
+    
+    console.log('[Transcribe] Success:', {
+      runId: id,
+      transcriptLength: transcript.length,
+      wordCount,
+      wpm,
+      durationMs: duration,
+      statusBefore,
+      statusAfter,
+      savedStatus: updatedRun.status,
+      savedTranscriptLen: updatedRun.transcript?.length,
+    })
+
+    return taskOutcome({
+      ok: true,
+      run: updatedRun,
+      transcript: updatedRun.transcript,
+      transcriptLen: updatedRun.transcript?.length || 0,
+      bytesDownloaded: bytes,
+      mime: mimeType,
+      message: 'Transcription completed successfully',
+      savedStatus: updatedRun.status,
+      savedTranscriptLen: updatedRun.transcript?.length,
+      runId: updatedRun.id,
+    })
+  } catch (error: any) {
+    const duration = Date.now() - startTime
+    console.error('[Transcribe] Unexpected error:', {
+      runId: id,
+      error,
+      message: error?.message,
+      stack: error?.stack,
+      durationMs: duration,
+    })
+
+    // Try to update status to error
+    try {
+      await getSupabaseAdmin()
+        .from('pitch_runs')
+        .update({
+          status: 'error',
+          error_message: error?.message || 'Unexpected error during transcription',
+        })
+        .eq('id', id)
+    } catch (updateErr) {
+      console.error('[Transcribe] Failed to update error status:', updateErr)
+    }
+
+    return taskOutcome(
+      { 
+        ok: false,
+        transcriptLen: 0,
+        bytesDownloaded: 0,
+        mime: null,
+        message: error?.message || 'An unexpected error occurred during transcription',
+      },
+      { status: 500 }
+    )
+  }
+}
+
@@ -0,0 +1,352 @@
+import type {
+  AnalysisScript,
+  AnalysisScriptFidelity,
+  AnalysisScriptRow,
+} from '@/lib/analysis'
+import type { LanguageProfile } from '@/lib/languages'
+
+/**
+ * Compare a run's transcript with the script it was rehearsed from.
+ *
+ * The two texts are aligned word by word (longest common subsequence on loosely stemmed
+ * words, fillers ignored). Each script passage (sentence or line) is then classified by
+ * how much of it was said in place; transcript stretches no passage accounts for are
+ * ad-libs, unless they closely match a passage that was skipped at its own position, in
+ * which case that passage was said out of order.
+ */
+
+export const MAX_SCRIPT_CHARS = 50_000
+// Alignment is quadratic; longer texts are compared up to this many words each
+export const MAX_TOKENS = 6000
+// Similarity between a passage and what was said for it, for each fidelity level
+const VERBATIM_SIMILARITY = 0.9
+const CLOSE_SIMILARITY = 0.6
+// Share of a passage's words that must be said close together for it to count as said in place
+const PARAPHRASE_COVERAGE = 0.3
+// Word-bag similarity for an off-position stretch to count as a passage said elsewhere,
+// and (lower) for a stretch in the passage's own place to count as a loose paraphrase
+const REORDER_SIMILARITY = 0.5
+const IN_PLACE_SIMILARITY = 0.3
+// Shorter unaccounted stretches are connective words, not ad-libs
+const MIN_AD_LIB_TOKENS = 4
+
+export interface Token {
+  /** Normalized form compared during alignment */
+  key: string
+  start: number
+  end: number
+}
+
+interface Passage {
+  text: string
+  /** Token range in the script, [first, last) */
+  first: number
+  last: number
+}
+
+function stem(word: string): string {
+  // Crude but language-agnostic: "customers"/"customer", "hiring"/"hire" share a prefix
+  return word.length > 5 ? word.slice(0, 5) : word
+}
+
+export function tokenize(text: string, language: LanguageProfile): Token[] {
+  const tokens: Token[] = []
+  if (language.pacing.unit === 'characters') {
+    for (const match of text.matchAll(/[\p{L}\p{N}]/gu)) {
+      tokens.push({ key: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length })
+    }
+    return tokens
+  }
+
+  const fillers = new Set(language.fillerWords.filter(filler => !/\s/.test(filler)))
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)) {
+    const word = match[0].toLowerCase()
+    if (fillers.has(word)) continue
+    tokens.push({ key: stem(word), start: match.index!, end: match.index! + match[0].length })
+  }
+  return tokens
+}
+
+/** Sentences and lines of the script, with their token ranges. */
+function splitPassages(script: string, tokens: Token[]): Passage[] {
+  const passages: Passage[] = []
+  let tokenIndex = 0
+  const pattern = /[^\n.!?。！？]+[.!?。！？]*/g
+  for (const match of script.matchAll(pattern)) {
+    const start = match.index!
+    const end = start + match[0].length
+    const first = tokenIndex
+    while (tokenIndex < tokens.length && tokens[tokenIndex].start < end) tokenIndex++
+    if (tokenIndex > first && match[0].trim().length > 0) {
+      passages.push({ text: match[0].trim(), first, last: tokenIndex })
+    }
+  }
+  return passages
+}
+
+/**
+ * Longest common subsequence of two token lists; returns, for each script token, the
+ * index of the transcript token it was matched to (or -1).
+ */
+export function alignTokens(script: Token[], spoken: Token[]): Int32Array {
+  const n = script.length
+  const m = spoken.length
+  const matchOf = new Int32Array(n).fill(-1)
+  if (n === 0 || m === 0) return matchOf
+
+  // Directions packed 4 per byte: 0 = diagonal (match), 1 = up, 2 = left
+  const directions = new Uint8Array(Math.ceil((n * m) / 4))
+  let previous = new Uint16Array(m + 1)
+  let current = new Uint16Array(m + 1)
+  for (let i = 1; i <= n; i++) {
+    const key = script[i - 1].key
+    for (let j = 1; j <= m; j++) {
+      let direction: number
+      if (key === spoken[j - 1].key) {
+        current[j] = previous[j - 1] + 1
+        direction = 0
+      } else if (previous[j] >= current[j - 1]) {
+        current[j] = previous[j]
+        direction = 1
+      } else {
+        current[j] = current[j - 1]
+        direction = 2
+      }
+      const cell = (i - 1) * m + (j - 1)
+      directions[cell >> 2] |= direction << ((cell & 3) * 2)
+    }
+    ;[previous, current] = [current, previous]
+  }
+
+  let i = n
+  let j = m
+  while (i > 0 && j > 0) {
+    const cell = (i - 1) * m + (j - 1)
+    const direction = (directions[cell >> 2] >> ((cell & 3) * 2)) & 3
+    if (direction === 0) {
+      matchOf[i - 1] = j - 1
+      i--
+      j--
+    } else if (direction === 1) {
+      i--
+    } else {
+      j--
+    }
+  }
+  return matchOf
+}
+
+/** Dice similarity of two word bags, 0-1 */
+export function bagSimilarity(a: Token[], b: Token[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const counts = new Map<string, number>()
+  a.forEach(token => counts.set(token.key, (counts.get(token.key) || 0) + 1))
+  let shared = 0
+  b.forEach(token => {
+    const count = counts.get(token.key) || 0
+    if (count > 0) {
+      shared++
+      counts.set(token.key, count - 1)
+    }
+  })
+  return (2 * shared) / (a.length + b.length)
+}
+
+function fidelityFor(similarity: number): AnalysisScriptFidelity {
+  if (similarity >= VERBATIM_SIMILARITY) return 'verbatim'
+  if (similarity >= CLOSE_SIMILARITY) return 'close'
+  return 'paraphrased'
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+export function compareScript(script: string, transcript: string, language: LanguageProfile): AnalysisScript {
+  const allScriptTokens = tokenize(script, language)
+  const allSpokenTokens = tokenize(transcript, language)
+  const truncated = allScriptTokens.length > MAX_TOKENS || allSpokenTokens.length > MAX_TOKENS
+  const scriptTokens = allScriptTokens.slice(0, MAX_TOKENS)
+  const spokenTokens = allSpokenTokens.slice(0, MAX_TOKENS)
+  const passages = splitPassages(script, scriptTokens)
+  const matchOf = alignTokens(scriptTokens, spokenTokens)
+  const spokenText = (first: number, last: number) =>
+    transcript.slice(spokenTokens[first].start, spokenTokens[last - 1].end).trim()
+
+  // Passages said in place: the densest cluster of their matched words in the transcript
+  // (common words the alignment matched far away are coincidence, not the passage)
+  const spans = passages.map(passage => {
+    const matched: number[] = []
+    for (let i = passage.first; i < passage.last; i++) {
+      if (matchOf[i] >= 0) matched.push(matchOf[i])
+    }
+    const size = passage.last - passage.first
+    const maxWidth = Math.ceil(size * 1.5) + 3
+    let best: { first: number; last: number; count: number } | null = null
+    for (let a = 0, b = 0; b < matched.length; b++) {
+      while (matched[b] - matched[a] + 1 > maxWidth) a++
+      if (!best || b - a + 1 > best.count) best = { first: matched[a], last: matched[b] + 1, count: b - a + 1 }
+    }
+    if (!best || best.count / size < PARAPHRASE_COVERAGE) return null
+    // Dice over the passage and what was said for it: extra words lower it as well as missing ones
+    return { ...best, similarity: (2 * best.count) / (size + best.last - best.first) }
+  })
+
+  const claimed = new Uint8Array(spokenTokens.length)
+  spans.forEach(span => {
+    if (span) claimed.fill(1, span.first, span.last)
+  })
+
+  // Transcript stretches no in-place passage accounts for, split at sentence ends
+  const sentenceBreak = (j: number) => /[.!?。！？]/.test(transcript.slice(spokenTokens[j - 1].end, spokenTokens[j].start))
+  const stretches: Array<{ first: number; last: number }> = []
+  for (let j = 0; j < spokenTokens.length; j++) {
+    if (claimed[j]) continue
+    const first = j
+    j++
+    while (j < spokenTokens.length && !claimed[j] && !sentenceBreak(j)) j++
+    if (j - first >= MIN_AD_LIB_TOKENS) stretches.push({ first, last: j })
+    j--
+  }
+
+  // Passages that weren't said in place: a loose paraphrase where they belonged, said
+  // elsewhere (reordered), or skipped
+  const usedStretches = new Set<number>()
+  const placement: Array<{ kind: 'paraphrase' | 'reordered'; stretch: number; similarity: number } | null> =
+    passages.map(() => null)
+  passages.forEach((passage, p) => {
+    if (spans[p]) return
+    const passageTokens = scriptTokens.slice(passage.first, passage.last)
+    const before = spans.slice(0, p).reverse().find(Boolean)
+    const after = spans.slice(p + 1).find(Boolean)
+    let best: { stretch: number; similarity: number; inPlace: boolean } | null = null
+    stretches.forEach((stretch, s) => {
+      if (usedStretches.has(s)) return
+      const similarity = bagSimilarity(passageTokens, spokenTokens.slice(stretch.first, stretch.last))
+      const inPlace = (!before || stretch.first >= before.last) && (!after || stretch.last <= after.first)
+      const threshold = inPlace ? IN_PLACE_SIMILARITY : REORDER_SIMILARITY
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { stretch: s, similarity, inPlace }
+      }
+    })
+    if (best) {
+      const { stretch, similarity, inPlace } = best
+      usedStretches.add(stretch)
+      placement[p] = { kind: inPlace ? 'paraphrase' : 'reordered', stretch, similarity }
+    }
+  })
+
+  // Rows in the order things were said; skipped passages follow the passage before them
+  const keyed: Array<{ key: number; row: AnalysisScriptRow }> = []
+  let lastKey = -1
+  passages.forEach((passage, p) => {
+    const span = spans[p]
+    const placed = placement[p]
+    if (span) {
+      lastKey = span.first
+      keyed.push({
+        key: span.first,
+        row: {
+          type: 'match',
+          script_index: p,
+          script_text: passage.text,
+          transcript_text: spokenText(span.first, span.last),
+          fidelity: fidelityFor(span.similarity),
+          similarity: Math.round(span.similarity * 100),
+        },
+      })
+    } else if (placed) {
+      const stretch = stretches[placed.stretch]
+      if (placed.kind === 'paraphrase') lastKey = stretch.first
+      keyed.push({
+        key: stretch.first,
+        row: {
+          type: placed.kind === 'paraphrase' ? 'match' : 'reordered',
+          script_index: p,
+          script_text: passage.text,
+          transcript_text: spokenText(stretch.first, stretch.last),
+          // Matched by word bag only, so an in-place match is at best a paraphrase
+          fidelity: placed.kind === 'paraphrase' ? 'paraphrased' : fidelityFor(placed.similarity),
+          similarity: Math.round(placed.similarity * 100),
+        },
+      })
+    } else {
+      keyed.push({
+        key: lastKey + 0.5 + p / (passages.length + 1) / 2,
+        row: {
+          type: 'skipped',
+          script_index: p,
+          script_text: passage.text,
+          transcript_text: null,
+          fidelity: null,
+          similarity: null,
+        },
+      })
+    }
+  })
+  stretches.forEach((stretch, s) => {
+    if (usedStretches.has(s)) return
+    keyed.push({
+      key: stretch.first,
+      row: {
+        type: 'ad_lib',
+        script_index: null,
+        script_text: null,
+        transcript_text: spokenText(stretch.first, stretch.last),
+        fidelity: null,
+        similarity: null,
+      },
+    })
+  })
+  const rows = keyed.sort((a, b) => a.key - b.key).map(item => item.row)
+
+  // Totals, weighted by passage length
+  const passageSize = (index: number) => passages[index].last - passages[index].first
+  const delivered = rows.filter(row => row.script_index !== null && row.type !== 'skipped')
+  const deliveredWords = delivered.reduce((sum, row) => sum + passageSize(row.script_index!), 0)
+  const inOrderWords = spans.reduce((sum, span) => sum + (span ? span.count : 0), 0)
+  const totalWords = scriptTokens.length
+  const counts = {
+    verbatim: rows.filter(row => row.type === 'match' && row.fidelity === 'verbatim').length,
+    close: rows.filter(row => row.type === 'match' && row.fidelity === 'close').length,
+    paraphrased: rows.filter(row => row.type === 'match' && row.fidelity === 'paraphrased').length,
+    skipped: rows.filter(row => row.type === 'skipped').length,
+    reordered: rows.filter(row => row.type === 'reordered').length,
+    ad_libs: rows.filter(row => row.type === 'ad_lib').length,
+  }
+  const coveragePct = totalWords > 0 ? Math.round((deliveredWords / totalWords) * 100) : 0
+  const fidelityPct = deliveredWords > 0
+    ? Math.round(delivered.reduce((sum, row) => sum + (row.similarity || 0) * passageSize(row.script_index!), 0) / deliveredWords)
+    : null
+
+  const notes: string[] = []
+  if (passages.length > 0) {
+    notes.push(`You delivered ${coveragePct}% of the script (${delivered.length} of ${plural(passages.length, 'passage')}).`)
+  }
+  if (counts.skipped > 0) notes.push(`Skipped ${plural(counts.skipped, 'passage')} - rehearse those transitions.`)
+  if (counts.reordered > 0) notes.push(`Said ${plural(counts.reordered, 'passage')} out of order.`)
+  if (counts.ad_libs > 0) {
+    const adLibWords = rows
+      .filter(row => row.type === 'ad_lib')
+      .reduce((sum, row) => sum + tokenize(row.transcript_text || '', language).length, 0)
+    const unit = language.pacing.unit === 'characters' ? 'characters' : 'words'
+    notes.push(`Ad-libbed ${counts.ad_libs === 1 ? 'once' : `${counts.ad_libs} times`} (${adLibWords} ${unit} not in the script).`)
+  }
+  if (counts.paraphrased > counts.verbatim + counts.close && counts.paraphrased > 0) {
+    notes.push('Most passages were paraphrased rather than said as written.')
+  }
+  if (truncated) {
+    notes.push(`Only the first ${MAX_TOKENS} words of the script and transcript were compared.`)
+  }
+
+  return {
+    script_word_count: allScriptTokens.length,
+    passage_count: passages.length,
+    coverage_pct: coveragePct,
+    verbatim_pct: totalWords > 0 ? Math.round((inOrderWords / totalWords) * 100) : 0,
+    fidelity_pct: fidelityPct,
+    counts,
+    rows,
+    notes,
+  }
+}
@@ -0,0 +1 @@
+export { compareScript, MAX_SCRIPT_CHARS } from './compare'
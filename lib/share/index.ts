@@ -0,0 +1,4 @@
+export { buildSharedRun, createShareToken, isShareScope, shareLinkStatus } from './links'
+export type { ShareableRun } from './links'
+export { MAX_SHARE_EXPIRY_DAYS, SHARE_SCOPES } from './types'
+export type { RunShareLink, ShareLinkStatus, ShareScope, SharedRun } from './types'
@@ -0,0 +1,107 @@
+import { randomBytes } from 'crypto'
+import type { AnalysisJson } from '@/lib/analysis'
+import { SHARE_SCOPES, type RunShareLink, type ShareLinkStatus, type ShareScope, type SharedRun } from './types'
+
+export function isShareScope(value: unknown): value is ShareScope {
+  return typeof value === 'string' && (SHARE_SCOPES as readonly string[]).includes(value)
+}
+
+/** An unguessable URL-safe token (192 bits) */
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+export function shareLinkStatus(link: Pick<RunShareLink, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked'
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now.getTime()) return 'expired'
+  return 'active'
+}
+
+/** The fields of a pitch_runs row a share link can expose */
+export interface ShareableRun {
+  title: string | null
+  created_at: string
+  language: string | null
+  duration_ms: number | null
+  audio_seconds: number | null
+  word_count: number | null
+  words_per_minute: number | null
+  pitch_context: string | null
+  transcript: string | null
+  analysis_json: AnalysisJson | null
+  persona_snapshot: { name?: string } | null
+  rubric_snapshot_json: { name?: string; title?: string } | null
+  rubrics: { name?: string; title?: string } | null
+}
+
+// The pacing note names the word spoken before the longest pause (lib/runs/analyze.ts)
+const LONGEST_PAUSE_QUOTE = /The longest \(([\d.]+)s\) came after "[^"]*"\./
+
+function pauseNotesWithoutQuote(notes: string): string {
+  const rewritten = notes.replace(LONGEST_PAUSE_QUOTE, 'The longest was $1s.')
+  // Drop any other wording that still quotes the speaker
+  return rewritten.includes('"') ? '' : rewritten
+}
+
+/**
+ * The analysis without anything quoting the speaker or the reference script, for
+ * feedback-only links: chunk text, quotes and evidence are blanked, script rows,
+ * filler examples and spoken slide terms emptied, the pause note no longer names
+ * a word, and the quote-anchored pause and cut suggestions dropped.
+ */
+function withoutTranscript(analysis: AnalysisJson): AnalysisJson {
+  const { pause_suggestions, cut_suggestions, ...rest } = analysis
+  return {
+    ...rest,
+    rubric_scores: rest.rubric_scores?.map(score => ({ ...score, evidence_quotes: [] })),
+    question_grading: rest.question_grading?.map(grade => ({ ...grade, evidence_quotes: [] })),
+    chunks: rest.chunks?.map(chunk => ({ ...chunk, text: '' })),
+    line_by_line: rest.line_by_line?.map(item => ({ ...item, quote: '' })),
+    premium_insights: rest.premium_insights && {
+      ...rest.premium_insights,
+      filler_words: {
+        ...rest.premium_insights.filler_words,
+        by_word: rest.premium_insights.filler_words.by_word.map(entry => ({ ...entry, examples: [] })),
+        top_sentences: undefined,
+      },
+      pacing: {
+        ...rest.premium_insights.pacing,
+        pauses: {
+          ...rest.premium_insights.pacing.pauses,
+          notes: pauseNotesWithoutQuote(rest.premium_insights.pacing.pauses.notes),
+        },
+      },
+    },
+    slides: rest.slides && {
+      ...rest.slides,
+      slides: rest.slides.slides.map(slide => ({ ...slide, matched_terms: [] })),
+    },
+    script: rest.script && { ...rest.script, rows: [] },
+    qa_grade: rest.qa_grade && { ...rest.qa_grade, evidence_quotes: [] },
+    audience_reaction: rest.audience_reaction && {
+      ...rest.audience_reaction,
+      moments: rest.audience_reaction.moments.map(moment => ({ ...moment, quote: '' })),
+    },
+  }
+}
+
+/** Cut a run down to what the link's scope and redaction allow (audio_url is filled in by the caller). */
+export function buildSharedRun(run: ShareableRun, link: Pick<RunShareLink, 'scope' | 'redact_context'>): SharedRun {
+  const rubric = run.rubrics || run.rubric_snapshot_json
+  return {
+    scope: link.scope,
+    title: run.title,
+    created_at: run.created_at,
+    language: run.language,
+    duration_ms: run.duration_ms,
+    audio_seconds: run.audio_seconds,
+    word_count: run.word_count,
+    words_per_minute: run.words_per_minute,
+    rubric_name: rubric?.name || rubric?.title || null,
+    persona_name: run.persona_snapshot?.name || null,
+    pitch_context: link.redact_context ? null : run.pitch_context,
+    transcript: link.scope === 'feedback' ? null : run.transcript,
+    analysis_json: link.scope === 'feedback' && run.analysis_json ? withoutTranscript(run.analysis_json) : run.analysis_json,
+    audio_url: null,
+  }
+}
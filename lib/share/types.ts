@@ -0,0 +1,49 @@
+import type { AnalysisJson } from '@/lib/analysis'
+
+/**
+ * Public share links for a run (run_share_links, migration 034). What a viewer sees grows
+ * with the scope: feedback (the analysis), transcript (+ the transcript), full (+ the audio).
+ */
+export const SHARE_SCOPES = ['feedback', 'transcript', 'full'] as const
+export type ShareScope = (typeof SHARE_SCOPES)[number]
+
+export const MAX_SHARE_EXPIRY_DAYS = 90
+
+/** A run_share_links row */
+export interface RunShareLink {
+  id: string
+  run_id: string
+  token: string
+  scope: ShareScope
+  redact_context: boolean
+  expires_at: string | null
+  revoked_at: string | null
+  view_count: number
+  last_viewed_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked'
+
+/** The read-only view of a run served at /share/<token> */
+export interface SharedRun {
+  scope: ShareScope
+  title: string | null
+  created_at: string
+  language: string | null
+  duration_ms: number | null
+  audio_seconds: number | null
+  word_count: number | null
+  words_per_minute: number | null
+  rubric_name: string | null
+  persona_name: string | null
+  /** null when the link redacts it (or the run has none) */
+  pitch_context: string | null
+  /** transcript and full scopes only */
+  transcript: string | null
+  /** feedback scope: without quotes of the transcript or script */
+  analysis_json: AnalysisJson | null
+  /** full scope only; a short-lived signed URL */
+  audio_url: string | null
+}
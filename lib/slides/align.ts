@@ -0,0 +1,214 @@
+import type { AnalysisSlide, AnalysisSlideAllocation, AnalysisSlides } from '@/lib/analysis'
+import type { LanguageProfile } from '@/lib/languages'
+import type { TranscriptWord } from '@/lib/types'
+
+/**
+ * Align a recording with its slide deck: how long each slide was on screen, and whether
+ * what was said while it was up covers the slide's own text.
+ */
+
+/** Slide shown from at_ms (recording time, excluding pauses) until the next mark */
+export interface SlideMark {
+  slide: number
+  at_ms: number
+}
+
+export interface DeckSlide {
+  /** 1-based page number */
+  index: number
+  text: string
+}
+
+export interface SlideAlignmentInput {
+  slides: DeckSlide[]
+  marks: SlideMark[]
+  durationSec: number
+  transcript: string
+  /** Word timestamps; without them speech is spread evenly over the recording */
+  words: TranscriptWord[] | null
+  language: LanguageProfile
+}
+
+// Below this many seconds a slide was clicked past rather than presented
+const SKIPPED_SEC = 2
+const RUSHED_SHARE = 0.4
+const LONG_SHARE = 2.5
+const MAX_TERMS = 25
+const LOW_MATCH = 40
+const MAX_NOTE_TERMS = 4
+
+// Common English words that say nothing about a slide's content
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'because', 'been', 'before', 'being', 'between', 'both', 'could', 'does', 'each',
+  'from', 'have', 'here', 'into', 'just', 'more', 'most', 'other', 'only', 'over', 'same', 'should', 'some',
+  'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through',
+  'very', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your', 'page', 'slide',
+])
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.round(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}'’.-]*[\p{L}\p{N}]|[\p{L}\p{N}]/gu) || []
+}
+
+/**
+ * Key terms of a slide: content words (4+ letters, or anything with a digit) for
+ * space-separated languages, character pairs for languages written without spaces.
+ */
+function slideTerms(text: string, language: LanguageProfile): string[] {
+  if (language.pacing.unit === 'characters') {
+    const terms = new Set<string>()
+    for (const run of text.match(/[\p{L}\p{N}]+/gu) || []) {
+      for (let i = 0; i + 2 <= run.length; i += 2) terms.add(run.slice(i, i + 2))
+    }
+    return Array.from(terms).slice(0, MAX_TERMS)
+  }
+  const terms = new Set<string>()
+  for (const word of words(text)) {
+    const term = word.replace(/[.'’-]+$/, '')
+    if (/\d/.test(term) || (term.length >= 4 && !STOPWORDS.has(term))) terms.add(term)
+  }
+  return Array.from(terms).slice(0, MAX_TERMS)
+}
+
+function isSaid(term: string, spoken: string[], spokenText: string, language: LanguageProfile): boolean {
+  if (language.pacing.unit === 'characters') return spokenText.includes(term)
+  // Digits are compared without separators ("2,000" vs "2000")
+  if (/\d/.test(term)) {
+    const digits = term.replace(/[^\p{L}\p{N}]/gu, '')
+    return spoken.some(word => word.replace(/[^\p{L}\p{N}]/gu, '') === digits)
+  }
+  // Shared stem: "hiring" matches "hire", "customers" matches "customer"
+  const stem = term.slice(0, Math.max(4, term.length - 3))
+  return spoken.some(word => word.startsWith(stem) || (word.length >= 4 && term.startsWith(word)))
+}
+
+/** Consecutive, non-overlapping visits from the recorded marks. */
+export function slideVisits(marks: SlideMark[], slideCount: number, durationSec: number) {
+  const sorted = marks
+    .filter(mark => mark.slide >= 1 && mark.slide <= slideCount && mark.at_ms >= 0)
+    .sort((a, b) => a.at_ms - b.at_ms)
+  // Recording starts on the first slide unless a mark says otherwise
+  if (sorted.length === 0 || sorted[0].at_ms > 0) sorted.unshift({ slide: 1, at_ms: 0 })
+
+  const visits: Array<{ slide: number; start_sec: number; end_sec: number }> = []
+  sorted.forEach((mark, i) => {
+    const start = Math.min(mark.at_ms / 1000, durationSec)
+    const end = Math.min(i + 1 < sorted.length ? sorted[i + 1].at_ms / 1000 : durationSec, durationSec)
+    if (end <= start) return
+    const last = visits[visits.length - 1]
+    if (last && last.slide === mark.slide) {
+      last.end_sec = end
+    } else {
+      visits.push({ slide: mark.slide, start_sec: start, end_sec: end })
+    }
+  })
+  return visits
+}
+
+function allocationNote(allocation: AnalysisSlideAllocation, timeSec: number, averageSec: number): string {
+  switch (allocation) {
+    case 'skipped':
+      return 'Skipped - present it or cut it from the deck.'
+    case 'rushed':
+      return `Only ${formatSeconds(timeSec)} on this slide (average ${formatSeconds(averageSec)}) - give it time to land or merge it.`
+    case 'long':
+      return `${formatSeconds(timeSec)} on this slide, ${round1(timeSec / averageSec)}x your average - tighten it or split it.`
+    default:
+      return ''
+  }
+}
+
+export function alignSlides(input: SlideAlignmentInput): AnalysisSlides {
+  const { slides, language } = input
+  const durationSec = Math.max(0, input.durationSec)
+  const visits = slideVisits(input.marks, slides.length, durationSec)
+
+  // Place each spoken word in time
+  const spokenWords: Array<{ word: string; t: number }> = input.words && input.words.length > 0
+    ? input.words.map(word => ({ word: word.word, t: (word.start + word.end) / 2 }))
+    : (() => {
+      const all = input.transcript.trim().split(/\s+/).filter(Boolean)
+      return all.map((word, i) => ({ word, t: ((i + 0.5) / all.length) * durationSec }))
+    })()
+
+  const presented = new Set(visits.map(visit => visit.slide))
+  const timeBySlide = new Map<number, number>()
+  visits.forEach(visit => timeBySlide.set(visit.slide, (timeBySlide.get(visit.slide) || 0) + visit.end_sec - visit.start_sec))
+  const averageSec = presented.size > 0 ? durationSec / presented.size : 0
+
+  const results: AnalysisSlide[] = slides.map(deckSlide => {
+    const slideVisitList = visits.filter(visit => visit.slide === deckSlide.index)
+    const timeSec = timeBySlide.get(deckSlide.index) || 0
+    const allocation: AnalysisSlideAllocation = timeSec < SKIPPED_SEC ? 'skipped'
+      : timeSec < averageSec * RUSHED_SHARE ? 'rushed'
+      : timeSec > averageSec * LONG_SHARE ? 'long'
+      : 'balanced'
+
+    const spokenText = spokenWords
+      .filter(({ t }) => slideVisitList.some(visit => t >= visit.start_sec && t < visit.end_sec))
+      .map(({ word }) => word)
+      .join(' ')
+    const spoken = words(spokenText)
+    const terms = slideTerms(deckSlide.text, language)
+    const matched = terms.filter(term => isSaid(term, spoken, spokenText.toLowerCase(), language))
+    const missed = terms.filter(term => !matched.includes(term))
+    const matchScore = terms.length >= 2 && allocation !== 'skipped'
+      ? Math.round((matched.length / terms.length) * 100)
+      : null
+
+    const notes = [allocationNote(allocation, timeSec, averageSec)]
+    if (matchScore !== null && matchScore < LOW_MATCH && language.pacing.unit !== 'characters') {
+      notes.push(`You didn't mention: ${missed.slice(0, MAX_NOTE_TERMS).join(', ')}.`)
+    } else if (matchScore !== null && matchScore < LOW_MATCH) {
+      notes.push('What you said here drifted from the slide text.')
+    }
+
+    const title = deckSlide.text.split('\n').map(line => line.trim()).find(line => line.length > 0) || null
+    return {
+      slide: deckSlide.index,
+      title: title ? title.slice(0, 80) : null,
+      time_sec: round1(timeSec),
+      share_pct: durationSec > 0 ? Math.round((timeSec / durationSec) * 100) : 0,
+      visits: slideVisitList.length,
+      allocation,
+      match_score: matchScore,
+      matched_terms: matched,
+      missed_terms: missed,
+      note: notes.filter(Boolean).join(' '),
+    }
+  })
+
+  const notes: string[] = []
+  const skipped = results.filter(slide => slide.allocation === 'skipped')
+  const rushed = results.filter(slide => slide.allocation === 'rushed')
+  const long = results.filter(slide => slide.allocation === 'long')
+  const listSlides = (list: AnalysisSlide[]) => list.map(slide => slide.slide).join(', ')
+  if (skipped.length > 0) notes.push(`Skipped slide${skipped.length === 1 ? '' : 's'} ${listSlides(skipped)}.`)
+  if (rushed.length > 0) notes.push(`Rushed through slide${rushed.length === 1 ? '' : 's'} ${listSlides(rushed)}.`)
+  if (long.length > 0) notes.push(`Spent much longer than average on slide${long.length === 1 ? '' : 's'} ${listSlides(long)}.`)
+  const scored = results.filter(slide => slide.match_score !== null)
+  if (scored.length > 0) {
+    const averageMatch = Math.round(scored.reduce((sum, slide) => sum + slide.match_score!, 0) / scored.length)
+    notes.push(`On average you covered ${averageMatch}% of each slide's key points while it was shown.`)
+  }
+  if (!(input.words && input.words.length > 0)) {
+    notes.push('No word timings for this run, so speech was matched to slides by position in the transcript.')
+  }
+
+  return {
+    slide_count: slides.length,
+    duration_sec: round1(durationSec),
+    timing_source: input.words && input.words.length > 0 ? 'word_timings' : 'estimated',
+    timeline: visits.map(visit => ({ slide: visit.slide, start_sec: round1(visit.start_sec), end_sec: round1(visit.end_sec) })),
+    slides: results,
+    notes,
+  }
+}
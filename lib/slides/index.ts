@@ -0,0 +1,6 @@
+export { alignSlides, slideVisits } from './align'
+export type { DeckSlide, SlideAlignmentInput, SlideMark } from './align'
+export { extractPdfText, PdfParseError } from './pdf'
+export type { PdfText } from './pdf'
+export { createSlideTracker } from './tracker'
+export type { SlideTracker } from './tracker'
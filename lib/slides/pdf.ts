@@ -0,0 +1,574 @@
+import { inflateSync } from 'zlib'
+
+/**
+ * Minimal PDF text extraction for slide decks, without a PDF library.
+ *
+ * Reads every indirect object (including those packed in object streams), walks the
+ * page tree in order and pulls the text drawn by each page's content streams. Fonts
+ * with a ToUnicode map are decoded through it; other strings are read as Latin-1,
+ * which covers the simple fonts exported by PowerPoint, Keynote and Google Slides.
+ * Only FlateDecode streams are supported and encrypted files are rejected.
+ */
+
+export interface PdfText {
+  pageCount: number
+  /** Text of each page, in page order */
+  pages: string[]
+}
+
+export class PdfParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PdfParseError'
+  }
+}
+
+interface PdfRef { ref: string }
+interface PdfString { bytes: string }
+interface PdfName { name: string }
+type PdfDict = { [key: string]: PdfValue }
+type PdfValue = number | boolean | null | PdfRef | PdfString | PdfName | PdfValue[] | PdfDict | { op: string }
+
+interface PdfObject {
+  value: PdfValue
+  /** Raw (still encoded) stream data, when the object is a stream */
+  stream?: string
+}
+
+const MAX_PAGES = 500
+// Decompressed size limits: one stream, and all streams of a document together (a small
+// FlateDecode stream can inflate to gigabytes)
+const MAX_STREAM_BYTES = 16 * 1024 * 1024
+const MAX_DECODED_BYTES = 64 * 1024 * 1024
+
+// --- Lexing ---------------------------------------------------------------
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' '])
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%'])
+
+class Lexer {
+  constructor(readonly src: string, public pos = 0) {}
+
+  private skipSpace() {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos]
+      if (WHITESPACE.has(c)) {
+        this.pos++
+      } else if (c === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) this.pos++
+    return this.src.slice(start, this.pos)
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos++ // (
+    let depth = 1
+    let out = ''
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos++]
+      if (c === '\\') {
+        const e = this.src[this.pos++]
+        if (e === 'n') out += '\n'
+        else if (e === 'r') out += '\r'
+        else if (e === 't') out += '\t'
+        else if (e === 'b') out += '\b'
+        else if (e === 'f') out += '\f'
+        else if (e === '\r') { if (this.src[this.pos] === '\n') this.pos++ }
+        else if (e === '\n') { /* line continuation */ }
+        else if (e >= '0' && e <= '7') {
+          let octal = e
+          while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') octal += this.src[this.pos++]
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff)
+        } else out += e
+      } else if (c === '(') {
+        depth++
+        out += c
+      } else if (c === ')') {
+        if (--depth === 0) break
+        out += c
+      } else {
+        out += c
+      }
+    }
+    return { bytes: out }
+  }
+
+  private readHexString(): PdfString {
+    this.pos++ // <
+    const end = this.src.indexOf('>', this.pos)
+    const hex = this.src.slice(this.pos, end < 0 ? this.src.length : end).replace(/[^0-9a-fA-F]/g, '')
+    this.pos = end < 0 ? this.src.length : end + 1
+    let out = ''
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16))
+    }
+    return { bytes: out }
+  }
+
+  /** Next token: a primitive value, a structural marker, or an operator/keyword */
+  next(): PdfValue | '[' | ']' | '<<' | '>>' | undefined {
+    this.skipSpace()
+    if (this.pos >= this.src.length) return undefined
+    const c = this.src[this.pos]
+    if (c === '(') return this.readLiteralString()
+    if (c === '<') {
+      if (this.src[this.pos + 1] === '<') {
+        this.pos += 2
+        return '<<'
+      }
+      return this.readHexString()
+    }
+    if (c === '>') {
+      this.pos += this.src[this.pos + 1] === '>' ? 2 : 1
+      return '>>'
+    }
+    if (c === '[' || c === ']') {
+      this.pos++
+      return c
+    }
+    if (c === '{' || c === '}' || c === ')') {
+      this.pos++
+      return { op: c }
+    }
+    if (c === '/') {
+      this.pos++
+      const raw = this.readRegular()
+      return { name: raw.replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16))) }
+    }
+    const word = this.readRegular()
+    if (word === '') {
+      this.pos++
+      return { op: c }
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return parseFloat(word)
+    if (word === 'true') return true
+    if (word === 'false') return false
+    if (word === 'null') return null
+    return { op: word }
+  }
+}
+
+function isOp(value: unknown, op?: string): value is { op: string } {
+  return !!value && typeof value === 'object' && 'op' in (value as any) && (op === undefined || (value as any).op === op)
+}
+
+function isName(value: unknown, name?: string): value is PdfName {
+  return !!value && typeof value === 'object' && 'name' in (value as any) && (name === undefined || (value as any).name === name)
+}
+
+function isRef(value: unknown): value is PdfRef {
+  return !!value && typeof value === 'object' && 'ref' in (value as any)
+}
+
+function isString(value: unknown): value is PdfString {
+  return !!value && typeof value === 'object' && 'bytes' in (value as any)
+}
+
+function isDict(value: unknown): value is PdfDict {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !isOp(value) && !isName(value) && !isRef(value) && !isString(value)
+}
+
+/**
+ * Parse one value. Returns operators as { op } so content streams can use the same parser;
+ * "n g R" becomes a reference.
+ */
+function parseValue(lexer: Lexer, first = lexer.next()): PdfValue | undefined {
+  if (first === undefined) return undefined
+  if (first === '[') {
+    const items: PdfValue[] = []
+    for (let token = lexer.next(); token !== undefined && token !== ']'; token = lexer.next()) {
+      const value = parseValue(lexer, token)
+      if (value !== undefined) items.push(value)
+    }
+    return collapseRefs(items)
+  }
+  if (first === '<<') {
+    const dict: PdfDict = {}
+    for (let token = lexer.next(); token !== undefined && token !== '>>'; token = lexer.next()) {
+      if (!isName(token)) continue
+      const start = lexer.pos
+      const value = parseValue(lexer)
+      if (value === undefined) break
+      // "/Key 12 0 R"
+      if (typeof value === 'number') {
+        const after = lexer.pos
+        const generation = lexer.next()
+        const r = lexer.next()
+        if (typeof generation === 'number' && isOp(r, 'R')) {
+          dict[token.name] = { ref: `${value} ${generation}` }
+          continue
+        }
+        lexer.pos = after
+      }
+      dict[token.name] = value
+      if (lexer.pos === start) break
+    }
+    return dict
+  }
+  if (first === ']' || first === '>>') return undefined
+  return first
+}
+
+// Arrays hold refs as three items (n g R); fold them into { ref }
+function collapseRefs(items: PdfValue[]): PdfValue[] {
+  const out: PdfValue[] = []
+  for (let i = 0; i < items.length; i++) {
+    if (typeof items[i] === 'number' && typeof items[i + 1] === 'number' && isOp(items[i + 2], 'R')) {
+      out.push({ ref: `${items[i]} ${items[i + 1]}` })
+      i += 2
+    } else {
+      out.push(items[i])
+    }
+  }
+  return out
+}
+
+// --- Document structure ---------------------------------------------------
+
+class PdfDocument {
+  private objects = new Map<string, PdfObject>()
+  private decoded = new Map<PdfObject, string | null>()
+  private decodedBytes = 0
+
+  constructor(private readonly src: string) {
+    this.readObjects()
+    this.readObjectStreams()
+  }
+
+  private readObjects() {
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(this.src)) !== null) {
+      const key = `${match[1]} ${match[2]}`
+      const lexer = new Lexer(this.src, match.index + match[0].length)
+      const value = parseValue(lexer)
+      if (value === undefined) continue
+      const object: PdfObject = { value }
+
+      const afterValue = lexer.pos
+      const keyword = lexer.next()
+      if (isOp(keyword, 'stream') && isDict(value)) {
+        let start = lexer.pos
+        if (this.src[start] === '\r') start++
+        if (this.src[start] === '\n') start++
+        const declared = typeof value.Length === 'number' ? value.Length : null
+        let end = declared !== null && this.src.slice(start + declared, start + declared + 20).includes('endstream')
+          ? start + declared
+          : this.src.indexOf('endstream', start)
+        if (end < 0) end = this.src.length
+        object.stream = this.src.slice(start, end)
+        pattern.lastIndex = end
+      } else {
+        pattern.lastIndex = Math.max(afterValue, match.index + match[0].length)
+      }
+      // Later definitions (incremental updates) win
+      this.objects.set(key, object)
+    }
+  }
+
+  private readObjectStreams() {
+    for (const object of Array.from(this.objects.values())) {
+      if (!isDict(object.value) || !isName(object.value.Type, 'ObjStm') || object.stream === undefined) continue
+      const data = this.decodeStream(object)
+      if (data === null) continue
+      const count = typeof object.value.N === 'number' ? object.value.N : 0
+      const first = typeof object.value.First === 'number' ? object.value.First : 0
+      const header = new Lexer(data)
+      const entries: Array<[number, number]> = []
+      for (let i = 0; i < count; i++) {
+        const number = header.next()
+        const offset = header.next()
+        if (typeof number !== 'number' || typeof offset !== 'number') break
+        entries.push([number, offset])
+      }
+      for (const [number, offset] of entries) {
+        const key = `${number} 0`
+        if (this.objects.has(key)) continue
+        const value = parseValue(new Lexer(data, first + offset))
+        if (value !== undefined) this.objects.set(key, { value })
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value
+    for (let hops = 0; isRef(current) && hops < 10; hops++) {
+      current = this.objects.get(current.ref)?.value
+    }
+    return current
+  }
+
+  objectFor(value: PdfValue | undefined): PdfObject | undefined {
+    return isRef(value) ? this.objects.get(value.ref) : undefined
+  }
+
+  decodeStream(object: PdfObject): string | null {
+    if (object.stream === undefined || !isDict(object.value)) return null
+    if (this.decoded.has(object)) return this.decoded.get(object)!
+    const filter = this.resolve(object.value.Filter)
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : []
+    let data: string | null = object.stream
+    for (const f of filters) {
+      if (!isName(f, 'FlateDecode')) {
+        data = null
+        break
+      }
+      const remaining = MAX_DECODED_BYTES - this.decodedBytes
+      if (remaining <= 0) throw new PdfParseError('PDF content is too large to read')
+      let inflated: Buffer
+      try {
+        inflated = inflateSync(Buffer.from(data, 'latin1'), { maxOutputLength: Math.min(MAX_STREAM_BYTES, remaining) })
+      } catch (error: any) {
+        if (error?.code === 'ERR_BUFFER_TOO_LARGE' && remaining <= MAX_STREAM_BYTES) {
+          throw new PdfParseError('PDF content is too large to read')
+        }
+        data = null
+        break
+      }
+      this.decodedBytes += inflated.length
+      data = inflated.toString('latin1')
+    }
+    // Fonts and forms are shared between pages; decode (and count) each stream once
+    this.decoded.set(object, data)
+    return data
+  }
+
+  get isEncrypted(): boolean {
+    return /\/Encrypt\s/.test(this.src.slice(-4096)) || /\/Encrypt\s+\d+\s+\d+\s+R/.test(this.src)
+  }
+
+  pages(): PdfDict[] {
+    const catalog = Array.from(this.objects.values()).find(object => isDict(object.value) && isName(object.value.Type, 'Catalog'))
+    const root = catalog && isDict(catalog.value) ? this.resolve(catalog.value.Pages) : undefined
+    const pages: PdfDict[] = []
+    const seen = new Set<PdfValue>()
+    const walk = (node: PdfValue | undefined, inherited: PdfDict) => {
+      if (!isDict(node) || seen.has(node) || pages.length >= MAX_PAGES) return
+      seen.add(node)
+      const resources = node.Resources !== undefined ? node.Resources : inherited.Resources
+      if (isName(node.Type, 'Pages') || Array.isArray(this.resolve(node.Kids))) {
+        const kids = this.resolve(node.Kids)
+        for (const kid of Array.isArray(kids) ? kids : []) {
+          walk(this.resolve(kid), { Resources: resources })
+        }
+      } else {
+        pages.push({ ...node, Resources: resources })
+      }
+    }
+    walk(root, {})
+    return pages
+  }
+}
+
+// --- Fonts ----------------------------------------------------------------
+
+interface FontDecoder {
+  /** Bytes per character code */
+  codeLength: number
+  map: Map<number, string> | null
+}
+
+function parseToUnicode(cmap: string): FontDecoder {
+  const map = new Map<number, string>()
+  let codeLength = 1
+  const hexToString = (hex: string) => {
+    let out = ''
+    for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16))
+    return out
+  }
+
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap)
+  if (codespace) codeLength = Math.max(1, codespace[1].length / 2)
+
+  for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || []) {
+    for (const pair of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(pair[1], 16), hexToString(pair[2]))
+    }
+  }
+  for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || []) {
+    for (const range of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const low = parseInt(range[1], 16)
+      const high = Math.min(parseInt(range[2], 16), low + 0xffff)
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-fA-F]*)>/g)).map(m => hexToString(m[1]))
+        targets.forEach((target, i) => map.set(low + i, target))
+      } else {
+        const base = range[3].slice(1, -1)
+        const prefix = hexToString(base.slice(0, -4))
+        const start = parseInt(base.slice(-4) || '0', 16)
+        for (let code = low; code <= high; code++) {
+          map.set(code, prefix + String.fromCharCode(start + code - low))
+        }
+      }
+    }
+  }
+  return { codeLength, map }
+}
+
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+  if (!font?.map) return bytes
+  let out = ''
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    let code = 0
+    for (let j = 0; j < font.codeLength; j++) code = (code << 8) | bytes.charCodeAt(i + j)
+    out += font.map.get(code) ?? ''
+  }
+  return out
+}
+
+function resourceFonts(doc: PdfDocument, resources: PdfValue | undefined): Map<string, FontDecoder> {
+  const fonts = new Map<string, FontDecoder>()
+  const resolved = doc.resolve(resources)
+  const fontDict = isDict(resolved) ? doc.resolve(resolved.Font) : undefined
+  if (!isDict(fontDict)) return fonts
+  for (const [name, ref] of Object.entries(fontDict)) {
+    const font = doc.resolve(ref)
+    if (!isDict(font)) continue
+    const toUnicode = doc.objectFor(font.ToUnicode)
+    const cmap = toUnicode ? doc.decodeStream(toUnicode) : null
+    // Composite fonts without a ToUnicode map use glyph ids that can't be turned back into text
+    const composite = isName(font.Subtype, 'Type0')
+    fonts.set(name, cmap ? parseToUnicode(cmap) : composite ? { codeLength: 2, map: new Map() } : { codeLength: 1, map: null })
+  }
+  return fonts
+}
+
+// --- Content streams ------------------------------------------------------
+
+const MAX_FORM_DEPTH = 4
+
+function streamData(doc: PdfDocument, contents: PdfValue | undefined): string[] {
+  const resolved = doc.resolve(contents)
+  const parts = Array.isArray(resolved) ? resolved : contents !== undefined ? [contents] : []
+  return parts
+    .map(part => doc.objectFor(part))
+    .map(object => (object ? doc.decodeStream(object) : null))
+    .filter((data): data is string => data !== null)
+}
+
+// Text drawn by a content stream, following Form XObjects ("Do") it paints
+function extractContentText(doc: PdfDocument, content: string, resources: PdfValue | undefined, depth: number): string {
+  const fonts = resourceFonts(doc, resources)
+  const resolvedResources = doc.resolve(resources)
+  const xObjects = isDict(resolvedResources) ? doc.resolve(resolvedResources.XObject) : undefined
+  const lexer = new Lexer(content)
+  const operands: PdfValue[] = []
+  let font: FontDecoder | undefined
+  let text = ''
+
+  const append = (value: string) => {
+    text += value
+  }
+  const newline = () => {
+    if (text.length > 0 && !text.endsWith('\n')) text += '\n'
+  }
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOp(token)) {
+      const value = parseValue(lexer, token)
+      if (value !== undefined) operands.push(value)
+      continue
+    }
+    switch (token.op) {
+      case 'BI': {
+        // Inline image data can contain anything; skip to EI
+        const end = lexer.src.indexOf('EI', lexer.pos)
+        lexer.pos = end < 0 ? lexer.src.length : end + 2
+        break
+      }
+      case 'Do': {
+        const name = operands[operands.length - 1]
+        const ref = isName(name) && isDict(xObjects) ? xObjects[name.name] : undefined
+        const form = doc.objectFor(ref)
+        if (depth < MAX_FORM_DEPTH && form && isDict(form.value) && isName(form.value.Subtype, 'Form')) {
+          const data = doc.decodeStream(form)
+          if (data !== null) {
+            newline()
+            append(extractContentText(doc, data, form.value.Resources ?? resources, depth + 1))
+            newline()
+          }
+        }
+        break
+      }
+      case 'Tf': {
+        const name = operands[operands.length - 2]
+        font = isName(name) ? fonts.get(name.name) : undefined
+        break
+      }
+      case 'Tj':
+      case "'":
+      case '"': {
+        if (token.op !== 'Tj') newline()
+        const value = operands[operands.length - 1]
+        if (isString(value)) append(decodeText(value.bytes, font))
+        break
+      }
+      case 'TJ': {
+        const items = operands[operands.length - 1]
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (isString(item)) append(decodeText(item.bytes, font))
+            // Large negative kerning is how many generators draw a space
+            else if (typeof item === 'number' && item < -200 && !text.endsWith(' ')) append(' ')
+          }
+        }
+        break
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = operands[operands.length - 1]
+        if (typeof ty === 'number' && ty !== 0) newline()
+        else if (text.length > 0 && !/\s$/.test(text)) append(' ')
+        break
+      }
+      case 'T*':
+      case 'Tm':
+      case 'ET':
+        newline()
+        break
+    }
+    operands.length = 0
+  }
+
+  return text
+}
+
+function extractPageText(doc: PdfDocument, page: PdfDict): string {
+  const streams = streamData(doc, page.Contents)
+  if (streams.length === 0) return ''
+
+  return extractContentText(doc, streams.join('\n'), page.Resources, 0)
+    // Control characters come from codes a font couldn't map
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n')
+}
+
+/** Extract the text of every page of a PDF. */
+export function extractPdfText(data: Buffer): PdfText {
+  if (data.subarray(0, 1024).toString('latin1').indexOf('%PDF-') < 0) {
+    throw new PdfParseError('Not a PDF file')
+  }
+  const doc = new PdfDocument(data.toString('latin1'))
+  if (doc.isEncrypted) {
+    throw new PdfParseError('Encrypted PDFs are not supported')
+  }
+  const pages = doc.pages()
+  if (pages.length === 0) {
+    throw new PdfParseError('No pages found in PDF')
+  }
+  return {
+    pageCount: pages.length,
+    pages: pages.map(page => extractPageText(doc, page)),
+  }
+}
@@ -0,0 +1,57 @@
+import type { SlideMark } from './align'
+
+/**
+ * Records which slide is on screen during a recording. Every change is stamped with the
+ * recording clock (paused time excluded), so the marks line up with the audio.
+ */
+
+export interface SlideTracker {
+  readonly current: number
+  next(): number
+  previous(): number
+  goTo(slide: number): number
+  pause(): void
+  resume(): void
+  /** Slide changes so far, starting with the first slide at 0ms */
+  marks(): SlideMark[]
+}
+
+export function createSlideTracker(slideCount: number, startSlide = 1): SlideTracker {
+  let activeBeforeMs = 0 // recorded time before the current unpaused stretch
+  let resumedAt: number | null = Date.now()
+  let current = Math.min(Math.max(1, startSlide), slideCount)
+  const marks: SlideMark[] = [{ slide: current, at_ms: 0 }]
+
+  const elapsedMs = () => activeBeforeMs + (resumedAt !== null ? Date.now() - resumedAt : 0)
+
+  const goTo = (slide: number) => {
+    const target = Math.min(Math.max(1, Math.round(slide)), slideCount)
+    if (target === current) return current
+    current = target
+    const atMs = elapsedMs()
+    const last = marks[marks.length - 1]
+    // Clicking through several slides at once only keeps where you landed
+    if (last.at_ms === atMs) last.slide = target
+    else marks.push({ slide: target, at_ms: atMs })
+    return current
+  }
+
+  return {
+    get current() {
+      return current
+    },
+    next: () => goTo(current + 1),
+    previous: () => goTo(current - 1),
+    goTo,
+    pause() {
+      if (resumedAt === null) return
+      activeBeforeMs = elapsedMs()
+      resumedAt = null
+    },
+    resume() {
+      if (resumedAt !== null) return
+      resumedAt = Date.now()
+    },
+    marks: () => marks.map(mark => ({ ...mark })),
+  }
+}
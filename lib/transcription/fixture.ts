@@ -0,0 +1,71 @@
+import type { TranscriptSegment, TranscriptWord } from '@/lib/types'
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './types'
+
+const DEFAULT_FIXTURE_TEXT =
+  'Hi, I am building PitchPractice. Most people rehearse important pitches alone and never get honest feedback. ' +
+  'PitchPractice records your pitch, transcribes it, and scores it against a rubric with quote-cited coaching. ' +
+  'Teams use it to prepare for investor meetings, sales calls, and interviews. ' +
+  'We are looking for pilot customers who want their people to pitch with confidence.'
+
+// Fixed speaking rate so timings are reproducible (150 WPM)
+const SECONDS_PER_WORD = 0.4
+const WORD_GAP_SEC = 0.05
+const SENTENCE_PAUSE_SEC = 0.6
+
+/**
+ * Deterministic provider for tests, CI and offline demos. Never touches the network.
+ * Always returns the same transcript (TRANSCRIPTION_FIXTURE_TEXT or a built-in pitch)
+ * with synthetic timings at a steady pace.
+ */
+export function createFixtureTranscriptionProvider(): TranscriptionProvider {
+  const text = (process.env.TRANSCRIPTION_FIXTURE_TEXT || DEFAULT_FIXTURE_TEXT).trim()
+
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+      if (!request.withTimestamps) {
+        return { text, timings: null }
+      }
+
+      const words: TranscriptWord[] = []
+      const segments: TranscriptSegment[] = []
+      let cursor = 0
+      let segmentStart = 0
+      let segmentWords: string[] = []
+
+      text.split(/\s+/).filter(w => w.length > 0).forEach(word => {
+        const start = cursor
+        const end = start + SECONDS_PER_WORD
+        words.push({ word, start: round(start), end: round(end) })
+        segmentWords.push(word)
+        cursor = end + WORD_GAP_SEC
+
+        // Close a segment at sentence boundaries
+        if (/[.!?]$/.test(word)) {
+          segments.push({ start: round(segmentStart), end: round(end), text: segmentWords.join(' ') })
+          cursor = end + SENTENCE_PAUSE_SEC
+          segmentStart = cursor
+          segmentWords = []
+        }
+      })
+
+      if (segmentWords.length > 0) {
+        segments.push({ start: round(segmentStart), end: round(cursor), text: segmentWords.join(' ') })
+      }
+
+      return {
+        text,
+        timings: {
+          words,
+          segments,
+          duration_sec: words.length > 0 ? round(words[words.length - 1].end) : 0,
+        },
+      }
+    },
+  }
+}
+
+function round(sec: number): number {
+  return Math.round(sec * 100) / 100
+}
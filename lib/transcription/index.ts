@@ -0,0 +1,34 @@
+import { createFixtureTranscriptionProvider } from './fixture'
+import { createLocalTranscriptionProvider } from './local'
+import { createOpenAITranscriptionProvider } from './openai'
+import type { TranscriptionProvider, TranscriptionProviderName } from './types'
+export { getVerbatimPrompt, isVerbatimTranscriptionEnabled } from './verbatim'
+
+export type {
+  TranscriptionProvider,
+  TranscriptionProviderName,
+  TranscriptionRequest,
+  TranscriptionResult,
+} from './types'
+
+const PROVIDERS: Record<TranscriptionProviderName, () => TranscriptionProvider> = {
+  openai: createOpenAITranscriptionProvider,
+  local: createLocalTranscriptionProvider,
+  fixture: createFixtureTranscriptionProvider,
+}
+
+/**
+ * Get the speech-to-text provider selected by TRANSCRIPTION_PROVIDER
+ * ('openai' | 'local' | 'fixture', defaults to 'openai').
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const configured = (process.env.TRANSCRIPTION_PROVIDER || 'openai').toLowerCase()
+
+  if (!Object.hasOwn(PROVIDERS, configured)) {
+    throw new Error(
+      `Unknown TRANSCRIPTION_PROVIDER "${configured}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`
+    )
+  }
+
+  return PROVIDERS[configured as TranscriptionProviderName]()
+}
@@ -0,0 +1,88 @@
+import type { TranscriptWord } from '@/lib/types'
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './types'
+import { getVerbatimPrompt } from './verbatim'
+
+const DEFAULT_URL = 'http://127.0.0.1:8080/inference'
+
+/**
+ * Local/offline provider for a self-hosted Whisper HTTP server.
+ *
+ * Works with the whisper.cpp server (`/inference`) and with OpenAI-compatible
+ * faster-whisper servers (`/v1/audio/transcriptions`) - both accept a multipart
+ * upload and return verbose_json.
+ *
+ * Env: LOCAL_TRANSCRIPTION_URL (full endpoint URL), LOCAL_TRANSCRIPTION_MODEL (optional)
+ */
+export function createLocalTranscriptionProvider(): TranscriptionProvider {
+  const url = process.env.LOCAL_TRANSCRIPTION_URL || DEFAULT_URL
+  const model = process.env.LOCAL_TRANSCRIPTION_MODEL || 'local-whisper'
+
+  return {
+    name: 'local',
+    model,
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+      const form = new FormData()
+      form.append('file', new Blob([request.audio], { type: request.mimeType }), request.fileName)
+      form.append('model', model)
+      form.append('response_format', 'verbose_json')
+      if (request.language) {
+        form.append('language', request.language)
+      }
+      if (request.verbatim) {
+        // Both servers accept an initial prompt under this name
+        form.append('prompt', getVerbatimPrompt(request.language))
+      }
+      if (request.withTimestamps) {
+        form.append('timestamp_granularities[]', 'word')
+        form.append('timestamp_granularities[]', 'segment')
+        // whisper.cpp server option for per-word timestamps
+        form.append('word_timestamps', 'true')
+      }
+
+      let response: Response
+      try {
+        response = await fetch(url, { method: 'POST', body: form })
+      } catch (error: any) {
+        throw new Error(`Local transcription server unreachable at ${url}: ${error?.message || 'Unknown error'}`)
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '')
+        const error: any = new Error(`Local transcription server returned ${response.status}: ${body.substring(0, 200)}`)
+        error.status = response.status
+        throw error
+      }
+
+      const data: any = await response.json()
+      const text = typeof data.text === 'string' ? data.text.trim() : ''
+
+      if (!request.withTimestamps) {
+        return { text, timings: null }
+      }
+
+      const rawSegments: any[] = Array.isArray(data.segments) ? data.segments : []
+
+      // faster-whisper returns top-level words; whisper.cpp nests them per segment
+      const rawWords: any[] = Array.isArray(data.words)
+        ? data.words
+        : rawSegments.flatMap(seg => (Array.isArray(seg.words) ? seg.words : []))
+
+      const words: TranscriptWord[] = rawWords
+        .filter(w => typeof w.start === 'number' && typeof w.end === 'number')
+        .map(w => ({ word: String(w.word ?? w.text ?? '').trim(), start: w.start, end: w.end }))
+        .filter(w => w.word.length > 0)
+
+      return {
+        text,
+        timings: {
+          words,
+          segments: rawSegments
+            .filter(seg => typeof seg.start === 'number' && typeof seg.end === 'number')
+            .map(seg => ({ start: seg.start, end: seg.end, text: String(seg.text || '').trim() })),
+          duration_sec: typeof data.duration === 'number' ? data.duration : null,
+          ...(request.verbatim ? { verbatim: true } : {}),
+        },
+      }
+    },
+  }
+}
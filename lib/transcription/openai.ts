@@ -0,0 +1,64 @@
+import OpenAI from 'openai'
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './types'
+import { getVerbatimPrompt } from './verbatim'
+
+const DEFAULT_MODEL = 'whisper-1'
+
+/**
+ * OpenAI Whisper provider (default).
+ * Env: OPENAI_API_KEY (required), OPENAI_TRANSCRIPTION_MODEL (optional, defaults to whisper-1)
+ */
+export function createOpenAITranscriptionProvider(): TranscriptionProvider {
+  const model = process.env.OPENAI_TRANSCRIPTION_MODEL || DEFAULT_MODEL
+
+  return {
+    name: 'openai',
+    model,
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is not set')
+      }
+      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+      const file = new File([request.audio], request.fileName, { type: request.mimeType })
+      const prompt = request.verbatim ? getVerbatimPrompt(request.language) : undefined
+
+      if (!request.withTimestamps) {
+        const transcription = await openai.audio.transcriptions.create({
+          file,
+          model,
+          language: request.language,
+          prompt,
+        })
+        return { text: transcription.text, timings: null }
+      }
+
+      const transcription = await openai.audio.transcriptions.create({
+        file,
+        model,
+        language: request.language,
+        prompt,
+        // verbose_json is required for word/segment timestamps
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment'],
+      })
+
+      return {
+        text: transcription.text,
+        timings: {
+          words: (transcription.words || []).map(w => ({
+            word: w.word,
+            start: w.start,
+            end: w.end,
+          })),
+          segments: (transcription.segments || []).map(seg => ({
+            start: seg.start,
+            end: seg.end,
+            text: seg.text.trim(),
+          })),
+          duration_sec: typeof transcription.duration === 'number' ? transcription.duration : null,
+          ...(request.verbatim ? { verbatim: true } : {}),
+        },
+      }
+    },
+  }
+}
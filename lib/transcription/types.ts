@@ -0,0 +1,30 @@
+import type { TranscriptTimings } from '@/lib/types'
+
+export type TranscriptionProviderName = 'openai' | 'local' | 'fixture'
+
+export interface TranscriptionRequest {
+  audio: ArrayBuffer
+  fileName: string
+  mimeType: string
+  language?: string
+  // Request word/segment timestamps (full-file runs); chunk checkpoints only need text
+  withTimestamps?: boolean
+  // Keep disfluencies ("um", "uh", repeats) instead of a cleaned-up transcript (see ./verbatim)
+  verbatim?: boolean
+}
+
+export interface TranscriptionResult {
+  text: string
+  timings: TranscriptTimings | null
+}
+
+/**
+ * Speech-to-text backend used by the transcribe routes.
+ * Implementations throw on failure; an error may carry a numeric `status`
+ * which the routes pass through as the HTTP status code.
+ */
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName
+  model: string
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>
+}
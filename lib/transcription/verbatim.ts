@@ -0,0 +1,22 @@
+/**
+ * Verbatim mode: Whisper models tidy up speech and drop "um"/"uh" unless the prompt
+ * itself is disfluent, so requests in this mode carry a prompt written that way
+ * (in the run's language - an English prompt nudges other languages toward English).
+ * On by default; TRANSCRIPTION_VERBATIM=false turns it off.
+ */
+
+const VERBATIM_PROMPTS: Record<string, string> = {
+  en: 'Umm, so, uh, let me think... like, hmm. Okay, so, um, here is what I, uh, I mean, you know, what we are building.',
+  es: 'Eh, bueno, este... o sea, mmm, pues, lo que, eh, lo que estamos construyendo es, digamos, esto.',
+  fr: 'Euh, bon, alors... ben, en fait, euh, ce que, hum, ce qu\'on construit, du coup, c\'est ça.',
+  de: 'Ähm, also, äh... ja, halt, ähm, was wir, äh, was wir bauen, sozusagen, ist das hier.',
+  ja: 'えー、あの、えっと…まあ、なんか、うーん、私たちが、えー、作っているのは、あの、これです。',
+}
+
+export function getVerbatimPrompt(language: string | undefined): string {
+  return VERBATIM_PROMPTS[language || 'en'] || VERBATIM_PROMPTS.en
+}
+
+export function isVerbatimTranscriptionEnabled(): boolean {
+  return (process.env.TRANSCRIPTION_VERBATIM || 'true').toLowerCase() !== 'false'
+}
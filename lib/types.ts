@@ -1,3 +1,12 @@
+import type { AnalysisJson } from '@/lib/analysis'
+import type { AudioProbe } from '@/lib/audio'
+import type { RunLanguage } from '@/lib/languages'
+import type { AudiencePersona } from '@/lib/personas'
+import type { QAQuestion, RunType } from '@/lib/qa'
+import type { DeckSlide, SlideMark } from '@/lib/slides'
+import type { VideoDelivery } from '@/lib/video'
+import type { AnalysisStageName, AnalysisStageState } from '@/lib/runs/analysis-stages'
+
 export interface Rubric {
   id: string
   name: string
@@ -18,8 +27,35 @@ export interface PitchRun {
   title: string | null
   audio_path: string
   audio_seconds: number | null
+  audio_meta?: AudioProbe | null
+  /** Spoken language (migration 025); missing on rows created before it */
+  language?: RunLanguage
+  /** Silent camera recording and its delivery notes (migration 026, video mode only) */
+  video_path?: string | null
+  video_delivery?: VideoDelivery | null
+  /** Attached PDF deck, its page text and the slide changes recorded with it (migration 027) */
+  deck_path?: string | null
+  deck_slides?: DeckSlide[] | null
+  slide_timings?: SlideMark[] | null
+  /** Script the run was rehearsed from (migration 028) */
+  reference_script?: string | null
+  /** Audience persona the run is analyzed for (migration 030) */
+  persona_snapshot?: AudiencePersona | null
+  /** Q&A answers are child runs of the pitch they answer (migration 029) */
+  run_type?: RunType
+  parent_run_id?: string | null
+  /** Generated audience questions (pitch runs) */
+  qa_questions?: QAQuestion[] | null
+  /** The question this run answers (qa_answer runs) */
+  qa_question?: QAQuestion | null
+  /** Practice session this run is a take of (migration 031) */
+  practice_session_id?: string | null
+  /** Assignment this run was submitted for (migration 035) */
+  assignment_id?: string | null
   transcript: string | null
-  analysis_json: any
+  transcript_timings?: TranscriptTimings | null
+  analysis_json: AnalysisJson | null
+  analysis_stages?: Partial<Record<AnalysisStageName, AnalysisStageState>> | null
   status: 'uploaded' | 'transcribed' | 'analyzed' | 'error'
   error_message: string | null
   rubric_id: string
@@ -27,6 +63,36 @@ export interface PitchRun {
   audio_url?: string | null
 }
 
+export interface TranscriptWord {
+  word: string
+  start: number
+  end: number
+}
+
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+}
+
+// Stretch of audio missing from a transcript stitched from chunks
+export interface TranscriptGap {
+  start: number
+  end: number
+  reason: 'missing' | 'failed'
+}
+
+// Word/segment timestamps (in seconds) persisted alongside the transcript
+export interface TranscriptTimings {
+  words: TranscriptWord[]
+  segments: TranscriptSegment[]
+  duration_sec: number | null
+  /** Only set when the transcript was stitched from chunks with gaps */
+  gaps?: TranscriptGap[]
+  /** Transcribed in verbatim mode, so "um"/"uh" were kept rather than cleaned up */
+  verbatim?: boolean
+}
+
 export interface RunChunk {
   id: string
   run_id: string
@@ -35,6 +101,7 @@ export interface RunChunk {
   end_ms: number
   audio_path: string
   transcript: string | null
+  transcript_timings?: TranscriptTimings | null
   status: 'uploaded' | 'transcribing' | 'transcribed' | 'error'
   error_message: string | null
   created_at: string
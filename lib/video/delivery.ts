@@ -0,0 +1,229 @@
+/**
+ * On-camera delivery notes from frame samples taken in the browser while recording.
+ * Everything here is a rough estimate from small downscaled frames: no vision API is
+ * involved, so "eye contact" means the face was turned towards the camera.
+ */
+
+/** How faces were located: the browser's FaceDetector, or a skin-tone fallback */
+export type VideoFaceDetector = 'face-detector' | 'skin-tone'
+
+export interface VideoFrameSample {
+  /** Seconds into the recording, excluding paused time */
+  t: number
+  /** Face box in 0-1 frame coordinates, or null when no face was found */
+  face: { x: number; y: number; w: number; h: number } | null
+  /** 0-1, how squarely the face is turned towards the camera (null when unknown) */
+  facing: number | null
+  /** 0-1 mean brightness change since the previous sample (null for the first) */
+  motion: number | null
+}
+
+export interface VideoDeliveryFlag {
+  type: 'looking_away' | 'out_of_frame' | 'fidgeting'
+  start_sec: number
+  end_sec: number
+  note: string
+}
+
+export interface VideoDelivery {
+  detector: VideoFaceDetector
+  duration_sec: number
+  sample_count: number
+  eye_contact: {
+    /** Share of face-visible samples turned towards the camera, 0-100 */
+    pct: number | null
+  }
+  movement: {
+    level: 'still' | 'natural' | 'restless' | null
+    mean: number | null
+  }
+  framing: {
+    /** Share of samples with a face in frame, 0-100 */
+    face_visible_pct: number
+    /** Share of face-visible samples with the face roughly centered, 0-100 */
+    centered_pct: number | null
+    face_size: 'too_far' | 'good' | 'too_close' | null
+  }
+  flags: VideoDeliveryFlag[]
+  notes: string[]
+}
+
+export const MAX_VIDEO_SAMPLES = 7200 // 2 per second for an hour
+
+const FACING_THRESHOLD = 0.75
+const MIN_FLAG_SEC = 3
+const STILL_MOTION = 0.01
+const RESTLESS_MOTION = 0.05
+const FIDGET_MOTION = 0.08
+const FIDGET_MIN_SEC = 4
+const SMALL_FACE = 0.15
+const LARGE_FACE = 0.6
+const MAX_FLAGS_PER_TYPE = 10
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function pct(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 100) : null
+}
+
+function formatSeconds(sec: number): string {
+  const total = Math.floor(sec)
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function clamp01(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : null
+}
+
+/** Validate samples posted by the client; malformed entries are dropped. */
+export function parseVideoSamples(value: unknown): VideoFrameSample[] {
+  if (!Array.isArray(value)) return []
+  const samples: VideoFrameSample[] = []
+  for (const entry of value.slice(0, MAX_VIDEO_SAMPLES)) {
+    if (!entry || typeof entry !== 'object') continue
+    const t = (entry as any).t
+    if (typeof t !== 'number' || !Number.isFinite(t) || t < 0) continue
+    const rawFace = (entry as any).face
+    const face = rawFace && typeof rawFace === 'object'
+      ? { x: clamp01(rawFace.x), y: clamp01(rawFace.y), w: clamp01(rawFace.w), h: clamp01(rawFace.h) }
+      : null
+    samples.push({
+      t,
+      face: face && face.x !== null && face.y !== null && face.w !== null && face.h !== null
+        ? { x: face.x, y: face.y, w: face.w, h: face.h }
+        : null,
+      facing: clamp01((entry as any).facing),
+      motion: clamp01((entry as any).motion),
+    })
+  }
+  return samples.sort((a, b) => a.t - b.t)
+}
+
+// Contiguous stretches of samples matching a predicate, at least minSec long
+function stretches(samples: VideoFrameSample[], matches: (sample: VideoFrameSample) => boolean, minSec: number) {
+  const ranges: Array<{ start: number; end: number; samples: VideoFrameSample[] }> = []
+  let current: { start: number; end: number; samples: VideoFrameSample[] } | null = null
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i]
+    const next = samples[i + 1]
+    if (matches(sample)) {
+      current = current ?? { start: sample.t, end: sample.t, samples: [] }
+      current.end = next ? next.t : sample.t
+      current.samples.push(sample)
+    } else if (current) {
+      if (current.end - current.start >= minSec) ranges.push(current)
+      current = null
+    }
+  }
+  if (current && current.end - current.start >= minSec) ranges.push(current)
+  return ranges
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .slice(0, MAX_FLAGS_PER_TYPE)
+}
+
+export function summarizeVideoDelivery(
+  samples: VideoFrameSample[],
+  detector: VideoFaceDetector,
+  durationSec?: number | null
+): VideoDelivery {
+  const duration = durationSec ?? (samples.length > 0 ? samples[samples.length - 1].t : 0)
+  const withFace = samples.filter(sample => sample.face !== null)
+  const withFacing = withFace.filter(sample => sample.facing !== null)
+  const facingCamera = (sample: VideoFrameSample) => sample.facing !== null && sample.facing >= FACING_THRESHOLD
+
+  const eyeContactPct = pct(withFacing.filter(facingCamera).length, withFacing.length)
+
+  const motions = samples.map(sample => sample.motion).filter((m): m is number => m !== null)
+  const meanMotion = motions.length > 0 ? motions.reduce((sum, m) => sum + m, 0) / motions.length : null
+  const movementLevel = meanMotion === null ? null
+    : meanMotion < STILL_MOTION ? 'still'
+    : meanMotion > RESTLESS_MOTION ? 'restless'
+    : 'natural'
+
+  const centered = withFace.filter(sample => {
+    const cx = sample.face!.x + sample.face!.w / 2
+    const cy = sample.face!.y + sample.face!.h / 2
+    return cx >= 0.3 && cx <= 0.7 && cy >= 0.15 && cy <= 0.6
+  })
+  const faceHeight = median(withFace.map(sample => sample.face!.h))
+  const faceSize = faceHeight === null ? null
+    : faceHeight < SMALL_FACE ? 'too_far'
+    : faceHeight > LARGE_FACE ? 'too_close'
+    : 'good'
+
+  const flags: VideoDeliveryFlag[] = [
+    ...stretches(samples, sample => sample.face === null, MIN_FLAG_SEC).map(range => ({
+      type: 'out_of_frame' as const,
+      start_sec: round1(range.start),
+      end_sec: round1(range.end),
+      note: `Out of frame from ${formatSeconds(range.start)} to ${formatSeconds(range.end)}`,
+    })),
+    ...stretches(samples, sample => sample.face !== null && sample.facing !== null && !facingCamera(sample), MIN_FLAG_SEC).map(range => ({
+      type: 'looking_away' as const,
+      start_sec: round1(range.start),
+      end_sec: round1(range.end),
+      note: `Looked away from the camera from ${formatSeconds(range.start)} to ${formatSeconds(range.end)}`,
+    })),
+    ...stretches(samples, sample => sample.motion !== null && sample.motion >= FIDGET_MOTION, FIDGET_MIN_SEC).map(range => ({
+      type: 'fidgeting' as const,
+      start_sec: round1(range.start),
+      end_sec: round1(range.end),
+      note: `Lots of movement from ${formatSeconds(range.start)} to ${formatSeconds(range.end)}`,
+    })),
+  ].sort((a, b) => a.start_sec - b.start_sec)
+
+  const notes: string[] = []
+  const faceVisiblePct = pct(withFace.length, samples.length) ?? 0
+  if (samples.length === 0) {
+    notes.push('No video frames were captured.')
+  } else if (faceVisiblePct < 50) {
+    notes.push(`Your face was only visible ${faceVisiblePct}% of the time. Check the camera angle and lighting.`)
+  }
+  if (eyeContactPct !== null) {
+    if (eyeContactPct >= 70) {
+      notes.push(`Strong camera presence: you faced the camera about ${eyeContactPct}% of the time.`)
+    } else {
+      notes.push(`You faced the camera about ${eyeContactPct}% of the time. Look into the lens, not at the screen, on your key points.`)
+    }
+  }
+  if (movementLevel === 'still') {
+    notes.push('You stayed very still. Natural gestures help you look engaged.')
+  } else if (movementLevel === 'restless') {
+    notes.push('There was a lot of movement on camera. Plant your feet and keep gestures deliberate.')
+  }
+  if (faceSize === 'too_far') {
+    notes.push('You appear small in the frame. Move closer so your face and shoulders fill more of it.')
+  } else if (faceSize === 'too_close') {
+    notes.push('You are very close to the camera. Sit back so your shoulders are in frame.')
+  }
+  const centeredPct = pct(centered.length, withFace.length)
+  if (centeredPct !== null && centeredPct < 60) {
+    notes.push('You were often off-center. Position the camera so your face sits in the upper middle of the frame.')
+  }
+
+  return {
+    detector,
+    duration_sec: round1(duration),
+    sample_count: samples.length,
+    eye_contact: { pct: eyeContactPct },
+    movement: {
+      level: movementLevel,
+      mean: meanMotion !== null ? Math.round(meanMotion * 1000) / 1000 : null,
+    },
+    framing: {
+      face_visible_pct: faceVisiblePct,
+      centered_pct: centeredPct,
+      face_size: faceSize,
+    },
+    flags,
+    notes,
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Pixel-level measurements on small RGBA frames (see recorder.ts for the sampling).
+ * Kept free of DOM types so it can be exercised outside the browser.
+ */
+
+export interface RgbaFrame {
+  width: number
+  height: number
+  /** RGBA bytes, row-major (ImageData.data) */
+  data: Uint8ClampedArray
+}
+
+export interface FaceBox {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+// A face needs at least this share of skin-toned pixels to count
+const MIN_SKIN_SHARE = 0.02
+// Mean mirrored luma difference at which a face counts as fully turned away
+const MIRROR_DIFFERENCE_SCALE = 40
+
+/** Per-pixel luma (0-255) for motion comparisons */
+export function frameLuma(frame: RgbaFrame): Float32Array {
+  const luma = new Float32Array(frame.width * frame.height)
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4
+    luma[i] = 0.299 * frame.data[o] + 0.587 * frame.data[o + 1] + 0.114 * frame.data[o + 2]
+  }
+  return luma
+}
+
+/** Mean absolute luma change between two frames, 0-1 */
+export function frameMotion(previous: Float32Array, current: Float32Array): number {
+  const length = Math.min(previous.length, current.length)
+  if (length === 0) return 0
+  let total = 0
+  for (let i = 0; i < length; i++) {
+    total += Math.abs(current[i] - previous[i])
+  }
+  return total / length / 255
+}
+
+// Classic YCbCr skin range; broad enough for most skin tones under indoor light
+function isSkin(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173
+}
+
+function trimmedRange(counts: number[], total: number, trim: number): [number, number] {
+  let low = 0
+  let seen = 0
+  while (low < counts.length - 1 && seen + counts[low] <= total * trim) seen += counts[low++]
+  let high = counts.length - 1
+  seen = 0
+  while (high > low && seen + counts[high] <= total * trim) seen += counts[high--]
+  return [low, high + 1]
+}
+
+/**
+ * Fallback face locator for browsers without FaceDetector: the bounding box of skin-toned
+ * pixels (trimmed of stray hands and background), with its mirror symmetry as a rough
+ * "turned towards the camera" estimate.
+ */
+export function locateFaceBySkin(frame: RgbaFrame): { face: FaceBox; facing: number } | null {
+  const { width, height, data } = frame
+  const columns = new Array<number>(width).fill(0)
+  const rows = new Array<number>(height).fill(0)
+  let skin = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4
+      if (isSkin(data[o], data[o + 1], data[o + 2])) {
+        columns[x]++
+        rows[y]++
+        skin++
+      }
+    }
+  }
+  if (skin < width * height * MIN_SKIN_SHARE) return null
+
+  const [left, right] = trimmedRange(columns, skin, 0.1)
+  const [top, bottom] = trimmedRange(rows, skin, 0.1)
+  // Faces are roughly as tall as wide; skin running further down is neck and hands
+  const boxBottom = Math.min(bottom, top + Math.round((right - left) * 1.4))
+
+  // A face turned to the camera is close to mirror-symmetric (eyes, nose, shading);
+  // compare each pixel's luma with its mirror across the box's vertical axis
+  let difference = 0
+  let pairs = 0
+  for (let y = top; y < boxBottom; y++) {
+    for (let x = left; x < Math.floor((left + right) / 2); x++) {
+      const mirror = left + right - 1 - x
+      const a = (y * width + x) * 4
+      const b = (y * width + mirror) * 4
+      const lumaA = 0.299 * data[a] + 0.587 * data[a + 1] + 0.114 * data[a + 2]
+      const lumaB = 0.299 * data[b] + 0.587 * data[b + 1] + 0.114 * data[b + 2]
+      difference += Math.abs(lumaA - lumaB)
+      pairs++
+    }
+  }
+  if (pairs === 0) return null
+
+  return {
+    face: {
+      x: left / width,
+      y: top / height,
+      w: (right - left) / width,
+      h: (boxBottom - top) / height,
+    },
+    facing: Math.max(0, 1 - difference / pairs / MIRROR_DIFFERENCE_SCALE),
+  }
+}
+
+/**
+ * Facing score from eye landmarks: eyes centered in the face box mean the head points at
+ * the camera; a turned head pushes both eyes towards one side.
+ */
+export function facingFromEyes(face: FaceBox, eyes: Array<{ x: number; y: number }>): number | null {
+  if (eyes.length < 2 || face.w <= 0) return null
+  const eyesMid = (eyes[0].x + eyes[1].x) / 2
+  const offset = Math.abs(eyesMid - (face.x + face.w / 2)) / face.w
+  return Math.max(0, 1 - offset * 4)
+}
@@ -0,0 +1,6 @@
+export { MAX_VIDEO_SAMPLES, parseVideoSamples, summarizeVideoDelivery } from './delivery'
+export type { VideoDelivery, VideoDeliveryFlag, VideoFaceDetector, VideoFrameSample } from './delivery'
+export { facingFromEyes, frameLuma, frameMotion, locateFaceBySkin } from './frames'
+export type { FaceBox, RgbaFrame } from './frames'
+export { pickVideoMimeType, startVideoCapture, VIDEO_SAMPLE_MS } from './recorder'
+export type { VideoCapture, VideoRecording } from './recorder'
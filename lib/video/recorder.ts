@@ -0,0 +1,182 @@
+'use client'
+
+import type { VideoFaceDetector, VideoFrameSample } from './delivery'
+import { facingFromEyes, frameLuma, frameMotion, locateFaceBySkin, type FaceBox } from './frames'
+
+/**
+ * Records the camera track of a practice stream and samples frames for delivery notes.
+ *
+ * The video is recorded without sound; the audio recorder keeps producing the file that is
+ * transcribed, and the run page plays the two in sync. Frames are downscaled onto a canvas
+ * twice a second and measured locally (FaceDetector where the browser has it, otherwise
+ * skin-tone detection), so no frames leave the device except in the uploaded video.
+ */
+
+export const VIDEO_SAMPLE_MS = 500
+
+const SAMPLE_WIDTH = 96
+const SAMPLE_HEIGHT = 72
+
+// Shape Detection API; only some Chromium builds ship it
+interface DetectedFace {
+  boundingBox: { x: number; y: number; width: number; height: number }
+  landmarks?: Array<{ type: string; locations: Array<{ x: number; y: number }> }>
+}
+interface FaceDetectorLike {
+  detect(image: CanvasImageSource): Promise<DetectedFace[]>
+}
+
+export interface VideoRecording {
+  blob: Blob
+  samples: VideoFrameSample[]
+  detector: VideoFaceDetector
+  /** Recorded time, excluding pauses */
+  durationMs: number
+}
+
+export interface VideoCapture {
+  pause(): void
+  resume(): void
+  /** Stop recording; resolves with the video and samples (null if nothing was recorded) */
+  stop(): Promise<VideoRecording | null>
+  /** Stop and drop everything (recording discarded) */
+  cancel(): void
+}
+
+export function pickVideoMimeType(): string {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4']
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm'
+}
+
+function createFaceDetector(): FaceDetectorLike | null {
+  const FaceDetectorCtor = (window as any).FaceDetector
+  if (!FaceDetectorCtor) return null
+  try {
+    return new FaceDetectorCtor({ fastMode: true, maxDetectedFaces: 1 }) as FaceDetectorLike
+  } catch {
+    return null
+  }
+}
+
+export function startVideoCapture(stream: MediaStream): VideoCapture {
+  const videoStream = new MediaStream(stream.getVideoTracks())
+  const mimeType = pickVideoMimeType()
+  const recorder = new MediaRecorder(videoStream, { mimeType })
+  const parts: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) parts.push(event.data)
+  }
+
+  // Off-screen element to draw frames from; the page shows its own preview
+  const video = document.createElement('video')
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = videoStream
+  video.play().catch(() => {})
+
+  const canvas = document.createElement('canvas')
+  canvas.width = SAMPLE_WIDTH
+  canvas.height = SAMPLE_HEIGHT
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+
+  let faceDetector = createFaceDetector()
+  const samples: VideoFrameSample[] = []
+  let previousLuma: Float32Array | null = null
+  let activeBeforeMs = 0
+  let resumedAt: number | null = Date.now()
+  let sampling = false
+  let finished = false
+
+  const elapsedMs = () => activeBeforeMs + (resumedAt !== null ? Date.now() - resumedAt : 0)
+
+  const takeSample = async () => {
+    if (sampling || resumedAt === null || !context || video.readyState < 2) return
+    sampling = true
+    try {
+      const t = elapsedMs() / 1000
+      context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+      const frame = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+      const luma = frameLuma(frame)
+      const motion = previousLuma ? frameMotion(previousLuma, luma) : null
+      previousLuma = luma
+
+      let face: FaceBox | null = null
+      let facing: number | null = null
+      if (faceDetector) {
+        try {
+          const [detected] = await faceDetector.detect(canvas)
+          if (detected) {
+            const box = detected.boundingBox
+            face = { x: box.x / SAMPLE_WIDTH, y: box.y / SAMPLE_HEIGHT, w: box.width / SAMPLE_WIDTH, h: box.height / SAMPLE_HEIGHT }
+            const eyes = (detected.landmarks || [])
+              .filter(landmark => landmark.type === 'eye' && landmark.locations.length > 0)
+              .map(landmark => ({ x: landmark.locations[0].x / SAMPLE_WIDTH, y: landmark.locations[0].y / SAMPLE_HEIGHT }))
+            facing = facingFromEyes(face, eyes)
+          }
+        } catch {
+          // Detector unusable on this device; fall back for the rest of the recording
+          faceDetector = null
+        }
+      }
+      if (!faceDetector) {
+        const located = locateFaceBySkin(frame)
+        face = located?.face ?? null
+        facing = located?.facing ?? null
+      }
+
+      samples.push({ t: Math.round(t * 10) / 10, face, facing, motion: motion !== null ? Math.round(motion * 1000) / 1000 : null })
+    } finally {
+      sampling = false
+    }
+  }
+
+  const timer = setInterval(takeSample, VIDEO_SAMPLE_MS)
+  recorder.start(3000)
+
+  const finish = (keep: boolean): Promise<VideoRecording | null> => {
+    finished = true
+    clearInterval(timer)
+    const durationMs = elapsedMs()
+    resumedAt = null
+    video.srcObject = null
+    if (recorder.state === 'inactive') return Promise.resolve(null)
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        if (!keep || parts.length === 0) {
+          resolve(null)
+          return
+        }
+        resolve({
+          blob: new Blob(parts, { type: recorder.mimeType || mimeType }),
+          samples,
+          detector: faceDetector ? 'face-detector' : 'skin-tone',
+          durationMs,
+        })
+      }
+      recorder.stop()
+    })
+  }
+
+  let result: Promise<VideoRecording | null> | null = null
+
+  return {
+    pause() {
+      if (finished || resumedAt === null) return
+      activeBeforeMs = elapsedMs()
+      resumedAt = null
+      recorder.pause()
+    },
+    resume() {
+      if (finished || resumedAt !== null) return
+      resumedAt = Date.now()
+      recorder.resume()
+    },
+    stop() {
+      result = result ?? finish(true)
+      return result
+    },
+    cancel() {
+      if (!finished) result = finish(false)
+    },
+  }
+}
@@ -56,6 +56,13 @@ async function createBucket() {
       'audio/mp4',
       'audio/ogg',
       'audio/webm;codecs=opus',
+      // Video mode camera recordings
+      'video/webm',
+      'video/mp4',
+      'video/webm;codecs=vp9',
+      'video/webm;codecs=vp8',
+      // Slide decks attached on the practice page
+      'application/pdf',
     ],
   })
 
@@ -0,0 +1,103 @@
+/**
+ * Backfill script: rewrite legacy pitch_runs.analysis_json rows in the current schema version.
+ * Run with: npx tsx scripts/upgrade-analysis-json.ts [--dry-run]
+ *
+ * The API already upgrades rows on read (upgradeAnalysisJson in lib/analysis), so this is optional;
+ * it lets SQL and reporting queries over analysis_json rely on the current shape too.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { ANALYSIS_SCHEMA_VERSION, upgradeAnalysisJson, validateAnalysisJson } from '../lib/analysis'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+const dryRun = process.argv.includes('--dry-run')
+const PAGE_SIZE = 200
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing environment variables:')
+  console.error('  NEXT_PUBLIC_SUPABASE_URL:', supabaseUrl ? '✓' : '✗')
+  console.error('  SUPABASE_SERVICE_ROLE_KEY:', supabaseServiceKey ? '✓' : '✗')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+async function upgradeAnalysisRows() {
+  console.log(`Upgrading analysis_json to schema version ${ANALYSIS_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}...`)
+
+  let lastId: string | null = null
+  let scanned = 0
+  let upgraded = 0
+  let invalid = 0
+
+  while (true) {
+    let query = supabase
+      .from('pitch_runs')
+      .select('id, analysis_json')
+      .not('analysis_json', 'is', null)
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE)
+
+    if (lastId) {
+      query = query.gt('id', lastId)
+    }
+
+    const { data: runs, error } = await query
+
+    if (error) {
+      console.error('✗ Failed to load runs:', error.message)
+      process.exit(1)
+    }
+    if (!runs || runs.length === 0) {
+      break
+    }
+
+    for (const run of runs) {
+      scanned++
+      if (run.analysis_json?.meta?.schema_version === ANALYSIS_SCHEMA_VERSION) {
+        continue
+      }
+
+      const analysis = upgradeAnalysisJson(run.analysis_json)
+      const errors = validateAnalysisJson(analysis)
+      if (errors.length > 0) {
+        invalid++
+        console.error(`  ✗ ${run.id}: ${errors.slice(0, 3).join('; ')}`)
+        continue
+      }
+
+      if (!dryRun) {
+        const { error: updateError } = await supabase
+          .from('pitch_runs')
+          .update({ analysis_json: analysis })
+          .eq('id', run.id)
+
+        if (updateError) {
+          invalid++
+          console.error(`  ✗ ${run.id}: ${updateError.message}`)
+          continue
+        }
+      }
+      upgraded++
+    }
+
+    lastId = runs[runs.length - 1].id
+  }
+
+  console.log(`✓ Scanned ${scanned} runs, ${dryRun ? 'would upgrade' : 'upgraded'} ${upgraded}`)
+  if (invalid > 0) {
+    console.error(`✗ ${invalid} runs could not be upgraded`)
+    process.exit(1)
+  }
+}
+
+upgradeAnalysisRows().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
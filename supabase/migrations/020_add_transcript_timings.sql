@@ -0,0 +1,9 @@
+-- Add transcript_timings column to pitch_runs table
+-- Stores word- and segment-level timestamps returned by transcription so pacing
+-- and pause analysis can use real timings instead of estimates
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS transcript_timings jsonb;
+
+-- Add comment for documentation
+COMMENT ON COLUMN pitch_runs.transcript_timings IS 'Word/segment timestamps from transcription: { words: [{ word, start, end }], segments: [{ start, end, text }], duration_sec }';
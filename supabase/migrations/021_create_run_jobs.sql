@@ -0,0 +1,130 @@
+-- Migration: Create run_jobs table for background transcription and analysis
+-- Routes enqueue a job and return immediately; workers claim jobs, retry with backoff,
+-- and a reaper recovers jobs whose worker died so pitch_runs.status always converges.
+
+CREATE TABLE IF NOT EXISTS run_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES pitch_runs(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('transcribe', 'analyze')),
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  idempotency_key text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  finished_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One active job per idempotency key (finished jobs don't block new work)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_run_jobs_active_idempotency_key
+  ON run_jobs(idempotency_key)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_run_jobs_idempotency_key ON run_jobs(idempotency_key);
+
+-- Index for workers picking up due jobs
+CREATE INDEX IF NOT EXISTS idx_run_jobs_queued_run_after ON run_jobs(run_after) WHERE status = 'queued';
+
+-- Index for the reaper
+CREATE INDEX IF NOT EXISTS idx_run_jobs_running_locked_at ON run_jobs(locked_at) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_run_jobs_run_id ON run_jobs(run_id);
+
+-- Enable RLS (no policies: only the service role reads/writes jobs)
+ALTER TABLE run_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Claim due jobs for a worker. SKIP LOCKED lets several workers run concurrently.
+CREATE OR REPLACE FUNCTION public.claim_run_jobs(
+  p_worker_id text,
+  p_limit integer DEFAULT 1,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS SETOF public.run_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.run_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      locked_by = p_worker_id,
+      updated_at = now()
+  WHERE j.id IN (
+    SELECT q.id
+    FROM public.run_jobs q
+    WHERE q.status = 'queued'
+      AND q.run_after <= now()
+      AND (p_job_id IS NULL OR q.id = p_job_id)
+    ORDER BY q.run_after ASC, q.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Recover jobs whose worker stopped heartbeating (function timeout, crash, deploy).
+-- Jobs with attempts left are requeued; the rest fail and their run is set to 'error'.
+CREATE OR REPLACE FUNCTION public.reap_stuck_run_jobs(p_stale_after_seconds integer DEFAULT 600)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_requeued integer;
+  v_failed integer;
+BEGIN
+  UPDATE public.run_jobs
+  SET status = 'queued',
+      locked_at = NULL,
+      locked_by = NULL,
+      run_after = now(),
+      last_error = 'Worker timed out',
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_at < now() - make_interval(secs => p_stale_after_seconds)
+    AND attempts < max_attempts;
+
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+
+  WITH failed AS (
+    UPDATE public.run_jobs
+    SET status = 'failed',
+        locked_at = NULL,
+        locked_by = NULL,
+        last_error = 'Worker timed out',
+        finished_at = now(),
+        updated_at = now()
+    WHERE status = 'running'
+      AND locked_at < now() - make_interval(secs => p_stale_after_seconds)
+      AND attempts >= max_attempts
+    RETURNING run_id, type
+  )
+  UPDATE public.pitch_runs p
+  SET status = 'error',
+      error_message = CASE failed.type
+        WHEN 'transcribe' THEN 'Transcription timed out. Please try again.'
+        ELSE 'Analysis timed out. Please try again.'
+      END
+  FROM failed
+  WHERE p.id = failed.run_id;
+
+  GET DIAGNOSTICS v_failed = ROW_COUNT;
+
+  RETURN v_requeued + v_failed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_run_jobs(text, integer, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reap_stuck_run_jobs(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_run_jobs(text, integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reap_stuck_run_jobs(integer) TO service_role;
@@ -0,0 +1,35 @@
+-- Migration: Persist analysis per stage
+-- Analysis runs as independent stages (rubric_scores, summary, line_by_line, chunks, suggestions, premium).
+-- Each stage merges its sections into analysis_json as soon as it finishes, so a failed stage
+-- no longer discards the others, and records its outcome in analysis_stages.
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS analysis_stages jsonb;
+
+COMMENT ON COLUMN pitch_runs.analysis_stages IS 'Per-stage analysis state: { <stage>: { status: running|succeeded|failed|skipped, error, sections, updated_at } }';
+
+-- Merge one stage's sections and state atomically (stages finish concurrently)
+CREATE OR REPLACE FUNCTION public.merge_run_analysis_stage(
+  p_run_id uuid,
+  p_stage text,
+  p_stage_state jsonb,
+  p_sections jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE public.pitch_runs
+  SET analysis_json = CASE
+        WHEN p_sections IS NULL THEN analysis_json
+        ELSE COALESCE(analysis_json, '{}'::jsonb) || p_sections
+      END,
+      analysis_stages = COALESCE(analysis_stages, '{}'::jsonb) || jsonb_build_object(p_stage, p_stage_state)
+  WHERE id = p_run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_run_analysis_stage(uuid, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_run_analysis_stage(uuid, text, jsonb, jsonb) TO service_role;
@@ -0,0 +1,10 @@
+-- Add transcript_timings column to run_chunks table
+-- Stores word- and segment-level timestamps for each checkpoint chunk so the final
+-- transcript can be stitched from chunk transcripts (de-duplicating overlap at chunk
+-- boundaries) instead of re-transcribing the full recording
+
+ALTER TABLE run_chunks
+ADD COLUMN IF NOT EXISTS transcript_timings jsonb;
+
+-- Add comment for documentation
+COMMENT ON COLUMN run_chunks.transcript_timings IS 'Word/segment timestamps relative to the chunk start: { words: [{ word, start, end }], segments: [{ start, end, text }], duration_sec }';
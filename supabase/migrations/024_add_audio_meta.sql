@@ -0,0 +1,9 @@
+-- Add audio_meta column to pitch_runs table
+-- Stores what the server measured about the uploaded recording (lib/audio probeAudio)
+-- when /api/uploads/complete runs; duration_ms is updated from the same probe
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS audio_meta jsonb;
+
+-- Add comment for documentation
+COMMENT ON COLUMN pitch_runs.audio_meta IS 'Server-side audio probe: { format, codec, duration_ms, sample_rate, channels, loudness: { mean_db, peak_db } | null, bytes, source }';
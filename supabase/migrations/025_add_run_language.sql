@@ -0,0 +1,15 @@
+-- Add language column to pitch_runs table
+-- The language the pitch is spoken in (lib/languages.ts); drives transcription,
+-- filler words, pacing norms and the language of the feedback
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+ALTER TABLE pitch_runs
+DROP CONSTRAINT IF EXISTS pitch_runs_language_check;
+
+ALTER TABLE pitch_runs
+ADD CONSTRAINT pitch_runs_language_check CHECK (language IN ('en', 'es', 'fr', 'de', 'ja'));
+
+-- Add comment for documentation
+COMMENT ON COLUMN pitch_runs.language IS 'Spoken language of the run: en, es, fr, de or ja (default en)';
@@ -0,0 +1,14 @@
+-- Add video recording columns to pitch_runs table
+-- Video mode records the camera alongside the audio; the video is stored next to the
+-- audio in the pitchpractice-audio bucket and frame samples taken in the browser are
+-- summarized into delivery notes by POST /api/runs/[id]/video
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS video_path text;
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS video_delivery jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN pitch_runs.video_path IS 'Storage path of the silent camera recording (played in sync with audio_path)';
+COMMENT ON COLUMN pitch_runs.video_delivery IS 'On-camera delivery notes (lib/video summarizeVideoDelivery): { detector, duration_sec, sample_count, eye_contact, movement, framing, flags, notes }';
@@ -0,0 +1,18 @@
+-- Add slide deck columns to pitch_runs table
+-- A PDF deck can be attached to a run; the practice page records when each slide was
+-- shown and the analysis compares time and speech per slide with the deck's text.
+-- The deck is stored next to the audio in the pitchpractice-audio bucket
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS deck_path text;
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS deck_slides jsonb;
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS slide_timings jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN pitch_runs.deck_path IS 'Storage path of the attached PDF slide deck';
+COMMENT ON COLUMN pitch_runs.deck_slides IS 'Text extracted from each deck page: [{ index, text }] (index is the 1-based page number)';
+COMMENT ON COLUMN pitch_runs.slide_timings IS 'Slide changes during the recording: [{ slide, at_ms }] with at_ms on the recording clock (pauses excluded)';
@@ -0,0 +1,9 @@
+-- Add reference script column to pitch_runs table
+-- Runs rehearsed from a written script can carry it; the script analysis stage compares
+-- it with the transcript (skipped passages, ad-libs, reordering, paraphrase fidelity)
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS reference_script text;
+
+-- Add comments for documentation
+COMMENT ON COLUMN pitch_runs.reference_script IS 'Script the run was rehearsed from (pasted or uploaded on the practice page), compared with the transcript in analysis_json.script';
@@ -0,0 +1,30 @@
+-- Add Q&A simulation columns to pitch_runs table
+-- After a pitch run is analyzed, audience questions are generated from it (qa_questions).
+-- Each spoken answer is its own run (run_type 'qa_answer') linked to the pitch through
+-- parent_run_id, carrying the question it answers; its analysis grades the answer
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS run_type text NOT NULL DEFAULT 'pitch';
+
+ALTER TABLE pitch_runs
+DROP CONSTRAINT IF EXISTS pitch_runs_run_type_check;
+
+ALTER TABLE pitch_runs
+ADD CONSTRAINT pitch_runs_run_type_check CHECK (run_type IN ('pitch', 'qa_answer'));
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS parent_run_id uuid REFERENCES pitch_runs(id) ON DELETE CASCADE;
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS qa_questions jsonb;
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS qa_question jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_pitch_runs_parent_run_id ON pitch_runs(parent_run_id);
+
+-- Add comments for documentation
+COMMENT ON COLUMN pitch_runs.run_type IS 'pitch (default) or qa_answer (spoken answer to a question about the parent run)';
+COMMENT ON COLUMN pitch_runs.parent_run_id IS 'For qa_answer runs: the pitch run the question was asked about';
+COMMENT ON COLUMN pitch_runs.qa_questions IS 'For pitch runs: generated audience questions [{ id, question, category, why, expected_points }]';
+COMMENT ON COLUMN pitch_runs.qa_question IS 'For qa_answer runs: snapshot of the question being answered (same shape as a qa_questions item)';
@@ -0,0 +1,60 @@
+-- Audience personas: who a pitch is for (seed investor, enterprise buyer, ...).
+-- Built-in personas live in code (lib/personas/presets.ts); users save their own here.
+-- A run stores a snapshot of its persona so re-analysis is unaffected by later edits.
+CREATE TABLE IF NOT EXISTS audience_personas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  role text NOT NULL DEFAULT '',
+  description text NOT NULL DEFAULT '',
+  priorities jsonb NOT NULL DEFAULT '[]'::jsonb,
+  objections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  expertise text NOT NULL DEFAULT 'informed' CHECK (expertise IN ('novice', 'informed', 'expert')),
+  skepticism text NOT NULL DEFAULT 'medium' CHECK (skepticism IN ('low', 'medium', 'high')),
+  tone text NOT NULL DEFAULT 'direct' CHECK (tone IN ('direct', 'supportive', 'formal', 'academic')),
+  focus jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_personas_user_id ON audience_personas(user_id);
+
+-- Enable RLS
+ALTER TABLE audience_personas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own personas" ON audience_personas;
+CREATE POLICY "Users can view their own personas"
+  ON audience_personas
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own personas" ON audience_personas;
+CREATE POLICY "Users can insert their own personas"
+  ON audience_personas
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own personas" ON audience_personas;
+CREATE POLICY "Users can update their own personas"
+  ON audience_personas
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own personas" ON audience_personas;
+CREATE POLICY "Users can delete their own personas"
+  ON audience_personas
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- update_updated_at_column() is defined in 004_user_rubrics.sql
+DROP TRIGGER IF EXISTS update_audience_personas_updated_at ON audience_personas;
+CREATE TRIGGER update_audience_personas_updated_at
+  BEFORE UPDATE ON audience_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS persona_snapshot jsonb;
+
+COMMENT ON COLUMN pitch_runs.persona_snapshot IS 'Audience persona the run was analyzed for (built-in or from audience_personas), copied at creation';
@@ -0,0 +1,76 @@
+-- Practice sessions: group the takes of one pitch and remember how they are graded.
+-- session_id is the anonymous browser session (as on pitch_runs) so sessions work
+-- before sign-in; claim_pitch_runs assigns them to the user along with their runs.
+CREATE TABLE IF NOT EXISTS practice_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text,
+  rubric_id uuid,
+  rubric_snapshot_json jsonb,
+  pitch_context text,
+  language text NOT NULL DEFAULT 'en',
+  persona_snapshot jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_user_id ON practice_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_session_id ON practice_sessions(session_id);
+
+-- Enable RLS (API routes use the service role; direct access is owner-only)
+ALTER TABLE practice_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Practice sessions select for owner" ON practice_sessions;
+CREATE POLICY "Practice sessions select for owner"
+  ON practice_sessions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_practice_sessions_updated_at ON practice_sessions;
+CREATE TRIGGER update_practice_sessions_updated_at
+  BEFORE UPDATE ON practice_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS practice_session_id uuid REFERENCES practice_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pitch_runs_practice_session_id ON pitch_runs(practice_session_id);
+
+COMMENT ON COLUMN pitch_runs.practice_session_id IS 'Practice session this run is a take of';
+
+-- Claim practice sessions together with runs
+CREATE OR REPLACE FUNCTION public.claim_pitch_runs(p_session_id text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_updated integer;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.pitch_runs
+  SET user_id = v_user_id
+  WHERE user_id IS NULL
+    AND session_id = p_session_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.practice_sessions
+  SET user_id = v_user_id
+  WHERE user_id IS NULL
+    AND session_id = p_session_id;
+
+  RETURN v_updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_pitch_runs(text) TO authenticated;
@@ -0,0 +1,108 @@
+-- Coach/team workspaces: organizations with members and roles.
+-- owner: manages the organization and its members; coach: sees learners' runs, adds
+-- learners and shares rubrics; learner: practices, and their runs are visible to coaches.
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'learner' CHECK (role IN ('owner', 'coach', 'learner')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization_id ON organization_members(organization_id);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Rubrics shared with an organization are readable by all its members
+ALTER TABLE rubrics
+ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rubrics_organization_id ON rubrics(organization_id);
+
+COMMENT ON COLUMN rubrics.organization_id IS 'Organization the rubric is shared with (set by a coach or owner)';
+
+-- Membership checks for policies. SECURITY DEFINER so policies on organization_members
+-- can use them without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+-- Whether the caller is an owner or coach in an organization where p_user_id is a learner
+CREATE OR REPLACE FUNCTION public.is_coach_of(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members coach
+    JOIN public.organization_members learner
+      ON learner.organization_id = coach.organization_id
+    WHERE coach.user_id = auth.uid()
+      AND coach.role IN ('owner', 'coach')
+      AND learner.user_id = p_user_id
+      AND learner.role = 'learner'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_organization_member(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_coach_of(uuid) TO authenticated;
+
+-- Enable RLS (API routes use the service role and check roles themselves)
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organizations select for members" ON organizations;
+CREATE POLICY "Organizations select for members"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (public.is_organization_member(id));
+
+DROP POLICY IF EXISTS "Organization members select for members" ON organization_members;
+CREATE POLICY "Organization members select for members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (public.is_organization_member(organization_id));
+
+-- Coaches can read their learners' runs
+DROP POLICY IF EXISTS "Pitch runs select for coaches" ON public.pitch_runs;
+CREATE POLICY "Pitch runs select for coaches"
+  ON public.pitch_runs
+  FOR SELECT
+  TO authenticated
+  USING (user_id IS NOT NULL AND public.is_coach_of(user_id));
+
+DROP POLICY IF EXISTS "Shared rubrics are readable by organization members" ON rubrics;
+CREATE POLICY "Shared rubrics are readable by organization members"
+  ON rubrics
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IS NOT NULL AND public.is_organization_member(organization_id));
@@ -0,0 +1,83 @@
+-- Human reviewer comments on a run, anchored to a transcript sentence or an audio time range.
+-- Top-level comments start a thread (and carry the anchor and resolved state); replies set parent_id.
+CREATE TABLE IF NOT EXISTS run_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES pitch_runs(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES run_comments(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  sentence_index integer,
+  quote text,
+  start_sec numeric,
+  end_sec numeric,
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (start_sec IS NULL OR start_sec >= 0),
+  CHECK (end_sec IS NULL OR (start_sec IS NOT NULL AND end_sec >= start_sec))
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_comments_run_id ON run_comments(run_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_run_comments_parent_id ON run_comments(parent_id);
+
+COMMENT ON COLUMN run_comments.sentence_index IS 'Index of the transcript sentence the thread is anchored to (as split on the run page)';
+COMMENT ON COLUMN run_comments.quote IS 'The anchored sentence at the time of commenting, kept in case the transcript changes';
+COMMENT ON COLUMN run_comments.start_sec IS 'Start of the anchored audio range in seconds';
+
+DROP TRIGGER IF EXISTS update_run_comments_updated_at ON run_comments;
+CREATE TRIGGER update_run_comments_updated_at
+  BEFORE UPDATE ON run_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether the caller may review a run: its owner or one of the owner's coaches (migration 032)
+CREATE OR REPLACE FUNCTION public.can_review_run(p_run_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.pitch_runs
+    WHERE id = p_run_id
+      AND user_id IS NOT NULL
+      AND (user_id = auth.uid() OR public.is_coach_of(user_id))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_review_run(uuid) TO authenticated;
+
+-- Enable RLS (API routes use the service role and check access themselves)
+ALTER TABLE run_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Run comments select for reviewers" ON run_comments;
+CREATE POLICY "Run comments select for reviewers"
+  ON run_comments
+  FOR SELECT
+  TO authenticated
+  USING (public.can_review_run(run_id));
+
+DROP POLICY IF EXISTS "Run comments insert for reviewers" ON run_comments;
+CREATE POLICY "Run comments insert for reviewers"
+  ON run_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND public.can_review_run(run_id));
+
+-- Any reviewer can resolve a thread; only authors edit their own text (enforced by the API)
+DROP POLICY IF EXISTS "Run comments update for reviewers" ON run_comments;
+CREATE POLICY "Run comments update for reviewers"
+  ON run_comments
+  FOR UPDATE
+  TO authenticated
+  USING (public.can_review_run(run_id))
+  WITH CHECK (public.can_review_run(run_id));
+
+DROP POLICY IF EXISTS "Run comments delete for authors" ON run_comments;
+CREATE POLICY "Run comments delete for authors"
+  ON run_comments
+  FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
@@ -0,0 +1,60 @@
+-- Public read-only share links for a run. Anyone with the token can view the run through
+-- /share/<token> until the link expires or is revoked; no account needed.
+-- scope: feedback (analysis only), transcript (+ transcript), full (+ audio)
+CREATE TABLE IF NOT EXISTS run_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES pitch_runs(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  scope text NOT NULL DEFAULT 'feedback' CHECK (scope IN ('feedback', 'transcript', 'full')),
+  redact_context boolean NOT NULL DEFAULT true,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_run_share_links_run_id ON run_share_links(run_id);
+
+COMMENT ON COLUMN run_share_links.redact_context IS 'Hide the run''s pitch_context from viewers';
+COMMENT ON COLUMN run_share_links.expires_at IS 'NULL means the link does not expire';
+
+-- Count a view of an active link and return it (no rows if the token is unknown, expired or revoked).
+-- Called by the public share API with the service role.
+CREATE OR REPLACE FUNCTION public.record_run_share_view(p_token text)
+RETURNS SETOF public.run_share_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.run_share_links l
+  SET view_count = l.view_count + 1,
+      last_viewed_at = now()
+  WHERE l.token = p_token
+    AND l.revoked_at IS NULL
+    AND (l.expires_at IS NULL OR l.expires_at > now())
+  RETURNING l.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_run_share_view(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_run_share_view(text) TO service_role;
+
+-- Enable RLS (API routes use the service role and check ownership themselves)
+ALTER TABLE run_share_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Run share links select for run owner" ON run_share_links;
+CREATE POLICY "Run share links select for run owner"
+  ON run_share_links
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pitch_runs
+      WHERE pitch_runs.id = run_share_links.run_id
+        AND pitch_runs.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,45 @@
+-- Assignments: a coach sends an organization's learners a rubric (snapshotted), a prompt,
+-- an optional due date and attempt limit. Learners submit runs against it; each submission
+-- is a pitch_runs row with assignment_id set and the assignment's rubric_snapshot_json.
+CREATE TABLE IF NOT EXISTS assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  prompt text,
+  rubric_id uuid REFERENCES rubrics(id) ON DELETE SET NULL,
+  rubric_snapshot_json jsonb NOT NULL,
+  due_at timestamptz,
+  max_attempts integer CHECK (max_attempts IS NULL OR max_attempts > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignments_organization_id ON assignments(organization_id, created_at DESC);
+
+COMMENT ON COLUMN assignments.rubric_snapshot_json IS 'The rubric as it was when the assignment was created; copied onto every submission';
+COMMENT ON COLUMN assignments.max_attempts IS 'NULL means unlimited submissions';
+
+DROP TRIGGER IF EXISTS update_assignments_updated_at ON assignments;
+CREATE TRIGGER update_assignments_updated_at
+  BEFORE UPDATE ON assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Submissions
+ALTER TABLE pitch_runs
+ADD COLUMN IF NOT EXISTS assignment_id uuid REFERENCES assignments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pitch_runs_assignment_id ON pitch_runs(assignment_id, user_id);
+
+COMMENT ON COLUMN pitch_runs.assignment_id IS 'Assignment this run was submitted for (see assignments)';
+
+-- Enable RLS (API routes use the service role and check roles themselves)
+ALTER TABLE assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Assignments select for organization members" ON assignments;
+CREATE POLICY "Assignments select for organization members"
+  ON assignments
+  FOR SELECT
+  TO authenticated
+  USING (public.is_organization_member(organization_id));
@@ -0,0 +1,74 @@
+-- Membership invites: adding someone to an organization creates a pending invite
+-- (accepted_at IS NULL) that they have to accept before they count as a member. Invites
+-- are keyed by email, so they can be created whether or not the account exists yet;
+-- user_id is filled in when the invite is accepted.
+ALTER TABLE organization_members
+ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE organization_members
+ADD COLUMN IF NOT EXISTS invited_email text,
+ADD COLUMN IF NOT EXISTS invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+
+ALTER TABLE organization_members
+DROP CONSTRAINT IF EXISTS organization_members_user_or_email;
+ALTER TABLE organization_members
+ADD CONSTRAINT organization_members_user_or_email CHECK (user_id IS NOT NULL OR invited_email IS NOT NULL);
+
+-- One pending invite per email per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_pending_email
+  ON organization_members(organization_id, lower(invited_email))
+  WHERE accepted_at IS NULL AND invited_email IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_invited_email
+  ON organization_members(lower(invited_email))
+  WHERE accepted_at IS NULL;
+
+COMMENT ON COLUMN organization_members.invited_email IS 'Email the invite was sent to (lowercase)';
+COMMENT ON COLUMN organization_members.accepted_at IS 'NULL while the invite is pending; pending rows grant no access';
+
+-- Creators joined their own organizations. Everyone else was added without being asked,
+-- so their memberships become invites they accept (or decline) from the team page.
+UPDATE organization_members m
+SET accepted_at = COALESCE(m.created_at, now())
+FROM organizations o
+WHERE o.id = m.organization_id
+  AND o.created_by = m.user_id
+  AND m.accepted_at IS NULL;
+
+-- Membership checks only count accepted members
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND accepted_at IS NOT NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_coach_of(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organization_members coach
+    JOIN public.organization_members learner
+      ON learner.organization_id = coach.organization_id
+    WHERE coach.user_id = auth.uid()
+      AND coach.role IN ('owner', 'coach')
+      AND coach.accepted_at IS NOT NULL
+      AND learner.user_id = p_user_id
+      AND learner.role = 'learner'
+      AND learner.accepted_at IS NOT NULL
+  );
+$$;
@@ -0,0 +1,97 @@
+-- Reviewers a run's owner invites by email to read and comment on one run. An invite is
+-- pending (accepted_at IS NULL) until the invitee accepts it; user_id is filled in then.
+CREATE TABLE IF NOT EXISTS run_reviewers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES pitch_runs(id) ON DELETE CASCADE,
+  invited_email text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One invite per email per run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_run_reviewers_run_email ON run_reviewers(run_id, lower(invited_email));
+CREATE INDEX IF NOT EXISTS idx_run_reviewers_user_id ON run_reviewers(user_id) WHERE accepted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_run_reviewers_invited_email ON run_reviewers(lower(invited_email)) WHERE accepted_at IS NULL;
+
+COMMENT ON COLUMN run_reviewers.invited_email IS 'Email the invite was sent to (lowercase)';
+COMMENT ON COLUMN run_reviewers.accepted_at IS 'NULL while the invite is pending; pending rows grant no access';
+
+-- Whether the caller is an accepted reviewer of a run
+CREATE OR REPLACE FUNCTION public.is_run_reviewer(p_run_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.run_reviewers
+    WHERE run_id = p_run_id
+      AND user_id = auth.uid()
+      AND accepted_at IS NOT NULL
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_run_reviewer(uuid) TO authenticated;
+
+-- Reviewers: the run's owner, the owner's coaches (migration 032) and accepted reviewers
+CREATE OR REPLACE FUNCTION public.can_review_run(p_run_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.pitch_runs
+    WHERE id = p_run_id
+      AND user_id IS NOT NULL
+      AND (user_id = auth.uid() OR public.is_coach_of(user_id) OR public.is_run_reviewer(id))
+  );
+$$;
+
+-- Enable RLS (API routes use the service role and check access themselves)
+ALTER TABLE run_reviewers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Run reviewers select for run owner" ON run_reviewers;
+CREATE POLICY "Run reviewers select for run owner"
+  ON run_reviewers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pitch_runs
+      WHERE pitch_runs.id = run_reviewers.run_id
+        AND pitch_runs.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Run reviewers select for reviewer" ON run_reviewers;
+CREATE POLICY "Run reviewers select for reviewer"
+  ON run_reviewers
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Run reviewers delete for run owner" ON run_reviewers;
+CREATE POLICY "Run reviewers delete for run owner"
+  ON run_reviewers
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pitch_runs
+      WHERE pitch_runs.id = run_reviewers.run_id
+        AND pitch_runs.user_id = auth.uid()
+    )
+  );
+
+-- Accepted reviewers read the run they review
+DROP POLICY IF EXISTS "Pitch runs select for reviewers" ON public.pitch_runs;
+CREATE POLICY "Pitch runs select for reviewers"
+  ON public.pitch_runs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_run_reviewer(id));
@@ -0,0 +1,52 @@
+-- Hold a run that just finished uploading to its assignment's max_attempts (migration 035).
+-- Runs are created as 'uploading' and only count as an attempt once uploaded, so the check at
+-- creation can be raced by several pending runs; this is the authoritative one. A run over the
+-- limit is detached from the assignment and stays a plain practice run.
+-- Returns false if the run was detached. Called by the upload API with the service role.
+CREATE OR REPLACE FUNCTION public.claim_assignment_attempt(p_run_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_assignment_id uuid;
+  v_user_id uuid;
+  v_max_attempts integer;
+  v_used integer;
+BEGIN
+  SELECT r.assignment_id, r.user_id, a.max_attempts
+  INTO v_assignment_id, v_user_id, v_max_attempts
+  FROM public.pitch_runs r
+  JOIN public.assignments a ON a.id = r.assignment_id
+  WHERE r.id = p_run_id;
+
+  IF v_assignment_id IS NULL OR v_max_attempts IS NULL THEN
+    RETURN true;
+  END IF;
+
+  -- Serialize claims by the same learner on the same assignment
+  PERFORM pg_advisory_xact_lock(hashtext(v_assignment_id::text || ':' || v_user_id::text));
+
+  SELECT count(*)
+  INTO v_used
+  FROM public.pitch_runs
+  WHERE assignment_id = v_assignment_id
+    AND user_id = v_user_id
+    AND id <> p_run_id
+    AND status IN ('uploaded', 'transcribing', 'transcribed', 'analyzing', 'analyzed');
+
+  IF v_used < v_max_attempts THEN
+    RETURN true;
+  END IF;
+
+  UPDATE public.pitch_runs
+  SET assignment_id = NULL
+  WHERE id = p_run_id;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_assignment_attempt(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_assignment_attempt(uuid) TO service_role;